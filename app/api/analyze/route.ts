@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server"
 import { AdvancedYamlRulesEngine } from "@/lib/advanced-yaml-rules"
-import { parseYAML } from "@/lib/utils" // Assuming parseYAML is now in utils
+import { JenkinsfileParser, isJenkinsfile } from "@/lib/jenkinsfile"
+import { YamlParser, type YamlDocument } from "@/lib/yaml-parser"
+import { detectPlatform } from "@/lib/platform-detection"
 // import { validateYamlSyntax } from "@/lib/validation" // Removed this import
 import type { AnalysisResult, AnalysisConfig } from "@/lib/types"
 
@@ -29,42 +31,46 @@ export async function POST(req: Request) {
     }
 
     let parsedYaml: any
+    let document: YamlDocument
+    const jenkinsfile = isJenkinsfile(content, filename)
     try {
-      parsedYaml = parseYAML(content) // Use the robust parseYAML
+      // Declarative pipelines are Groovy; the parser gives them the same shape as YAML pipelines.
+      // YAML keeps its source positions and GitLab tags such as !reference.
+      document = jenkinsfile ? JenkinsfileParser.parseDocument(content) : YamlParser.parseDocument(content, filename)
+      parsedYaml = document.toJS()
     } catch (parseError: any) {
-      // Catch specific YAML parsing errors from parseYAML utility
       return NextResponse.json(
         {
-          error: "YAML Parsing Error",
-          message: `Failed to parse YAML: ${parseError.message || "Invalid YAML format"}`,
-          details: parseError.mark ? `Line ${parseError.mark.line + 1}, Column ${parseError.mark.column + 1}` : null,
+          error: jenkinsfile ? "Jenkinsfile Parsing Error" : "YAML Parsing Error",
+          message: `Failed to parse ${jenkinsfile ? "Jenkinsfile" : "YAML"}: ${parseError.message || "Invalid YAML format"}`,
+          // Both parsers report 1-based positions
+          details: parseError.mark ? `Line ${parseError.mark.line}, Column ${parseError.mark.column}` : null,
         },
         { status: 400 },
       )
     }
 
-    // Determine platform based on filename or content, or use config
-    let platform: AnalysisResult["platform"] = config.platform || "auto"
-    if (platform === "auto") {
-      if (filename?.includes("github") || content.includes("on:") || content.includes("jobs:")) {
-        platform = "github-actions"
-      } else if (filename?.includes("gitlab") || content.includes("stages:") || content.includes("script:")) {
-        platform = "gitlab-ci"
-      } else if (filename?.includes("bitbucket") || content.includes("pipelines:")) {
-        platform = "bitbucket-pipelines"
-      } else if (filename?.includes("jenkins") || content.includes("pipeline {")) {
-        platform = "jenkins"
-      } else if (filename?.includes("azure-pipelines") || content.includes("trigger:") || content.includes("pool:")) {
-        platform = "azure-devops"
-      } else if (filename?.includes("circleci") || content.includes("version:") || content.includes("workflows:")) {
-        platform = "circleci"
-      } else {
-        platform = "unknown"
+    // Use the platform from the config, or the best candidate of the detector
+    const platformDetection = detectPlatform(parsedYaml ?? {}, jenkinsfile ? (filename ?? "Jenkinsfile") : filename)
+    let platform: AnalysisResult["platform"] = config?.platform || "auto"
+    if (jenkinsfile) {
+      platform = "jenkins"
+    } else if (platform === "auto") {
+      if (platformDetection.ambiguous && config?.ambiguousPlatform === "ask") {
+        return NextResponse.json(
+          {
+            error: "Ambiguous platform",
+            message: "The file matches several platforms; choose one and send it as config.platform",
+            platformDetection,
+          },
+          { status: 409 },
+        )
       }
+      platform = platformDetection.platform
     }
 
     const analyzer = new AdvancedYamlRulesEngine(config)
-    const analysisResult = await analyzer.analyze(parsedYaml, platform, content)
+    const analysisResult = await analyzer.analyze(parsedYaml, platform, content, document, filename)
 
     return NextResponse.json(
       {
@@ -72,6 +78,7 @@ export async function POST(req: Request) {
         platform,
         analysisTime: Date.now(), // Placeholder for actual analysis time
         configUsed: config,
+        platformDetection,
       } as AnalysisResult,
       { status: 200 },
     )
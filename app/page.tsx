@@ -13,6 +13,7 @@ import { FileUpload } from "@/components/file-upload"
 import { UrlInput } from "@/components/url-input"
 import { DirectInput } from "@/components/direct-input"
 import { AnalysisResults } from "@/components/analysis-results"
+import { PlatformDetection } from "@/components/platform-detection"
 import { LoadingSpinner } from "@/components/loading-spinner"
 import { Toast } from "@/components/toast"
 import { ErrorBoundary } from "@/components/error-boundary"
@@ -32,6 +33,8 @@ export default function CICDAnalyzer() {
     maxFileSize: 10 * 1024 * 1024, // 10MB
     timeout: 30000, // 30 seconds
   })
+  // Input of the last analysis, re-analyzed when a platform is chosen
+  const [lastInput, setLastInput] = useState<{ content: string; filename?: string; options?: AnalysisConfig } | null>(null)
   const [toast, setToast] = useState<{ message: string; type: "success" | "error" } | null>(null)
   const [hasShownMobileWarning, setHasShownMobileWarning] = useState(false) // State to track if warning has been shown
 
@@ -53,12 +56,14 @@ export default function CICDAnalyzer() {
     }
   }, [isMobile, hasShownMobileWarning, showToast])
 
-  const handleAnalyze = async (content: string, filename?: string) => {
+  const handleAnalyze = async (content: string, filename?: string, options?: AnalysisConfig) => {
     setIsAnalyzing(true)
+    setLastInput({ content, filename, options })
     try {
-      const result = await analyzeCICD(content, filename, config)
+      const result = await analyzeCICD(content, filename, { ambiguousPlatform: "ask", ...config, ...options })
       setAnalysisResult(result)
-      showToast("Analysis completed successfully!", "success")
+      // Files that match several platforms wait for the user to choose one
+      if (!isAwaitingPlatform(result)) showToast("Analysis completed successfully!", "success")
     } catch (error) {
       console.error("Analysis failed:", error)
       showToast(error instanceof Error ? error.message : "Analysis failed", "error")
@@ -199,6 +204,7 @@ export default function CICDAnalyzer() {
                     <SelectContent>
                       <SelectItem value="auto">Auto-detect</SelectItem>
                       <SelectItem value="github-actions">GitHub Actions</SelectItem>
+                      <SelectItem value="github-action-metadata">GitHub Action (action.yml)</SelectItem>
                       <SelectItem value="gitlab-ci">GitLab CI</SelectItem>
                       <SelectItem value="bitbucket-pipelines">Bitbucket Pipelines</SelectItem>
                     </SelectContent>
@@ -237,6 +243,17 @@ export default function CICDAnalyzer() {
                     Security
                   </Label>
                 </div>
+
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="sha-pins"
+                    checked={config.actionPinning?.requireShaPins ?? false}
+                    onCheckedChange={(checked) =>
+                      setConfig({ ...config, actionPinning: { ...config.actionPinning, requireShaPins: checked } })
+                    }
+                  />
+                  <Label htmlFor="sha-pins">Require SHA Pins</Label>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -300,80 +317,94 @@ export default function CICDAnalyzer() {
           {/* Results Section - with ref for auto-scroll */}
           {analysisResult && !isAnalyzing && (
             <div ref={resultsRef} className="space-y-6">
-              {/* Score Overview */}
-              <Card className="bg-white/70 backdrop-blur-sm border-slate-200/50 shadow-lg">
-                <CardHeader className="flex flex-row items-center justify-between">
-                  <div>
-                    <CardTitle className="flex items-center gap-2">
-                      <div
-                        className={`p-2 rounded-lg ${
-                          analysisResult.score >= 80
-                            ? "bg-green-100 text-green-600"
-                            : analysisResult.score >= 60
-                              ? "bg-yellow-100 text-yellow-600"
-                              : "bg-red-100 text-red-600"
-                        }`}
-                      >
-                        <BarChart3 className="h-5 w-5" />
+              {analysisResult.platformDetection && (
+                <PlatformDetection
+                  detection={analysisResult.platformDetection}
+                  platform={isAwaitingPlatform(analysisResult) ? undefined : analysisResult.platform}
+                  onChoose={(platform) =>
+                    lastInput && handleAnalyze(lastInput.content, lastInput.filename, { ...lastInput.options, platform })
+                  }
+                />
+              )}
+
+              {!isAwaitingPlatform(analysisResult) && (
+                <>
+                  {/* Score Overview */}
+                  <Card className="bg-white/70 backdrop-blur-sm border-slate-200/50 shadow-lg">
+                    <CardHeader className="flex flex-row items-center justify-between">
+                      <div>
+                        <CardTitle className="flex items-center gap-2">
+                          <div
+                            className={`p-2 rounded-lg ${
+                              analysisResult.score >= 80
+                                ? "bg-green-100 text-green-600"
+                                : analysisResult.score >= 60
+                                  ? "bg-yellow-100 text-yellow-600"
+                                  : "bg-red-100 text-red-600"
+                            }`}
+                          >
+                            <BarChart3 className="h-5 w-5" />
+                          </div>
+                          Analysis Results
+                        </CardTitle>
+                        <CardDescription>
+                          Platform: {analysisResult.platform} • Score: {analysisResult.score}/100 •{" "}
+                          {analysisResult.issues.length} issues found
+                        </CardDescription>
                       </div>
-                      Analysis Results
-                    </CardTitle>
-                    <CardDescription>
-                      Platform: {analysisResult.platform} • Score: {analysisResult.score}/100 •{" "}
-                      {analysisResult.issues.length} issues found
-                    </CardDescription>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Button onClick={handleClearAll} variant="outline" size="sm">
-                      Clear All
-                    </Button>
-                    <Select onValueChange={(format) => exportReport(format as any)}>
-                      <SelectTrigger className="w-32">
-                        <SelectValue placeholder="Export" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="markdown">Markdown</SelectItem>
-                        <SelectItem value="json">JSON</SelectItem>
-                        <SelectItem value="csv">CSV</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-red-500">
-                        {analysisResult.issues.filter((i) => i.severity === "error").length}
+                      <div className="flex items-center gap-2">
+                        <Button onClick={handleClearAll} variant="outline" size="sm">
+                          Clear All
+                        </Button>
+                        <Select onValueChange={(format) => exportReport(format as any)}>
+                          <SelectTrigger className="w-32">
+                            <SelectValue placeholder="Export" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="markdown">Markdown</SelectItem>
+                            <SelectItem value="json">JSON</SelectItem>
+                            <SelectItem value="csv">CSV</SelectItem>
+                          </SelectContent>
+                        </Select>
                       </div>
-                      <div className="text-sm text-slate-600">Errors</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-yellow-500">
-                        {analysisResult.issues.filter((i) => i.severity === "warning").length}
+                    </CardHeader>
+                    <CardContent>
+                      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                        <div className="text-center">
+                          <div className="text-2xl font-bold text-red-500">
+                            {analysisResult.issues.filter((i) => i.severity === "error").length}
+                          </div>
+                          <div className="text-sm text-slate-600">Errors</div>
+                        </div>
+                        <div className="text-center">
+                          <div className="text-2xl font-bold text-yellow-500">
+                            {analysisResult.issues.filter((i) => i.severity === "warning").length}
+                          </div>
+                          <div className="text-sm text-slate-600">Warnings</div>
+                        </div>
+                        <div className="text-center">
+                          <div className="text-2xl font-bold text-blue-500">
+                            {analysisResult.issues.filter((i) => i.severity === "info").length}
+                          </div>
+                          <div className="text-sm text-slate-600">Info</div>
+                        </div>
+                        <div className="text-center">
+                          <div className="text-2xl font-bold text-green-500">{analysisResult.optimizations.length}</div>
+                          <div className="text-sm text-slate-600">Optimizations</div>
+                        </div>
+                        <div className="text-center">
+                          <div className="text-2xl font-bold text-purple-500">
+                            {analysisResult.securityReport?.vulnerabilities.length || 0}
+                          </div>
+                          <div className="text-sm text-slate-600">Security</div>
+                        </div>
                       </div>
-                      <div className="text-sm text-slate-600">Warnings</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-blue-500">
-                        {analysisResult.issues.filter((i) => i.severity === "info").length}
-                      </div>
-                      <div className="text-sm text-slate-600">Info</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-green-500">{analysisResult.optimizations.length}</div>
-                      <div className="text-sm text-slate-600">Optimizations</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-purple-500">
-                        {analysisResult.securityReport?.vulnerabilities.length || 0}
-                      </div>
-                      <div className="text-sm text-slate-600">Security</div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
+                    </CardContent>
+                  </Card>
 
-              <AnalysisResults result={analysisResult} />
+                  <AnalysisResults result={analysisResult} />
+                </>
+              )}
             </div>
           )}
         </div>
@@ -385,6 +416,11 @@ export default function CICDAnalyzer() {
   )
 }
 
+// Results of files the analyzer stopped at because their platform is ambiguous
+function isAwaitingPlatform(result: AnalysisResult): boolean {
+  return result.platform === "unknown" && result.platformDetection?.ambiguous === true
+}
+
 function generateMarkdownReport(result: AnalysisResult): string {
   const date = new Date().toLocaleDateString()
 
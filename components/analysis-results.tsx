@@ -139,6 +139,12 @@ export function AnalysisResults({ result }: AnalysisResultsProps) {
         </TabsList>
 
         <TabsContent value="issues" className="space-y-4">
+          {result.includedFiles && (
+            <p className="text-sm text-slate-600">
+              Also analyzed {result.includedFiles.length} referenced file{result.includedFiles.length === 1 ? "" : "s"}:{" "}
+              {result.includedFiles.join(", ")}
+            </p>
+          )}
           {Object.entries(groupedIssues).map(([category, issues]) => (
             <Card key={category} className="bg-white/70 backdrop-blur-sm">
               <CardHeader>
@@ -176,7 +182,9 @@ export function AnalysisResults({ result }: AnalysisResultsProps) {
                             )}
                             {issue.line && (
                               <Badge variant="secondary" className="text-xs">
-                                Line {issue.line}
+                                {issue.file ? `${issue.file}:` : "Line "}
+                                {issue.line}
+                                {issue.range && `:${issue.range.start.column}`}
                               </Badge>
                             )}
                             {issue.fixable && (
@@ -187,6 +195,17 @@ export function AnalysisResults({ result }: AnalysisResultsProps) {
 
                         <AlertDescription className="text-sm text-slate-700">{issue.description}</AlertDescription>
 
+                        {issue.relatedLocations && issue.relatedLocations.length > 0 && (
+                          <ul className="text-xs text-slate-600 space-y-1">
+                            {issue.relatedLocations.map((location, locationIndex) => (
+                              <li key={locationIndex}>
+                                {location.range.file ? `${location.range.file}:` : "Line "}
+                                {location.range.start.line}:{location.range.start.column} — {location.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
                         {issue.suggestion && (
                           <div className="p-3 bg-blue-50 rounded-lg border-l-4 border-blue-400">
                             <p className="text-sm font-medium text-blue-900 mb-1">💡 Suggestion:</p>
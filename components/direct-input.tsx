@@ -139,6 +139,29 @@ pipelines:
           script:
             - npm run build
             - echo "Deploying to production..."`,
+
+    "github-action-metadata": `name: Setup and Test
+description: Installs dependencies and runs the test suite
+
+inputs:
+  node-version:
+    description: Node.js version to use
+    default: "20"
+  test-command:
+    description: Command that runs the tests
+    required: true
+
+runs:
+  using: composite
+  steps:
+    - uses: actions/setup-node@v4
+      with:
+        node-version: \${{ inputs.node-version }}
+        cache: npm
+    - run: npm ci
+      shell: bash
+    - run: \${{ inputs.test-command }}
+      shell: bash`,
   }
 
   return (
@@ -170,6 +193,7 @@ pipelines:
                 >
                   <option value="">Load Example...</option>
                   <option value="github-actions">GitHub Actions</option>
+                  <option value="github-action-metadata">GitHub Action (action.yml)</option>
                   <option value="gitlab-ci">GitLab CI</option>
                   <option value="bitbucket-pipelines">Bitbucket Pipelines</option>
                 </select>
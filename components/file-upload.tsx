@@ -1,38 +1,124 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect, useRef } from "react"
 import { useDropzone } from "react-dropzone"
 import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Upload, File, Copy, Trash2, AlertCircle } from "lucide-react"
+import { Upload, File, Copy, Trash2, AlertCircle, FolderOpen } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { LoadingSpinner } from "@/components/loading-spinner"
 import { validateFile, sanitizeInput } from "@/lib/validation"
+import { isArchiveName } from "@/lib/archive"
+import { FileMapIncludeProvider } from "@/lib/gitlab-includes"
+import { FileMapOrbSource } from "@/lib/circleci-config"
+import { isJenkinsfile } from "@/lib/jenkinsfile"
 import type { AnalysisConfig } from "@/lib/types"
 
 interface FileUploadProps {
-  onAnalyze: (content: string, filename?: string) => void
+  onAnalyze: (content: string, filename?: string, options?: AnalysisConfig) => void
   isAnalyzing: boolean
   config: AnalysisConfig
 }
 
+// Pipeline files looked for in an uploaded project, in order of preference
+const PIPELINE_FILES = [
+  ".gitlab-ci.yml",
+  "bitbucket-pipelines.yml",
+  "azure-pipelines.yml",
+  ".circleci/config.yml",
+  "action.yml",
+  "action.yaml",
+  "Jenkinsfile",
+  ".buildkite/pipeline.yml",
+  ".drone.yml",
+  ".woodpecker.yml",
+  ".travis.yml",
+  "buildspec.yml",
+  "cloudbuild.yaml",
+  "cloudbuild.yml",
+]
+
 export function FileUpload({ onAnalyze, isAnalyzing, config }: FileUploadProps) {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null)
   const [fileContent, setFileContent] = useState<string>("")
   const [error, setError] = useState<string>("")
+  const folderInput = useRef<HTMLInputElement>(null)
+
+  // React does not type the attribute that turns a file input into a folder picker
+  useEffect(() => {
+    folderInput.current?.setAttribute("webkitdirectory", "")
+  }, [])
+
+  // Analyzes the pipeline file of a project; its other YAML files resolve `include:`
+  const analyzeProject = useCallback(
+    (provider: FileMapIncludeProvider, source: string) => {
+      const path =
+        PIPELINE_FILES.find((candidate) => provider.get(candidate) !== undefined) ??
+        provider.paths.find((candidate) => [".github/workflows/", ".woodpecker/", ".tekton/"].some((folder) => candidate.startsWith(folder)))
+      if (!path) {
+        setError(`No pipeline file found in ${source}`)
+        return
+      }
+      const sanitized = sanitizeInput(provider.get(path)!)
+      setFileContent(sanitized)
+      // Orbs saved under .circleci/orbs/ are expanded; without any, orbs are reported as unresolved
+      const orbSource = FileMapOrbSource.fromProject(provider)
+      onAnalyze(sanitized, path, { includeProvider: provider, ...(orbSource.size > 0 ? { orbSource } : {}) })
+    },
+    [onAnalyze],
+  )
+
+  const onFolderSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    setError("")
+    const files = Array.from(event.target.files ?? []).filter((file) => /\.ya?ml$/i.test(file.name) || isJenkinsfile("", file.name))
+    event.target.value = ""
+    if (files.length === 0) {
+      setError("The selected folder contains no YAML files")
+      return
+    }
+    try {
+      const contents: Record<string, string> = {}
+      for (const file of files) contents[file.webkitRelativePath || file.name] = await file.text()
+      const folder = files[0].webkitRelativePath.split("/")[0] || "the selected folder"
+      setUploadedFile(new window.File([], folder))
+      analyzeProject(new FileMapIncludeProvider(contents), folder)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the selected folder")
+    }
+  }
 
   const onDrop = useCallback(
     async (acceptedFiles: File[], rejectedFiles: any[]) => {
       setError("")
 
-      if (rejectedFiles.length > 0) {
-        setError("Invalid file type. Please upload YAML files (.yml, .yaml)")
+      // A bare Jenkinsfile has no extension or MIME type for `accept` to match
+      const jenkinsfile = rejectedFiles.find(
+        (rejection) =>
+          isJenkinsfile("", rejection.file.name) && rejection.errors.every((error: any) => error.code === "file-invalid-type"),
+      )
+      if (rejectedFiles.length > 0 && !jenkinsfile) {
+        setError("Invalid file type. Please upload YAML files (.yml, .yaml), a Jenkinsfile or a project archive (.zip, .tar.gz)")
         return
       }
 
-      const file = acceptedFiles[0]
+      const file = jenkinsfile?.file ?? acceptedFiles[0]
       if (!file) return
 
+      if (isArchiveName(file.name)) {
+        const maxSize = config.maxFileSize ?? Infinity
+        if (file.size > maxSize) {
+          setError(`Archive exceeds the maximum allowed size (${Math.round(maxSize / 1024 / 1024)}MB)`)
+          return
+        }
+        try {
+          setUploadedFile(file)
+          analyzeProject(await FileMapIncludeProvider.fromArchive(await file.arrayBuffer()), file.name)
+        } catch (err) {
+          setError(err instanceof Error ? err.message : "Failed to read the archive")
+        }
+        return
+      }
+
       try {
         const validation = validateFile(file, config)
         if (!validation.isValid) {
@@ -58,15 +144,18 @@ export function FileUpload({ onAnalyze, isAnalyzing, config }: FileUploadProps)
         setError(err instanceof Error ? err.message : "File processing failed")
       }
     },
-    [onAnalyze, config],
+    [onAnalyze, analyzeProject, config],
   )
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       "text/yaml": [".yml", ".yaml"],
-      "text/plain": [".yml", ".yaml"],
+      "text/plain": [".yml", ".yaml", ".jenkinsfile"],
       "application/x-yaml": [".yml", ".yaml"],
+      "application/zip": [".zip"],
+      "application/x-tar": [".tar"],
+      "application/gzip": [".tgz", ".gz"],
     },
     multiple: false,
     maxSize: config.maxFileSize,
@@ -108,12 +197,29 @@ export function FileUpload({ onAnalyze, isAnalyzing, config }: FileUploadProps)
               {isDragActive ? "Drop your YAML file here" : "Drag & drop your YAML file here"}
             </p>
             <p className="text-sm text-slate-500 mt-1">
-              or click to browse (.yml, .yaml files up to {Math.round(config.maxFileSize / 1024 / 1024)}MB)
+              or click to browse (.yml, .yaml or Jenkinsfile up to {Math.round(config.maxFileSize / 1024 / 1024)}MB)
+            </p>
+            <p className="text-xs text-slate-500 mt-1">
+              Drop a project archive (.zip, .tar.gz) to resolve GitLab includes
             </p>
           </div>
         </CardContent>
       </Card>
 
+      <div className="flex justify-center">
+        <input ref={folderInput} type="file" multiple className="hidden" onChange={onFolderSelected} />
+        <Button
+          onClick={() => folderInput.current?.click()}
+          variant="outline"
+          size="sm"
+          disabled={isAnalyzing}
+          className="flex items-center gap-1 bg-transparent"
+        >
+          <FolderOpen className="h-3 w-3" />
+          Select project folder
+        </Button>
+      </div>
+
       {error && (
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
@@ -174,8 +280,16 @@ export function FileUpload({ onAnalyze, isAnalyzing, config }: FileUploadProps)
             <p className="font-medium mb-1">Supported Platforms:</p>
             <ul className="list-disc list-inside space-y-1 ml-2">
               <li>GitHub Actions (.github/workflows/*.yml)</li>
+              <li>GitHub Action metadata (action.yml)</li>
               <li>GitLab CI (.gitlab-ci.yml)</li>
               <li>Bitbucket Pipelines (bitbucket-pipelines.yml)</li>
+              <li>Jenkins declarative pipelines (Jenkinsfile)</li>
+              <li>Buildkite (.buildkite/pipeline.yml)</li>
+              <li>Drone and Woodpecker (.drone.yml, .woodpecker.yml)</li>
+              <li>Travis CI (.travis.yml)</li>
+              <li>AWS CodeBuild (buildspec.yml)</li>
+              <li>Google Cloud Build (cloudbuild.yaml)</li>
+              <li>Tekton and Argo Workflows manifests (.tekton/*.yaml)</li>
             </ul>
           </div>
           <div>
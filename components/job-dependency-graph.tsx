@@ -46,6 +46,8 @@ export function JobDependencyGraph({ dependencyGraph, platform }: JobDependencyG
     switch (platform) {
       case "github-actions":
         return "bg-gray-100 text-gray-800"
+      case "github-action-metadata":
+        return "bg-slate-100 text-slate-800"
       case "gitlab-ci":
         return "bg-orange-100 text-orange-800"
       case "bitbucket-pipelines":
@@ -56,6 +58,10 @@ export function JobDependencyGraph({ dependencyGraph, platform }: JobDependencyG
         return "bg-blue-100 text-blue-800"
       case "circleci":
         return "bg-green-100 text-green-800"
+      case "tekton":
+        return "bg-red-100 text-red-800"
+      case "argo-workflows":
+        return "bg-amber-100 text-amber-800"
       default:
         return "bg-gray-100 text-gray-800"
     }
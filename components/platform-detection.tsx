@@ -0,0 +1,79 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Fingerprint, AlertTriangle } from "lucide-react"
+import type { PlatformDetectionResult } from "@/lib/types"
+
+interface PlatformDetectionProps {
+  detection: PlatformDetectionResult
+  // Platform the file was analyzed as, when it differs from the detected one
+  platform?: string
+  // Re-runs the analysis as the chosen platform
+  onChoose?: (platform: string) => void
+}
+
+const formatPlatform = (platform: string) => platform.replace(/-/g, " ").replace(/\b\w/g, (l) => l.toUpperCase())
+
+const getConfidenceColor = (confidence: number) => {
+  if (confidence >= 0.8) return "bg-green-100 text-green-800"
+  if (confidence >= 0.5) return "bg-yellow-100 text-yellow-800"
+  return "bg-red-100 text-red-800"
+}
+
+export function PlatformDetection({ detection, platform, onChoose }: PlatformDetectionProps) {
+  const candidates = detection.candidates ?? []
+  const chosen = platform && platform !== detection.platform ? platform : undefined
+
+  return (
+    <Card className="bg-white/70 backdrop-blur-sm border-slate-200/50 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {detection.ambiguous ? <AlertTriangle className="h-5 w-5 text-yellow-500" /> : <Fingerprint className="h-5 w-5" />}
+          Platform Detection
+        </CardTitle>
+        <CardDescription>
+          {chosen
+            ? `Analyzed as ${formatPlatform(chosen)}, chosen over the detected ${formatPlatform(detection.platform)}`
+            : detection.ambiguous
+              ? "The file matches more than one platform about equally well"
+              : `Detected ${formatPlatform(detection.platform)} from the evidence below`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {candidates.length === 0 ? (
+          <div className="text-sm text-slate-600">No platform signature matched the file</div>
+        ) : (
+          candidates.map((candidate, index) => (
+            <div
+              key={candidate.platform}
+              className={`flex items-start justify-between gap-4 p-3 rounded-lg ${index === 0 ? "bg-blue-50" : "bg-slate-50"}`}
+            >
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{formatPlatform(candidate.platform)}</span>
+                  <Badge className={`text-xs ${getConfidenceColor(candidate.confidence)}`}>
+                    {Math.round(candidate.confidence * 100)}% confidence
+                  </Badge>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {candidate.evidence.map((indicator) => (
+                    <Badge key={indicator} variant="outline" className="text-xs font-mono">
+                      {indicator}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              {onChoose && (detection.ambiguous || chosen) && candidate.platform !== (chosen ?? "") && (
+                <Button size="sm" variant="outline" onClick={() => onChoose(candidate.platform)}>
+                  Analyze as {formatPlatform(candidate.platform)}
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
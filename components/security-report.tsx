@@ -134,7 +134,9 @@ export function SecurityReport({ report }: SecurityReportProps) {
                         </Badge>
                         {vuln.line && (
                           <Badge variant="secondary" className="text-xs">
-                            Line {vuln.line}
+                            {vuln.file ? `${vuln.file}:` : "Line "}
+                            {vuln.line}
+                            {vuln.range && `:${vuln.range.start.column}`}
                           </Badge>
                         )}
                         {vuln.cwe && (
@@ -142,11 +144,32 @@ export function SecurityReport({ report }: SecurityReportProps) {
                             {vuln.cwe}
                           </Badge>
                         )}
+                        {vuln.cve && (
+                          <Badge variant="outline" className="text-xs">
+                            {vuln.cve}
+                          </Badge>
+                        )}
+                        {vuln.cvssScore !== undefined && (
+                          <Badge variant="outline" className="text-xs">
+                            CVSS {vuln.cvssScore.toFixed(1)}
+                          </Badge>
+                        )}
                       </div>
                     </div>
 
                     <AlertDescription className="text-sm">{vuln.description}</AlertDescription>
 
+                    {vuln.relatedLocations && vuln.relatedLocations.length > 0 && (
+                      <ul className="text-xs text-slate-600 space-y-1">
+                        {vuln.relatedLocations.map((location, locationIndex) => (
+                          <li key={locationIndex}>
+                            {location.range.file ? `${location.range.file}:` : "Line "}
+                            {location.range.start.line}:{location.range.start.column} — {location.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
                     <div className="p-3 bg-white rounded-lg border-l-4 border-blue-400">
                       <p className="text-sm font-medium text-blue-900 mb-1">🔧 Recommendation:</p>
                       <p className="text-sm text-blue-800">{vuln.recommendation}</p>
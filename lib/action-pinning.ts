@@ -0,0 +1,97 @@
+// Action reference pinning: parses `uses:` refs and resolves tags to commit SHAs from an
+// offline database, so the analyzer can suggest exact pins without network access.
+
+import type { ActionRefDatabase } from "./types"
+import bundledActionRefs from "./data/action-refs.json"
+
+export interface ActionReference {
+  owner: string
+  repo: string
+  // Sub-directory for actions such as `github/codeql-action/init`
+  path?: string
+  ref: string
+}
+
+export interface ResolvedPin {
+  sha: string
+  tag: string
+}
+
+// Owners whose actions are always allowed to use tags
+export const FIRST_PARTY_OWNERS = ["actions"]
+
+const FULL_SHA_PATTERN = /^[0-9a-f]{40}$/i
+
+export const defaultActionRefDatabase: ActionRefDatabase = loadActionRefDatabase(bundledActionRefs)
+
+// Validates a database file dropped in to replace the bundled one
+export function loadActionRefDatabase(data: unknown): ActionRefDatabase {
+  if (!data || typeof data !== "object" || typeof (data as any).refs !== "object") {
+    throw new Error("Action ref database must be an object with a `refs` map")
+  }
+  const refs: Record<string, string> = {}
+  Object.entries((data as any).refs as Record<string, unknown>).forEach(([key, sha]) => {
+    if (typeof sha === "string" && FULL_SHA_PATTERN.test(sha) && key.includes("@")) {
+      // Owner and repository names are case-insensitive on GitHub; tags are not
+      const [action, tag] = splitAt(key)
+      refs[`${action.toLowerCase()}@${tag}`] = sha.toLowerCase()
+    }
+  })
+  return {
+    version: typeof (data as any).version === "number" ? (data as any).version : 1,
+    updated: typeof (data as any).updated === "string" ? (data as any).updated : undefined,
+    refs,
+  }
+}
+
+function splitAt(value: string): [string, string] {
+  const index = value.lastIndexOf("@")
+  return [value.slice(0, index), value.slice(index + 1)]
+}
+
+// Local (`./`) and Docker (`docker://`) references have no ref to pin
+export function parseActionReference(uses: string): ActionReference | null {
+  if (uses.startsWith("./") || uses.startsWith("docker://") || !uses.includes("@")) return null
+  const [action, ref] = splitAt(uses.trim())
+  const [owner, repo, ...path] = action.split("/")
+  if (!owner || !repo || !ref) return null
+  return { owner, repo, path: path.length > 0 ? path.join("/") : undefined, ref }
+}
+
+export function isFullShaRef(ref: string): boolean {
+  return FULL_SHA_PATTERN.test(ref)
+}
+
+export function isTrustedOwner(owner: string, trustedOwners: string[] = []): boolean {
+  return [...FIRST_PARTY_OWNERS, ...trustedOwners].some((trusted) => trusted.toLowerCase() === owner.toLowerCase())
+}
+
+function versionParts(tag: string): number[] | null {
+  const match = tag.match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?$/)
+  return match ? [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)] : null
+}
+
+// Exact tags resolve directly; moving major/minor tags (`v4`, `v4.1`) resolve to the newest
+// release in the database that they cover
+export function resolvePin(reference: ActionReference, database: ActionRefDatabase = defaultActionRefDatabase): ResolvedPin | undefined {
+  const action = `${reference.owner}/${reference.repo}`.toLowerCase()
+  const exact = database.refs[`${action}@${reference.ref}`]
+  if (exact) return { sha: exact, tag: reference.ref }
+
+  const requested = reference.ref.match(/^v?(\d+)(?:\.(\d+))?$/)
+  if (!requested) return undefined
+  const [major, minor] = [Number(requested[1]), requested[2] !== undefined ? Number(requested[2]) : undefined]
+
+  return Object.entries(database.refs)
+    .map(([key, sha]) => ({ key: splitAt(key), sha }))
+    .filter(({ key: [candidate] }) => candidate === action)
+    .map(({ key: [, tag], sha }) => ({ tag, sha, version: versionParts(tag) }))
+    .filter(({ version }) => version !== null && version[0] === major && (minor === undefined || version[1] === minor))
+    .sort((a, b) => b.version![0] - a.version![0] || b.version![1] - a.version![1] || b.version![2] - a.version![2])
+    .map(({ tag, sha }) => ({ tag, sha }))[0]
+}
+
+export function formatPinnedUses(reference: ActionReference, pin: ResolvedPin): string {
+  const action = [reference.owner, reference.repo, reference.path].filter(Boolean).join("/")
+  return `${action}@${pin.sha} # ${pin.tag}`
+}
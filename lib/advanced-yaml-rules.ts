@@ -13,8 +13,152 @@ import type {
   Recommendation,
   ParsedYAML,
   PlatformAnalyzer,
+  RelatedLocation,
+  SourceRange,
 } from "./types"
 import { EnhancedRulesEngine } from "./rules/rule-engine"
+import { findShellInvocations } from "./rules/base-rules"
+import { YamlDocument, YamlParser, nodeToJS, resolveAlias, type YamlPath } from "./yaml-parser"
+import { JenkinsfileParser, isJenkinsfile } from "./jenkinsfile"
+import type { Pipeline, PipelineJob, PipelineStep } from "./pipeline/model"
+import { buildPipeline } from "./pipeline/builder"
+import { emptyPipeline, jobEntries, toArray } from "./pipeline/builder-utils"
+import { TEKTON_KINDS, tektonManifests, tektonPipelines, tektonResultReferences, tektonTaskSpecs, type TektonTaskSpec } from "./pipeline/tekton"
+import { ARGO_TEMPLATE_TYPES, ARGO_WORKFLOW_KINDS, argoTasks, argoTemplates, argoWorkflowSpecs } from "./pipeline/argo-workflows"
+import { findPrivilegedExecutionChains, type PrivilegedExecutionChain } from "./github-privileged-triggers"
+import {
+  defaultActionRefDatabase,
+  formatPinnedUses,
+  isFullShaRef,
+  isTrustedOwner,
+  parseActionReference,
+  resolvePin,
+} from "./action-pinning"
+import {
+  SHELL_INTERPRETERS,
+  argValues,
+  chmodMode,
+  hasOption,
+  normalizeCommandText,
+  operands,
+  type ShellInvocation,
+} from "./shell-commands"
+import { COMPONENT_KINDS, advisorySeverity, collectComponents, defaultAdvisoryFeed, findAdvisoryMatches } from "./advisories"
+import { resolveGitLabIncludes, type IncludeDiagnostic } from "./gitlab-includes"
+import { expandGitLabTemplates, type TemplateDiagnostic } from "./gitlab-extends"
+import { GITLAB_RESERVED_KEYWORDS } from "./pipeline/gitlab-ci"
+import { findLocalUses, resolveGitHubReusables, type ReusableDiagnostic } from "./github-reusables"
+import { findPipelineProblems, simulateGitLabPipeline, type PipelineProblem } from "./gitlab-simulator"
+import { isDynamicImage, parseImage } from "./container-images"
+import { expandAzureTemplates, type AzureTemplateDiagnostic } from "./azure-templates"
+import { expandCircleCIConfig, type CircleCIDiagnostic } from "./circleci-config"
+import { BUILDKITE_STEP_TYPES, buildkiteStepKey, collectBuildkiteSteps } from "./pipeline/buildkite"
+import { collectDroneSteps, droneStepsKey } from "./pipeline/drone"
+import { collectTravisJobs } from "./pipeline/travis-ci"
+import { CODEBUILD_PHASES, collectBatchBuilds } from "./pipeline/codebuild"
+import { CLOUD_BUILD_SUBSTITUTIONS, cloudBuildStepId, findSubstitutions } from "./pipeline/cloud-build"
+import { ProjectRuleSettings, loadProjectConfig, vulnerabilitySeverity, type ProjectConfigDiagnostic } from "./project-config"
+
+const INCLUDE_ISSUES: Record<IncludeDiagnostic["kind"], { title: string; ruleId: string; severity: Issue["severity"] }> = {
+  missing: { title: "Included file not found", ruleId: "gl-include-not-found", severity: "error" },
+  invalid: { title: "Invalid included file", ruleId: "gl-include-invalid", severity: "error" },
+  limit: { title: "Include limit exceeded", ruleId: "gl-include-limit", severity: "error" },
+  unresolved: { title: "Include not resolved", ruleId: "gl-include-unresolved", severity: "info" },
+}
+
+const CONFIG_ISSUES: Record<ProjectConfigDiagnostic["kind"], { title: string; ruleId: string; severity: Issue["severity"] }> = {
+  invalid: { title: "Invalid project configuration", ruleId: "config-invalid", severity: "error" },
+  missing: { title: "Extended configuration not found", ruleId: "config-extends-not-found", severity: "error" },
+  cycle: { title: "Configuration extends itself", ruleId: "config-extends-cycle", severity: "error" },
+  limit: { title: "Extends limit exceeded", ruleId: "config-extends-limit", severity: "warning" },
+  unresolved: { title: "Extended configuration not resolved", ruleId: "config-extends-unresolved", severity: "info" },
+}
+
+const REUSABLE_ISSUES: Record<ReusableDiagnostic["kind"], { title: string; ruleId: string }> = {
+  missing: { title: "Called workflow or action not found", ruleId: "gh-reusable-not-found" },
+  invalid: { title: "Invalid called workflow or action", ruleId: "gh-reusable-invalid" },
+  cycle: { title: "Recursive workflow or action call", ruleId: "gh-reusable-cycle" },
+  limit: { title: "Nesting limit exceeded", ruleId: "gh-reusable-limit" },
+  "unknown-input": { title: "Undeclared input", ruleId: "gh-reusable-unknown-input" },
+  "missing-input": { title: "Missing required input", ruleId: "gh-reusable-missing-input" },
+  "input-type": { title: "Input type mismatch", ruleId: "gh-reusable-input-type" },
+}
+
+const TEMPLATE_ISSUES: Record<TemplateDiagnostic["kind"], { title: string; ruleId: string }> = {
+  cycle: { title: "Circular template inheritance", ruleId: "gl-template-cycle" },
+  undefined: { title: "Undefined template", ruleId: "gl-template-undefined" },
+  limit: { title: "Template nesting limit exceeded", ruleId: "gl-template-limit" },
+  invalid: { title: "Invalid template reference", ruleId: "gl-template-invalid" },
+}
+
+const AZURE_TEMPLATE_ISSUES: Record<AzureTemplateDiagnostic["kind"], { title: string; ruleId: string }> = {
+  missing: { title: "Template not found", ruleId: "azure-template-not-found" },
+  invalid: { title: "Invalid template", ruleId: "azure-template-invalid" },
+  cycle: { title: "Recursive template", ruleId: "azure-template-cycle" },
+  limit: { title: "Template limit exceeded", ruleId: "azure-template-limit" },
+  unresolved: { title: "Template not resolved", ruleId: "azure-template-unresolved" },
+  "unknown-parameter": { title: "Undeclared template parameter", ruleId: "azure-template-unknown-parameter" },
+  "missing-parameter": { title: "Missing template parameter", ruleId: "azure-template-missing-parameter" },
+  "parameter-type": { title: "Template parameter type mismatch", ruleId: "azure-template-parameter-type" },
+}
+
+const CIRCLECI_ISSUES: Record<CircleCIDiagnostic["kind"], { title: string; ruleId: string }> = {
+  "unknown-command": { title: "Undefined command", ruleId: "circleci-unknown-command" },
+  "unknown-executor": { title: "Undefined executor", ruleId: "circleci-unknown-executor" },
+  "unknown-job": { title: "Undefined job in workflow", ruleId: "circleci-unknown-job" },
+  "unknown-orb": { title: "Orb not imported", ruleId: "circleci-unknown-orb" },
+  "orb-not-found": { title: "Orb not found", ruleId: "circleci-orb-not-found" },
+  "orb-unresolved": { title: "Orb not resolved", ruleId: "circleci-orb-unresolved" },
+  invalid: { title: "Invalid reusable configuration", ruleId: "circleci-invalid-reference" },
+  cycle: { title: "Recursive command or orb", ruleId: "circleci-reference-cycle" },
+  "unknown-parameter": { title: "Undeclared parameter", ruleId: "circleci-unknown-parameter" },
+  "missing-parameter": { title: "Missing parameter", ruleId: "circleci-missing-parameter" },
+  "parameter-type": { title: "Parameter type mismatch", ruleId: "circleci-parameter-type" },
+}
+
+const PIPELINE_PROBLEM_ISSUES: Record<
+  PipelineProblem["kind"],
+  { title: (problem: PipelineProblem) => string; ruleId: string; severity: Issue["severity"]; suggestion: string }
+> = {
+  "never-runs": {
+    title: (problem) => `Job "${problem.job}" never runs`,
+    ruleId: "gl-job-never-runs",
+    severity: "warning",
+    suggestion: "Fix the job's rules so some pipeline includes it, or remove the job",
+  },
+  "excluded-need": {
+    title: (problem) => `Job "${problem.job}" needs an excluded job`,
+    ruleId: "gl-needs-excluded-job",
+    severity: "error",
+    suggestion: "Give both jobs the same rules, or mark the need as `optional: true`",
+  },
+  "undefined-need": {
+    title: (problem) => `Job "${problem.job}" needs an undefined job`,
+    ruleId: "gl-needs-undefined-job",
+    severity: "error",
+    suggestion: "Name an existing job in needs, or remove the entry",
+  },
+  "needs-cycle": {
+    title: () => "Circular needs",
+    ruleId: "gl-needs-cycle",
+    severity: "error",
+    suggestion: "Remove one of the needs so the jobs form a DAG",
+  },
+}
+
+// Platforms whose jobs and steps are counted from the pipeline model
+const MODEL_COUNTED_PLATFORMS = [
+  "azure-pipelines",
+  "jenkins",
+  "buildkite",
+  "drone",
+  "woodpecker",
+  "travis-ci",
+  "aws-codebuild",
+  "google-cloud-build",
+  "tekton",
+  "argo-workflows",
+]
 
 export class AdvancedYamlRulesEngine {
   private config: AnalysisConfig
@@ -24,6 +168,10 @@ export class AdvancedYamlRulesEngine {
   private optimizations: Optimization[] = []
   private securityVulnerabilities: SecurityVulnerability[] = []
   private parsedYAML: ParsedYAML = {}
+  private document: YamlDocument = new YamlDocument("", null)
+  private pipeline: Pipeline = emptyPipeline("unknown")
+  private filename?: string
+  private ruleSettings = new ProjectRuleSettings()
   private platformAnalyzers: Map<string, PlatformAnalyzer> = new Map()
   private enhancedRulesEngine: EnhancedRulesEngine
 
@@ -44,16 +192,43 @@ export class AdvancedYamlRulesEngine {
 
   private initializePlatformAnalyzers(): void {
     this.platformAnalyzers.set("github-actions", new GitHubActionsAnalyzer(this))
+    this.platformAnalyzers.set("github-action-metadata", new ActionMetadataAnalyzer(this))
     this.platformAnalyzers.set("gitlab-ci", new GitLabCIAnalyzer(this))
     this.platformAnalyzers.set("bitbucket-pipelines", new BitbucketPipelinesAnalyzer(this))
+    this.platformAnalyzers.set("azure-pipelines", new AzurePipelinesAnalyzer(this))
+    this.platformAnalyzers.set("azure-devops", new AzurePipelinesAnalyzer(this))
+    this.platformAnalyzers.set("circleci", new CircleCIAnalyzer(this))
+    this.platformAnalyzers.set("jenkins", new JenkinsAnalyzer(this))
+    this.platformAnalyzers.set("buildkite", new BuildkiteAnalyzer(this))
+    this.platformAnalyzers.set("drone", new DroneAnalyzer(this, "drone"))
+    this.platformAnalyzers.set("woodpecker", new DroneAnalyzer(this, "woodpecker"))
+    this.platformAnalyzers.set("travis-ci", new TravisAnalyzer(this))
+    this.platformAnalyzers.set("aws-codebuild", new CodeBuildAnalyzer(this))
+    this.platformAnalyzers.set("google-cloud-build", new CloudBuildAnalyzer(this))
+    this.platformAnalyzers.set("tekton", new TektonAnalyzer(this))
+    this.platformAnalyzers.set("argo-workflows", new ArgoWorkflowsAnalyzer(this))
   }
 
-  async analyze(parsedYAML: ParsedYAML, platform: string, rawContent: string): Promise<AnalysisResult> {
+  async analyze(
+    parsedYAML: ParsedYAML,
+    platform: string,
+    rawContent: string,
+    document?: YamlDocument,
+    filename?: string,
+  ): Promise<AnalysisResult> {
     try {
       this.reset()
+      this.filename = filename
+      await this.loadProjectConfig()
       this.rawContent = rawContent
       this.contentLines = rawContent.split("\n")
+      this.document = document ?? this.parseDocument(rawContent, platform)
+      if (platform === "gitlab-ci") parsedYAML = this.expandTemplates(await this.resolveIncludes(parsedYAML))
+      if (platform === "github-actions") parsedYAML = await this.resolveReusables(parsedYAML)
+      if (platform === "azure-pipelines" || platform === "azure-devops") parsedYAML = await this.resolveAzureTemplates(parsedYAML)
+      if (platform === "circleci") parsedYAML = await this.resolveCircleCIConfig(parsedYAML)
       this.parsedYAML = parsedYAML
+      this.pipeline = this.buildPipelineModel(parsedYAML, platform)
 
       // Validate input
       this.validateInput(parsedYAML, platform, rawContent)
@@ -100,6 +275,219 @@ export class AdvancedYamlRulesEngine {
     this.optimizations = []
     this.securityVulnerabilities = []
     this.parsedYAML = {}
+    this.document = new YamlDocument("", null)
+    this.pipeline = emptyPipeline("unknown")
+    this.filename = undefined
+    this.ruleSettings = new ProjectRuleSettings()
+  }
+
+  // Rule settings come from the posted .reviewci.yml, or else the one next to the analyzed file
+  private async loadProjectConfig(): Promise<void> {
+    const { settings, diagnostics } = await loadProjectConfig(this.config.projectConfig, this.config.includeProvider)
+    this.ruleSettings = settings
+    diagnostics.forEach((diagnostic) => {
+      const { title, ruleId, severity } = CONFIG_ISSUES[diagnostic.kind]
+      this.addIssue({
+        title,
+        description: diagnostic.message,
+        severity,
+        category: "structure",
+        ruleId,
+        suggestion:
+          diagnostic.kind === "unresolved"
+            ? "Upload the project folder or an archive of the repository to apply the extended configuration"
+            : diagnostic.didYouMean
+              ? `Use "${diagnostic.didYouMean}"`
+              : "Fix the configuration; rules run with their defaults until it is valid",
+        fixable: diagnostic.didYouMean !== undefined,
+        line: diagnostic.range?.start.line,
+        range: diagnostic.range,
+      })
+    })
+  }
+
+  private buildPipelineModel(parsedYAML: ParsedYAML, platform: string): Pipeline {
+    try {
+      return buildPipeline(parsedYAML, platform, this.document)
+    } catch (error) {
+      this.addIssue({
+        title: "Pipeline model error",
+        description: `Could not build the pipeline model: ${error instanceof Error ? error.message : "Unknown error"}`,
+        severity: "warning",
+        category: "linting",
+        ruleId: "pipeline-model-error",
+        fixable: false,
+      })
+      return emptyPipeline(platform)
+    }
+  }
+
+  // Merges the files named by GitLab `include:` into the document before anything is analyzed
+  private async resolveIncludes(parsedYAML: ParsedYAML): Promise<ParsedYAML> {
+    if (parsedYAML.include === undefined || !this.document.contents) return parsedYAML
+    const range = this.document.getKeyRange(["include"])
+
+    const provider = this.config.includeProvider
+    if (!provider) {
+      this.addIssue({
+        title: "Includes not resolved",
+        description: "The configuration includes other files, which were not analyzed",
+        severity: "info",
+        category: "structure",
+        ruleId: "gl-include-unresolved",
+        suggestion: "Upload the project folder or an archive of the repository to analyze the included files",
+        line: range?.start.line,
+        range,
+      })
+      return parsedYAML
+    }
+
+    const resolution = await resolveGitLabIncludes(this.document, provider)
+    resolution.diagnostics.forEach((diagnostic) => {
+      const { title, ruleId, severity } = INCLUDE_ISSUES[diagnostic.kind]
+      this.addIssue({
+        title,
+        description: diagnostic.message,
+        severity,
+        category: "structure",
+        ruleId,
+        suggestion:
+          diagnostic.kind === "unresolved"
+            ? "Findings in this include are not reported; provide its contents to analyze it"
+            : "Fix the include so GitLab can build the pipeline; it rejects the configuration otherwise",
+        line: diagnostic.range?.start.line,
+        range: diagnostic.range,
+      })
+    })
+    this.document = resolution.document
+    return resolution.document.toJS() as ParsedYAML
+  }
+
+  // Inlines local reusable workflows and composite actions so their jobs and steps are analyzed
+  private async resolveReusables(parsedYAML: ParsedYAML): Promise<ParsedYAML> {
+    const localUses = findLocalUses(this.document)
+    const provider = this.config.includeProvider
+    if (!provider) {
+      if (localUses.length === 0) return parsedYAML
+      this.addIssue({
+        title: "Local workflows and actions not resolved",
+        description: `The workflow uses ${localUses.length} local workflow(s) or action(s), which were not analyzed`,
+        severity: "info",
+        category: "structure",
+        ruleId: "gh-reusable-unresolved",
+        suggestion: "Upload the project folder or an archive of the repository to analyze them",
+        line: localUses[0].range.start.line,
+        range: localUses[0].range,
+      })
+      return parsedYAML
+    }
+
+    const resolution = await resolveGitHubReusables(this.document, provider)
+    resolution.diagnostics.forEach((diagnostic) => {
+      const { title, ruleId } = REUSABLE_ISSUES[diagnostic.kind]
+      const isInput = diagnostic.kind.endsWith("input") || diagnostic.kind === "input-type"
+      this.addIssue({
+        title,
+        description: diagnostic.message,
+        severity: isInput && diagnostic.callee === "action" ? "warning" : "error",
+        category: isInput ? "linting" : "structure",
+        ruleId,
+        suggestion: isInput
+          ? "Pass exactly the inputs and secrets the called workflow or action declares"
+          : "Fix the reference so GitHub can load the workflow or action",
+        line: diagnostic.range?.start.line,
+        range: diagnostic.range,
+      })
+    })
+    if (resolution.files.length === 0) return parsedYAML
+    this.document = resolution.document
+    return resolution.document.toJS() as ParsedYAML
+  }
+
+  // Inlines Azure templates and parameters so stages, jobs and steps are analyzed as they run
+  private async resolveAzureTemplates(parsedYAML: ParsedYAML): Promise<ParsedYAML> {
+    if (!this.document.contents) return parsedYAML
+
+    const expansion = await expandAzureTemplates(this.document, this.config.includeProvider)
+    expansion.diagnostics.forEach((diagnostic) => {
+      const { title, ruleId } = AZURE_TEMPLATE_ISSUES[diagnostic.kind]
+      const isParameter = diagnostic.kind.includes("parameter")
+      this.addIssue({
+        title,
+        description: diagnostic.message,
+        severity: diagnostic.kind === "unresolved" ? "info" : "error",
+        category: isParameter ? "linting" : "structure",
+        ruleId,
+        suggestion: isParameter
+          ? "Pass exactly the parameters the template declares, with values of the declared type"
+          : diagnostic.kind === "unresolved"
+            ? "Upload the project folder or an archive of the repository to analyze the template"
+            : "Fix the template reference so Azure Pipelines can load it",
+        line: diagnostic.range?.start.line,
+        range: diagnostic.range,
+      })
+    })
+    this.document = expansion.document
+    return expansion.document.toJS() as ParsedYAML
+  }
+
+  // Inlines CircleCI commands, executors, parameters and orbs so jobs are analyzed as they run
+  private async resolveCircleCIConfig(parsedYAML: ParsedYAML): Promise<ParsedYAML> {
+    if (!this.document.contents) return parsedYAML
+
+    const expansion = await expandCircleCIConfig(this.document, this.config.orbSource)
+    expansion.diagnostics.forEach((diagnostic) => {
+      const { title, ruleId } = CIRCLECI_ISSUES[diagnostic.kind]
+      const isParameter = diagnostic.kind.includes("parameter")
+      this.addIssue({
+        title,
+        description: diagnostic.message,
+        severity: diagnostic.kind === "orb-unresolved" ? "info" : "error",
+        category: isParameter ? "linting" : "structure",
+        ruleId,
+        suggestion: isParameter
+          ? "Pass exactly the parameters the command, executor or job declares, with values of the declared type"
+          : diagnostic.kind === "orb-unresolved"
+            ? "Save the orb with `circleci orb source` as .circleci/orbs/<namespace>/<orb>@<version>.yml and upload the project folder to analyze it"
+            : "Fix the reference; CircleCI rejects the configuration until it resolves",
+        line: diagnostic.range?.start.line,
+        range: diagnostic.range,
+      })
+    })
+    this.document = expansion.document
+    return expansion.document.toJS() as ParsedYAML
+  }
+
+  // Applies GitLab `extends:` and `!reference` so jobs are analyzed with what they inherit
+  private expandTemplates(parsedYAML: ParsedYAML): ParsedYAML {
+    if (!this.document.contents) return parsedYAML
+
+    const expansion = expandGitLabTemplates(this.document)
+    expansion.diagnostics.forEach((diagnostic) => {
+      const { title, ruleId } = TEMPLATE_ISSUES[diagnostic.kind]
+      this.addIssue({
+        title,
+        description: diagnostic.message,
+        severity: "error",
+        category: "structure",
+        ruleId,
+        suggestion: "GitLab rejects the configuration until every template a job extends or references resolves",
+        line: diagnostic.range?.start.line,
+        range: diagnostic.range,
+      })
+    })
+    this.document = expansion.document
+    return expansion.document.toJS() as ParsedYAML
+  }
+
+  // Callers that only have the plain object still get source positions when the content parses
+  private parseDocument(rawContent: string, platform: string): YamlDocument {
+    try {
+      if (platform === "jenkins" && isJenkinsfile(rawContent)) return JenkinsfileParser.parseDocument(rawContent)
+      return YamlParser.parseDocument(rawContent)
+    } catch {
+      return new YamlDocument(rawContent, null)
+    }
   }
 
   private validateInput(parsedYAML: ParsedYAML, platform: string, rawContent: string): void {
@@ -162,7 +550,8 @@ export class AdvancedYamlRulesEngine {
         category: "linting",
         ruleId: "unsupported-platform",
         fixable: false,
-        suggestion: "Use a supported platform: github-actions, gitlab-ci, or bitbucket-pipelines",
+        suggestion:
+          "Use a supported platform: github-actions, github-action-metadata, gitlab-ci, bitbucket-pipelines, azure-pipelines, circleci, jenkins, buildkite, drone, woodpecker, travis-ci, aws-codebuild, google-cloud-build, tekton, or argo-workflows",
       })
     }
   }
@@ -177,9 +566,6 @@ export class AdvancedYamlRulesEngine {
 
       // Check for environment variable usage
       this.checkEnvironmentVariables(parsedYAML, rawContent)
-
-      // Check for caching opportunities
-      this.checkCachingOpportunities(parsedYAML, rawContent)
     } catch (error) {
       this.addIssue({
         title: "Common analysis error",
@@ -195,12 +581,22 @@ export class AdvancedYamlRulesEngine {
   private async runEnhancedRules(parsedYAML: ParsedYAML, rawContent: string, platform: string): Promise<void> {
     try {
       const level = this.config.strictMode ? "expert" : "senior"
-      const results = this.enhancedRulesEngine.executeRules(parsedYAML, rawContent, platform, level)
+      const results = this.enhancedRulesEngine.executeRules(
+        parsedYAML,
+        rawContent,
+        platform,
+        level,
+        this.document,
+        this.pipeline,
+        this.config,
+        this.ruleSettings,
+        this.filename,
+      )
 
       // Merge results
-      this.issues.push(...results.issues)
+      results.issues.forEach((issue) => this.addIssue(issue))
       this.optimizations.push(...results.optimizations)
-      this.securityVulnerabilities.push(...results.securityVulnerabilities)
+      results.securityVulnerabilities.forEach((vulnerability) => this.addSecurityVulnerability(vulnerability))
     } catch (error) {
       this.addIssue({
         title: "Enhanced rules execution error",
@@ -237,13 +633,6 @@ export class AdvancedYamlRulesEngine {
         category: "security" as const,
         suggestion: "Use HTTPS instead of HTTP",
       },
-      {
-        pattern: /:latest(?!\w)/g,
-        title: "Using 'latest' tag for Docker images",
-        severity: "warning" as const,
-        category: "best-practice" as const,
-        suggestion: "Pin Docker images to specific versions",
-      },
       {
         pattern: /sleep\s+\d+/g,
         title: "Hard-coded sleep delays",
@@ -308,7 +697,9 @@ export class AdvancedYamlRulesEngine {
 
   private checkMissingNames(parsedYAML: ParsedYAML): void {
     if (parsedYAML.jobs) {
-      Object.entries(parsedYAML.jobs).forEach(([jobName, job]: [string, any]) => {
+      jobEntries(parsedYAML, this.pipeline).forEach(([jobName, job]: [string, any]) => {
+        // Travis lists its jobs under jobs.include
+        if (!job || typeof job !== "object" || Array.isArray(job)) return
         if (!job.name && jobName !== job.name) {
           this.addIssue({
             title: `Missing name for job "${jobName}"`,
@@ -387,76 +778,22 @@ DATABASE_PASSWORD: \${{ secrets.DB_PASSWORD }}`,
     }
   }
 
-  // Enhanced caching analysis
-  private checkCachingOpportunities(parsedYAML: ParsedYAML, rawContent: string): void {
-    const installCommands = [
-      { cmd: "npm install", cache: "npm", path: "~/.npm" },
-      { cmd: "npm ci", cache: "npm", path: "~/.npm" },
-      { cmd: "yarn install", cache: "yarn", path: "~/.cache/yarn" },
-      { cmd: "pip install", cache: "pip", path: "~/.cache/pip" },
-      { cmd: "composer install", cache: "composer", path: "~/.composer/cache" },
-      { cmd: "bundle install", cache: "bundler", path: "vendor/bundle" },
-      { cmd: "go mod download", cache: "go", path: "~/go/pkg/mod" },
-      { cmd: "cargo build", cache: "cargo", path: "~/.cargo" },
-      { cmd: "mvn", cache: "maven", path: "~/.m2" },
-      { cmd: "gradle", cache: "gradle", path: "~/.gradle" },
-    ]
-
-    const hasCaching = rawContent.toLowerCase().includes("cache")
-    const detectedCommands = installCommands.filter(({ cmd }) => rawContent.toLowerCase().includes(cmd.toLowerCase()))
-
-    if (detectedCommands.length > 0 && !hasCaching) {
-      detectedCommands.forEach(({ cmd, cache, path }) => {
-        this.addOptimization({
-          title: `Add ${cache} caching`,
-          description: `Detected ${cmd} without caching - this can significantly slow down builds`,
-          impact: "high",
-          effort: "low",
-          category: "performance",
-          suggestion: `Add caching for ${cache} dependencies to improve build performance`,
-          exampleCode: `# For GitHub Actions:
-- uses: actions/cache@v4
-  with:
-    path: ${path}
-    key: \${{ runner.os }}-${cache}-\${{ hashFiles('**/package-lock.json') }}`,
-        })
-      })
-    }
-
-    // Check for cache key best practices
-    if (hasCaching) {
-      const cacheKeyPattern = /key:\s*([^\n]+)/g
-      let cacheMatch
-      while ((cacheMatch = cacheKeyPattern.exec(rawContent)) !== null) {
-        const key = cacheMatch[1].trim()
-        if (!key.includes("hashFiles") && !key.includes("${{")) {
-          this.addIssue({
-            title: "Static cache key detected",
-            description: "Cache key should include file hashes to ensure cache invalidation",
-            severity: "warning",
-            category: "performance",
-            ruleId: "static-cache-key",
-            suggestion: "Use hashFiles() function in cache keys",
-            exampleCode: `key: \${{ runner.os }}-deps-\${{ hashFiles('**/package-lock.json') }}`,
-          })
-        }
-      }
-    }
-  }
-
   private async runSecurityAnalysis(parsedYAML: ParsedYAML, rawContent: string): Promise<void> {
     try {
       // Scan for exposed secrets
       this.scanForExposedSecrets(rawContent)
 
       // Check for insecure practices
-      this.checkInsecurePractices(parsedYAML, rawContent)
+      this.checkInsecurePractices()
 
       // Check for permission issues
       this.checkPermissions(parsedYAML, rawContent)
 
       // Check for vulnerable dependencies
       this.checkVulnerableDependencies(rawContent)
+
+      // Check referenced actions, images, pipes and orbs against known advisories
+      this.checkKnownAdvisories(parsedYAML)
     } catch (error) {
       this.addIssue({
         title: "Security analysis error",
@@ -493,12 +830,13 @@ DATABASE_PASSWORD: \${{ secrets.DB_PASSWORD }}`,
       if (word.length >= minLength) {
         const entropy = this.calculateEntropy(word);
         if (entropy >= entropyThreshold) {
-          this.securityVulnerabilities.push({
+          this.addSecurityVulnerability({
             title: `High Entropy String`,
             description: `Potential secret detected: "${this.maskSecret(word)}" (entropy: ${entropy.toFixed(2)})`,
             severity: "high",
             recommendation: "Avoid committing secrets or tokens directly in code. Use environment variables or secret managers.",
             line: index + 1,
+            ruleId: "high-entropy-string",
           });
         }
       }
@@ -559,93 +897,80 @@ private calculateEntropy(str: string): number {
     return secret.substring(0, 4) + "*".repeat(secret.length - 8) + secret.substring(secret.length - 4)
   }
 
-  private checkInsecurePractices(parsedYAML: ParsedYAML, rawContent: string): void {
+  // Dangerous commands, remote scripts piped to a shell and privileged containers are
+  // reported by DangerousCommandsRule
+  private checkInsecurePractices(): void {
     const insecurePractices = [
       {
-        pattern: /curl.*(-k|--insecure)/gi,
+        matches: (invocation: ShellInvocation) => invocation.name === "curl" && hasOption(invocation, "k", "insecure"),
         title: "Insecure curl usage",
+        ruleId: "insecure-curl",
         description: "curl with -k or --insecure flag bypasses SSL verification",
         severity: "high" as const,
         suggestion: "Remove -k/--insecure flags and use proper SSL certificates",
       },
       {
-        pattern: /wget.*--no-check-certificate/gi,
+        matches: (invocation: ShellInvocation) =>
+          invocation.name === "wget" && argValues(invocation).includes("--no-check-certificate"),
         title: "Insecure wget usage",
+        ruleId: "insecure-wget",
         description: "wget with --no-check-certificate bypasses SSL verification",
         severity: "high" as const,
         suggestion: "Remove --no-check-certificate and use proper SSL certificates",
       },
       {
-        pattern: /chmod\s+(777|755|644)\s+\/[^/\s]/g,
+        // 777 and 666 are reported as permissive permissions wherever they are set
+        matches: (invocation: ShellInvocation) =>
+          /^0?(755|644)$/.test(chmodMode(invocation) ?? "") &&
+          operands(invocation).slice(1).some((operand) => /^\/[^/\s]/.test(operand.value)),
         title: "Dangerous file permissions on system directories",
+        ruleId: "system-dir-permissions",
         description: "Setting permissions on system directories can be dangerous",
         severity: "high" as const,
         suggestion: "Be specific about which files need permission changes",
       },
       {
-        pattern: /rm\s+-rf\s+(\/[^/\s]|\$HOME|~)/g,
-        title: "Dangerous recursive delete",
-        description: "Recursive delete of system directories or home directory",
-        severity: "critical" as const,
-        suggestion: "Use more specific paths and avoid deleting system directories",
-      },
-      {
-        pattern: /sudo\s+(rm|chmod|chown|mv|cp)\s+/g,
+        matches: (invocation: ShellInvocation) =>
+          invocation.wrappers.includes("sudo") && ["rm", "chmod", "chown", "mv", "cp"].includes(invocation.name),
         title: "Dangerous sudo usage",
+        ruleId: "sudo-file-operation",
         description: "Using sudo with file operations can be risky",
         severity: "medium" as const,
         suggestion: "Consider using specific user permissions instead of sudo",
       },
       {
-        pattern: /eval\s+\$\(/g,
-        title: "Dynamic code evaluation",
-        description: "eval with command substitution can execute arbitrary code",
-        severity: "high" as const,
-        suggestion: "Avoid eval and use safer alternatives",
-      },
-      {
-        pattern: /(curl|wget)\s+[^|]*\|\s*(sh|bash|zsh)/g,
-        title: "Piping remote content to shell",
-        description: "Downloading and executing remote scripts is dangerous",
-        severity: "critical" as const,
-        suggestion: "Download scripts first, verify their content, then execute",
-      },
-      {
-        pattern: /docker\s+run.*--privileged/g,
-        title: "Privileged Docker container",
-        description: "Running Docker containers in privileged mode is dangerous",
-        severity: "high" as const,
-        suggestion: "Use specific capabilities instead of --privileged",
-      },
-      {
-        pattern: /\$\{[^}]*\|\s*(sh|bash|eval)/g,
+        matches: (invocation: ShellInvocation) =>
+          [...SHELL_INTERPRETERS, "eval"].includes(invocation.name) &&
+          invocation.upstream.some((upstream) =>
+            upstream.args.some((arg) => arg.expansions.some((expansion) => expansion.kind === "parameter")),
+          ),
         title: "Command injection vulnerability",
+        ruleId: "shell-command-injection",
         description: "Variable expansion piped to shell can lead to command injection",
         severity: "high" as const,
         suggestion: "Validate and sanitize variables before using them in commands",
       },
     ]
 
-    const lines = rawContent.split("\n")
-
-    insecurePractices.forEach(({ pattern, title, description, severity, suggestion }) => {
-      lines.forEach((line, index) => {
-        if (pattern.test(line)) {
-          this.securityVulnerabilities.push({
-            title,
-            description: `${description}: "${line.trim()}"`,
-            severity,
-            recommendation: suggestion,
-            line: index + 1,
-          })
-        }
+    findShellInvocations({ document: this.document, pipeline: this.pipeline }).forEach(({ invocation, text, range }) => {
+      insecurePractices.forEach(({ matches, title, ruleId, description, severity, suggestion }) => {
+        if (!matches(invocation)) return
+        this.addSecurityVulnerability({
+          title,
+          description: `${description}: "${normalizeCommandText(text)}"`,
+          severity,
+          recommendation: suggestion,
+          line: range.start.line,
+          range,
+          ruleId,
+        })
       })
     })
   }
 
   private checkPermissions(parsedYAML: ParsedYAML, rawContent: string): void {
-    // Check for overly broad permissions in GitHub Actions
-    if (parsedYAML.permissions) {
+    // Check for overly broad permissions; GitHub Actions jobs get per-job inference from TokenPermissionsRule
+    if (parsedYAML.permissions && this.pipeline.platform !== "github-actions") {
       const permissions = parsedYAML.permissions
       if (
         permissions === "write-all" ||
@@ -677,26 +1002,84 @@ private calculateEntropy(str: string): number {
   }
 
   private checkVulnerableDependencies(rawContent: string): void {
-    // Check for outdated or vulnerable action versions
-    const actionPattern = /uses:\s*([^@\s]+)@([^\s]+)/g
-    let match
-
-    while ((match = actionPattern.exec(rawContent)) !== null) {
-      const [, action, version] = match
+    // Check how every `uses:` action reference is pinned
+    const policy = this.config.actionPinning ?? {}
+    const database = policy.refDatabase ?? defaultActionRefDatabase
+
+    this.document.visitScalars((scalar, path) => {
+      if (path[path.length - 1] !== "uses" || typeof scalar.value !== "string") return
+      const reference = parseActionReference(scalar.value)
+      if (!reference || isFullShaRef(reference.ref)) return
+
+      const action = scalar.value.slice(0, scalar.value.lastIndexOf("@"))
+      const range = this.document.scalarRange(scalar, 0, scalar.text.length)
+      const pin = resolvePin(reference, database)
+      const pinnedExample = pin ? `uses: ${formatPinnedUses(reference, pin)}` : undefined
+      const pinSuggestion = pin
+        ? `Pin to ${pin.sha} (${pin.tag}), keeping the tag as a comment`
+        : `Look up the commit SHA for ${reference.ref} of ${action} and pin to it`
+
+      if (policy.requireShaPins && !isTrustedOwner(reference.owner, policy.trustedOwners)) {
+        this.addIssue({
+          title: `Action not pinned to a commit SHA: ${action}`,
+          description: `Policy requires third-party actions to be pinned to a full 40-character commit SHA, but ${action} uses "${reference.ref}", which its owner can move`,
+          severity: "error",
+          category: "security",
+          ruleId: "action-sha-pin-required",
+          suggestion: pinSuggestion,
+          exampleCode: pinnedExample,
+          fixable: pin !== undefined,
+          line: range.start.line,
+          range,
+        })
+        return
+      }
 
-      // Check for latest tag usage
-      if (version === "latest" || version.startsWith("v") === false) {
+      // Branches and `latest` change on every push
+      if (reference.ref === "latest" || !/^v?\d/.test(reference.ref)) {
         this.addIssue({
           title: `Unpinned action version: ${action}`,
-          description: "Action is not pinned to a specific version",
+          description: `Action is not pinned to a specific version ("${reference.ref}")`,
           severity: "warning",
           category: "security",
           ruleId: "unpinned-action",
-          suggestion: "Pin actions to specific versions or commit SHAs",
-          lineNumbers: this.findPatternLines(action),
+          suggestion: pin ? pinSuggestion : "Pin actions to specific versions or commit SHAs",
+          exampleCode: pinnedExample,
+          line: range.start.line,
+          range,
         })
       }
-    }
+    })
+  }
+
+  private checkKnownAdvisories(parsedYAML: ParsedYAML): void {
+    const feed = this.config.advisoryFeed ?? defaultAdvisoryFeed
+    const components = collectComponents(
+      this.pipeline,
+      parsedYAML,
+      this.document,
+      this.config.actionPinning?.refDatabase ?? defaultActionRefDatabase,
+    )
+
+    findAdvisoryMatches(components, feed).forEach(({ advisory, component, fixedVersions, cve, cvssScore }) => {
+      const identifier = cve && cve !== advisory.id ? `${advisory.id} / ${cve}` : advisory.id
+      this.addSecurityVulnerability({
+        title: `Vulnerable ${COMPONENT_KINDS[component.ecosystem]}: ${component.reference}`,
+        description: `${advisory.summary} (${identifier}). ${component.name} ${component.version} is within an affected version range.`,
+        severity: advisorySeverity(advisory),
+        recommendation:
+          fixedVersions.length > 0
+            ? `Upgrade ${component.name} to ${fixedVersions.join(" or ")} or later`
+            : `No fixed release of ${component.name} is listed; replace it or review the advisory`,
+        line: component.range?.start.line,
+        range: component.range,
+        cve,
+        cvssScore,
+        advisoryId: advisory.id,
+        fixedVersions,
+        ruleId: "known-advisory",
+      })
+    })
   }
 
   private async runPerformanceAnalysis(parsedYAML: ParsedYAML, rawContent: string): Promise<void> {
@@ -926,20 +1309,55 @@ private calculateEntropy(str: string): number {
       recommendations,
       dependencyGraph,
       metrics,
+      includedFiles: this.document.includedFiles.length > 0 ? this.document.includedFiles : undefined,
     }
   }
 
   // Helper methods
+  // Jobs expanded from one definition, such as CircleCI job invocations, repeat the findings
+  // of the source they share; those are reported once
+  // Issues the project configuration turns off are dropped, and re-graded ones take its severity
   public addIssue(issue: Issue): void {
-    this.issues.push(issue)
+    const origin = this.withOrigin(issue)
+    const setting = this.ruleSettings.resolve(origin.ruleId, origin.file ?? this.filename)
+    if (setting?.enabled === false) return
+    const located = setting?.severity ? { ...origin, severity: setting.severity } : origin
+    if (located.range && this.issues.some((existing) => isSameFinding(existing, located))) return
+    this.issues.push(this.withRelatedLocations(located))
   }
 
   public addOptimization(optimization: Optimization): void {
     this.optimizations.push(optimization)
   }
 
+  // The project configuration applies to vulnerabilities by their ruleId as it does to issues
   public addSecurityVulnerability(vulnerability: SecurityVulnerability): void {
-    this.securityVulnerabilities.push(vulnerability)
+    const origin = this.withOrigin(vulnerability)
+    const setting = this.ruleSettings.resolve(origin.ruleId, origin.file ?? this.filename)
+    if (setting?.enabled === false) return
+    const graded = setting?.severity ? { ...origin, severity: vulnerabilitySeverity(setting.severity) } : origin
+    this.securityVulnerabilities.push(this.withRelatedLocations(graded))
+  }
+
+  public getDocument(): YamlDocument {
+    return this.document
+  }
+
+  public getPipeline(): Pipeline {
+    return this.pipeline
+  }
+
+  // Findings inside an anchored block also point at the anchor and every alias that reuses it
+  private withRelatedLocations<T extends Issue | SecurityVulnerability>(finding: T): T {
+    if (!finding.range || finding.relatedLocations) return finding
+    const relatedLocations = this.document.anchorReferences(finding.range)
+    return relatedLocations.length > 0 ? { ...finding, relatedLocations } : finding
+  }
+
+  // Findings inside an included file name the file
+  private withOrigin<T extends Issue | SecurityVulnerability>(finding: T): T {
+    const file = finding.range?.file
+    return file !== undefined && finding.file === undefined ? { ...finding, file } : finding
   }
 
   private findPatternLines(pattern: string): number[] {
@@ -1138,9 +1556,92 @@ private calculateEntropy(str: string): number {
       return graph
     }
 
+    if (platform === "gitlab-ci") return this.generateGitLabGraph(parsed)
+    if (platform === "tekton" || platform === "argo-workflows") return this.generateTaskGraph()
+
     return "graph TD\n    A[Analysis] --> B[Complete]"
   }
 
+  // Stages as subgraphs; jobs with `needs:` start after those jobs, the rest after the previous stage
+  private generateGitLabGraph(parsed: ParsedYAML): string {
+    const context = this.config.pipelineContext ?? { source: "push", branch: "main", defaultBranch: "main" }
+    const pipeline = simulateGitLabPipeline(parsed, context)
+    if (pipeline.jobs.length === 0) {
+      return `graph TD\n    A["No jobs run for ${context.source} pipelines${context.branch ? ` on ${context.branch}` : ""}"]`
+    }
+
+    const id = (prefix: string, name: string) => `${prefix}_${name.replace(/[^a-zA-Z0-9]/g, "_")}`
+    let graph = "graph LR\n"
+    pipeline.stages.forEach((stage) => {
+      graph += `    subgraph ${id("stage", stage)}["${stage}"]\n`
+      pipeline.jobs
+        .filter((job) => job.stage === stage)
+        .forEach((job) => {
+          const label = job.when === "manual" || job.when === "delayed" ? `${job.name} (${job.when})` : job.name
+          graph += `        ${id("job", job.name)}["${label.replace(/"/g, "'")}"]\n`
+        })
+      graph += "    end\n"
+    })
+    pipeline.stages.forEach((stage, index) => {
+      const jobs = pipeline.jobs.filter((job) => job.stage === stage)
+      if (index > 0 && jobs.every((job) => !job.needs)) {
+        graph += `    ${id("stage", pipeline.stages[index - 1])} --> ${id("stage", stage)}\n`
+        return
+      }
+      jobs.forEach((job) => {
+        if (job.needs) job.needs.forEach((need) => (graph += `    ${id("job", need)} --> ${id("job", job.name)}\n`))
+        else if (index > 0) graph += `    ${id("stage", pipeline.stages[index - 1])} --> ${id("job", job.name)}\n`
+      })
+    })
+    return graph
+  }
+
+  // Jobs of the pipeline model grouped by stage; dashed edges lead to tasks that only run when their condition holds
+  private generateTaskGraph(): string {
+    const jobs = this.pipeline.jobs
+    if (jobs.length === 0) return "graph TD\n    A[No tasks] --> B[Complete]"
+
+    const id = (name: string) => `task_${name.replace(/[^a-zA-Z0-9]/g, "_")}`
+    const node = (job: PipelineJob) => {
+      const label = job.manual ? `${job.name ?? job.id} (manual)` : job.name ?? job.id
+      return `${id(job.id)}["${label.replace(/"/g, "'")}"]`
+    }
+    const byId = new Map(jobs.map((job) => [job.id, job]))
+    // Finally tasks wait for every task; only draw the dependencies not implied by others
+    const reachable = (from: string, seen = new Set<string>()): Set<string> => {
+      byId.get(from)?.dependencies.forEach((dependency) => {
+        if (seen.has(dependency)) return
+        seen.add(dependency)
+        reachable(dependency, seen)
+      })
+      return seen
+    }
+
+    let graph = "graph LR\n"
+    const stages = [...new Set(jobs.map((job) => job.stage))]
+    stages.forEach((stage) => {
+      const members = jobs.filter((job) => job.stage === stage)
+      if (stage === undefined) {
+        members.forEach((job) => (graph += `    ${node(job)}\n`))
+        return
+      }
+      graph += `    subgraph stage_${stage.replace(/[^a-zA-Z0-9]/g, "_")}["${stage}"]\n`
+      members.forEach((job) => (graph += `        ${node(job)}\n`))
+      graph += "    end\n"
+    })
+    // Edges of a dependency cycle imply each other, so tasks on one keep all their edges
+    const cyclic = (name: string) => reachable(name).has(name)
+    jobs.forEach((job) => {
+      const direct = job.dependencies.filter((dependency) => byId.has(dependency))
+      const implied = (dependency: string) =>
+        !cyclic(job.id) && !cyclic(dependency) && direct.some((other) => other !== dependency && reachable(other).has(dependency))
+      direct
+        .filter((dependency) => !implied(dependency))
+        .forEach((dependency) => (graph += `    ${id(dependency)} ${job.condition ? "-.->" : "-->"} ${id(job.id)}\n`))
+    })
+    return graph
+  }
+
   private calculateMetrics(parsed: ParsedYAML, platform: string): Metrics {
     const performance: PerformanceMetrics = {
       estimatedBuildTime: this.estimateBuildTime(parsed),
@@ -1271,13 +1772,18 @@ private calculateEntropy(str: string): number {
       case "gitlab-ci":
         return Object.keys(parsed).filter((key) => typeof parsed[key] === "object" && parsed[key]?.script).length
       case "bitbucket-pipelines":
-        return this.countBitbucketSteps(parsed.pipelines)
+        return this.countBitbucketSteps()
+      case "github-action-metadata":
+        return parsed.runs ? 1 : 0
       default:
+        if (MODEL_COUNTED_PLATFORMS.includes(platform)) return this.pipeline.jobs.length
         return Object.keys(parsed.jobs || parsed.stages || {}).length
     }
   }
 
   private countSteps(parsed: ParsedYAML, platform: string): number {
+    // Jenkinsfiles keep their steps inside stages; the other platforms have no jobs mapping
+    if (MODEL_COUNTED_PLATFORMS.includes(platform)) return this.pipeline.jobs.reduce((count, job) => count + job.steps.length, 0)
     let stepCount = 0
     if (parsed.jobs) {
       Object.values(parsed.jobs).forEach((job: any) => {
@@ -1286,6 +1792,8 @@ private calculateEntropy(str: string): number {
         }
       })
     }
+    // Composite actions list their steps under runs
+    if (Array.isArray(parsed.runs?.steps)) stepCount += parsed.runs.steps.length
     return stepCount
   }
 
@@ -1314,23 +1822,9 @@ private calculateEntropy(str: string): number {
     return Math.min(100, Math.round((cacheUsageCount / totalJobs) * 100))
   }
 
-  private countBitbucketSteps(pipelines: any): number {
-    if (!pipelines) return 0
-    let count = 0
-
-    if (pipelines.default && Array.isArray(pipelines.default)) {
-      count += pipelines.default.length
-    }
-
-    if (pipelines.branches) {
-      Object.values(pipelines.branches).forEach((branch: any) => {
-        if (Array.isArray(branch)) {
-          count += branch.length
-        }
-      })
-    }
-
-    return count
+  private countBitbucketSteps(): number {
+    // Reused steps count once per use site, including parallel and stage groups
+    return this.pipeline.jobs.length
   }
 
   // Enhanced GitHub Actions specific checks
@@ -1589,11 +2083,6 @@ private calculateEntropy(str: string): number {
           this.checkForHardcodedSecrets(step.env, `job "${jobName}", step ${index + 1}`)
         }
 
-        // Check for dangerous commands
-        if (step.run) {
-          this.analyzeDangerousCommands(step.run, `job "${jobName}", step ${index + 1}`)
-        }
-
         // Check for missing step names
         if (!step.name && !step.uses) {
           this.addIssue({
@@ -1727,70 +2216,6 @@ private calculateEntropy(str: string): number {
     const lowerValue = value.toLowerCase()
     return placeholders.some((placeholder) => lowerValue.includes(placeholder))
   }
-
-  private analyzeDangerousCommands(command: string, context: string): void {
-    const dangerousPatterns = [
-      {
-        pattern: /rm\s+-rf\s+(\/[^/\s]|\$HOME|~|\.\.)/g,
-        description: "Dangerous recursive delete of important directories",
-        severity: "critical" as const,
-      },
-      {
-        pattern: /chmod\s+(777|666)\s+/g,
-        description: "Setting overly permissive file permissions",
-        severity: "high" as const,
-      },
-      {
-        pattern: /eval\s+\$\(/g,
-        description: "Dynamic code evaluation can be dangerous",
-        severity: "high" as const,
-      },
-      {
-        pattern: /(curl|wget).*\s*\|\s*(sh|bash|zsh)/g,
-        description: "Piping remote content to shell is risky",
-        severity: "critical" as const,
-      },
-      {
-        pattern: /sudo\s+(rm|chmod|chown|mv|cp)\s+\/[^/\s]/g,
-        description: "Using sudo with file operations on system directories",
-        severity: "high" as const,
-      },
-      {
-        pattern: /docker\s+run.*--privileged/g,
-        description: "Running Docker containers in privileged mode",
-        severity: "high" as const,
-      },
-      {
-        pattern: /\$\{[^}]*\}\s*\|\s*(sh|bash)/g,
-        description: "Variable expansion piped to shell can lead to injection",
-        severity: "high" as const,
-      },
-      {
-        pattern: /echo\s+\$[A-Z_]+/g,
-        description: "Echoing environment variables can expose secrets in logs",
-        severity: "medium" as const,
-      },
-      {
-        pattern: /printenv/g,
-        description: "Printing all environment variables can expose secrets",
-        severity: "medium" as const,
-      },
-    ]
-
-    dangerousPatterns.forEach(({ pattern, description, severity }) => {
-      if (pattern.test(command)) {
-        this.addIssue({
-          title: `Dangerous command in ${context}`,
-          description: `${description}: "${command.trim()}"`,
-          severity: severity === "critical" ? "critical" : severity === "high" ? "error" : "warning",
-          category: "security",
-          ruleId: "dangerous-command",
-          suggestion: "Review command for security implications and use safer alternatives",
-          impact: "high",
-        })
-      }
-    })
-  }
 }
 
 // Platform-specific analyzers
@@ -1799,12 +2224,73 @@ class GitHubActionsAnalyzer implements PlatformAnalyzer {
 
   async analyze(parsed: ParsedYAML, rawContent: string): Promise<void> {
     this.validateStructure(parsed)
+    this.checkPrivilegedTriggers(parsed)
 
     if (parsed.jobs) {
       await this.analyzeJobs(parsed.jobs)
     }
   }
 
+  // pull_request_target and workflow_run are only dangerous when untrusted code or artifacts get executed
+  checkPrivilegedTriggers(parsed: ParsedYAML): void {
+    const chains = findPrivilegedExecutionChains(this.engine.getPipeline(), this.engine.getDocument())
+    chains.forEach((chain) => this.reportPrivilegedExecution(chain))
+
+    if (parsed.on?.pull_request_target && chains.length === 0) {
+      this.engine.addIssue({
+        title: "Potentially unsafe pull_request_target trigger",
+        description:
+          "pull_request_target runs with write permissions and secrets; no step checks out pull request code, so keep it that way",
+        severity: "info",
+        category: "security",
+        ruleId: "gh-unsafe-pr-target",
+        suggestion: "Never check out or run pull request code in this workflow; use the pull_request trigger for builds",
+        documentationUrl: "https://securitylab.github.com/research/github-actions-preventing-pwn-requests/",
+      })
+    }
+  }
+
+  reportPrivilegedExecution(chain: PrivilegedExecutionChain): void {
+    const stepLabel = (step: PipelineStep) =>
+      `"${step.name ?? step.uses ?? step.commands[0]?.text.split("\n")[0].trim() ?? "unnamed"}"`
+    const fetchLine = chain.fetchRange?.start.line ?? chain.fetchStep.range?.start.line
+    const isCheckout = chain.kind === "pull-request-checkout"
+
+    const steps = [
+      `on: ${chain.trigger.event} runs in the context of the base repository, with its secrets and token`,
+      isCheckout
+        ? `step ${stepLabel(chain.fetchStep)} (line ${fetchLine}) checks out ${chain.fetched} from the pull request`
+        : `step ${stepLabel(chain.fetchStep)} (line ${fetchLine}) downloads ${chain.fetched} produced by the triggering run`,
+      ...chain.executionSteps.map(
+        (step) =>
+          `step ${stepLabel(step)} (line ${step.range?.start.line}) ${isCheckout ? "runs the untrusted code" : "unpacks or runs the untrusted artifact"}`,
+      ),
+    ]
+
+    this.engine.addSecurityVulnerability({
+      title: isCheckout
+        ? "Untrusted pull request code runs with privileged pull_request_target token"
+        : "Untrusted artifact used in privileged workflow_run job",
+      description: `Job "${chain.job.id}" is exploitable by anyone who can open a pull request: ${steps.join(" → ")}${
+        chain.gatedByEnvironment ? ` (the job uses environment "${chain.job.environment}", which only helps if it requires approval)` : ""
+      }`,
+      severity: chain.gatedByEnvironment ? "high" : "critical",
+      recommendation: isCheckout
+        ? "Use the pull_request trigger for building untrusted code, or split the workflow so the privileged part never checks out or runs pull request code"
+        : "Treat artifacts from the triggering run as data: extract them to a temporary directory, validate their contents and never execute them",
+      line: fetchLine,
+      range: chain.fetchRange ?? chain.fetchStep.range,
+      relatedLocations: [
+        { message: `Privileged trigger ${chain.trigger.event}`, range: chain.trigger.range },
+        ...chain.executionSteps.map((step) => ({
+          message: `${isCheckout ? "Runs pull request code" : "Uses the downloaded artifact"}: ${stepLabel(step)}`,
+          range: step.range,
+        })),
+      ].filter((location): location is RelatedLocation => location.range !== undefined),
+      ruleId: "gh-privileged-execution",
+    })
+  }
+
   validateStructure(parsed: ParsedYAML): Issue[] {
     const issues: Issue[] = []
 
@@ -1837,7 +2323,8 @@ class GitHubActionsAnalyzer implements PlatformAnalyzer {
 
   async analyzeJobs(jobs: Record<string, any>): Promise<void> {
     for (const [jobName, job] of Object.entries(jobs)) {
-      if (!job["runs-on"]) {
+      // Jobs that call a reusable workflow run on the runners its jobs choose
+      if (!job["runs-on"] && !job.uses) {
         this.engine.addIssue({
           title: `Job "${jobName}" missing runs-on`,
           description: "Every job must specify which runner to use",
@@ -1857,7 +2344,8 @@ class GitHubActionsAnalyzer implements PlatformAnalyzer {
 
   async analyzeSteps(steps: any[], context: string): Promise<void> {
     steps.forEach((step, index) => {
-      if (step.uses && !step.uses.includes("@")) {
+      // Local (`./`) and `docker://` actions are versioned with the repository or by image tag
+      if (step.uses && !step.uses.includes("@") && !/^(\.\/|docker:\/\/)/.test(step.uses)) {
         this.engine.addIssue({
           title: `Unpinned action in ${context}, step ${index + 1}`,
           description: "Actions should be pinned to specific versions",
@@ -1871,58 +2359,311 @@ class GitHubActionsAnalyzer implements PlatformAnalyzer {
   }
 }
 
-class GitLabCIAnalyzer implements PlatformAnalyzer {
+// Runtimes an action's `runs.using` accepts; node12 and node16 are end of life and the
+// runner forces them onto a newer Node.js
+const ACTION_RUNTIMES = ["composite", "docker", "node20", "node24", "node12", "node16"]
+const DEPRECATED_NODE_RUNTIMES = ["node12", "node16"]
+const ACTION_METADATA_DOCS = "https://docs.github.com/en/actions/reference/workflows-and-actions/metadata-syntax"
+
+class ActionMetadataAnalyzer implements PlatformAnalyzer {
   constructor(private engine: AdvancedYamlRulesEngine) {}
 
   async analyze(parsed: ParsedYAML, rawContent: string): Promise<void> {
     this.validateStructure(parsed)
+    this.analyzeInputs(parsed.inputs)
 
-    // Analyze GitLab-specific structure
-    for (const [key, value] of Object.entries(parsed)) {
-      if (typeof value === "object" && value?.script) {
-        await this.analyzeJob(key, value)
-      }
-    }
+    const runs = parsed.runs
+    if (!runs || typeof runs !== "object") return
+    if (runs.using === "composite") await this.analyzeSteps(Array.isArray(runs.steps) ? runs.steps : [], "composite action")
+    else if (runs.using === "docker") this.analyzeDockerImage(runs.image)
+    else if (typeof runs.using === "string" && runs.using.startsWith("node")) this.analyzeNodeRuntime(runs)
   }
 
   validateStructure(parsed: ParsedYAML): Issue[] {
     const issues: Issue[] = []
+    const document = this.engine.getDocument()
 
-    if (!parsed.stages && !this.hasJobsWithStages(parsed)) {
+    ;(["name", "description"] as const).forEach((key) => {
+      if (parsed[key]) return
       this.engine.addIssue({
-        title: "No stages or jobs defined",
-        description: "GitLab CI should define either stages or jobs with scripts",
-        severity: "error",
-        category: "linting",
-        ruleId: "gl-no-stages-jobs",
-        suggestion: "Define stages or add jobs with script sections",
+        title: `Missing action ${key}`,
+        description: `action.yml must have a ${key}; it is shown in the Marketplace and in the workflow editor`,
+        severity: "warning",
+        category: "maintainability",
+        ruleId: `action-missing-${key}`,
+        suggestion: `Add a "${key}" field at the root level`,
         fixable: true,
+        documentationUrl: ACTION_METADATA_DOCS,
+      })
+    })
+
+    const using = parsed.runs?.using
+    if (typeof using !== "string") {
+      const range = document.getKeyRange(["runs"])
+      this.engine.addIssue({
+        title: "Missing runs.using",
+        description: "An action must declare how it runs: composite, docker or a Node.js runtime",
+        severity: "error",
+        category: "structure",
+        ruleId: "action-missing-runs",
+        suggestion: 'Add a "runs" section with "using: composite", "using: docker" or "using: node20"',
+        documentationUrl: ACTION_METADATA_DOCS,
+        line: range?.start.line,
+        range,
+      })
+    } else if (!ACTION_RUNTIMES.includes(using)) {
+      const range = document.getRange(["runs", "using"])
+      this.engine.addIssue({
+        title: `Unknown action runtime "${using}"`,
+        description: `runs.using must be one of ${ACTION_RUNTIMES.join(", ")}`,
+        severity: "error",
+        category: "structure",
+        ruleId: "action-unknown-runtime",
+        suggestion: 'Use "composite", "docker" or "node20"',
+        documentationUrl: ACTION_METADATA_DOCS,
+        line: range?.start.line,
+        range,
       })
     }
 
     return issues
   }
 
-  private hasJobsWithStages(parsed: ParsedYAML): boolean {
-    return Object.values(parsed).some((value) => typeof value === "object" && value?.script)
-  }
-
   async analyzeJobs(jobs: Record<string, any>): Promise<void> {
-    for (const [jobName, job] of Object.entries(jobs)) {
-      await this.analyzeJob(jobName, job)
-    }
+    // Actions have no jobs; composite steps are analyzed through analyzeSteps
   }
 
-  private async analyzeJob(jobName: string, job: any): Promise<void> {
-    if (!job.stage && !job.extends) {
+  async analyzeSteps(steps: any[], context: string): Promise<void> {
+    const document = this.engine.getDocument()
+
+    steps.forEach((step, index) => {
+      // Composite steps do not fall back to a default shell the way workflow steps do
+      if (!step || typeof step !== "object" || step.run === undefined || step.shell) return
+      const range = document.getKeyRange(["runs", "steps", index, "run"])
       this.engine.addIssue({
-        title: `Job "${jobName}" missing stage`,
+        title: `Missing shell in ${context}, step ${index + 1}`,
+        description: `Step "${step.name ?? step.id ?? index + 1}" has run: but no shell:, which composite actions require`,
+        severity: "error",
+        category: "linting",
+        ruleId: "action-composite-missing-shell",
+        suggestion: 'Add "shell: bash" (or pwsh, sh, python) to the step',
+        exampleCode: "shell: bash",
+        fixable: true,
+        documentationUrl: ACTION_METADATA_DOCS,
+        line: range?.start.line,
+        range,
+      })
+    })
+  }
+
+  private analyzeInputs(inputs: any): void {
+    if (!inputs || typeof inputs !== "object") return
+    const document = this.engine.getDocument()
+
+    Object.entries(inputs).forEach(([name, input]: [string, any]) => {
+      const range = document.getKeyRange(["inputs", name])
+      const location = { line: range?.start.line, range }
+
+      if (!input?.description) {
+        this.engine.addIssue({
+          title: `Input "${name}" has no description`,
+          description: "Every input needs a description; it is the only documentation callers see in the workflow editor",
+          severity: "warning",
+          category: "maintainability",
+          ruleId: "action-input-missing-description",
+          suggestion: `Describe what "${name}" controls and which values it accepts`,
+          fixable: true,
+          documentationUrl: ACTION_METADATA_DOCS,
+          ...location,
+        })
+      }
+
+      if (input?.required === true && input.default !== undefined) {
+        this.engine.addIssue({
+          title: `Required input "${name}" has a default`,
+          description: `Callers that omit "${name}" silently get the default, so required: true has no effect`,
+          severity: "warning",
+          category: "linting",
+          ruleId: "action-required-input-default",
+          suggestion: "Remove the default to make callers pass a value, or set required: false",
+          documentationUrl: ACTION_METADATA_DOCS,
+          ...location,
+        })
+      }
+    })
+  }
+
+  private analyzeNodeRuntime(runs: Record<string, any>): void {
+    const document = this.engine.getDocument()
+
+    if (DEPRECATED_NODE_RUNTIMES.includes(runs.using)) {
+      const range = document.getRange(["runs", "using"])
+      this.engine.addIssue({
+        title: `Deprecated ${runs.using} runtime`,
+        description: `${runs.using} is end of life; GitHub runs ${runs.using} actions on a newer Node.js and warns in every workflow that uses them`,
+        severity: runs.using === "node12" ? "error" : "warning",
+        category: "maintainability",
+        ruleId: "action-deprecated-runtime",
+        suggestion: "Switch to using: node20 and test the action on Node.js 20",
+        exampleCode: "runs:\n  using: node20",
+        fixable: true,
+        documentationUrl: ACTION_METADATA_DOCS,
+        line: range?.start.line,
+        range,
+      })
+    }
+
+    if (!runs.main) {
+      const range = document.getKeyRange(["runs"])
+      this.engine.addIssue({
+        title: "Missing runs.main",
+        description: "A JavaScript action must name the file to run in runs.main",
+        severity: "error",
+        category: "structure",
+        ruleId: "action-missing-main",
+        suggestion: 'Add "main" pointing at the bundled entry point, e.g. dist/index.js',
+        documentationUrl: ACTION_METADATA_DOCS,
+        line: range?.start.line,
+        range,
+      })
+    }
+  }
+
+  private analyzeDockerImage(image: any): void {
+    const range = this.engine.getDocument().getRange(["runs", "image"])
+    const location = { line: range?.start.line, range }
+
+    if (typeof image !== "string" || image.trim() === "") {
+      this.engine.addIssue({
+        title: "Missing runs.image",
+        description: "A Docker action must name a Dockerfile or a docker:// image",
+        severity: "error",
+        category: "structure",
+        ruleId: "action-missing-image",
+        suggestion: 'Set "image: Dockerfile" or "image: docker://registry/image@sha256:<digest>"',
+        documentationUrl: ACTION_METADATA_DOCS,
+        ...location,
+      })
+      return
+    }
+    // A Dockerfile is built from the action's own repository at the pinned ref
+    if (!image.startsWith("docker://") || isDynamicImage(image)) return
+
+    const reference = parseImage(image)
+    if (reference.digest) return
+    this.engine.addIssue({
+      title: `Unpinned action image: ${image}`,
+      description: reference.tag
+        ? `Tag "${reference.tag}" can be moved, so every workflow using this action may pull different code without a new action release`
+        : `${image} has no tag or digest and resolves to "latest" on every run`,
+      severity: "warning",
+      category: "security",
+      ruleId: "action-unpinned-image",
+      suggestion: "Pin the image by digest so the action version fully determines what runs",
+      exampleCode: `image: ${image.split("@")[0]}@sha256:<digest>`,
+      fixable: true,
+      documentationUrl: ACTION_METADATA_DOCS,
+      ...location,
+    })
+  }
+}
+
+class GitLabCIAnalyzer implements PlatformAnalyzer {
+  constructor(private engine: AdvancedYamlRulesEngine) {}
+
+  async analyze(parsed: ParsedYAML, rawContent: string): Promise<void> {
+    this.validateStructure(parsed)
+
+    // Analyze GitLab-specific structure; hidden `.template` jobs only run through `extends:`
+    for (const [key, value] of Object.entries(parsed)) {
+      if (GITLAB_RESERVED_KEYWORDS.includes(key) || key.startsWith(".")) continue
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        await this.analyzeJob(key, value)
+      }
+    }
+
+    this.analyzePipelineFlow(parsed)
+  }
+
+  // Checks `rules:` and `needs:` against every kind of pipeline the project can run
+  private analyzePipelineFlow(parsed: ParsedYAML): void {
+    const document = this.engine.getDocument()
+    findPipelineProblems(parsed).forEach((problem) => {
+      const { title, ruleId, severity, suggestion } = PIPELINE_PROBLEM_ISSUES[problem.kind]
+      const range =
+        problem.needIndex !== undefined
+          ? (document.getRange([problem.job, "needs", problem.needIndex]) ?? document.getKeyRange([problem.job, "needs"]))
+          : document.getKeyRange([problem.job])
+      this.engine.addIssue({
+        title: title(problem),
+        description: problem.message,
+        severity,
+        category: problem.kind === "never-runs" ? "maintainability" : "linting",
+        ruleId,
+        suggestion,
+        line: range?.start.line,
+        range,
+      })
+    })
+  }
+
+  validateStructure(parsed: ParsedYAML): Issue[] {
+    const issues: Issue[] = []
+
+    if (!parsed.stages && !this.hasJobsWithStages(parsed)) {
+      this.engine.addIssue({
+        title: "No stages or jobs defined",
+        description: "GitLab CI should define either stages or jobs with scripts",
+        severity: "error",
+        category: "linting",
+        ruleId: "gl-no-stages-jobs",
+        suggestion: "Define stages or add jobs with script sections",
+        fixable: true,
+      })
+    }
+
+    return issues
+  }
+
+  private hasJobsWithStages(parsed: ParsedYAML): boolean {
+    return Object.values(parsed).some((value) => typeof value === "object" && value?.script)
+  }
+
+  async analyzeJobs(jobs: Record<string, any>): Promise<void> {
+    for (const [jobName, job] of Object.entries(jobs)) {
+      await this.analyzeJob(jobName, job)
+    }
+  }
+
+  private async analyzeJob(jobName: string, job: any): Promise<void> {
+    if (!job.stage && !job.extends) {
+      const range = this.engine.getDocument().getKeyRange([jobName])
+      this.engine.addIssue({
+        title: `Job "${jobName}" missing stage`,
         description: "Jobs should specify which stage they belong to",
         severity: "warning",
         category: "maintainability",
         ruleId: "gl-missing-stage",
         suggestion: "Add stage field to organize job execution",
         fixable: true,
+        line: range?.start.line,
+        range,
+      })
+    }
+
+    // Trigger jobs start a downstream pipeline instead of running a script
+    if (!job.script && !job.trigger && !job.extends) {
+      const range = this.engine.getDocument().getKeyRange([jobName])
+      this.engine.addIssue({
+        title: `Job "${jobName}" missing script`,
+        description: "Jobs must define a script, directly or through the templates they extend",
+        severity: "error",
+        category: "linting",
+        ruleId: "gl-missing-script",
+        suggestion: "Add a script section or extend a template that defines one",
+        fixable: true,
+        line: range?.start.line,
+        range,
       })
     }
   }
@@ -1940,7 +2681,7 @@ class BitbucketPipelinesAnalyzer implements PlatformAnalyzer {
     this.validateStructure(parsed)
 
     if (parsed.pipelines) {
-      await this.analyzePipelines(parsed.pipelines)
+      await this.analyzePipelines()
     }
   }
 
@@ -1967,49 +2708,2081 @@ class BitbucketPipelinesAnalyzer implements PlatformAnalyzer {
     // This method is here to satisfy the interface
   }
 
-  private async analyzePipelines(pipelines: any): Promise<void> {
-    if (pipelines.default) {
-      await this.analyzeSteps(pipelines.default, "default")
-    }
-
-    if (pipelines.branches) {
-      for (const [branchName, steps] of Object.entries(pipelines.branches)) {
-        await this.analyzeSteps(steps as any[], `branch ${branchName}`)
+  private async analyzePipelines(): Promise<void> {
+    const document = this.engine.getDocument()
+    const analyzed = new Set<object>()
+
+    this.engine.getPipeline().jobs.forEach((job) => {
+      // A step reused through an alias is checked once, at its anchor definition
+      const node = document.getNode(job.path)
+      const definition = node ? resolveAlias(node) : undefined
+      if (definition) {
+        if (analyzed.has(definition)) return
+        analyzed.add(definition)
       }
-    }
+      this.analyzeStep(job.raw, job.stage ?? "default", definition?.range)
+    })
   }
 
   async analyzeSteps(steps: any[], context: string): Promise<void> {
     if (!Array.isArray(steps)) return
 
-    steps.forEach((step, index) => {
+    steps.forEach((step) => {
       if (typeof step === "object" && step.step) {
-        const stepConfig = step.step
+        this.analyzeStep(step.step, context)
+      }
+    })
+  }
 
-        if (!stepConfig.name) {
-          this.engine.addIssue({
-            title: `Missing step name in ${context}`,
-            description: "Steps should have descriptive names",
-            severity: "warning",
-            category: "maintainability",
-            ruleId: "bb-missing-step-name",
-            suggestion: "Add a descriptive name to the step",
-            fixable: true,
-          })
+  private analyzeStep(stepConfig: any, context: string, range?: SourceRange): void {
+    if (!stepConfig || typeof stepConfig !== "object") return
+
+    if (!stepConfig.name) {
+      this.engine.addIssue({
+        title: `Missing step name in ${context}`,
+        description: "Steps should have descriptive names",
+        severity: "warning",
+        category: "maintainability",
+        ruleId: "bb-missing-step-name",
+        suggestion: "Add a descriptive name to the step",
+        fixable: true,
+        line: range?.start.line,
+        range,
+      })
+    }
+
+    if (!stepConfig.script) {
+      this.engine.addIssue({
+        title: `Missing script in ${context}`,
+        description: "Each step must contain a script section",
+        severity: "error",
+        category: "linting",
+        ruleId: "bb-missing-script",
+        suggestion: "Add a script section with commands to execute",
+        fixable: true,
+        line: range?.start.line,
+        range,
+      })
+    }
+  }
+}
+
+// Microsoft-hosted images that have been retired and no longer get agents
+const RETIRED_AZURE_VM_IMAGES = [
+  "ubuntu-16.04",
+  "ubuntu-18.04",
+  "ubuntu-20.04",
+  "vs2015-win2012r2",
+  "vs2017-win2016",
+  "win1803",
+  "windows-2016",
+  "windows-2019",
+  "macos-10.13",
+  "macos-10.14",
+  "macos-10.15",
+  "macos-11",
+  "macos-12",
+]
+// Functions of Azure condition expressions, lowercased
+const AZURE_CONDITION_FUNCTIONS = [
+  "and", "or", "not", "xor", "eq", "ne", "gt", "ge", "lt", "le", "in", "notin",
+  "contains", "containsvalue", "startswith", "endswith", "join", "format", "coalesce", "counter",
+  "converttojson", "replace", "split", "lower", "upper", "length", "iif", "trim",
+  "always", "canceled", "failed", "succeeded", "succeededorfailed",
+]
+const AZURE_STATUS_FUNCTIONS = ["always", "canceled", "failed", "succeeded", "succeededorfailed"]
+const AZURE_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+class AzurePipelinesAnalyzer implements PlatformAnalyzer {
+  constructor(private engine: AdvancedYamlRulesEngine) {}
+
+  async analyze(parsed: ParsedYAML, rawContent: string): Promise<void> {
+    this.validateStructure(parsed)
+    this.analyzeStages(parsed)
+    this.analyzeVariables(parsed.variables, ["variables"])
+    await this.analyzeJobs(parsed.jobs ?? {})
+  }
+
+  validateStructure(parsed: ParsedYAML): Issue[] {
+    const issues: Issue[] = []
+    const levels = ["stages", "jobs", "steps"].filter((key) => parsed[key] !== undefined)
+
+    if (levels.length === 0 && !parsed.extends) {
+      this.engine.addIssue({
+        title: "Missing stages, jobs or steps",
+        description: "An Azure pipeline must define stages, jobs or steps, or extend a template",
+        severity: "error",
+        category: "structure",
+        ruleId: "azure-missing-jobs",
+        suggestion: 'Add a "steps" list, or "jobs" / "stages" for larger pipelines',
+        fixable: true,
+      })
+    } else if (levels.length > 1) {
+      const range = this.engine.getDocument().getKeyRange([levels[1]])
+      this.engine.addIssue({
+        title: "Mixed pipeline hierarchy",
+        description: `The pipeline defines ${levels.join(" and ")} at the top level; only one of stages, jobs or steps is allowed`,
+        severity: "error",
+        category: "structure",
+        ruleId: "azure-mixed-hierarchy",
+        suggestion: "Nest jobs under stages and steps under jobs",
+        line: range?.start.line,
+        range,
+      })
+    }
+
+    return issues
+  }
+
+  // Jobs come from the pipeline model, which covers stages and jobs expanded from templates
+  async analyzeJobs(jobs: Record<string, any>): Promise<void> {
+    const document = this.engine.getDocument()
+    const pipeline = this.engine.getPipeline()
+    const reportedPools = new Set<string>()
+    const jobName = (job: PipelineJob) => job.raw.deployment ?? job.raw.job
+
+    // Job names and dependencies are scoped to their stage
+    const byStage = new Map<string, PipelineJob[]>()
+    pipeline.jobs.forEach((job) => {
+      const stage = job.stage ?? ""
+      byStage.set(stage, [...(byStage.get(stage) ?? []), job])
+    })
+
+    pipeline.jobs.forEach((job) => {
+      const raw = job.raw
+      if (raw.template !== undefined) return
+      const keyRange = document.getKeyRange(job.path) ?? job.range
+      const location = { line: keyRange?.start.line, range: keyRange }
+      const name = jobName(job)
+      const siblings = byStage.get(job.stage ?? "") ?? []
+
+      if (typeof name === "string" && !AZURE_IDENTIFIER.test(name)) {
+        this.engine.addIssue({
+          title: `Invalid job name "${name}"`,
+          description: "Job names may only contain letters, digits and underscores, and must not start with a digit",
+          severity: "error",
+          category: "linting",
+          ruleId: "azure-invalid-identifier",
+          suggestion: "Rename the job and set a readable displayName instead",
+          ...location,
+        })
+      }
+      // Every job after the first with the same name is reported
+      if (name !== undefined && siblings.find((sibling) => jobName(sibling) === name) !== job) {
+        this.engine.addIssue({
+          title: `Duplicate job name "${name}"`,
+          description: `More than one job in ${job.stage ? `stage "${job.stage}"` : "the pipeline"} is named "${name}"`,
+          severity: "error",
+          category: "linting",
+          ruleId: "azure-duplicate-job",
+          suggestion: "Give every job in a stage a unique name",
+          ...location,
+        })
+      }
+      job.dependencies.forEach((dependency) => {
+        if (siblings.some((sibling) => jobName(sibling) === dependency)) return
+        this.engine.addIssue({
+          title: `Job "${job.id}" depends on an undefined job`,
+          description: `dependsOn names "${dependency}", which is not a job in ${job.stage ? `stage "${job.stage}"` : "the pipeline"}`,
+          severity: "error",
+          category: "linting",
+          ruleId: "azure-unknown-dependency",
+          suggestion: "Name an existing job in dependsOn, or remove the entry",
+          ...location,
+        })
+      })
+
+      if (raw.deployment !== undefined) this.analyzeDeployment(job, location)
+      else if (raw.environment !== undefined) {
+        this.engine.addIssue({
+          title: `Job "${job.id}" sets an environment`,
+          description: "environment only applies to deployment jobs; a regular job ignores it, so no approvals or deployment history apply",
+          severity: "warning",
+          category: "linting",
+          ruleId: "azure-environment-on-job",
+          suggestion: "Turn the job into a deployment job with a strategy",
+          exampleCode: "- deployment: deploy\n  environment: production\n  strategy:\n    runOnce:\n      deploy:\n        steps: []",
+          ...location,
+        })
+      }
+
+      this.analyzePool(job, reportedPools)
+      this.analyzeVariables(raw.variables, [...job.path, "variables"])
+      if (raw.condition !== undefined) this.analyzeCondition(raw.condition, [...job.path, "condition"], `job "${job.id}"`)
+      job.steps.forEach((step) => {
+        if (step.condition !== undefined) {
+          this.analyzeCondition(step.raw.condition, [...step.path, "condition"], `step "${step.name ?? step.uses ?? "script"}"`)
         }
+      })
+    })
+  }
+
+  async analyzeSteps(steps: any[], context: string): Promise<void> {
+    // Steps are analyzed with their job through the pipeline model
+  }
+
+  private analyzeStages(parsed: ParsedYAML): void {
+    if (!Array.isArray(parsed.stages)) return
+    const document = this.engine.getDocument()
+    const names = parsed.stages.map((stage: any) => stage?.stage).filter((name: any) => name !== undefined)
 
-        if (!stepConfig.script) {
+    parsed.stages.forEach((stage: any, index: number) => {
+      if (!stage || typeof stage !== "object" || stage.template !== undefined) return
+      const path = ["stages", index]
+      const range = document.getKeyRange(path) ?? document.getRange(path)
+      const location = { line: range?.start.line, range }
+
+      if (typeof stage.stage === "string" && !AZURE_IDENTIFIER.test(stage.stage)) {
+        this.engine.addIssue({
+          title: `Invalid stage name "${stage.stage}"`,
+          description: "Stage names may only contain letters, digits and underscores, and must not start with a digit",
+          severity: "error",
+          category: "linting",
+          ruleId: "azure-invalid-identifier",
+          suggestion: "Rename the stage and set a readable displayName instead",
+          ...location,
+        })
+      }
+      ;(Array.isArray(stage.dependsOn) ? stage.dependsOn : stage.dependsOn !== undefined ? [stage.dependsOn] : []).forEach(
+        (dependency: any) => {
+          if (typeof dependency !== "string" || names.includes(dependency)) return
           this.engine.addIssue({
-            title: `Missing script in ${context}`,
-            description: "Each step must contain a script section",
+            title: `Stage "${stage.stage}" depends on an undefined stage`,
+            description: `dependsOn names "${dependency}", which is not a stage of the pipeline`,
             severity: "error",
             category: "linting",
-            ruleId: "bb-missing-script",
-            suggestion: "Add a script section with commands to execute",
-            fixable: true,
+            ruleId: "azure-unknown-dependency",
+            suggestion: "Name an existing stage in dependsOn, or remove the entry",
+            ...location,
           })
-        }
-      }
+        },
+      )
+
+      this.analyzeVariables(stage.variables, [...path, "variables"])
+      if (stage.condition !== undefined) this.analyzeCondition(stage.condition, [...path, "condition"], `stage "${stage.stage}"`)
+    })
+  }
+
+  private analyzeDeployment(job: PipelineJob, location: { line?: number; range?: SourceRange }): void {
+    if (job.raw.environment === undefined) {
+      this.engine.addIssue({
+        title: `Deployment job "${job.id}" has no environment`,
+        description: "Deployment jobs must name the environment they deploy to; it carries approvals, checks and deployment history",
+        severity: "error",
+        category: "structure",
+        ruleId: "azure-deployment-missing-environment",
+        suggestion: "Add an environment, e.g. environment: production",
+        ...location,
+      })
+    }
+    if (!job.raw.strategy || typeof job.raw.strategy !== "object") {
+      this.engine.addIssue({
+        title: `Deployment job "${job.id}" has no strategy`,
+        description: "Deployment jobs run their steps through a strategy such as runOnce, rolling or canary",
+        severity: "error",
+        category: "structure",
+        ruleId: "azure-deployment-missing-strategy",
+        suggestion: "Move the steps under strategy.runOnce.deploy.steps",
+        exampleCode: "strategy:\n  runOnce:\n    deploy:\n      steps: []",
+        ...location,
+      })
+    }
+  }
+
+  // Pools set on the pipeline or a stage are shared by many jobs and reported once
+  private analyzePool(job: PipelineJob, reported: Set<string>): void {
+    const document = this.engine.getDocument()
+    const candidates: YamlPath[] = [[...job.path, "pool"], ...(job.path[0] === "stages" ? [[...job.path.slice(0, 2), "pool"]] : []), ["pool"]]
+    const path = candidates.find((candidate) => document.getNode(candidate))
+    const node = path ? document.getNode(path) : undefined
+    const pool = node ? nodeToJS(node) : undefined
+    const vmImage = typeof pool === "object" && pool ? pool.vmImage : undefined
+    if (!path || typeof vmImage !== "string" || vmImage.includes("$")) return
+
+    const key = path.join(".")
+    if (reported.has(key)) return
+    reported.add(key)
+    const range = document.getRange([...path, "vmImage"])
+    const location = { line: range?.start.line, range }
+
+    if (RETIRED_AZURE_VM_IMAGES.includes(vmImage.toLowerCase())) {
+      this.engine.addIssue({
+        title: `Retired agent image: ${vmImage}`,
+        description: `Microsoft-hosted agents no longer provide ${vmImage}; jobs that request it fail or wait for an agent that never comes`,
+        severity: "error",
+        category: "maintainability",
+        ruleId: "azure-retired-vm-image",
+        suggestion: "Move to a supported image such as ubuntu-24.04, windows-2022 or macOS-14",
+        ...location,
+      })
+    } else if (/-latest$/i.test(vmImage)) {
+      this.engine.addIssue({
+        title: `Floating agent image: ${vmImage}`,
+        description: `${vmImage} moves to a new OS version when Microsoft updates the label, which can change tools and break builds`,
+        severity: "info",
+        category: "maintainability",
+        ruleId: "azure-floating-vm-image",
+        suggestion: "Pin a versioned image such as ubuntu-24.04 and upgrade it deliberately",
+        ...location,
+      })
+    }
+  }
+
+  // `variables:` is a name-value mapping or a list of `name`, `group` and `template` entries
+  private analyzeVariables(variables: any, path: YamlPath): void {
+    if (!variables || typeof variables !== "object") return
+    const document = this.engine.getDocument()
+
+    if (!Array.isArray(variables)) {
+      if (variables.group === undefined) return
+      const range = document.getKeyRange([...path, "group"])
+      this.engine.addIssue({
+        title: "Variable group in mapping syntax",
+        description: '"group" in a variables mapping defines a variable named group instead of linking the variable group',
+        severity: "error",
+        category: "linting",
+        ruleId: "azure-variable-group-mapping",
+        suggestion: "Use the list syntax to link variable groups",
+        exampleCode: `variables:\n  - group: ${variables.group}\n  - name: NAME\n    value: VALUE`,
+        line: range?.start.line,
+        range,
+      })
+      return
+    }
+
+    variables.forEach((entry: any, index: number) => {
+      const valid = entry && typeof entry === "object" && (typeof entry.group === "string" || entry.template !== undefined || entry.name !== undefined)
+      if (valid) return
+      const range = document.getRange([...path, index])
+      this.engine.addIssue({
+        title: "Invalid variables entry",
+        description: "Entries of a variables list must be - name: / value:, - group: or - template:",
+        severity: "error",
+        category: "linting",
+        ruleId: "azure-invalid-variable",
+        suggestion: "Rewrite the entry as - name: NAME with value: VALUE",
+        line: range?.start.line,
+        range,
+      })
     })
   }
+
+  private analyzeCondition(condition: any, path: YamlPath, owner: string): void {
+    if (typeof condition !== "string" || condition.includes("${{")) return
+    const range = this.engine.getDocument().getRange(path)
+    const location = { line: range?.start.line, range }
+    const report = (title: string, description: string, suggestion: string, severity: Issue["severity"], ruleId: string) =>
+      this.engine.addIssue({ title, description, severity, category: "linting", ruleId, suggestion, ...location })
+
+    const { functions, balanced } = scanCondition(condition)
+    const unknown = functions.filter((name) => !AZURE_CONDITION_FUNCTIONS.includes(name.toLowerCase()))
+    if (!balanced || unknown.length > 0) {
+      report(
+        `Invalid condition on ${owner}`,
+        balanced ? `Unknown function ${unknown.join(", ")} in "${condition}"` : `Unbalanced parentheses or quotes in "${condition}"`,
+        "Fix the expression; conditions are function calls such as and(succeeded(), eq(variables['Build.Reason'], 'Manual'))",
+        "error",
+        "azure-invalid-condition",
+      )
+      return
+    }
+    if (/\$\([\w.]+\)/.test(condition)) {
+      report(
+        `Macro syntax in condition on ${owner}`,
+        "$(var) is not expanded inside condition expressions, so the comparison sees the literal text",
+        "Read the variable with variables['name'] instead",
+        "warning",
+        "azure-macro-in-condition",
+      )
+    }
+    if (!functions.some((name) => AZURE_STATUS_FUNCTIONS.includes(name.toLowerCase()))) {
+      report(
+        `Condition on ${owner} ignores earlier failures`,
+        "A custom condition replaces the default succeeded(), so this runs even after a failure or cancellation",
+        "Combine the check with succeeded(), e.g. and(succeeded(), <condition>)",
+        "warning",
+        "azure-condition-ignores-status",
+      )
+    }
+  }
+}
+
+function isSameFinding(a: Issue, b: Issue): boolean {
+  return (
+    a.ruleId === b.ruleId &&
+    a.title === b.title &&
+    a.description === b.description &&
+    a.range?.file === b.range?.file &&
+    a.range?.start.offset === b.range?.start.offset &&
+    a.range?.end.offset === b.range?.end.offset
+  )
+}
+
+// Function names called in an Azure condition, and whether its parentheses and quotes close
+function scanCondition(condition: string): { functions: string[]; balanced: boolean } {
+  const functions: string[] = []
+  let depth = 0
+  let index = 0
+  while (index < condition.length) {
+    const char = condition[index]
+    if (char === "'") {
+      // Quotes inside strings are doubled
+      index++
+      while (index < condition.length && !(condition[index] === "'" && condition[index + 1] !== "'")) {
+        index += condition[index] === "'" ? 2 : 1
+      }
+      if (index >= condition.length) return { functions, balanced: false }
+      index++
+      continue
+    }
+    const call = condition.slice(index).match(/^([A-Za-z_]\w*)\s*\(/)
+    if (call && (index === 0 || !/[\w.[\]']/.test(condition[index - 1]))) functions.push(call[1])
+    if (char === "(") depth++
+    if (char === ")" && --depth < 0) return { functions, balanced: false }
+    index += call ? call[1].length : 1
+  }
+  return { functions, balanced: depth === 0 }
+}
+
+// Configuration keys that need CircleCI 2.1
+const CIRCLECI_21_KEYS = ["orbs", "commands", "executors", "parameters"]
+const CIRCLECI_EXECUTOR_KEYS = ["docker", "machine", "macos"]
+
+interface WorkflowEntry {
+  job: string
+  name: string
+  config: Record<string, any>
+  path: YamlPath
+}
+
+class CircleCIAnalyzer implements PlatformAnalyzer {
+  constructor(private engine: AdvancedYamlRulesEngine) {}
+
+  async analyze(parsed: ParsedYAML, rawContent: string): Promise<void> {
+    this.validateStructure(parsed)
+    await this.analyzeJobs(parsed.jobs ?? {})
+    this.analyzeWorkflows(parsed)
+  }
+
+  validateStructure(parsed: ParsedYAML): Issue[] {
+    const issues: Issue[] = []
+    const document = this.engine.getDocument()
+    const version = parsed.version !== undefined ? String(parsed.version) : undefined
+
+    if (version === undefined) {
+      this.engine.addIssue({
+        title: "Missing version",
+        description: "CircleCI requires the configuration version at the top of the file",
+        severity: "error",
+        category: "structure",
+        ruleId: "circleci-missing-version",
+        suggestion: "Add version: 2.1 to the configuration",
+        exampleCode: "version: 2.1",
+        fixable: true,
+      })
+    } else if (version !== "2.1") {
+      const features = CIRCLECI_21_KEYS.filter((key) => parsed[key] !== undefined)
+      if (features.length > 0) {
+        const range = document.getRange(["version"])
+        this.engine.addIssue({
+          title: `${features.join(", ")} need version 2.1`,
+          description: `The configuration is version ${version}, which does not support ${features.join(", ")}`,
+          severity: "error",
+          category: "structure",
+          ruleId: "circleci-version-features",
+          suggestion: "Set version: 2.1",
+          fixable: true,
+          line: range?.start.line,
+          range,
+        })
+      }
+    }
+
+    if (!parsed.jobs || typeof parsed.jobs !== "object" || Object.keys(parsed.jobs).length === 0) {
+      this.engine.addIssue({
+        title: "Missing jobs",
+        description: "A CircleCI configuration must define at least one job",
+        severity: "error",
+        category: "structure",
+        ruleId: "circleci-missing-jobs",
+        suggestion: "Add a jobs section with an executor and steps",
+        fixable: true,
+      })
+    } else if (!parsed.workflows && !parsed.jobs.build) {
+      this.engine.addIssue({
+        title: "No workflow runs the jobs",
+        description: "Without workflows CircleCI only runs a job named build, so none of these jobs run",
+        severity: "warning",
+        category: "structure",
+        ruleId: "circleci-missing-workflows",
+        suggestion: "Add a workflow that lists the jobs to run",
+        exampleCode: `workflows:\n  main:\n    jobs:\n      - ${Object.keys(parsed.jobs)[0]}`,
+      })
+    }
+
+    return issues
+  }
+
+  // Jobs come from the pipeline model, with executors and commands already expanded
+  async analyzeJobs(jobs: Record<string, any>): Promise<void> {
+    const document = this.engine.getDocument()
+    this.engine.getPipeline().jobs.forEach((job) => {
+      const raw = job.raw
+      const range = document.getKeyRange(job.path) ?? job.range
+      const location = { line: range?.start.line, range }
+      const executors = CIRCLECI_EXECUTOR_KEYS.filter((key) => raw[key] !== undefined)
+
+      // An executor left in place comes from an orb that was not read
+      if (executors.length === 0 && raw.executor === undefined) {
+        this.engine.addIssue({
+          title: `Job "${job.id}" has no executor`,
+          description: "Every job needs docker, machine, macos or executor to say where it runs",
+          severity: "error",
+          category: "structure",
+          ruleId: "circleci-missing-executor",
+          suggestion: "Add an executor to the job",
+          exampleCode: "docker:\n  - image: cimg/base:2024.01",
+          ...location,
+        })
+      } else if (executors.length > 1) {
+        this.engine.addIssue({
+          title: `Job "${job.id}" has more than one executor`,
+          description: `The job sets ${executors.join(" and ")}; a job runs on exactly one executor`,
+          severity: "error",
+          category: "structure",
+          ruleId: "circleci-multiple-executors",
+          suggestion: "Keep one of docker, machine or macos",
+          ...location,
+        })
+      }
+
+      if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+        this.engine.addIssue({
+          title: `Job "${job.id}" has no steps`,
+          description: "A job without steps fails when it starts",
+          severity: "error",
+          category: "structure",
+          ruleId: "circleci-missing-steps",
+          suggestion: "Add the steps the job runs, starting with checkout",
+          ...location,
+        })
+      }
+    })
+  }
+
+  async analyzeSteps(steps: any[], context: string): Promise<void> {
+    // Steps are analyzed with their job through the pipeline model
+  }
+
+  private analyzeWorkflows(parsed: ParsedYAML): void {
+    if (!parsed.workflows || typeof parsed.workflows !== "object") return
+    const referenced = new Set<string>()
+
+    Object.entries(parsed.workflows).forEach(([workflowName, workflow]: [string, any]) => {
+      // `version: 2` sits beside the workflows in 2.0 configurations
+      if (!workflow || typeof workflow !== "object" || !Array.isArray(workflow.jobs)) return
+      const entries: WorkflowEntry[] = workflow.jobs.flatMap((entry: any, index: number): WorkflowEntry[] => {
+        const [job, config] = typeof entry === "string" ? [entry, {}] : Object.entries(entry ?? {})[0] ?? []
+        if (typeof job !== "string") return []
+        const options: Record<string, any> = config && typeof config === "object" ? config : {}
+        const path = ["workflows", workflowName, "jobs", index, ...(typeof entry === "string" ? [] : [job])]
+        return [{ job, name: typeof options.name === "string" ? options.name : job, config: options, path }]
+      })
+      entries.forEach((entry) => {
+        referenced.add(entry.job)
+        referenced.add(entry.name)
+      })
+      this.analyzeWorkflow(workflowName, entries)
+    })
+
+    // Jobs no workflow runs are dead configuration
+    const document = this.engine.getDocument()
+    Object.keys(parsed.jobs ?? {}).forEach((jobName) => {
+      if (referenced.has(jobName)) return
+      const range = document.getKeyRange(["jobs", jobName])
+      this.engine.addIssue({
+        title: `Job "${jobName}" is not used`,
+        description: "No workflow runs this job",
+        severity: "info",
+        category: "maintainability",
+        ruleId: "circleci-unused-job",
+        suggestion: "Add the job to a workflow or remove it",
+        line: range?.start.line,
+        range,
+      })
+    })
+  }
+
+  private analyzeWorkflow(workflowName: string, entries: WorkflowEntry[]): void {
+    const document = this.engine.getDocument()
+    const byName = new Map<string, WorkflowEntry>()
+
+    entries.forEach((entry) => {
+      const range = document.getKeyRange(entry.path) ?? document.getRange(entry.path)
+      const location = { line: range?.start.line, range }
+      const { config } = entry
+
+      if (byName.has(entry.name)) {
+        this.engine.addIssue({
+          title: `Job "${entry.name}" appears twice in workflow "${workflowName}"`,
+          description: "Job names in a workflow must be unique; CircleCI rejects the configuration",
+          severity: "error",
+          category: "linting",
+          ruleId: "circleci-duplicate-workflow-job",
+          suggestion: "Give each invocation a distinct name:",
+          ...location,
+        })
+      }
+      byName.set(entry.name, entry)
+
+      const branches = config.filters?.branches
+      if (branches && typeof branches === "object" && branches.only !== undefined && branches.ignore !== undefined) {
+        this.engine.addIssue({
+          title: `Conflicting branch filters on "${entry.name}"`,
+          description: "filters.branches sets both only and ignore, which CircleCI does not allow",
+          severity: "error",
+          category: "linting",
+          ruleId: "circleci-conflicting-filters",
+          suggestion: "Keep either only or ignore",
+          ...location,
+        })
+      }
+    })
+
+    const requiresOf = (entry: WorkflowEntry): string[] => {
+      const requires = entry.config.requires
+      return (Array.isArray(requires) ? requires : requires !== undefined ? [requires] : []).map(String)
+    }
+
+    entries.forEach((entry) => {
+      const range = document.getKeyRange(entry.path) ?? document.getRange(entry.path)
+      const location = { line: range?.start.line, range }
+
+      requiresOf(entry).forEach((required) => {
+        const upstream = byName.get(required)
+        if (!upstream) {
+          this.engine.addIssue({
+            title: `"${entry.name}" requires an undefined job`,
+            description: `requires names "${required}", which is not a job of workflow "${workflowName}"`,
+            severity: "error",
+            category: "linting",
+            ruleId: "circleci-unknown-requires",
+            suggestion: "Name a job of the same workflow in requires, or remove the entry",
+            ...location,
+          })
+          return
+        }
+        // A job that runs for tags only starts if every job it requires runs for tags too
+        if (entry.config.filters?.tags !== undefined && upstream.config.filters?.tags === undefined) {
+          this.engine.addIssue({
+            title: `"${entry.name}" never runs for tags`,
+            description: `"${entry.name}" has tag filters but requires "${required}", which has none and so does not run for tag pushes`,
+            severity: "warning",
+            category: "linting",
+            ruleId: "circleci-tag-filter-requires",
+            suggestion: `Add the same filters.tags to "${required}"`,
+            ...location,
+          })
+        }
+      })
+
+      if (entry.config.type === "approval" && !entries.some((other) => requiresOf(other).includes(entry.name))) {
+        this.engine.addIssue({
+          title: `Approval "${entry.name}" gates nothing`,
+          description: "No job requires this approval job, so approving it has no effect",
+          severity: "warning",
+          category: "linting",
+          ruleId: "circleci-unused-approval",
+          suggestion: "List the approval job in requires of the jobs it should hold back",
+          ...location,
+        })
+      }
+    })
+
+    // Each cycle is reported once, at the entry where the search closes it
+    const visiting = new Set<string>()
+    const done = new Set<string>()
+    const visit = (name: string, trail: string[]): void => {
+      if (done.has(name)) return
+      if (visiting.has(name)) {
+        const entry = byName.get(name)!
+        const range = document.getKeyRange(entry.path) ?? document.getRange(entry.path)
+        this.engine.addIssue({
+          title: "Circular requires",
+          description: `Jobs of workflow "${workflowName}" require each other: ${[...trail.slice(trail.indexOf(name)), name].join(" → ")}`,
+          severity: "error",
+          category: "linting",
+          ruleId: "circleci-requires-cycle",
+          suggestion: "Remove one of the requires so the jobs form a DAG",
+          line: range?.start.line,
+          range,
+        })
+        return
+      }
+      const entry = byName.get(name)
+      if (!entry) return
+      visiting.add(name)
+      requiresOf(entry).forEach((required) => visit(required, [...trail, name]))
+      visiting.delete(name)
+      done.add(name)
+    }
+    byName.forEach((_, name) => visit(name, []))
+  }
+}
+
+const JENKINS_PIPELINE_DIRECTIVES = ["agent", "environment", "options", "parameters", "triggers", "tools", "stages", "post", "libraries"]
+const JENKINS_STAGE_DIRECTIVES = [
+  "stage",
+  "agent",
+  "environment",
+  "options",
+  "input",
+  "when",
+  "tools",
+  "steps",
+  "stages",
+  "parallel",
+  "matrix",
+  "post",
+  "failFast",
+]
+const JENKINS_STAGE_BODIES = ["steps", "stages", "parallel", "matrix"]
+const JENKINS_POST_CONDITIONS = [
+  "always",
+  "changed",
+  "fixed",
+  "regression",
+  "aborted",
+  "failure",
+  "success",
+  "unstable",
+  "unsuccessful",
+  "cleanup",
+]
+
+class JenkinsAnalyzer implements PlatformAnalyzer {
+  constructor(private engine: AdvancedYamlRulesEngine) {}
+
+  async analyze(parsed: ParsedYAML, rawContent: string): Promise<void> {
+    this.validateStructure(parsed)
+    if (!parsed.pipeline || typeof parsed.pipeline !== "object") return
+    await this.analyzeJobs(parsed.pipeline)
+  }
+
+  validateStructure(parsed: ParsedYAML): Issue[] {
+    const issues: Issue[] = []
+    const document = this.engine.getDocument()
+    const root = parsed.pipeline
+
+    if (!root || typeof root !== "object") {
+      // Scripted pipelines are Groovy programs rather than a fixed structure
+      const scripted = parsed.node !== undefined
+      const range = scripted ? document.getKeyRange(["node"]) : undefined
+      this.engine.addIssue({
+        title: scripted ? "Scripted pipeline" : "Missing pipeline block",
+        description: scripted
+          ? "Only declarative pipelines are analyzed; the steps of this scripted pipeline were not checked"
+          : "A declarative Jenkinsfile must wrap its configuration in a pipeline { } block",
+        severity: scripted ? "info" : "error",
+        category: "structure",
+        ruleId: scripted ? "jenkins-scripted-pipeline" : "jenkins-missing-pipeline",
+        suggestion: scripted
+          ? "Convert the pipeline to declarative syntax to have it analyzed"
+          : "Wrap the directives in pipeline { }",
+        exampleCode: "pipeline {\n  agent { label 'linux' }\n  stages {\n    stage('Build') {\n      steps {\n        sh 'make'\n      }\n    }\n  }\n}",
+        line: range?.start.line,
+        range,
+      })
+      return issues
+    }
+
+    const pipelineRange = document.getKeyRange(["pipeline"])
+    if (root.agent === undefined) {
+      this.engine.addIssue({
+        title: "Missing agent",
+        description: "A declarative pipeline must say where it runs with an agent directive at the top level",
+        severity: "error",
+        category: "structure",
+        ruleId: "jenkins-missing-agent",
+        suggestion: "Add an agent, or agent none and an agent in each stage",
+        exampleCode: "agent { label 'linux' }",
+        fixable: true,
+        line: pipelineRange?.start.line,
+        range: pipelineRange,
+      })
+    }
+    if (!Array.isArray(root.stages) || root.stages.length === 0) {
+      this.engine.addIssue({
+        title: "Missing stages",
+        description: "A declarative pipeline must have a stages directive with at least one stage",
+        severity: "error",
+        category: "structure",
+        ruleId: "jenkins-missing-stages",
+        suggestion: "Add the stages the pipeline runs",
+        exampleCode: "stages {\n  stage('Build') {\n    steps {\n      sh 'make'\n    }\n  }\n}",
+        line: pipelineRange?.start.line,
+        range: pipelineRange,
+      })
+    }
+    this.checkDirectives(root, ["pipeline"], JENKINS_PIPELINE_DIRECTIVES, "the pipeline")
+    this.checkPostConditions(root.post, ["pipeline", "post"])
+
+    return issues
+  }
+
+  // Stages are checked as written, including those that only group other stages
+  async analyzeJobs(root: Record<string, any>): Promise<void> {
+    const document = this.engine.getDocument()
+    const names = new Map<string, YamlPath>()
+
+    const walk = (stages: any, path: YamlPath, hasAgent: boolean): void => {
+      if (!Array.isArray(stages)) return
+      stages.forEach((stage: any, index: number) => {
+        if (!stage || typeof stage !== "object") return
+        const stagePath = [...path, index]
+        const range = document.getKeyRange([...stagePath, "stage"]) ?? document.getRange(stagePath)
+        const location = { line: range?.start.line, range }
+        const name = String(stage.stage ?? "")
+        const bodies = JENKINS_STAGE_BODIES.filter((key) => stage[key] !== undefined)
+        const agent = hasAgent || (stage.agent !== undefined && stage.agent !== "none")
+
+        if (names.has(name)) {
+          const first = document.getKeyRange([...names.get(name)!, "stage"])
+          this.engine.addIssue({
+            title: `Duplicate stage name: ${name}`,
+            description: "Jenkins rejects a pipeline in which two stages have the same name",
+            severity: "error",
+            category: "structure",
+            ruleId: "jenkins-duplicate-stage",
+            suggestion: "Give each stage a unique name",
+            ...location,
+            ...(first ? { relatedLocations: [{ message: "First stage with this name", range: first }] } : {}),
+          })
+        } else {
+          names.set(name, stagePath)
+        }
+
+        if (bodies.length !== 1) {
+          this.engine.addIssue({
+            title: bodies.length === 0 ? `Stage "${name}" has nothing to run` : `Stage "${name}" has more than one body`,
+            description:
+              bodies.length === 0
+                ? "A stage needs exactly one of steps, stages, parallel or matrix"
+                : `The stage has ${bodies.join(" and ")}; Jenkins allows only one of steps, stages, parallel or matrix`,
+            severity: "error",
+            category: "structure",
+            ruleId: bodies.length === 0 ? "jenkins-empty-stage" : "jenkins-conflicting-stage-body",
+            suggestion: bodies.length === 0 ? "Add the steps the stage runs" : "Split the stage, or nest the steps in a stage of their own",
+            ...location,
+          })
+        } else if (Array.isArray(stage.steps) && stage.steps.length === 0) {
+          this.engine.addIssue({
+            title: `Stage "${name}" has no steps`,
+            description: "Jenkins rejects a steps block without any step",
+            severity: "error",
+            category: "structure",
+            ruleId: "jenkins-empty-stage",
+            suggestion: "Add the steps the stage runs",
+            ...location,
+          })
+        }
+
+        if (stage.steps !== undefined && !agent) {
+          this.engine.addIssue({
+            title: `Stage "${name}" has no agent`,
+            description: "The pipeline uses agent none, so stages that run steps must declare their own agent",
+            severity: "error",
+            category: "structure",
+            ruleId: "jenkins-stage-missing-agent",
+            suggestion: "Add an agent to the stage",
+            exampleCode: "agent { label 'linux' }",
+            ...location,
+          })
+        }
+
+        this.checkDirectives(stage, stagePath, JENKINS_STAGE_DIRECTIVES, `stage "${name}"`)
+        this.checkPostConditions(stage.post, [...stagePath, "post"])
+        walk(stage.parallel, [...stagePath, "parallel"], agent)
+        walk(stage.stages, [...stagePath, "stages"], agent)
+        if (stage.matrix && typeof stage.matrix === "object") {
+          walk(stage.matrix.stages, [...stagePath, "matrix", "stages"], agent || (stage.matrix.agent !== undefined && stage.matrix.agent !== "none"))
+        }
+      })
+    }
+    walk(root.stages, ["pipeline", "stages"], root.agent !== undefined && root.agent !== "none")
+  }
+
+  async analyzeSteps(steps: any[], context: string): Promise<void> {
+    // Steps are analyzed with their stage through the pipeline model
+  }
+
+  private checkDirectives(section: Record<string, any>, path: YamlPath, known: string[], owner: string): void {
+    const document = this.engine.getDocument()
+    Object.keys(section)
+      .filter((key) => !known.includes(key))
+      .forEach((key) => {
+        const range = document.getKeyRange([...path, key])
+        this.engine.addIssue({
+          title: `Unknown directive: ${key}`,
+          description: `${key} is not a directive of ${owner}, so Jenkins rejects the pipeline`,
+          severity: "error",
+          category: "syntax",
+          ruleId: "jenkins-unknown-directive",
+          suggestion: `Use one of ${known.filter((directive) => directive !== "stage").join(", ")}`,
+          line: range?.start.line,
+          range,
+        })
+      })
+  }
+
+  private checkPostConditions(post: any, path: YamlPath): void {
+    if (!post || typeof post !== "object") return
+    const document = this.engine.getDocument()
+    Object.keys(post)
+      .filter((condition) => !JENKINS_POST_CONDITIONS.includes(condition))
+      .forEach((condition) => {
+        const range = document.getKeyRange([...path, condition])
+        this.engine.addIssue({
+          title: `Unknown post condition: ${condition}`,
+          description: `post does not have a ${condition} condition, so Jenkins rejects the pipeline`,
+          severity: "error",
+          category: "syntax",
+          ruleId: "jenkins-unknown-post-condition",
+          suggestion: `Use one of ${JENKINS_POST_CONDITIONS.join(", ")}`,
+          line: range?.start.line,
+          range,
+        })
+      })
+  }
+}
+
+class BuildkiteAnalyzer implements PlatformAnalyzer {
+  constructor(private engine: AdvancedYamlRulesEngine) {}
+
+  async analyze(parsed: ParsedYAML, rawContent: string): Promise<void> {
+    this.validateStructure(parsed)
+    if (Array.isArray(parsed.steps)) await this.analyzeSteps(parsed.steps, "pipeline")
+  }
+
+  validateStructure(parsed: ParsedYAML): Issue[] {
+    const issues: Issue[] = []
+    if (!Array.isArray(parsed.steps) || parsed.steps.length === 0) {
+      const range = this.engine.getDocument().getKeyRange(["steps"])
+      this.engine.addIssue({
+        title: "Missing steps",
+        description: "A Buildkite pipeline needs a steps list with at least one step",
+        severity: "error",
+        category: "structure",
+        ruleId: "buildkite-missing-steps",
+        suggestion: "Add the steps the pipeline runs",
+        exampleCode: 'steps:\n  - label: ":hammer: Build"\n    command: make',
+        line: range?.start.line,
+        range,
+      })
+    }
+    return issues
+  }
+
+  async analyzeJobs(jobs: Record<string, any>): Promise<void> {
+    // Buildkite has steps only; command steps become jobs in the pipeline model
+  }
+
+  async analyzeSteps(steps: any[], context: string): Promise<void> {
+    const document = this.engine.getDocument()
+    const entries = collectBuildkiteSteps(steps)
+    const keys = new Map<string, YamlPath>()
+
+    entries.forEach(({ step, path }) => {
+      const range = document.getRange(path)
+      const location = { line: range?.start.line, range }
+      if (typeof step === "string") {
+        if (["wait", "waiter", "block", "input"].includes(step)) return
+        this.engine.addIssue({
+          title: `Unknown step: ${step}`,
+          description: "Only wait, block and input steps can be written as a plain string",
+          severity: "error",
+          category: "syntax",
+          ruleId: "buildkite-unknown-step",
+          suggestion: "Write the step as a mapping, e.g. a command step with a command",
+          ...location,
+        })
+        return
+      }
+      if (!step || typeof step !== "object") return
+
+      const key = buildkiteStepKey(step)
+      if (key !== undefined) {
+        const first = keys.get(key)
+        if (first) {
+          const firstRange = document.getRange([...first, step.key !== undefined ? "key" : "id"])
+          this.engine.addIssue({
+            title: `Duplicate step key: ${key}`,
+            description: "Buildkite rejects a pipeline in which two steps have the same key",
+            severity: "error",
+            category: "structure",
+            ruleId: "buildkite-duplicate-key",
+            suggestion: "Give each step a unique key",
+            ...location,
+            ...(firstRange ? { relatedLocations: [{ message: "First step with this key", range: firstRange }] } : {}),
+          })
+        } else {
+          keys.set(key, path)
+        }
+      }
+
+      const type = BUILDKITE_STEP_TYPES.find((name) => step[name] !== undefined)
+      if (!type && step.command === undefined && step.commands === undefined && step.plugins === undefined) {
+        this.engine.addIssue({
+          title: "Step runs nothing",
+          description: "A step needs a command, plugins, or to be a wait, block, input, trigger or group step",
+          severity: "error",
+          category: "structure",
+          ruleId: "buildkite-empty-step",
+          suggestion: "Add the command the step runs",
+          exampleCode: "command: make test",
+          ...location,
+        })
+      } else if (!type && typeof step.label !== "string" && typeof step.name !== "string") {
+        this.engine.addIssue({
+          title: "Command step without a label",
+          description: "The build page shows unlabelled steps by their command, which is hard to scan",
+          severity: "info",
+          category: "maintainability",
+          ruleId: "buildkite-missing-label",
+          suggestion: "Add a short label to the step",
+          exampleCode: 'label: ":jest: Unit tests"',
+          fixable: true,
+          ...location,
+        })
+      }
+    })
+
+    // depends_on may point at any step key in the pipeline, including those below it
+    entries.forEach(({ step, path }) => {
+      if (!step || typeof step !== "object" || step.depends_on === undefined) return
+      const dependencies = Array.isArray(step.depends_on) ? step.depends_on : [step.depends_on]
+      dependencies.forEach((dependency: any, index: number) => {
+        const name = dependency && typeof dependency === "object" ? dependency.step : dependency
+        if (typeof name !== "string" || keys.has(name)) return
+        const range = document.getRange(Array.isArray(step.depends_on) ? [...path, "depends_on", index] : [...path, "depends_on"])
+        this.engine.addIssue({
+          title: `Unknown dependency: ${name}`,
+          description: `No step has the key ${name}, so Buildkite rejects the pipeline`,
+          severity: "error",
+          category: "structure",
+          ruleId: "buildkite-unknown-dependency",
+          suggestion: "Depend on the key of an existing step",
+          line: range?.start.line,
+          range,
+        })
+      })
+    })
+  }
+}
+
+// Drone pipeline types that run steps on the host rather than in containers
+const DRONE_HOST_TYPES = ["exec", "ssh", "macstadium", "digitalocean"]
+
+// Drone and Woodpecker share their step syntax; Drone adds the kind and type header
+class DroneAnalyzer implements PlatformAnalyzer {
+  constructor(
+    private engine: AdvancedYamlRulesEngine,
+    private platform: "drone" | "woodpecker",
+  ) {}
+
+  async analyze(parsed: ParsedYAML, rawContent: string): Promise<void> {
+    this.validateStructure(parsed)
+    await this.analyzeJobs(parsed)
+  }
+
+  validateStructure(parsed: ParsedYAML): Issue[] {
+    const issues: Issue[] = []
+    const document = this.engine.getDocument()
+    const stepsKey = droneStepsKey(parsed)
+
+    if (collectDroneSteps(parsed).length === 0) {
+      const range = document.getKeyRange([stepsKey])
+      this.engine.addIssue({
+        title: "Missing steps",
+        description: "The pipeline needs at least one step",
+        severity: "error",
+        category: "structure",
+        ruleId: `${this.platform}-missing-steps`,
+        suggestion: "Add the steps the pipeline runs",
+        exampleCode: "steps:\n  - name: test\n    image: node:20\n    commands:\n      - npm ci\n      - npm test",
+        line: range?.start.line,
+        range,
+      })
+    }
+
+    if (this.platform === "drone" && parsed.kind === undefined) {
+      this.engine.addIssue({
+        title: "Missing kind",
+        description: "Drone ignores documents without kind, so this pipeline never runs",
+        severity: "error",
+        category: "structure",
+        ruleId: "drone-missing-kind",
+        suggestion: "Start the pipeline with kind: pipeline and its type",
+        exampleCode: "kind: pipeline\ntype: docker\nname: default",
+        fixable: true,
+        line: 1,
+      })
+    }
+
+    if (this.platform === "woodpecker" && stepsKey === "pipeline") {
+      const range = document.getKeyRange(["pipeline"])
+      this.engine.addIssue({
+        title: "Deprecated pipeline key",
+        description: "Woodpecker renamed pipeline to steps, and current versions reject the old name",
+        severity: "warning",
+        category: "maintainability",
+        ruleId: "woodpecker-deprecated-pipeline-key",
+        suggestion: "Rename pipeline to steps",
+        fixable: true,
+        line: range?.start.line,
+        range,
+      })
+    }
+
+    return issues
+  }
+
+  async analyzeJobs(parsed: Record<string, any>): Promise<void> {
+    const document = this.engine.getDocument()
+    const entries = collectDroneSteps(parsed)
+    const names = new Map<string, YamlPath>()
+    const inContainers = !DRONE_HOST_TYPES.includes(parsed.type)
+
+    entries.forEach(({ name, step, path }) => {
+      const range = document.getKeyRange(typeof path[1] === "number" ? [...path, "name"] : path)
+      const location = { line: range?.start.line, range }
+
+      if (names.has(name)) {
+        const first = document.getKeyRange([...names.get(name)!, "name"])
+        this.engine.addIssue({
+          title: `Duplicate step name: ${name}`,
+          description: "Step names must be unique; depends_on cannot tell the steps apart",
+          severity: "error",
+          category: "structure",
+          ruleId: `${this.platform}-duplicate-step`,
+          suggestion: "Give each step a unique name",
+          ...location,
+          ...(first ? { relatedLocations: [{ message: "First step with this name", range: first }] } : {}),
+        })
+      } else {
+        names.set(name, path)
+      }
+
+      if (inContainers && typeof step.image !== "string") {
+        this.engine.addIssue({
+          title: `Step "${name}" has no image`,
+          description: "Every step runs in a container, so it needs the image to start",
+          severity: "error",
+          category: "structure",
+          ruleId: `${this.platform}-missing-image`,
+          suggestion: "Add the image the step runs in",
+          exampleCode: "image: alpine:3.20",
+          ...location,
+        })
+      }
+    })
+
+    entries.forEach(({ step, path }) => {
+      const dependencies = Array.isArray(step.depends_on) ? step.depends_on : step.depends_on !== undefined ? [step.depends_on] : []
+      dependencies.forEach((dependency: any, index: number) => {
+        if (typeof dependency !== "string" || names.has(dependency)) return
+        const range = document.getRange(Array.isArray(step.depends_on) ? [...path, "depends_on", index] : [...path, "depends_on"])
+        this.engine.addIssue({
+          title: `Unknown dependency: ${dependency}`,
+          description: `No step is named ${dependency}`,
+          severity: "error",
+          category: "structure",
+          ruleId: `${this.platform}-unknown-dependency`,
+          suggestion: "Depend on the name of an existing step",
+          line: range?.start.line,
+          range,
+        })
+      })
+    })
+  }
+
+  async analyzeSteps(steps: any[], context: string): Promise<void> {
+    // Steps are analyzed with the pipeline in analyzeJobs
+  }
+}
+
+class TravisAnalyzer implements PlatformAnalyzer {
+  constructor(private engine: AdvancedYamlRulesEngine) {}
+
+  async analyze(parsed: ParsedYAML, rawContent: string): Promise<void> {
+    this.validateStructure(parsed)
+    await this.analyzeJobs(parsed)
+  }
+
+  validateStructure(parsed: ParsedYAML): Issue[] {
+    const issues: Issue[] = []
+    const document = this.engine.getDocument()
+
+    if (parsed.language === undefined) {
+      this.engine.addIssue({
+        title: "Missing language",
+        description: "Without language Travis sets the job up for Ruby and runs rake as its script",
+        severity: "warning",
+        category: "structure",
+        ruleId: "travis-missing-language",
+        suggestion: "Set the language the project is built with",
+        exampleCode: "language: node_js\nnode_js:\n  - 20",
+        fixable: true,
+        line: 1,
+      })
+    }
+
+    if (parsed.matrix !== undefined && parsed.jobs === undefined) {
+      const range = document.getKeyRange(["matrix"])
+      this.engine.addIssue({
+        title: "matrix is an alias of jobs",
+        description: "Travis documents jobs as the name of this section; matrix is kept only as an alias",
+        severity: "info",
+        category: "maintainability",
+        ruleId: "travis-matrix-alias",
+        suggestion: "Rename matrix to jobs",
+        fixable: true,
+        line: range?.start.line,
+        range,
+      })
+    }
+
+    return issues
+  }
+
+  async analyzeJobs(parsed: Record<string, any>): Promise<void> {
+    const document = this.engine.getDocument()
+    const stages = Array.isArray(parsed.stages)
+      ? parsed.stages.map((stage: any) => String(stage && typeof stage === "object" ? stage.name : stage).toLowerCase())
+      : undefined
+
+    collectTravisJobs(parsed).forEach(({ job, own, path }) => {
+      if (path.length === 0) return
+      if (stages && typeof own.stage === "string" && !stages.includes(own.stage.toLowerCase())) {
+        const range = document.getRange([...path, "stage"])
+        this.engine.addIssue({
+          title: `Stage "${own.stage}" is not listed in stages`,
+          description: "Travis runs stages missing from the stages list after the listed ones, which is rarely the intended order",
+          severity: "warning",
+          category: "structure",
+          ruleId: "travis-undeclared-stage",
+          suggestion: `Add ${own.stage} to stages where it should run`,
+          line: range?.start.line,
+          range,
+        })
+      }
+      if (job.script === undefined && job.language === undefined && own.deploy === undefined) {
+        const range = document.getRange(path)
+        this.engine.addIssue({
+          title: typeof own.name === "string" ? `Job "${own.name}" has no script` : "Job has no script",
+          description: "Without script or language the job runs the default Ruby script, rake",
+          severity: "warning",
+          category: "structure",
+          ruleId: "travis-missing-script",
+          suggestion: "Add the script the job runs",
+          line: range?.start.line,
+          range,
+        })
+      }
+    })
+  }
+
+  async analyzeSteps(steps: any[], context: string): Promise<void> {
+    // Travis jobs are lists of phases, analyzed through the pipeline model
+  }
+}
+
+class CodeBuildAnalyzer implements PlatformAnalyzer {
+  constructor(private engine: AdvancedYamlRulesEngine) {}
+
+  async analyze(parsed: ParsedYAML, rawContent: string): Promise<void> {
+    this.validateStructure(parsed)
+    await this.analyzeJobs(parsed)
+  }
+
+  validateStructure(parsed: ParsedYAML): Issue[] {
+    const issues: Issue[] = []
+    const document = this.engine.getDocument()
+    const versionRange = document.getRange(["version"])
+
+    if (parsed.version === undefined) {
+      this.engine.addIssue({
+        title: "Missing version",
+        description: "CodeBuild rejects a buildspec without a version",
+        severity: "error",
+        category: "structure",
+        ruleId: "codebuild-missing-version",
+        suggestion: "Start the buildspec with version: 0.2",
+        exampleCode: "version: 0.2",
+        fixable: true,
+        line: 1,
+      })
+    } else if (String(parsed.version) === "0.1") {
+      this.engine.addIssue({
+        title: "Buildspec version 0.1",
+        description: "Version 0.1 runs every command in a separate shell, so directory changes and variables do not carry over",
+        severity: "warning",
+        category: "structure",
+        ruleId: "codebuild-version-0.1",
+        suggestion: "Use version: 0.2",
+        fixable: true,
+        line: versionRange?.start.line,
+        range: versionRange,
+      })
+    }
+
+    // Batch builds that each name a buildspec need no phases here
+    const batchBuilds = collectBatchBuilds(parsed)
+    const delegated = batchBuilds.length > 0 && batchBuilds.every(({ build }) => typeof build.buildspec === "string")
+    if (!parsed.phases || typeof parsed.phases !== "object") {
+      if (!delegated) {
+        this.engine.addIssue({
+          title: "Missing phases",
+          description: "A buildspec runs its commands in phases; without them the build does nothing",
+          severity: "error",
+          category: "structure",
+          ruleId: "codebuild-missing-phases",
+          suggestion: "Add a build phase with the build's commands",
+          exampleCode: "phases:\n  build:\n    commands:\n      - make",
+          line: versionRange?.start.line,
+          range: versionRange,
+        })
+      }
+      return issues
+    }
+
+    Object.entries(parsed.phases).forEach(([phase, definition]: [string, any]) => {
+      const range = document.getKeyRange(["phases", phase])
+      const location = { line: range?.start.line, range }
+      if (!CODEBUILD_PHASES.includes(phase)) {
+        this.engine.addIssue({
+          title: `Unknown phase: ${phase}`,
+          description: `CodeBuild has no ${phase} phase and rejects the buildspec`,
+          severity: "error",
+          category: "syntax",
+          ruleId: "codebuild-unknown-phase",
+          suggestion: `Use one of ${CODEBUILD_PHASES.join(", ")}`,
+          ...location,
+        })
+      } else if (
+        (!definition || typeof definition !== "object" || definition.commands === undefined) &&
+        // The install phase may only select runtimes
+        !(phase === "install" && definition?.["runtime-versions"] !== undefined)
+      ) {
+        this.engine.addIssue({
+          title: `Phase ${phase} has no commands`,
+          description: "CodeBuild requires commands in every phase the buildspec lists",
+          severity: "error",
+          category: "structure",
+          ruleId: "codebuild-empty-phase",
+          suggestion: `Add commands to ${phase}, or remove the phase`,
+          ...location,
+        })
+      }
+    })
+
+    return issues
+  }
+
+  async analyzeJobs(parsed: Record<string, any>): Promise<void> {
+    const document = this.engine.getDocument()
+    const builds = collectBatchBuilds(parsed)
+    const identifiers = new Set(builds.map(({ identifier }) => identifier))
+
+    builds.forEach(({ build, path }) => {
+      const dependencies = Array.isArray(build["depend-on"]) ? build["depend-on"] : []
+      dependencies.forEach((dependency: any, index: number) => {
+        if (typeof dependency !== "string" || identifiers.has(dependency)) return
+        const range = document.getRange([...path, "depend-on", index])
+        this.engine.addIssue({
+          title: `Unknown dependency: ${dependency}`,
+          description: `No build in the batch has the identifier ${dependency}`,
+          severity: "error",
+          category: "structure",
+          ruleId: "codebuild-unknown-dependency",
+          suggestion: "Depend on the identifier of a build in the build-graph",
+          line: range?.start.line,
+          range,
+        })
+      })
+    })
+  }
+
+  async analyzeSteps(steps: any[], context: string): Promise<void> {
+    // Phases are analyzed in validateStructure
+  }
+}
+
+// Step fields Cloud Build applies substitutions to
+const CLOUD_BUILD_SUBSTITUTED_FIELDS = ["name", "args", "env", "dir", "entrypoint", "id"]
+
+class CloudBuildAnalyzer implements PlatformAnalyzer {
+  constructor(private engine: AdvancedYamlRulesEngine) {}
+
+  async analyze(parsed: ParsedYAML, rawContent: string): Promise<void> {
+    this.validateStructure(parsed)
+    if (Array.isArray(parsed.steps)) await this.analyzeSteps(parsed.steps, "build")
+    this.checkSubstitutions(parsed)
+  }
+
+  validateStructure(parsed: ParsedYAML): Issue[] {
+    const issues: Issue[] = []
+    if (!Array.isArray(parsed.steps) || parsed.steps.length === 0) {
+      const range = this.engine.getDocument().getKeyRange(["steps"])
+      this.engine.addIssue({
+        title: "Missing steps",
+        description: "A Cloud Build configuration needs at least one build step",
+        severity: "error",
+        category: "structure",
+        ruleId: "cloudbuild-missing-steps",
+        suggestion: "Add the steps the build runs",
+        exampleCode: "steps:\n  - name: gcr.io/cloud-builders/docker\n    args: ['build', '-t', 'app', '.']",
+        line: range?.start.line,
+        range,
+      })
+    }
+    return issues
+  }
+
+  async analyzeJobs(jobs: Record<string, any>): Promise<void> {
+    // Cloud Build has steps only; each step becomes a job in the pipeline model
+  }
+
+  async analyzeSteps(steps: any[], context: string): Promise<void> {
+    const document = this.engine.getDocument()
+    const seen = new Map<string, number>()
+
+    steps.forEach((step, index) => {
+      if (!step || typeof step !== "object") return
+      const path: YamlPath = ["steps", index]
+      const range = document.getRange(path)
+      const location = { line: range?.start.line, range }
+
+      if (typeof step.name !== "string") {
+        this.engine.addIssue({
+          title: `Step ${index + 1} has no builder`,
+          description: "name is the image the step runs in; Cloud Build rejects a step without it",
+          severity: "error",
+          category: "structure",
+          ruleId: "cloudbuild-missing-builder",
+          suggestion: "Set name to the builder image",
+          exampleCode: "name: gcr.io/cloud-builders/gcloud",
+          ...location,
+        })
+      }
+
+      if (typeof step.id === "string") {
+        if (seen.has(step.id)) {
+          const first = document.getRange(["steps", seen.get(step.id)!, "id"])
+          this.engine.addIssue({
+            title: `Duplicate step id: ${step.id}`,
+            description: "Cloud Build rejects a build in which two steps have the same id",
+            severity: "error",
+            category: "structure",
+            ruleId: "cloudbuild-duplicate-id",
+            suggestion: "Give each step a unique id",
+            ...location,
+            ...(first ? { relatedLocations: [{ message: "First step with this id", range: first }] } : {}),
+          })
+        } else {
+          seen.set(step.id, index)
+        }
+      }
+
+      // waitFor may only name steps defined before this one
+      const waitFor = Array.isArray(step.waitFor) ? step.waitFor : []
+      waitFor.forEach((id: any, waitIndex: number) => {
+        if (typeof id !== "string" || id === "-" || seen.has(id)) return
+        const waitRange = document.getRange([...path, "waitFor", waitIndex])
+        const later = steps.slice(index + 1).some((other: any) => other && cloudBuildStepId(other, 0) === id)
+        this.engine.addIssue({
+          title: `Unknown step in waitFor: ${id}`,
+          description: later
+            ? `${id} is defined after this step; waitFor can only name earlier steps`
+            : `No step has the id ${id}, so Cloud Build rejects the build`,
+          severity: "error",
+          category: "structure",
+          ruleId: "cloudbuild-unknown-wait-for",
+          suggestion: "Name the id of an earlier step, or '-' to start with the build",
+          line: waitRange?.start.line,
+          range: waitRange,
+        })
+      })
+    })
+  }
+
+  // With the default substitutionOption, references to substitutions that are neither built in
+  // nor defined fail the build; `$$` writes a literal dollar sign
+  private checkSubstitutions(parsed: ParsedYAML): void {
+    if (parsed.options?.substitutionOption === "ALLOW_LOOSE") return
+    const document = this.engine.getDocument()
+    const defined = new Set(
+      Object.keys(parsed.substitutions && typeof parsed.substitutions === "object" ? parsed.substitutions : {}),
+    )
+    const reported = new Set<string>()
+
+    document.visitScalars((scalar, path) => {
+      if (typeof scalar.value !== "string") return
+      const substituted =
+        (path[0] === "steps" && CLOUD_BUILD_SUBSTITUTED_FIELDS.includes(String(path[2]))) ||
+        ["images", "artifacts", "tags"].includes(String(path[0]))
+      if (!substituted) return
+
+      findSubstitutions(scalar.text).forEach(({ name, start, end }) => {
+        if (CLOUD_BUILD_SUBSTITUTIONS.includes(name) || defined.has(name) || reported.has(name)) return
+        reported.add(name)
+        const range = document.scalarRange(scalar, start, end)
+        const userDefined = name.startsWith("_")
+        this.engine.addIssue({
+          title: `Undefined substitution: $${name}`,
+          description: userDefined
+            ? `$${name} is not in substitutions, so builds that do not pass it fail`
+            : `$${name} is not a built-in substitution, so Cloud Build rejects the build. Shell variables must be written $$${name}`,
+          severity: "error",
+          category: "syntax",
+          ruleId: "cloudbuild-undefined-substitution",
+          suggestion: userDefined ? `Give ${name} a default under substitutions` : `Write $$${name} to read the variable in the shell`,
+          line: range.start.line,
+          range,
+        })
+      })
+    })
+  }
+}
+
+interface GraphTask {
+  name: string
+  path: YamlPath
+  dependencies: { name: string; path: YamlPath; key: string }[]
+}
+
+// Task names must be unique, dependencies must name tasks of the same graph, and the
+// dependencies must not form a cycle
+function checkTaskGraph(engine: AdvancedYamlRulesEngine, tasks: GraphTask[], prefix: string, owner: string): void {
+  const document = engine.getDocument()
+  const byName = new Map<string, GraphTask>()
+
+  tasks.forEach((task) => {
+    const first = byName.get(task.name)
+    if (!first) {
+      byName.set(task.name, task)
+      return
+    }
+    const range = document.getRange([...task.path, "name"])
+    const firstRange = document.getRange([...first.path, "name"])
+    engine.addIssue({
+      title: `Duplicate task name: ${task.name}`,
+      description: `${owner} has two tasks named ${task.name}, so the controller rejects it`,
+      severity: "error",
+      category: "structure",
+      ruleId: `${prefix}-duplicate-task`,
+      suggestion: "Give each task a unique name",
+      line: range?.start.line,
+      range,
+      ...(firstRange ? { relatedLocations: [{ message: "First task with this name", range: firstRange }] } : {}),
+    })
+  })
+
+  tasks.forEach((task) =>
+    task.dependencies.forEach((dependency) => {
+      if (byName.has(dependency.name)) return
+      const range = document.getRange(dependency.path)
+      engine.addIssue({
+        title: `Unknown task in ${dependency.key}: ${dependency.name}`,
+        description: `${owner} has no task named ${dependency.name}, so the controller rejects it`,
+        severity: "error",
+        category: "structure",
+        ruleId: `${prefix}-unknown-dependency`,
+        suggestion: "Name a task of the same graph",
+        line: range?.start.line,
+        range,
+      })
+    }),
+  )
+
+  // Each cycle is reported once, at the task where the search closes it
+  const visiting = new Set<string>()
+  const done = new Set<string>()
+  const visit = (name: string, trail: string[]): void => {
+    if (done.has(name)) return
+    if (visiting.has(name)) {
+      const task = byName.get(name)!
+      const range = document.getRange([...task.path, "name"]) ?? document.getRange(task.path)
+      engine.addIssue({
+        title: "Circular task dependencies",
+        description: `Tasks of ${owner} wait for each other: ${[...trail.slice(trail.indexOf(name)), name].join(" → ")}`,
+        severity: "error",
+        category: "structure",
+        ruleId: `${prefix}-dependency-cycle`,
+        suggestion: "Remove one of the dependencies so the tasks form a DAG",
+        line: range?.start.line,
+        range,
+      })
+      return
+    }
+    const task = byName.get(name)
+    if (!task) return
+    visiting.add(name)
+    task.dependencies.forEach((dependency) => visit(dependency.name, [...trail, name]))
+    visiting.delete(name)
+    done.add(name)
+  }
+  byName.forEach((_, name) => visit(name, []))
+}
+
+// Kinds whose names the controller generates from metadata.generateName
+const TEKTON_RUN_KINDS = ["PipelineRun", "TaskRun", "CustomRun"]
+
+class TektonAnalyzer implements PlatformAnalyzer {
+  constructor(private engine: AdvancedYamlRulesEngine) {}
+
+  async analyze(parsed: ParsedYAML, rawContent: string): Promise<void> {
+    this.validateStructure(parsed)
+    await this.analyzeJobs(parsed)
+    tektonTaskSpecs(parsed).forEach((task) => this.checkTaskSteps(task))
+  }
+
+  validateStructure(parsed: ParsedYAML): Issue[] {
+    const issues: Issue[] = []
+    const document = this.engine.getDocument()
+    const manifests = tektonManifests(parsed)
+
+    if (manifests.length === 0) {
+      this.engine.addIssue({
+        title: "No Tekton resources",
+        description: "The file has no manifest with a tekton.dev apiVersion",
+        severity: "error",
+        category: "structure",
+        ruleId: "tekton-no-resources",
+        suggestion: "Define a Pipeline or Task",
+        exampleCode: "apiVersion: tekton.dev/v1\nkind: Task\nmetadata:\n  name: build\nspec:\n  steps:\n    - name: build\n      image: golang:1.22\n      script: go build ./...",
+        line: 1,
+      })
+    }
+
+    manifests.forEach(({ manifest, kind, name, path }) => {
+      const kindRange = document.getRange([...path, "kind"]) ?? document.getRange(path)
+      if (!TEKTON_KINDS.includes(kind)) {
+        this.engine.addIssue({
+          title: `Unknown Tekton kind: ${kind || "(none)"}`,
+          description: `${manifest.apiVersion} has no ${kind ? `kind ${kind}` : "manifest without a kind"}, so it is not analyzed`,
+          severity: "warning",
+          category: "structure",
+          ruleId: "tekton-unknown-kind",
+          suggestion: `Use one of ${TEKTON_KINDS.join(", ")}`,
+          line: kindRange?.start.line,
+          range: kindRange,
+        })
+        return
+      }
+
+      if (name === undefined) {
+        const range = document.getKeyRange([...path, "metadata"]) ?? kindRange
+        const generated = TEKTON_RUN_KINDS.includes(kind)
+        this.engine.addIssue({
+          title: `${kind} without a name`,
+          description: generated
+            ? "Runs need metadata.name or metadata.generateName"
+            : `A ${kind} needs metadata.name so pipelines and runs can reference it`,
+          severity: "error",
+          category: "structure",
+          ruleId: "tekton-missing-name",
+          suggestion: generated ? "Set metadata.generateName so every run gets a unique name" : "Set metadata.name",
+          exampleCode: generated ? "metadata:\n  generateName: build-run-" : `metadata:\n  name: ${kind.toLowerCase()}-name`,
+          line: range?.start.line,
+          range,
+        })
+      }
+
+      // v1 replaced v1beta1 in Pipelines 0.50; v1beta1 resources still run but are converted
+      if (/\/v1(alpha|beta)1$/.test(manifest.apiVersion) && ["Pipeline", "Task", "PipelineRun", "TaskRun"].includes(kind)) {
+        const range = document.getRange([...path, "apiVersion"])
+        this.engine.addIssue({
+          title: `Deprecated API version: ${manifest.apiVersion}`,
+          description: `${kind} is served at tekton.dev/v1; the beta version is deprecated and some fields were renamed, e.g. resources became computeResources`,
+          severity: "info",
+          category: "maintainability",
+          ruleId: "tekton-deprecated-api",
+          suggestion: "Migrate the resource to tekton.dev/v1",
+          exampleCode: "apiVersion: tekton.dev/v1",
+          line: range?.start.line,
+          range,
+        })
+      }
+    })
+
+    tektonPipelines(parsed).forEach(({ spec, path, name }) => {
+      if (Array.isArray(spec.tasks) && spec.tasks.length > 0) return
+      const range = document.getKeyRange([...path, "tasks"]) ?? document.getKeyRange(path)
+      this.engine.addIssue({
+        title: `Pipeline "${name}" has no tasks`,
+        description: "Tekton rejects a pipeline without tasks",
+        severity: "error",
+        category: "structure",
+        ruleId: "tekton-missing-tasks",
+        suggestion: "Add the tasks the pipeline runs",
+        exampleCode: "tasks:\n  - name: build\n    taskRef:\n      name: build",
+        line: range?.start.line,
+        range,
+      })
+    })
+
+    return issues
+  }
+
+  async analyzeJobs(parsed: Record<string, any>): Promise<void> {
+    const document = this.engine.getDocument()
+
+    tektonPipelines(parsed).forEach(({ tasks, name }) => {
+      const regular = tasks.filter((task) => !task.finally)
+      const graph: GraphTask[] = regular.map(({ task, path, name: taskName }) => ({
+        name: taskName,
+        path,
+        dependencies: toArray(task.runAfter).flatMap((dependency: any, index: number) =>
+          typeof dependency === "string" ? [{ name: dependency, path: [...path, "runAfter", index], key: "runAfter" }] : [],
+        ),
+      }))
+      // Finally tasks share the names of the other tasks but are not part of the graph
+      checkTaskGraph(this.engine, [...graph, ...tasks.filter((task) => task.finally).map(({ path, name: taskName }) => ({ name: taskName, path, dependencies: [] }))], "tekton", `Pipeline "${name}"`)
+
+      tasks.forEach(({ task, path, name: taskName, finally: isFinally }) => {
+        const location = () => {
+          const range = document.getRange([...path, "name"]) ?? document.getRange(path)
+          return { line: range?.start.line, range }
+        }
+
+        if (isFinally && task.runAfter !== undefined) {
+          const range = document.getKeyRange([...path, "runAfter"])
+          this.engine.addIssue({
+            title: `Finally task "${taskName}" uses runAfter`,
+            description: "Finally tasks run after all other tasks, in parallel with each other, and cannot set runAfter",
+            severity: "error",
+            category: "structure",
+            ruleId: "tekton-finally-run-after",
+            suggestion: "Remove runAfter from the finally task",
+            line: range?.start.line,
+            range,
+          })
+        }
+
+        if (task.taskRef !== undefined && task.taskSpec !== undefined) {
+          this.engine.addIssue({
+            title: `Task "${taskName}" has both taskRef and taskSpec`,
+            description: "A pipeline task either references a task or embeds one, not both",
+            severity: "error",
+            category: "structure",
+            ruleId: "tekton-task-ref-and-spec",
+            suggestion: "Keep either taskRef or taskSpec",
+            ...location(),
+          })
+        } else if (task.taskRef === undefined && task.taskSpec === undefined && task.pipelineRef === undefined && task.pipelineSpec === undefined) {
+          this.engine.addIssue({
+            title: `Task "${taskName}" runs nothing`,
+            description: "A pipeline task needs a taskRef or a taskSpec",
+            severity: "error",
+            category: "structure",
+            ruleId: "tekton-task-without-ref",
+            suggestion: "Reference a Task with taskRef, or embed one with taskSpec",
+            exampleCode: "taskRef:\n  name: git-clone",
+            ...location(),
+          })
+        }
+
+        // Results of finally tasks and of tasks that do not exist cannot be read
+        tektonResultReferences([task.params, task.when, task.matrix]).forEach((reference) => {
+          if (regular.some((candidate) => candidate.name === reference)) return
+          this.engine.addIssue({
+            title: `Result of unknown task: ${reference}`,
+            description: `"${taskName}" reads a result of ${reference}, which is not a task of pipeline "${name}" that it can wait for`,
+            severity: "error",
+            category: "structure",
+            ruleId: "tekton-unknown-result-task",
+            suggestion: "Reference the results of a task in the pipeline's tasks list",
+            ...location(),
+          })
+        })
+      })
+    })
+  }
+
+  async analyzeSteps(steps: any[], context: string): Promise<void> {
+    // Steps belong to task specs, checked with checkTaskSteps
+  }
+
+  private checkTaskSteps({ spec, path, name }: TektonTaskSpec): void {
+    const document = this.engine.getDocument()
+    const steps = toArray(spec.steps)
+
+    if (steps.length === 0) {
+      const range = document.getKeyRange([...path, "steps"]) ?? document.getKeyRange(path)
+      this.engine.addIssue({
+        title: `Task "${name}" has no steps`,
+        description: "Tekton rejects a task without steps",
+        severity: "error",
+        category: "structure",
+        ruleId: "tekton-missing-steps",
+        suggestion: "Add the steps the task runs",
+        exampleCode: "steps:\n  - name: build\n    image: golang:1.22\n    script: go build ./...",
+        line: range?.start.line,
+        range,
+      })
+    }
+
+    const names = new Map<string, number>()
+    steps.forEach((step: any, index: number) => {
+      if (!step || typeof step !== "object") return
+      const stepPath: YamlPath = [...path, "steps", index]
+      const range = document.getRange([...stepPath, "name"]) ?? document.getRange(stepPath)
+      const location = { line: range?.start.line, range }
+      const label = typeof step.name === "string" ? `Step "${step.name}"` : `Step ${index + 1}`
+
+      if (step.image === undefined && step.ref === undefined && spec.stepTemplate?.image === undefined) {
+        this.engine.addIssue({
+          title: `${label} of task "${name}" has no image`,
+          description: "Every step runs in a container and needs an image, unless it references a StepAction",
+          severity: "error",
+          category: "structure",
+          ruleId: "tekton-missing-image",
+          suggestion: "Set the image the step runs in",
+          exampleCode: "image: alpine:3.20",
+          ...location,
+        })
+      }
+
+      if (step.script !== undefined && step.command !== undefined) {
+        this.engine.addIssue({
+          title: `${label} of task "${name}" has both script and command`,
+          description: "Tekton runs either the script or the command of a step and rejects steps that set both",
+          severity: "error",
+          category: "structure",
+          ruleId: "tekton-script-and-command",
+          suggestion: "Move the command into the script",
+          ...location,
+        })
+      }
+
+      if (typeof step.name !== "string") return
+      if (names.has(step.name)) {
+        const first = document.getRange([...path, "steps", names.get(step.name)!, "name"])
+        this.engine.addIssue({
+          title: `Duplicate step name: ${step.name}`,
+          description: `Task "${name}" has two steps named ${step.name}, so Tekton rejects it`,
+          severity: "error",
+          category: "structure",
+          ruleId: "tekton-duplicate-step",
+          suggestion: "Give each step a unique name",
+          ...location,
+          ...(first ? { relatedLocations: [{ message: "First step with this name", range: first }] } : {}),
+        })
+      } else {
+        names.set(step.name, index)
+      }
+    })
+  }
+}
+
+class ArgoWorkflowsAnalyzer implements PlatformAnalyzer {
+  constructor(private engine: AdvancedYamlRulesEngine) {}
+
+  async analyze(parsed: ParsedYAML, rawContent: string): Promise<void> {
+    this.validateStructure(parsed)
+    await this.analyzeJobs(parsed)
+  }
+
+  validateStructure(parsed: ParsedYAML): Issue[] {
+    const issues: Issue[] = []
+    const document = this.engine.getDocument()
+    const workflows = argoWorkflowSpecs(parsed)
+
+    if (workflows.length === 0) {
+      this.engine.addIssue({
+        title: "No workflows",
+        description: `The file has no ${ARGO_WORKFLOW_KINDS.join(", ")} manifest with a spec`,
+        severity: "error",
+        category: "structure",
+        ruleId: "argo-no-workflows",
+        suggestion: "Define a Workflow or WorkflowTemplate",
+        exampleCode: "apiVersion: argoproj.io/v1alpha1\nkind: Workflow\nmetadata:\n  generateName: build-\nspec:\n  entrypoint: main\n  templates:\n    - name: main\n      container:\n        image: alpine:3.20\n        command: [echo, hello]",
+        line: 1,
+      })
+    }
+
+    workflows.forEach((workflow) => {
+      const { spec, path, name, kind } = workflow
+      const templates = argoTemplates(workflow)
+      // Workflows can run the templates of a WorkflowTemplate instead of their own
+      const referenced = spec.workflowTemplateRef !== undefined
+
+      if (templates.length === 0 && !referenced) {
+        const range = document.getKeyRange([...path, "templates"]) ?? document.getKeyRange(path)
+        this.engine.addIssue({
+          title: `${kind} "${name}" has no templates`,
+          description: "A workflow needs templates, or a workflowTemplateRef to run the templates of a WorkflowTemplate",
+          severity: "error",
+          category: "structure",
+          ruleId: "argo-missing-templates",
+          suggestion: "Add the templates the workflow runs",
+          line: range?.start.line,
+          range,
+        })
+      }
+
+      if (spec.entrypoint === undefined && !referenced && kind !== "WorkflowTemplate" && kind !== "ClusterWorkflowTemplate") {
+        const range = document.getKeyRange(path)
+        this.engine.addIssue({
+          title: `${kind} "${name}" has no entrypoint`,
+          description: "Without an entrypoint the controller does not know which template to start with and fails the workflow",
+          severity: "error",
+          category: "structure",
+          ruleId: "argo-missing-entrypoint",
+          suggestion: "Set entrypoint to the template that starts the workflow",
+          exampleCode: `entrypoint: ${templates[0]?.name ?? "main"}`,
+          line: range?.start.line,
+          range,
+        })
+      } else if (typeof spec.entrypoint === "string" && !referenced && !templates.some((template) => template.name === spec.entrypoint)) {
+        const range = document.getRange([...path, "entrypoint"])
+        this.engine.addIssue({
+          title: `Unknown entrypoint: ${spec.entrypoint}`,
+          description: `${kind} "${name}" has no template named ${spec.entrypoint}`,
+          severity: "error",
+          category: "structure",
+          ruleId: "argo-unknown-entrypoint",
+          suggestion: "Name one of the workflow's templates",
+          line: range?.start.line,
+          range,
+        })
+      }
+
+      const seen = new Map<string, YamlPath>()
+      templates.forEach(({ template, path: templatePath, name: templateName }) => {
+        const range = document.getRange([...templatePath, "name"])
+        const location = { line: range?.start.line, range }
+        const first = seen.get(templateName)
+        if (first) {
+          const firstRange = document.getRange([...first, "name"])
+          this.engine.addIssue({
+            title: `Duplicate template name: ${templateName}`,
+            description: `${kind} "${name}" has two templates named ${templateName}, so the controller rejects it`,
+            severity: "error",
+            category: "structure",
+            ruleId: "argo-duplicate-template",
+            suggestion: "Give each template a unique name",
+            ...location,
+            ...(firstRange ? { relatedLocations: [{ message: "First template with this name", range: firstRange }] } : {}),
+          })
+        } else {
+          seen.set(templateName, templatePath)
+        }
+
+        const types = ARGO_TEMPLATE_TYPES.filter((type) => template[type] !== undefined)
+        if (types.length !== 1) {
+          this.engine.addIssue({
+            title: types.length === 0 ? `Template "${templateName}" does nothing` : `Template "${templateName}" has several types`,
+            description:
+              types.length === 0
+                ? `A template needs one of ${ARGO_TEMPLATE_TYPES.join(", ")}`
+                : `A template has exactly one type, but this one sets ${types.join(" and ")}`,
+            severity: "error",
+            category: "structure",
+            ruleId: "argo-template-type",
+            suggestion: types.length === 0 ? "Add the container, script, dag or steps the template runs" : "Split the template in two",
+            ...location,
+          })
+        }
+
+        ;(["container", "script"] as const).forEach((type) => {
+          if (!template[type] || typeof template[type] !== "object" || typeof template[type].image === "string") return
+          if (typeof spec.templateDefaults?.[type]?.image === "string") return
+          this.engine.addIssue({
+            title: `Template "${templateName}" has no image`,
+            description: `The ${type} of the template needs the image it runs in`,
+            severity: "error",
+            category: "structure",
+            ruleId: "argo-missing-image",
+            suggestion: "Set the image of the container",
+            exampleCode: `${type}:\n  image: alpine:3.20`,
+            ...location,
+          })
+        })
+      })
+    })
+
+    return issues
+  }
+
+  async analyzeJobs(parsed: Record<string, any>): Promise<void> {
+    const document = this.engine.getDocument()
+
+    argoWorkflowSpecs(parsed).forEach((workflow) => {
+      const templates = argoTemplates(workflow)
+      templates.forEach((template) => {
+        const tasks = argoTasks(template)
+        const dag = template.template.dag !== undefined
+
+        tasks.forEach(({ task, path, name }) => {
+          const range = document.getRange([...path, "name"])
+          const location = { line: range?.start.line, range }
+          const noun = dag ? "Task" : "Step"
+
+          if (typeof task.template === "string" && !templates.some((candidate) => candidate.name === task.template)) {
+            const templateRange = document.getRange([...path, "template"])
+            this.engine.addIssue({
+              title: `Unknown template: ${task.template}`,
+              description: `${noun} "${name}" runs template ${task.template}, which workflow "${workflow.name}" does not define`,
+              severity: "error",
+              category: "structure",
+              ruleId: "argo-unknown-template",
+              suggestion: "Name a template of the workflow, or use templateRef for one of a WorkflowTemplate",
+              line: templateRange?.start.line,
+              range: templateRange,
+            })
+          } else if (task.template === undefined && task.templateRef === undefined && task.inline === undefined) {
+            this.engine.addIssue({
+              title: `${noun} "${name}" runs no template`,
+              description: "Tasks and steps name the template they run with template, templateRef or inline",
+              severity: "error",
+              category: "structure",
+              ruleId: "argo-missing-template",
+              suggestion: "Set the template the task runs",
+              ...location,
+            })
+          }
+
+          if (dag && task.depends !== undefined && task.dependencies !== undefined) {
+            this.engine.addIssue({
+              title: `Task "${name}" sets both depends and dependencies`,
+              description: "The controller rejects tasks that set both; depends replaces dependencies",
+              severity: "error",
+              category: "structure",
+              ruleId: "argo-depends-and-dependencies",
+              suggestion: 'Move the dependencies into depends, e.g. depends: "a && b"',
+              ...location,
+            })
+          }
+        })
+
+        if (!dag) return
+        const graph: GraphTask[] = tasks.map(({ task, path, name, dependencies }) => ({
+          name,
+          path,
+          dependencies: dependencies.map((dependency, index) =>
+            typeof task.depends === "string"
+              ? { name: dependency, path: [...path, "depends"], key: "depends" }
+              : { name: dependency, path: [...path, "dependencies", index], key: "dependencies" },
+          ),
+        }))
+        checkTaskGraph(this.engine, graph, "argo", `DAG template "${template.name}"`)
+      })
+    })
+  }
+
+  async analyzeSteps(steps: any[], context: string): Promise<void> {
+    // Argo templates run containers, analyzed through the pipeline model and the container rules
+  }
 }
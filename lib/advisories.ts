@@ -0,0 +1,311 @@
+// Offline advisory matching: finds the actions, container images, Bitbucket pipes and
+// CircleCI orbs a pipeline references and checks their versions against a local feed in
+// the OSV format GitHub Security Advisories are published in.
+
+import type {
+  ActionRefDatabase,
+  Advisory,
+  AdvisoryAffected,
+  AdvisoryEcosystem,
+  AdvisoryFeed,
+  ParsedYAML,
+  SourceRange,
+} from "./types"
+import type { YamlDocument } from "./yaml-parser"
+import type { Pipeline } from "./pipeline/model"
+import { defaultActionRefDatabase, isFullShaRef, parseActionReference } from "./action-pinning"
+import { parseImage } from "./container-images"
+import bundledAdvisories from "./data/advisories.json"
+
+export interface ComponentReference {
+  ecosystem: AdvisoryEcosystem
+  name: string
+  // Version as written in the pipeline, e.g. "v4", "3.8" or a tag a pinned SHA resolves to
+  version: string
+  // The original reference, e.g. "alpine:3.8"
+  reference: string
+  range?: SourceRange
+}
+
+export interface AdvisoryMatch {
+  advisory: Advisory
+  component: ComponentReference
+  // First release of each affected span the component falls in that is no longer affected
+  fixedVersions: string[]
+  cve?: string
+  cvssScore?: number
+}
+
+export const COMPONENT_KINDS: Record<AdvisoryEcosystem, string> = {
+  "GitHub Actions": "action",
+  Docker: "image",
+  "Bitbucket Pipes": "pipe",
+  "CircleCI Orbs": "orb",
+}
+
+export const defaultAdvisoryFeed: AdvisoryFeed = loadAdvisoryFeed(bundledAdvisories)
+
+// Validates a feed file dropped in to replace the bundled one. Accepts a feed object,
+// a bare array of advisories or a single advisory, so OSV exports can be used as-is.
+export function loadAdvisoryFeed(data: unknown): AdvisoryFeed {
+  const isObject = !!data && typeof data === "object"
+  const entries: unknown[] | undefined = Array.isArray(data)
+    ? data
+    : isObject && Array.isArray((data as any).advisories)
+      ? (data as any).advisories
+      : isObject && Array.isArray((data as any).affected)
+        ? [data]
+        : undefined
+  if (!entries) throw new Error("Advisory feed must be an object with an `advisories` array")
+
+  const advisories = entries.filter(
+    (entry): entry is Advisory =>
+      !!entry &&
+      typeof entry === "object" &&
+      typeof (entry as any).id === "string" &&
+      Array.isArray((entry as any).affected) &&
+      (entry as any).affected.every(
+        (affected: any) => affected?.package && typeof affected.package.name === "string" && typeof affected.package.ecosystem === "string",
+      ),
+  )
+  return {
+    updated: isObject && typeof (data as any).updated === "string" ? (data as any).updated : undefined,
+    advisories: advisories.map((advisory) => ({ ...advisory, summary: advisory.summary ?? advisory.id })),
+  }
+}
+
+// Parses `1`, `v1.2` or `3.8.4-alpine`. Components left out of a moving tag (`v4`, `3.8`)
+// stand for the newest release it covers, so they compare above every concrete release.
+function parseVersion(value: string, moving = false): number[] | null {
+  const match = value.trim().match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:[-+_].*)?$/)
+  if (!match) return null
+  return [match[1], match[2], match[3]].map((part) => (part === undefined ? (moving ? Infinity : 0) : Number(part)))
+}
+
+function compareVersions(a: number[], b: number[]): number {
+  for (let index = 0; index < 3; index++) {
+    if (a[index] !== b[index]) return a[index] < b[index] ? -1 : 1
+  }
+  return 0
+}
+
+// Returns the fixed versions of the spans `version` falls in, or undefined when unaffected
+function affectedSpans(version: string, affected: AdvisoryAffected): string[] | undefined {
+  const normalized = version.replace(/^v/, "")
+  if (affected.versions?.some((listed) => listed.replace(/^v/, "") === normalized)) return []
+
+  const parsed = parseVersion(version, true)
+  if (!parsed) return undefined
+
+  let result: string[] | undefined
+  ;(affected.ranges ?? [])
+    .filter((range) => range.type === "SEMVER" || range.type === "ECOSYSTEM")
+    .forEach((range) => {
+      let inSpan = false
+      let fixed: string | undefined
+      range.events.forEach((event) => {
+        const introduced = event.introduced !== undefined ? parseVersion(event.introduced) : null
+        if (introduced && compareVersions(parsed, introduced) >= 0) {
+          inSpan = true
+          fixed = undefined
+          return
+        }
+        if (!inSpan || fixed !== undefined) return
+        const fixedAt = event.fixed !== undefined ? parseVersion(event.fixed) : null
+        const lastAffected = event.last_affected !== undefined ? parseVersion(event.last_affected) : null
+        if (fixedAt) {
+          if (compareVersions(parsed, fixedAt) >= 0) inSpan = false
+          else fixed = event.fixed
+        } else if (lastAffected && compareVersions(parsed, lastAffected) > 0) {
+          inSpan = false
+        }
+      })
+      if (inSpan) result = [...(result ?? []), ...(fixed ? [fixed] : [])]
+    })
+  return result
+}
+
+const CVSS_WEIGHTS: Record<string, Record<string, number>> = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  C: { H: 0.56, L: 0.22, N: 0 },
+  I: { H: 0.56, L: 0.22, N: 0 },
+  A: { H: 0.56, L: 0.22, N: 0 },
+}
+
+// CVSS v3 rounds up to one decimal, with a guard against floating point error
+function roundUp(value: number): number {
+  const scaled = Math.round(value * 100000)
+  return scaled % 10000 === 0 ? scaled / 100000 : (Math.floor(scaled / 10000) + 1) / 10
+}
+
+// Base score of a CVSS v3.x vector such as `CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H`
+export function cvssBaseScore(vector: string): number | undefined {
+  if (/^\d+(\.\d+)?$/.test(vector.trim())) return Number(vector)
+  const metrics = Object.fromEntries(
+    vector
+      .split("/")
+      .map((part) => part.split(":"))
+      .filter((part) => part.length === 2),
+  )
+  const scopeChanged = metrics.S === "C"
+  const privileges = { N: 0.85, L: scopeChanged ? 0.68 : 0.62, H: scopeChanged ? 0.5 : 0.27 }[metrics.PR as string]
+  const [av, ac, ui, c, i, a] = ["AV", "AC", "UI", "C", "I", "A"].map((metric) => CVSS_WEIGHTS[metric][metrics[metric]])
+  if ([av, ac, ui, c, i, a, privileges].some((weight) => weight === undefined) || !["U", "C"].includes(metrics.S)) {
+    return undefined
+  }
+
+  const impactSubScore = 1 - (1 - c) * (1 - i) * (1 - a)
+  const impact = scopeChanged
+    ? 7.52 * (impactSubScore - 0.029) - 3.25 * Math.pow(impactSubScore - 0.02, 15)
+    : 6.42 * impactSubScore
+  const exploitability = 8.22 * av * ac * privileges! * ui
+  if (impact <= 0) return 0
+  return roundUp(Math.min((scopeChanged ? 1.08 : 1) * (impact + exploitability), 10))
+}
+
+export function advisoryScore(advisory: Advisory): number | undefined {
+  if (typeof advisory.database_specific?.cvss_score === "number") return advisory.database_specific.cvss_score
+  return (advisory.severity ?? [])
+    .filter((entry) => entry.type.startsWith("CVSS_V3") || /^\d/.test(entry.score))
+    .map((entry) => cvssBaseScore(entry.score))
+    .find((score) => score !== undefined)
+}
+
+export function advisorySeverity(advisory: Advisory): "critical" | "high" | "medium" | "low" {
+  const score = advisoryScore(advisory)
+  if (score !== undefined) return score >= 9 ? "critical" : score >= 7 ? "high" : score >= 4 ? "medium" : "low"
+  switch (advisory.database_specific?.severity?.toUpperCase()) {
+    case "CRITICAL":
+      return "critical"
+    case "HIGH":
+      return "high"
+    case "LOW":
+      return "low"
+    default:
+      return "medium"
+  }
+}
+
+export function advisoryCve(advisory: Advisory): string | undefined {
+  return [advisory.id, ...(advisory.aliases ?? [])].find((id) => id.startsWith("CVE-"))
+}
+
+function imageComponent(image: string, range?: SourceRange): ComponentReference | undefined {
+  const { registry, repository, tag, digest } = parseImage(image)
+  // A digest pins exact content whatever the tag says
+  if (!tag || digest) return undefined
+  const name = registry ? `${registry}/${repository}` : repository
+  return { ecosystem: "Docker", name, version: tag, reference: image, range }
+}
+
+// Maps a pinned SHA back to the release tag it was cut from
+function tagForSha(action: string, sha: string, database: ActionRefDatabase): string | undefined {
+  const entry = Object.entries(database.refs).find(
+    ([key, candidate]) => candidate === sha.toLowerCase() && key.slice(0, key.lastIndexOf("@")) === action,
+  )
+  return entry ? entry[0].slice(entry[0].lastIndexOf("@") + 1) : undefined
+}
+
+export function collectComponents(
+  pipeline: Pipeline,
+  parsed: ParsedYAML,
+  document: YamlDocument,
+  refDatabase: ActionRefDatabase = defaultActionRefDatabase,
+): ComponentReference[] {
+  const components: ComponentReference[] = []
+
+  pipeline.jobs.forEach((job) => {
+    ;[job.image, ...job.services].forEach((image) => {
+      const component = image && imageComponent(image.name, image.range)
+      if (component) components.push(component)
+    })
+
+    job.steps.forEach((step) => {
+      if (!step.uses) return
+      if (step.uses.startsWith("docker://")) {
+        const component = imageComponent(step.uses, step.range)
+        if (component) components.push(component)
+        return
+      }
+
+      if (pipeline.platform === "github-actions" || pipeline.platform === "github-action-metadata") {
+        const reference = parseActionReference(step.uses)
+        if (!reference) return
+        const name = `${reference.owner}/${reference.repo}`.toLowerCase()
+        const version = isFullShaRef(reference.ref) ? tagForSha(name, reference.ref, refDatabase) : reference.ref
+        if (version) {
+          components.push({
+            ecosystem: "GitHub Actions",
+            name,
+            version,
+            reference: step.uses,
+            range: document.getRange([...step.path, "uses"]) ?? step.range,
+          })
+        }
+      } else if (pipeline.platform === "bitbucket-pipelines") {
+        const separator = step.uses.lastIndexOf(":")
+        if (separator <= 0) return
+        components.push({
+          ecosystem: "Bitbucket Pipes",
+          name: step.uses.slice(0, separator).toLowerCase(),
+          version: step.uses.slice(separator + 1),
+          reference: step.uses,
+          range: document.getRange([...step.path, "pipe"]) ?? step.range,
+        })
+      }
+    })
+  })
+
+  if (parsed.orbs && typeof parsed.orbs === "object") {
+    Object.entries(parsed.orbs).forEach(([alias, orb]) => {
+      if (typeof orb !== "string" || !orb.includes("@")) return
+      const [name, version] = orb.split("@")
+      components.push({
+        ecosystem: "CircleCI Orbs",
+        name: name.toLowerCase(),
+        version,
+        reference: orb,
+        range: document.getRange(["orbs", alias]),
+      })
+    })
+  }
+
+  // Jobs inheriting a default image report it once, at its declaration
+  const seen = new Set<string>()
+  return components.filter((component) => {
+    const key = `${component.ecosystem}:${component.reference}:${component.range?.start.offset ?? ""}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+export function findAdvisoryMatches(
+  components: ComponentReference[],
+  feed: AdvisoryFeed = defaultAdvisoryFeed,
+): AdvisoryMatch[] {
+  const matches: AdvisoryMatch[] = []
+  components.forEach((component) => {
+    feed.advisories.forEach((advisory) => {
+      const fixedVersions = advisory.affected
+        .filter(
+          (affected) =>
+            affected.package.ecosystem === component.ecosystem && affected.package.name.toLowerCase() === component.name,
+        )
+        .map((affected) => affectedSpans(component.version, affected))
+        .filter((spans): spans is string[] => spans !== undefined)
+      if (fixedVersions.length === 0) return
+
+      matches.push({
+        advisory,
+        component,
+        fixedVersions: Array.from(new Set(fixedVersions.flat())),
+        cve: advisoryCve(advisory),
+        cvssScore: advisoryScore(advisory),
+      })
+    })
+  })
+  return matches
+}
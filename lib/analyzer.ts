@@ -1,6 +1,8 @@
 import { AdvancedYamlRulesEngine } from "./advanced-yaml-rules"
-import { SimpleYamlParser } from "./yaml-parser"
-import type { AnalysisResult, AnalysisConfig, ParsedYAML, PlatformDetectionResult } from "./types"
+import { YamlParser, type YamlDocument } from "./yaml-parser"
+import { JenkinsfileParser, isJenkinsfile } from "./jenkinsfile"
+import { detectPlatform } from "./platform-detection"
+import type { AnalysisResult, AnalysisConfig, Issue, ParsedYAML, PlatformDetectionResult } from "./types"
 
 export async function analyzeCICD(
   content: string,
@@ -30,25 +32,44 @@ export async function analyzeCICD(
       throw new Error(`File size exceeds limit: ${content.length} bytes > ${analysisConfig.maxFileSize} bytes`)
     }
 
-    // Parse YAML using our simple parser
+    // Parse YAML, or a declarative Jenkinsfile, into a position-aware document
+    const jenkinsfile = isJenkinsfile(content, filename)
+    let document: YamlDocument
     let parsed: ParsedYAML
     try {
-      parsed = SimpleYamlParser.parse(content) as ParsedYAML
+      document = jenkinsfile ? JenkinsfileParser.parseDocument(content) : YamlParser.parseDocument(content)
+      parsed = document.toJS() as ParsedYAML
     } catch (yamlError: any) {
       const errorMessage = yamlError.message || "Unknown YAML parsing error"
-      throw new Error(`YAML parsing failed: ${errorMessage}`)
+      throw new Error(`${jenkinsfile ? "Jenkinsfile" : "YAML"} parsing failed: ${errorMessage}`)
     }
 
     if (!parsed || typeof parsed !== "object") {
       throw new Error("Invalid YAML structure: Expected object at root level")
     }
 
-    // Detect platform
+    // Detect platform; a platform the caller chose wins, the candidates are still reported
     const platformDetection = detectPlatform(parsed, filename)
-    
-    if (platformDetection.confidence < 0.5) {
+    const requestedPlatform = analysisConfig.platform && analysisConfig.platform !== "auto" ? analysisConfig.platform : undefined
+
+    if (!requestedPlatform && platformDetection.ambiguous && analysisConfig.ambiguousPlatform === "ask") {
+      const [first, second] = platformDetection.candidates!.map(({ platform, evidence }) => `${platform} (${evidence.join(", ")})`)
+      const issue: Issue = {
+        title: "Ambiguous platform",
+        description: `The file looks as much like ${first} as like ${second}`,
+        severity: "info",
+        category: "structure",
+        ruleId: "ambiguous-platform",
+        suggestion: "Choose the platform to analyze the file as",
+        fixable: false,
+      }
+      return emptyResult(issue, Date.now() - startTime, analysisConfig, platformDetection)
+    }
+
+    if (!requestedPlatform && platformDetection.confidence < 0.5) {
       console.warn("Low confidence platform detection:", platformDetection)
     }
+    const platform = requestedPlatform ?? platformDetection.platform
 
     // Initialize rules engine
     const rulesEngine = new AdvancedYamlRulesEngine(analysisConfig)
@@ -56,15 +77,17 @@ export async function analyzeCICD(
     // Run comprehensive analysis
     const analysisResult = await rulesEngine.analyze(
       parsed, 
-      platformDetection.platform, 
-      content
+      platform, 
+      content,
+      document,
+      filename
     )
 
     const endTime = Date.now()
 
     return {
       ...analysisResult,
-      platform: platformDetection.platform,
+      platform,
       analysisTime: endTime - startTime,
       configUsed: analysisConfig,
       platformDetection,
@@ -73,133 +96,73 @@ export async function analyzeCICD(
     const endTime = Date.now()
     
     // Return error result instead of throwing
-    return {
-      platform: "unknown",
-      score: 0,
-      issues: [
-        {
-          title: "Analysis Failed",
-          description: error instanceof Error ? error.message : "Unknown analysis error",
-          severity: "error",
-          category: "linting",
-          ruleId: "analysis-error",
-          fixable: false,
-        },
-      ],
-      optimizations: [],
-      recommendations: [],
-      dependencyGraph: "",
-      metrics: {
-        jobsCount: 0,
-        stepsCount: 0,
-        triggersCount: 0,
-        parallelizableJobs: 0,
-        cacheUsage: 0,
-        securityScore: 0,
-        performance: {
-          estimatedBuildTime: 0,
-          parallelizationScore: 0,
-          cacheEfficiency: 0,
-          resourceUtilization: 0,
-        },
-        complexity: {
-          cyclomaticComplexity: 0,
-          cognitiveComplexity: 0,
-          maintainabilityIndex: 0,
-          linesOfCode: 0,
-        },
-        coverage: {
-          documentationCoverage: 0,
-          errorHandlingCoverage: 0,
-          testCoverage: 0,
-        },
+    return emptyResult(
+      {
+        title: "Analysis Failed",
+        description: error instanceof Error ? error.message : "Unknown analysis error",
+        severity: "error",
+        category: "linting",
+        ruleId: "analysis-error",
+        fixable: false,
       },
-      analysisTime: endTime - startTime,
-      configUsed: analysisConfig,
-      platformDetection: {
+      endTime - startTime,
+      analysisConfig,
+      {
         platform: "unknown",
         confidence: 0,
         indicators: ["analysis-failed"],
       },
-    }
+    )
   }
 }
 
-function detectPlatform(
-  parsed: ParsedYAML, 
-  filename?: string
-): PlatformDetectionResult {
-  const indicators: string[] = []
-  let confidence = 0
-  let detectedPlatform = "unknown"
-
-  // Filename-based detection
-  if (filename) {
-    const lowerFilename = filename.toLowerCase()
-    
-    if (lowerFilename.includes(".github/workflows/") || lowerFilename.includes("workflow")) {
-      indicators.push("github-workflow-path")
-      confidence += 0.8
-      detectedPlatform = "github-actions"
-    } else if (lowerFilename === ".gitlab-ci.yml" || lowerFilename.includes("gitlab")) {
-      indicators.push("gitlab-filename")
-      confidence += 0.8
-      detectedPlatform = "gitlab-ci"
-    } else if (lowerFilename === "bitbucket-pipelines.yml") {
-      indicators.push("bitbucket-filename")
-      confidence += 0.8
-      detectedPlatform = "bitbucket-pipelines"
-    } else if (lowerFilename === "azure-pipelines.yml" || lowerFilename.includes("azure")) {
-      indicators.push("azure-filename")
-      confidence += 0.8
-      detectedPlatform = "azure-pipelines"
-    } else if (lowerFilename.includes(".circleci/config.yml")) {
-      indicators.push("circleci-path")
-      confidence += 0.8
-      detectedPlatform = "circleci"
-    } else if (lowerFilename === "jenkinsfile" || lowerFilename.includes("jenkins")) {
-      indicators.push("jenkins-filename")
-      confidence += 0.8
-      detectedPlatform = "jenkins"
-    }
-  }
-
-  // Structure-based detection (higher priority)
-  if (parsed.on && parsed.jobs) {
-    indicators.push("github-actions-structure")
-    confidence = Math.max(confidence, 0.9)
-    detectedPlatform = "github-actions"
-  } else if (parsed.pipelines) {
-    indicators.push("bitbucket-pipelines-structure")
-    confidence = Math.max(confidence, 0.9)
-    detectedPlatform = "bitbucket-pipelines"
-  } else if (parsed.stages || parsed.before_script || parsed.after_script || parsed.script) {
-    indicators.push("gitlab-ci-structure")
-    confidence = Math.max(confidence, 0.7)
-    detectedPlatform = "gitlab-ci"
-  } else if (parsed.trigger || parsed.pool || (parsed.variables && parsed.jobs)) {
-    indicators.push("azure-devops-structure")
-    confidence = Math.max(confidence, 0.6)
-    detectedPlatform = "azure-pipelines"
-  } else if (parsed.version && parsed.jobs && typeof parsed.version === "number") {
-    indicators.push("circleci-structure")
-    confidence = Math.max(confidence, 0.7)
-    detectedPlatform = "circleci"
-  } else if (parsed.pipeline || parsed.agent) {
-    indicators.push("jenkins-structure")
-    confidence = Math.max(confidence, 0.5)
-    detectedPlatform = "jenkins"
-  }
-
+// A result with a single issue and no analysis, for files that could not be analyzed
+function emptyResult(
+  issue: Issue,
+  analysisTime: number,
+  configUsed: AnalysisConfig,
+  platformDetection: PlatformDetectionResult,
+): AnalysisResult {
   return {
-    platform: detectedPlatform as any,
-    confidence: Math.min(1.0, confidence),
-    indicators,
+    platform: "unknown",
+    score: 0,
+    issues: [issue],
+    optimizations: [],
+    recommendations: [],
+    dependencyGraph: "",
+    metrics: {
+      jobsCount: 0,
+      stepsCount: 0,
+      triggersCount: 0,
+      parallelizableJobs: 0,
+      cacheUsage: 0,
+      securityScore: 0,
+      performance: {
+        estimatedBuildTime: 0,
+        parallelizationScore: 0,
+        cacheEfficiency: 0,
+        resourceUtilization: 0,
+      },
+      complexity: {
+        cyclomaticComplexity: 0,
+        cognitiveComplexity: 0,
+        maintainabilityIndex: 0,
+        linesOfCode: 0,
+      },
+      coverage: {
+        documentationCoverage: 0,
+        errorHandlingCoverage: 0,
+        testCoverage: 0,
+      },
+    },
+    analysisTime,
+    configUsed,
+    platformDetection,
   }
 }
 
 // Utility function to validate YAML content before analysis
-export function validateYamlContent(content: string): { isValid: boolean; error?: string } {
+export function validateYamlContent(content: string, filename?: string): { isValid: boolean; error?: string } {
   try {
     if (!content || typeof content !== 'string') {
       return { isValid: false, error: 'Content must be a non-empty string' }
@@ -210,7 +173,8 @@ export function validateYamlContent(content: string): { isValid: boolean; error?
     }
 
     // Try to parse
-    SimpleYamlParser.parse(content)
+    if (isJenkinsfile(content, filename)) JenkinsfileParser.parseDocument(content)
+    else YamlParser.parseDocument(content)
     return { isValid: true }
   } catch (error) {
     return { 
@@ -224,11 +188,20 @@ export function validateYamlContent(content: string): { isValid: boolean; error?
 export function getSupportedPlatforms(): string[] {
   return [
     'github-actions',
+    'github-action-metadata',
     'gitlab-ci',
     'bitbucket-pipelines',
     'azure-pipelines',
     'circleci',
-    'jenkins'
+    'jenkins',
+    'buildkite',
+    'drone',
+    'woodpecker',
+    'travis-ci',
+    'aws-codebuild',
+    'google-cloud-build',
+    'tekton',
+    'argo-workflows'
   ]
 }
 
@@ -254,6 +227,22 @@ jobs:
       - run: npm ci
       - run: npm test`,
 
+    'github-action-metadata': `name: Setup project
+description: Installs dependencies with caching
+inputs:
+  node-version:
+    description: Node.js version to install
+    default: "20"
+runs:
+  using: composite
+  steps:
+    - uses: actions/setup-node@v4
+      with:
+        node-version: \${{ inputs.node-version }}
+        cache: npm
+    - run: npm ci
+      shell: bash`,
+
     'gitlab-ci': `stages:
   - test
   - build
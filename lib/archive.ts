@@ -0,0 +1,110 @@
+// Reads the YAML files and Jenkinsfiles out of a project archive (.zip, .tar, .tar.gz) in
+// the browser. Decompression uses the platform's DecompressionStream, so no library is bundled.
+
+import { isJenkinsfile } from "./jenkinsfile"
+
+// GitLab only includes files with these extensions, and skipping the rest keeps large
+// repositories cheap to load
+const TEXT_EXTENSIONS = [".yml", ".yaml"]
+
+export async function readArchive(data: ArrayBuffer | Uint8Array): Promise<Record<string, string>> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) return readZip(bytes)
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) return readTar(await decompress(bytes, "gzip"))
+  if (isTar(bytes)) return readTar(bytes)
+  throw new Error("Unsupported archive format: expected .zip, .tar or .tar.gz")
+}
+
+export function isArchiveName(name: string): boolean {
+  return /\.(zip|tar|tgz|tar\.gz)$/i.test(name)
+}
+
+function wanted(path: string): boolean {
+  const lower = path.toLowerCase()
+  // Jenkinsfiles are recognized by name, as in a single-file upload
+  return TEXT_EXTENSIONS.some((extension) => lower.endsWith(extension)) || isJenkinsfile("", path)
+}
+
+async function readZip(bytes: Uint8Array): Promise<Record<string, string>> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  // The end of central directory record sits in the last 64 KiB, after an optional comment
+  let end = -1
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 65557); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      end = offset
+      break
+    }
+  }
+  if (end === -1) throw new Error("Invalid zip archive: end of central directory not found")
+
+  const files: Record<string, string> = {}
+  const count = view.getUint16(end + 10, true)
+  let entry = view.getUint32(end + 16, true)
+  for (let index = 0; index < count; index++) {
+    if (view.getUint32(entry, true) !== 0x02014b50) throw new Error("Invalid zip archive: corrupt central directory")
+    const method = view.getUint16(entry + 10, true)
+    const compressedSize = view.getUint32(entry + 20, true)
+    const nameLength = view.getUint16(entry + 28, true)
+    const extraLength = view.getUint16(entry + 30, true)
+    const commentLength = view.getUint16(entry + 32, true)
+    const localHeader = view.getUint32(entry + 42, true)
+    const name = decodeText(bytes.subarray(entry + 46, entry + 46 + nameLength))
+    entry += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith("/") || !wanted(name)) continue
+    const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true)
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize)
+    if (method === 0) files[name] = decodeText(compressed)
+    else if (method === 8) files[name] = decodeText(await decompress(compressed, "deflate-raw"))
+  }
+  return files
+}
+
+function isTar(bytes: Uint8Array): boolean {
+  return bytes.length >= 512 && decodeText(bytes.subarray(257, 262)) === "ustar"
+}
+
+function readTar(bytes: Uint8Array): Record<string, string> {
+  const files: Record<string, string> = {}
+  let offset = 0
+  // GNU long names and pax headers describe the entry that follows them
+  let pendingName: string | undefined
+
+  while (offset + 512 <= bytes.length) {
+    const header = bytes.subarray(offset, offset + 512)
+    if (header.every((byte) => byte === 0)) break
+    const size = parseInt(field(header, 124, 12).trim() || "0", 8)
+    const type = String.fromCharCode(header[156])
+    const body = bytes.subarray(offset + 512, offset + 512 + size)
+    offset += 512 + Math.ceil(size / 512) * 512
+
+    if (type === "L") {
+      pendingName = decodeText(body).replace(/\0+$/, "")
+      continue
+    }
+    if (type === "x") {
+      const path = decodeText(body).match(/\d+ path=([^\n]*)\n/)
+      if (path) pendingName = path[1]
+      continue
+    }
+
+    const prefix = field(header, 345, 155)
+    const name = pendingName ?? (prefix ? `${prefix}/${field(header, 0, 100)}` : field(header, 0, 100))
+    pendingName = undefined
+    if ((type === "0" || type === "\0") && wanted(name)) files[name] = decodeText(body)
+  }
+  return files
+}
+
+function field(header: Uint8Array, start: number, length: number): string {
+  return decodeText(header.subarray(start, start + length)).replace(/\0[\s\S]*$/, "")
+}
+
+function decodeText(bytes: Uint8Array): string {
+  return new TextDecoder("utf-8").decode(bytes)
+}
+
+async function decompress(bytes: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
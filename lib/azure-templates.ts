@@ -0,0 +1,415 @@
+// Expands Azure Pipelines templates: `- template: path.yml` entries in stages, jobs, steps and
+// variables lists are replaced by the template's items, and `extends: template:` by the
+// template's pipeline. `${{ parameters.name }}` is replaced by the value passed or the declared
+// default, and `${{ if }}` / `${{ each }}` blocks are inlined, so every branch is analyzed.
+// Inlined nodes keep their file, so findings in templates point at the template.
+
+import type { IncludeProvider, IncludeRequest, SourceRange } from "./types"
+import {
+  YamlDocument,
+  YamlParser,
+  findPair,
+  nodeKey,
+  resolveAlias,
+  substituteScalar,
+  type YamlMap,
+  type YamlNode,
+  type YamlPair,
+  type YamlScalar,
+} from "./yaml-parser"
+import { effectivePairs } from "./gitlab-includes"
+
+export interface AzureTemplateDiagnostic {
+  // `unresolved` covers templates that were not fetched, such as those in other repositories
+  kind:
+    | "missing"
+    | "invalid"
+    | "cycle"
+    | "limit"
+    | "unresolved"
+    | "unknown-parameter"
+    | "missing-parameter"
+    | "parameter-type"
+  message: string
+  range?: SourceRange
+}
+
+export interface AzureTemplateExpansion {
+  document: YamlDocument
+  // Template files that were inlined
+  files: string[]
+  diagnostics: AzureTemplateDiagnostic[]
+}
+
+interface TemplateContext {
+  // Directory of the file being expanded, for relative template paths
+  directory: string
+  parameters: Map<string, YamlNode | null>
+  // Template files being expanded, outermost first
+  stack: string[]
+}
+
+interface Template {
+  document: YamlDocument
+  root: YamlMap
+  label: string
+}
+
+// Lists whose entries may be `- template:` references to a file with the same list
+const TEMPLATE_LISTS = ["stages", "jobs", "steps", "variables"]
+// Azure's limits on template files per pipeline and on nesting depth
+const MAX_TEMPLATES = 100
+const MAX_DEPTH = 20
+
+const PARAMETER_PATTERN = /\$\{\{\s*parameters(?:\.([A-Za-z_][\w-]*)|\[\s*'([^']+)'\s*\])\s*\}\}/g
+
+// `template:` values that name another file
+export function findTemplateReferences(document: YamlDocument): YamlScalar[] {
+  const references: YamlScalar[] = []
+  document.visitScalars((scalar, path) => {
+    if (path[path.length - 1] !== "template" || typeof scalar.value !== "string") return
+    const list = path[path.length - 3]
+    const isListEntry = typeof path[path.length - 2] === "number" && TEMPLATE_LISTS.includes(String(list))
+    if (isListEntry || (path.length === 2 && path[0] === "extends")) references.push(scalar)
+  })
+  return references
+}
+
+// Without a provider, templates stay as written and are reported as unresolved
+export async function expandAzureTemplates(document: YamlDocument, provider?: IncludeProvider): Promise<AzureTemplateExpansion> {
+  const root = document.contents ? resolveAlias(document.contents) : null
+  if (!root || root.kind !== "map") return { document, files: [], diagnostics: [] }
+
+  const expander = new TemplateExpander(provider)
+  const context: TemplateContext = { directory: directoryOf(document.file ?? ""), parameters: new Map(), stack: [] }
+  // Runtime parameters of the pipeline are analyzed with their defaults
+  declaredParameters(root).forEach((parameter) => {
+    if (parameter.default !== undefined) context.parameters.set(parameter.name, parameter.default)
+  })
+
+  const contents = await expander.expandRoot(root, context)
+  const expanded = new YamlDocument(document.source, contents, document.file)
+  expanded.include(document)
+  expander.documents.forEach((template) => expanded.include(template))
+  return {
+    document: expanded,
+    files: expander.documents.map((template) => template.file!),
+    diagnostics: expander.diagnostics,
+  }
+}
+
+interface ParameterDeclaration {
+  name: string
+  type?: string
+  values?: YamlNode[]
+  // Undefined when there is no default; null for an explicit empty default
+  default?: YamlNode | null
+  range: SourceRange
+}
+
+class TemplateExpander {
+  readonly documents: YamlDocument[] = []
+  readonly diagnostics: AzureTemplateDiagnostic[] = []
+  private loaded = new Map<string, YamlDocument | null>()
+
+  constructor(private provider?: IncludeProvider) {}
+
+  async expandRoot(root: YamlMap, context: TemplateContext): Promise<YamlMap> {
+    const expanded = (await this.expand(root, context, undefined)) as YamlMap
+    const extendsPair = findPair(expanded, "extends")
+    const extended = extendsPair?.value ? resolveAlias(extendsPair.value) : undefined
+    if (!extendsPair || extended?.kind !== "map") return expanded
+
+    const template = await this.template(extended, context)
+    if (!template) return expanded
+    // The pipeline keeps its own triggers, resources and name; the template supplies the rest
+    const own = effectivePairs(expanded).filter((pair) => pair !== extendsPair)
+    const keys = new Set(own.map((pair) => nodeKey(pair.key)))
+    const inherited = effectivePairs(template.root).filter((pair) => !keys.has(nodeKey(pair.key)) && nodeKey(pair.key) !== "parameters")
+    return { ...expanded, items: [...own, ...inherited] }
+  }
+
+  private async expand(node: YamlNode, context: TemplateContext, key: string | undefined): Promise<YamlNode> {
+    const resolved = resolveAlias(node)
+    if (resolved.kind === "scalar") return substitute(resolved, context.parameters) ?? node
+
+    if (resolved.kind === "map") {
+      const items: YamlPair[] = []
+      for (const pair of effectivePairs(resolved)) {
+        const name = nodeKey(pair.key)
+        // Parameter declarations at the top of a file are not expanded with the values they declare
+        if (name === "parameters" && key === undefined) {
+          items.push(pair)
+          continue
+        }
+        const value = pair.value ? await this.expand(pair.value, context, name) : null
+        const block = value ? resolveAlias(value) : undefined
+        if (isDirective(name) && block?.kind === "map") items.push(...block.items)
+        else if (!isDirective(name)) items.push(value === pair.value ? pair : { ...pair, value })
+      }
+      return { ...resolved, items }
+    }
+
+    if (resolved.kind === "seq") {
+      const items: YamlNode[] = []
+      for (const item of resolved.items) items.push(...(await this.expandItem(item, context, key)))
+      return { ...resolved, items }
+    }
+    return node
+  }
+
+  // One list entry expands to any number of entries
+  private async expandItem(item: YamlNode, context: TemplateContext, list: string | undefined): Promise<YamlNode[]> {
+    const entry = resolveAlias(item)
+    if (entry.kind === "map" && entry.items.length > 0 && entry.items.every((pair) => isDirective(nodeKey(pair.key)))) {
+      const items: YamlNode[] = []
+      for (const pair of entry.items) {
+        const block = pair.value ? resolveAlias(pair.value) : undefined
+        if (block?.kind === "seq") {
+          for (const nested of block.items) items.push(...(await this.expandItem(nested, context, list)))
+        } else if (pair.value) {
+          items.push(await this.expand(pair.value, context, list))
+        }
+      }
+      return items
+    }
+
+    const expanded = await this.expand(item, context, list)
+    const value = resolveAlias(expanded)
+    // `- ${{ parameters.steps }}` inserts a whole list
+    if (entry.kind === "scalar" && value.kind === "seq") return value.items
+    if (value.kind !== "map" || !list || !TEMPLATE_LISTS.includes(list) || !findPair(value, "template")) return [expanded]
+
+    const template = await this.template(value, context)
+    if (!template) return [expanded]
+    const section = findPair(template.root, list)?.value
+    const items = section ? resolveAlias(section) : undefined
+    if (items?.kind === "seq") return items.items
+    // Variable templates may use the mapping form
+    if (list === "variables" && items?.kind === "map") return effectivePairs(items).map(variableEntry)
+    this.report("invalid", `${template.label} is used as a ${list} template but has no ${list} list`, value.range)
+    return []
+  }
+
+  // The referenced template, expanded with the parameters the reference passes
+  private async template(reference: YamlMap, context: TemplateContext): Promise<Template | undefined> {
+    const path = findPair(reference, "template")?.value
+    const target = path ? resolveAlias(path) : undefined
+    if (target?.kind !== "scalar" || typeof target.value !== "string" || target.text.trim() === "") {
+      this.report("invalid", "template: must name a YAML file", reference.range)
+      return undefined
+    }
+
+    const [location, repository] = target.text.trim().split("@")
+    if (location.includes("${{") || location.includes("$(")) {
+      this.report("unresolved", `Template "${location}" is named by an expression and cannot be resolved statically`, target.range)
+      return undefined
+    }
+    if (repository && repository !== "self") {
+      this.report("unresolved", `Template "${location}" is in repository resource "${repository}", which was not fetched`, target.range)
+      return undefined
+    }
+    const request: IncludeRequest = { kind: "local", location: resolvePath(context.directory, location) }
+    if (!this.provider?.supports("local")) {
+      this.report("unresolved", `Template "${request.location}" was not analyzed because the project files are not available`, target.range)
+      return undefined
+    }
+
+    const file = request.location
+    if (context.stack.includes(file)) {
+      this.report("cycle", `Template "${file}" includes itself through ${[...context.stack, file].join(" → ")}`, target.range)
+      return undefined
+    }
+    if (context.stack.length >= MAX_DEPTH) {
+      this.report("limit", `Templates are nested more than ${MAX_DEPTH} levels deep`, target.range)
+      return undefined
+    }
+
+    const document = await this.load(request, target.range)
+    const root = document?.contents ? resolveAlias(document.contents) : undefined
+    if (!document || root?.kind !== "map") return undefined
+    const label = `Template "${file}"`
+
+    const passedNode = findPair(reference, "parameters")?.value
+    const passed = passedNode ? resolveAlias(passedNode) : undefined
+    const parameters = this.bindParameters(passed?.kind === "map" ? passed : undefined, root, label, target.range)
+    if (!this.documents.includes(document)) this.documents.push(document)
+
+    const nested: TemplateContext = { directory: directoryOf(file), parameters, stack: [...context.stack, file] }
+    const expanded = (await this.expand(root, nested, undefined)) as YamlMap
+    return { document, root: expanded, label }
+  }
+
+  // Values for the template's parameters: what is passed, else the default
+  private bindParameters(passed: YamlMap | undefined, root: YamlMap, label: string, range: SourceRange): Map<string, YamlNode | null> {
+    const declarations = declaredParameters(root)
+    const typed = isTypedDeclaration(root)
+    const bound = new Map<string, YamlNode | null>()
+    declarations.forEach((declaration) => {
+      if (declaration.default !== undefined) bound.set(declaration.name, declaration.default)
+    })
+
+    const given = passed ? effectivePairs(passed) : []
+    given.forEach((pair) => {
+      const name = nodeKey(pair.key)
+      const declaration = declarations.find((candidate) => candidate.name === name)
+      bound.set(name, pair.value)
+      if (!declaration) {
+        if (typed) this.report("unknown-parameter", `${label} does not declare the parameter "${name}"`, pair.key.range)
+        return
+      }
+      const problem = pair.value ? typeProblem(declaration, pair.value) : undefined
+      if (problem) this.report("parameter-type", `${label} expects ${problem} for the parameter "${name}"`, pair.value!.range)
+    })
+
+    declarations.forEach((declaration) => {
+      if (declaration.default !== undefined || given.some((pair) => nodeKey(pair.key) === declaration.name)) return
+      this.report("missing-parameter", `${label} requires the parameter "${declaration.name}", which is not passed`, range)
+    })
+    return bound
+  }
+
+  private async load(request: IncludeRequest, range: SourceRange): Promise<YamlDocument | undefined> {
+    const file = request.location
+    if (!this.loaded.has(file)) {
+      if (this.loaded.size >= MAX_TEMPLATES) {
+        this.report("limit", `More than ${MAX_TEMPLATES} template files are used; the rest were not expanded`, range)
+        return undefined
+      }
+      this.loaded.set(file, await this.read(request, range))
+    }
+    return this.loaded.get(file) ?? undefined
+  }
+
+  private async read(request: IncludeRequest, range: SourceRange): Promise<YamlDocument | null> {
+    const label = `Template "${request.location}"`
+    let content: string | undefined
+    try {
+      content = await this.provider!.read(request)
+    } catch (error) {
+      this.report("missing", `${label} could not be read: ${error instanceof Error ? error.message : "Unknown error"}`, range)
+      return null
+    }
+    if (content === undefined) {
+      this.report("missing", `${label} does not exist`, range)
+      return null
+    }
+
+    let document: YamlDocument
+    try {
+      document = YamlParser.parseDocument(content, request.location)
+    } catch (error) {
+      this.report("invalid", `${label} is not valid YAML: ${error instanceof Error ? error.message : "Unknown error"}`, range)
+      return null
+    }
+    if (!document.contents || resolveAlias(document.contents).kind !== "map") {
+      this.report("invalid", `${label} must contain a mapping`, range)
+      return null
+    }
+    return document
+  }
+
+  private report(kind: AzureTemplateDiagnostic["kind"], message: string, range?: SourceRange): void {
+    this.diagnostics.push({ kind, message, range })
+  }
+}
+
+// `${{ if ... }}`, `${{ elseif ... }}`, `${{ else }}` and `${{ each ... }}` keys
+function isDirective(key: string): boolean {
+  return /^\$\{\{\s*(if|elseif|else|each)\b/.test(key)
+}
+
+// Typed parameters are a list of `name`/`type`/`default`; older templates map names to defaults
+function declaredParameters(root: YamlMap): ParameterDeclaration[] {
+  const node = findPair(root, "parameters")?.value
+  const parameters = node ? resolveAlias(node) : undefined
+  if (parameters?.kind === "map") {
+    return effectivePairs(parameters).map((pair) => ({ name: nodeKey(pair.key), default: pair.value, range: pair.key.range }))
+  }
+  if (parameters?.kind !== "seq") return []
+
+  return parameters.items.flatMap((item): ParameterDeclaration[] => {
+    const declaration = resolveAlias(item)
+    const name = declaration.kind === "map" ? findPair(declaration, "name")?.value : undefined
+    if (declaration.kind !== "map" || !name) return []
+    const type = findPair(declaration, "type")?.value
+    const valuesNode = findPair(declaration, "values")?.value
+    const values = valuesNode ? resolveAlias(valuesNode) : undefined
+    const defaultPair = findPair(declaration, "default")
+    return [
+      {
+        name: nodeKey(resolveAlias(name)),
+        type: type ? nodeKey(resolveAlias(type)) : "string",
+        values: values?.kind === "seq" ? values.items : undefined,
+        default: defaultPair ? defaultPair.value : undefined,
+        range: declaration.range,
+      },
+    ]
+  })
+}
+
+function isTypedDeclaration(root: YamlMap): boolean {
+  const node = findPair(root, "parameters")?.value
+  return node !== undefined && node !== null && resolveAlias(node).kind === "seq"
+}
+
+// Describes the expected value when `value` does not fit the declaration
+function typeProblem(declaration: ParameterDeclaration, node: YamlNode): string | undefined {
+  const value = resolveAlias(node)
+  // Expressions and macros are only known when the pipeline runs
+  if (value.kind === "scalar" && /\$\{\{|\$\(/.test(value.text)) return undefined
+
+  const type = declaration.type
+  if (!type) return undefined
+  if (type === "boolean" && !(value.kind === "scalar" && (typeof value.value === "boolean" || /^(true|false)$/i.test(value.text)))) {
+    return "a boolean"
+  }
+  if (type === "number" && !(value.kind === "scalar" && !isNaN(Number(value.text)) && value.text.trim() !== "")) return "a number"
+  if (type === "string" && value.kind !== "scalar") return "a string"
+  if (/List$/.test(type) && value.kind !== "seq") return `a list (${type})`
+  if (["step", "job", "deployment", "stage"].includes(type) && value.kind !== "map") return `a single ${type}`
+
+  if (declaration.values && value.kind === "scalar") {
+    const allowed = declaration.values.map((item) => nodeKey(resolveAlias(item)))
+    if (!allowed.includes(value.text)) return `one of ${allowed.join(", ")}`
+  }
+  return undefined
+}
+
+// The scalar with parameter references replaced, or undefined when it has none
+function substitute(scalar: YamlScalar, parameters: Map<string, YamlNode | null>): YamlNode | undefined {
+  if (!scalar.text.includes("parameters")) return undefined
+  return substituteScalar(scalar, PARAMETER_PATTERN, (match) => {
+    const name = match[1] ?? match[2]
+    return parameters.has(name) ? parameters.get(name)! : undefined
+  })
+}
+
+// `name: value` of a mapping-form variable template as a `- name:` / `value:` list entry
+function variableEntry(pair: YamlPair): YamlMap {
+  const key = (text: string): YamlScalar => ({ kind: "scalar", value: text, text, style: "plain", segments: [], range: pair.key.range })
+  return {
+    kind: "map",
+    flow: false,
+    range: pair.range,
+    items: [
+      { key: key("name"), value: pair.key, range: pair.range },
+      { key: key("value"), value: pair.value, range: pair.range },
+    ],
+  }
+}
+
+function directoryOf(file: string): string {
+  const index = file.lastIndexOf("/")
+  return index === -1 ? "" : file.slice(0, index)
+}
+
+// Paths are relative to the file that uses the template; a leading `/` starts at the repository root
+function resolvePath(directory: string, location: string): string {
+  const parts = location.startsWith("/") ? [] : directory.split("/").filter(Boolean)
+  location
+    .split("/")
+    .filter((part) => part !== "" && part !== ".")
+    .forEach((part) => (part === ".." ? parts.pop() : parts.push(part)))
+  return parts.join("/")
+}
@@ -0,0 +1,660 @@
+// Processes a CircleCI 2.1 configuration the way CircleCI does before it runs: reusable
+// `commands:` are inlined into the steps that invoke them, `executor:` references are replaced by
+// the executor's docker, machine or macos settings, and `<< parameters.name >>` is replaced by the
+// argument passed or the declared default. Each workflow invocation of a job with arguments or a
+// `name:` becomes a job of its own. Orbs are read from an orb source; their nodes keep the orb as
+// their file, so findings inside an orb point at it.
+
+import type { OrbSource, SourceRange } from "./types"
+import {
+  YamlDocument,
+  YamlParser,
+  findPair,
+  nodeKey,
+  resolveAlias,
+  substituteScalar,
+  type YamlMap,
+  type YamlNode,
+  type YamlPair,
+  type YamlScalar,
+} from "./yaml-parser"
+import { effectivePairs, type FileMapIncludeProvider } from "./gitlab-includes"
+
+export interface CircleCIDiagnostic {
+  // `orb-unresolved` covers orbs that were not read because no orb source has them
+  kind:
+    | "unknown-command"
+    | "unknown-executor"
+    | "unknown-job"
+    | "unknown-orb"
+    | "orb-not-found"
+    | "orb-unresolved"
+    | "invalid"
+    | "cycle"
+    | "unknown-parameter"
+    | "missing-parameter"
+    | "parameter-type"
+  message: string
+  range?: SourceRange
+}
+
+export interface CircleCIExpansion {
+  document: YamlDocument
+  // Orbs read from the orb source, as `namespace/orb@version`
+  orbs: string[]
+  diagnostics: CircleCIDiagnostic[]
+}
+
+// Commands, executors and jobs of the configuration or of one orb
+interface Scope {
+  label: string
+  commands: Map<string, YamlMap>
+  executors: Map<string, YamlMap>
+  jobs: Map<string, YamlMap>
+  // Imported orbs by alias; null when the orb could not be read
+  orbs: Map<string, Scope | null>
+}
+
+interface Definition {
+  node: YamlMap
+  scope: Scope
+  label: string
+}
+
+interface ExpansionContext {
+  scope: Scope
+  parameters: Map<string, YamlNode | null>
+  // Commands being expanded, outermost first
+  stack: string[]
+}
+
+interface ParameterDeclaration {
+  name: string
+  type?: string
+  enum?: string[]
+  // Undefined when there is no default; null for an explicit empty default
+  default?: YamlNode | null
+}
+
+interface JobInvocation {
+  job: string
+  name: string
+  arguments: YamlPair[]
+  preSteps?: YamlNode
+  postSteps?: YamlNode
+  // The entry's `name:` or, without one, the job it names
+  key: YamlNode
+  named: boolean
+  range: SourceRange
+}
+
+// Steps CircleCI provides; any other step name invokes a command
+export const CIRCLECI_BUILTIN_STEPS = [
+  "run",
+  "checkout",
+  "setup_remote_docker",
+  "save_cache",
+  "restore_cache",
+  "store_artifacts",
+  "store_test_results",
+  "persist_to_workspace",
+  "attach_workspace",
+  "add_ssh_keys",
+  "when",
+  "unless",
+  "deploy",
+]
+// Keys of a workflow job entry that configure the invocation rather than pass parameters
+const INVOCATION_KEYS = ["requires", "filters", "context", "name", "type", "matrix", "pre-steps", "post-steps", "serial-group", "override-with"]
+// Bounds on command nesting and on orbs importing other orbs
+const MAX_DEPTH = 20
+const MAX_ORB_DEPTH = 5
+
+const PARAMETER_PATTERN = /<<\s*(pipeline\.)?parameters\.([A-Za-z_][\w-]*)\s*>>/g
+
+export async function expandCircleCIConfig(document: YamlDocument, source?: OrbSource): Promise<CircleCIExpansion> {
+  const root = document.contents ? resolveAlias(document.contents) : null
+  if (!root || root.kind !== "map") return { document, orbs: [], diagnostics: [] }
+
+  const expander = new ConfigExpander(source, root)
+  const contents = await expander.expandRoot(root)
+  const expanded = new YamlDocument(document.source, contents, document.file)
+  expanded.include(document)
+  expander.documents.forEach((orb) => expanded.include(orb))
+  return {
+    document: expanded,
+    orbs: expander.documents.map((orb) => orb.file!),
+    diagnostics: expander.diagnostics,
+  }
+}
+
+class ConfigExpander {
+  readonly documents: YamlDocument[] = []
+  readonly diagnostics: CircleCIDiagnostic[] = []
+  private loaded = new Map<string, Promise<Scope | null>>()
+  // Pipeline parameters are analyzed with their defaults
+  private pipelineParameters = new Map<string, YamlNode | null>()
+
+  constructor(
+    private source: OrbSource | undefined,
+    root: YamlMap,
+  ) {
+    declaredParameters(root).forEach((parameter) => {
+      if (parameter.default !== undefined) this.pipelineParameters.set(parameter.name, parameter.default)
+    })
+  }
+
+  async expandRoot(root: YamlMap): Promise<YamlMap> {
+    const scope = await this.scope(root, "the configuration", [])
+    const invocations = this.invocations(root, scope)
+
+    const jobs: YamlPair[] = []
+    const add = (definition: Definition, key: YamlNode, invocation?: JobInvocation) => {
+      jobs.push({
+        key: invocation?.named ? invocation.key : key,
+        value: this.expandJob(definition, invocation),
+        range: invocation?.range ?? definition.node.range,
+      })
+    }
+    // Jobs keep the order they are defined in; jobs no workflow runs are analyzed with their defaults
+    const jobsNode = findPair(root, "jobs")?.value
+    const defined = jobsNode ? resolveAlias(jobsNode) : undefined
+    if (defined?.kind === "map") {
+      effectivePairs(defined).forEach((pair) => {
+        const node = pair.value ? resolveAlias(pair.value) : undefined
+        if (node?.kind !== "map") return
+        const name = nodeKey(pair.key)
+        const definition = { node, scope, label: `Job "${name}"` }
+        const own = invocations.filter((invocation) => invocation.job === name)
+        if (own.length === 0) add(definition, pair.key)
+        own.forEach((invocation) => add(definition, pair.key, invocation))
+      })
+    }
+    for (const invocation of invocations.filter((candidate) => candidate.job.includes("/"))) {
+      const definition = this.lookup(scope, invocation.job, "jobs")
+      if (definition) add(definition, invocation.key, invocation)
+    }
+
+    const items = effectivePairs(root).map((pair) => (nodeKey(pair.key) === "jobs" ? { ...pair, value: this.jobsMap(jobs, pair.value) } : pair))
+    if (!items.some((pair) => nodeKey(pair.key) === "jobs") && jobs.length > 0) {
+      items.push({ key: plainScalar("jobs", root.range), value: this.jobsMap(jobs, null), range: root.range })
+    }
+    return { ...root, items: items.map((pair) => ({ ...pair, value: pair.value ? this.substitute(pair.value, new Map()) : null })) }
+  }
+
+  private jobsMap(jobs: YamlPair[], original: YamlNode | null): YamlMap {
+    const range = original?.range ?? jobs[0]?.range
+    return { kind: "map", items: jobs, flow: false, range: range! }
+  }
+
+  // Job entries of every workflow that name a job to run; approval jobs only pause the workflow
+  private invocations(root: YamlMap, scope: Scope): JobInvocation[] {
+    const workflowsNode = findPair(root, "workflows")?.value
+    const workflows = workflowsNode ? resolveAlias(workflowsNode) : undefined
+    if (workflows?.kind !== "map") return []
+
+    const invocations: JobInvocation[] = []
+    effectivePairs(workflows).forEach((workflowPair) => {
+      const workflow = workflowPair.value ? resolveAlias(workflowPair.value) : undefined
+      const entriesNode = workflow?.kind === "map" ? findPair(workflow, "jobs")?.value : undefined
+      const entries = entriesNode ? resolveAlias(entriesNode) : undefined
+      if (entries?.kind !== "seq") return
+
+      entries.items.forEach((item) => {
+        const entry = resolveAlias(item)
+        const pair = entry.kind === "map" ? entry.items[0] : undefined
+        const keyNode = entry.kind === "scalar" ? entry : pair?.key
+        if (!keyNode) return
+        const job = nodeKey(keyNode)
+        const configNode = pair?.value ? resolveAlias(pair.value) : undefined
+        const config = configNode?.kind === "map" ? configNode : undefined
+        if (config && scalarText(findPair(config, "type")?.value) === "approval") return
+
+        if (!this.lookup(scope, job, "jobs", keyNode.range)) {
+          if (!this.isUnavailableOrb(scope, job)) this.report("unknown-job", `Workflow "${nodeKey(workflowPair.key)}" runs the job "${job}", which is not defined`, keyNode.range)
+          return
+        }
+
+        const nameNode = config ? findPair(config, "name")?.value : undefined
+        const name = scalarText(nameNode) ?? job
+        if (invocations.some((invocation) => invocation.name === name)) return
+        invocations.push({
+          job,
+          name,
+          arguments: config ? [...effectivePairs(config), ...matrixArguments(config)] : [],
+          preSteps: config ? findPair(config, "pre-steps")?.value ?? undefined : undefined,
+          postSteps: config ? findPair(config, "post-steps")?.value ?? undefined : undefined,
+          key: nameNode && scalarText(nameNode) ? resolveAlias(nameNode) : keyNode,
+          named: !!scalarText(nameNode),
+          range: entry.range,
+        })
+      })
+    })
+    return invocations
+  }
+
+  private expandJob(definition: Definition, invocation?: JobInvocation): YamlMap {
+    const parameters = this.bind(definition, invocation?.arguments ?? [], invocation?.range, INVOCATION_KEYS)
+    const context: ExpansionContext = { scope: definition.scope, parameters, stack: [] }
+    const job = this.substitute(definition.node, parameters) as YamlMap
+
+    let items = effectivePairs(job).filter((pair) => nodeKey(pair.key) !== "parameters")
+    const executorPair = items.find((pair) => nodeKey(pair.key) === "executor")
+    const executor = executorPair?.value ? this.executor(executorPair.value, definition.scope) : undefined
+    if (executor) {
+      const keys = new Set(items.map((pair) => nodeKey(pair.key)))
+      items = [
+        ...items.filter((pair) => pair !== executorPair),
+        ...effectivePairs(executor).filter((pair) => !keys.has(nodeKey(pair.key)) && nodeKey(pair.key) !== "parameters"),
+      ]
+    }
+
+    return {
+      ...job,
+      items: items.map((pair) => {
+        if (nodeKey(pair.key) !== "steps") return pair
+        const steps = [
+          ...(invocation?.preSteps ? this.expandSteps(invocation.preSteps, context) : []),
+          ...(pair.value ? this.expandSteps(pair.value, context) : []),
+          ...(invocation?.postSteps ? this.expandSteps(invocation.postSteps, context) : []),
+        ]
+        return { ...pair, value: { kind: "seq", items: steps, flow: false, range: pair.value?.range ?? pair.key.range } }
+      }),
+    }
+  }
+
+  // The executor's settings with its parameters applied, from `executor: name` or `executor: { name, ...arguments }`
+  private executor(reference: YamlNode, scope: Scope): YamlMap | undefined {
+    const node = resolveAlias(reference)
+    const nameNode = node.kind === "map" ? findPair(node, "name")?.value : node
+    const name = scalarText(nameNode)
+    if (!name) {
+      this.report("invalid", "executor: must name an executor", node.range)
+      return undefined
+    }
+    const definition = this.lookup(scope, name, "executors", nameNode!.range)
+    if (!definition) {
+      if (!this.isUnavailableOrb(scope, name)) this.report("unknown-executor", `Executor "${name}" is not defined`, nameNode!.range)
+      return undefined
+    }
+    const passed = node.kind === "map" ? effectivePairs(node).filter((pair) => nodeKey(pair.key) !== "name") : []
+    const parameters = this.bind(definition, passed, node.range)
+    return this.substitute(definition.node, parameters) as YamlMap
+  }
+
+  private expandSteps(node: YamlNode, context: ExpansionContext): YamlNode[] {
+    const steps = resolveAlias(node)
+    if (steps.kind !== "seq") return [node]
+    return steps.items.flatMap((item) => this.expandStep(item, context))
+  }
+
+  // One step expands to any number of steps
+  private expandStep(item: YamlNode, context: ExpansionContext): YamlNode[] {
+    const step = resolveAlias(item)
+    // `- << parameters.steps >>` inserts a list of steps
+    if (step.kind === "seq") return step.items.flatMap((nested) => this.expandStep(nested, context))
+
+    const pair = step.kind === "map" ? step.items[0] : undefined
+    const nameNode = step.kind === "scalar" ? step : pair?.key
+    if (!nameNode) return [item]
+    const name = nodeKey(nameNode)
+
+    if (name === "when" || name === "unless") {
+      const config = pair?.value ? resolveAlias(pair.value) : undefined
+      if (config?.kind !== "map") return [item]
+      const condition = literalCondition(findPair(config, "condition")?.value)
+      if (condition === (name === "unless")) return []
+      const nested = findPair(config, "steps")?.value
+      return nested ? this.expandSteps(nested, context) : []
+    }
+    if (CIRCLECI_BUILTIN_STEPS.includes(name)) return [item]
+
+    const definition = this.lookup(context.scope, name, "commands", nameNode.range)
+    if (!definition) {
+      if (!this.isUnavailableOrb(context.scope, name)) this.report("unknown-command", `Command "${name}" is not defined`, nameNode.range)
+      return [item]
+    }
+    const id = `${definition.scope.label}:${name}`
+    if (context.stack.includes(id)) {
+      this.report("cycle", `Command "${name}" invokes itself through ${[...context.stack.map(commandName), name].join(" → ")}`, nameNode.range)
+      return []
+    }
+    if (context.stack.length >= MAX_DEPTH) {
+      this.report("invalid", `Commands are nested more than ${MAX_DEPTH} levels deep`, nameNode.range)
+      return []
+    }
+
+    const argumentsNode = pair?.value ? resolveAlias(pair.value) : undefined
+    const parameters = this.bind(definition, argumentsNode?.kind === "map" ? effectivePairs(argumentsNode) : [], step.range)
+    const command = this.substitute(definition.node, parameters) as YamlMap
+    const steps = findPair(command, "steps")?.value
+    if (!steps) {
+      this.report("invalid", `${definition.label} has no steps`, nameNode.range)
+      return []
+    }
+    return this.expandSteps(steps, { scope: definition.scope, parameters, stack: [...context.stack, id] })
+  }
+
+  // Values for the definition's parameters: what is passed, else the default. Without a range
+  // the definition is not invoked, so missing arguments are not reported.
+  private bind(definition: Definition, passed: YamlPair[], range?: SourceRange, reserved: string[] = []): Map<string, YamlNode | null> {
+    const declarations = declaredParameters(definition.node)
+    const bound = new Map<string, YamlNode | null>()
+    declarations.forEach((declaration) => {
+      if (declaration.default !== undefined) bound.set(declaration.name, declaration.default)
+    })
+
+    const given = passed.filter((pair) => !reserved.includes(nodeKey(pair.key)))
+    given.forEach((pair) => {
+      const name = nodeKey(pair.key)
+      const declaration = declarations.find((candidate) => candidate.name === name)
+      if (!declaration) {
+        this.report("unknown-parameter", `${definition.label} does not declare the parameter "${name}"`, pair.key.range)
+        return
+      }
+      bound.set(name, pair.value)
+      const problem = pair.value ? typeProblem(declaration, pair.value) : undefined
+      if (problem) this.report("parameter-type", `${definition.label} expects ${problem} for the parameter "${name}"`, pair.value!.range)
+    })
+
+    if (range) {
+      declarations.forEach((declaration) => {
+        if (declaration.default !== undefined || given.some((pair) => nodeKey(pair.key) === declaration.name)) return
+        this.report("missing-parameter", `${definition.label} requires the parameter "${declaration.name}", which is not passed`, range)
+      })
+    }
+    return bound
+  }
+
+  // Replaces `<< parameters.x >>` and `<< pipeline.parameters.x >>` throughout `node`
+  private substitute(node: YamlNode, parameters: Map<string, YamlNode | null>): YamlNode {
+    const resolved = resolveAlias(node)
+    if (resolved.kind === "scalar") {
+      if (!resolved.text.includes("<<")) return node
+      return (
+        substituteScalar(resolved, PARAMETER_PATTERN, (match) => {
+          const values = match[1] ? this.pipelineParameters : parameters
+          return values.has(match[2]) ? values.get(match[2])! : undefined
+        }) ?? node
+      )
+    }
+    if (resolved.kind === "map") {
+      // Nested definitions are substituted with their own parameters when they are used
+      return {
+        ...resolved,
+        items: effectivePairs(resolved).map((pair) =>
+          pair.value && nodeKey(pair.key) !== "parameters" ? { ...pair, value: this.substitute(pair.value, parameters) } : pair,
+        ),
+      }
+    }
+    if (resolved.kind === "seq") return { ...resolved, items: resolved.items.map((item) => this.substitute(item, parameters)) }
+    return node
+  }
+
+  private async scope(root: YamlMap, label: string, stack: string[]): Promise<Scope> {
+    const definitions = (key: string) => {
+      const node = findPair(root, key)?.value
+      const section = node ? resolveAlias(node) : undefined
+      const map = new Map<string, YamlMap>()
+      if (section?.kind !== "map") return map
+      effectivePairs(section).forEach((pair) => {
+        const value = pair.value ? resolveAlias(pair.value) : undefined
+        if (value?.kind === "map") map.set(nodeKey(pair.key), value)
+      })
+      return map
+    }
+
+    const orbs = new Map<string, Scope | null>()
+    const orbsNode = findPair(root, "orbs")?.value
+    const imports = orbsNode ? resolveAlias(orbsNode) : undefined
+    if (imports?.kind === "map") {
+      for (const pair of effectivePairs(imports)) {
+        const alias = nodeKey(pair.key)
+        const value = pair.value ? resolveAlias(pair.value) : undefined
+        // Inline orbs are defined in place
+        if (value?.kind === "map") orbs.set(alias, await this.scope(value, `Inline orb "${alias}"`, stack))
+        else if (value?.kind === "scalar") orbs.set(alias, await this.orb(value, stack))
+      }
+    }
+
+    return { label, commands: definitions("commands"), executors: definitions("executors"), jobs: definitions("jobs"), orbs }
+  }
+
+  // The orb a reference such as `circleci/node@5.1` names, read once per version
+  private async orb(reference: YamlScalar, stack: string[]): Promise<Scope | null> {
+    const match = reference.text.trim().match(/^([\w-]+\/[\w-]+)(?:@(.+))?$/)
+    if (!match) {
+      this.report("invalid", `"${reference.text}" is not an orb reference of the form namespace/orb@version`, reference.range)
+      return null
+    }
+    const [, name, requested] = match
+    if (!this.source) {
+      this.report("orb-unresolved", `Orb ${reference.text.trim()} was not analyzed because no orb source is configured`, reference.range)
+      return null
+    }
+    if (stack.length >= MAX_ORB_DEPTH) {
+      this.report("invalid", `Orbs import other orbs more than ${MAX_ORB_DEPTH} levels deep`, reference.range)
+      return null
+    }
+
+    const versions = await this.source.versions(name)
+    // The source may hold only some of the orbs; a version it lacks for an orb it has is an error
+    if (versions.length === 0) {
+      this.report("orb-unresolved", `Orb ${name} was not analyzed because it is not in the orb source`, reference.range)
+      return null
+    }
+    const version = matchingVersion(requested, versions)
+    if (!version) {
+      this.report("orb-not-found", `Orb ${name} has no version matching "${requested}"; the orb source has ${versions.join(", ")}`, reference.range)
+      return null
+    }
+
+    const id = `${name}@${version}`
+    if (stack.includes(id)) {
+      this.report("cycle", `Orb ${id} imports itself through ${[...stack, id].join(" → ")}`, reference.range)
+      return null
+    }
+    if (!this.loaded.has(id)) this.loaded.set(id, this.load(name, version, reference.range, [...stack, id]))
+    return this.loaded.get(id)!
+  }
+
+  private async load(name: string, version: string, range: SourceRange, stack: string[]): Promise<Scope | null> {
+    const id = `${name}@${version}`
+    let content: string | undefined
+    try {
+      content = await this.source!.read(name, version)
+    } catch (error) {
+      this.report("orb-not-found", `Orb ${id} could not be read: ${error instanceof Error ? error.message : "Unknown error"}`, range)
+      return null
+    }
+    if (content === undefined) {
+      this.report("orb-not-found", `Orb ${id} is not in the orb source`, range)
+      return null
+    }
+
+    let document: YamlDocument
+    try {
+      document = YamlParser.parseDocument(content, id)
+    } catch (error) {
+      this.report("invalid", `Orb ${id} is not valid YAML: ${error instanceof Error ? error.message : "Unknown error"}`, range)
+      return null
+    }
+    const root = document.contents ? resolveAlias(document.contents) : undefined
+    if (root?.kind !== "map") {
+      this.report("invalid", `Orb ${id} must contain a mapping`, range)
+      return null
+    }
+    this.documents.push(document)
+    return this.scope(root, `Orb ${id}`, stack)
+  }
+
+  // `name` or `alias/name` in the scope; undefined when it is not defined or its orb was not read
+  private lookup(scope: Scope, name: string, kind: "commands" | "executors" | "jobs", range?: SourceRange): Definition | undefined {
+    const separator = name.indexOf("/")
+    if (separator === -1) {
+      const node = scope[kind].get(name)
+      const noun = kind === "commands" ? "Command" : kind === "executors" ? "Executor" : "Job"
+      return node ? { node, scope, label: `${noun} "${name}"${scope.label === "the configuration" ? "" : ` of ${scope.label}`}` } : undefined
+    }
+
+    const alias = name.slice(0, separator)
+    const orb = scope.orbs.get(alias)
+    if (orb === undefined) {
+      if (range) this.report("unknown-orb", `"${name}" uses the orb "${alias}", which is not imported under orbs:`, range)
+      return undefined
+    }
+    return orb ? this.lookup(orb, name.slice(separator + 1), kind) : undefined
+  }
+
+  // Whether `name` belongs to an orb that is not imported or was not read, which is reported once
+  private isUnavailableOrb(scope: Scope, name: string): boolean {
+    const separator = name.indexOf("/")
+    return separator !== -1 && !scope.orbs.get(name.slice(0, separator))
+  }
+
+  private report(kind: CircleCIDiagnostic["kind"], message: string, range?: SourceRange): void {
+    this.diagnostics.push({ kind, message, range })
+  }
+}
+
+// Orb sources kept in a project, e.g. saved with
+// `circleci orb source circleci/node@5.1.0 > .circleci/orbs/circleci/node@5.1.0.yml`
+export class FileMapOrbSource implements OrbSource {
+  private orbs = new Map<string, Map<string, string>>()
+
+  // `files` maps `namespace/orb@version` to the orb's source
+  constructor(files: Record<string, string>) {
+    Object.entries(files).forEach(([reference, content]) => {
+      const [name, version] = reference.split("@")
+      if (!version) return
+      if (!this.orbs.has(name)) this.orbs.set(name, new Map())
+      this.orbs.get(name)!.set(version, content)
+    })
+  }
+
+  // Orbs saved under `.circleci/orbs/` in the project
+  static fromProject(provider: FileMapIncludeProvider): FileMapOrbSource {
+    const files: Record<string, string> = {}
+    provider.paths.forEach((path) => {
+      const match = path.match(/^\.circleci\/orbs\/([\w-]+\/[\w-]+@[^/]+)\.ya?ml$/)
+      if (match) files[match[1]] = provider.get(path)!
+    })
+    return new FileMapOrbSource(files)
+  }
+
+  get size(): number {
+    return this.orbs.size
+  }
+
+  async versions(name: string): Promise<string[]> {
+    return [...(this.orbs.get(name)?.keys() ?? [])]
+  }
+
+  async read(name: string, version: string): Promise<string | undefined> {
+    return this.orbs.get(name)?.get(version)
+  }
+}
+
+function declaredParameters(definition: YamlMap): ParameterDeclaration[] {
+  const node = findPair(definition, "parameters")?.value
+  const parameters = node ? resolveAlias(node) : undefined
+  if (parameters?.kind !== "map") return []
+
+  return effectivePairs(parameters).map((pair) => {
+    const declaration = pair.value ? resolveAlias(pair.value) : undefined
+    if (declaration?.kind !== "map") return { name: nodeKey(pair.key) }
+    const defaultPair = findPair(declaration, "default")
+    const enumNode = findPair(declaration, "enum")?.value
+    const values = enumNode ? resolveAlias(enumNode) : undefined
+    return {
+      name: nodeKey(pair.key),
+      type: scalarText(findPair(declaration, "type")?.value),
+      enum: values?.kind === "seq" ? values.items.map((item) => nodeKey(resolveAlias(item))) : undefined,
+      default: defaultPair ? defaultPair.value : undefined,
+    }
+  })
+}
+
+// Describes the expected value when `value` does not fit the declaration
+function typeProblem(declaration: ParameterDeclaration, node: YamlNode): string | undefined {
+  const value = resolveAlias(node)
+  // Arguments forwarded from another parameter are checked where they are declared
+  if (value.kind === "scalar" && value.text.includes("<<")) return undefined
+
+  switch (declaration.type) {
+    case "boolean":
+      return value.kind === "scalar" && (typeof value.value === "boolean" || /^(true|false|yes|no|on|off)$/i.test(value.text)) ? undefined : "a boolean"
+    case "integer":
+      return value.kind === "scalar" && /^-?\d+$/.test(value.text.trim()) ? undefined : "an integer"
+    case "string":
+      return value.kind === "scalar" ? undefined : "a string"
+    case "env_var_name":
+      return value.kind === "scalar" && /^[A-Za-z_][A-Za-z0-9_]*$/.test(value.text) ? undefined : "an environment variable name"
+    case "steps":
+      return value.kind === "seq" ? undefined : "a list of steps"
+    case "executor":
+      return value.kind === "scalar" || value.kind === "map" ? undefined : "an executor name or mapping"
+    case "enum":
+      return value.kind === "scalar" && declaration.enum?.includes(value.text) !== false ? undefined : `one of ${declaration.enum?.join(", ")}`
+    default:
+      return undefined
+  }
+}
+
+// Matrix jobs are analyzed with the first value of each parameter
+function matrixArguments(config: YamlMap): YamlPair[] {
+  const matrixNode = findPair(config, "matrix")?.value
+  const matrix = matrixNode ? resolveAlias(matrixNode) : undefined
+  const parametersNode = matrix?.kind === "map" ? findPair(matrix, "parameters")?.value : undefined
+  const parameters = parametersNode ? resolveAlias(parametersNode) : undefined
+  if (parameters?.kind !== "map") return []
+  return effectivePairs(parameters).flatMap((pair) => {
+    const values = pair.value ? resolveAlias(pair.value) : undefined
+    return values?.kind === "seq" && values.items.length > 0 ? [{ ...pair, value: values.items[0] }] : []
+  })
+}
+
+// `when:` / `unless:` conditions that are literal after parameters are applied; undefined otherwise
+function literalCondition(node: YamlNode | null | undefined): boolean | undefined {
+  if (node === undefined) return undefined
+  if (node === null) return false
+  const value = resolveAlias(node)
+  if (value.kind !== "scalar" || value.text.includes("<<")) return undefined
+  if (typeof value.value === "boolean") return value.value
+  if (typeof value.value === "number") return value.value !== 0
+  return value.value !== null && value.text !== ""
+}
+
+// The version of an orb a reference resolves to: an exact version, the newest release of a major
+// or minor version, or the newest release for `volatile`
+function matchingVersion(requested: string | undefined, versions: string[]): string | undefined {
+  if (requested && versions.includes(requested)) return requested
+  if (requested && requested !== "volatile" && !/^\d+(\.\d+)?$/.test(requested)) return undefined
+  const releases = versions
+    .filter((version) => /^\d+\.\d+\.\d+$/.test(version))
+    .filter((version) => !requested || requested === "volatile" || version.startsWith(`${requested}.`))
+  return releases.sort(compareVersions).pop()
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split(".").map(Number)
+  const right = b.split(".").map(Number)
+  for (let index = 0; index < 3; index++) {
+    if (left[index] !== right[index]) return left[index] - right[index]
+  }
+  return 0
+}
+
+function commandName(id: string): string {
+  return id.slice(id.lastIndexOf(":") + 1)
+}
+
+function scalarText(node: YamlNode | null | undefined): string | undefined {
+  if (!node) return undefined
+  const value = resolveAlias(node)
+  return value.kind === "scalar" && value.text.trim() !== "" ? value.text.trim() : undefined
+}
+
+function plainScalar(text: string, range: SourceRange): YamlScalar {
+  return { kind: "scalar", value: text, text, style: "plain", segments: [], range }
+}
@@ -0,0 +1,108 @@
+// Container image references: splits `registry/repository:tag@digest` and looks up
+// end-of-life dates for runtime and base images in an offline table.
+
+import type { RuntimeEolTable } from "./types"
+import bundledRuntimeEol from "./data/runtime-eol.json"
+
+export interface ImageReference {
+  // Undefined for Docker Hub
+  registry?: string
+  // `library/` is dropped for official Docker Hub images, so `node` and `library/node` match
+  repository: string
+  tag?: string
+  digest?: string
+}
+
+export interface RuntimeEol {
+  runtime: string
+  cycle: string
+  eol: string
+}
+
+const DOCKER_HUB_REGISTRIES = ["docker.io", "index.docker.io", "registry-1.docker.io"]
+
+// Public registries run by the platform or cloud vendors, plus the cloud-hosted private
+// registries an organisation controls
+export const DEFAULT_TRUSTED_REGISTRIES = [
+  ...DOCKER_HUB_REGISTRIES,
+  "ghcr.io",
+  "gcr.io",
+  "*.gcr.io",
+  "*.pkg.dev",
+  "mcr.microsoft.com",
+  "public.ecr.aws",
+  "*.amazonaws.com",
+  "*.azurecr.io",
+  "quay.io",
+  "registry.gitlab.com",
+]
+
+export const defaultRuntimeEolTable: RuntimeEolTable = loadRuntimeEolTable(bundledRuntimeEol)
+
+// Validates a table dropped in to replace the bundled one
+export function loadRuntimeEolTable(data: unknown): RuntimeEolTable {
+  if (!data || typeof data !== "object" || typeof (data as any).runtimes !== "object") {
+    throw new Error("Runtime EOL table must be an object with a `runtimes` map")
+  }
+  const runtimes: RuntimeEolTable["runtimes"] = {}
+  Object.entries((data as any).runtimes as Record<string, any>).forEach(([runtime, entry]) => {
+    if (!entry || !Array.isArray(entry.images) || typeof entry.cycles !== "object") return
+    runtimes[runtime] = {
+      images: entry.images.filter((image: unknown) => typeof image === "string").map((image: string) => image.toLowerCase()),
+      cycles: Object.fromEntries(
+        Object.entries(entry.cycles as Record<string, unknown>).filter(
+          (cycle): cycle is [string, string] => typeof cycle[1] === "string" && !Number.isNaN(Date.parse(cycle[1])),
+        ),
+      ),
+    }
+  })
+  return { updated: typeof (data as any).updated === "string" ? (data as any).updated : undefined, runtimes }
+}
+
+// Images built from variables or expressions cannot be checked statically
+export function isDynamicImage(image: string): boolean {
+  return /\$|\{\{/.test(image)
+}
+
+export function parseImage(image: string): ImageReference {
+  const [withoutDigest, digest] = image.trim().replace(/^docker:\/\//, "").split("@")
+  const segments = withoutDigest.split("/")
+  // The first segment is a registry host when it looks like one
+  const registry =
+    segments.length > 1 && /[.:]|^localhost$/.test(segments[0]) ? segments.shift()!.toLowerCase() : undefined
+  const last = segments.pop()!
+  const tagIndex = last.indexOf(":")
+  segments.push(tagIndex === -1 ? last : last.slice(0, tagIndex))
+
+  const dockerHub = registry === undefined || DOCKER_HUB_REGISTRIES.includes(registry)
+  const repository = segments.join("/").toLowerCase()
+  return {
+    registry: dockerHub ? undefined : registry,
+    repository: dockerHub ? repository.replace(/^library\//, "") : repository,
+    tag: tagIndex === -1 ? undefined : last.slice(tagIndex + 1),
+    digest,
+  }
+}
+
+export function isTrustedRegistry(registry: string | undefined, trusted: string[] = DEFAULT_TRUSTED_REGISTRIES): boolean {
+  if (registry === undefined) return true
+  const host = registry.replace(/:\d+$/, "")
+  return trusted.some((entry) => {
+    const pattern = entry.toLowerCase()
+    return pattern.startsWith("*.") ? host.endsWith(pattern.slice(1)) : host === pattern
+  })
+}
+
+// `16.14.0-alpine` falls in cycle "16"; "3.10" does not fall in "3.1". The longest cycle wins.
+export function findRuntimeEol(reference: ImageReference, table: RuntimeEolTable = defaultRuntimeEolTable): RuntimeEol | undefined {
+  if (!reference.tag) return undefined
+  const tag = reference.tag.toLowerCase()
+  const entry = Object.entries(table.runtimes).find(([, runtime]) => runtime.images.includes(reference.repository))
+  if (!entry) return undefined
+
+  const [runtime, { cycles }] = entry
+  const cycle = Object.keys(cycles)
+    .filter((candidate) => tag === candidate || (tag.startsWith(candidate) && /^[^\d]/.test(tag.slice(candidate.length))))
+    .sort((a, b) => b.length - a.length)[0]
+  return cycle ? { runtime, cycle, eol: cycles[cycle] } : undefined
+}
@@ -0,0 +1,721 @@
+// Parser and static evaluator for the GitHub Actions expression language (`${{ ... }}`).
+// Evaluation is partial: values that depend on the run are UNKNOWN, so callers can
+// tell statically decided conditions apart from ones that depend on the event.
+
+export type ExpressionValue = null | boolean | number | string | ExpressionValue[] | { [key: string]: ExpressionValue }
+
+export type BinaryOperator = "==" | "!=" | "<" | "<=" | ">" | ">=" | "&&" | "||"
+
+interface NodeBase {
+  start: number
+  end: number
+}
+
+export type ExpressionNode =
+  | (NodeBase & { type: "literal"; value: ExpressionValue })
+  | (NodeBase & { type: "context"; name: string })
+  | (NodeBase & { type: "property"; object: ExpressionNode; name: string })
+  | (NodeBase & { type: "index"; object: ExpressionNode; index: ExpressionNode })
+  | (NodeBase & { type: "call"; name: string; args: ExpressionNode[] })
+  | (NodeBase & { type: "not"; operand: ExpressionNode })
+  | (NodeBase & { type: "binary"; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode })
+
+export const EXPRESSION_CONTEXTS = [
+  "github",
+  "env",
+  "vars",
+  "job",
+  "jobs",
+  "steps",
+  "runner",
+  "secrets",
+  "strategy",
+  "matrix",
+  "needs",
+  "inputs",
+]
+
+export const EXPRESSION_FUNCTIONS: Record<string, { minArgs: number; maxArgs: number }> = {
+  contains: { minArgs: 2, maxArgs: 2 },
+  startswith: { minArgs: 2, maxArgs: 2 },
+  endswith: { minArgs: 2, maxArgs: 2 },
+  format: { minArgs: 1, maxArgs: Infinity },
+  join: { minArgs: 1, maxArgs: 2 },
+  tojson: { minArgs: 1, maxArgs: 1 },
+  fromjson: { minArgs: 1, maxArgs: 1 },
+  hashfiles: { minArgs: 1, maxArgs: Infinity },
+  success: { minArgs: 0, maxArgs: 0 },
+  always: { minArgs: 0, maxArgs: 0 },
+  cancelled: { minArgs: 0, maxArgs: 0 },
+  failure: { minArgs: 0, maxArgs: 0 },
+}
+
+export const STATUS_FUNCTIONS = ["success", "always", "cancelled", "failure"]
+
+export class ExpressionSyntaxError extends Error {
+  offset: number
+
+  constructor(message: string, offset: number) {
+    super(`${message} at position ${offset + 1}`)
+    this.name = "ExpressionSyntaxError"
+    this.offset = offset
+  }
+}
+
+// Extraction of `${{ }}` spans from YAML string values
+
+export interface EmbeddedExpression {
+  // Expression text between the delimiters
+  source: string
+  // Offsets of `source` within the containing string
+  start: number
+  end: number
+  // Offsets of the whole `${{ ... }}` span
+  outerStart: number
+  outerEnd: number
+  terminated: boolean
+}
+
+export function extractExpressions(text: string): EmbeddedExpression[] {
+  const expressions: EmbeddedExpression[] = []
+  let searchFrom = 0
+
+  while (true) {
+    const outerStart = text.indexOf("${{", searchFrom)
+    if (outerStart === -1) break
+    const start = outerStart + 3
+    let pos = start
+    let close = -1
+
+    // `}}` inside a string literal does not close the expression
+    while (pos < text.length) {
+      if (text[pos] === "'") {
+        pos++
+        while (pos < text.length && !(text[pos] === "'" && text[pos + 1] !== "'")) {
+          pos += text[pos] === "'" ? 2 : 1
+        }
+        pos++
+      } else if (text.startsWith("}}", pos)) {
+        close = pos
+        break
+      } else {
+        pos++
+      }
+    }
+
+    if (close === -1) {
+      expressions.push({
+        source: text.slice(start),
+        start,
+        end: text.length,
+        outerStart,
+        outerEnd: text.length,
+        terminated: false,
+      })
+      break
+    }
+
+    expressions.push({ source: text.slice(start, close), start, end: close, outerStart, outerEnd: close + 2, terminated: true })
+    searchFrom = close + 2
+  }
+
+  return expressions
+}
+
+// Parsing
+
+type TokenKind = "number" | "string" | "identifier" | "punctuation" | "end"
+
+interface Token {
+  kind: TokenKind
+  text: string
+  value?: ExpressionValue
+  start: number
+  end: number
+}
+
+const PUNCTUATION = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "(", ")", "[", "]", ".", ",", "*"]
+
+export function parseExpression(source: string): ExpressionNode {
+  return new ExpressionParser(source).parse()
+}
+
+class ExpressionParser {
+  private tokens: Token[]
+  private index = 0
+
+  constructor(private source: string) {
+    this.tokens = this.tokenize()
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().kind === "end") throw new ExpressionSyntaxError("Empty expression", 0)
+    const node = this.parseOr()
+    const token = this.peek()
+    if (token.kind !== "end") throw new ExpressionSyntaxError(`Unexpected "${token.text}"`, token.start)
+    return node
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = []
+    const src = this.source
+    let pos = 0
+
+    while (pos < src.length) {
+      const ch = src[pos]
+      if (/\s/.test(ch)) {
+        pos++
+        continue
+      }
+
+      const start = pos
+      const previous = tokens[tokens.length - 1]
+      // A sign only starts a number where an operand is expected
+      const signAllowed = !previous || (previous.kind === "punctuation" && ![")", "]", "*"].includes(previous.text))
+      const numberMatch = src
+        .slice(pos)
+        .match(signAllowed ? /^[+-]?(0x[0-9a-fA-F]+|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)/ : /^(0x[0-9a-fA-F]+|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)/)
+
+      if (ch === "'") {
+        let value = ""
+        pos++
+        while (true) {
+          if (pos >= src.length) throw new ExpressionSyntaxError("Unterminated string", start)
+          if (src[pos] === "'") {
+            if (src[pos + 1] === "'") {
+              value += "'"
+              pos += 2
+              continue
+            }
+            pos++
+            break
+          }
+          value += src[pos++]
+        }
+        tokens.push({ kind: "string", text: src.slice(start, pos), value, start, end: pos })
+      } else if (numberMatch && (/\d/.test(ch) || ch === "." || ch === "+" || ch === "-") && numberMatch[0] !== "") {
+        pos += numberMatch[0].length
+        tokens.push({ kind: "number", text: numberMatch[0], value: Number(numberMatch[0]), start, end: pos })
+      } else if (/[A-Za-z_]/.test(ch)) {
+        while (pos < src.length && /[A-Za-z0-9_-]/.test(src[pos])) pos++
+        tokens.push({ kind: "identifier", text: src.slice(start, pos), start, end: pos })
+      } else {
+        const punctuation = PUNCTUATION.find((candidate) => src.startsWith(candidate, pos))
+        if (!punctuation) throw new ExpressionSyntaxError(`Unexpected character "${ch}"`, pos)
+        pos += punctuation.length
+        tokens.push({ kind: "punctuation", text: punctuation, start, end: pos })
+      }
+    }
+
+    tokens.push({ kind: "end", text: "", start: src.length, end: src.length })
+    return tokens
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]
+  }
+
+  private accept(text: string): Token | null {
+    const token = this.peek()
+    if (token.kind === "punctuation" && token.text === text) {
+      this.index++
+      return token
+    }
+    return null
+  }
+
+  private expect(text: string): Token {
+    const token = this.accept(text)
+    if (!token) {
+      const found = this.peek()
+      throw new ExpressionSyntaxError(
+        found.kind === "end" ? `Expected "${text}" before end of expression` : `Expected "${text}" but found "${found.text}"`,
+        found.start,
+      )
+    }
+    return token
+  }
+
+  private parseBinary(operators: BinaryOperator[], operand: () => ExpressionNode): ExpressionNode {
+    let left = operand()
+    while (true) {
+      const token = this.peek()
+      if (token.kind !== "punctuation" || !operators.includes(token.text as BinaryOperator)) return left
+      this.index++
+      const right = operand()
+      left = { type: "binary", operator: token.text as BinaryOperator, left, right, start: left.start, end: right.end }
+    }
+  }
+
+  private parseOr(): ExpressionNode {
+    return this.parseBinary(["||"], () => this.parseAnd())
+  }
+
+  private parseAnd(): ExpressionNode {
+    return this.parseBinary(["&&"], () => this.parseEquality())
+  }
+
+  private parseEquality(): ExpressionNode {
+    return this.parseBinary(["==", "!="], () => this.parseComparison())
+  }
+
+  private parseComparison(): ExpressionNode {
+    return this.parseBinary(["<", "<=", ">", ">="], () => this.parseUnary())
+  }
+
+  private parseUnary(): ExpressionNode {
+    const bang = this.accept("!")
+    if (bang) {
+      const operand = this.parseUnary()
+      return { type: "not", operand, start: bang.start, end: operand.end }
+    }
+    return this.parsePostfix(this.parsePrimary())
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    while (true) {
+      if (this.accept(".")) {
+        const token = this.next()
+        if (token.kind === "identifier" || (token.kind === "punctuation" && token.text === "*")) {
+          node = { type: "property", object: node, name: token.text, start: node.start, end: token.end }
+        } else {
+          throw new ExpressionSyntaxError("Expected a property name after \".\"", token.start)
+        }
+      } else if (this.accept("[")) {
+        // `[*]` is the same object filter as `.*`
+        if (this.accept("*")) {
+          const close = this.expect("]")
+          node = { type: "property", object: node, name: "*", start: node.start, end: close.end }
+        } else {
+          const index = this.parseOr()
+          const close = this.expect("]")
+          node = { type: "index", object: node, index, start: node.start, end: close.end }
+        }
+      } else {
+        return node
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next()
+
+    if (token.kind === "number" || token.kind === "string") {
+      return { type: "literal", value: token.value ?? null, start: token.start, end: token.end }
+    }
+
+    if (token.kind === "identifier") {
+      const keyword = token.text
+      if (keyword === "true" || keyword === "false") {
+        return { type: "literal", value: keyword === "true", start: token.start, end: token.end }
+      }
+      if (keyword === "null") return { type: "literal", value: null, start: token.start, end: token.end }
+      if (keyword === "NaN") return { type: "literal", value: NaN, start: token.start, end: token.end }
+      if (keyword === "Infinity") return { type: "literal", value: Infinity, start: token.start, end: token.end }
+
+      if (this.accept("(")) {
+        const args: ExpressionNode[] = []
+        if (!this.accept(")")) {
+          do {
+            args.push(this.parseOr())
+          } while (this.accept(","))
+          const close = this.expect(")")
+          return { type: "call", name: token.text, args, start: token.start, end: close.end }
+        }
+        return { type: "call", name: token.text, args, start: token.start, end: this.tokens[this.index - 1].end }
+      }
+
+      return { type: "context", name: token.text, start: token.start, end: token.end }
+    }
+
+    if (token.kind === "punctuation" && token.text === "(") {
+      const inner = this.parseOr()
+      const close = this.expect(")")
+      return { ...inner, start: token.start, end: close.end }
+    }
+
+    throw new ExpressionSyntaxError(
+      token.kind === "end" ? "Unexpected end of expression" : `Unexpected "${token.text}"`,
+      token.start,
+    )
+  }
+}
+
+// Evaluation
+
+export const UNKNOWN: unique symbol = Symbol("unknown")
+export type EvaluationResult = ExpressionValue | typeof UNKNOWN
+
+// Known context values, keyed by context name (e.g. { matrix: { os: "ubuntu-latest" } })
+export type ExpressionContexts = Record<string, ExpressionValue>
+
+export function isTruthy(value: ExpressionValue): boolean {
+  if (value === null || value === false || value === "") return false
+  if (typeof value === "number") return value !== 0 && !Number.isNaN(value)
+  return true
+}
+
+function toNumber(value: ExpressionValue): number {
+  if (value === null) return 0
+  if (typeof value === "boolean") return value ? 1 : 0
+  if (typeof value === "number") return value
+  if (typeof value === "string") {
+    const trimmed = value.trim()
+    if (trimmed === "") return 0
+    return /^0x[0-9a-f]+$/i.test(trimmed) ? parseInt(trimmed, 16) : Number(trimmed)
+  }
+  return NaN
+}
+
+export function toExpressionString(value: ExpressionValue): string {
+  if (value === null) return ""
+  if (typeof value === "object") return Array.isArray(value) ? "Array" : "Object"
+  return String(value)
+}
+
+// Loose equality with GitHub's coercion: mismatched types compare as numbers, strings ignore case
+function looseEquals(left: ExpressionValue, right: ExpressionValue): boolean {
+  if (typeof left === "string" && typeof right === "string") return left.toLowerCase() === right.toLowerCase()
+  if (typeof left === "object" && left !== null) return left === right
+  if (typeof right === "object" && right !== null) return false
+  if (typeof left === typeof right) return left === right
+  return toNumber(left) === toNumber(right)
+}
+
+function compare(operator: "<" | "<=" | ">" | ">=", left: ExpressionValue, right: ExpressionValue): boolean {
+  let a: number | string
+  let b: number | string
+  if (typeof left === "string" && typeof right === "string") {
+    a = left.toLowerCase()
+    b = right.toLowerCase()
+  } else {
+    a = toNumber(left)
+    b = toNumber(right)
+    if (Number.isNaN(a) || Number.isNaN(b)) return false
+  }
+  switch (operator) {
+    case "<":
+      return a < b
+    case "<=":
+      return a <= b
+    case ">":
+      return a > b
+    case ">=":
+      return a >= b
+  }
+}
+
+function lookupProperty(value: ExpressionValue, name: string): ExpressionValue {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) return null
+  // Property names are case-insensitive
+  const key = Object.keys(value).find((candidate) => candidate.toLowerCase() === name.toLowerCase())
+  return key !== undefined ? value[key] : null
+}
+
+interface AccessResult {
+  value: EvaluationResult
+  // Set after a `*` filter, so later property accesses map over the elements
+  filtered: boolean
+}
+
+export function evaluateExpression(node: ExpressionNode, contexts: ExpressionContexts = {}): EvaluationResult {
+  return evaluateAccess(node, contexts).value
+}
+
+function evaluateAccess(node: ExpressionNode, contexts: ExpressionContexts): AccessResult {
+  switch (node.type) {
+    case "context": {
+      const key = Object.keys(contexts).find((candidate) => candidate.toLowerCase() === node.name.toLowerCase())
+      return { value: key !== undefined ? contexts[key] : UNKNOWN, filtered: false }
+    }
+    case "property": {
+      const target = evaluateAccess(node.object, contexts)
+      if (target.value === UNKNOWN) return { value: UNKNOWN, filtered: false }
+      const value = target.value
+      if (node.name === "*") {
+        const items = Array.isArray(value) ? value : value && typeof value === "object" ? Object.values(value) : []
+        return { value: target.filtered ? items.flatMap((item) => (Array.isArray(item) ? item : [])) : items, filtered: true }
+      }
+      if (target.filtered && Array.isArray(value)) {
+        return { value: value.map((item) => lookupProperty(item, node.name)), filtered: true }
+      }
+      return { value: lookupProperty(value, node.name), filtered: false }
+    }
+    case "index": {
+      const target = evaluateAccess(node.object, contexts)
+      const index = evaluateExpression(node.index, contexts)
+      if (target.value === UNKNOWN || index === UNKNOWN) return { value: UNKNOWN, filtered: false }
+      if (Array.isArray(target.value)) {
+        const position = toNumber(index)
+        return { value: Number.isInteger(position) ? (target.value[position] ?? null) : null, filtered: false }
+      }
+      return { value: lookupProperty(target.value, toExpressionString(index)), filtered: false }
+    }
+    default:
+      return { value: evaluateValue(node, contexts), filtered: false }
+  }
+}
+
+function evaluateValue(node: ExpressionNode, contexts: ExpressionContexts): EvaluationResult {
+  switch (node.type) {
+    case "literal":
+      return node.value
+    case "not": {
+      const operand = evaluateExpression(node.operand, contexts)
+      return operand === UNKNOWN ? UNKNOWN : !isTruthy(operand)
+    }
+    case "binary": {
+      const left = evaluateExpression(node.left, contexts)
+      if (node.operator === "&&" || node.operator === "||") {
+        if (left === UNKNOWN) return UNKNOWN
+        // Logical operators return one of their operands
+        const shortCircuits = node.operator === "&&" ? !isTruthy(left) : isTruthy(left)
+        return shortCircuits ? left : evaluateExpression(node.right, contexts)
+      }
+      const right = evaluateExpression(node.right, contexts)
+      if (left === UNKNOWN || right === UNKNOWN) return UNKNOWN
+      if (node.operator === "==") return looseEquals(left, right)
+      if (node.operator === "!=") return !looseEquals(left, right)
+      return compare(node.operator, left, right)
+    }
+    case "call":
+      return evaluateCall(node.name.toLowerCase(), node.args, contexts)
+    default:
+      return evaluateAccess(node, contexts).value
+  }
+}
+
+function evaluateCall(name: string, argNodes: ExpressionNode[], contexts: ExpressionContexts): EvaluationResult {
+  if (name === "always") return true
+  // Job status and workspace contents are only known at run time
+  if (STATUS_FUNCTIONS.includes(name) || name === "hashfiles") return UNKNOWN
+
+  const args = argNodes.map((arg) => evaluateExpression(arg, contexts))
+  if (args.some((arg) => arg === UNKNOWN)) return UNKNOWN
+  const values = args as ExpressionValue[]
+
+  switch (name) {
+    case "contains": {
+      const [search, item] = values
+      if (Array.isArray(search)) return search.some((element) => looseEquals(element, item))
+      return toExpressionString(search).toLowerCase().includes(toExpressionString(item).toLowerCase())
+    }
+    case "startswith":
+      return toExpressionString(values[0]).toLowerCase().startsWith(toExpressionString(values[1]).toLowerCase())
+    case "endswith":
+      return toExpressionString(values[0]).toLowerCase().endsWith(toExpressionString(values[1]).toLowerCase())
+    case "format": {
+      const [template, ...replacements] = values
+      return toExpressionString(template).replace(/\{\{|\}\}|\{(\d+)\}/g, (match, index) => {
+        if (match === "{{") return "{"
+        if (match === "}}") return "}"
+        return toExpressionString(replacements[Number(index)] ?? null)
+      })
+    }
+    case "join": {
+      const separator = values.length > 1 ? toExpressionString(values[1]) : ","
+      return Array.isArray(values[0]) ? values[0].map(toExpressionString).join(separator) : toExpressionString(values[0])
+    }
+    case "tojson":
+      return JSON.stringify(values[0], null, 2)
+    case "fromjson":
+      try {
+        return JSON.parse(toExpressionString(values[0]))
+      } catch {
+        return UNKNOWN
+      }
+    default:
+      return UNKNOWN
+  }
+}
+
+// Three-valued truthiness: undefined when the outcome depends on the run
+export function evaluateCondition(node: ExpressionNode, contexts: ExpressionContexts = {}): boolean | undefined {
+  if (node.type === "not") {
+    const operand = evaluateCondition(node.operand, contexts)
+    return operand === undefined ? undefined : !operand
+  }
+  if (node.type === "binary" && (node.operator === "&&" || node.operator === "||")) {
+    const left = evaluateCondition(node.left, contexts)
+    const right = evaluateCondition(node.right, contexts)
+    const decisive = node.operator === "&&" ? false : true
+    if (left === decisive || right === decisive) return decisive
+    return left === undefined || right === undefined ? undefined : !decisive
+  }
+  const value = evaluateExpression(node, contexts)
+  return value === UNKNOWN ? undefined : isTruthy(value)
+}
+
+// Static checks
+
+export type ExpressionDiagnosticKind = "unknown-context" | "unknown-function" | "arity" | "type"
+
+export interface ExpressionDiagnostic {
+  kind: ExpressionDiagnosticKind
+  message: string
+  start: number
+  end: number
+}
+
+export interface ContextReference {
+  // Property chain from the context root, e.g. ["needs", "build", "outputs", "version"]
+  path: string[]
+  start: number
+  end: number
+}
+
+export function walkExpression(node: ExpressionNode, visitor: (node: ExpressionNode) => void): void {
+  visitor(node)
+  switch (node.type) {
+    case "property":
+      walkExpression(node.object, visitor)
+      break
+    case "index":
+      walkExpression(node.object, visitor)
+      walkExpression(node.index, visitor)
+      break
+    case "call":
+      node.args.forEach((arg) => walkExpression(arg, visitor))
+      break
+    case "not":
+      walkExpression(node.operand, visitor)
+      break
+    case "binary":
+      walkExpression(node.left, visitor)
+      walkExpression(node.right, visitor)
+      break
+  }
+}
+
+// Property chain of a context access with literal indexes, e.g. `needs.build.outputs['version']`
+// gives ["needs", "build", "outputs", "version"]; null for anything else
+export function accessPath(node: ExpressionNode): string[] | null {
+  if (node.type === "context") return [node.name]
+  if (node.type === "property") {
+    const base = accessPath(node.object)
+    return base ? [...base, node.name] : null
+  }
+  if (node.type === "index" && node.index.type === "literal") {
+    const { value } = node.index
+    const base = typeof value === "string" || typeof value === "number" ? accessPath(node.object) : null
+    return base ? [...base, String(value)] : null
+  }
+  return null
+}
+
+// Longest statically known access chains in an expression
+export function collectContextReferences(node: ExpressionNode): ContextReference[] {
+  const references: ContextReference[] = []
+
+  const visit = (candidate: ExpressionNode) => {
+    const chain = accessPath(candidate)
+    if (chain) {
+      references.push({ path: chain, start: candidate.start, end: candidate.end })
+      // Index expressions inside the chain may reference other contexts
+      let current: ExpressionNode = candidate
+      while (current.type === "property" || current.type === "index") {
+        if (current.type === "index") visitChildren(current.index)
+        current = current.object
+      }
+      return
+    }
+    visitChildren(candidate)
+  }
+
+  const visitChildren = (candidate: ExpressionNode) => {
+    switch (candidate.type) {
+      case "property":
+        visit(candidate.object)
+        break
+      case "index":
+        visit(candidate.object)
+        visit(candidate.index)
+        break
+      case "call":
+        candidate.args.forEach(visit)
+        break
+      case "not":
+        visit(candidate.operand)
+        break
+      case "binary":
+        visit(candidate.left)
+        visit(candidate.right)
+        break
+      default:
+        if (candidate.type === "context") references.push({ path: [candidate.name], start: candidate.start, end: candidate.end })
+    }
+  }
+
+  visit(node)
+  return references
+}
+
+export function checkExpression(node: ExpressionNode): ExpressionDiagnostic[] {
+  const diagnostics: ExpressionDiagnostic[] = []
+
+  walkExpression(node, (candidate) => {
+    if (candidate.type === "context" && !EXPRESSION_CONTEXTS.includes(candidate.name.toLowerCase())) {
+      diagnostics.push({
+        kind: "unknown-context",
+        message: `Unknown context "${candidate.name}"`,
+        start: candidate.start,
+        end: candidate.end,
+      })
+    } else if (candidate.type === "call") {
+      const signature = EXPRESSION_FUNCTIONS[candidate.name.toLowerCase()]
+      if (!signature) {
+        diagnostics.push({
+          kind: "unknown-function",
+          message: `Unknown function "${candidate.name}"`,
+          start: candidate.start,
+          end: candidate.end,
+        })
+      } else if (candidate.args.length < signature.minArgs || candidate.args.length > signature.maxArgs) {
+        const expected =
+          signature.minArgs === signature.maxArgs
+            ? `${signature.minArgs}`
+            : signature.maxArgs === Infinity
+              ? `at least ${signature.minArgs}`
+              : `${signature.minArgs} to ${signature.maxArgs}`
+        diagnostics.push({
+          kind: "arity",
+          message: `${candidate.name}() expects ${expected} argument(s) but got ${candidate.args.length}`,
+          start: candidate.start,
+          end: candidate.end,
+        })
+      } else if (candidate.name.toLowerCase() === "fromjson") {
+        const [arg] = candidate.args
+        if (arg.type === "literal" && evaluateCall("fromjson", [arg], {}) === UNKNOWN) {
+          diagnostics.push({
+            kind: "type",
+            message: "fromJSON() argument is not valid JSON",
+            start: arg.start,
+            end: arg.end,
+          })
+        }
+      }
+    } else if ((candidate.type === "property" || candidate.type === "index") && candidate.object.type === "literal") {
+      diagnostics.push({
+        kind: "type",
+        message: "Property access on a literal value always evaluates to null",
+        start: candidate.start,
+        end: candidate.end,
+      })
+    }
+  })
+
+  return diagnostics
+}
+
+// True when the expression reads from a context or function rather than being a constant
+export function isDynamicExpression(node: ExpressionNode): boolean {
+  let dynamic = false
+  walkExpression(node, (candidate) => {
+    if (candidate.type === "context" || candidate.type === "call") dynamic = true
+  })
+  return dynamic
+}
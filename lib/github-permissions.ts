@@ -0,0 +1,342 @@
+// Least-privilege GITHUB_TOKEN permission inference: works out which `permissions:` scopes a
+// job needs from the actions it uses and the gh CLI / REST API calls in its scripts.
+
+import type { PipelineJob, PipelineStep } from "./pipeline/model"
+
+export type PermissionLevel = "none" | "read" | "write"
+export type PermissionScope =
+  | "actions"
+  | "attestations"
+  | "checks"
+  | "contents"
+  | "deployments"
+  | "discussions"
+  | "id-token"
+  | "issues"
+  | "packages"
+  | "pages"
+  | "pull-requests"
+  | "repository-projects"
+  | "security-events"
+  | "statuses"
+
+export type PermissionSet = Partial<Record<PermissionScope, PermissionLevel>>
+
+export const PERMISSION_SCOPES: PermissionScope[] = [
+  "actions",
+  "attestations",
+  "checks",
+  "contents",
+  "deployments",
+  "discussions",
+  "id-token",
+  "issues",
+  "packages",
+  "pages",
+  "pull-requests",
+  "repository-projects",
+  "security-events",
+  "statuses",
+]
+
+const LEVEL_ORDER: Record<PermissionLevel, number> = { none: 0, read: 1, write: 2 }
+
+// Token scopes each action needs; actions not listed are assumed to need none
+export const ACTION_PERMISSIONS: Record<string, PermissionSet> = {
+  "actions/checkout": { contents: "read" },
+  "actions/labeler": { contents: "read", "pull-requests": "write" },
+  "actions/stale": { issues: "write", "pull-requests": "write" },
+  "actions/first-interaction": { issues: "write", "pull-requests": "write" },
+  "actions/configure-pages": { pages: "write" },
+  "actions/deploy-pages": { pages: "write", "id-token": "write" },
+  "actions/attest-build-provenance": { "id-token": "write", attestations: "write", contents: "read" },
+  "actions/dependency-review-action": { contents: "read" },
+  "actions/add-to-project": { "repository-projects": "write" },
+  "github/codeql-action/init": { "security-events": "write", actions: "read", contents: "read" },
+  "github/codeql-action/analyze": { "security-events": "write", actions: "read", contents: "read" },
+  "github/codeql-action/upload-sarif": { "security-events": "write" },
+  "peter-evans/create-pull-request": { contents: "write", "pull-requests": "write" },
+  "peter-evans/create-or-update-comment": { issues: "write", "pull-requests": "write" },
+  "peter-evans/enable-pull-request-automerge": { "pull-requests": "write" },
+  "softprops/action-gh-release": { contents: "write" },
+  "ncipollo/release-action": { contents: "write" },
+  "release-drafter/release-drafter": { contents: "write", "pull-requests": "write" },
+  "googleapis/release-please-action": { contents: "write", "pull-requests": "write" },
+  "stefanzweifel/git-auto-commit-action": { contents: "write" },
+  "endbug/add-and-commit": { contents: "write" },
+  "jamesives/github-pages-deploy-action": { contents: "write" },
+  "peaceiris/actions-gh-pages": { contents: "write" },
+  "marocchino/sticky-pull-request-comment": { "pull-requests": "write" },
+  "thollander/actions-comment-pull-request": { "pull-requests": "write" },
+  "amannn/action-semantic-pull-request": { "pull-requests": "read" },
+  "dependabot/fetch-metadata": { "pull-requests": "read" },
+  "sigstore/cosign-installer": {},
+  // OIDC federation: the token requests an identity token for the cloud provider
+  "aws-actions/configure-aws-credentials": { "id-token": "write" },
+  "google-github-actions/auth": { "id-token": "write" },
+  "azure/login": { "id-token": "write" },
+}
+
+// gh CLI subcommands, e.g. `gh pr comment`, and the scope they use
+const GH_CLI_PERMISSIONS: Record<string, Record<string, [PermissionScope, PermissionLevel]>> = {
+  pr: {
+    create: ["pull-requests", "write"],
+    edit: ["pull-requests", "write"],
+    comment: ["pull-requests", "write"],
+    review: ["pull-requests", "write"],
+    close: ["pull-requests", "write"],
+    reopen: ["pull-requests", "write"],
+    ready: ["pull-requests", "write"],
+    merge: ["contents", "write"],
+    view: ["pull-requests", "read"],
+    list: ["pull-requests", "read"],
+    diff: ["pull-requests", "read"],
+    checks: ["checks", "read"],
+    status: ["pull-requests", "read"],
+    checkout: ["contents", "read"],
+  },
+  issue: {
+    create: ["issues", "write"],
+    edit: ["issues", "write"],
+    comment: ["issues", "write"],
+    close: ["issues", "write"],
+    reopen: ["issues", "write"],
+    delete: ["issues", "write"],
+    view: ["issues", "read"],
+    list: ["issues", "read"],
+  },
+  release: {
+    create: ["contents", "write"],
+    upload: ["contents", "write"],
+    edit: ["contents", "write"],
+    delete: ["contents", "write"],
+    view: ["contents", "read"],
+    list: ["contents", "read"],
+    download: ["contents", "read"],
+  },
+  run: {
+    rerun: ["actions", "write"],
+    cancel: ["actions", "write"],
+    view: ["actions", "read"],
+    list: ["actions", "read"],
+    download: ["actions", "read"],
+    watch: ["actions", "read"],
+  },
+  workflow: {
+    run: ["actions", "write"],
+    enable: ["actions", "write"],
+    disable: ["actions", "write"],
+    view: ["actions", "read"],
+    list: ["actions", "read"],
+  },
+  label: {
+    create: ["issues", "write"],
+    edit: ["issues", "write"],
+    delete: ["issues", "write"],
+    list: ["issues", "read"],
+  },
+  cache: {
+    delete: ["actions", "write"],
+    list: ["actions", "read"],
+  },
+}
+
+// REST resource (path segment or Octokit namespace) → scope
+const API_RESOURCE_SCOPES: Record<string, PermissionScope> = {
+  issues: "issues",
+  labels: "issues",
+  milestones: "issues",
+  reactions: "issues",
+  pulls: "pull-requests",
+  releases: "contents",
+  contents: "contents",
+  git: "contents",
+  repos: "contents",
+  commits: "contents",
+  statuses: "statuses",
+  deployments: "deployments",
+  "check-runs": "checks",
+  "check-suites": "checks",
+  checks: "checks",
+  actions: "actions",
+  packages: "packages",
+  pages: "pages",
+  "code-scanning": "security-events",
+  codeScanning: "security-events",
+}
+
+// Octokit `repos.*` methods that use a narrower scope than contents
+const REPOS_METHOD_SCOPES: Array<[RegExp, PermissionScope]> = [
+  [/Status/, "statuses"],
+  [/Deployment/, "deployments"],
+  [/Pages/, "pages"],
+]
+
+const WRITE_METHOD_PATTERN = /^(create|update|delete|add|remove|set|merge|lock|unlock|request|dismiss|submit|rerun|cancel|upload|enable|disable)/
+
+export interface PermissionReason {
+  scope: PermissionScope
+  level: PermissionLevel
+  // What needs the scope, e.g. `actions/checkout` or `gh pr comment`
+  source: string
+  step: PipelineStep
+}
+
+export interface PermissionInference {
+  required: PermissionSet
+  reasons: PermissionReason[]
+  // Steps that use a token other than GITHUB_TOKEN, so their calls are not counted
+  skippedSteps: PipelineStep[]
+}
+
+export function compareLevels(a: PermissionLevel | undefined, b: PermissionLevel | undefined): number {
+  return LEVEL_ORDER[a ?? "none"] - LEVEL_ORDER[b ?? "none"]
+}
+
+function actionName(step: PipelineStep): string {
+  return (step.uses ?? "").split("@")[0].toLowerCase()
+}
+
+// A step authenticates with another token when it passes a secret other than GITHUB_TOKEN
+function usesCustomToken(step: PipelineStep): boolean {
+  const candidates = [
+    step.inputs.token,
+    step.inputs["github-token"],
+    step.inputs["repo-token"],
+    step.raw.env?.GH_TOKEN,
+    step.raw.env?.GITHUB_TOKEN,
+  ]
+  return candidates.some(
+    (value) =>
+      typeof value === "string" &&
+      /\$\{\{\s*secrets\./.test(value) &&
+      !/secrets\.GITHUB_TOKEN\b/i.test(value),
+  )
+}
+
+function scriptReasons(step: PipelineStep, script: string): PermissionReason[] {
+  const reasons: PermissionReason[] = []
+  const add = (scope: PermissionScope, level: PermissionLevel, source: string) => reasons.push({ scope, level, source, step })
+
+  Array.from(script.matchAll(/\bgh\s+([a-z]+)\s+([a-z]+)/g)).forEach((match) => {
+    const permission = GH_CLI_PERMISSIONS[match[1]]?.[match[2]]
+    if (permission) add(permission[0], permission[1], `gh ${match[1]} ${match[2]}`)
+  })
+
+  // `gh api [--method X] repos/{owner}/{repo}/<resource>/...`
+  Array.from(script.matchAll(/\bgh\s+api\b([^\n]*)/g)).forEach((match) => {
+    const args = match[1]
+    const method = (args.match(/(?:-X|--method)\s+([A-Za-z]+)/)?.[1] ?? (/\s-(f|F)\s|--(field|raw-field|input)\b/.test(args) ? "POST" : "GET")).toUpperCase()
+    const resource = args.match(/repos\/[^/\s]+\/[^/\s]+\/([a-z-]+)/)?.[1]
+    const scope = resource ? API_RESOURCE_SCOPES[resource] : undefined
+    if (scope) add(scope, method === "GET" ? "read" : "write", `gh api ${method} .../${resource}`)
+  })
+
+  // actions/github-script: `github.rest.<namespace>.<method>(...)`
+  Array.from(script.matchAll(/\bgithub\.(?:rest\.)?([a-zA-Z]+)\.([a-zA-Z]+)\s*\(/g)).forEach((match) => {
+    const [, namespace, method] = match
+    let scope = API_RESOURCE_SCOPES[namespace]
+    if (namespace === "repos") scope = REPOS_METHOD_SCOPES.find(([pattern]) => pattern.test(method))?.[1] ?? scope
+    if (scope) add(scope, WRITE_METHOD_PATTERN.test(method) ? "write" : "read", `github.rest.${namespace}.${method}`)
+  })
+
+  if (/\bgit\s+push\b/.test(script)) add("contents", "write", "git push")
+  if (/\bdocker\s+push\s+ghcr\.io/.test(script)) add("packages", "write", "docker push ghcr.io")
+
+  return reasons
+}
+
+function stepReasons(step: PipelineStep): PermissionReason[] {
+  const action = actionName(step)
+  const reasons: PermissionReason[] = []
+
+  if (action) {
+    const known = ACTION_PERMISSIONS[action] ?? ACTION_PERMISSIONS[action.split("/").slice(0, 2).join("/")]
+    if (action === "docker/login-action" && String(step.inputs.registry ?? "").includes("ghcr.io")) {
+      reasons.push({ scope: "packages", level: "write", source: action, step })
+    }
+    if (action === "actions/download-artifact" && step.inputs["run-id"] !== undefined) {
+      reasons.push({ scope: "actions", level: "read", source: `${action} from another run`, step })
+    }
+    // Static credentials need no identity token
+    const staticCredentials = action === "aws-actions/configure-aws-credentials" && step.inputs["aws-access-key-id"] !== undefined
+    if (known && !staticCredentials) {
+      Object.entries(known).forEach(([scope, level]) => {
+        reasons.push({ scope: scope as PermissionScope, level: level as PermissionLevel, source: action, step })
+      })
+    }
+    if (action === "actions/github-script" && typeof step.inputs.script === "string") {
+      reasons.push(...scriptReasons(step, step.inputs.script))
+    }
+  }
+
+  step.commands.forEach((command) => reasons.push(...scriptReasons(step, command.text)))
+  return reasons
+}
+
+export function inferJobPermissions(job: PipelineJob): PermissionInference {
+  const required: PermissionSet = {}
+  const reasons: PermissionReason[] = []
+  const skippedSteps: PipelineStep[] = []
+
+  job.steps.forEach((step) => {
+    const found = stepReasons(step)
+    if (found.length === 0) return
+    if (usesCustomToken(step)) {
+      skippedSteps.push(step)
+      return
+    }
+    found.forEach((reason) => {
+      reasons.push(reason)
+      if (compareLevels(reason.level, required[reason.scope]) > 0) required[reason.scope] = reason.level
+    })
+  })
+
+  return { required, reasons, skippedSteps }
+}
+
+// Normalises a `permissions:` value; undefined means the repository default applies
+export function parseDeclaredPermissions(value: unknown): PermissionSet | undefined {
+  if (value === undefined || value === null) return undefined
+  const all = (level: PermissionLevel): PermissionSet =>
+    Object.fromEntries(PERMISSION_SCOPES.map((scope) => [scope, level])) as PermissionSet
+
+  if (value === "read-all") return all("read")
+  if (value === "write-all") return all("write")
+  if (typeof value !== "object" || Array.isArray(value)) return {}
+
+  const declared: PermissionSet = {}
+  Object.entries(value as Record<string, unknown>).forEach(([scope, level]) => {
+    if (PERMISSION_SCOPES.includes(scope as PermissionScope) && (level === "read" || level === "write" || level === "none")) {
+      declared[scope as PermissionScope] = level
+    }
+  })
+  return declared
+}
+
+export interface PermissionDifference {
+  scope: PermissionScope
+  declared: PermissionLevel
+  required: PermissionLevel
+}
+
+export function diffPermissions(declared: PermissionSet, required: PermissionSet): {
+  excess: PermissionDifference[]
+  missing: PermissionDifference[]
+} {
+  const excess: PermissionDifference[] = []
+  const missing: PermissionDifference[] = []
+  PERMISSION_SCOPES.forEach((scope) => {
+    const difference = { scope, declared: declared[scope] ?? "none", required: required[scope] ?? "none" }
+    const comparison = compareLevels(difference.declared, difference.required)
+    if (comparison > 0) excess.push(difference)
+    if (comparison < 0) missing.push(difference)
+  })
+  return { excess, missing }
+}
+
+export function formatPermissionsBlock(permissions: PermissionSet, indent = ""): string {
+  const entries = PERMISSION_SCOPES.filter((scope) => permissions[scope] && permissions[scope] !== "none")
+  if (entries.length === 0) return `${indent}permissions: {}`
+  return [`${indent}permissions:`, ...entries.map((scope) => `${indent}  ${scope}: ${permissions[scope]}`)].join("\n")
+}
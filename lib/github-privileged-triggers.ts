@@ -0,0 +1,161 @@
+// Detection of "pwn request" patterns: workflows triggered with a privileged token and
+// secrets (pull_request_target, workflow_run) that fetch untrusted code or artifacts and
+// then run something on them.
+
+import type { SourceRange } from "./types"
+import type { YamlDocument } from "./yaml-parser"
+import type { Pipeline, PipelineJob, PipelineStep, PipelineTrigger } from "./pipeline/model"
+import { collectContextReferences, extractExpressions, parseExpression } from "./github-expressions"
+
+export interface PrivilegedExecutionChain {
+  kind: "pull-request-checkout" | "workflow-run-artifact"
+  trigger: PipelineTrigger
+  job: PipelineJob
+  // Step that brings untrusted content into the workspace
+  fetchStep: PipelineStep
+  // What was fetched, e.g. "github.event.pull_request.head.sha"
+  fetched: string
+  fetchRange?: SourceRange
+  // Later steps in the same job that build, run or unpack that content
+  executionSteps: PipelineStep[]
+  // A protected environment may require a manual approval before the job runs
+  gatedByEnvironment: boolean
+}
+
+// References that resolve to the pull request head rather than the base branch
+const PULL_REQUEST_HEAD_CONTEXTS = [
+  "github.event.pull_request.head.sha",
+  "github.event.pull_request.head.ref",
+  "github.event.pull_request.head.repo.full_name",
+  "github.event.pull_request.merge_commit_sha",
+  "github.event.pull_request.number",
+  "github.head_ref",
+]
+
+// Shell commands that check out pull request code without actions/checkout
+const SHELL_CHECKOUT_PATTERN = /\bgh\s+pr\s+checkout\b|\bgit\s+fetch\b[^\n]*\bpull\/|\bgit\s+(checkout|switch)\b[^\n]*\$\{\{\s*github\.(head_ref|event\.pull_request\.head)/
+
+// Actions that execute the code in the workspace
+const BUILD_ACTIONS = [
+  "docker/build-push-action",
+  "github/codeql-action/autobuild",
+  "gradle/gradle-build-action",
+  "gradle/actions/setup-gradle",
+  "cypress-io/github-action",
+  "borales/actions-yarn",
+]
+
+const ARTIFACT_DOWNLOAD_ACTIONS = ["actions/download-artifact", "dawidd6/action-download-artifact"]
+const ARTIFACT_DOWNLOAD_PATTERN = /\bgh\s+run\s+download\b|downloadArtifact|listWorkflowRunArtifacts/
+
+// Workflow conditions that keep fork pull requests out
+const SAME_REPOSITORY_GUARD =
+  /head\.repo\.full_name\s*==\s*github\.repository|github\.repository\s*==\s*github\.event\.pull_request\.head\.repo\.full_name|head\.repo\.fork\s*==\s*false|!\s*github\.event\.pull_request\.head\.repo\.fork/
+
+function actionName(step: PipelineStep): string {
+  return (step.uses ?? "").split("@")[0].toLowerCase()
+}
+
+function stepScript(step: PipelineStep): string {
+  if (step.commands.length > 0) return step.commands.map((command) => command.text).join("\n")
+  return actionName(step) === "actions/github-script" && typeof step.inputs.script === "string" ? step.inputs.script : ""
+}
+
+function headReference(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined
+  for (const expression of extractExpressions(value)) {
+    try {
+      const reference = collectContextReferences(parseExpression(expression.source))
+        .map((candidate) => candidate.path.join(".").toLowerCase())
+        .find((path) => PULL_REQUEST_HEAD_CONTEXTS.includes(path))
+      if (reference) return reference
+    } catch {
+      // Invalid expressions are reported by the expression rule
+    }
+  }
+  // `refs/pull/123/head` style refs written out in full
+  return /refs\/pull\//.test(value) ? value : undefined
+}
+
+function executesCode(step: PipelineStep, kind: PrivilegedExecutionChain["kind"]): boolean {
+  const action = actionName(step)
+  if (step.uses?.startsWith("./") || BUILD_ACTIONS.includes(action)) return true
+  const script = stepScript(step)
+  if (script.trim() === "") return false
+  // Downloaded artifacts are only dangerous once they are unpacked or run
+  if (kind === "workflow-run-artifact" && action === "actions/github-script") {
+    return /\bunzip|\bexec(Sync)?\(|require\(|\bchild_process\b/.test(script)
+  }
+  return true
+}
+
+function isGuarded(job: PipelineJob): boolean {
+  return SAME_REPOSITORY_GUARD.test(job.condition ?? "")
+}
+
+export function findPrivilegedExecutionChains(pipeline: Pipeline, document: YamlDocument): PrivilegedExecutionChain[] {
+  const chains: PrivilegedExecutionChain[] = []
+  const pullRequestTarget = pipeline.triggers.find((trigger) => trigger.event === "pull_request_target")
+  const workflowRun = pipeline.triggers.find((trigger) => trigger.event === "workflow_run")
+  if (!pullRequestTarget && !workflowRun) return chains
+
+  pipeline.jobs.forEach((job) => {
+    if (isGuarded(job)) return
+
+    job.steps.forEach((step, index) => {
+      let kind: PrivilegedExecutionChain["kind"] | undefined
+      let fetched: string | undefined
+      let fetchRange: SourceRange | undefined
+      let trigger: PipelineTrigger | undefined
+
+      if (pullRequestTarget) {
+        const input =
+          actionName(step) === "actions/checkout"
+            ? ["ref", "repository"].find((name) => headReference(step.inputs[name]) !== undefined)
+            : undefined
+        const shellCheckout = stepScript(step).match(SHELL_CHECKOUT_PATTERN)
+        if (input || shellCheckout) {
+          kind = "pull-request-checkout"
+          trigger = pullRequestTarget
+          fetched = input ? headReference(step.inputs[input]) : shellCheckout![0].trim()
+          fetchRange = input ? document.getRange([...step.path, "with", input]) : step.range
+        }
+      }
+
+      if (!kind && workflowRun) {
+        const downloadsArtifact =
+          ARTIFACT_DOWNLOAD_ACTIONS.includes(actionName(step)) &&
+          // actions/download-artifact only reaches another run when given a run-id
+          (actionName(step) !== "actions/download-artifact" || step.inputs["run-id"] !== undefined)
+        const shellDownload = stepScript(step).match(ARTIFACT_DOWNLOAD_PATTERN)
+        if (downloadsArtifact || shellDownload) {
+          kind = "workflow-run-artifact"
+          trigger = workflowRun
+          fetched = downloadsArtifact ? `artifacts via ${step.uses}` : `artifacts via ${shellDownload![0]}`
+          fetchRange = step.range
+        }
+      }
+
+      if (!kind || !trigger || !fetched) return
+      const chainKind = kind
+      // A github-script step can download and unpack in one go
+      const executionSteps = job.steps
+        .slice(kind === "workflow-run-artifact" && actionName(step) === "actions/github-script" ? index : index + 1)
+        .filter((candidate) => executesCode(candidate, chainKind))
+      if (executionSteps.length === 0) return
+
+      chains.push({
+        kind,
+        trigger,
+        job,
+        fetchStep: step,
+        fetched,
+        fetchRange,
+        executionSteps,
+        gatedByEnvironment: job.environment !== undefined,
+      })
+    })
+  })
+
+  return chains
+}
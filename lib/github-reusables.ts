@@ -0,0 +1,362 @@
+// Inlines what a GitHub Actions workflow runs from other files: a job that calls a reusable
+// workflow (`uses: ./.github/workflows/deploy.yml`) is followed by the called workflow's
+// jobs, named "caller / job" as GitHub shows them, and a step that uses a local composite
+// action (`uses: ./.github/actions/setup`) is replaced by the action's steps. Inlined nodes
+// keep their file, so findings in them point at the workflow or action that defines them.
+
+import type { IncludeProvider, IncludeRequest, SourceRange } from "./types"
+import {
+  YamlDocument,
+  YamlParser,
+  findPair,
+  nodeKey,
+  resolveAlias,
+  type YamlMap,
+  type YamlNode,
+  type YamlPair,
+  type YamlScalar,
+} from "./yaml-parser"
+import { effectivePairs, mergeNodes } from "./gitlab-includes"
+
+export interface ReusableDiagnostic {
+  kind: "missing" | "invalid" | "cycle" | "limit" | "unknown-input" | "missing-input" | "input-type"
+  // Reusable workflows fail on input mismatches, actions only warn about them
+  callee: "workflow" | "action"
+  message: string
+  range?: SourceRange
+}
+
+export interface ReusableResolution {
+  document: YamlDocument
+  // Workflow and action files that were inlined
+  files: string[]
+  diagnostics: ReusableDiagnostic[]
+}
+
+// Settings of a called workflow that apply to each of its jobs
+interface InheritedSettings {
+  permissions?: YamlPair
+  defaults?: YamlPair
+  env?: YamlPair
+}
+
+interface Callee {
+  document: YamlDocument
+  root: YamlMap
+  label: string
+}
+
+// GitHub's limits on nested reusable workflows and nested composite actions
+const MAX_WORKFLOW_DEPTH = 10
+const MAX_ACTION_DEPTH = 10
+
+// `uses:` values of jobs and steps that name a file in this repository
+export function findLocalUses(document: YamlDocument): YamlScalar[] {
+  const uses: YamlScalar[] = []
+  document.visitScalars((scalar, path) => {
+    const isUses = path[0] === "jobs" && path[path.length - 1] === "uses" && (path.length === 3 || path[2] === "steps")
+    if (isUses && typeof scalar.value === "string" && scalar.value.startsWith("./")) uses.push(scalar)
+  })
+  return uses
+}
+
+export async function resolveGitHubReusables(document: YamlDocument, provider: IncludeProvider): Promise<ReusableResolution> {
+  const root = document.contents ? resolveAlias(document.contents) : null
+  const jobsPair = root?.kind === "map" ? findPair(root, "jobs") : undefined
+  const jobs = jobsPair?.value ? resolveAlias(jobsPair.value) : undefined
+  if (!root || root.kind !== "map" || !jobsPair || jobs?.kind !== "map") return { document, files: [], diagnostics: [] }
+
+  const resolver = new ReusableResolver(provider)
+  const items = await resolver.expandJobs(jobs, "", [], {})
+  const contents: YamlMap = {
+    ...root,
+    items: root.items.map((pair) => (pair === jobsPair ? { ...pair, value: { ...jobs, items } } : pair)),
+  }
+  const resolved = new YamlDocument(document.source, contents, document.file)
+  resolved.include(document)
+  resolver.documents.forEach((callee) => resolved.include(callee))
+  return {
+    document: resolved,
+    files: resolver.documents.map((callee) => callee.file!),
+    diagnostics: resolver.diagnostics,
+  }
+}
+
+class ReusableResolver {
+  // Files whose jobs or steps were inlined
+  readonly documents: YamlDocument[] = []
+  readonly diagnostics: ReusableDiagnostic[] = []
+  private loaded = new Map<string, YamlDocument | null>()
+
+  constructor(private provider: IncludeProvider) {}
+
+  // `stack` holds the workflow files being inlined, outermost first
+  async expandJobs(jobs: YamlMap, prefix: string, stack: string[], inherited: InheritedSettings): Promise<YamlPair[]> {
+    const pairs: YamlPair[] = []
+    for (const pair of effectivePairs(jobs)) {
+      const name = `${prefix}${nodeKey(pair.key)}`
+      const key = prefix ? renamed(pair.key, name) : pair.key
+      const job = pair.value ? resolveAlias(pair.value) : null
+      if (!job || job.kind !== "map") {
+        pairs.push({ ...pair, key })
+        continue
+      }
+
+      const expanded = inheritSettings(await this.expandSteps(job, []), inherited)
+      pairs.push(expanded === job && key === pair.key ? pair : { ...pair, key, value: expanded })
+
+      const uses = scalarAt(job, "uses")
+      const request = uses ? workflowRequest(uses.text) : undefined
+      if (!uses || !request || !this.provider.supports(request.kind)) continue
+      const file = fileName(request)
+      if (stack.includes(file)) {
+        this.report("cycle", "workflow", `Reusable workflow "${file}" calls itself through ${[...stack, file].join(" → ")}`, uses.range)
+        continue
+      }
+      if (stack.length >= MAX_WORKFLOW_DEPTH) {
+        this.report("limit", "workflow", `Reusable workflows are nested more than ${MAX_WORKFLOW_DEPTH} levels deep`, uses.range)
+        continue
+      }
+
+      const callee = await this.load(request, "workflow", uses.range)
+      if (!callee || !this.checkWorkflowCall(job, callee, uses.range)) continue
+      const calleeJobs = mapAt(callee.root, "jobs")
+      if (!calleeJobs) continue
+      this.inlined(callee.document)
+      const settings: InheritedSettings = {
+        // The caller's permissions cap the called jobs when the workflow declares none
+        permissions: findPair(callee.root, "permissions") ?? findPair(job, "permissions"),
+        defaults: findPair(callee.root, "defaults"),
+        env: findPair(callee.root, "env"),
+      }
+      pairs.push(...(await this.expandJobs(calleeJobs, `${name} / `, [...stack, file], settings)))
+    }
+    return pairs
+  }
+
+  // The job with local composite actions replaced by their steps, or the job itself
+  private async expandSteps(job: YamlMap, stack: string[]): Promise<YamlMap> {
+    const stepsPair = findPair(job, "steps")
+    const steps = stepsPair?.value ? resolveAlias(stepsPair.value) : undefined
+    if (!stepsPair || steps?.kind !== "seq") return job
+
+    const items = await this.expandStepList(steps.items, stack)
+    if (!items) return job
+    const value = { ...steps, items }
+    return { ...job, items: job.items.map((pair) => (pair === stepsPair ? { ...pair, value } : pair)) }
+  }
+
+  // Undefined when no step uses a composite action
+  private async expandStepList(steps: YamlNode[], stack: string[]): Promise<YamlNode[] | undefined> {
+    let changed = false
+    const items: YamlNode[] = []
+    for (const item of steps) {
+      const inlined = await this.inlineAction(item, stack)
+      changed = changed || inlined !== undefined
+      items.push(...(inlined ?? [item]))
+    }
+    return changed ? items : undefined
+  }
+
+  // Steps of the composite action a step uses, or undefined to keep the step as written
+  private async inlineAction(item: YamlNode, stack: string[]): Promise<YamlNode[] | undefined> {
+    const step = resolveAlias(item)
+    const uses = step.kind === "map" ? scalarAt(step, "uses") : undefined
+    if (step.kind !== "map" || !uses?.text.startsWith("./") || !this.provider.supports("local")) return undefined
+
+    const directory = normalizePath(uses.text)
+    if (stack.includes(directory)) {
+      this.report("cycle", "action", `Action "${directory}" uses itself through ${[...stack, directory].join(" → ")}`, uses.range)
+      return undefined
+    }
+    if (stack.length >= MAX_ACTION_DEPTH) {
+      this.report("limit", "action", `Composite actions are nested more than ${MAX_ACTION_DEPTH} levels deep`, uses.range)
+      return undefined
+    }
+
+    const callee =
+      (await this.load({ kind: "local", location: `${directory}/action.yml` }, "action", uses.range, true)) ??
+      (await this.load({ kind: "local", location: `${directory}/action.yaml` }, "action", uses.range))
+    if (!callee) return undefined
+    this.checkInputs(mapAt(step, "with"), mapAt(callee.root, "inputs"), "input", "action", callee.label, uses.range)
+
+    const runs = mapAt(callee.root, "runs")
+    const using = runs ? scalarAt(runs, "using") : undefined
+    const stepsNode = runs ? findPair(runs, "steps")?.value : undefined
+    const steps = stepsNode ? resolveAlias(stepsNode) : undefined
+    if (using?.text !== "composite" || steps?.kind !== "seq") return undefined
+    this.inlined(callee.document)
+    return (await this.expandStepList(steps.items, [...stack, directory])) ?? steps.items
+  }
+
+  // `quiet` skips the not-found report, for lookups that have another candidate
+  private async load(request: IncludeRequest, callee: "workflow" | "action", range: SourceRange, quiet = false): Promise<Callee | undefined> {
+    const file = fileName(request)
+    const label = callee === "workflow" ? `Reusable workflow "${file}"` : `Action "${file.replace(/\/action\.ya?ml$/, "")}"`
+    if (!this.loaded.has(file)) this.loaded.set(file, await this.read(request, callee, label, range, quiet))
+    const document = this.loaded.get(file)
+    const root = document?.contents ? resolveAlias(document.contents) : undefined
+    return document && root?.kind === "map" ? { document, root, label } : undefined
+  }
+
+  private async read(
+    request: IncludeRequest,
+    callee: "workflow" | "action",
+    label: string,
+    range: SourceRange,
+    quiet: boolean,
+  ): Promise<YamlDocument | null> {
+    let content: string | undefined
+    try {
+      content = await this.provider.read(request)
+    } catch (error) {
+      this.report("missing", callee, `${label} could not be read: ${error instanceof Error ? error.message : "Unknown error"}`, range)
+      return null
+    }
+    if (content === undefined) {
+      if (!quiet) this.report("missing", callee, `${label} does not exist`, range)
+      return null
+    }
+
+    let document: YamlDocument
+    try {
+      document = YamlParser.parseDocument(content, fileName(request))
+    } catch (error) {
+      this.report("invalid", callee, `${label} is not valid YAML: ${error instanceof Error ? error.message : "Unknown error"}`, range)
+      return null
+    }
+    if (!document.contents || resolveAlias(document.contents).kind !== "map") {
+      this.report("invalid", callee, `${label} must contain a mapping`, range)
+      return null
+    }
+    return document
+  }
+
+  private inlined(document: YamlDocument): void {
+    if (!this.documents.includes(document)) this.documents.push(document)
+  }
+
+  // Compares `with:` and `secrets:` with what the workflow declares under `on.workflow_call`
+  private checkWorkflowCall(job: YamlMap, callee: Callee, range: SourceRange): boolean {
+    const trigger = workflowCallTrigger(callee.root)
+    if (trigger === undefined) {
+      this.report("invalid", "workflow", `${callee.label} has no \`on: workflow_call\` trigger, so it cannot be called`, range)
+      return false
+    }
+    this.checkInputs(mapAt(job, "with"), trigger && mapAt(trigger, "inputs"), "input", "workflow", callee.label, range)
+    const secrets = findPair(job, "secrets")?.value
+    if (!secrets || resolveAlias(secrets).kind === "map") {
+      this.checkInputs(mapAt(job, "secrets"), trigger && mapAt(trigger, "secrets"), "secret", "workflow", callee.label, range)
+    }
+    return true
+  }
+
+  private checkInputs(
+    passed: YamlMap | undefined,
+    declared: YamlMap | null | undefined,
+    what: "input" | "secret",
+    callee: "workflow" | "action",
+    label: string,
+    range: SourceRange,
+  ): void {
+    const declarations = new Map(effectivePairs(declared ?? emptyMap(range)).map((pair) => [nodeKey(pair.key), pair.value]))
+    const given = passed ? effectivePairs(passed) : []
+
+    given.forEach((pair) => {
+      const name = nodeKey(pair.key)
+      if (!declarations.has(name)) {
+        this.report("unknown-input", callee, `${label} does not declare the ${what} "${name}"`, pair.key.range)
+        return
+      }
+      const declaration = declarations.get(name)
+      const type = declaration && resolveAlias(declaration).kind === "map" ? scalarAt(resolveAlias(declaration) as YamlMap, "type") : undefined
+      const value = pair.value ? resolveAlias(pair.value) : undefined
+      // Expressions are only typed at run time
+      if (!type || value?.kind !== "scalar" || value.text.includes("${{")) return
+      const matches = type.text === "boolean" ? typeof value.value === "boolean" : type.text === "number" ? typeof value.value === "number" : true
+      if (!matches) {
+        this.report("input-type", callee, `${label} expects a ${type.text} for the ${what} "${name}", but "${value.text}" is passed`, value.range)
+      }
+    })
+
+    declarations.forEach((declaration, name) => {
+      const settings = declaration ? resolveAlias(declaration) : undefined
+      if (settings?.kind !== "map" || given.some((pair) => nodeKey(pair.key) === name)) return
+      if (scalarAt(settings, "required")?.value === true && !findPair(settings, "default")) {
+        this.report("missing-input", callee, `${label} requires the ${what} "${name}", which is not passed`, range)
+      }
+    })
+  }
+
+  private report(kind: ReusableDiagnostic["kind"], callee: ReusableDiagnostic["callee"], message: string, range?: SourceRange): void {
+    this.diagnostics.push({ kind, callee, message, range })
+  }
+}
+
+// `./path/to/workflow.yml` in this repository or `owner/repo/path/to/workflow.yml@ref`
+function workflowRequest(uses: string): IncludeRequest | undefined {
+  if (uses.startsWith("./")) return { kind: "local", location: normalizePath(uses) }
+  const remote = uses.match(/^([^/@\s]+\/[^/@\s]+)\/([^@\s]+\.ya?ml)@(\S+)$/)
+  return remote ? { kind: "project", project: remote[1], location: remote[2], ref: remote[3] } : undefined
+}
+
+function fileName(request: IncludeRequest): string {
+  return request.kind === "project" ? `${request.project}/${request.location}` : request.location
+}
+
+function normalizePath(path: string): string {
+  return path.trim().replace(/^(\.\/)+/, "").replace(/\/+$/, "")
+}
+
+// Settings of `on.workflow_call`: an empty map when it takes none, undefined when absent
+function workflowCallTrigger(root: YamlMap): YamlMap | null | undefined {
+  const on = findPair(root, "on")?.value
+  const trigger = on ? resolveAlias(on) : undefined
+  if (trigger?.kind === "scalar") return trigger.text === "workflow_call" ? null : undefined
+  if (trigger?.kind === "seq") {
+    return trigger.items.some((item) => nodeKey(resolveAlias(item)) === "workflow_call") ? null : undefined
+  }
+  if (trigger?.kind !== "map") return undefined
+  const pair = findPair(trigger, "workflow_call")
+  if (!pair) return undefined
+  const settings = pair.value ? resolveAlias(pair.value) : null
+  return settings?.kind === "map" ? settings : null
+}
+
+// Workflow-level settings a called job does not override
+function inheritSettings(job: YamlMap, inherited: InheritedSettings): YamlMap {
+  let items = job.items
+  ;(["permissions", "defaults", "env"] as const).forEach((key) => {
+    const setting = inherited[key]
+    if (!setting?.value) return
+    const own = findPair({ ...job, items }, key)
+    if (!own) {
+      items = [...items, setting]
+    } else if (key === "env" && own.value) {
+      // Job variables override workflow variables
+      items = items.map((pair) => (pair === own ? { ...own, value: mergeNodes(setting.value!, own.value!) } : pair))
+    }
+  })
+  return items === job.items ? job : { ...job, items }
+}
+
+function mapAt(map: YamlMap, key: string): YamlMap | undefined {
+  const value = findPair(map, key)?.value
+  const resolved = value ? resolveAlias(value) : undefined
+  return resolved?.kind === "map" ? resolved : undefined
+}
+
+function scalarAt(map: YamlMap, key: string): YamlScalar | undefined {
+  const value = findPair(map, key)?.value
+  const resolved = value ? resolveAlias(value) : undefined
+  return resolved?.kind === "scalar" ? resolved : undefined
+}
+
+function emptyMap(range: SourceRange): YamlMap {
+  return { kind: "map", items: [], flow: true, range }
+}
+
+// Key of an inlined job, named after its caller but positioned at its own definition
+function renamed(key: YamlNode, name: string): YamlScalar {
+  return { kind: "scalar", value: name, text: name, style: "plain", segments: [], range: key.range }
+}
@@ -0,0 +1,335 @@
+// Taint analysis for GitHub Actions script injection: follows attacker-controlled event
+// fields through env, step outputs and job outputs into `run:` and github-script sources.
+// Callers can mark further contexts as untrusted, such as the `inputs` of a composite action.
+
+import type { SourceRange } from "./types"
+import type { YamlDocument, YamlPath, YamlScalar } from "./yaml-parser"
+import type { Pipeline, PipelineJob, PipelineStep } from "./pipeline/model"
+import { accessPath, extractExpressions, parseExpression, type ExpressionNode } from "./github-expressions"
+
+// Event fields anyone who opens an issue or PR, comments, or pushes a branch can set.
+// `*` matches a single path segment such as an array index.
+export const UNTRUSTED_CONTEXT_PATHS = [
+  "github.head_ref",
+  "github.event.issue.title",
+  "github.event.issue.body",
+  "github.event.pull_request.title",
+  "github.event.pull_request.body",
+  "github.event.pull_request.head.ref",
+  "github.event.pull_request.head.label",
+  "github.event.pull_request.head.repo.default_branch",
+  "github.event.comment.body",
+  "github.event.review.body",
+  "github.event.review_comment.body",
+  "github.event.discussion.title",
+  "github.event.discussion.body",
+  "github.event.pages.*.page_name",
+  "github.event.commits.*.message",
+  "github.event.commits.*.author.email",
+  "github.event.commits.*.author.name",
+  "github.event.head_commit.message",
+  "github.event.head_commit.author.email",
+  "github.event.head_commit.author.name",
+  "github.event.workflow_run.head_branch",
+  "github.event.workflow_run.head_commit.message",
+  "github.event.workflow_run.head_commit.author.email",
+  "github.event.workflow_run.head_commit.author.name",
+  "github.event.workflow_run.pull_requests.*.head.ref",
+]
+
+export interface TaintHop {
+  message: string
+  range?: SourceRange
+}
+
+export interface TaintTrace {
+  source: string
+  // Names the value passed through, e.g. ["github.event.issue.title", "env.TITLE"]
+  chain: string[]
+  hops: TaintHop[]
+}
+
+export interface TaintFlow extends TaintTrace {
+  sink: "run" | "github-script"
+  job: PipelineJob
+  step: PipelineStep
+  // The `${{ ... }}` text interpolated into the script
+  expression: string
+  range: SourceRange
+}
+
+export interface InjectionOptions {
+  // Further contexts whose every field is untrusted, e.g. ["inputs"]
+  untrustedContexts?: string[]
+}
+
+interface TaintScope {
+  untrusted: string[]
+  env: Map<string, TaintTrace>
+  steps: Map<string, Map<string, TaintTrace>>
+  needs: Map<string, Map<string, TaintTrace>>
+}
+
+interface TaintedValue {
+  trace: TaintTrace
+  range: SourceRange
+  expression: string
+  start: number
+  end: number
+}
+
+// `echo "name=value" >> $GITHUB_OUTPUT` and the deprecated `::set-output` / `::set-env` commands
+const FILE_COMMAND_PATTERN =
+  /(?:echo|printf)\s+(?:-\w+\s+)*["']?([A-Za-z_][\w-]*)=(.*?)["']?\s*>>\s*["']?\$\{?(GITHUB_OUTPUT|GITHUB_ENV)\}?["']?/
+const WORKFLOW_COMMAND_PATTERN = /::(set-output|set-env)\s+name=([\w-]+)::(.*)$/
+
+export function isUntrustedContext(path: string[]): boolean {
+  const segments = path.map((segment) => segment.toLowerCase())
+  return UNTRUSTED_CONTEXT_PATHS.some((candidate) => {
+    const pattern = candidate.split(".")
+    // Whole objects that contain an untrusted field, e.g. toJSON(github.event.pull_request)
+    if (segments.length < pattern.length && segments.length < 2) return false
+    return segments.every((segment, index) => index < pattern.length && (pattern[index] === "*" || pattern[index] === segment))
+  })
+}
+
+export function findInjectionFlows(pipeline: Pipeline, document: YamlDocument, options: InjectionOptions = {}): TaintFlow[] {
+  const flows: TaintFlow[] = []
+  const untrusted = (options.untrustedContexts ?? []).map((context) => context.toLowerCase())
+  const jobOutputs = new Map<string, Map<string, TaintTrace>>()
+  const workflowEnv = collectEnv(document, ["env"], emptyScope(untrusted))
+
+  orderByDependencies(pipeline.jobs).forEach((job) => {
+    const scope: TaintScope = {
+      untrusted,
+      env: new Map(workflowEnv),
+      steps: new Map(),
+      needs: new Map(job.dependencies.map((dependency) => [dependency, jobOutputs.get(dependency) ?? new Map()])),
+    }
+    collectEnv(document, [...job.path, "env"], scope).forEach((trace, name) => scope.env.set(name, trace))
+
+    job.steps.forEach((step) => {
+      const stepScope: TaintScope = { ...scope, env: new Map(scope.env) }
+      collectEnv(document, [...step.path, "env"], stepScope).forEach((trace, name) => stepScope.env.set(name, trace))
+
+      const run = document.getNode([...step.path, "run"])
+      if (run?.kind === "scalar" && typeof run.value === "string") {
+        flows.push(...sinkFlows(document, run, stepScope, "run", job, step))
+        propagateFileCommands(document, run, stepScope, step, scope)
+      }
+
+      const script = document.getNode([...step.path, "with", "script"])
+      if (isGitHubScript(step) && script?.kind === "scalar" && typeof script.value === "string") {
+        flows.push(...sinkFlows(document, script, stepScope, "github-script", job, step))
+      }
+    })
+
+    const outputs = new Map<string, TaintTrace>()
+    const outputsNode = document.getNode([...job.path, "outputs"])
+    if (outputsNode?.kind === "map") {
+      outputsNode.items.forEach((pair) => {
+        const name = pair.key.kind === "scalar" ? String(pair.key.value) : undefined
+        const value = pair.value
+        if (!name || value?.kind !== "scalar" || typeof value.value !== "string") return
+        const [tainted] = taintedValues(document, value, scope)
+        if (!tainted) return
+        const range = document.getKeyRange([...job.path, "outputs", name])
+        outputs.set(
+          name.toLowerCase(),
+          extend(tainted.trace, `needs.${job.id}.outputs.${name}`, `Exposed as output "${name}" of job "${job.id}"`, range),
+        )
+      })
+    }
+    jobOutputs.set(job.id, outputs)
+  })
+
+  return flows
+}
+
+function emptyScope(untrusted: string[]): TaintScope {
+  return { untrusted, env: new Map(), steps: new Map(), needs: new Map() }
+}
+
+function isGitHubScript(step: PipelineStep): boolean {
+  return (step.uses ?? "").split("@")[0].toLowerCase() === "actions/github-script"
+}
+
+// Dependencies first, so `needs.*.outputs` are known when a job is analyzed
+function orderByDependencies(jobs: PipelineJob[]): PipelineJob[] {
+  const byId = new Map(jobs.map((job) => [job.id, job]))
+  const ordered: PipelineJob[] = []
+  const visited = new Set<string>()
+
+  const visit = (job: PipelineJob) => {
+    if (visited.has(job.id)) return
+    visited.add(job.id)
+    job.dependencies.forEach((dependency) => {
+      const needed = byId.get(dependency)
+      if (needed) visit(needed)
+    })
+    ordered.push(job)
+  }
+
+  jobs.forEach(visit)
+  return ordered
+}
+
+function extend(trace: TaintTrace, name: string, message: string, range?: SourceRange): TaintTrace {
+  return { source: trace.source, chain: [...trace.chain, name], hops: [...trace.hops, { message, range }] }
+}
+
+function collectEnv(document: YamlDocument, path: YamlPath, scope: TaintScope): Map<string, TaintTrace> {
+  const env = new Map<string, TaintTrace>()
+  const node = document.getNode(path)
+  if (node?.kind !== "map") return env
+
+  node.items.forEach((pair) => {
+    const name = pair.key.kind === "scalar" ? String(pair.key.value) : undefined
+    const value = pair.value
+    if (!name || value?.kind !== "scalar" || typeof value.value !== "string") return
+    const [tainted] = taintedValues(document, value, scope)
+    if (tainted) {
+      env.set(name, extend(tainted.trace, `env.${name}`, `Assigned to env.${name}`, document.getKeyRange([...path, name])))
+    }
+  })
+  return env
+}
+
+// The tainted part of an expression; predicates such as contains() or == only yield booleans
+function taintedReference(
+  node: ExpressionNode,
+  scope: TaintScope,
+): { node: ExpressionNode; path: string[]; trace: TaintTrace | null } | null {
+  const path = accessPath(node)
+  if (path) {
+    const [context, name, section, output] = path
+    const root = context.toLowerCase()
+    if (isUntrustedContext(path) || scope.untrusted.includes(root)) return { node, path, trace: null }
+    let trace: TaintTrace | undefined
+    if (root === "env" && name) {
+      trace = scope.env.get(name)
+    } else if ((root === "steps" || root === "needs") && section?.toLowerCase() === "outputs" && output) {
+      trace = (root === "steps" ? scope.steps : scope.needs).get(name)?.get(output.toLowerCase())
+    }
+    return trace ? { node, path, trace } : null
+  }
+
+  switch (node.type) {
+    case "call":
+      if (!["format", "join", "tojson", "fromjson"].includes(node.name.toLowerCase())) return null
+      return node.args.reduce<ReturnType<typeof taintedReference>>((found, arg) => found ?? taintedReference(arg, scope), null)
+    case "binary":
+      // `a || b` and `a && b` evaluate to one of their operands
+      if (node.operator !== "&&" && node.operator !== "||") return null
+      return taintedReference(node.left, scope) ?? taintedReference(node.right, scope)
+    default:
+      return null
+  }
+}
+
+function taintedValues(document: YamlDocument, scalar: YamlScalar, scope: TaintScope): TaintedValue[] {
+  const values: TaintedValue[] = []
+
+  extractExpressions(scalar.text).forEach((expression) => {
+    if (!expression.terminated) return
+    let node: ExpressionNode
+    try {
+      node = parseExpression(expression.source)
+    } catch {
+      return
+    }
+
+    const reference = taintedReference(node, scope)
+    if (!reference) return
+    const range = document.scalarRange(
+      scalar,
+      expression.start + reference.node.start,
+      expression.start + reference.node.end,
+    )
+    const name = reference.path.join(".")
+    values.push({
+      trace: reference.trace ?? { source: name, chain: [name], hops: [{ message: `Untrusted input ${name}`, range }] },
+      range,
+      expression: scalar.text.slice(expression.outerStart, expression.outerEnd),
+      start: expression.outerStart,
+      end: expression.outerEnd,
+    })
+  })
+
+  return values
+}
+
+function sinkFlows(
+  document: YamlDocument,
+  scalar: YamlScalar,
+  scope: TaintScope,
+  sink: TaintFlow["sink"],
+  job: PipelineJob,
+  step: PipelineStep,
+): TaintFlow[] {
+  return taintedValues(document, scalar, scope).map((value) => {
+    const range = document.scalarRange(scalar, value.start, value.end)
+    return {
+      ...extend(
+        value.trace,
+        value.expression,
+        sink === "run" ? "Interpolated into the run: script" : "Interpolated into the github-script source",
+        range,
+      ),
+      sink,
+      job,
+      step,
+      expression: value.expression,
+      range,
+    }
+  })
+}
+
+// Values a script writes to $GITHUB_OUTPUT or $GITHUB_ENV carry taint to later steps
+function propagateFileCommands(
+  document: YamlDocument,
+  scalar: YamlScalar,
+  stepScope: TaintScope,
+  step: PipelineStep,
+  jobScope: TaintScope,
+): void {
+  const expressions = taintedValues(document, scalar, stepScope)
+  const stepId = typeof step.raw.id === "string" ? step.raw.id : undefined
+  let lineStart = 0
+
+  scalar.text.split("\n").forEach((line) => {
+    const lineEnd = lineStart + line.length
+    const fileCommand = line.match(FILE_COMMAND_PATTERN)
+    const workflowCommand = line.match(WORKFLOW_COMMAND_PATTERN)
+    const target = fileCommand
+      ? { name: fileCommand[1], value: fileCommand[2], kind: fileCommand[3] === "GITHUB_ENV" ? "env" : "output" }
+      : workflowCommand
+        ? { name: workflowCommand[2], value: workflowCommand[3], kind: workflowCommand[1] === "set-env" ? "env" : "output" }
+        : null
+
+    if (target) {
+      const valueStart = lineStart + line.indexOf(target.value)
+      const valueEnd = valueStart + target.value.length
+      const fromExpression = expressions.find((value) => value.start >= valueStart && value.start < valueEnd)?.trace
+      // Shell variables read from a tainted env entry, e.g. `echo "title=$TITLE" >> $GITHUB_OUTPUT`
+      const fromVariable = Array.from(target.value.matchAll(/\$\{?([A-Za-z_][A-Za-z0-9_]*)\}?/g))
+        .map((match) => stepScope.env.get(match[1]))
+        .find((trace) => trace !== undefined)
+      const trace = fromExpression ?? fromVariable
+      const range = document.scalarRange(scalar, lineStart + line.length - line.trimStart().length, lineEnd)
+
+      if (trace && target.kind === "env") {
+        jobScope.env.set(target.name, extend(trace, `env.${target.name}`, `Written to env.${target.name} through GITHUB_ENV`, range))
+      } else if (trace && stepId) {
+        const outputs = jobScope.steps.get(stepId) ?? new Map<string, TaintTrace>()
+        outputs.set(
+          target.name.toLowerCase(),
+          extend(trace, `steps.${stepId}.outputs.${target.name}`, `Written to steps.${stepId}.outputs.${target.name}`, range),
+        )
+        jobScope.steps.set(stepId, outputs)
+      }
+    }
+
+    lineStart = lineEnd + 1
+  })
+}
@@ -0,0 +1,188 @@
+// Expands GitLab CI job templates: `!reference [.setup, script]` tags are replaced by the
+// section they point to, then `extends:` is resolved by deep-merging each parent under the
+// job, the way GitLab builds the final configuration. Merged nodes keep their source
+// ranges, so findings in inherited sections point at the template that defines them.
+
+import type { SourceRange } from "./types"
+import { YamlDocument, findPair, nodeKey, resolveAlias, type YamlMap, type YamlNode, type YamlSeq } from "./yaml-parser"
+import { effectivePairs, mergeNodes } from "./gitlab-includes"
+
+export interface TemplateDiagnostic {
+  kind: "cycle" | "undefined" | "limit" | "invalid"
+  message: string
+  range?: SourceRange
+}
+
+export interface TemplateExpansion {
+  document: YamlDocument
+  diagnostics: TemplateDiagnostic[]
+}
+
+// GitLab's limits on `extends` inheritance levels and nested `!reference` tags
+const MAX_EXTENDS_DEPTH = 11
+const MAX_REFERENCE_DEPTH = 10
+
+export function expandGitLabTemplates(document: YamlDocument): TemplateExpansion {
+  const root = document.contents ? resolveAlias(document.contents) : null
+  if (!root || root.kind !== "map") return { document, diagnostics: [] }
+
+  const expander = new TemplateExpander(root)
+  const expanded = new YamlDocument(document.source, expander.expand(), document.file)
+  expanded.include(document)
+  return { document: expanded, diagnostics: expander.diagnostics }
+}
+
+class TemplateExpander {
+  readonly diagnostics: TemplateDiagnostic[] = []
+  private sections = new Map<string, YamlNode | null>()
+  private dereferenced = new Map<YamlNode, YamlNode>()
+  private jobs = new Map<string, YamlNode>()
+  private extended = new Map<string, YamlNode>()
+  // Jobs whose parents are being expanded, outermost first
+  private expanding: string[] = []
+
+  constructor(private root: YamlMap) {
+    effectivePairs(root).forEach((pair) => this.sections.set(nodeKey(pair.key), pair.value))
+  }
+
+  // References are resolved against the configuration as written, before `extends`
+  expand(): YamlMap {
+    const pairs = effectivePairs(this.root).map((pair) => ({
+      ...pair,
+      value: pair.value ? this.resolveReferences(pair.value, []) : null,
+    }))
+    pairs.forEach((pair) => {
+      if (pair.value) this.jobs.set(nodeKey(pair.key), pair.value)
+    })
+    return {
+      ...this.root,
+      items: pairs.map((pair) => (pair.value ? { ...pair, value: this.extend(nodeKey(pair.key)) } : pair)),
+    }
+  }
+
+  // Unchanged subtrees are returned as is, so aliases and anchors keep their identity
+  private resolveReferences(node: YamlNode, trail: string[]): YamlNode {
+    const resolved = resolveAlias(node)
+    if (resolved.kind === "seq" && isReference(resolved)) return this.dereference(resolved, trail)
+
+    if (resolved.kind === "map") {
+      let changed = false
+      const items = resolved.items.map((pair) => {
+        const value = pair.value ? this.resolveReferences(pair.value, trail) : null
+        changed = changed || value !== pair.value
+        return value === pair.value ? pair : { ...pair, value }
+      })
+      return changed ? { ...resolved, items } : node
+    }
+
+    if (resolved.kind === "seq") {
+      let changed = false
+      // A referenced list inside a list is flattened into it, as GitLab does for `script:`
+      const items = resolved.items.flatMap((item) => {
+        const value = this.resolveReferences(item, trail)
+        if (value === item) return [item]
+        changed = true
+        const target = resolveAlias(value)
+        return isReference(resolveAlias(item)) && target.kind === "seq" ? target.items : [value]
+      })
+      return changed ? { ...resolved, items } : node
+    }
+    return node
+  }
+
+  private dereference(tag: YamlSeq, trail: string[]): YamlNode {
+    const cached = this.dereferenced.get(tag)
+    if (cached) return cached
+    const report = (kind: TemplateDiagnostic["kind"], message: string) => {
+      this.diagnostics.push({ kind, message, range: tag.range })
+      // The tag's own key list would otherwise be read as content, such as script commands
+      return { kind: "seq" as const, items: [], flow: true, range: tag.range }
+    }
+
+    const keys = tag.items.map((item) => resolveAlias(item)).map((item) => (item.kind === "scalar" ? item.text : undefined))
+    if (keys.length === 0 || keys.some((key) => key === undefined || key === "")) {
+      return report("invalid", "!reference must list a top-level key followed by the nested keys of the section to reuse")
+    }
+    const label = `!reference [${keys.join(", ")}]`
+    if (trail.includes(label)) return report("cycle", `${label} refers back to itself through ${[...trail, label].join(" → ")}`)
+    if (trail.length >= MAX_REFERENCE_DEPTH) return report("limit", `${label} is nested more than ${MAX_REFERENCE_DEPTH} references deep`)
+
+    let target = this.sections.get(keys[0]!)
+    for (const key of keys.slice(1)) {
+      const parent = target ? resolveAlias(target) : undefined
+      target = parent?.kind === "map" ? findPair(parent, key!)?.value : undefined
+    }
+    if (!target) return report("undefined", `${label} points to a section that is not defined`)
+
+    const value = this.resolveReferences(target, [...trail, label])
+    this.dereferenced.set(tag, value)
+    return value
+  }
+
+  private extend(name: string): YamlNode {
+    const cached = this.extended.get(name)
+    if (cached) return cached
+    const job = this.jobs.get(name)!
+    const map = resolveAlias(job)
+    const parents = map.kind === "map" ? findPair(map, "extends")?.value : undefined
+    if (map.kind !== "map" || !parents) {
+      this.extended.set(name, job)
+      return job
+    }
+
+    this.expanding.push(name)
+    let merged: YamlNode | null = null
+    let resolved = true
+    for (const { parent, range } of parentNames(parents)) {
+      const problem = this.checkParent(name, parent)
+      if (problem) {
+        this.diagnostics.push({ ...problem, range })
+        resolved = false
+        continue
+      }
+      // Later parents override earlier ones
+      const expanded = this.extend(parent!)
+      merged = merged ? mergeNodes(merged, expanded) : expanded
+    }
+    this.expanding.pop()
+
+    // A job whose parents did not all resolve keeps `extends:`, so it reads as incomplete
+    const combined = merged ? mergeNodes(merged, map) : map
+    const result = resolved ? withoutKey(combined, "extends") : combined
+    this.extended.set(name, result)
+    return result
+  }
+
+  private checkParent(name: string, parent: string | undefined): Omit<TemplateDiagnostic, "range"> | undefined {
+    if (parent === undefined) return { kind: "invalid", message: `Job "${name}" must extend a template name or a list of names` }
+    if (this.expanding.includes(parent)) {
+      const cycle = [...this.expanding.slice(this.expanding.indexOf(parent)), parent]
+      return { kind: "cycle", message: `Job "${name}" extends "${parent}", which inherits from it: ${cycle.join(" → ")}` }
+    }
+    const template = this.jobs.get(parent)
+    if (!template || resolveAlias(template).kind !== "map") {
+      return { kind: "undefined", message: `Job "${name}" extends "${parent}", which is not defined` }
+    }
+    if (this.expanding.length >= MAX_EXTENDS_DEPTH) {
+      return { kind: "limit", message: `Job "${name}" is more than ${MAX_EXTENDS_DEPTH} levels of extends deep` }
+    }
+    return undefined
+  }
+}
+
+// `extends:` takes one template name or a list of them
+function parentNames(node: YamlNode): Array<{ parent?: string; range: SourceRange }> {
+  const value = resolveAlias(node)
+  const items = value.kind === "seq" ? value.items.map((item) => resolveAlias(item)) : [value]
+  return items.map((item) => ({ parent: item.kind === "scalar" && item.text !== "" ? item.text : undefined, range: item.range }))
+}
+
+function isReference(node: YamlNode): boolean {
+  return node.kind === "seq" && node.tag === "!reference"
+}
+
+function withoutKey(node: YamlNode, key: string): YamlNode {
+  const map = resolveAlias(node)
+  if (map.kind !== "map") return node
+  return { ...map, items: effectivePairs(map).filter((pair) => nodeKey(pair.key) !== key) }
+}
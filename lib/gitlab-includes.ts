@@ -0,0 +1,325 @@
+// Resolves GitLab CI `include:` entries through a pluggable provider and merges the included
+// configuration the way GitLab does: mappings are deep-merged, sequences and scalars are
+// replaced, and a file always wins over the files it includes. Nodes keep the file they
+// were read from, so findings inside included files point back at them.
+
+import type { IncludeKind, IncludeProvider, IncludeRequest, SourceRange } from "./types"
+import {
+  YamlDocument,
+  YamlParser,
+  isMergeKey,
+  mergeSources,
+  nodeKey,
+  nodeToJS,
+  resolveAlias,
+  type YamlMap,
+  type YamlNode,
+  type YamlPair,
+} from "./yaml-parser"
+import { readArchive } from "./archive"
+
+export interface IncludeDiagnostic {
+  // `unresolved` covers includes the provider cannot fetch, such as remote files offline
+  kind: "missing" | "invalid" | "limit" | "unresolved"
+  message: string
+  request?: IncludeRequest
+  range?: SourceRange
+}
+
+export interface IncludeResolution {
+  document: YamlDocument
+  // Included files in the order they were merged
+  files: string[]
+  diagnostics: IncludeDiagnostic[]
+}
+
+interface IncludeEntry {
+  request: IncludeRequest
+  range: SourceRange
+}
+
+// Nested local includes inside a project include refer to files of that project
+interface IncludeContext {
+  project?: string
+  ref?: string
+}
+
+// GitLab's limits on included files per pipeline and on nesting depth
+const MAX_INCLUDES = 150
+const MAX_DEPTH = 100
+
+export async function resolveGitLabIncludes(document: YamlDocument, provider: IncludeProvider): Promise<IncludeResolution> {
+  const resolver = new IncludeResolver(provider)
+  const contents = await resolver.expand(document, {}, 0)
+  const merged = new YamlDocument(document.source, contents, document.file)
+  resolver.documents.forEach((included) => merged.include(included))
+  return {
+    document: merged,
+    files: resolver.documents.map((included) => included.file!),
+    diagnostics: resolver.diagnostics,
+  }
+}
+
+class IncludeResolver {
+  readonly documents: YamlDocument[] = []
+  readonly diagnostics: IncludeDiagnostic[] = []
+  private seen = new Set<string>()
+
+  constructor(private provider: IncludeProvider) {}
+
+  // Contents of `document` with its includes merged underneath, in include order.
+  // `rules:` on an include are not evaluated; every include is merged.
+  async expand(document: YamlDocument, context: IncludeContext, depth: number): Promise<YamlNode | null> {
+    let merged: YamlNode | null = null
+    for (const entry of includeEntries(document, context)) {
+      for (const included of await this.load(entry, depth)) {
+        const nested = entry.request.kind === "project" ? { project: entry.request.project, ref: entry.request.ref } : {}
+        const contents = await this.expand(included, nested, depth + 1)
+        if (contents) merged = merged ? mergeNodes(merged, contents) : contents
+      }
+    }
+    if (!document.contents) return merged
+    return merged ? mergeNodes(merged, document.contents) : document.contents
+  }
+
+  private async load({ request, range }: IncludeEntry, depth: number): Promise<YamlDocument[]> {
+    const report = (kind: IncludeDiagnostic["kind"], message: string) => this.diagnostics.push({ kind, message, request, range })
+
+    if (depth >= MAX_DEPTH) {
+      report("limit", `Includes are nested more than ${MAX_DEPTH} levels deep`)
+      return []
+    }
+    if (request.location.includes("$")) {
+      report("unresolved", `${describeInclude(request)} uses CI/CD variables and cannot be resolved statically`)
+      return []
+    }
+    if (!this.provider.supports(request.kind)) {
+      report("unresolved", `${describeInclude(request)} was not fetched because no provider handles ${request.kind} includes`)
+      return []
+    }
+
+    const documents: YamlDocument[] = []
+    for (const location of await this.expandWildcard(request)) {
+      const file = { ...request, location }
+      const key = JSON.stringify([file.kind, file.project ?? "", file.ref ?? "", location])
+      // The same file included twice is merged once
+      if (this.seen.has(key)) continue
+      this.seen.add(key)
+      if (this.documents.length >= MAX_INCLUDES) {
+        report("limit", `More than ${MAX_INCLUDES} files are included; the rest were not merged`)
+        break
+      }
+
+      let content: string | undefined
+      try {
+        content = await this.provider.read(file)
+      } catch (error) {
+        report("missing", `${describeInclude(file)} could not be read: ${error instanceof Error ? error.message : "Unknown error"}`)
+        continue
+      }
+      if (content === undefined) {
+        report("missing", `${describeInclude(file)} does not exist`)
+        continue
+      }
+
+      let document: YamlDocument
+      try {
+        document = YamlParser.parseDocument(content, includeFile(file))
+      } catch (error) {
+        report("invalid", `${describeInclude(file)} is not valid YAML: ${error instanceof Error ? error.message : "Unknown error"}`)
+        continue
+      }
+      if (document.contents && resolveAlias(document.contents).kind !== "map") {
+        report("invalid", `${describeInclude(file)} must contain a mapping of keywords and jobs`)
+        continue
+      }
+      this.documents.push(document)
+      documents.push(document)
+    }
+    return documents
+  }
+
+  // `configs/*.yml` matches files in one directory, `configs/**.yml` in every subdirectory
+  private async expandWildcard(request: IncludeRequest): Promise<string[]> {
+    if (!request.location.includes("*") || (request.kind !== "local" && request.kind !== "project")) return [request.location]
+    const pattern = new RegExp(
+      `^${request.location
+        .split(/(\*\*|\*)/)
+        .map((part) => (part === "**" ? ".*" : part === "*" ? "[^/]*" : part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")))
+        .join("")}$`,
+    )
+    const paths = this.provider.list ? await this.provider.list(request) : []
+    return paths.map(normalizePath).filter((path) => pattern.test(path)).sort()
+  }
+}
+
+// `include:` accepts a string, a mapping, or a sequence of either
+function includeEntries(document: YamlDocument, context: IncludeContext): IncludeEntry[] {
+  const node = document.getNode(["include"])
+  if (!node) return []
+  const resolved = resolveAlias(node)
+  const items = resolved.kind === "seq" ? resolved.items.map((item) => resolveAlias(item)) : [resolved]
+
+  return items.flatMap((item): IncludeEntry[] => {
+    const value = nodeToJS(item)
+    const range = item.range
+    if (typeof value === "string") {
+      if (value.trim() === "") return []
+      return [{ request: /^https?:\/\//.test(value) ? { kind: "remote", location: value } : localRequest(value, context), range }]
+    }
+    if (!value || typeof value !== "object" || Array.isArray(value)) return []
+
+    if (typeof value.local === "string") return [{ request: localRequest(value.local, context), range }]
+    if (typeof value.project === "string") {
+      const files = Array.isArray(value.file) ? value.file : [value.file]
+      return files
+        .filter((file: unknown): file is string => typeof file === "string")
+        .map((file: string) => ({
+          request: { kind: "project", location: normalizePath(file), project: value.project, ref: value.ref !== undefined ? String(value.ref) : undefined },
+          range,
+        }))
+    }
+    const kind = (["remote", "template", "component"] as IncludeKind[]).find((candidate) => typeof value[candidate] === "string")
+    return kind ? [{ request: { kind, location: value[kind] }, range }] : []
+  })
+}
+
+function localRequest(path: string, context: IncludeContext): IncludeRequest {
+  const location = normalizePath(path)
+  return context.project ? { kind: "project", location, project: context.project, ref: context.ref } : { kind: "local", location }
+}
+
+function normalizePath(path: string): string {
+  return path.trim().replace(/^(\.\/|\/)+/, "").replace(/\/{2,}/g, "/")
+}
+
+// Name findings in the included file are attributed to
+function includeFile(request: IncludeRequest): string {
+  return request.kind === "project" ? `${request.project}/${request.location}` : request.location
+}
+
+export function describeInclude(request: IncludeRequest): string {
+  switch (request.kind) {
+    case "local":
+      return `Local include "${request.location}"`
+    case "project":
+      return `File "${request.location}" of project ${request.project}${request.ref ? `@${request.ref}` : ""}`
+    case "remote":
+      return `Remote include ${request.location}`
+    case "template":
+      return `Template "${request.location}"`
+    case "component":
+      return `Component ${request.location}`
+  }
+}
+
+export function mergeNodes(base: YamlNode, override: YamlNode): YamlNode {
+  const target = resolveAlias(base)
+  const source = resolveAlias(override)
+  if (target.kind !== "map" || source.kind !== "map") return override
+
+  const items = effectivePairs(target)
+  effectivePairs(source).forEach((pair) => {
+    const index = items.findIndex((existing) => nodeKey(existing.key) === nodeKey(pair.key))
+    if (index === -1) {
+      items.push(pair)
+      return
+    }
+    const existing = items[index].value
+    items[index] = { ...pair, value: existing && pair.value ? mergeNodes(existing, pair.value) : pair.value }
+  })
+  return { kind: "map", items, flow: source.flow, range: source.range }
+}
+
+// Pairs of `map` with `<<` merge keys expanded; explicit keys take precedence
+export function effectivePairs(map: YamlMap): YamlPair[] {
+  const pairs = map.items.filter((pair) => !isMergeKey(pair.key))
+  const keys = new Set(pairs.map((pair) => nodeKey(pair.key)))
+  mergeSources(map).forEach((source) =>
+    effectivePairs(source).forEach((pair) => {
+      if (keys.has(nodeKey(pair.key))) return
+      keys.add(nodeKey(pair.key))
+      pairs.push(pair)
+    }),
+  )
+  return pairs
+}
+
+// Files of the analyzed repository keyed by path, such as a picked project folder. A
+// single top-level folder shared by every path, as in downloaded archives, is dropped,
+// unless it is a dot folder such as .github that belongs to the repository itself.
+export class FileMapIncludeProvider implements IncludeProvider {
+  private files = new Map<string, string>()
+
+  constructor(files: Record<string, string>) {
+    const paths = Object.keys(files)
+    const roots = new Set(paths.map((path) => normalizePath(path).split("/")[0]))
+    const [root] = [...roots]
+    const isWrapper = roots.size === 1 && !root.startsWith(".") && paths.every((path) => normalizePath(path).includes("/"))
+    const shared = isWrapper ? `${root}/` : ""
+    paths.forEach((path) => this.files.set(normalizePath(path).slice(shared.length), files[path]))
+  }
+
+  static async fromArchive(data: ArrayBuffer | Uint8Array): Promise<FileMapIncludeProvider> {
+    return new FileMapIncludeProvider(await readArchive(data))
+  }
+
+  get paths(): string[] {
+    return [...this.files.keys()]
+  }
+
+  get(path: string): string | undefined {
+    return this.files.get(normalizePath(path))
+  }
+
+  supports(kind: IncludeKind): boolean {
+    return kind === "local"
+  }
+
+  async read(request: IncludeRequest): Promise<string | undefined> {
+    return this.get(request.location)
+  }
+
+  async list(): Promise<string[]> {
+    return this.paths
+  }
+}
+
+// Remote, project, template and component includes need network access. Without a fetch
+// function nothing is fetched and those includes are reported as unresolved, not missing.
+export class RemoteIncludeProvider implements IncludeProvider {
+  constructor(private fetchContent?: (request: IncludeRequest) => Promise<string | undefined>) {}
+
+  supports(kind: IncludeKind): boolean {
+    return kind !== "local" && this.fetchContent !== undefined
+  }
+
+  async read(request: IncludeRequest): Promise<string | undefined> {
+    return this.fetchContent?.(request)
+  }
+}
+
+// Hands each request to the first provider that supports its kind
+export class CompositeIncludeProvider implements IncludeProvider {
+  private providers: IncludeProvider[]
+
+  constructor(...providers: IncludeProvider[]) {
+    this.providers = providers
+  }
+
+  supports(kind: IncludeKind): boolean {
+    return this.providers.some((provider) => provider.supports(kind))
+  }
+
+  async read(request: IncludeRequest): Promise<string | undefined> {
+    return this.providerFor(request)?.read(request)
+  }
+
+  async list(request: IncludeRequest): Promise<string[]> {
+    return (await this.providerFor(request)?.list?.(request)) ?? []
+  }
+
+  private providerFor(request: IncludeRequest): IncludeProvider | undefined {
+    return this.providers.find((provider) => provider.supports(request.kind))
+  }
+}
@@ -0,0 +1,583 @@
+// Simulates which GitLab CI jobs a pipeline contains for a given event by evaluating
+// `workflow:rules`, `rules:`, `only:`/`except:` and `when:`, and builds the job DAG from
+// `needs:` and stage order. Conditions are evaluated with three values: a variable whose
+// value is not known makes a comparison unknown, and an unknown rule may match. Checks
+// across every kind of pipeline therefore only flag what holds whatever the variables are.
+
+import type { GitLabPipelineContext, ParsedYAML } from "./types"
+import { GITLAB_RESERVED_KEYWORDS } from "./pipeline/gitlab-ci"
+import { isObject, toArray, toStringList, toVariables } from "./pipeline/builder-utils"
+
+export type GitLabJobWhen = "on_success" | "on_failure" | "always" | "manual" | "delayed"
+
+export interface SimulatedJob {
+  name: string
+  stage: string
+  when: GitLabJobWhen
+  allowFailure: boolean
+  // Jobs named by `needs:` that are in the pipeline; undefined when the job follows stage order
+  needs?: string[]
+}
+
+export interface SimulatedPipeline {
+  context: GitLabPipelineContext
+  // False when `workflow:rules` prevent the pipeline from being created
+  created: boolean
+  // Stages that contain jobs, in execution order
+  stages: string[]
+  jobs: SimulatedJob[]
+  excluded: string[]
+  // Each job runs after the jobs it needs, or after every job of the previous stage
+  edges: Array<{ from: string; to: string }>
+  problems: PipelineProblem[]
+}
+
+export interface PipelineProblem {
+  kind: "never-runs" | "excluded-need" | "undefined-need" | "needs-cycle"
+  job: string
+  need?: string
+  // Position of the need in the job's `needs:` list
+  needIndex?: number
+  message: string
+}
+
+// Pipelines the static checks consider; branch, tag and variable values are left unknown
+const SCENARIOS: Array<{ label: string; context: GitLabPipelineContext }> = [
+  { label: "branch pipelines", context: { source: "push", branch: "*" } },
+  { label: "tag pipelines", context: { source: "push", tag: "*" } },
+  { label: "merge request pipelines", context: { source: "merge_request_event", mergeRequest: { sourceBranch: "*", targetBranch: "*" } } },
+  { label: "scheduled pipelines", context: { source: "schedule", branch: "*" } },
+  { label: "manually run pipelines", context: { source: "web", branch: "*" } },
+  { label: "API-triggered pipelines", context: { source: "api", branch: "*" } },
+  { label: "trigger token pipelines", context: { source: "trigger", branch: "*" } },
+  { label: "downstream pipelines", context: { source: "pipeline", branch: "*" } },
+  { label: "child pipelines", context: { source: "parent_pipeline", branch: "*" } },
+]
+
+const DEFAULT_STAGES = ["build", "test", "deploy"]
+
+// `only:`/`except:` keywords and the pipeline sources they stand for
+const REF_SOURCES: Record<string, string> = {
+  api: "api",
+  chat: "chat",
+  external: "external",
+  external_pull_requests: "external_pull_request_event",
+  merge_requests: "merge_request_event",
+  pipelines: "pipeline",
+  pushes: "push",
+  schedules: "schedule",
+  triggers: "trigger",
+  web: "web",
+}
+
+// Three-valued condition result: undefined when it depends on values that are not known
+type Tri = boolean | undefined
+
+// A variable that is set to a value which is not known, or whose value is not known at all
+const SOME_VALUE = Symbol("set")
+const ANY_VALUE = Symbol("unknown")
+type Value = string | null | typeof SOME_VALUE | typeof ANY_VALUE
+
+interface Environment {
+  variables: Map<string, Value>
+  // Value of variables that are not listed: unset in a described pipeline, unknown otherwise
+  fallback: Value
+  source: string
+  ref: Value
+  isBranch: boolean
+  isTag: boolean
+  changedFiles?: string[]
+  exact: boolean
+}
+
+interface JobDefinition {
+  name: string
+  stage: string
+  config: Record<string, any>
+  needs?: Array<{ job: string; optional: boolean; index: number }>
+}
+
+export function simulateGitLabPipeline(parsed: ParsedYAML, context: GitLabPipelineContext): SimulatedPipeline {
+  const jobs = jobDefinitions(parsed)
+  return simulate(parsed, jobs, environment(parsed, context, true), context)
+}
+
+// Problems that hold for every kind of pipeline: jobs no pipeline contains, needs on jobs
+// that are left out whenever the needing job runs, needs on undefined jobs and cycles
+export function findPipelineProblems(parsed: ParsedYAML): PipelineProblem[] {
+  const jobs = jobDefinitions(parsed)
+  const problems: PipelineProblem[] = [...undefinedNeeds(jobs), ...needsCycles(jobs)]
+
+  const runsIn = new Map<string, string[]>()
+  const excludedNeeds = new Map<string, { job: JobDefinition; need: string; index: number; labels: string[] }>()
+  SCENARIOS.forEach(({ label, context }) => {
+    const pipeline = simulate(parsed, jobs, environment(parsed, context, false), context)
+    if (!pipeline.created) return
+    pipeline.jobs.forEach((job) => runsIn.set(job.name, [...(runsIn.get(job.name) ?? []), label]))
+    pipeline.problems
+      .filter((problem) => problem.kind === "excluded-need")
+      .forEach((problem) => {
+        const key = `${problem.job}\n${problem.need}`
+        const entry = excludedNeeds.get(key) ?? {
+          job: jobs.find((job) => job.name === problem.job)!,
+          need: problem.need!,
+          index: problem.needIndex!,
+          labels: [],
+        }
+        entry.labels.push(label)
+        excludedNeeds.set(key, entry)
+      })
+  })
+
+  jobs.forEach((job) => {
+    if (runsIn.has(job.name)) return
+    problems.push({
+      kind: "never-runs",
+      job: job.name,
+      message: `Job "${job.name}" is not added to any pipeline: its rules exclude it from branch, tag, merge request, scheduled and triggered pipelines`,
+    })
+  })
+  excludedNeeds.forEach(({ job, need, index, labels }) =>
+    problems.push({
+      kind: "excluded-need",
+      job: job.name,
+      need,
+      needIndex: index,
+      message: `Job "${job.name}" needs "${need}", but "${need}" is left out of ${labels.join(", ")} that include "${job.name}", so GitLab fails to create them`,
+    }),
+  )
+  return problems
+}
+
+function jobDefinitions(parsed: ParsedYAML): JobDefinition[] {
+  return Object.entries(parsed)
+    .filter(([name, job]) => !GITLAB_RESERVED_KEYWORDS.includes(name) && !name.startsWith(".") && isObject(job))
+    .map(([name, config]) => ({
+      name,
+      stage: typeof config.stage === "string" ? config.stage : "test",
+      config,
+      needs: config.needs === undefined ? undefined : parseNeeds(config.needs),
+    }))
+}
+
+// Needs on other projects' or the parent pipeline's jobs are not part of this DAG
+function parseNeeds(value: any): JobDefinition["needs"] {
+  return toArray(value).flatMap((need: any, index: number) => {
+    if (typeof need === "string") return [{ job: need, optional: false, index }]
+    if (isObject(need) && typeof need.job === "string" && need.project === undefined && need.pipeline === undefined) {
+      return [{ job: need.job, optional: need.optional === true, index }]
+    }
+    return []
+  })
+}
+
+function stageOrder(parsed: ParsedYAML): string[] {
+  const declared = toStringList(parsed.stages).filter((stage) => stage !== ".pre" && stage !== ".post")
+  return [".pre", ...(declared.length > 0 ? declared : DEFAULT_STAGES), ".post"]
+}
+
+function environment(parsed: ParsedYAML, context: GitLabPipelineContext, exact: boolean): Environment {
+  // "*" stands for a name that is set but not known
+  const known = (value: string | undefined): Value => (value === undefined ? null : value === "*" ? SOME_VALUE : value)
+  const mergeRequest = context.mergeRequest
+  const isMergeRequest = context.source === "merge_request_event" && mergeRequest !== undefined
+  const branch = isMergeRequest || context.tag !== undefined ? undefined : context.branch
+  const ref = known(context.tag ?? branch ?? mergeRequest?.sourceBranch)
+
+  const variables = new Map<string, Value>()
+  if (exact) {
+    Object.entries({ ...toVariables(parsed.variables), ...context.variables }).forEach(([name, value]) => variables.set(name, value))
+  } else {
+    Object.entries(context.variables ?? {}).forEach(([name, value]) => variables.set(name, value))
+  }
+  const predefined: Record<string, Value> = {
+    CI_PIPELINE_SOURCE: context.source,
+    CI_COMMIT_BRANCH: known(branch),
+    CI_COMMIT_TAG: known(context.tag),
+    CI_COMMIT_REF_NAME: ref,
+    CI_DEFAULT_BRANCH: exact ? (context.defaultBranch ?? "main") : known(context.defaultBranch ?? "*"),
+    CI_MERGE_REQUEST_ID: isMergeRequest ? SOME_VALUE : null,
+    CI_MERGE_REQUEST_IID: isMergeRequest ? SOME_VALUE : null,
+    CI_MERGE_REQUEST_SOURCE_BRANCH_NAME: known(isMergeRequest ? mergeRequest!.sourceBranch : undefined),
+    CI_MERGE_REQUEST_TARGET_BRANCH_NAME: known(isMergeRequest ? mergeRequest!.targetBranch : undefined),
+    CI_MERGE_REQUEST_LABELS: isMergeRequest && mergeRequest!.labels ? mergeRequest!.labels.join(",") : isMergeRequest && !exact ? ANY_VALUE : null,
+  }
+  Object.entries(predefined).forEach(([name, value]) => {
+    if (!variables.has(name)) variables.set(name, value)
+  })
+
+  return {
+    variables,
+    fallback: exact ? null : ANY_VALUE,
+    source: context.source,
+    ref,
+    isBranch: branch !== undefined,
+    isTag: context.tag !== undefined,
+    changedFiles: context.changedFiles,
+    exact,
+  }
+}
+
+function simulate(parsed: ParsedYAML, jobs: JobDefinition[], env: Environment, context: GitLabPipelineContext): SimulatedPipeline {
+  const pipeline: SimulatedPipeline = { context, created: true, stages: [], jobs: [], excluded: [], edges: [], problems: [] }
+  const workflowRules = isObject(parsed.workflow) && Array.isArray(parsed.workflow.rules) ? parsed.workflow.rules : undefined
+  if (workflowRules && !matchRules(workflowRules, env)) {
+    pipeline.created = false
+    pipeline.excluded = jobs.map((job) => job.name)
+    return pipeline
+  }
+
+  const order = stageOrder(parsed)
+  const included = new Map<string, { definition: JobDefinition; job: SimulatedJob }>()
+  jobs.forEach((definition) => {
+    const outcome = jobOutcome(definition.config, env)
+    if (!outcome) {
+      pipeline.excluded.push(definition.name)
+      return
+    }
+    included.set(definition.name, { definition, job: { name: definition.name, stage: definition.stage, ...outcome } })
+  })
+
+  included.forEach(({ definition, job }) => {
+    if (!definition.needs) return
+    job.needs = []
+    definition.needs.forEach((need) => {
+      if (included.has(need.job)) {
+        job.needs!.push(need.job)
+      } else if (!need.optional && jobs.some((candidate) => candidate.name === need.job)) {
+        pipeline.problems.push({
+          kind: "excluded-need",
+          job: job.name,
+          need: need.job,
+          needIndex: need.index,
+          message: `Job "${job.name}" needs "${need.job}", which is not in this pipeline`,
+        })
+      }
+    })
+  })
+
+  pipeline.jobs = [...included.values()]
+    .map(({ job }) => job)
+    .sort((a, b) => stageIndex(order, a.stage) - stageIndex(order, b.stage))
+  pipeline.stages = order.filter((stage) => pipeline.jobs.some((job) => job.stage === stage))
+  pipeline.jobs.forEach((job) => {
+    const previous = pipeline.stages[pipeline.stages.indexOf(job.stage) - 1]
+    const upstream = job.needs ?? pipeline.jobs.filter((candidate) => candidate.stage === previous).map((candidate) => candidate.name)
+    upstream.forEach((from) => pipeline.edges.push({ from, to: job.name }))
+  })
+  return pipeline
+}
+
+// Jobs in stages that are not declared are placed last, where GitLab would reject them
+function stageIndex(order: string[], stage: string): number {
+  const index = order.indexOf(stage)
+  return index === -1 ? order.length : index
+}
+
+function jobOutcome(job: Record<string, any>, env: Environment): Omit<SimulatedJob, "name" | "stage"> | undefined {
+  const when = typeof job.when === "string" ? job.when : "on_success"
+  if (Array.isArray(job.rules)) {
+    const rule = matchRules(job.rules, env)
+    if (!rule) return undefined
+    const ruleWhen = typeof rule.when === "string" ? rule.when : when
+    return {
+      when: ruleWhen as GitLabJobWhen,
+      allowFailure: rule.allow_failure !== undefined ? rule.allow_failure === true : job.allow_failure === true,
+    }
+  }
+
+  if (when === "never") return undefined
+  // Without `rules:` or `only:`, jobs run in branch and tag pipelines only
+  const only = job.only ?? (job.except === undefined ? ["branches", "tags"] : undefined)
+  if (only !== undefined && refFilterMatches(only, env) === false) return undefined
+  if (job.except !== undefined && refFilterMatches(job.except, env) === true) return undefined
+  return {
+    when: when as GitLabJobWhen,
+    // Manual jobs outside `rules:` may fail without failing the pipeline
+    allowFailure: job.allow_failure !== undefined ? job.allow_failure === true : when === "manual",
+  }
+}
+
+// First matching rule, unless it is `when: never`. An unknown condition matches when the
+// rule adds the job and is skipped when it excludes it, so a job counts as possibly running.
+function matchRules(rules: any[], env: Environment): Record<string, any> | undefined {
+  for (const rule of rules) {
+    if (!isObject(rule)) continue
+    const matches = ruleMatches(rule, env)
+    if (matches === false || (matches === undefined && rule.when === "never")) continue
+    return rule.when === "never" ? undefined : rule
+  }
+  return undefined
+}
+
+function ruleMatches(rule: Record<string, any>, env: Environment): Tri {
+  const conditions: Tri[] = []
+  if (typeof rule.if === "string") conditions.push(evaluateExpression(rule.if, env))
+  if (rule.changes !== undefined) conditions.push(changesMatch(rule.changes, env))
+  // Repository contents are not available, so `exists:` is assumed to match
+  if (rule.exists !== undefined) conditions.push(env.exact ? true : undefined)
+  return conditions.reduce<Tri>((result, condition) => and(result, condition), true)
+}
+
+function changesMatch(changes: any, env: Environment): Tri {
+  const patterns = isObject(changes) ? toStringList(changes.paths) : toStringList(changes)
+  // Pipelines without a diff to compare, such as tags and schedules, treat `changes:` as true
+  if (!env.changedFiles) return env.exact ? true : undefined
+  return env.changedFiles.some((file) => patterns.some((pattern) => globToRegExp(pattern).test(file)))
+}
+
+// `only:`/`except:` as a list of refs or as { refs, variables, changes }; every key given
+// must have a matching entry
+function refFilterMatches(filter: any, env: Environment): Tri {
+  if (!isObject(filter)) return refsMatch(toStringList(filter), env)
+  const conditions: Tri[] = []
+  if (filter.refs !== undefined) conditions.push(refsMatch(toStringList(filter.refs), env))
+  if (filter.variables !== undefined) {
+    conditions.push(toStringList(filter.variables).reduce<Tri>((result, expression) => or(result, evaluateExpression(expression, env)), false))
+  }
+  if (filter.changes !== undefined) conditions.push(changesMatch(filter.changes, env))
+  return conditions.reduce<Tri>((result, condition) => and(result, condition), true)
+}
+
+function refsMatch(refs: string[], env: Environment): Tri {
+  return refs.reduce<Tri>((result, entry) => {
+    let matches: Tri
+    if (entry === "branches") matches = env.isBranch
+    else if (entry === "tags") matches = env.isTag
+    else if (REF_SOURCES[entry]) matches = env.source === REF_SOURCES[entry]
+    else if (env.ref === null) matches = false
+    else if (typeof env.ref !== "string") matches = undefined
+    else {
+      // `main@group/project` limits the ref to one project, which is assumed to be this one
+      const name = entry.replace(/@[^/]+\/.+$/, "")
+      const pattern = name.match(/^\/(.*)\/([a-z]*)$/)
+      matches = pattern ? testRegExp(pattern[1], pattern[2], env.ref) : name === env.ref
+    }
+    return or(result, matches)
+  }, false)
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  let source = ""
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index]
+    if (pattern.startsWith("**/", index)) {
+      source += "(?:.*/)?"
+      index += 2
+    } else if (pattern.startsWith("**", index)) {
+      source += ".*"
+      index += 1
+    } else if (char === "*") source += "[^/]*"
+    else if (char === "?") source += "[^/]"
+    else if (char === "{") source += "(?:"
+    else if (char === "}") source += ")"
+    else if (char === ",") source += "|"
+    else source += char.replace(/[.+^$()|[\]\\]/g, "\\$&")
+  }
+  return new RegExp(`^${source}$`)
+}
+
+// CI/CD variable expressions: `$VAR`, string and regex literals, `null`, `==`, `!=`, `=~`,
+// `!~`, `&&`, `||` and parentheses. Expressions that do not parse are unknown.
+type Operand = { kind: "variable"; name: string } | { kind: "string"; value: string } | { kind: "regex"; pattern: string; flags: string } | { kind: "null" }
+type Expression =
+  | { kind: "and" | "or"; left: Expression; right: Expression }
+  | { kind: "compare"; operator: string; left: Operand; right: Operand }
+  | { kind: "operand"; operand: Operand }
+
+const TOKEN =
+  /\s*(?:(\(|\)|&&|\|\||==|!=|=~|!~)|\$\{?([A-Za-z_]\w*)\}?|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|\/((?:[^/\\]|\\.)*)\/([a-z]*)|(null)\b)/y
+
+function evaluateExpression(source: string, env: Environment): Tri {
+  try {
+    return evaluate(new ExpressionParser(source).parse(), env)
+  } catch {
+    return undefined
+  }
+}
+
+class ExpressionParser {
+  private tokens: Array<string | Operand> = []
+  private position = 0
+
+  constructor(source: string) {
+    TOKEN.lastIndex = 0
+    while (TOKEN.lastIndex < source.length && source.slice(TOKEN.lastIndex).trim() !== "") {
+      const start = TOKEN.lastIndex
+      const match = TOKEN.exec(source)
+      if (!match || TOKEN.lastIndex === start) throw new Error(`Unexpected input in expression: ${source.slice(start)}`)
+      if (match[1]) this.tokens.push(match[1])
+      else if (match[2]) this.tokens.push({ kind: "variable", name: match[2] })
+      else if (match[3] !== undefined || match[4] !== undefined) this.tokens.push({ kind: "string", value: unescape(match[3] ?? match[4]) })
+      else if (match[5] !== undefined) this.tokens.push({ kind: "regex", pattern: match[5], flags: match[6] })
+      else this.tokens.push({ kind: "null" })
+    }
+  }
+
+  parse(): Expression {
+    const expression = this.parseOr()
+    if (this.position < this.tokens.length) throw new Error("Unexpected token in expression")
+    return expression
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd()
+    while (this.tokens[this.position] === "||") {
+      this.position++
+      left = { kind: "or", left, right: this.parseAnd() }
+    }
+    return left
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parsePrimary()
+    while (this.tokens[this.position] === "&&") {
+      this.position++
+      left = { kind: "and", left, right: this.parsePrimary() }
+    }
+    return left
+  }
+
+  private parsePrimary(): Expression {
+    if (this.tokens[this.position] === "(") {
+      this.position++
+      const expression = this.parseOr()
+      if (this.tokens[this.position++] !== ")") throw new Error("Unbalanced parentheses in expression")
+      return expression
+    }
+    const left = this.operand()
+    const operator = this.tokens[this.position]
+    if (operator === "==" || operator === "!=" || operator === "=~" || operator === "!~") {
+      this.position++
+      return { kind: "compare", operator, left, right: this.operand() }
+    }
+    return { kind: "operand", operand: left }
+  }
+
+  private operand(): Operand {
+    const token = this.tokens[this.position++]
+    if (token === undefined || typeof token === "string") throw new Error("Expected a variable or literal in expression")
+    return token
+  }
+}
+
+function unescape(value: string): string {
+  return value.replace(/\\(.)/g, "$1")
+}
+
+function evaluate(expression: Expression, env: Environment): Tri {
+  switch (expression.kind) {
+    case "and":
+      return and(evaluate(expression.left, env), evaluate(expression.right, env))
+    case "or":
+      return or(evaluate(expression.left, env), evaluate(expression.right, env))
+    case "operand": {
+      const value = operandValue(expression.operand, env)
+      if (value === ANY_VALUE) return undefined
+      return value === SOME_VALUE || (typeof value === "string" && value !== "")
+    }
+    case "compare":
+      return compare(expression, env)
+  }
+}
+
+function compare(expression: Extract<Expression, { kind: "compare" }>, env: Environment): Tri {
+  const left = operandValue(expression.left, env)
+  const negate = expression.operator === "!=" || expression.operator === "!~"
+  let result: Tri
+
+  if (expression.operator === "==" || expression.operator === "!=") {
+    const right = operandValue(expression.right, env)
+    if (left === ANY_VALUE || right === ANY_VALUE) result = undefined
+    else if (left === SOME_VALUE || right === SOME_VALUE) result = left === null || right === null ? false : undefined
+    else result = left === right
+  } else {
+    // The pattern is a regex literal or a variable holding one
+    const right = expression.right.kind === "regex" ? expression.right : operandValue(expression.right, env)
+    const pattern = typeof right === "string" ? right.match(/^\/(.*)\/([a-z]*)$/) : undefined
+    if (left === null) result = false
+    else if (left === ANY_VALUE || left === SOME_VALUE) result = undefined
+    else if (typeof right === "object" && right !== null) result = testRegExp(right.pattern, right.flags, left)
+    else if (pattern) result = testRegExp(pattern[1], pattern[2], left)
+    else result = right === null ? false : undefined
+  }
+  return result === undefined ? undefined : result !== negate
+}
+
+function operandValue(operand: Operand, env: Environment): Value {
+  switch (operand.kind) {
+    case "variable":
+      return env.variables.has(operand.name) ? env.variables.get(operand.name)! : env.fallback
+    case "string":
+      return operand.value
+    case "null":
+      return null
+    case "regex":
+      return `/${operand.pattern}/${operand.flags}`
+  }
+}
+
+// GitLab uses RE2, whose syntax is close enough to JavaScript's for CI patterns
+function testRegExp(pattern: string, flags: string, value: string): Tri {
+  try {
+    return new RegExp(pattern, flags.includes("i") ? "i" : "").test(value)
+  } catch {
+    return undefined
+  }
+}
+
+function and(left: Tri, right: Tri): Tri {
+  if (left === false || right === false) return false
+  return left === undefined || right === undefined ? undefined : true
+}
+
+function or(left: Tri, right: Tri): Tri {
+  if (left === true || right === true) return true
+  return left === undefined || right === undefined ? undefined : false
+}
+
+function undefinedNeeds(jobs: JobDefinition[]): PipelineProblem[] {
+  const names = new Set(jobs.map((job) => job.name))
+  return jobs.flatMap((job) =>
+    (job.needs ?? [])
+      .filter((need) => !names.has(need.job))
+      .map((need) => ({
+        kind: "undefined-need" as const,
+        job: job.name,
+        need: need.job,
+        needIndex: need.index,
+        message: `Job "${job.name}" needs "${need.job}", which is not defined`,
+      })),
+  )
+}
+
+function needsCycles(jobs: JobDefinition[]): PipelineProblem[] {
+  const byName = new Map(jobs.map((job) => [job.name, job]))
+  const problems: PipelineProblem[] = []
+  const done = new Set<string>()
+  const path: string[] = []
+
+  const visit = (name: string) => {
+    const open = path.indexOf(name)
+    if (open !== -1) {
+      const cycle = [...path.slice(open), name]
+      const job = byName.get(path[path.length - 1])!
+      const need = job.needs!.find((candidate) => candidate.job === name)!
+      problems.push({
+        kind: "needs-cycle",
+        job: job.name,
+        need: name,
+        needIndex: need.index,
+        message: `Jobs need each other in a cycle: ${cycle.join(" → ")}`,
+      })
+      return
+    }
+    if (done.has(name) || !byName.has(name)) return
+    path.push(name)
+    byName.get(name)!.needs?.forEach((need) => visit(need.job))
+    path.pop()
+    done.add(name)
+  }
+  jobs.forEach((job) => visit(job.name))
+  return problems
+}
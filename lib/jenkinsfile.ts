@@ -0,0 +1,807 @@
+import type { SourceRange } from "./types"
+import {
+  YamlDocument,
+  type ScalarSegment,
+  type YamlMap,
+  type YamlNode,
+  type YamlPair,
+  type YamlScalar,
+  type YamlScalarValue,
+  type YamlSeq,
+} from "./yaml-parser"
+
+// Parses declarative Jenkinsfiles into the same position-aware node tree YAML configurations
+// produce, so the pipeline model, rules and source ranges work unchanged.
+//
+// Directives become mappings and `stages`, `parallel` and `steps` become lists. Each step is a
+// one-key mapping: `sh 'make'` reads as `{ sh: make }`, `sh(script: 'make', label: 'Build')` as
+// `{ sh: { script: make, label: Build } }` and a step with a body, such as
+// `withCredentials([...]) { ... }`, as `{ withCredentials: { args: [...], steps: [...] } }`.
+// Stages read as `{ stage: Build, agent: ..., steps: [...] }`. Control flow inside `script`
+// blocks is flattened into the surrounding steps. Groovy beyond calls, literals, lists and maps
+// is kept as its source text.
+
+export class JenkinsfileSyntaxError extends Error {
+  mark: { line: number; column: number }
+
+  constructor(message: string, mark: { line: number; column: number }) {
+    super(`${message} at line ${mark.line}, column ${mark.column}`)
+    this.name = "JenkinsfileSyntaxError"
+    this.mark = mark
+  }
+}
+
+// A Groovy expression a double-quoted string interpolates, e.g. `params.TAG` in "${params.TAG}"
+export interface GroovyInterpolation {
+  expression: string
+  range: SourceRange
+}
+
+// Whether the file is a Jenkinsfile rather than YAML, by name or by a top-level `pipeline {` block
+export function isJenkinsfile(content: string, filename?: string): boolean {
+  const name = (filename ?? "").split("/").pop()!.toLowerCase()
+  if (/\.ya?ml$/.test(name)) return false
+  if (name === "jenkinsfile" || name.startsWith("jenkinsfile.") || name.endsWith(".jenkinsfile")) return true
+  return /^\s*pipeline\s*\{/m.test(content)
+}
+
+// Interpolations in the double-quoted strings of a node's source. Groovy resolves them before
+// the step runs, so the text a shell step receives contains their values.
+export function findInterpolations(document: YamlDocument, node: YamlNode): GroovyInterpolation[] {
+  if (node.kind !== "scalar" || typeof node.value !== "string" || node.style === "single-quoted") return []
+  const start = node.range.start.offset
+  const source = document.source.slice(start, node.range.end.offset)
+  const interpolations: GroovyInterpolation[] = []
+  let quote: string | undefined
+  let index = 0
+
+  while (index < source.length) {
+    const char = source[index]
+    if (quote === undefined) {
+      if (char === '"' || char === "'") {
+        quote = source.startsWith(char.repeat(3), index) ? char.repeat(3) : char
+        index += quote.length
+      } else {
+        index++
+      }
+    } else if (char === "\\") {
+      index += 2
+    } else if (source.startsWith(quote, index)) {
+      index += quote.length
+      quote = undefined
+    } else if (quote[0] === '"' && char === "$") {
+      const end = source[index + 1] === "{" ? closingBrace(source, index + 2) : pathEnd(source, index + 1)
+      if (end > index + 1) {
+        const expression = source[index + 1] === "{" ? source.slice(index + 2, end - 1) : source.slice(index + 1, end)
+        interpolations.push({ expression: expression.trim(), range: document.rangeAt(start + index, start + end) })
+      }
+      index = Math.max(end, index + 1)
+    } else {
+      index++
+    }
+  }
+  return interpolations
+}
+
+export class JenkinsfileParser {
+  private src: string
+  private document: YamlDocument
+  private tokens: Token[] = []
+  private index = 0
+  // End of the last token that is not a line break
+  private lastEnd = 0
+
+  private constructor(content: string, file?: string) {
+    this.src = content.replace(/\r\n?/g, "\n")
+    this.document = new YamlDocument(this.src, null, file)
+  }
+
+  // `file` names the Jenkinsfile so every range points back at it
+  static parseDocument(content: string, file?: string): YamlDocument {
+    const parser = new JenkinsfileParser(content, file)
+    parser.tokens = new Lexer(parser.src, parser.document).tokenize()
+    return new YamlDocument(parser.src, parser.parseRoot(), file)
+  }
+
+  static parse(content: string): any {
+    return JenkinsfileParser.parseDocument(content).toJS()
+  }
+
+  private parseRoot(): YamlMap {
+    const pairs: YamlPair[] = []
+    this.parseStatements("root", (call) => pairs.push(this.pairOf(call, "root")))
+    const token = this.peek()
+    if (token.kind !== "end") throw this.error(`Unexpected ${token.value}`, token.start)
+    return this.map(pairs, 0, this.src.length)
+  }
+
+  // Statements up to the `}` that closes the block, or the end of the file
+  private parseStatements(kind: BlockKind, emit: (call: Call) => void): void {
+    while (true) {
+      const token = this.peek()
+      if (token.kind === "newline" || isPunctuation(token, ";")) {
+        this.next()
+      } else if (token.kind === "end" || isPunctuation(token, "}")) {
+        return
+      } else {
+        this.parseStatement(kind, emit)
+      }
+    }
+  }
+
+  private parseStatement(kind: BlockKind, emit: (call: Call) => void): void {
+    const token = this.peek()
+    if (token.kind === "operator" && token.value === "@") {
+      // Annotations such as `@Library('shared') _`
+      this.next()
+      this.readPath()
+      if (isPunctuation(this.peek(), "(")) this.skipBalanced()
+      return
+    }
+    if (token.kind !== "identifier" || token.value === "_") {
+      this.skipStatement(kind, emit)
+      return
+    }
+
+    if (CONTROL_KEYWORDS.includes(token.value)) {
+      // The body's statements run as part of the surrounding block
+      this.next()
+      if (isPunctuation(this.peek(), "(")) this.skipBalanced()
+      this.skipNewlines()
+      if (isPunctuation(this.peek(), "{")) {
+        const open = this.next()
+        this.parseStatements(kind, emit)
+        this.expectClosing(open)
+      }
+      return
+    }
+    if (token.value === "case" || token.value === "default") {
+      while (!isPunctuation(this.peek(), ":") && !this.atStatementEnd()) this.next()
+      if (isPunctuation(this.peek(), ":")) this.next()
+      return
+    }
+    if (SKIPPED_KEYWORDS.includes(token.value)) {
+      this.skipStatement(kind, emit)
+      return
+    }
+    if (DECLARATION_MODIFIERS.includes(token.value)) this.next()
+    // A typed declaration such as `String tag = ...`
+    if (this.peek().kind === "identifier" && this.peekAt(1).kind === "identifier" && isPunctuation(this.peekAt(2), "=")) this.next()
+
+    const nameToken = this.peek()
+    if (nameToken.kind !== "identifier") {
+      this.skipStatement(kind, emit)
+      return
+    }
+    let name = this.readPath()
+    const call: Call = { name, nameToken, nameEnd: this.lastEnd, positional: [], named: [], start: nameToken.start, end: nameToken.end }
+
+    const assignment = this.peek()
+    if (isPunctuation(assignment, "=") || (assignment.kind === "operator" && ASSIGNMENT_OPERATORS.includes(assignment.value))) {
+      this.next()
+      call.positional.push(this.parseExpression(true))
+      call.assignment = true
+    } else {
+      if (isPunctuation(this.peek(), "(")) {
+        this.parseArguments(call, ")")
+        // Chained calls such as `docker.image('node').inside { ... }` take the last arguments
+        while (this.isPathSeparator(this.peek()) && this.peekAt(1).kind === "identifier") {
+          this.next()
+          name += `.${this.next().value}`
+          if (isPunctuation(this.peek(), "(")) {
+            call.positional = []
+            call.named = []
+            this.parseArguments(call, ")")
+          }
+        }
+        call.name = name
+      } else if (!isPunctuation(this.peek(), "{") && !this.atStatementEnd()) {
+        this.parseArguments(call)
+      }
+      if (isPunctuation(this.peek(), "{")) call.block = this.parseBlock(childKind(kind, name), this.next())
+    }
+    call.end = this.lastEnd
+
+    if (!this.atStatementEnd()) this.skipStatement()
+    emit(call)
+  }
+
+  private parseBlock(kind: BlockKind, open: Token): YamlNode {
+    if (kind === "raw") return this.readRawBlock(open)
+    this.skipClosureParameters()
+
+    const pairs: YamlPair[] = []
+    const items: YamlNode[] = []
+    this.parseStatements(kind, (call) => {
+      switch (kind) {
+        case "stages":
+          if (call.name === "stage" && !call.assignment) items.push(this.stageOf(call))
+          return
+        case "steps":
+          if (!call.assignment) {
+            items.push(this.map([this.pairOf(call, kind)], call.start, call.end))
+          } else if (isCallNode(call.positional[0])) {
+            // `def version = sh(script: '...', returnStdout: true)` runs the step
+            items.push(call.positional[0])
+          }
+          return
+        case "entries":
+          items.push(this.map([this.pairOf(call, kind)], call.start, call.end))
+          return
+        default:
+          pairs.push(this.pairOf(call, kind))
+      }
+    })
+    const close = this.expectClosing(open)
+
+    return LIST_KINDS.includes(kind) ? this.seq(items, open.start, close.end) : this.map(pairs, open.start, close.end)
+  }
+
+  private stageOf(call: Call): YamlMap {
+    const name = call.positional[0] ?? this.scalar("", call.nameToken.end, call.nameToken.end, null)
+    const pairs: YamlPair[] = [{ key: this.keyOf(call), value: name, range: this.document.rangeAt(call.start, name.range.end.offset) }]
+    if (call.block?.kind === "map") pairs.push(...call.block.items)
+    return this.map(pairs, call.start, call.end)
+  }
+
+  private pairOf(call: Call, parentKind: BlockKind): YamlPair {
+    return { key: this.keyOf(call), value: this.valueOf(call, parentKind), range: this.document.rangeAt(call.start, call.end) }
+  }
+
+  private keyOf(call: Call): YamlScalar {
+    return this.scalar(call.name, call.nameToken.start, call.nameEnd)
+  }
+
+  private valueOf(call: Call, parentKind: BlockKind): YamlNode | null {
+    const { block } = call
+    if (!block) return this.argumentsValue(call)
+    // A step's body is listed under `steps`, next to its arguments
+    if (block.kind === "seq" && (parentKind === "steps" || parentKind === "root")) {
+      const steps: YamlPair = { key: this.scalar("steps", block.range.start.offset, block.range.start.offset + 1), value: block, range: block.range }
+      return this.map([...this.argumentPairs(call), steps], call.start, call.end)
+    }
+    if (block.kind === "map") return { ...block, items: [...this.argumentPairs(call), ...block.items] }
+    return block
+  }
+
+  // One positional argument is the value itself; named arguments make a mapping
+  private argumentsValue(call: Call): YamlNode | null {
+    const { positional, named } = call
+    if (named.length === 0) {
+      if (positional.length <= 1) return positional[0] ?? null
+      return this.seq(positional, positional[0].range.start.offset, positional[positional.length - 1].range.end.offset, true)
+    }
+    const pairs = this.argumentPairs(call)
+    return this.map(pairs, pairs[0].range.start.offset, pairs[pairs.length - 1].range.end.offset, true)
+  }
+
+  private argumentPairs(call: Call): YamlPair[] {
+    const { positional, named } = call
+    if (positional.length === 0) return named
+    const value =
+      positional.length === 1
+        ? positional[0]
+        : this.seq(positional, positional[0].range.start.offset, positional[positional.length - 1].range.end.offset, true)
+    const key = this.scalar("args", value.range.start.offset, value.range.start.offset)
+    return [{ key, value, range: value.range }, ...named]
+  }
+
+  // Arguments in parentheses, or after the name up to the end of the line (`sh 'make'`)
+  private parseArguments(call: Call, closer?: ")" | "]"): void {
+    if (closer) this.next()
+    while (true) {
+      if (closer) this.skipNewlines()
+      const token = this.peek()
+      if (closer && isPunctuation(token, closer)) {
+        this.next()
+        return
+      }
+      if (!closer && this.atStatementEnd()) return
+      if (token.kind === "end") throw this.error(`Expected ${closer ?? "an argument"}`, token.start)
+
+      const separator = this.peekAt(1)
+      if ((token.kind === "identifier" || token.kind === "string" || token.kind === "number") && isPunctuation(separator, ":")) {
+        this.next()
+        this.next()
+        const key = token.scalar ?? this.scalar(token.value, token.start, token.end)
+        const value = this.parseExpression(!closer)
+        call.named.push({ key, value, range: this.document.rangeAt(token.start, value.range.end.offset) })
+      } else {
+        call.positional.push(this.parseExpression(!closer))
+      }
+
+      const next = closer ? this.peekPastNewlines() : this.peek()
+      if (isPunctuation(next, ",")) {
+        if (closer) this.skipNewlines()
+        this.next()
+        if (!closer) this.skipNewlines()
+      } else if (closer && !isPunctuation(next, closer)) {
+        throw this.error(`Expected , or ${closer}`, next.start)
+      } else if (!closer) {
+        return
+      }
+    }
+  }
+
+  private parseExpression(stopAtNewline: boolean): YamlNode {
+    const start = this.index
+    const node = this.parsePrimary()
+    if (node?.kind === "scalar" && node.style !== "plain") {
+      // Methods that only reformat a string literal
+      while (
+        this.isPathSeparator(this.peek()) &&
+        STRING_METHODS.includes(this.peekAt(1).value) &&
+        isPunctuation(this.peekAt(2), "(") &&
+        isPunctuation(this.peekAt(3), ")")
+      ) {
+        for (let count = 0; count < 4; count++) this.next()
+      }
+    } else if (isCallNode(node)) {
+      // The step runs whatever is done with its result, e.g. `sh(...).trim()`
+      while (this.isPathSeparator(this.peek()) && this.peekAt(1).kind === "identifier") {
+        this.next()
+        this.next()
+        if (isPunctuation(this.peek(), "(")) this.skipBalanced()
+      }
+    }
+    if (node && this.atExpressionEnd(stopAtNewline)) return node
+
+    // Anything else is kept as written
+    this.index = start
+    return this.readRawExpression(stopAtNewline)
+  }
+
+  private parsePrimary(): YamlNode | undefined {
+    const token = this.peek()
+    if (token.kind === "string") {
+      this.next()
+      return token.scalar
+    }
+    if (token.kind === "number") {
+      this.next()
+      return this.scalar(token.value, token.start, token.end, Number(token.value.replace(/[_a-zA-Z]+$/, "").replace(/_/g, "")))
+    }
+    if (isPunctuation(token, "[")) return this.parseCollection()
+    if (isPunctuation(token, "{")) {
+      // A closure, e.g. the branches of `parallel(unit: { ... }, lint: { ... })`
+      const open = this.next()
+      const steps = this.parseBlock("steps", open)
+      return this.map([{ key: this.scalar("steps", open.start, open.end), value: steps, range: steps.range }], open.start, steps.range.end.offset)
+    }
+    if (token.kind !== "identifier") return undefined
+
+    if (LITERALS.has(token.value) && !this.isPathSeparator(this.peekAt(1))) {
+      this.next()
+      return this.scalar(token.value, token.start, token.end, LITERALS.get(token.value)!)
+    }
+    const path = this.readPath()
+    if (!isPunctuation(this.peek(), "(")) return this.scalar(path, token.start, this.lastEnd)
+
+    // A call used as a value, e.g. `credentials('token')` or `string(credentialsId: 'x', variable: 'Y')`
+    const call: Call = { name: path, nameToken: token, nameEnd: this.lastEnd, positional: [], named: [], start: token.start, end: token.end }
+    this.parseArguments(call, ")")
+    if (isPunctuation(this.peek(), "{")) call.block = this.parseBlock("steps", this.next())
+    call.end = this.lastEnd
+    const node = this.map([this.pairOf(call, "steps")], call.start, call.end, true)
+    callNodes.add(node)
+    return node
+  }
+
+  // `[a, b]` lists and `[key: value]` maps
+  private parseCollection(): YamlNode {
+    const open = this.peek()
+    if (isPunctuation(this.peekAt(1), ":") && isPunctuation(this.peekAt(2), "]")) {
+      this.next()
+      this.next()
+      const close = this.next()
+      return this.map([], open.start, close.end, true)
+    }
+    const entries: Call = { name: "", nameToken: open, nameEnd: open.end, positional: [], named: [], start: open.start, end: open.end }
+    this.parseArguments(entries, "]")
+    return entries.named.length > 0
+      ? this.map(entries.named, open.start, this.lastEnd, true)
+      : this.seq(entries.positional, open.start, this.lastEnd, true)
+  }
+
+  private readRawExpression(stopAtNewline: boolean): YamlScalar {
+    const start = this.peek().start
+    let end = start
+    let depth = 0
+    while (true) {
+      const token = this.peek()
+      if (token.kind === "end") break
+      if (depth === 0) {
+        if (token.kind === "punctuation" && EXPRESSION_TERMINATORS.includes(token.value)) break
+        if (token.kind === "newline" && stopAtNewline && !this.continuesAfterNewline()) break
+      }
+      if (token.kind === "punctuation" && OPENERS.includes(token.value)) depth++
+      if (token.kind === "punctuation" && CLOSERS.includes(token.value)) depth--
+      if (token.kind !== "newline") end = token.end
+      this.next()
+    }
+    if (end === start) throw this.error("Expected an expression", start)
+    return this.scalar(this.src.slice(start, end), start, end)
+  }
+
+  // The source of a block that holds Groovy code, such as `when { expression { ... } }`
+  private readRawBlock(open: Token): YamlScalar {
+    let depth = 0
+    while (true) {
+      const token = this.peek()
+      if (token.kind === "end") throw this.error("Missing } to close the block", open.start)
+      if (isPunctuation(token, "}") && depth === 0) break
+      if (token.kind === "punctuation" && OPENERS.includes(token.value)) depth++
+      if (token.kind === "punctuation" && CLOSERS.includes(token.value)) depth--
+      this.next()
+    }
+    const close = this.next()
+    const inner = this.src.slice(open.end, close.start)
+    const start = open.end + (inner.length - inner.trimStart().length)
+    return this.scalar(inner.trim(), start, start + inner.trim().length)
+  }
+
+  // `item ->` at the start of a closure
+  private skipClosureParameters(): void {
+    let depth = 0
+    for (let index = this.index; index < this.tokens.length; index++) {
+      const token = this.tokens[index]
+      if (depth === 0 && (token.kind === "newline" || token.kind === "end" || isPunctuation(token, "{") || isPunctuation(token, "}"))) return
+      if (token.kind === "operator" && token.value === "->" && depth === 0) {
+        this.index = index + 1
+        return
+      }
+      if (token.kind === "punctuation" && OPENERS.includes(token.value)) depth++
+      if (token.kind === "punctuation" && CLOSERS.includes(token.value)) depth--
+    }
+  }
+
+  // Skips a statement that is not a call. Closures in it, such as the body of
+  // `targets.each { ... }`, hold steps and are read as part of the surrounding block.
+  private skipStatement(kind?: BlockKind, emit?: (call: Call) => void): void {
+    let depth = 0
+    while (true) {
+      const token = this.peek()
+      if (token.kind === "end") return
+      if (depth === 0) {
+        if (isPunctuation(token, ";") || isPunctuation(token, "}")) return
+        if (token.kind === "newline" && !this.continuesAfterNewline()) return
+      }
+      if (kind === "steps" && emit && isPunctuation(token, "{")) {
+        const open = this.next()
+        this.skipClosureParameters()
+        this.parseStatements(kind, emit)
+        this.expectClosing(open)
+        continue
+      }
+      if (token.kind === "punctuation" && OPENERS.includes(token.value)) depth++
+      if (token.kind === "punctuation" && CLOSERS.includes(token.value)) depth = Math.max(0, depth - 1)
+      this.next()
+    }
+  }
+
+  private skipBalanced(): void {
+    const open = this.next()
+    let depth = 1
+    while (depth > 0) {
+      const token = this.next()
+      if (token.kind === "end") throw this.error(`Missing closing bracket for ${open.value}`, open.start)
+      if (token.kind === "punctuation" && OPENERS.includes(token.value)) depth++
+      if (token.kind === "punctuation" && CLOSERS.includes(token.value)) depth--
+    }
+  }
+
+  private expectClosing(open: Token): Token {
+    const token = this.peek()
+    if (!isPunctuation(token, "}")) {
+      const { line } = this.document.positionAt(open.start)
+      throw this.error(`Missing } to close the block opened at line ${line}`, token.start)
+    }
+    return this.next()
+  }
+
+  // `a.b.c`, including safe navigation
+  private readPath(): string {
+    let path = this.next().value
+    while (this.isPathSeparator(this.peek()) && this.peekAt(1).kind === "identifier") {
+      this.next()
+      path += `.${this.next().value}`
+    }
+    return path
+  }
+
+  private isPathSeparator(token: Token): boolean {
+    return isPunctuation(token, ".") || (token.kind === "operator" && token.value === "?.")
+  }
+
+  private atStatementEnd(): boolean {
+    const token = this.peek()
+    return token.kind === "newline" || token.kind === "end" || isPunctuation(token, ";") || isPunctuation(token, "}")
+  }
+
+  private atExpressionEnd(stopAtNewline: boolean): boolean {
+    const token = stopAtNewline ? this.peek() : this.peekPastNewlines()
+    if (token.kind === "end") return true
+    if (token.kind === "newline") return !this.continuesAfterNewline()
+    return token.kind === "punctuation" && EXPRESSION_TERMINATORS.includes(token.value)
+  }
+
+  // Groovy ends a statement at a line break unless an operator leaves it open or the
+  // next line continues a method chain
+  private continuesAfterNewline(): boolean {
+    const previous = this.tokens[this.index - 1]
+    const next = this.peekPastNewlines()
+    if (previous && ((previous.kind === "operator" && !["++", "--"].includes(previous.value)) || isPunctuation(previous, ".") || isPunctuation(previous, "="))) {
+      return true
+    }
+    return this.isPathSeparator(next) || (next.kind === "operator" && ["*.", "?:", "&&", "||"].includes(next.value))
+  }
+
+  private skipNewlines(): void {
+    while (this.peek().kind === "newline") this.next()
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private peekAt(offset: number): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]
+  }
+
+  private peekPastNewlines(): Token {
+    let index = this.index
+    while (this.tokens[index].kind === "newline") index++
+    return this.tokens[index]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]
+    if (token.kind !== "end") this.index++
+    if (token.kind !== "newline" && token.kind !== "end") this.lastEnd = token.end
+    return token
+  }
+
+  private scalar(text: string, start: number, end: number, value: YamlScalarValue = text): YamlScalar {
+    return { kind: "scalar", value, text, style: "plain", segments: [{ textOffset: 0, sourceOffset: start }], range: this.document.rangeAt(start, end) }
+  }
+
+  private map(items: YamlPair[], start: number, end: number, flow = false): YamlMap {
+    return { kind: "map", items, flow, range: this.document.rangeAt(start, end) }
+  }
+
+  private seq(items: YamlNode[], start: number, end: number, flow = false): YamlSeq {
+    return { kind: "seq", items, flow, range: this.document.rangeAt(start, end) }
+  }
+
+  private error(message: string, offset: number): JenkinsfileSyntaxError {
+    const { line, column } = this.document.positionAt(offset)
+    return new JenkinsfileSyntaxError(message, { line, column })
+  }
+}
+
+type TokenKind = "identifier" | "string" | "number" | "punctuation" | "operator" | "newline" | "end"
+
+interface Token {
+  kind: TokenKind
+  value: string
+  start: number
+  end: number
+  // String literals, with escapes resolved
+  scalar?: YamlScalar
+}
+
+// How the statements of a block are read: directives become mappings, stages and steps lists
+type BlockKind = "root" | "section" | "stages" | "steps" | "post" | "entries" | "raw"
+
+interface Call {
+  name: string
+  nameToken: Token
+  nameEnd: number
+  positional: YamlNode[]
+  named: YamlPair[]
+  block?: YamlNode
+  // `name = value`, with the value as the only positional argument
+  assignment?: boolean
+  start: number
+  end: number
+}
+
+const LIST_KINDS: BlockKind[] = ["stages", "steps", "entries"]
+// Directives whose entries may repeat, e.g. several `string(...)` parameters
+const ENTRY_DIRECTIVES = ["parameters", "axes", "excludes", "exclude", "anyOf", "allOf", "not"]
+const STAGE_DIRECTIVES = ["stages", "parallel"]
+const RAW_DIRECTIVES = ["expression"]
+
+const CONTROL_KEYWORDS = ["if", "else", "for", "while", "do", "switch", "try", "catch", "finally", "synchronized"]
+const SKIPPED_KEYWORDS = ["return", "throw", "break", "continue", "import", "package", "assert"]
+const DECLARATION_MODIFIERS = ["def", "final", "static", "private", "public", "protected"]
+const ASSIGNMENT_OPERATORS = ["+=", "-=", "*=", "/=", "?="]
+const STRING_METHODS = ["stripIndent", "stripMargin", "trim"]
+const LITERALS = new Map<string, YamlScalarValue>([
+  ["true", true],
+  ["false", false],
+  ["null", null],
+])
+
+const PUNCTUATION = "{}()[],;:.="
+const OPENERS = ["{", "(", "["]
+const CLOSERS = ["}", ")", "]"]
+const EXPRESSION_TERMINATORS = [",", ")", "]", "}", ";"]
+// Longest first, so `==~` is not read as `==`
+const OPERATORS = [
+  "==~", "<=>", "...", "**=", "?.", "?:", "*.", ".&", ".@", "..", "=~", "==", "!=", "<=", ">=",
+  "&&", "||", "->", "++", "--", "+=", "-=", "*=", "/=", "<<", ">>", "**",
+]
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" }
+
+// Mappings that stand for a call used as a value rather than a directive
+const callNodes = new WeakSet<YamlNode>()
+
+function isCallNode(node: YamlNode | undefined): node is YamlMap {
+  return node !== undefined && callNodes.has(node)
+}
+
+function isPunctuation(token: Token, value: string): boolean {
+  return token.kind === "punctuation" && token.value === value
+}
+
+function childKind(parent: BlockKind, name: string): BlockKind {
+  switch (parent) {
+    case "root":
+      return name === "pipeline" ? "section" : "steps"
+    case "stages":
+      return "section"
+    case "steps":
+    case "post":
+      return "steps"
+    default:
+      if (STAGE_DIRECTIVES.includes(name)) return "stages"
+      if (name === "steps") return "steps"
+      if (name === "post") return "post"
+      if (ENTRY_DIRECTIVES.includes(name)) return "entries"
+      if (RAW_DIRECTIVES.includes(name)) return "raw"
+      return "section"
+  }
+}
+
+// Offset just past the `}` matching a `${` whose body starts at `start`
+function closingBrace(source: string, start: number): number {
+  let depth = 1
+  let index = start
+  while (index < source.length && depth > 0) {
+    const char = source[index]
+    if (char === "'" || char === '"') {
+      index++
+      while (index < source.length && source[index] !== char) index += source[index] === "\\" ? 2 : 1
+    } else if (char === "{") {
+      depth++
+    } else if (char === "}") {
+      depth--
+    }
+    index++
+  }
+  return depth === 0 ? index : -1
+}
+
+// End of a `$name.property` reference starting at `start`
+function pathEnd(source: string, start: number): number {
+  const match = source.slice(start).match(/^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*/)
+  return match ? start + match[0].length : start
+}
+
+class Lexer {
+  private pos = 0
+  private tokens: Token[] = []
+
+  constructor(
+    private src: string,
+    private document: YamlDocument,
+  ) {}
+
+  tokenize(): Token[] {
+    if (this.src.startsWith("#!")) this.skipLine()
+    while (this.pos < this.src.length) {
+      const char = this.src[this.pos]
+      if (char === "\n") {
+        const last = this.tokens[this.tokens.length - 1]
+        if (last && last.kind !== "newline") {
+          this.push("newline", this.pos, this.pos + 1)
+        } else {
+          this.pos++
+        }
+      } else if (char === " " || char === "\t" || char === "\f") {
+        this.pos++
+      } else if (char === "\\" && this.src[this.pos + 1] === "\n") {
+        this.pos += 2
+      } else if (this.src.startsWith("//", this.pos)) {
+        this.skipLine()
+      } else if (this.src.startsWith("/*", this.pos)) {
+        const end = this.src.indexOf("*/", this.pos + 2)
+        if (end < 0) throw this.error("Unterminated comment", this.pos)
+        this.pos = end + 2
+      } else if (char === "'" || char === '"') {
+        this.tokens.push(this.readString())
+      } else if (/\d/.test(char)) {
+        const match = this.src.slice(this.pos).match(/^\d[\d_]*(\.\d[\d_]*)?([eE][+-]?\d+)?[gGlLiIdDfF]?/)!
+        this.push("number", this.pos, this.pos + match[0].length)
+      } else if (/[A-Za-z_$]/.test(char)) {
+        const match = this.src.slice(this.pos).match(/^[A-Za-z_$][\w$]*/)!
+        this.push("identifier", this.pos, this.pos + match[0].length)
+      } else {
+        const operator = OPERATORS.find((candidate) => this.src.startsWith(candidate, this.pos))
+        if (operator) {
+          this.push("operator", this.pos, this.pos + operator.length)
+        } else {
+          this.push(PUNCTUATION.includes(char) ? "punctuation" : "operator", this.pos, this.pos + 1)
+        }
+      }
+    }
+    this.tokens.push({ kind: "end", value: "end of file", start: this.src.length, end: this.src.length })
+    return this.tokens
+  }
+
+  private push(kind: TokenKind, start: number, end: number): void {
+    this.tokens.push({ kind, value: this.src.slice(start, end), start, end })
+    this.pos = end
+  }
+
+  // Single, double and triple-quoted strings. Interpolations in double-quoted strings stay as
+  // written; escapes are resolved, with a segment after each so positions map back.
+  private readString(): Token {
+    const start = this.pos
+    const quote = this.src[start]
+    const delimiter = this.src.startsWith(quote.repeat(3), start) ? quote.repeat(3) : quote
+    let pos = start + delimiter.length
+    let text = ""
+    const segments: ScalarSegment[] = [{ textOffset: 0, sourceOffset: pos }]
+
+    while (!this.src.startsWith(delimiter, pos)) {
+      const char = this.src[pos]
+      if (pos >= this.src.length || (char === "\n" && delimiter.length === 1)) throw this.error("Unterminated string", start)
+      if (char === "\\") {
+        const next = this.src[pos + 1]
+        const unicode = next === "u" ? this.src.slice(pos + 2, pos + 6) : ""
+        if (next === "\n") {
+          pos += 2
+        } else if (/^[0-9a-fA-F]{4}$/.test(unicode)) {
+          text += String.fromCharCode(parseInt(unicode, 16))
+          pos += 6
+        } else {
+          text += ESCAPES[next] ?? next
+          pos += 2
+        }
+        segments.push({ textOffset: text.length, sourceOffset: pos })
+      } else if (quote === '"' && char === "$" && this.src[pos + 1] === "{") {
+        const end = closingBrace(this.src, pos + 2)
+        if (end < 0) throw this.error("Unterminated ${} in string", pos)
+        text += this.src.slice(pos, end)
+        pos = end
+      } else {
+        text += char
+        pos++
+      }
+    }
+
+    const end = pos + delimiter.length
+    const scalar: YamlScalar = {
+      kind: "scalar",
+      value: text,
+      text,
+      style: quote === '"' ? "double-quoted" : "single-quoted",
+      segments,
+      range: this.document.rangeAt(start, end),
+    }
+    this.pos = end
+    return { kind: "string", value: this.src.slice(start, end), start, end, scalar }
+  }
+
+  private skipLine(): void {
+    const end = this.src.indexOf("\n", this.pos)
+    this.pos = end < 0 ? this.src.length : end
+  }
+
+  private error(message: string, offset: number): JenkinsfileSyntaxError {
+    const { line, column } = this.document.positionAt(offset)
+    return new JenkinsfileSyntaxError(message, { line, column })
+  }
+}
@@ -0,0 +1,276 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineImage, PipelineStep } from "./model"
+import { emptyPipeline, isObject, locate, toArray, toStringList } from "./builder-utils"
+import {
+  containerCommands,
+  containerSecrets,
+  containerVariables,
+  kubernetesManifests,
+  type KubernetesContainer,
+  type KubernetesManifest,
+} from "./kubernetes"
+
+export const ARGO_WORKFLOW_KINDS = ["Workflow", "WorkflowTemplate", "ClusterWorkflowTemplate", "CronWorkflow"]
+// Template types; a template has exactly one
+export const ARGO_TEMPLATE_TYPES = ["container", "script", "containerSet", "resource", "dag", "steps", "suspend", "http", "plugin", "data"]
+
+export interface ArgoWorkflowSpec {
+  spec: Record<string, any>
+  path: YamlPath
+  name: string
+  kind: string
+}
+
+export interface ArgoTemplate {
+  template: Record<string, any>
+  path: YamlPath
+  name: string
+}
+
+// A DAG task, or a step of a steps template, which runs another template
+export interface ArgoTask {
+  task: Record<string, any>
+  path: YamlPath
+  name: string
+  // Template whose dag or steps list the task
+  parent: string
+  dependencies: string[]
+}
+
+export function argoManifests(parsed: ParsedYAML): KubernetesManifest[] {
+  return kubernetesManifests(parsed, "argoproj.io").filter(({ kind }) => ARGO_WORKFLOW_KINDS.includes(kind))
+}
+
+// Workflow specs; CronWorkflows keep theirs under workflowSpec
+export function argoWorkflowSpecs(parsed: ParsedYAML): ArgoWorkflowSpec[] {
+  return argoManifests(parsed).flatMap(({ manifest, kind, name, path }) => {
+    const cron = kind === "CronWorkflow"
+    const spec = cron ? manifest.spec?.workflowSpec : manifest.spec
+    if (!isObject(spec)) return []
+    return [{ spec, path: cron ? [...path, "spec", "workflowSpec"] : [...path, "spec"], name: name ?? kind, kind }]
+  })
+}
+
+export function argoTemplates(workflow: ArgoWorkflowSpec): ArgoTemplate[] {
+  return toArray(workflow.spec.templates).flatMap((template: any, index: number) =>
+    isObject(template) && typeof template.name === "string"
+      ? [{ template, path: [...workflow.path, "templates", index], name: template.name }]
+      : [],
+  )
+}
+
+// Tasks named in a depends expression, e.g. "build && (test.Succeeded || lint.Failed)"
+export function argoDependsTasks(depends: string): string[] {
+  const names = Array.from(depends.matchAll(/[A-Za-z0-9][A-Za-z0-9_-]*(?:\.[A-Za-z]+)?/g), (match) => match[0].split(".")[0])
+  return [...new Set(names)]
+}
+
+// DAG tasks wait for their dependencies; each group of a steps template waits for the group before it
+export function argoTasks(template: ArgoTemplate): ArgoTask[] {
+  const { template: definition, path, name: parent } = template
+  if (isObject(definition.dag)) {
+    return toArray(definition.dag.tasks).flatMap((task: any, index: number) => {
+      if (!isObject(task) || typeof task.name !== "string") return []
+      const dependencies = typeof task.depends === "string" ? argoDependsTasks(task.depends) : toStringList(task.dependencies)
+      return [{ task, path: [...path, "dag", "tasks", index], name: task.name, parent, dependencies }]
+    })
+  }
+
+  const groups = toArray(definition.steps)
+  return groups.flatMap((group: any, groupIndex: number) =>
+    toArray(group).flatMap((task: any, index: number) => {
+      if (!isObject(task) || typeof task.name !== "string") return []
+      const previous = groupIndex > 0 ? toArray(groups[groupIndex - 1]) : []
+      const dependencies = previous.flatMap((step: any) => (isObject(step) && typeof step.name === "string" ? [step.name] : []))
+      return [{ task, path: [...path, "steps", groupIndex, index], name: task.name, parent, dependencies }]
+    }),
+  )
+}
+
+// Containers of every template; templateDefaults apply to all templates of the workflow
+export function collectArgoContainers(parsed: ParsedYAML): KubernetesContainer[] {
+  return argoWorkflowSpecs(parsed).flatMap((workflow) => {
+    const templateDefaults = isObject(workflow.spec.templateDefaults) ? workflow.spec.templateDefaults : {}
+    const containers: KubernetesContainer[] = []
+    ;(["container", "script"] as const).forEach((key) => {
+      if (isObject(templateDefaults[key])) {
+        const path = [...workflow.path, "templateDefaults", key]
+        containers.push({ container: templateDefaults[key], path, owner: workflow.name, role: "template" })
+      }
+    })
+
+    argoTemplates(workflow).forEach(({ template, path, name }) => {
+      const add = (container: any, containerPath: YamlPath, role: KubernetesContainer["role"], type: "container" | "script") => {
+        if (!isObject(container)) return
+        const defaults = role === "step" && isObject(templateDefaults[type]) ? templateDefaults[type] : undefined
+        containers.push({ container, path: containerPath, owner: name, role, defaults })
+      }
+      add(template.container, [...path, "container"], "step", "container")
+      add(template.script, [...path, "script"], "step", "script")
+      toArray(template.containerSet?.containers).forEach((container: any, index: number) =>
+        add(container, [...path, "containerSet", "containers", index], "step", "container"),
+      )
+      toArray(template.initContainers).forEach((container: any, index: number) =>
+        add(container, [...path, "initContainers", index], "init", "container"),
+      )
+      toArray(template.sidecars).forEach((container: any, index: number) =>
+        add(container, [...path, "sidecars", index], "sidecar", "container"),
+      )
+    })
+    return containers
+  })
+}
+
+// DAG tasks and steps become jobs. Workflows without either run their templates directly,
+// one job per template.
+export function buildArgoWorkflowsPipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  const pipeline = emptyPipeline("argo-workflows")
+  const workflows = argoWorkflowSpecs(parsed)
+  pipeline.name = workflows[0]?.name
+  pipeline.secrets = collectArgoContainers(parsed).flatMap(({ container, path }) => containerSecrets(container, path, document))
+
+  argoManifests(parsed)
+    .filter(({ kind }) => kind === "CronWorkflow")
+    .forEach(({ manifest, path }) => {
+      const key = manifest.spec?.schedules !== undefined ? "schedules" : "schedule"
+      pipeline.triggers.push({ event: "schedule", branches: [], tags: [], paths: [], ...locate(document, [...path, "spec", key]) })
+    })
+
+  const deadline = seconds(workflows[0]?.spec.activeDeadlineSeconds)
+  pipeline.timeoutMinutes = deadline !== undefined ? Math.round(deadline / 60) : undefined
+
+  workflows.forEach((workflow) => {
+    toArray(workflow.spec.arguments?.parameters).forEach((parameter: any) => {
+      if (isObject(parameter) && typeof parameter.name === "string" && parameter.value !== undefined) {
+        pipeline.variables[parameter.name] = String(parameter.value)
+      }
+    })
+  })
+
+  workflows.forEach((workflow) => {
+    const templates = argoTemplates(workflow)
+    const orchestrating = templates.filter(({ template }) => isObject(template.dag) || template.steps !== undefined)
+    // Task and template names only need to be unique within their template and workflow
+    const id = (parent: string | undefined, name: string) =>
+      [workflows.length > 1 ? workflow.name : undefined, parent, name].filter((part) => part !== undefined).join(".")
+
+    if (orchestrating.length === 0) {
+      templates.forEach((template) =>
+        pipeline.jobs.push({
+          id: id(undefined, template.name),
+          name: template.name,
+          image: templateImage(template, document),
+          services: [],
+          steps: buildSteps(template, document),
+          dependencies: [],
+          timeoutMinutes: deadlineMinutes(template.template),
+          caches: [],
+          artifacts: [],
+          variables: { ...pipeline.variables, ...containerVariables(template.template.container ?? template.template.script ?? {}) },
+          manual: template.template.suspend !== undefined,
+          allowFailure: false,
+          matrix: false,
+          ...locate(document, template.path),
+          raw: template.template,
+        }),
+      )
+      return
+    }
+
+    orchestrating.forEach((parent) => {
+      const scope = orchestrating.length > 1 ? parent.name : undefined
+      argoTasks(parent).forEach(({ task, path, name, dependencies }) => {
+        const target = typeof task.template === "string" ? templates.find((template) => template.name === task.template) : undefined
+        const reference = isObject(task.templateRef) ? task.templateRef : undefined
+        pipeline.jobs.push({
+          id: id(scope, name),
+          name,
+          stage: parent.name,
+          image: target ? templateImage(target, document) : undefined,
+          services: [],
+          steps: target
+            ? buildSteps(target, document)
+            : [
+                {
+                  name,
+                  // Templates of a WorkflowTemplate on the cluster
+                  uses: reference ? `${reference.name}/${reference.template}` : task.template,
+                  inputs: taskArguments(task),
+                  commands: [],
+                  ...locate(document, path),
+                  raw: task,
+                },
+              ],
+          dependencies: dependencies.map((dependency) => id(scope, dependency)),
+          timeoutMinutes: target ? deadlineMinutes(target.template) : undefined,
+          caches: [],
+          artifacts: [],
+          variables: { ...pipeline.variables, ...taskArguments(task) },
+          condition: typeof task.when === "string" ? task.when : undefined,
+          manual: target !== undefined && target.template.suspend !== undefined,
+          allowFailure: task.continueOn?.failed === true || task.continueOn?.error === true,
+          matrix: task.withItems !== undefined || task.withParam !== undefined || task.withSequence !== undefined,
+          ...locate(document, path),
+          raw: task,
+        })
+      })
+    })
+  })
+
+  return pipeline
+}
+
+// The containers a template runs; templates of other types run no commands of their own
+function buildSteps({ template, path, name }: ArgoTemplate, document: YamlDocument): PipelineStep[] {
+  const step = (container: Record<string, any>, containerPath: YamlPath, stepName: string, script: boolean): PipelineStep => ({
+    name: stepName,
+    inputs: containerVariables(container),
+    commands: script
+      ? containerCommands(container, containerPath, document, "source", toStringList(container.command)[0] ?? "sh")
+      : containerCommands(container, containerPath, document, "source"),
+    ...locate(document, containerPath),
+    raw: container,
+  })
+
+  if (isObject(template.container)) return [step(template.container, [...path, "container"], name, false)]
+  if (isObject(template.script)) return [step(template.script, [...path, "script"], name, true)]
+  if (isObject(template.containerSet)) {
+    return toArray(template.containerSet.containers).flatMap((container: any, index: number) =>
+      isObject(container)
+        ? [step(container, [...path, "containerSet", "containers", index], String(container.name ?? `${name}-${index + 1}`), false)]
+        : [],
+    )
+  }
+  // Nested dag and steps templates run other templates; the rest are resource, suspend, http and the like
+  const type = ARGO_TEMPLATE_TYPES.find((key) => template[key] !== undefined)
+  const uses = type === "dag" || type === "steps" ? name : type
+  return [{ name, uses, inputs: {}, commands: [], ...locate(document, path), raw: template }]
+}
+
+function templateImage({ template, path }: ArgoTemplate, document: YamlDocument): PipelineImage | undefined {
+  const key = isObject(template.container) ? "container" : isObject(template.script) ? "script" : undefined
+  const image = key ? template[key].image : undefined
+  return typeof image === "string" ? { name: image, ...locate(document, [...path, key!, "image"]) } : undefined
+}
+
+function taskArguments(task: Record<string, any>): Record<string, string> {
+  const variables: Record<string, string> = {}
+  toArray(task.arguments?.parameters).forEach((parameter: any) => {
+    if (isObject(parameter) && typeof parameter.name === "string" && parameter.value !== undefined) {
+      variables[parameter.name] = String(parameter.value)
+    }
+  })
+  return variables
+}
+
+function deadlineMinutes(template: Record<string, any>): number | undefined {
+  const deadline = seconds(template.activeDeadlineSeconds)
+  return deadline !== undefined ? Math.round(deadline / 60) : undefined
+}
+
+// activeDeadlineSeconds may be a number or a numeric string
+function seconds(value: any): number | undefined {
+  if (typeof value === "number") return value
+  return typeof value === "string" && /^\d+$/.test(value.trim()) ? Number(value) : undefined
+}
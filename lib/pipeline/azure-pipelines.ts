@@ -0,0 +1,179 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineArtifact, PipelineCache, PipelineJob, PipelineStep, PipelineTrigger } from "./model"
+import {
+  collectVariableSecrets,
+  commandsAt,
+  emptyPipeline,
+  isObject,
+  locate,
+  splitLines,
+  toArray,
+  toStringList,
+  toVariables,
+} from "./builder-utils"
+
+// Step shortcuts that run an inline script
+const SCRIPT_KEYS = ["script", "bash", "pwsh", "powershell"]
+// Deployment strategies and the lifecycle hooks that run steps, in execution order
+const DEPLOYMENT_STRATEGIES = ["runOnce", "rolling", "canary"]
+const DEPLOYMENT_HOOKS = ["preDeploy", "deploy", "routeTraffic", "postRouteTraffic"]
+
+export function buildAzurePipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  const pipeline = emptyPipeline("azure-pipelines")
+  pipeline.name = typeof parsed.name === "string" ? parsed.name : undefined
+  pipeline.variables = toVariables(parsed.variables)
+  pipeline.secrets = collectVariableSecrets(document, "macro")
+  pipeline.triggers = [
+    ...buildTriggers("push", parsed.trigger, ["trigger"], document),
+    ...buildTriggers("pull_request", parsed.pr, ["pr"], document),
+  ]
+
+  // A pipeline is either stages of jobs, a list of jobs, or a single implicit job of steps
+  if (Array.isArray(parsed.stages)) {
+    parsed.stages.forEach((stage: any, stageIndex: number) => {
+      if (!isObject(stage)) return
+      toArray(stage.jobs).forEach((job: any, jobIndex: number) => {
+        if (isObject(job)) {
+          pipeline.jobs.push(buildJob(job, ["stages", stageIndex, "jobs", jobIndex], document, parsed, stage.stage, stage.pool))
+        }
+      })
+    })
+  } else if (Array.isArray(parsed.jobs)) {
+    parsed.jobs.forEach((job: any, index: number) => {
+      if (isObject(job)) pipeline.jobs.push(buildJob(job, ["jobs", index], document, parsed))
+    })
+  } else if (Array.isArray(parsed.steps)) {
+    pipeline.jobs.push(buildJob({ job: "default", steps: parsed.steps }, [], document, parsed))
+  }
+
+  return pipeline
+}
+
+function buildTriggers(event: string, trigger: any, path: YamlPath, document: YamlDocument): PipelineTrigger[] {
+  if (trigger === undefined || trigger === "none") return []
+  const location = locate(document, path)
+
+  if (Array.isArray(trigger) || typeof trigger === "string") {
+    return [{ event, branches: toStringList(trigger), tags: [], paths: [], ...location }]
+  }
+  if (!isObject(trigger)) return []
+
+  return [
+    {
+      event,
+      branches: toStringList(isObject(trigger.branches) ? trigger.branches.include : trigger.branches),
+      tags: toStringList(isObject(trigger.tags) ? trigger.tags.include : trigger.tags),
+      paths: toStringList(isObject(trigger.paths) ? trigger.paths.include : trigger.paths),
+      ...location,
+    },
+  ]
+}
+
+function buildJob(
+  job: Record<string, any>,
+  path: YamlPath,
+  document: YamlDocument,
+  parsed: ParsedYAML,
+  stage?: string,
+  stagePool?: any,
+): PipelineJob {
+  const stepLists =
+    job.deployment !== undefined
+      ? deploymentSteps(job.strategy, [...path, "strategy"])
+      : [{ steps: job.steps, path: [...path, "steps"] as YamlPath }]
+  const steps = stepLists.flatMap(({ steps: list, path: listPath }) =>
+    toArray(list)
+      .map((step: any, index: number) => (isObject(step) ? buildStep(step, [...listPath, index], document) : null))
+      .filter((step: PipelineStep | null): step is PipelineStep => step !== null),
+  )
+
+  const pool = job.pool ?? stagePool ?? parsed.pool
+  const container = job.container ?? parsed.container
+
+  return {
+    id: String(job.job ?? job.deployment ?? job.template ?? path.join(".")),
+    name: typeof job.displayName === "string" ? job.displayName : undefined,
+    stage,
+    runner: isObject(pool) ? (pool.vmImage ?? pool.name) : pool !== undefined ? String(pool) : undefined,
+    image: container
+      ? {
+          name: String(isObject(container) ? container.image : container),
+          ...locate(document, job.container ? [...path, "container"] : ["container"]),
+        }
+      : undefined,
+    services: isObject(job.services)
+      ? Object.entries(job.services).map(([name, service]) => ({
+          name: String(service),
+          ...locate(document, [...path, "services", name]),
+        }))
+      : [],
+    steps,
+    dependencies: toStringList(job.dependsOn),
+    environment: isObject(job.environment) ? job.environment.name : job.environment,
+    timeoutMinutes: typeof job.timeoutInMinutes === "number" ? job.timeoutInMinutes : undefined,
+    caches: steps.map((step) => buildCache(step)).filter((cache): cache is PipelineCache => cache !== null),
+    artifacts: steps.map((step) => buildArtifact(step)).filter((artifact): artifact is PipelineArtifact => artifact !== null),
+    variables: toVariables(job.variables),
+    condition: job.condition !== undefined ? String(job.condition) : undefined,
+    manual: false,
+    allowFailure: job.continueOnError === true,
+    matrix: Boolean(job.strategy?.matrix),
+    ...locate(document, path),
+    raw: job,
+  }
+}
+
+// Deployment jobs nest their steps under lifecycle hooks of a strategy, such as `runOnce.deploy`
+function deploymentSteps(strategy: any, path: YamlPath): Array<{ steps: any; path: YamlPath }> {
+  if (!isObject(strategy)) return []
+  return DEPLOYMENT_STRATEGIES.filter((name) => isObject(strategy[name])).flatMap((name) => {
+    const hooks = strategy[name]
+    return [
+      ...DEPLOYMENT_HOOKS.map((hook) => ({ steps: hooks[hook]?.steps, path: [...path, name, hook, "steps"] })),
+      ...["failure", "success"].map((outcome) => ({ steps: hooks.on?.[outcome]?.steps, path: [...path, name, "on", outcome, "steps"] })),
+    ].filter((list) => list.steps !== undefined)
+  })
+}
+
+function buildStep(step: Record<string, any>, path: YamlPath, document: YamlDocument): PipelineStep {
+  const scriptKey = SCRIPT_KEYS.find((key) => typeof step[key] === "string")
+  return {
+    name: typeof step.displayName === "string" ? step.displayName : undefined,
+    uses: typeof step.task === "string" ? step.task : typeof step.template === "string" ? step.template : undefined,
+    inputs: isObject(step.inputs) ? step.inputs : {},
+    commands: scriptKey ? commandsAt(document, step[scriptKey], [...path, scriptKey]) : [],
+    condition: step.condition !== undefined ? String(step.condition) : undefined,
+    timeoutMinutes: typeof step.timeoutInMinutes === "number" ? step.timeoutInMinutes : undefined,
+    ...locate(document, path),
+    raw: step,
+  }
+}
+
+function taskName(uses?: string): string {
+  return (uses ?? "").split("@")[0].toLowerCase()
+}
+
+function buildCache(step: PipelineStep): PipelineCache | null {
+  if (taskName(step.uses) !== "cache") return null
+  const key = step.inputs.key !== undefined ? String(step.inputs.key) : undefined
+  return {
+    key,
+    // Keys are `|`-separated segments; file paths in a segment are hashed
+    keyIsDynamic: !!key && key.split("|").some((segment) => /[*/.]/.test(segment.replace(/\$\([^)]*\)/g, "").trim())),
+    paths: toStringList(step.inputs.path),
+    restoreKeys: splitLines(step.inputs.restoreKeys),
+    path: step.path,
+    range: step.range,
+  }
+}
+
+function buildArtifact(step: PipelineStep): PipelineArtifact | null {
+  const task = taskName(step.uses)
+  if (step.raw.publish !== undefined) {
+    return { paths: toStringList(step.raw.publish), path: step.path, range: step.range }
+  }
+  if (task !== "publishpipelineartifact" && task !== "publishbuildartifacts") return null
+  const target = step.inputs.targetPath ?? step.inputs.PathtoPublish ?? step.inputs.path
+  return { paths: toStringList(target), path: step.path, range: step.range }
+}
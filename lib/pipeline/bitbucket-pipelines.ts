@@ -0,0 +1,218 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineCache, PipelineImage, PipelineJob, PipelineStep, PipelineTrigger } from "./model"
+import {
+  collectVariableSecrets,
+  commandsAt,
+  emptyPipeline,
+  isObject,
+  locate,
+  parseDurationMinutes,
+  toStringList,
+} from "./builder-utils"
+
+export interface BitbucketStepEntry {
+  step: any
+  path: YamlPath
+  context: string
+}
+
+// Sections holding named pipelines, with the label used when reporting on them
+const PIPELINE_SECTIONS: Record<string, { label: string; event: string }> = {
+  branches: { label: "branch", event: "push" },
+  tags: { label: "tag", event: "tag" },
+  bookmarks: { label: "bookmark", event: "push" },
+  "pull-requests": { label: "pull request", event: "pull_request" },
+  custom: { label: "custom pipeline", event: "manual" },
+}
+
+// Every step in every pipeline section, in document order, with its YAML path.
+// Steps reused through aliases appear once per use site.
+export function collectBitbucketSteps(pipelines: any): BitbucketStepEntry[] {
+  const entries: BitbucketStepEntry[] = []
+  if (!isObject(pipelines)) return entries
+
+  const visitItems = (items: any, path: YamlPath, context: string) => {
+    if (!Array.isArray(items)) return
+    items.forEach((item, index) => {
+      if (!isObject(item)) return
+      const itemPath = [...path, index]
+      if (item.step) {
+        entries.push({ step: item.step, path: [...itemPath, "step"], context })
+      } else if (item.parallel) {
+        // `parallel` is either a list of steps or an object with a `steps` list
+        if (Array.isArray(item.parallel)) {
+          visitItems(item.parallel, [...itemPath, "parallel"], context)
+        } else {
+          visitItems(item.parallel.steps, [...itemPath, "parallel", "steps"], context)
+        }
+      } else if (item.stage) {
+        visitItems(item.stage.steps, [...itemPath, "stage", "steps"], context)
+      }
+    })
+  }
+
+  visitItems(pipelines.default, ["pipelines", "default"], "default")
+
+  Object.entries(PIPELINE_SECTIONS).forEach(([section, { label }]) => {
+    const pipelinesByName = pipelines[section]
+    if (!isObject(pipelinesByName)) return
+    Object.entries(pipelinesByName).forEach(([name, items]) => {
+      visitItems(items, ["pipelines", section, name], `${label} ${name}`)
+    })
+  })
+
+  return entries
+}
+
+export function buildBitbucketPipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  const pipeline = emptyPipeline("bitbucket-pipelines")
+  pipeline.triggers = buildTriggers(parsed.pipelines, document)
+  pipeline.secrets = collectVariableSecrets(document)
+  pipeline.timeoutMinutes = parseDurationMinutes(parsed.options?.["max-time"])
+
+  const definitions = isObject(parsed.definitions) ? parsed.definitions : {}
+  const customCaches = isObject(definitions.caches) ? definitions.caches : {}
+  const services = isObject(definitions.services) ? definitions.services : {}
+
+  const cacheDefinitions = new Map<string, PipelineCache>()
+  Object.entries(customCaches).forEach(([name, cache]) => {
+    cacheDefinitions.set(name, buildCacheDefinition(cache, ["definitions", "caches", name], document))
+  })
+  pipeline.caches = Array.from(cacheDefinitions.values())
+
+  const defaultImage = parsed.image
+    ? { name: imageName(parsed.image), ...locate(document, ["image"]) }
+    : undefined
+
+  pipeline.jobs = collectBitbucketSteps(parsed.pipelines)
+    .filter(({ step }) => isObject(step))
+    .map(({ step, path, context }, index): PipelineJob => {
+      const image: PipelineImage | undefined = step.image
+        ? { name: imageName(step.image), ...locate(document, [...path, "image"]) }
+        : defaultImage
+
+      return {
+        id: `${context}/${index + 1}`,
+        name: typeof step.name === "string" ? step.name : undefined,
+        stage: context,
+        runner: step.size !== undefined ? String(step.size) : undefined,
+        image,
+        services: toStringList(step.services).map((service, serviceIndex) => ({
+          // Service names refer to `definitions.services`; `docker` is built in
+          name: isObject(services[service]) && services[service].image ? imageName(services[service].image) : service,
+          ...locate(document, [...path, "services", serviceIndex]),
+        })),
+        steps: buildSteps(step, path, document),
+        dependencies: [],
+        environment: typeof step.deployment === "string" ? step.deployment : undefined,
+        timeoutMinutes: parseDurationMinutes(step["max-time"]),
+        caches: toStringList(step.caches).map((name, cacheIndex) => {
+          // Predefined caches such as `node` or `pip` have no key of their own
+          const definition = cacheDefinitions.get(name)
+          return {
+            key: definition?.key,
+            keyIsDynamic: definition?.keyIsDynamic ?? false,
+            paths: definition?.paths ?? [],
+            ...locate(document, [...path, "caches", cacheIndex]),
+          }
+        }),
+        artifacts: buildArtifacts(step.artifacts, [...path, "artifacts"], document),
+        variables: {},
+        condition: step.condition ? JSON.stringify(step.condition) : undefined,
+        manual: step.trigger === "manual",
+        allowFailure: step.allow_failure === true,
+        matrix: false,
+        ...locate(document, path),
+        raw: step,
+      }
+    })
+
+  return pipeline
+}
+
+function buildTriggers(pipelines: any, document: YamlDocument): PipelineTrigger[] {
+  if (!isObject(pipelines)) return []
+  const triggers: PipelineTrigger[] = []
+
+  if (pipelines.default) {
+    triggers.push({ event: "push", branches: [], tags: [], paths: [], ...locate(document, ["pipelines", "default"]) })
+  }
+
+  Object.entries(PIPELINE_SECTIONS).forEach(([section, { event }]) => {
+    if (!isObject(pipelines[section])) return
+    Object.keys(pipelines[section]).forEach((name) => {
+      triggers.push({
+        event,
+        branches: section === "branches" || section === "pull-requests" || section === "bookmarks" ? [name] : [],
+        tags: section === "tags" ? [name] : [],
+        paths: [],
+        ...locate(document, ["pipelines", section, name]),
+      })
+    })
+  })
+
+  return triggers
+}
+
+function buildSteps(step: Record<string, any>, path: YamlPath, document: YamlDocument): PipelineStep[] {
+  const steps: PipelineStep[] = [
+    {
+      name: "script",
+      inputs: {},
+      commands: commandsAt(document, step.script, [...path, "script"]),
+      ...locate(document, [...path, "script"]),
+      raw: step.script,
+    },
+  ]
+
+  // Pipes are listed between commands as `- pipe: owner/name:version` entries
+  if (Array.isArray(step.script)) {
+    step.script.forEach((entry: any, index: number) => {
+      if (!isObject(entry) || typeof entry.pipe !== "string") return
+      steps.push({
+        name: entry.pipe,
+        uses: entry.pipe,
+        inputs: isObject(entry.variables) ? entry.variables : {},
+        commands: [],
+        ...locate(document, [...path, "script", index]),
+        raw: entry,
+      })
+    })
+  }
+
+  if (step["after-script"]) {
+    steps.push({
+      name: "after-script",
+      inputs: {},
+      commands: commandsAt(document, step["after-script"], [...path, "after-script"]),
+      ...locate(document, [...path, "after-script"]),
+      raw: step["after-script"],
+    })
+  }
+
+  return steps
+}
+
+function imageName(image: any): string {
+  return String(isObject(image) ? image.name : image)
+}
+
+function buildCacheDefinition(cache: any, path: YamlPath, document: YamlDocument): PipelineCache {
+  // Custom caches are either a plain path or `{ key: { files: [...] }, path }`
+  if (isObject(cache)) {
+    const files = isObject(cache.key) ? toStringList(cache.key.files) : []
+    return {
+      key: files.length > 0 ? files.join(", ") : undefined,
+      keyIsDynamic: files.length > 0,
+      paths: toStringList(cache.path),
+      ...locate(document, path),
+    }
+  }
+  return { key: undefined, keyIsDynamic: false, paths: toStringList(cache), ...locate(document, path) }
+}
+
+function buildArtifacts(artifacts: any, path: YamlPath, document: YamlDocument) {
+  const paths = isObject(artifacts) ? toStringList(artifacts.paths) : toStringList(artifacts)
+  return paths.length > 0 ? [{ paths, ...locate(document, path) }] : []
+}
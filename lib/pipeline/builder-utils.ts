@@ -0,0 +1,149 @@
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineCommand, PipelineLocation, SecretReference } from "./model"
+import { collectContextReferences, extractExpressions, parseExpression, type ExpressionNode } from "../github-expressions"
+
+// Variable names that conventionally hold credentials
+const SECRET_NAME_PATTERN = /(SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|PRIVATE_?KEY|ACCESS_?KEY|CREDENTIAL)/i
+
+export function emptyPipeline(platform: string): Pipeline {
+  return { platform, triggers: [], jobs: [], variables: {}, caches: [], secrets: [] }
+}
+
+// Jobs by name, for checks that read the raw configuration. Azure lists its jobs, so they are
+// named as in the model, by job, deployment or displayName, with displayName read as `name`.
+export function jobEntries(parsed: any, pipeline: Pipeline): [string, any][] {
+  if (!Array.isArray(parsed.jobs)) return Object.entries(parsed.jobs ?? {})
+  return pipeline.jobs.map((job) => [
+    job.id,
+    { ...job.raw, name: job.name, steps: job.steps.map((step) => ({ ...step.raw, name: step.name })) },
+  ])
+}
+
+export function locate(document: YamlDocument, path: YamlPath): PipelineLocation {
+  return { path, range: document.getRange(path) }
+}
+
+export function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+}
+
+export function toArray<T = any>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+export function toStringList(value: any): string[] {
+  return toArray(value)
+    .filter((item) => typeof item === "string" || typeof item === "number")
+    .map((item) => String(item))
+}
+
+// Multi-line inputs such as `path: |` list one entry per line
+export function splitLines(value: any): string[] {
+  if (typeof value !== "string") return toStringList(value)
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+}
+
+export function toVariables(value: any): Record<string, string> {
+  const variables: Record<string, string> = {}
+  if (Array.isArray(value)) {
+    // Azure style list of { name, value } entries
+    value.forEach((entry) => {
+      if (isObject(entry) && typeof entry.name === "string") variables[entry.name] = String(entry.value ?? "")
+    })
+  } else if (isObject(value)) {
+    Object.entries(value).forEach(([name, entry]) => {
+      // GitLab allows { value, description } definitions
+      variables[name] = isObject(entry) ? String(entry.value ?? "") : String(entry ?? "")
+    })
+  }
+  return variables
+}
+
+// Accepts plain minutes or durations like "1h 30m", "90 minutes", "45m" and Go's "1h30m0s"
+export function parseDurationMinutes(value: any): number | undefined {
+  if (typeof value === "number") return value
+  if (typeof value !== "string") return undefined
+
+  const text = value.trim().toLowerCase()
+  if (/^\d+(\.\d+)?$/.test(text)) return Number(text)
+
+  const units: Record<string, number> = { s: 1 / 60, m: 1, h: 60, d: 1440 }
+  let minutes = 0
+  let matched = false
+  const durationPattern = /(\d+(?:\.\d+)?)\s*(s|sec|secs|seconds?|m|min|mins|minutes?|h|hr|hrs|hours?|d|days?)(?![a-z])/g
+  let match: RegExpExecArray | null
+  while ((match = durationPattern.exec(text)) !== null) {
+    matched = true
+    minutes += Number(match[1]) * units[match[2][0]]
+  }
+  return matched ? Math.round(minutes) : undefined
+}
+
+// Script entries may be a single string or a (nested) list of strings
+export function commandsAt(document: YamlDocument, value: any, path: YamlPath): PipelineCommand[] {
+  if (typeof value === "string") {
+    return [{ text: value, ...locate(document, path) }]
+  }
+  if (!Array.isArray(value)) return []
+
+  const commands: PipelineCommand[] = []
+  value.forEach((item, index) => {
+    if (typeof item === "string" || Array.isArray(item)) {
+      commands.push(...commandsAt(document, item, [...path, index]))
+    }
+  })
+  return commands
+}
+
+// GitHub style `${{ secrets.NAME }}` (or `secrets['NAME']`) references
+export function collectExpressionSecrets(document: YamlDocument): SecretReference[] {
+  const references: SecretReference[] = []
+  document.visitScalars((scalar, path) => {
+    if (typeof scalar.value !== "string") return
+    extractExpressions(scalar.text).forEach((expression) => {
+      let node: ExpressionNode
+      try {
+        node = parseExpression(expression.source)
+      } catch {
+        return
+      }
+      collectContextReferences(node).forEach((reference) => {
+        if (reference.path[0].toLowerCase() !== "secrets" || reference.path.length < 2) return
+        references.push({
+          name: reference.path[1],
+          expression: scalar.text.slice(expression.outerStart, expression.outerEnd),
+          path,
+          range: document.scalarRange(scalar, expression.start + reference.start, expression.start + reference.end),
+        })
+      })
+    })
+  })
+  return references
+}
+
+// Shell (`$NAME`, `${NAME}`) or Azure macro (`$(NAME)`) references to credential-like variables
+export function collectVariableSecrets(document: YamlDocument, syntax: "shell" | "macro" = "shell"): SecretReference[] {
+  const references: SecretReference[] = []
+  const variablePattern =
+    syntax === "macro" ? /\$\(([A-Za-z_][A-Za-z0-9_.]*)\)/g : /\$\{?([A-Za-z_][A-Za-z0-9_]*)\}?/g
+
+  document.visitScalars((scalar, path) => {
+    if (typeof scalar.value !== "string") return
+    const pattern = new RegExp(variablePattern.source, "g")
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(scalar.text)) !== null) {
+      if (!SECRET_NAME_PATTERN.test(match[1])) continue
+      references.push({
+        name: match[1],
+        expression: match[0],
+        path,
+        range: document.scalarRange(scalar, match.index, match.index + match[0].length),
+      })
+    }
+  })
+  return references
+}
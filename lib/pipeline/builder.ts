@@ -0,0 +1,46 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument } from "../yaml-parser"
+import type { Pipeline } from "./model"
+import { emptyPipeline } from "./builder-utils"
+import { buildGitHubActionsPipeline } from "./github-actions"
+import { buildActionMetadataPipeline } from "./github-action-metadata"
+import { buildGitLabCIPipeline } from "./gitlab-ci"
+import { buildBitbucketPipeline } from "./bitbucket-pipelines"
+import { buildAzurePipeline } from "./azure-pipelines"
+import { buildCircleCIPipeline } from "./circleci"
+import { buildJenkinsPipeline } from "./jenkins"
+import { buildBuildkitePipeline } from "./buildkite"
+import { buildDronePipeline, buildWoodpeckerPipeline } from "./drone"
+import { buildTravisPipeline } from "./travis-ci"
+import { buildCodeBuildPipeline } from "./codebuild"
+import { buildCloudBuildPipeline } from "./cloud-build"
+import { buildTektonPipeline } from "./tekton"
+import { buildArgoWorkflowsPipeline } from "./argo-workflows"
+
+type PipelineBuilder = (parsed: ParsedYAML, document: YamlDocument) => Pipeline
+
+const builders: Record<string, PipelineBuilder> = {
+  "github-actions": buildGitHubActionsPipeline,
+  "github-action-metadata": buildActionMetadataPipeline,
+  "gitlab-ci": buildGitLabCIPipeline,
+  "bitbucket-pipelines": buildBitbucketPipeline,
+  "azure-pipelines": buildAzurePipeline,
+  "azure-devops": buildAzurePipeline,
+  circleci: buildCircleCIPipeline,
+  jenkins: buildJenkinsPipeline,
+  buildkite: buildBuildkitePipeline,
+  drone: buildDronePipeline,
+  woodpecker: buildWoodpeckerPipeline,
+  "travis-ci": buildTravisPipeline,
+  "aws-codebuild": buildCodeBuildPipeline,
+  "google-cloud-build": buildCloudBuildPipeline,
+  tekton: buildTektonPipeline,
+  "argo-workflows": buildArgoWorkflowsPipeline,
+}
+
+// Platforms without a builder get an empty model so rules can run unconditionally
+export function buildPipeline(parsed: ParsedYAML, platform: string, document: YamlDocument): Pipeline {
+  const builder = builders[platform]
+  if (!builder || !parsed || typeof parsed !== "object") return emptyPipeline(platform)
+  return builder(parsed, document)
+}
@@ -0,0 +1,160 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineImage, PipelineJob, PipelineStep } from "./model"
+import { collectVariableSecrets, commandsAt, emptyPipeline, isObject, locate, toStringList, toVariables } from "./builder-utils"
+
+// Step types other than command steps; each is a single key naming the step
+export const BUILDKITE_STEP_TYPES = ["wait", "block", "input", "trigger", "group"]
+// Plugins that run the step's commands in a container
+const CONTAINER_PLUGINS = ["docker", "docker-compose"]
+
+export interface BuildkiteStepEntry {
+  step: any
+  path: YamlPath
+  // Group the step is nested in
+  group?: string
+}
+
+// Every entry of the top-level steps list and of group steps, in document order
+export function collectBuildkiteSteps(steps: any, path: YamlPath = ["steps"], group?: string): BuildkiteStepEntry[] {
+  if (!Array.isArray(steps)) return []
+  return steps.flatMap((step: any, index: number) => {
+    const entry = { step, path: [...path, index], group }
+    if (!isObject(step) || step.group === undefined) return [entry]
+    const label = typeof step.group === "string" ? step.group : step.label
+    return [entry, ...collectBuildkiteSteps(step.steps, [...path, index, "steps"], label)]
+  })
+}
+
+// Key other steps use to depend on a step
+export function buildkiteStepKey(step: any): string | undefined {
+  if (!isObject(step)) return undefined
+  const key = step.key ?? step.id ?? step.identifier
+  return typeof key === "string" ? key : undefined
+}
+
+// `wait` and `block` steps wait for everything above them; `depends_on` replaces that
+// for the step it is set on. Steps after a block step need someone to unblock the build.
+export function buildBuildkitePipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  const pipeline = emptyPipeline("buildkite")
+  pipeline.variables = toVariables(parsed.env)
+  pipeline.secrets = collectVariableSecrets(document)
+  // Builds are started by the webhooks configured in the pipeline settings
+  pipeline.triggers = [{ event: "push", branches: [], tags: [], paths: [], ...locate(document, ["steps"]) }]
+
+  let barrier: string[] = []
+  let sinceBarrier: string[] = []
+  let blocked = false
+  collectBuildkiteSteps(parsed.steps).forEach(({ step, path, group }, index) => {
+    const type = typeof step === "string" ? step : BUILDKITE_STEP_TYPES.find((name) => isObject(step) && step[name] !== undefined)
+    if (type === "wait" || type === "block" || type === "input") {
+      barrier = [...barrier, ...sinceBarrier]
+      sinceBarrier = []
+      blocked = blocked || type !== "wait"
+      return
+    }
+    if (!isObject(step) || type === "group") return
+
+    const id = buildkiteStepKey(step) ?? (typeof step.label === "string" ? step.label : `step-${index + 1}`)
+    sinceBarrier.push(id)
+    // Trigger steps start another pipeline and run nothing themselves
+    if (type === "trigger") return
+
+    pipeline.jobs.push(buildJob(step, id, path, document, {
+      group,
+      dependencies: step.depends_on !== undefined ? dependencyKeys(step.depends_on) : barrier,
+      manual: blocked,
+      variables: { ...pipeline.variables, ...toVariables(step.env) },
+    }))
+  })
+
+  return pipeline
+}
+
+function buildJob(
+  step: Record<string, any>,
+  id: string,
+  path: YamlPath,
+  document: YamlDocument,
+  context: { group?: string; dependencies: string[]; manual: boolean; variables: Record<string, string> },
+): PipelineJob {
+  const plugins = pluginSteps(step.plugins, [...path, "plugins"], document)
+  const command = step.commands !== undefined ? "commands" : "command"
+  const steps: PipelineStep[] = [
+    ...plugins,
+    {
+      name: typeof step.label === "string" ? step.label : undefined,
+      inputs: {},
+      commands: commandsAt(document, step[command], [...path, command]),
+      ...locate(document, [...path, command]),
+      raw: step[command],
+    },
+  ]
+
+  return {
+    id,
+    name: typeof step.label === "string" ? step.label : undefined,
+    stage: context.group,
+    runner: isObject(step.agents) && typeof step.agents.queue === "string" ? step.agents.queue : undefined,
+    image: containerImage(plugins, document),
+    services: [],
+    steps,
+    dependencies: context.dependencies,
+    timeoutMinutes: typeof step.timeout_in_minutes === "number" ? step.timeout_in_minutes : undefined,
+    caches: [],
+    artifacts: artifactPaths(step.artifact_paths).length > 0
+      ? [{ paths: artifactPaths(step.artifact_paths), ...locate(document, [...path, "artifact_paths"]) }]
+      : [],
+    variables: context.variables,
+    condition: typeof step.if === "string" ? step.if : undefined,
+    manual: context.manual,
+    allowFailure: step.soft_fail !== undefined && step.soft_fail !== false,
+    matrix: step.matrix !== undefined || (typeof step.parallelism === "number" && step.parallelism > 1),
+    ...locate(document, path),
+    raw: step,
+  }
+}
+
+// Plugins are listed as `- docker#v5.9.0: { image: node:20 }` or as a bare name
+function pluginSteps(plugins: any, path: YamlPath, document: YamlDocument): PipelineStep[] {
+  const entries: [string, any, YamlPath][] = []
+  if (Array.isArray(plugins)) {
+    plugins.forEach((plugin, index) => {
+      if (typeof plugin === "string") entries.push([plugin, null, [...path, index]])
+      else if (isObject(plugin)) Object.entries(plugin).forEach(([name, config]) => entries.push([name, config, [...path, index, name]]))
+    })
+  } else if (isObject(plugins)) {
+    Object.entries(plugins).forEach(([name, config]) => entries.push([name, config, [...path, name]]))
+  }
+
+  return entries.map(([name, config, pluginPath]) => ({
+    name: pluginName(name),
+    uses: name,
+    inputs: isObject(config) ? config : {},
+    commands: [],
+    ...locate(document, pluginPath),
+    raw: config,
+  }))
+}
+
+function containerImage(plugins: PipelineStep[], document: YamlDocument): PipelineImage | undefined {
+  const plugin = plugins.find((step) => CONTAINER_PLUGINS.includes(pluginName(step.uses ?? "")))
+  if (!plugin || typeof plugin.inputs.image !== "string") return undefined
+  return { name: plugin.inputs.image, ...locate(document, [...plugin.path, "image"]) }
+}
+
+// `docker#v5.9.0` and `https://github.com/org/docker-buildkite-plugin#v1` both name the docker plugin
+export function pluginName(reference: string): string {
+  const name = reference.split("#")[0].split("/").pop() ?? reference
+  return name.replace(/\.git$/, "").replace(/-buildkite-plugin$/, "")
+}
+
+function dependencyKeys(dependsOn: any): string[] {
+  const entries = Array.isArray(dependsOn) ? dependsOn : [dependsOn]
+  return entries.flatMap((entry) => (isObject(entry) ? toStringList(entry.step) : toStringList(entry)))
+}
+
+// A single string separates paths with semicolons
+function artifactPaths(value: any): string[] {
+  return toStringList(value).flatMap((entry) => entry.split(";").map((item) => item.trim()).filter(Boolean))
+}
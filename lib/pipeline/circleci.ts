@@ -0,0 +1,180 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineArtifact, PipelineCache, PipelineJob, PipelineStep, PipelineTrigger } from "./model"
+import {
+  collectVariableSecrets,
+  commandsAt,
+  emptyPipeline,
+  isObject,
+  locate,
+  parseDurationMinutes,
+  toArray,
+  toStringList,
+  toVariables,
+} from "./builder-utils"
+
+interface WorkflowJobInfo {
+  workflow: string
+  requires: string[]
+  // Waits for an approval job
+  manual: boolean
+  matrix: boolean
+}
+
+export function buildCircleCIPipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  const pipeline = emptyPipeline("circleci")
+  pipeline.secrets = collectVariableSecrets(document)
+
+  const workflowJobs = new Map<string, WorkflowJobInfo>()
+  if (isObject(parsed.workflows)) {
+    Object.entries(parsed.workflows).forEach(([workflowName, workflow]) => {
+      if (!isObject(workflow)) return
+      pipeline.triggers.push(...buildTriggers(workflowName, workflow, document))
+
+      // Entries are either a job name or `{ name: { requires, filters, ... } }`; `name:` renames an invocation
+      const entries = toArray(workflow.jobs).flatMap((entry: any) => {
+        const [jobName, config] = typeof entry === "string" ? [entry, {}] : Object.entries(entry ?? {})[0] ?? []
+        if (typeof jobName !== "string") return []
+        const options = isObject(config) ? config : {}
+        return [{ name: typeof options.name === "string" ? options.name : jobName, options }]
+      })
+      const approvals = new Map(entries.filter((entry) => entry.options.type === "approval").map((entry) => [entry.name, entry]))
+
+      // Approval jobs are not run; jobs behind one wait for it and for what it requires
+      const resolve = (requires: string[], seen: Set<string>): { requires: string[]; manual: boolean } => {
+        let manual = false
+        const resolved = requires.flatMap((name) => {
+          const approval = approvals.get(name)
+          if (!approval) return [name]
+          manual = true
+          if (seen.has(name)) return []
+          seen.add(name)
+          return resolve(toStringList(approval.options.requires), seen).requires
+        })
+        return { requires: resolved, manual }
+      }
+
+      entries.forEach(({ name, options }) => {
+        if (options.type === "approval") return
+        const { requires, manual } = resolve(toStringList(options.requires), new Set())
+        const existing = workflowJobs.get(name)
+        workflowJobs.set(name, {
+          workflow: existing?.workflow ?? workflowName,
+          requires: [...(existing?.requires ?? []), ...requires],
+          manual: (existing?.manual ?? false) || manual,
+          matrix: (existing?.matrix ?? false) || isObject(options.matrix),
+        })
+      })
+    })
+  }
+
+  if (isObject(parsed.jobs)) {
+    pipeline.jobs = Object.entries(parsed.jobs)
+      .filter(([, job]) => isObject(job))
+      .map(([jobName, job]) => buildJob(jobName, job, ["jobs", jobName], document, workflowJobs.get(jobName)))
+  }
+
+  return pipeline
+}
+
+function buildTriggers(workflowName: string, workflow: Record<string, any>, document: YamlDocument): PipelineTrigger[] {
+  const scheduled = toArray(workflow.triggers).filter((trigger: any) => isObject(trigger) && trigger.schedule)
+  if (scheduled.length > 0) {
+    return scheduled.map((trigger: any, index: number) => ({
+      event: "schedule",
+      branches: toStringList(trigger.schedule.filters?.branches?.only),
+      tags: [],
+      paths: [],
+      ...locate(document, ["workflows", workflowName, "triggers", index]),
+    }))
+  }
+  return [{ event: "push", branches: [], tags: [], paths: [], ...locate(document, ["workflows", workflowName]) }]
+}
+
+function buildJob(
+  jobName: string,
+  job: Record<string, any>,
+  path: YamlPath,
+  document: YamlDocument,
+  workflow?: WorkflowJobInfo,
+): PipelineJob {
+  const steps = toArray(job.steps).map((step: any, index: number) => buildStep(step, [...path, "steps", index], document))
+  const docker = toArray(job.docker).filter(isObject)
+  const primary = docker[0]
+
+  // Fallback keys come from `restore_cache`, the key itself from `save_cache`
+  const restoreSteps = steps.filter((step) => step.uses === "restore_cache")
+  const restoreKeys = restoreSteps.flatMap((step) => toStringList(step.inputs.keys).slice(1))
+
+  return {
+    id: jobName,
+    name: jobName,
+    stage: workflow?.workflow,
+    runner: job.resource_class ?? (job.machine ? "machine" : job.macos ? "macos" : docker.length > 0 ? "docker" : undefined),
+    image: primary
+      ? { name: String(primary.image), ...locate(document, [...path, "docker", 0]) }
+      : isObject(job.machine) && job.machine.image
+        ? { name: String(job.machine.image), ...locate(document, [...path, "machine", "image"]) }
+        : undefined,
+    services: docker.slice(1).map((service, index) => ({
+      name: String(service.image),
+      ...locate(document, [...path, "docker", index + 1]),
+    })),
+    steps,
+    dependencies: workflow?.requires ?? [],
+    timeoutMinutes: undefined,
+    caches: steps
+      .filter((step) => step.uses === "save_cache")
+      .map((step): PipelineCache => {
+        const key = step.inputs.key !== undefined ? String(step.inputs.key) : undefined
+        return {
+          key,
+          // Templates such as `{{ checksum "package-lock.json" }}` vary the key
+          keyIsDynamic: !!key && key.includes("{{"),
+          paths: toStringList(step.inputs.paths),
+          restoreKeys,
+          path: step.path,
+          range: step.range,
+        }
+      }),
+    artifacts: steps
+      .filter((step) => step.uses === "store_artifacts")
+      .map((step): PipelineArtifact => ({ paths: toStringList(step.inputs.path), path: step.path, range: step.range })),
+    variables: toVariables(job.environment),
+    manual: workflow?.manual ?? false,
+    allowFailure: false,
+    matrix: workflow?.matrix ?? false,
+    ...locate(document, path),
+    raw: job,
+  }
+}
+
+function buildStep(step: any, path: YamlPath, document: YamlDocument): PipelineStep {
+  // Steps are a bare name (`checkout`), `run: <command>` or `<step-or-orb-command>: { ...params }`
+  if (typeof step === "string") {
+    return { name: step, uses: step, inputs: {}, commands: [], ...locate(document, path), raw: step }
+  }
+
+  const [stepName, config] = (isObject(step) ? Object.entries(step)[0] : undefined) ?? ["unknown", undefined]
+  if (stepName === "run") {
+    const command = isObject(config) ? config.command : config
+    return {
+      name: isObject(config) && typeof config.name === "string" ? config.name : undefined,
+      inputs: isObject(config) ? config : {},
+      commands: commandsAt(document, command, isObject(config) ? [...path, "run", "command"] : [...path, "run"]),
+      condition: undefined,
+      timeoutMinutes: isObject(config) ? parseDurationMinutes(config.no_output_timeout) : undefined,
+      ...locate(document, path),
+      raw: step,
+    }
+  }
+
+  return {
+    name: isObject(config) && typeof config.name === "string" ? config.name : stepName,
+    uses: stepName,
+    inputs: isObject(config) ? config : {},
+    commands: [],
+    ...locate(document, path),
+    raw: step,
+  }
+}
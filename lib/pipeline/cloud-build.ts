@@ -0,0 +1,142 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineArtifact, PipelineCommand, PipelineJob, PipelineStep, SecretReference } from "./model"
+import { emptyPipeline, isObject, locate, parseDurationMinutes, toStringList, toVariables } from "./builder-utils"
+
+// Entrypoints that run the script passed with -c
+const SHELL_ENTRYPOINTS = ["bash", "sh", "/bin/bash", "/bin/sh"]
+// Substitutions Cloud Build fills in itself; user-defined ones start with an underscore
+export const CLOUD_BUILD_SUBSTITUTIONS = [
+  "PROJECT_ID",
+  "PROJECT_NUMBER",
+  "LOCATION",
+  "BUILD_ID",
+  "COMMIT_SHA",
+  "SHORT_SHA",
+  "REVISION_ID",
+  "REPO_NAME",
+  "REPO_FULL_NAME",
+  "BRANCH_NAME",
+  "TAG_NAME",
+  "REF_NAME",
+  "TRIGGER_NAME",
+  "TRIGGER_BUILD_CONFIG_PATH",
+  "SERVICE_ACCOUNT",
+  "SERVICE_ACCOUNT_EMAIL",
+  "_HEAD_BRANCH",
+  "_BASE_BRANCH",
+  "_HEAD_REPO_URL",
+  "_PR_NUMBER",
+]
+
+export interface SubstitutionReference {
+  name: string
+  // Offsets of the reference in the text
+  start: number
+  end: number
+}
+
+// `$NAME` and `${NAME}` references; `$$` escapes a dollar sign for the shell
+export function findSubstitutions(text: string): SubstitutionReference[] {
+  const references: SubstitutionReference[] = []
+  const pattern = /\$(\$|\{([A-Za-z_][A-Za-z0-9_]*)\}|([A-Za-z_][A-Za-z0-9_]*))/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    const name = match[2] ?? match[3]
+    if (name) references.push({ name, start: match.index, end: match.index + match[0].length })
+  }
+  return references
+}
+
+// Commands a step runs: its `script`, or the -c argument of a shell entrypoint
+export function cloudBuildCommands(step: Record<string, any>, path: YamlPath, document: YamlDocument): PipelineCommand[] {
+  if (typeof step.script === "string") return [{ text: step.script, ...locate(document, [...path, "script"]) }]
+  if (!SHELL_ENTRYPOINTS.includes(step.entrypoint) || !Array.isArray(step.args)) return []
+  const index = step.args.indexOf("-c")
+  const script = index >= 0 ? step.args[index + 1] : undefined
+  return typeof script === "string" ? [{ text: script, ...locate(document, [...path, "args", index + 1]) }] : []
+}
+
+export function cloudBuildStepId(step: any, index: number): string {
+  return isObject(step) && typeof step.id === "string" ? step.id : `step-${index + 1}`
+}
+
+// Each step is a job running in its builder image. A step waits for every step before it
+// unless waitFor names the steps it needs; `waitFor: ['-']` starts it with the build.
+export function buildCloudBuildPipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  const pipeline = emptyPipeline("google-cloud-build")
+  const options = isObject(parsed.options) ? parsed.options : {}
+  pipeline.variables = { ...toVariables(parsed.substitutions), ...envVariables(options.env) }
+  pipeline.secrets = availableSecrets(parsed.availableSecrets, document)
+  pipeline.timeoutMinutes = parseDurationMinutes(parsed.timeout)
+
+  const steps: any[] = Array.isArray(parsed.steps) ? parsed.steps : []
+  const ids = steps.map(cloudBuildStepId)
+  const artifacts = buildArtifacts(parsed, document)
+
+  pipeline.jobs = steps.flatMap((step, index): PipelineJob[] => {
+    if (!isObject(step)) return []
+    const path: YamlPath = ["steps", index]
+    const waitFor = toStringList(step.waitFor)
+    const commands = cloudBuildCommands(step, path, document)
+    const built: PipelineStep = {
+      name: ids[index],
+      // Steps without a script run their builder with arguments, like an action with inputs
+      uses: commands.length === 0 && typeof step.name === "string" ? step.name : undefined,
+      inputs: step.args !== undefined ? { args: step.args } : {},
+      commands,
+      ...locate(document, path),
+      raw: step,
+    }
+
+    return [
+      {
+        id: ids[index],
+        name: ids[index],
+        runner: typeof options.machineType === "string" ? options.machineType : undefined,
+        image: typeof step.name === "string" ? { name: step.name, ...locate(document, [...path, "name"]) } : undefined,
+        services: [],
+        steps: [built],
+        dependencies: waitFor.includes("-") ? [] : step.waitFor !== undefined ? waitFor : ids.slice(0, index),
+        timeoutMinutes: parseDurationMinutes(step.timeout),
+        caches: [],
+        // Images and artifacts are pushed after the last step
+        artifacts: index === steps.length - 1 ? artifacts : [],
+        variables: { ...pipeline.variables, ...envVariables(step.env) },
+        manual: false,
+        allowFailure: step.allowFailure === true,
+        matrix: false,
+        ...locate(document, path),
+        raw: step,
+      },
+    ]
+  })
+
+  return pipeline
+}
+
+// `env` entries are "NAME=value" strings
+function envVariables(env: any): Record<string, string> {
+  const variables: Record<string, string> = {}
+  toStringList(env).forEach((entry) => {
+    const [name, ...value] = entry.split("=")
+    if (name && value.length > 0) variables[name] = value.join("=")
+  })
+  return variables
+}
+
+function buildArtifacts(parsed: ParsedYAML, document: YamlDocument): PipelineArtifact[] {
+  const objects = isObject(parsed.artifacts?.objects) ? parsed.artifacts.objects : undefined
+  const paths = objects ? toStringList(objects.paths) : []
+  return paths.length > 0 ? [{ paths, ...locate(document, ["artifacts", "objects"]) }] : []
+}
+
+// Secret Manager versions exposed to steps that list the variable in secretEnv
+function availableSecrets(secrets: any, document: YamlDocument): SecretReference[] {
+  if (!isObject(secrets) || !Array.isArray(secrets.secretManager)) return []
+  return secrets.secretManager.flatMap((secret: any, index: number) =>
+    isObject(secret) && typeof secret.env === "string"
+      ? [{ name: secret.env, expression: String(secret.versionName ?? ""), ...locate(document, ["availableSecrets", "secretManager", index]) }]
+      : [],
+  )
+}
@@ -0,0 +1,156 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineArtifact, PipelineCache, PipelineJob, PipelineStep, SecretReference } from "./model"
+import { collectVariableSecrets, commandsAt, emptyPipeline, isObject, locate, toStringList, toVariables } from "./builder-utils"
+
+// Build phases in the order CodeBuild runs them
+export const CODEBUILD_PHASES = ["install", "pre_build", "build", "post_build"]
+// Batch builds list their builds in one of these sections
+export const CODEBUILD_BATCH_KINDS = ["build-graph", "build-list", "build-matrix"]
+
+export interface CodeBuildBatchEntry {
+  build: Record<string, any>
+  path: YamlPath
+  identifier: string
+}
+
+// Builds of a batch build-graph or build-list; a build-matrix expands to builds at run time
+export function collectBatchBuilds(parsed: ParsedYAML): CodeBuildBatchEntry[] {
+  if (!isObject(parsed.batch)) return []
+  return ["build-graph", "build-list"].flatMap((kind) => {
+    const builds = parsed.batch[kind]
+    if (!Array.isArray(builds)) return []
+    return builds.flatMap((build: any, index: number) =>
+      isObject(build)
+        ? [{ build, path: ["batch", kind, index], identifier: typeof build.identifier === "string" ? build.identifier : `build-${index + 1}` }]
+        : [],
+    )
+  })
+}
+
+// A buildspec describes one build. Batch builds run it, or the buildspec they name,
+// once per entry, with build-graph entries waiting for those in their depend-on.
+export function buildCodeBuildPipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  const pipeline = emptyPipeline("aws-codebuild")
+  const env = isObject(parsed.env) ? parsed.env : {}
+  pipeline.variables = toVariables(env.variables)
+  pipeline.secrets = [
+    ...storedSecrets(env["parameter-store"], ["env", "parameter-store"], document),
+    ...storedSecrets(env["secrets-manager"], ["env", "secrets-manager"], document),
+    ...collectVariableSecrets(document),
+  ]
+  pipeline.caches = buildCaches(parsed.cache, document)
+
+  const steps = buildSteps(parsed.phases, document)
+  const artifacts = buildArtifacts(parsed.artifacts, document)
+  const job = (overrides: Partial<PipelineJob> & Pick<PipelineJob, "id" | "path">): PipelineJob => ({
+    services: [],
+    steps,
+    dependencies: [],
+    caches: pipeline.caches,
+    artifacts,
+    variables: pipeline.variables,
+    manual: false,
+    allowFailure: false,
+    matrix: false,
+    raw: parsed,
+    ...overrides,
+    range: document.getRange(overrides.path),
+  })
+
+  const builds = collectBatchBuilds(parsed)
+  if (builds.length > 0) {
+    pipeline.jobs = builds.map(({ build, path, identifier }) => {
+      const buildEnv = isObject(build.env) ? build.env : {}
+      return job({
+        id: identifier,
+        name: identifier,
+        stage: path[1] as string,
+        runner: typeof buildEnv["compute-type"] === "string" ? buildEnv["compute-type"] : undefined,
+        image: typeof buildEnv.image === "string" ? { name: buildEnv.image, ...locate(document, [...path, "env", "image"]) } : undefined,
+        // A build with its own buildspec runs steps that are not in this file
+        steps: typeof build.buildspec === "string" ? [] : steps,
+        dependencies: toStringList(build["depend-on"]),
+        variables: { ...pipeline.variables, ...toVariables(buildEnv.variables) },
+        allowFailure: build["ignore-failure"] === true,
+        path,
+        raw: build,
+      })
+    })
+  } else {
+    pipeline.jobs = [
+      job({
+        id: "build",
+        matrix: isObject(parsed.batch) && parsed.batch["build-matrix"] !== undefined,
+        path: parsed.phases !== undefined ? ["phases"] : [],
+      }),
+    ]
+  }
+
+  return pipeline
+}
+
+function buildSteps(phases: any, document: YamlDocument): PipelineStep[] {
+  if (!isObject(phases)) return []
+  return CODEBUILD_PHASES.flatMap((phase) => {
+    const definition = phases[phase]
+    if (!isObject(definition)) return []
+    const path: YamlPath = ["phases", phase]
+    const steps: PipelineStep[] = [
+      {
+        name: phase,
+        inputs: isObject(definition["runtime-versions"]) ? { "runtime-versions": definition["runtime-versions"] } : {},
+        commands: commandsAt(document, definition.commands, [...path, "commands"]),
+        ...locate(document, path),
+        raw: definition,
+      },
+    ]
+    // `finally` commands run whether or not the phase's commands failed
+    if (definition.finally !== undefined) {
+      steps.push({
+        name: `${phase} finally`,
+        inputs: {},
+        commands: commandsAt(document, definition.finally, [...path, "finally"]),
+        ...locate(document, [...path, "finally"]),
+        raw: definition.finally,
+      })
+    }
+    return steps
+  })
+}
+
+// Newer buildspecs key caches with `key` and `fallback-keys`; older ones only list paths
+function buildCaches(cache: any, document: YamlDocument): PipelineCache[] {
+  if (!isObject(cache)) return []
+  const key = typeof cache.key === "string" ? cache.key : undefined
+  return [
+    {
+      key,
+      keyIsDynamic: key !== undefined && /codebuild-hash-files|\$\{?[A-Za-z_]/.test(key),
+      paths: toStringList(cache.paths),
+      restoreKeys: key !== undefined ? toStringList(cache["fallback-keys"]) : undefined,
+      ...locate(document, ["cache"]),
+    },
+  ]
+}
+
+function buildArtifacts(artifacts: any, document: YamlDocument): PipelineArtifact[] {
+  if (!isObject(artifacts)) return []
+  const primary = toStringList(artifacts.files)
+  const secondary = isObject(artifacts["secondary-artifacts"])
+    ? Object.entries(artifacts["secondary-artifacts"]).flatMap(([name, artifact]: [string, any]) =>
+        isObject(artifact) ? [{ paths: toStringList(artifact.files), ...locate(document, ["artifacts", "secondary-artifacts", name]) }] : [],
+      )
+    : []
+  return [...(primary.length > 0 ? [{ paths: primary, ...locate(document, ["artifacts"]) }] : []), ...secondary]
+}
+
+// Variables filled from Parameter Store or Secrets Manager when the build starts
+function storedSecrets(values: any, path: YamlPath, document: YamlDocument): SecretReference[] {
+  if (!isObject(values)) return []
+  return Object.entries(values).map(([name, reference]) => ({
+    name,
+    expression: String(reference),
+    ...locate(document, [...path, name]),
+  }))
+}
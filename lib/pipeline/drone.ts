@@ -0,0 +1,140 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineJob, PipelineStep, PipelineTrigger, SecretReference } from "./model"
+import { collectVariableSecrets, commandsAt, emptyPipeline, isObject, locate, toStringList } from "./builder-utils"
+
+export interface DroneStepEntry {
+  name: string
+  step: Record<string, any>
+  path: YamlPath
+}
+
+// Steps are a list of named steps; Woodpecker also accepts a mapping from name to step,
+// and its older configurations list them under `pipeline:`
+export function droneStepsKey(parsed: ParsedYAML): "steps" | "pipeline" {
+  return parsed.steps === undefined && isObject(parsed.pipeline) ? "pipeline" : "steps"
+}
+
+export function collectDroneSteps(parsed: ParsedYAML): DroneStepEntry[] {
+  const key = droneStepsKey(parsed)
+  const steps = parsed[key]
+  if (Array.isArray(steps)) {
+    return steps.flatMap((step: any, index: number) =>
+      isObject(step) ? [{ name: typeof step.name === "string" ? step.name : `step-${index + 1}`, step, path: [key, index] }] : [],
+    )
+  }
+  if (!isObject(steps)) return []
+  return Object.entries(steps).flatMap(([name, step]) => (isObject(step) ? [{ name, step, path: [key, name] }] : []))
+}
+
+export function buildDronePipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  return buildContainerPipeline(parsed, document, "drone")
+}
+
+export function buildWoodpeckerPipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  return buildContainerPipeline(parsed, document, "woodpecker")
+}
+
+// Steps run one after another unless a step sets depends_on, which turns the whole
+// pipeline into a graph where steps without depends_on start right away
+function buildContainerPipeline(parsed: ParsedYAML, document: YamlDocument, platform: string): Pipeline {
+  const pipeline = emptyPipeline(platform)
+  pipeline.name = typeof parsed.name === "string" ? parsed.name : undefined
+  pipeline.triggers = buildTriggers(platform === "drone" ? parsed.trigger : parsed.when, platform === "drone" ? ["trigger"] : ["when"], document)
+
+  const entries = collectDroneSteps(parsed)
+  const graph = entries.some(({ step }) => step.depends_on !== undefined)
+  const services = collectServices(parsed.services, document)
+
+  pipeline.jobs = entries.map(({ name, step, path }, index): PipelineJob => ({
+    id: name,
+    name,
+    stage: pipeline.name,
+    runner: typeof parsed.type === "string" ? parsed.type : undefined,
+    image: typeof step.image === "string" ? { name: step.image, ...locate(document, [...path, "image"]) } : undefined,
+    services,
+    steps: [buildStep(name, step, path, document)],
+    dependencies: graph ? toStringList(step.depends_on) : index > 0 ? [entries[index - 1].name] : [],
+    caches: [],
+    artifacts: [],
+    variables: plainVariables(step.environment),
+    condition: step.when !== undefined ? JSON.stringify(step.when) : undefined,
+    manual: false,
+    allowFailure: step.failure === "ignore",
+    matrix: false,
+    ...locate(document, path),
+    raw: step,
+  }))
+
+  pipeline.secrets = [
+    ...entries.flatMap(({ step, path }) => [
+      ...fromSecretReferences(step.environment, [...path, "environment"], document),
+      ...fromSecretReferences(step.settings, [...path, "settings"], document),
+    ]),
+    ...collectVariableSecrets(document),
+  ]
+  return pipeline
+}
+
+// Steps with commands run a script in their image; steps with only settings run a plugin
+function buildStep(name: string, step: Record<string, any>, path: YamlPath, document: YamlDocument): PipelineStep {
+  const hasCommands = step.commands !== undefined
+  return {
+    name,
+    uses: hasCommands || typeof step.image !== "string" ? undefined : step.image,
+    inputs: isObject(step.settings) ? step.settings : {},
+    commands: commandsAt(document, step.commands, [...path, "commands"]),
+    condition: step.when !== undefined ? JSON.stringify(step.when) : undefined,
+    ...locate(document, path),
+    raw: step,
+  }
+}
+
+function collectServices(services: any, document: YamlDocument) {
+  const entries: [any, YamlPath][] = Array.isArray(services)
+    ? services.map((service, index) => [service, ["services", index]])
+    : isObject(services)
+      ? Object.entries(services).map(([name, service]) => [service, ["services", name]])
+      : []
+  return entries
+    .filter(([service]) => isObject(service) && typeof service.image === "string")
+    .map(([service, path]) => ({ name: service.image as string, ...locate(document, [...path, "image"]) }))
+}
+
+function buildTriggers(conditions: any, path: YamlPath, document: YamlDocument): PipelineTrigger[] {
+  // Without conditions the pipeline runs for every event the forge sends
+  const condition = Array.isArray(conditions) ? conditions.find(isObject) : conditions
+  const events = isObject(condition) ? includedValues(condition.event) : []
+  const branches = isObject(condition) ? includedValues(condition.branch) : []
+  return (events.length > 0 ? events : ["push", "pull_request"]).map((event) => ({
+    event,
+    branches,
+    tags: [],
+    paths: isObject(condition) ? includedValues(condition.path) : [],
+    ...locate(document, events.length > 0 ? [...path, "event"] : path),
+  }))
+}
+
+// Conditions list values directly or under include/exclude
+function includedValues(value: any): string[] {
+  return toStringList(isObject(value) ? value.include : value)
+}
+
+// `environment` values may be `{ from_secret: name }`, which are secrets rather than variables
+function plainVariables(environment: any): Record<string, string> {
+  const variables: Record<string, string> = {}
+  if (!isObject(environment)) return variables
+  Object.entries(environment).forEach(([name, value]) => {
+    if (!isObject(value)) variables[name] = String(value ?? "")
+  })
+  return variables
+}
+
+function fromSecretReferences(values: any, path: YamlPath, document: YamlDocument): SecretReference[] {
+  if (!isObject(values)) return []
+  return Object.entries(values).flatMap(([name, value]) =>
+    isObject(value) && typeof value.from_secret === "string"
+      ? [{ name: value.from_secret, expression: `from_secret: ${value.from_secret}`, ...locate(document, [...path, name]) }]
+      : [],
+  )
+}
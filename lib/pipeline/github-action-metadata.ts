@@ -0,0 +1,29 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument } from "../yaml-parser"
+import type { Pipeline } from "./model"
+import { collectExpressionSecrets, emptyPipeline, isObject, locate } from "./builder-utils"
+import { buildJob } from "./github-actions"
+
+// An action's `action.yml`. A composite action becomes one job holding `runs.steps`, so
+// step rules apply to them like to workflow steps; a Docker action exposes its image.
+// JavaScript actions run a bundled file and have nothing to model beyond the name.
+export function buildActionMetadataPipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  const pipeline = emptyPipeline("github-action-metadata")
+  pipeline.name = typeof parsed.name === "string" ? parsed.name : undefined
+  pipeline.secrets = collectExpressionSecrets(document)
+
+  const runs = parsed.runs
+  if (!isObject(runs)) return pipeline
+
+  if (runs.using === "composite") {
+    pipeline.jobs = [{ ...buildJob("composite", runs, ["runs"], document), name: pipeline.name }]
+  } else if (runs.using === "docker" && typeof runs.image === "string" && runs.image.startsWith("docker://")) {
+    // `image: Dockerfile` builds from the repository and has no image reference to check
+    const job = buildJob("docker", runs, ["runs"], document)
+    pipeline.jobs = [
+      { ...job, name: pipeline.name, image: { name: runs.image.slice("docker://".length), ...locate(document, ["runs", "image"]) } },
+    ]
+  }
+
+  return pipeline
+}
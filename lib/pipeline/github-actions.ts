@@ -0,0 +1,152 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineArtifact, PipelineCache, PipelineJob, PipelineStep, PipelineTrigger } from "./model"
+import {
+  collectExpressionSecrets,
+  commandsAt,
+  emptyPipeline,
+  isObject,
+  locate,
+  splitLines,
+  toStringList,
+  toVariables,
+} from "./builder-utils"
+
+// Setup actions whose `cache` input enables built-in dependency caching
+const SETUP_ACTIONS_WITH_CACHE = ["actions/setup-node", "actions/setup-python", "actions/setup-java", "actions/setup-go"]
+
+export function buildGitHubActionsPipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  const pipeline = emptyPipeline("github-actions")
+  pipeline.name = typeof parsed.name === "string" ? parsed.name : undefined
+  pipeline.triggers = buildTriggers(parsed.on, document)
+  pipeline.variables = toVariables(parsed.env)
+  pipeline.secrets = collectExpressionSecrets(document)
+
+  if (isObject(parsed.jobs)) {
+    pipeline.jobs = Object.entries(parsed.jobs)
+      .filter(([, job]) => isObject(job))
+      .map(([jobId, job]) => buildJob(jobId, job, ["jobs", jobId], document))
+  }
+
+  return pipeline
+}
+
+function buildTriggers(on: any, document: YamlDocument): PipelineTrigger[] {
+  const path: YamlPath = ["on"]
+  if (typeof on === "string") {
+    return [{ event: on, branches: [], tags: [], paths: [], ...locate(document, path) }]
+  }
+  if (Array.isArray(on)) {
+    return on.map((event, index) => ({
+      event: String(event),
+      branches: [],
+      tags: [],
+      paths: [],
+      ...locate(document, [...path, index]),
+    }))
+  }
+  if (!isObject(on)) return []
+
+  return Object.entries(on).map(([event, config]) => ({
+    event,
+    branches: isObject(config) ? toStringList(config.branches) : [],
+    tags: isObject(config) ? toStringList(config.tags) : [],
+    paths: isObject(config) ? toStringList(config.paths) : [],
+    ...locate(document, [...path, event]),
+  }))
+}
+
+export function buildJob(jobId: string, job: Record<string, any>, path: YamlPath, document: YamlDocument): PipelineJob {
+  const rawSteps = Array.isArray(job.steps) ? job.steps : []
+  const steps = rawSteps
+    .map((step: any, index: number) => (isObject(step) ? buildStep(step, [...path, "steps", index], document) : null))
+    .filter((step: PipelineStep | null): step is PipelineStep => step !== null)
+
+  const container = job.container
+  const runsOn = job["runs-on"]
+
+  return {
+    id: jobId,
+    name: typeof job.name === "string" ? job.name : undefined,
+    runner: Array.isArray(runsOn)
+      ? runsOn.join(", ")
+      : isObject(runsOn)
+        ? toStringList(runsOn.labels ?? runsOn.group).join(", ")
+        : runsOn !== undefined
+          ? String(runsOn)
+          : undefined,
+    image: container
+      ? { name: String(isObject(container) ? container.image : container), ...locate(document, [...path, "container"]) }
+      : undefined,
+    services: isObject(job.services)
+      ? Object.entries(job.services).map(([serviceName, service]) => ({
+          name: String(isObject(service) ? service.image : service),
+          ...locate(document, [...path, "services", serviceName]),
+        }))
+      : [],
+    steps,
+    dependencies: toStringList(job.needs),
+    environment: isObject(job.environment) ? job.environment.name : job.environment,
+    timeoutMinutes: typeof job["timeout-minutes"] === "number" ? job["timeout-minutes"] : undefined,
+    caches: steps.map((step) => buildCache(step)).filter((cache): cache is PipelineCache => cache !== null),
+    artifacts: steps.map((step) => buildArtifact(step)).filter((artifact): artifact is PipelineArtifact => artifact !== null),
+    variables: toVariables(job.env),
+    condition: job.if !== undefined ? String(job.if) : undefined,
+    manual: false,
+    allowFailure: job["continue-on-error"] === true,
+    matrix: Boolean(job.strategy?.matrix),
+    ...locate(document, path),
+    raw: job,
+  }
+}
+
+function buildStep(step: Record<string, any>, path: YamlPath, document: YamlDocument): PipelineStep {
+  return {
+    name: typeof step.name === "string" ? step.name : undefined,
+    uses: typeof step.uses === "string" ? step.uses : undefined,
+    inputs: isObject(step.with) ? step.with : {},
+    commands: commandsAt(document, step.run, [...path, "run"]),
+    condition: step.if !== undefined ? String(step.if) : undefined,
+    timeoutMinutes: typeof step["timeout-minutes"] === "number" ? step["timeout-minutes"] : undefined,
+    ...locate(document, path),
+    raw: step,
+  }
+}
+
+function actionName(uses?: string): string {
+  return (uses ?? "").split("@")[0].toLowerCase()
+}
+
+function buildCache(step: PipelineStep): PipelineCache | null {
+  const action = actionName(step.uses)
+
+  if (action === "actions/cache" || action === "actions/cache/restore") {
+    const key = step.inputs.key !== undefined ? String(step.inputs.key) : undefined
+    return {
+      key,
+      keyIsDynamic: !!key && (key.includes("hashFiles") || key.includes("${{")),
+      paths: splitLines(step.inputs.path),
+      restoreKeys: splitLines(step.inputs["restore-keys"]),
+      path: step.path,
+      range: step.range,
+    }
+  }
+
+  if (SETUP_ACTIONS_WITH_CACHE.includes(action) && step.inputs.cache) {
+    // Keys are derived from the lock file by the action itself
+    return { key: undefined, keyIsDynamic: true, paths: [], path: step.path, range: step.range }
+  }
+
+  return null
+}
+
+function buildArtifact(step: PipelineStep): PipelineArtifact | null {
+  if (actionName(step.uses) !== "actions/upload-artifact") return null
+  const retention = step.inputs["retention-days"]
+  return {
+    paths: splitLines(step.inputs.path),
+    expireIn: retention !== undefined ? `${retention} days` : undefined,
+    path: step.path,
+    range: step.range,
+  }
+}
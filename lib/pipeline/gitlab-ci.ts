@@ -0,0 +1,155 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineArtifact, PipelineCache, PipelineJob, PipelineStep, PipelineTrigger } from "./model"
+import {
+  collectVariableSecrets,
+  commandsAt,
+  emptyPipeline,
+  isObject,
+  locate,
+  parseDurationMinutes,
+  toArray,
+  toStringList,
+  toVariables,
+} from "./builder-utils"
+
+// Top-level keys that configure the pipeline rather than define a job
+export const GITLAB_RESERVED_KEYWORDS = [
+  "image",
+  "services",
+  "stages",
+  "types",
+  "before_script",
+  "after_script",
+  "variables",
+  "cache",
+  "default",
+  "include",
+  "workflow",
+]
+
+const SCRIPT_SECTIONS = ["before_script", "script", "after_script"]
+
+export function buildGitLabCIPipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  const pipeline = emptyPipeline("gitlab-ci")
+  pipeline.variables = toVariables(parsed.variables)
+  pipeline.triggers = buildTriggers(parsed.workflow, document)
+  pipeline.secrets = collectVariableSecrets(document)
+
+  // Job keywords fall back to `default:` and then to the deprecated top-level globals
+  const defaults = isObject(parsed.default) ? parsed.default : {}
+  const defaultsPath = (key: string): YamlPath => (key in defaults ? ["default", key] : [key])
+  const inherited = (key: string) => defaults[key] ?? parsed[key]
+
+  pipeline.jobs = Object.entries(parsed)
+    .filter(([name, job]) => !GITLAB_RESERVED_KEYWORDS.includes(name) && !name.startsWith(".") && isObject(job))
+    .map(([name, job]) => buildJob(name, job, document, inherited, defaultsPath))
+
+  return pipeline
+}
+
+function buildTriggers(workflow: any, document: YamlDocument): PipelineTrigger[] {
+  if (!isObject(workflow) || !Array.isArray(workflow.rules)) return []
+
+  const triggers: PipelineTrigger[] = []
+  workflow.rules.forEach((rule: any, index: number) => {
+    if (!isObject(rule) || typeof rule.if !== "string" || rule.when === "never") return
+    const source = rule.if.match(/\$CI_PIPELINE_SOURCE\s*==\s*["']([^"']+)["']/)
+    const branch = rule.if.match(/\$CI_COMMIT_BRANCH\s*==\s*["']([^"']+)["']/)
+    triggers.push({
+      event: source ? source[1] : "push",
+      branches: branch ? [branch[1]] : [],
+      tags: rule.if.includes("$CI_COMMIT_TAG") ? ["*"] : [],
+      paths: isObject(rule.changes) ? toStringList(rule.changes.paths) : toStringList(rule.changes),
+      ...locate(document, ["workflow", "rules", index]),
+    })
+  })
+  return triggers
+}
+
+function buildJob(
+  name: string,
+  job: Record<string, any>,
+  document: YamlDocument,
+  inherited: (key: string) => any,
+  defaultsPath: (key: string) => YamlPath,
+): PipelineJob {
+  const path: YamlPath = [name]
+  const valueFor = (key: string): { value: any; path: YamlPath } =>
+    key in job ? { value: job[key], path: [name, key] } : { value: inherited(key), path: defaultsPath(key) }
+
+  const steps: PipelineStep[] = SCRIPT_SECTIONS.map((section) => {
+    const { value, path: sectionPath } = valueFor(section)
+    return {
+      name: section,
+      inputs: {},
+      commands: commandsAt(document, value, sectionPath),
+      ...locate(document, sectionPath),
+      raw: value,
+    }
+  }).filter((step) => step.commands.length > 0)
+
+  const image = valueFor("image")
+  const services = valueFor("services")
+  const cache = valueFor("cache")
+  const rules = Array.isArray(job.rules) ? job.rules.filter(isObject) : []
+  const conditions = rules.map((rule: any) => rule.if).filter((condition: any) => typeof condition === "string")
+
+  return {
+    id: name,
+    name,
+    stage: typeof job.stage === "string" ? job.stage : "test",
+    runner: job.tags ? toStringList(job.tags).join(", ") : undefined,
+    image: image.value ? { name: imageName(image.value), ...locate(document, image.path) } : undefined,
+    services: toArray(services.value).map((service, index) => ({
+      name: imageName(service),
+      ...locate(document, [...services.path, index]),
+    })),
+    steps,
+    dependencies: toArray(job.needs)
+      .map((need: any) => (isObject(need) ? need.job : need))
+      .filter((need: any): need is string => typeof need === "string"),
+    environment: isObject(job.environment) ? job.environment.name : job.environment,
+    timeoutMinutes: parseDurationMinutes(valueFor("timeout").value),
+    caches: toArray(cache.value)
+      .map((entry, index) => buildCache(entry, Array.isArray(cache.value) ? [...cache.path, index] : cache.path, document))
+      .filter((entry): entry is PipelineCache => entry !== null),
+    artifacts: buildArtifacts(job.artifacts, [name, "artifacts"], document),
+    variables: toVariables(job.variables),
+    condition: conditions.length > 0 ? conditions.join(" || ") : undefined,
+    manual: job.when === "manual" || rules.some((rule: any) => rule.when === "manual"),
+    allowFailure: job.allow_failure === true || isObject(job.allow_failure),
+    matrix: Boolean(isObject(job.parallel) && job.parallel.matrix),
+    ...locate(document, path),
+    raw: job,
+  }
+}
+
+function imageName(image: any): string {
+  return String(isObject(image) ? image.name : image)
+}
+
+function buildCache(cache: any, path: YamlPath, document: YamlDocument): PipelineCache | null {
+  if (!isObject(cache)) return null
+  const key = cache.key
+  return {
+    key: isObject(key) ? toStringList(key.files).join(", ") : key !== undefined ? String(key) : undefined,
+    // `key: { files: [...] }` hashes lock files; variables make the key vary per branch or job
+    keyIsDynamic: isObject(key) ? Array.isArray(key.files) : typeof key === "string" && key.includes("$"),
+    paths: toStringList(cache.paths),
+    ...locate(document, path),
+  }
+}
+
+function buildArtifacts(artifacts: any, path: YamlPath, document: YamlDocument): PipelineArtifact[] {
+  if (!isObject(artifacts)) return []
+  const paths = toStringList(artifacts.paths)
+  if (paths.length === 0 && !artifacts.reports) return []
+  return [
+    {
+      paths,
+      expireIn: artifacts.expire_in !== undefined ? String(artifacts.expire_in) : undefined,
+      ...locate(document, path),
+    },
+  ]
+}
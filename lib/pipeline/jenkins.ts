@@ -0,0 +1,219 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineArtifact, PipelineImage, PipelineJob, PipelineStep, PipelineTrigger, SecretReference } from "./model"
+import { commandsAt, emptyPipeline, isObject, locate, toArray, toStringList } from "./builder-utils"
+
+// Steps whose argument is a script rather than a reusable step
+export const JENKINS_SHELL_STEPS = ["sh", "bat", "powershell", "pwsh"]
+
+const TIMEOUT_UNITS: Record<string, number> = { SECONDS: 1 / 60, MINUTES: 1, HOURS: 60, DAYS: 1440 }
+
+interface StageScope {
+  // Stage a parallel branch or nested stage belongs to
+  stage?: string
+  agent: any
+  agentPath: YamlPath
+  dependencies: string[]
+  variables: Record<string, string>
+  timeoutMinutes?: number
+  matrix: boolean
+}
+
+interface StageResult {
+  jobs: PipelineJob[]
+  // Jobs the next sequential stage waits for
+  exits: string[]
+}
+
+// Each stage that runs steps is a job. Sequential stages wait for the one before them;
+// parallel branches and matrix cells all wait for what their parent stage waits for.
+export function buildJenkinsPipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  const pipeline = emptyPipeline("jenkins")
+  const root = parsed.pipeline
+  if (!isObject(root)) return pipeline
+
+  pipeline.variables = environmentVariables(root.environment)
+  pipeline.secrets = credentialSecrets(root.environment, ["pipeline", "environment"], document)
+  pipeline.timeoutMinutes = timeoutMinutes(root.options?.timeout)
+  pipeline.triggers = buildTriggers(root.triggers, document)
+  pipeline.jobs = buildStages(root.stages, ["pipeline", "stages"], document, {
+    agent: root.agent,
+    agentPath: ["pipeline", "agent"],
+    dependencies: [],
+    variables: pipeline.variables,
+    matrix: false,
+  }).jobs
+
+  return pipeline
+}
+
+// Jenkins runs `timeout(time: 30)` in minutes unless `unit:` says otherwise
+export function timeoutMinutes(timeout: any): number | undefined {
+  if (typeof timeout === "number") return timeout
+  if (!isObject(timeout) || typeof timeout.time !== "number") return undefined
+  const unit = TIMEOUT_UNITS[String(timeout.unit ?? "MINUTES").toUpperCase()] ?? 1
+  return Math.round(timeout.time * unit)
+}
+
+// Variables bound to `credentials('id')`; username and password credentials also bind _USR and _PSW
+export function credentialSecrets(environment: any, path: YamlPath, document: YamlDocument): SecretReference[] {
+  if (!isObject(environment)) return []
+  return Object.entries(environment).flatMap(([name, value]) => {
+    if (!isObject(value) || typeof value.credentials !== "string") return []
+    const location = locate(document, [...path, name])
+    const expression = `credentials('${value.credentials}')`
+    return [name, `${name}_USR`, `${name}_PSW`].map((variable) => ({ name: variable, expression, ...location }))
+  })
+}
+
+function environmentVariables(environment: any): Record<string, string> {
+  const variables: Record<string, string> = {}
+  if (!isObject(environment)) return variables
+  Object.entries(environment).forEach(([name, value]) => {
+    // Credentials are secrets, not variables
+    if (!isObject(value)) variables[name] = String(value ?? "")
+  })
+  return variables
+}
+
+function buildTriggers(triggers: any, document: YamlDocument): PipelineTrigger[] {
+  // Without triggers the job builds when the SCM notifies Jenkins or someone starts it
+  if (!isObject(triggers)) return [{ event: "push", branches: [], tags: [], paths: [], ...locate(document, ["pipeline"]) }]
+  return Object.keys(triggers).map((name) => ({
+    event: name === "cron" || name === "parameterizedCron" ? "schedule" : name === "upstream" ? "upstream" : "push",
+    branches: [],
+    tags: [],
+    paths: [],
+    ...locate(document, ["pipeline", "triggers", name]),
+  }))
+}
+
+function buildStages(stages: any, path: YamlPath, document: YamlDocument, scope: StageScope): StageResult {
+  const jobs: PipelineJob[] = []
+  let previous = scope.dependencies
+  toArray(stages).forEach((stage: any, index: number) => {
+    if (!isObject(stage)) return
+    const result = buildStage(stage, [...path, index], document, { ...scope, dependencies: previous })
+    jobs.push(...result.jobs)
+    if (result.exits.length > 0) previous = result.exits
+  })
+  return { jobs, exits: previous === scope.dependencies ? [] : previous }
+}
+
+function buildStage(stage: Record<string, any>, path: YamlPath, document: YamlDocument, scope: StageScope): StageResult {
+  const name = String(stage.stage ?? "")
+  const nested: StageScope = {
+    ...scope,
+    stage: name,
+    agent: stage.agent ?? scope.agent,
+    agentPath: stage.agent !== undefined ? [...path, "agent"] : scope.agentPath,
+    variables: { ...scope.variables, ...environmentVariables(stage.environment) },
+    timeoutMinutes: timeoutMinutes(stage.options?.timeout) ?? scope.timeoutMinutes,
+  }
+
+  if (Array.isArray(stage.parallel)) {
+    const jobs = stage.parallel
+      .map((branch: any, index: number) => (isObject(branch) ? buildStage(branch, [...path, "parallel", index], document, nested).jobs : []))
+      .flat()
+    return { jobs, exits: jobs.map((job: PipelineJob) => job.id) }
+  }
+  if (Array.isArray(stage.stages)) return buildStages(stage.stages, [...path, "stages"], document, nested)
+  if (isObject(stage.matrix)) {
+    const matrix = stage.matrix
+    return buildStages(matrix.stages, [...path, "matrix", "stages"], document, {
+      ...nested,
+      agent: matrix.agent ?? nested.agent,
+      agentPath: matrix.agent !== undefined ? [...path, "matrix", "agent"] : nested.agentPath,
+      matrix: true,
+    })
+  }
+
+  return { jobs: [buildJob(name, stage, path, document, { ...nested, stage: scope.stage })], exits: [name] }
+}
+
+function buildJob(name: string, stage: Record<string, any>, path: YamlPath, document: YamlDocument, scope: StageScope): PipelineJob {
+  const steps = buildSteps(stage.steps, [...path, "steps"], document)
+  // Post conditions run in the stage's workspace after its steps
+  if (isObject(stage.post)) {
+    Object.entries(stage.post).forEach(([condition, conditionSteps]) =>
+      steps.push(...buildSteps(conditionSteps, [...path, "post", condition], document)),
+    )
+  }
+  const whenRange = isObject(stage.when) ? document.getRange([...path, "when"]) : undefined
+
+  return {
+    id: name,
+    name,
+    stage: scope.stage,
+    runner: agentRunner(scope.agent),
+    image: agentImage(scope.agent, scope.agentPath, document),
+    services: [],
+    steps,
+    dependencies: scope.dependencies,
+    timeoutMinutes: scope.timeoutMinutes,
+    caches: [],
+    artifacts: steps
+      .filter((step) => step.uses === "archiveArtifacts")
+      .map((step): PipelineArtifact => ({
+        paths: toStringList(step.inputs.artifacts ?? step.inputs.args).flatMap((pattern) => pattern.split(",").map((entry) => entry.trim())),
+        path: step.path,
+        range: step.range,
+      })),
+    variables: scope.variables,
+    condition: whenRange ? document.source.slice(whenRange.start.offset, whenRange.end.offset) : undefined,
+    manual: stage.input !== undefined || steps.some((step) => step.uses === "input"),
+    allowFailure: false,
+    matrix: scope.matrix,
+    ...locate(document, path),
+    raw: stage,
+  }
+}
+
+// Steps in the order they run; the body of a step such as withCredentials follows the step
+function buildSteps(steps: any, path: YamlPath, document: YamlDocument, timeout?: number): PipelineStep[] {
+  return toArray(steps).flatMap((step: any, index: number) => {
+    if (!isObject(step)) return []
+    const [name, value] = Object.entries(step)[0] ?? []
+    if (typeof name !== "string") return []
+    const stepPath = [...path, index]
+    const valuePath = [...stepPath, name]
+    const options = isObject(value) ? value : {}
+    const { steps: body, ...inputs } = options
+    const shell = JENKINS_SHELL_STEPS.includes(name)
+    const stepTimeout = name === "timeout" ? timeoutMinutes(options) : undefined
+
+    const built: PipelineStep = {
+      name: typeof options.label === "string" ? options.label : undefined,
+      uses: shell ? undefined : name,
+      inputs: isObject(value) ? inputs : value !== null && value !== undefined ? { args: value } : {},
+      commands: shell
+        ? typeof value === "string"
+          ? commandsAt(document, value, valuePath)
+          : typeof options.script === "string"
+            ? commandsAt(document, options.script, [...valuePath, "script"])
+            : []
+        : [],
+      timeoutMinutes: timeout,
+      ...locate(document, stepPath),
+      raw: step,
+    }
+    return [built, ...buildSteps(body, [...valuePath, "steps"], document, stepTimeout ?? timeout)]
+  })
+}
+
+function agentRunner(agent: any): string | undefined {
+  if (typeof agent === "string") return agent === "none" ? undefined : agent
+  if (!isObject(agent)) return undefined
+  if (typeof agent.label === "string") return agent.label
+  if (isObject(agent.node) && typeof agent.node.label === "string") return agent.node.label
+  return ["docker", "dockerfile", "kubernetes"].find((kind) => agent[kind] !== undefined)
+}
+
+function agentImage(agent: any, path: YamlPath, document: YamlDocument): PipelineImage | undefined {
+  if (!isObject(agent)) return undefined
+  if (typeof agent.docker === "string") return { name: agent.docker, ...locate(document, [...path, "docker"]) }
+  if (isObject(agent.docker) && typeof agent.docker.image === "string") {
+    return { name: agent.docker.image, ...locate(document, [...path, "docker", "image"]) }
+  }
+  return undefined
+}
@@ -0,0 +1,102 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { PipelineCommand, SecretReference } from "./model"
+import { isObject, locate, toArray, toStringList } from "./builder-utils"
+
+// Kubernetes-native pipelines (Tekton, Argo Workflows) are manifests: a file holds one, or a
+// stream of several whose paths start with the document's index
+
+export interface KubernetesManifest {
+  manifest: Record<string, any>
+  kind: string
+  name?: string
+  path: YamlPath
+}
+
+export interface KubernetesContainer {
+  container: Record<string, any>
+  path: YamlPath
+  // Task or template the container belongs to
+  owner: string
+  // Templates hold defaults for the steps of their task or workflow and are not run themselves
+  role: "step" | "sidecar" | "init" | "template"
+  // Fields the container inherits from a stepTemplate or templateDefaults
+  defaults?: Record<string, any>
+}
+
+// Interpreters that run a script as POSIX shell
+const SHELL_INTERPRETERS = ["sh", "bash", "ash", "dash", "zsh"]
+
+// Manifests of the API group, e.g. "tekton.dev" matches "tekton.dev/v1"
+export function kubernetesManifests(parsed: ParsedYAML, group: string): KubernetesManifest[] {
+  const documents: { manifest: any; path: YamlPath }[] = Array.isArray(parsed)
+    ? parsed.map((manifest, index) => ({ manifest, path: [index] }))
+    : [{ manifest: parsed, path: [] }]
+  return documents.flatMap(({ manifest, path }) => {
+    if (!isObject(manifest) || typeof manifest.apiVersion !== "string" || !manifest.apiVersion.startsWith(`${group}/`)) return []
+    const name = isObject(manifest.metadata) ? manifest.metadata.name ?? manifest.metadata.generateName : undefined
+    return [{ manifest, kind: String(manifest.kind ?? ""), name: typeof name === "string" ? name : undefined, path }]
+  })
+}
+
+export function isShellInterpreter(command: string): boolean {
+  return SHELL_INTERPRETERS.includes(command.split("/").pop() ?? "")
+}
+
+// Shell commands a container runs: a script under `scriptKey` when its interpreter is a shell,
+// or the argument of `-c` in command and args
+export function containerCommands(
+  container: Record<string, any>,
+  path: YamlPath,
+  document: YamlDocument,
+  scriptKey: string,
+  interpreter?: string,
+): PipelineCommand[] {
+  if (typeof container[scriptKey] === "string") {
+    const shebang = /^#!\s*(\S+)(?:\s+(\S+))?/.exec(container[scriptKey])
+    const program = shebang ? (shebang[1].endsWith("/env") ? shebang[2] ?? "" : shebang[1]) : interpreter
+    if (program !== undefined && !isShellInterpreter(program)) return []
+    return [{ text: container[scriptKey], ...locate(document, [...path, scriptKey]) }]
+  }
+
+  const words = [
+    ...toStringList(container.command).map((word, index) => ({ word, path: [...path, "command", index] })),
+    ...toStringList(container.args).map((word, index) => ({ word, path: [...path, "args", index] })),
+  ]
+  // A scalar command or args is not a list of words
+  if (!Array.isArray(container.command ?? []) || !Array.isArray(container.args ?? [])) return []
+  if (words.length < 3 || !isShellInterpreter(words[0].word)) return []
+  const index = words.findIndex(({ word }) => /^-[a-z]*c$/.test(word))
+  const script = index > 0 ? words[index + 1] : undefined
+  return script ? [{ text: script.word, ...locate(document, script.path) }] : []
+}
+
+export function containerVariables(container: Record<string, any>): Record<string, string> {
+  const variables: Record<string, string> = {}
+  toArray(container.env).forEach((entry: any) => {
+    if (isObject(entry) && typeof entry.name === "string" && entry.value !== undefined) variables[entry.name] = String(entry.value)
+  })
+  return variables
+}
+
+// Environment variables and envFrom sources filled from Kubernetes secrets
+export function containerSecrets(container: Record<string, any>, path: YamlPath, document: YamlDocument): SecretReference[] {
+  const secrets: SecretReference[] = []
+  toArray(container.env).forEach((entry: any, index: number) => {
+    const reference = entry?.valueFrom?.secretKeyRef
+    if (typeof entry?.name !== "string" || !isObject(reference)) return
+    secrets.push({ name: entry.name, expression: `${reference.name}/${reference.key}`, ...locate(document, [...path, "env", index]) })
+  })
+  toArray(container.envFrom).forEach((entry: any, index: number) => {
+    const name = entry?.secretRef?.name
+    if (typeof name === "string") secrets.push({ name, expression: name, ...locate(document, [...path, "envFrom", index]) })
+  })
+  return secrets
+}
+
+// Tekton calls a step's resources computeResources since v1; Argo keeps the pod spec's name
+export function containerResources(container: Record<string, any> | undefined): Record<string, any> | undefined {
+  if (!container) return undefined
+  const resources = container.computeResources ?? container.resources
+  return isObject(resources) ? resources : undefined
+}
@@ -0,0 +1,90 @@
+import type { SourceRange } from "../types"
+import type { YamlPath } from "../yaml-parser"
+
+// Platform-neutral view of a CI/CD configuration. Every element keeps the YAML path
+// it was built from and, when the source parsed, its range, so rules can report
+// exact locations without knowing the platform's key names.
+
+export interface PipelineLocation {
+  path: YamlPath
+  range?: SourceRange
+}
+
+export interface Pipeline {
+  platform: string
+  name?: string
+  triggers: PipelineTrigger[]
+  jobs: PipelineJob[]
+  variables: Record<string, string>
+  // Caches declared once for the whole configuration (e.g. Bitbucket `definitions.caches`)
+  caches: PipelineCache[]
+  secrets: SecretReference[]
+  timeoutMinutes?: number
+}
+
+export interface PipelineTrigger extends PipelineLocation {
+  event: string
+  branches: string[]
+  tags: string[]
+  paths: string[]
+}
+
+export interface PipelineJob extends PipelineLocation {
+  id: string
+  name?: string
+  // Named pipeline or stage the job runs in (GitLab stage, Bitbucket branch pipeline, ...)
+  stage?: string
+  runner?: string
+  image?: PipelineImage
+  services: PipelineImage[]
+  steps: PipelineStep[]
+  dependencies: string[]
+  environment?: string
+  timeoutMinutes?: number
+  caches: PipelineCache[]
+  artifacts: PipelineArtifact[]
+  variables: Record<string, string>
+  condition?: string
+  manual: boolean
+  allowFailure: boolean
+  matrix: boolean
+  raw: any
+}
+
+export interface PipelineStep extends PipelineLocation {
+  name?: string
+  // Reusable unit the step delegates to: a GitHub action, Bitbucket pipe, Azure task or CircleCI orb command
+  uses?: string
+  inputs: Record<string, any>
+  commands: PipelineCommand[]
+  condition?: string
+  timeoutMinutes?: number
+  raw: any
+}
+
+export interface PipelineCommand extends PipelineLocation {
+  text: string
+}
+
+export interface PipelineImage extends PipelineLocation {
+  name: string
+}
+
+export interface PipelineCache extends PipelineLocation {
+  key?: string
+  // Whether the key is derived from lock files or other changing input
+  keyIsDynamic: boolean
+  paths: string[]
+  // Undefined where the platform has no fallback keys; empty when they are supported but not set
+  restoreKeys?: string[]
+}
+
+export interface PipelineArtifact extends PipelineLocation {
+  paths: string[]
+  expireIn?: string
+}
+
+export interface SecretReference extends PipelineLocation {
+  name: string
+  expression: string
+}
@@ -0,0 +1,248 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineJob, PipelineStep } from "./model"
+import { emptyPipeline, isObject, locate, parseDurationMinutes, toArray } from "./builder-utils"
+import {
+  containerCommands,
+  containerSecrets,
+  containerVariables,
+  kubernetesManifests,
+  type KubernetesContainer,
+  type KubernetesManifest,
+} from "./kubernetes"
+
+export const TEKTON_KINDS = ["Pipeline", "Task", "ClusterTask", "PipelineRun", "TaskRun", "StepAction", "CustomRun"]
+
+export interface TektonTaskSpec {
+  spec: Record<string, any>
+  path: YamlPath
+  // Name of the Task, or of the pipeline task that embeds the spec
+  name: string
+}
+
+export interface TektonPipelineTask {
+  task: Record<string, any>
+  path: YamlPath
+  name: string
+  finally: boolean
+}
+
+export interface TektonPipelineSpec {
+  spec: Record<string, any>
+  path: YamlPath
+  name: string
+  tasks: TektonPipelineTask[]
+}
+
+export function tektonManifests(parsed: ParsedYAML): KubernetesManifest[] {
+  return kubernetesManifests(parsed, "tekton.dev")
+}
+
+// Pipelines and the specs PipelineRuns embed with pipelineSpec
+export function tektonPipelines(parsed: ParsedYAML): TektonPipelineSpec[] {
+  return tektonManifests(parsed).flatMap(({ manifest, kind, name, path }) => {
+    const spec = kind === "Pipeline" ? manifest.spec : kind === "PipelineRun" ? manifest.spec?.pipelineSpec : undefined
+    if (!isObject(spec)) return []
+    const specPath = kind === "Pipeline" ? [...path, "spec"] : [...path, "spec", "pipelineSpec"]
+    const tasks = ["tasks", "finally"].flatMap((key) =>
+      toArray(spec[key]).flatMap((task: any, index: number) =>
+        isObject(task) && typeof task.name === "string"
+          ? [{ task, path: [...specPath, key, index], name: task.name, finally: key === "finally" }]
+          : [],
+      ),
+    )
+    return [{ spec, path: specPath, name: name ?? kind, tasks }]
+  })
+}
+
+// Tasks, TaskRun specs and the task specs pipeline tasks embed
+export function tektonTaskSpecs(parsed: ParsedYAML): TektonTaskSpec[] {
+  const specs: TektonTaskSpec[] = []
+  tektonManifests(parsed).forEach(({ manifest, kind, name, path }) => {
+    if ((kind === "Task" || kind === "ClusterTask") && isObject(manifest.spec)) {
+      specs.push({ spec: manifest.spec, path: [...path, "spec"], name: name ?? kind })
+    } else if (kind === "TaskRun" && isObject(manifest.spec?.taskSpec)) {
+      specs.push({ spec: manifest.spec.taskSpec, path: [...path, "spec", "taskSpec"], name: name ?? kind })
+    }
+  })
+  tektonPipelines(parsed).forEach(({ tasks }) =>
+    tasks.forEach(({ task, path, name }) => {
+      if (isObject(task.taskSpec)) specs.push({ spec: task.taskSpec, path: [...path, "taskSpec"], name })
+    }),
+  )
+  return specs
+}
+
+// The spec a pipeline task runs: its own taskSpec, or the Task of this file its taskRef names
+export function resolveTektonTask(task: Record<string, any>, path: YamlPath, parsed: ParsedYAML): TektonTaskSpec | undefined {
+  if (isObject(task.taskSpec)) return { spec: task.taskSpec, path: [...path, "taskSpec"], name: task.name }
+  const reference = task.taskRef
+  if (!isObject(reference) || typeof reference.name !== "string" || reference.resolver !== undefined) return undefined
+  const kind = reference.kind ?? "Task"
+  const manifest = tektonManifests(parsed).find(
+    (candidate) => candidate.kind === kind && candidate.name === reference.name && isObject(candidate.manifest.spec),
+  )
+  return manifest ? { spec: manifest.manifest.spec, path: [...manifest.path, "spec"], name: reference.name } : undefined
+}
+
+// Steps and sidecars of every task spec; steps inherit the task's stepTemplate
+export function collectTektonContainers(parsed: ParsedYAML): KubernetesContainer[] {
+  return tektonTaskSpecs(parsed).flatMap(({ spec, path, name }) => {
+    const defaults = isObject(spec.stepTemplate) ? spec.stepTemplate : undefined
+    const containers: KubernetesContainer[] = []
+    if (defaults) containers.push({ container: defaults, path: [...path, "stepTemplate"], owner: name, role: "template" })
+    ;(["steps", "sidecars"] as const).forEach((key) =>
+      toArray(spec[key]).forEach((container: any, index: number) => {
+        if (!isObject(container)) return
+        containers.push({
+          container,
+          path: [...path, key, index],
+          owner: name,
+          role: key === "steps" ? "step" : "sidecar",
+          defaults: key === "steps" ? defaults : undefined,
+        })
+      }),
+    )
+    return containers
+  })
+}
+
+// Tasks whose results the text uses, e.g. "$(tasks.build.results.digest)"
+export function tektonResultReferences(value: any): string[] {
+  const text = JSON.stringify(value ?? null)
+  return [...new Set(Array.from(text.matchAll(/\$\(tasks\.([a-z0-9][a-z0-9-]*)\.results\./g), (match) => match[1]))]
+}
+
+// Pipeline tasks become jobs, ordered by runAfter and by the results they read; finally tasks
+// run once every other task is done. A file of Tasks alone has one job per task.
+export function buildTektonPipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  const pipeline = emptyPipeline("tekton")
+  const pipelines = tektonPipelines(parsed)
+  const containers = collectTektonContainers(parsed)
+  pipeline.secrets = containers.flatMap(({ container, path }) => containerSecrets(container, path, document))
+  const run = tektonManifests(parsed).find(({ kind }) => kind === "PipelineRun")
+  pipeline.timeoutMinutes = parseDurationMinutes(run?.manifest.spec?.timeouts?.pipeline ?? run?.manifest.spec?.timeout)
+
+  if (pipelines.length === 0) {
+    pipeline.jobs = tektonTaskSpecs(parsed).map((task) => ({
+      id: task.name,
+      name: task.name,
+      services: [],
+      steps: buildSteps(task, document),
+      dependencies: [],
+      caches: [],
+      artifacts: [],
+      variables: {},
+      manual: false,
+      allowFailure: false,
+      matrix: false,
+      ...locate(document, task.path),
+      raw: task.spec,
+    }))
+    return pipeline
+  }
+
+  pipeline.name = pipelines[0].name
+  pipelines.forEach((definition) => {
+    toArray(definition.spec.params).forEach((param: any) => {
+      if (isObject(param) && typeof param.name === "string" && param.default !== undefined) {
+        pipeline.variables[param.name] = typeof param.default === "string" ? param.default : JSON.stringify(param.default)
+      }
+    })
+  })
+
+  pipelines.forEach((definition) => {
+    // Task names only need to be unique within their pipeline
+    const id = (name: string) => (pipelines.length > 1 ? `${definition.name}/${name}` : name)
+    const regular = definition.tasks.filter((task) => !task.finally).map((task) => id(task.name))
+
+    definition.tasks.forEach(({ task, path, name, finally: isFinally }) => {
+      const spec = resolveTektonTask(task, path, parsed)
+      const reference = isObject(task.taskRef) ? task.taskRef : undefined
+      const dependencies = isFinally
+        ? regular
+        : [...new Set([...toArray(task.runAfter), ...tektonResultReferences([task.params, task.when, task.matrix])])]
+            .filter((dependency) => typeof dependency === "string")
+            .map(id)
+
+      pipeline.jobs.push({
+        id: id(name),
+        name: typeof task.displayName === "string" ? task.displayName : name,
+        stage: isFinally ? "finally" : undefined,
+        services: [],
+        steps: spec
+          ? buildSteps(spec, document)
+          : [
+              {
+                name,
+                // Tasks from the cluster, a bundle or a remote resolver
+                uses: typeof reference?.name === "string" ? reference.name : reference?.resolver,
+                inputs: taskParams(task),
+                commands: [],
+                ...locate(document, reference ? [...path, "taskRef"] : path),
+                raw: task,
+              },
+            ],
+        dependencies,
+        timeoutMinutes: parseDurationMinutes(task.timeout),
+        caches: [],
+        artifacts: [],
+        variables: { ...pipeline.variables, ...paramVariables(taskParams(task)) },
+        condition: whenCondition(task.when),
+        manual: false,
+        allowFailure: task.onError === "continue",
+        matrix: task.matrix !== undefined,
+        ...locate(document, path),
+        raw: task,
+      })
+    })
+  })
+
+  return pipeline
+}
+
+function buildSteps(task: TektonTaskSpec, document: YamlDocument): PipelineStep[] {
+  return toArray(task.spec.steps).flatMap((step: any, index: number): PipelineStep[] => {
+    if (!isObject(step)) return []
+    const path: YamlPath = [...task.path, "steps", index]
+    return [
+      {
+        name: typeof step.name === "string" ? step.name : undefined,
+        // Steps can run a StepAction instead of an image
+        uses: typeof step.ref?.name === "string" ? step.ref.name : undefined,
+        inputs: { ...containerVariables(step), ...taskParams(step) },
+        commands: containerCommands(step, path, document, "script"),
+        condition: whenCondition(step.when),
+        timeoutMinutes: parseDurationMinutes(step.timeout),
+        ...locate(document, path),
+        raw: step,
+      },
+    ]
+  })
+}
+
+function taskParams(task: Record<string, any>): Record<string, any> {
+  const params: Record<string, any> = {}
+  toArray(task.params).forEach((param: any) => {
+    if (isObject(param) && typeof param.name === "string") params[param.name] = param.value
+  })
+  return params
+}
+
+function paramVariables(params: Record<string, any>): Record<string, string> {
+  const variables: Record<string, string> = {}
+  Object.entries(params).forEach(([name, value]) => {
+    variables[name] = typeof value === "string" ? value : JSON.stringify(value ?? "")
+  })
+  return variables
+}
+
+// `when` expressions, all of which must hold, e.g. "$(params.branch) in [main]"
+function whenCondition(when: any): string | undefined {
+  const expressions = toArray(when).flatMap((expression: any) => {
+    if (!isObject(expression)) return []
+    if (typeof expression.cel === "string") return [expression.cel]
+    return [`${expression.input} ${expression.operator} [${toArray(expression.values).join(", ")}]`]
+  })
+  return expressions.length > 0 ? expressions.join(" && ") : undefined
+}
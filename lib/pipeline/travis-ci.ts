@@ -0,0 +1,183 @@
+import type { ParsedYAML } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import type { Pipeline, PipelineCache, PipelineJob, PipelineStep, PipelineTrigger, SecretReference } from "./model"
+import { collectVariableSecrets, commandsAt, emptyPipeline, isObject, locate, toArray, toStringList } from "./builder-utils"
+
+// Phases of the job lifecycle in the order Travis runs them
+export const TRAVIS_PHASES = [
+  "before_install",
+  "install",
+  "before_script",
+  "script",
+  "before_cache",
+  "after_success",
+  "after_failure",
+  "before_deploy",
+  "deploy",
+  "after_deploy",
+  "after_script",
+]
+// Keys whose list values expand the build matrix, one job per entry
+const MATRIX_KEYS = ["os", "dist", "arch", "jdk", "node_js", "python", "ruby", "go", "php", "rust", "dart", "elixir", "scala"]
+const DEFAULT_STAGE = "test"
+
+export interface TravisJobEntry {
+  // Include entry merged over the root configuration
+  job: Record<string, any>
+  // Keys set on the include entry itself
+  own: Record<string, any>
+  path: YamlPath
+  stage: string
+}
+
+// Jobs listed under jobs.include (or its older name matrix.include), each inheriting the
+// root configuration; without them the root configuration is the only job
+export function collectTravisJobs(parsed: ParsedYAML): TravisJobEntry[] {
+  const section = isObject(parsed.jobs) ? "jobs" : "matrix"
+  const include = isObject(parsed[section]) ? parsed[section].include : undefined
+  if (!Array.isArray(include) || include.length === 0) return [{ job: parsed, own: parsed, path: [], stage: DEFAULT_STAGE }]
+
+  // A job without a stage runs in the stage of the job listed before it
+  let stage = DEFAULT_STAGE
+  return include.flatMap((job: any, index: number) => {
+    if (!isObject(job)) return []
+    if (typeof job.stage === "string") stage = job.stage
+    return [{ job: { ...parsed, ...job }, own: job, path: [section, "include", index], stage }]
+  })
+}
+
+// Stages run one after another; jobs in a stage wait for every job in the stage before
+export function buildTravisPipeline(parsed: ParsedYAML, document: YamlDocument): Pipeline {
+  const pipeline = emptyPipeline("travis-ci")
+  pipeline.variables = globalVariables(parsed.env)
+  pipeline.triggers = buildTriggers(parsed.branches, document)
+  pipeline.secrets = [...secureVariables(parsed.env, document), ...collectVariableSecrets(document)]
+
+  const entries = collectTravisJobs(parsed)
+  const order = stageOrder(parsed.stages, entries)
+  const jobsByStage = new Map<string, string[]>()
+  const ids = entries.map(({ job, stage }, index) => {
+    const id = typeof job.name === "string" && entries.length > 1 ? job.name : entries.length > 1 ? `${stage}-${index + 1}` : "build"
+    jobsByStage.set(stage, [...(jobsByStage.get(stage) ?? []), id])
+    return id
+  })
+  const allowedFailures = toArray(parsed.jobs?.allow_failures ?? parsed.matrix?.allow_failures)
+
+  pipeline.jobs = entries.map(({ job, own, path, stage }, index): PipelineJob => {
+    const previous = order.slice(0, order.indexOf(stage)).reverse().find((name) => jobsByStage.has(name))
+    // Keys set on the include entry are located there, inherited ones at the root
+    const at = (key: string): YamlPath => (key in own ? [...path, key] : [key])
+    return {
+      id: ids[index],
+      name: typeof job.name === "string" ? job.name : undefined,
+      stage,
+      runner: [job.os ?? "linux", job.dist].filter((value) => typeof value === "string").join("/") || undefined,
+      services: [],
+      steps: buildSteps(job, at, document),
+      dependencies: previous ? jobsByStage.get(previous)! : [],
+      caches: buildCaches(job.cache, at("cache"), document),
+      artifacts: [],
+      variables: { ...pipeline.variables, ...jobVariables(job.env) },
+      condition: typeof job.if === "string" ? job.if : undefined,
+      manual: false,
+      allowFailure: allowedFailures.some((rule: any) => isObject(rule) && matches(rule, job)),
+      matrix: path.length === 0 && MATRIX_KEYS.some((key) => Array.isArray(job[key]) && job[key].length > 1),
+      ...locate(document, path.length > 0 ? path : [parsed.script !== undefined ? "script" : "language"]),
+      raw: job,
+    }
+  })
+
+  return pipeline
+}
+
+function buildSteps(job: Record<string, any>, at: (key: string) => YamlPath, document: YamlDocument): PipelineStep[] {
+  return TRAVIS_PHASES.flatMap((phase): PipelineStep[] => {
+    const value = job[phase]
+    if (value === undefined || value === null || value === false) return []
+    const path = at(phase)
+    if (phase === "deploy") {
+      // Deployments name a provider that does the work
+      return toArray(value).flatMap((deploy: any, index: number) =>
+        isObject(deploy)
+          ? [{
+              name: "deploy",
+              uses: typeof deploy.provider === "string" ? deploy.provider : undefined,
+              inputs: deploy,
+              commands: commandsAt(document, deploy.script, Array.isArray(value) ? [...path, index, "script"] : [...path, "script"]),
+              ...locate(document, Array.isArray(value) ? [...path, index] : path),
+              raw: deploy,
+            }]
+          : [],
+      )
+    }
+    return [{ name: phase, inputs: {}, commands: commandsAt(document, value, path), ...locate(document, path), raw: value }]
+  })
+}
+
+// `cache: npm` or `cache: { directories: [...], npm: true }`; Travis keys caches by branch and job configuration
+function buildCaches(cache: any, path: YamlPath, document: YamlDocument): PipelineCache[] {
+  if (cache === undefined || cache === false) return []
+  const paths = isObject(cache) ? toStringList(cache.directories) : []
+  return [{ keyIsDynamic: true, paths, ...locate(document, path) }]
+}
+
+function buildTriggers(branches: any, document: YamlDocument): PipelineTrigger[] {
+  const only = isObject(branches) ? toStringList(branches.only) : toStringList(branches)
+  const location = locate(document, branches !== undefined ? ["branches"] : [])
+  // Travis builds pushes and pull requests unless the repository settings turn them off
+  return ["push", "pull_request"].map((event) => ({ event, branches: only, tags: [], paths: [], ...location }))
+}
+
+// Stages listed under `stages:` run in that order, then any others in the order jobs name them
+function stageOrder(stages: any, entries: TravisJobEntry[]): string[] {
+  const declared = toArray(stages).flatMap((stage: any) =>
+    typeof stage === "string" ? [stage] : isObject(stage) && typeof stage.name === "string" ? [stage.name] : [],
+  )
+  entries.forEach(({ stage }) => {
+    if (!declared.some((name) => name.toLowerCase() === stage.toLowerCase())) declared.push(stage)
+  })
+  return declared.map((name) => entries.find(({ stage }) => stage.toLowerCase() === name.toLowerCase())?.stage ?? name)
+}
+
+// `env` is a list of "NAME=value" strings, or `{ global, jobs }`
+function globalVariables(env: any): Record<string, string> {
+  return jobVariables(isObject(env) ? env.global : undefined)
+}
+
+function jobVariables(env: any): Record<string, string> {
+  const variables: Record<string, string> = {}
+  // Global variables are read separately; `env.jobs` entries each start a job of the matrix
+  if (isObject(env) && ("global" in env || "jobs" in env || "matrix" in env)) return variables
+  toArray(env).forEach((entry: any) => {
+    if (typeof entry === "string") {
+      entry.split(/\s+(?=[A-Za-z_][A-Za-z0-9_]*=)/).forEach((assignment) => {
+        const [name, ...value] = assignment.split("=")
+        if (name && value.length > 0) variables[name] = value.join("=")
+      })
+    } else if (isObject(entry) && !("secure" in entry)) {
+      Object.entries(entry).forEach(([name, value]) => (variables[name] = String(value ?? "")))
+    }
+  })
+  return variables
+}
+
+// Encrypted `- secure: ...` entries hold secrets whose names are only known after decryption
+function secureVariables(env: any, document: YamlDocument): SecretReference[] {
+  const sections: [any, YamlPath][] = isObject(env)
+    ? [[env.global, ["env", "global"]], [env.jobs ?? env.matrix, ["env", env.jobs !== undefined ? "jobs" : "matrix"]]]
+    : [[env, ["env"]]]
+  return sections.flatMap(([entries, path]) =>
+    Array.isArray(entries)
+      ? entries.flatMap((entry: any, index: number) =>
+          isObject(entry) && typeof entry.secure === "string"
+            ? [{ name: "secure", expression: "secure: <encrypted>", ...locate(document, [...path, index, "secure"]) }]
+            : [],
+        )
+      : [],
+  )
+}
+
+// allow_failures entries match jobs with the same values for the keys they list
+function matches(rule: Record<string, any>, job: Record<string, any>): boolean {
+  return Object.entries(rule).every(([key, value]) => JSON.stringify(job[key]) === JSON.stringify(value))
+}
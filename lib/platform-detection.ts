@@ -0,0 +1,193 @@
+import type { ParsedYAML, PlatformCandidate, PlatformDetectionResult } from "./types"
+import { tektonManifests } from "./pipeline/tekton"
+import { argoManifests } from "./pipeline/argo-workflows"
+
+// A piece of evidence for a platform. Weights add up per platform: filenames and keys only one
+// platform uses weigh most, keys several platforms share weigh little.
+interface PlatformSignal {
+  platform: string
+  indicator: string
+  weight: number
+  matches: (parsed: ParsedYAML, filename: string) => boolean
+}
+
+// Candidates whose scores are closer than this are reported as ambiguous
+export const AMBIGUITY_MARGIN = 0.15
+
+// [platform, indicator, weight, pattern] for lowercased filenames and paths
+const FILENAME_SIGNALS: [string, string, number, RegExp][] = [
+  ["github-action-metadata", "action-metadata-filename", 0.8, /(^|\/)action\.ya?ml$/],
+  ["github-actions", "github-workflow-path", 0.8, /(^|\/)\.github\/workflows\//],
+  ["gitlab-ci", "gitlab-filename", 0.8, /(^|\/)\.gitlab-ci\.ya?ml$/],
+  ["gitlab-ci", "gitlab-in-filename", 0.3, /gitlab(?!-ci\.ya?ml$)/],
+  ["bitbucket-pipelines", "bitbucket-filename", 0.8, /(^|\/)bitbucket-pipelines\.ya?ml$/],
+  ["azure-pipelines", "azure-filename", 0.8, /(^|\/)azure-pipelines[^/]*\.ya?ml$/],
+  ["azure-pipelines", "azure-in-filename", 0.3, /azure(?!-pipelines)/],
+  ["circleci", "circleci-path", 0.8, /(^|\/)\.circleci\/config\.ya?ml$/],
+  ["jenkins", "jenkins-filename", 0.8, /(^|\/)jenkinsfile[^/]*$/],
+  ["buildkite", "buildkite-path", 0.8, /(^|\/)(\.buildkite\/|buildkite\.ya?ml$)/],
+  ["drone", "drone-filename", 0.8, /(^|\/)\.drone\.ya?ml$/],
+  ["woodpecker", "woodpecker-path", 0.8, /(^|\/)\.woodpecker(\.ya?ml$|\/)/],
+  ["travis-ci", "travis-filename", 0.8, /(^|\/)\.travis\.ya?ml$/],
+  ["aws-codebuild", "codebuild-filename", 0.8, /(^|\/)buildspec[^/]*\.ya?ml$/],
+  ["google-cloud-build", "cloud-build-filename", 0.8, /(^|\/)cloudbuild[^/]*\.ya?ml$/],
+  // Other Kubernetes resources share the directory; the API version below decides
+  ["tekton", "tekton-path", 0.5, /(^|\/)\.tekton\//],
+]
+
+const isMapping = (value: any): boolean => value !== null && typeof value === "object" && !Array.isArray(value)
+
+const signal = (platform: string, indicator: string, weight: number, matches: (parsed: ParsedYAML) => boolean): PlatformSignal => ({
+  platform,
+  indicator,
+  weight,
+  matches,
+})
+
+const SIGNALS: PlatformSignal[] = [
+  ...FILENAME_SIGNALS.map(([platform, indicator, weight, pattern]) => ({
+    platform,
+    indicator,
+    weight,
+    matches: (_: ParsedYAML, filename: string) => pattern.test(filename),
+  })),
+
+  // Kubernetes manifests name their API group, so they are recognised whatever the file is called
+  signal("tekton", "tekton-api-version", 0.95, (parsed) => tektonManifests(parsed).length > 0),
+  signal("argo-workflows", "argo-workflows-api-version", 0.95, (parsed) => argoManifests(parsed).length > 0),
+
+  signal("github-actions", "github-actions-trigger", 0.4, (parsed) => parsed.on !== undefined && isMapping(parsed.jobs)),
+  signal("github-actions", "github-actions-jobs", 0.5, (parsed) =>
+    Object.values(isMapping(parsed.jobs) ? parsed.jobs : {}).some(
+      (job: any) => isMapping(job) && (job["runs-on"] !== undefined || typeof job.uses === "string"),
+    ),
+  ),
+  signal("github-action-metadata", "action-metadata-structure", 0.9, (parsed) => isMapping(parsed.runs) && parsed.runs.using !== undefined),
+
+  // Azure stages are mappings with a `stage:` name; GitLab stages are plain names
+  signal("gitlab-ci", "gitlab-ci-stages", 0.5, (parsed) =>
+    Array.isArray(parsed.stages) && parsed.stages.length > 0 && parsed.stages.every((stage: any) => typeof stage === "string"),
+  ),
+  // Only GitLab jobs sit at the top level and run a script
+  signal("gitlab-ci", "gitlab-ci-jobs", 0.5, (parsed) =>
+    Object.entries(parsed).some(([key, job]) => {
+      if (key.startsWith(".") || !isMapping(job)) return false
+      return job.script !== undefined || (job.stage !== undefined && job.trigger !== undefined)
+    }),
+  ),
+  signal("gitlab-ci", "gitlab-ci-scripts", 0.3, (parsed) => parsed.before_script !== undefined || parsed.after_script !== undefined),
+  // Travis jobs also have a top-level script
+  signal("gitlab-ci", "gitlab-ci-script", 0.2, (parsed) => parsed.script !== undefined && parsed.language === undefined),
+  signal("gitlab-ci", "gitlab-ci-include", 0.2, (parsed) => parsed.include !== undefined || parsed.workflow?.rules !== undefined),
+
+  signal("bitbucket-pipelines", "bitbucket-pipelines-structure", 0.9, (parsed) => isMapping(parsed.pipelines)),
+
+  signal("azure-pipelines", "azure-trigger", 0.3, (parsed) => parsed.trigger !== undefined || parsed.pr !== undefined),
+  signal("azure-pipelines", "azure-pool", 0.4, (parsed) => parsed.pool !== undefined),
+  signal("azure-pipelines", "azure-template", 0.6, (parsed) => isMapping(parsed.extends) && parsed.extends.template !== undefined),
+  signal("azure-pipelines", "azure-stages", 0.6, (parsed) =>
+    Array.isArray(parsed.stages) && parsed.stages.some((stage: any) => isMapping(stage) && stage.stage !== undefined),
+  ),
+  signal("azure-pipelines", "azure-jobs", 0.6, (parsed) =>
+    Array.isArray(parsed.jobs) && parsed.jobs.some((job: any) => isMapping(job) && (job.job !== undefined || job.deployment !== undefined)),
+  ),
+  signal("azure-pipelines", "azure-steps", 0.5, (parsed) =>
+    stepEntries(parsed.steps).some((step) => ["task", "bash", "pwsh", "powershell", "checkout"].some((key) => key in step)),
+  ),
+
+  signal("circleci", "circleci-version", 0.4, (parsed) => typeof parsed.version === "number" && isMapping(parsed.jobs)),
+  signal("circleci", "circleci-workflows", 0.4, (parsed) => isMapping(parsed.workflows) && parsed.on === undefined),
+  signal("circleci", "circleci-orbs", 0.4, (parsed) => isMapping(parsed.orbs) || isMapping(parsed.executors)),
+
+  signal("jenkins", "jenkins-structure", 0.5, (parsed) => isMapping(parsed.pipeline) || parsed.agent !== undefined),
+
+  // Buildkite steps run on agents; steps with their own image are Drone or Woodpecker steps
+  signal("buildkite", "buildkite-structure", 0.8, (parsed) => isBuildkiteSteps(parsed.steps) && !isContainerSteps(parsed.steps)),
+
+  // Drone and Woodpecker share the step syntax; only Drone requires `kind`
+  signal("drone", "drone-structure", 0.9, (parsed) => parsed.kind === "pipeline" && parsed.steps !== undefined),
+  signal("drone", "container-steps", 0.5, (parsed) => isContainerSteps(parsed.steps)),
+  signal("woodpecker", "container-steps", 0.6, (parsed) => isContainerSteps(parsed.steps ?? parsed.pipeline)),
+
+  signal("travis-ci", "travis-language", 0.7, (parsed) => typeof parsed.language === "string" || typeof parsed.dist === "string"),
+  signal("travis-ci", "travis-structure", 0.5, (parsed) =>
+    parsed.before_install !== undefined || parsed.jobs?.include !== undefined || parsed.matrix?.include !== undefined,
+  ),
+
+  signal("aws-codebuild", "codebuild-structure", 0.9, (parsed) => isMapping(parsed.phases) && parsed.version !== undefined),
+
+  signal("google-cloud-build", "cloud-build-structure", 0.8, (parsed) => isCloudBuildSteps(parsed.steps)),
+  signal("google-cloud-build", "cloud-builders-image", 0.3, (parsed) =>
+    stepEntries(parsed.steps).some((step) => typeof step.name === "string" && step.name.startsWith("gcr.io/cloud-builders/")),
+  ),
+]
+
+// Scores every platform against its signals and ranks the ones with any evidence. The best
+// candidate is the detected platform; `ambiguous` is set when the runner-up scores within
+// AMBIGUITY_MARGIN of it.
+export function detectPlatform(parsed: ParsedYAML, filename?: string): PlatformDetectionResult {
+  const file = (filename ?? "").toLowerCase()
+  const scores = new Map<string, { score: number; evidence: string[] }>()
+
+  SIGNALS.forEach((signal) => {
+    if (!signal.matches(parsed, file)) return
+    const entry = scores.get(signal.platform) ?? { score: 0, evidence: [] }
+    entry.score += signal.weight
+    entry.evidence.push(signal.indicator)
+    scores.set(signal.platform, entry)
+  })
+
+  const ranked = Array.from(scores, ([platform, entry]) => ({ platform, ...entry })).sort((a, b) => b.score - a.score)
+  const candidates: PlatformCandidate[] = ranked.map(({ platform, score, evidence }) => ({
+    platform,
+    confidence: Math.round(Math.min(1, score) * 100) / 100,
+    evidence,
+  }))
+
+  const [best, runnerUp] = ranked
+  if (!best) return { platform: "unknown", confidence: 0, indicators: [], candidates, ambiguous: false }
+  return {
+    platform: best.platform,
+    confidence: candidates[0].confidence,
+    indicators: best.evidence,
+    candidates,
+    ambiguous: runnerUp !== undefined && best.score - runnerUp.score < AMBIGUITY_MARGIN,
+  }
+}
+
+// Mappings of a steps list, or of Woodpecker's mapping from step name to step
+function stepEntries(steps: any): any[] {
+  const entries = Array.isArray(steps) ? steps : steps && typeof steps === "object" ? Object.values(steps) : []
+  return entries.filter((step) => step && typeof step === "object" && !Array.isArray(step))
+}
+
+// Cloud Build steps name their builder image in `name` and pass it args
+function isCloudBuildSteps(steps: any): boolean {
+  const entries = stepEntries(steps)
+  return (
+    Array.isArray(steps) &&
+    entries.length > 0 &&
+    entries.every(
+      (step) =>
+        typeof step.name === "string" &&
+        step.image === undefined &&
+        (step.args !== undefined || step.entrypoint !== undefined || step.script !== undefined),
+    )
+  )
+}
+
+// Drone and Woodpecker steps run commands or plugin settings in an image
+function isContainerSteps(steps: any): boolean {
+  return stepEntries(steps).some((step) => typeof step.image === "string" && (step.commands !== undefined || step.settings !== undefined))
+}
+
+function isBuildkiteSteps(steps: any): boolean {
+  const keys = ["command", "commands", "plugins", "wait", "block", "input", "trigger", "group", "label"]
+  return (
+    Array.isArray(steps) &&
+    steps.length > 0 &&
+    steps.every((step) =>
+      typeof step === "string" ? ["wait", "block", "input"].includes(step) : step && typeof step === "object" && keys.some((key) => key in step),
+    )
+  )
+}
@@ -0,0 +1,251 @@
+import type { IncludeProvider, IssueSeverity, ProjectConfig, RuleSetting, SecurityVulnerability, SourceRange } from "./types"
+import { YamlParser, YamlSyntaxError, type YamlDocument, type YamlPath } from "./yaml-parser"
+import { closestMatch, validateSchema, type JsonSchema } from "./schema-validation"
+import { globToRegExp } from "./gitlab-simulator"
+import { isObject, toArray } from "./pipeline/builder-utils"
+import projectConfigSchema from "./data/schemas/reviewci.json"
+import bundledPresets from "./data/reviewci-presets.json"
+
+// Loads the project's rule configuration (.reviewci.yml): rules switched off or on, re-graded
+// or given options, overrides for files matching a glob, and `extends:` of bundled presets or
+// shared configurations elsewhere in the repository.
+
+export const PROJECT_CONFIG_FILES = [".reviewci.yml", ".reviewci.yaml"]
+
+const PRESETS: Record<string, ProjectConfig> = bundledPresets as Record<string, ProjectConfig>
+const PRESET_PREFIX = "reviewci:"
+// Configurations one project may pull in through `extends:`, presets included
+const MAX_EXTENDS = 20
+
+export interface ProjectConfigDiagnostic {
+  // `unresolved` covers shared configurations that could not be read, e.g. without an includeProvider
+  kind: "invalid" | "missing" | "cycle" | "limit" | "unresolved"
+  message: string
+  range?: SourceRange
+  // Closest preset name for misspelled presets
+  didYouMean?: string
+}
+
+export interface ResolvedRuleSetting {
+  enabled: boolean
+  severity?: IssueSeverity
+  options: Record<string, any>
+}
+
+export interface ProjectConfigLoad {
+  settings: ProjectRuleSettings
+  diagnostics: ProjectConfigDiagnostic[]
+  // Configuration file that was read, when one was
+  file?: string
+}
+
+interface RuleLayer {
+  // Globs the layer is limited to; layers without apply to every file
+  files?: RegExp[]
+  rules: Record<string, RuleSetting>
+}
+
+// Effective settings, as layers in order of precedence: extended configurations first, then
+// the configuration's own rules, then its overrides
+export class ProjectRuleSettings {
+  constructor(private layers: RuleLayer[] = []) {}
+
+  // Setting of a rule id or an issue ruleId for `file`, merged key by key across the layers
+  resolve(id: string | undefined, file?: string): ResolvedRuleSetting | undefined {
+    if (id === undefined) return undefined
+    const path = file === undefined ? undefined : normalizePath(file)
+    return this.layers.reduce<ResolvedRuleSetting | undefined>((resolved, { files, rules }) => {
+      if (files && (path === undefined || !files.some((pattern) => pattern.test(path)))) return resolved
+      if (!Object.prototype.hasOwnProperty.call(rules, id)) return resolved
+      return mergeSetting(resolved, rules[id])
+    }, undefined)
+  }
+
+  isEnabled(id: string, file?: string): boolean {
+    return this.resolve(id, file)?.enabled ?? true
+  }
+
+  options(id: string, file?: string): Record<string, any> {
+    return this.resolve(id, file)?.options ?? {}
+  }
+}
+
+// Vulnerabilities are graded critical to low; a configured severity maps onto that scale
+export function vulnerabilitySeverity(severity: IssueSeverity): SecurityVulnerability["severity"] {
+  return ({ critical: "critical", error: "high", warning: "medium", info: "low" } as const)[severity]
+}
+
+// Reads `source`, a posted .reviewci.yml or configuration, or else the .reviewci.yml the
+// provider has. Invalid configurations are reported and not applied.
+export async function loadProjectConfig(source: string | ProjectConfig | undefined, provider?: IncludeProvider): Promise<ProjectConfigLoad> {
+  const loader = new ProjectConfigLoader(provider)
+  let file: string | undefined
+
+  if (typeof source === "string") {
+    file = PROJECT_CONFIG_FILES[0]
+    await loader.loadText(source, file, [])
+  } else if (source !== undefined) {
+    await loader.load(source, undefined, "", [])
+  } else if (provider?.supports("local")) {
+    for (const candidate of PROJECT_CONFIG_FILES) {
+      const content = await provider.read({ kind: "local", location: candidate }).catch(() => undefined)
+      if (content === undefined) continue
+      file = candidate
+      await loader.loadText(content, file, [])
+      break
+    }
+  }
+
+  return { settings: new ProjectRuleSettings(loader.layers), diagnostics: loader.diagnostics, file }
+}
+
+class ProjectConfigLoader {
+  layers: RuleLayer[] = []
+  diagnostics: ProjectConfigDiagnostic[] = []
+  private extended = 0
+
+  constructor(private provider?: IncludeProvider) {}
+
+  async loadText(content: string, file: string, stack: string[], range?: SourceRange): Promise<void> {
+    let document: YamlDocument
+    try {
+      document = YamlParser.parseDocument(content, file)
+    } catch (error) {
+      const line = error instanceof YamlSyntaxError ? error.mark.line : undefined
+      const message = error instanceof Error ? error.message : "Unknown error"
+      this.report("invalid", `${file} is not valid YAML: ${message}`, line !== undefined ? lineRange(file, line) : range)
+      return
+    }
+    await this.load(document.toJS() ?? {}, document, file, stack)
+  }
+
+  async load(config: any, document: YamlDocument | undefined, file: string, stack: string[]): Promise<void> {
+    const locate = (path: YamlPath, key = false) => (key ? document?.getKeyRange(path) : document?.getRange(path))
+    const label = file || "The project configuration"
+
+    const errors = validateSchema(config, projectConfigSchema as JsonSchema)
+    errors.forEach((error) => {
+      const hint = error.didYouMean ? `; did you mean "${error.didYouMean}"?` : ""
+      this.report("invalid", `${label}: ${error.message}${hint}`, locate(error.path, error.kind === "unknown-key"), error.didYouMean)
+    })
+    const patternErrors = this.checkPatterns(config, locate, label)
+    if (errors.length > 0 || patternErrors > 0) return
+
+    const extended = toArray<string>(config.extends)
+    for (const [index, entry] of extended.entries()) {
+      const range = locate(Array.isArray(config.extends) ? ["extends", index] : ["extends"])
+      await this.extend(entry, file, [...stack, file], range)
+    }
+
+    this.layers.push({ rules: config.rules ?? {} })
+    toArray(config.overrides).forEach((override: any) =>
+      this.layers.push({ files: toArray<string>(override.files).map((glob) => globToRegExp(normalizePath(glob))), rules: override.rules }),
+    )
+  }
+
+  // Secret patterns are regular expressions the schema cannot check
+  private checkPatterns(config: any, locate: (path: YamlPath) => SourceRange | undefined, label: string): number {
+    const scopes: { rules: any; path: YamlPath }[] = [
+      { rules: config?.rules, path: ["rules"] },
+      ...toArray(config?.overrides).map((override: any, index: number) => ({ rules: override?.rules, path: ["overrides", index, "rules"] })),
+    ]
+    let invalid = 0
+    scopes.forEach(({ rules, path }) => {
+      const setting = isObject(rules) ? rules["hardcoded-secrets"] : undefined
+      toArray(isObject(setting) ? setting.options?.patterns : undefined).forEach((entry: any, index: number) => {
+        if (typeof entry?.pattern !== "string") return
+        try {
+          new RegExp(entry.pattern)
+        } catch (error) {
+          invalid++
+          const patternPath = [...path, "hardcoded-secrets", "options", "patterns", index, "pattern"]
+          const message = error instanceof Error ? error.message : "Unknown error"
+          this.report("invalid", `${label}: secret pattern "${entry.pattern}" is not a valid regular expression: ${message}`, locate(patternPath))
+        }
+      })
+    })
+    return invalid
+  }
+
+  private async extend(entry: string, file: string, stack: string[], range?: SourceRange): Promise<void> {
+    if (entry.startsWith(PRESET_PREFIX)) {
+      const preset = PRESETS[entry]
+      if (!preset) {
+        const didYouMean = closestMatch(entry, Object.keys(PRESETS))
+        const hint = didYouMean ? `; did you mean "${didYouMean}"?` : ""
+        this.report("missing", `There is no preset "${entry}"${hint} Presets: ${Object.keys(PRESETS).join(", ")}`, range, didYouMean)
+        return
+      }
+      await this.load(preset, undefined, entry, stack)
+      return
+    }
+
+    const location = resolvePath(directoryOf(file), entry)
+    if (stack.includes(location)) {
+      this.report("cycle", `${location} extends itself through ${[...stack, location].join(" → ")}`, range)
+      return
+    }
+    if (++this.extended > MAX_EXTENDS) {
+      this.report("limit", `More than ${MAX_EXTENDS} configurations are extended; ${location} and the rest were not applied`, range)
+      return
+    }
+    if (!this.provider?.supports("local")) {
+      this.report("unresolved", `${location} was not read, so its settings were not applied`, range)
+      return
+    }
+
+    let content: string | undefined
+    try {
+      content = await this.provider.read({ kind: "local", location })
+    } catch (error) {
+      this.report("missing", `${location} could not be read: ${error instanceof Error ? error.message : "Unknown error"}`, range)
+      return
+    }
+    if (content === undefined) {
+      this.report("missing", `${location} does not exist`, range)
+      return
+    }
+    await this.loadText(content, location, stack, range)
+  }
+
+  private report(kind: ProjectConfigDiagnostic["kind"], message: string, range?: SourceRange, didYouMean?: string): void {
+    this.diagnostics.push({ kind, message, range, didYouMean })
+  }
+}
+
+// Later settings override earlier ones; options are merged option by option
+function mergeSetting(base: ResolvedRuleSetting | undefined, setting: RuleSetting): ResolvedRuleSetting {
+  const resolved: ResolvedRuleSetting = { enabled: base?.enabled ?? true, severity: base?.severity, options: { ...base?.options } }
+  if (setting === false || setting === "off") return { ...resolved, enabled: false }
+  if (setting === true || setting === "on") return { ...resolved, enabled: true }
+  if (typeof setting === "string") return { ...resolved, enabled: true, severity: setting }
+  return {
+    enabled: setting.enabled ?? (setting.severity !== undefined ? true : resolved.enabled),
+    severity: setting.severity ?? resolved.severity,
+    options: { ...resolved.options, ...setting.options },
+  }
+}
+
+function lineRange(file: string, line: number): SourceRange {
+  return { start: { line, column: 1, offset: 0 }, end: { line, column: 1, offset: 0 }, file }
+}
+
+function normalizePath(path: string): string {
+  return path.trim().replace(/^(\.\/|\/)+/, "").replace(/\/{2,}/g, "/")
+}
+
+function directoryOf(file: string): string {
+  const index = file.lastIndexOf("/")
+  return index === -1 ? "" : file.slice(0, index)
+}
+
+// Shared configurations are named relative to the configuration extending them; a leading `/`
+// starts at the repository root
+function resolvePath(directory: string, location: string): string {
+  const parts = location.startsWith("/") ? [] : directory.split("/").filter(Boolean)
+  location
+    .split("/")
+    .filter((part) => part !== "" && part !== ".")
+    .forEach((part) => (part === ".." ? parts.pop() : parts.push(part)))
+  return parts.join("/")
+}
@@ -0,0 +1,144 @@
+import { BaseRule, type RuleContext } from "./base-rules"
+import type { ParsedYAML, RelatedLocation } from "../types"
+import type { YamlPath } from "../yaml-parser"
+import type { PipelineJob } from "../pipeline/model"
+import { isObject, toArray, toStringList } from "../pipeline/builder-utils"
+import { argoTemplates, argoWorkflowSpecs, collectArgoContainers } from "../pipeline/argo-workflows"
+
+interface DeclaredVolume {
+  name: string
+  path: YamlPath
+  // Claims created for the workflow from volumeClaimTemplates
+  claim: boolean
+  readWriteOnce: boolean
+}
+
+const CLAIM_SPEC_EXAMPLE = "    spec:\n      accessModes: [ReadWriteOnce]\n      resources:\n        requests:\n          storage: 1Gi"
+
+function isWithin(path: YamlPath, prefix: YamlPath): boolean {
+  return prefix.length <= path.length && prefix.every((key, index) => path[index] === key)
+}
+
+function declaredVolumes(owner: Record<string, any>, path: YamlPath): DeclaredVolume[] {
+  const volumes = toArray(owner.volumes).flatMap((volume: any, index: number) =>
+    typeof volume?.name === "string"
+      ? [{ name: volume.name, path: [...path, "volumes", index], claim: false, readWriteOnce: false }]
+      : [],
+  )
+  const claims = toArray(owner.volumeClaimTemplates).flatMap((claim: any, index: number) => {
+    const name = claim?.metadata?.name
+    if (typeof name !== "string") return []
+    const modes = toStringList(claim.spec?.accessModes)
+    const readWriteOnce = modes.length === 0 || modes.includes("ReadWriteOnce")
+    return [{ name, path: [...path, "volumeClaimTemplates", index], claim: true, readWriteOnce }]
+  })
+  return [...volumes, ...claims]
+}
+
+export class ArgoVolumeRule extends BaseRule {
+  id = "argo-volumes"
+  name = "Argo Workflows Volume Usage"
+  description = "Checks that mounted volumes are declared, that claims are used, and that ReadWriteOnce claims are not mounted by parallel tasks"
+  category = "linting"
+  severity = "error" as const
+  level = "intermediate" as const
+  platforms = ["argo-workflows"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const { document } = context
+    const containers = collectArgoContainers(parsed)
+
+    argoWorkflowSpecs(parsed).forEach((workflow) => {
+      const shared = declaredVolumes(workflow.spec, workflow.path)
+      const mounted = new Set<string>()
+
+      containers
+        .filter(({ path }) => isWithin(path, workflow.path))
+        .forEach(({ container, path, owner }) => {
+          // Templates can add volumes of their own
+          const template = argoTemplates(workflow).find((candidate) => isWithin(path, candidate.path))
+          const volumes = template ? [...shared, ...declaredVolumes(template.template, template.path)] : shared
+
+          toArray(container.volumeMounts).forEach((mount: any, index: number) => {
+            if (typeof mount?.name !== "string") return
+            mounted.add(mount.name)
+            if (volumes.some((volume) => volume.name === mount.name)) return
+            const range = document.getRange([...path, "volumeMounts", index, "name"])
+            context.addIssue({
+              title: `Mount of undeclared volume: ${mount.name}`,
+              description: `"${owner}" mounts volume "${mount.name}", which neither the workflow nor the template declares, so its pod is rejected`,
+              severity: "error",
+              category: "linting",
+              ruleId: "argo-undeclared-volume",
+              suggestion: "Declare the volume under the workflow's volumes or volumeClaimTemplates",
+              exampleCode: `volumeClaimTemplates:\n  - metadata:\n      name: ${mount.name}\n${CLAIM_SPEC_EXAMPLE}`,
+              line: range?.start.line,
+              range,
+            })
+          })
+        })
+
+      shared
+        .filter((volume) => volume.claim && !mounted.has(volume.name))
+        .forEach((volume) => {
+          const range = document.getRange([...volume.path, "metadata", "name"]) ?? document.getRange(volume.path)
+          context.addIssue({
+            title: `Unused volume claim: ${volume.name}`,
+            description: `Every run of workflow "${workflow.name}" creates a persistent volume claim for "${volume.name}", but no template mounts it`,
+            severity: "warning",
+            category: "cost",
+            ruleId: "argo-unused-volume-claim",
+            suggestion: "Remove the volume claim template, or mount it in the templates that share data",
+            line: range?.start.line,
+            range,
+          })
+        })
+
+      shared
+        .filter((volume) => volume.claim && volume.readWriteOnce)
+        .forEach((volume) => this.checkParallelMounts(volume, workflow.path, context))
+    })
+  }
+
+  // A ReadWriteOnce volume attaches to one node at a time, so a task scheduled on another node
+  // than a task running alongside it waits until the first one finishes, or forever
+  private checkParallelMounts(volume: DeclaredVolume, workflowPath: YamlPath, context: RuleContext): void {
+    const jobs = context.pipeline.jobs.filter((job) => isWithin(job.path, workflowPath))
+    const mounting = jobs.filter((job) =>
+      job.steps.some((step) => isObject(step.raw) && toArray(step.raw.volumeMounts).some((mount: any) => mount?.name === volume.name)),
+    )
+    const byId = new Map(jobs.map((job) => [job.id, job]))
+    const ancestors = (job: PipelineJob, seen = new Set<string>()): Set<string> => {
+      job.dependencies.forEach((dependency) => {
+        if (seen.has(dependency)) return
+        seen.add(dependency)
+        const upstream = byId.get(dependency)
+        if (upstream) ancestors(upstream, seen)
+      })
+      return seen
+    }
+
+    for (const [index, first] of mounting.entries()) {
+      const second = mounting
+        .slice(index + 1)
+        .find((other) => !ancestors(other).has(first.id) && !ancestors(first).has(other.id))
+      if (!second) continue
+      const range = context.document.getRange([...volume.path, "spec", "accessModes"]) ?? context.document.getRange(volume.path)
+      const relatedLocations: RelatedLocation[] = [first, second].flatMap((job) =>
+        job.range ? [{ message: `Task "${job.id}" mounts the volume`, range: job.range }] : [],
+      )
+      context.addIssue({
+        title: `Parallel tasks share ReadWriteOnce volume ${volume.name}`,
+        description: `"${first.id}" and "${second.id}" can run at the same time and both mount "${volume.name}", which only one node can attach; a pod scheduled elsewhere stays pending`,
+        severity: "warning",
+        category: "performance",
+        ruleId: "argo-parallel-rwo-volume",
+        suggestion: "Order the tasks with dependencies, use a ReadWriteMany storage class, or pass data between them as artifacts",
+        line: range?.start.line,
+        range,
+        relatedLocations,
+      })
+      return
+    }
+  }
+}
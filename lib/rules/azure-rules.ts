@@ -0,0 +1,215 @@
+import { BaseRule, type RuleContext } from "./base-rules"
+import type { ParsedYAML } from "../types"
+import type { PipelineCommand, PipelineStep } from "../pipeline/model"
+
+// Task versions Microsoft has deprecated, with the task that replaces them
+const DEPRECATED_TASKS: Record<string, string> = {
+  "nodetool@0": "UseNode@1",
+  "dotnetcoreinstaller@0": "UseDotNet@2",
+  "dotnetcoreinstaller@1": "UseDotNet@2",
+  "azurermwebappdeployment@3": "AzureRmWebAppDeployment@4",
+  "azurefunctionapp@1": "AzureFunctionApp@2",
+  "azurecli@1": "AzureCLI@2",
+  "azurepowershell@4": "AzurePowerShell@5",
+}
+
+// Commands that write their arguments to the job log
+const LOGGING_COMMAND_PATTERN = /^\s*(echo|printf|Write-Host|Write-Output|Write-Information|Write-Verbose|cat\s+<<)\b/i
+const SET_VARIABLE_PATTERN = /##vso\[task\.setvariable\s+([^\]]*)\]/i
+
+export class AzureTaskVersionRule extends BaseRule {
+  id = "azure-task-version"
+  name = "Azure Task Versions"
+  description = "Checks that tasks name a major version and avoids deprecated task versions"
+  category = "security"
+  severity = "warning" as const
+  level = "junior" as const
+  platforms = ["azure-pipelines", "azure-devops"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    context.pipeline.jobs.forEach((job) =>
+      job.steps.forEach((step) => {
+        const task = typeof step.raw.task === "string" ? step.raw.task.trim() : undefined
+        if (!task) return
+        const range = context.document.getRange([...step.path, "task"]) ?? step.range
+        const location = { line: range?.start.line, range }
+        const [name, version] = task.split("@")
+
+        if (version === undefined || version === "") {
+          context.addIssue({
+            title: `Task without a version: ${task}`,
+            description: `${name} does not name a version; Azure Pipelines requires one, e.g. ${name}@1`,
+            severity: "error",
+            category: "linting",
+            ruleId: "azure-task-missing-version",
+            suggestion: `Reference the task as ${name}@<major version>`,
+            ...location,
+          })
+          return
+        }
+
+        const replacement = DEPRECATED_TASKS[`${name.toLowerCase()}@${version.split(".")[0]}`]
+        if (replacement) {
+          context.addIssue({
+            title: `Deprecated task version: ${task}`,
+            description: `${task} is deprecated and no longer receives fixes`,
+            severity: "warning",
+            category: "maintainability",
+            ruleId: "azure-task-deprecated-version",
+            suggestion: `Use ${replacement} instead`,
+            ...location,
+          })
+        } else if (/^\d+$/.test(version)) {
+          // A major version floats to every minor and patch release of the task
+          context.addIssue({
+            title: `Task pinned to a major version only: ${task}`,
+            description: `${task} runs whichever ${name} ${version}.x release is installed, so its behavior can change between runs`,
+            severity: "info",
+            category: "security",
+            ruleId: "azure-task-unpinned",
+            suggestion: `Pin the full version, e.g. ${name}@${version}.<minor>.<patch>, where reproducible builds matter`,
+            ...location,
+          })
+        }
+      }),
+    )
+  }
+}
+
+export class AzureSecretEchoRule extends BaseRule {
+  id = "azure-secret-echo"
+  name = "Secrets Written to Logs"
+  description = "Detects secret variables echoed by scripts or set as outputs without issecret=true"
+  category = "security"
+  severity = "warning" as const
+  level = "intermediate" as const
+  platforms = ["azure-pipelines", "azure-devops"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const secrets = new Set(context.pipeline.secrets.map((secret) => secret.name.toLowerCase()))
+    secrets.add("system.accesstoken")
+
+    context.pipeline.jobs.forEach((job) =>
+      job.steps.forEach((step) => {
+        const mapped = this.secretEnvNames(step, secrets)
+        step.commands.forEach((command) => this.checkCommand(command, step, secrets, mapped, context))
+      }),
+    )
+  }
+
+  // Environment variables a step maps from secret variables, e.g. `env: TOKEN: $(apiToken)`
+  private secretEnvNames(step: PipelineStep, secrets: Set<string>): Set<string> {
+    const names = new Set<string>()
+    const env = step.raw.env
+    if (!env || typeof env !== "object") return names
+    Object.entries(env).forEach(([name, value]) => {
+      const references = Array.from(String(value ?? "").matchAll(/\$\(([\w.]+)\)/g))
+      if (references.some((match) => secrets.has(match[1].toLowerCase()))) names.add(name.toLowerCase())
+    })
+    return names
+  }
+
+  private checkCommand(
+    command: PipelineCommand,
+    step: PipelineStep,
+    secrets: Set<string>,
+    mapped: Set<string>,
+    context: RuleContext,
+  ): void {
+    const node = context.document.getNode(command.path)
+    let offset = 0
+
+    command.text.split("\n").forEach((line) => {
+      const lineOffset = offset
+      offset += line.length + 1
+      const secret = this.secretIn(line, secrets, mapped)
+      if (!secret) return
+      const range =
+        node?.kind === "scalar"
+          ? context.document.scalarRange(node, lineOffset + secret.index, lineOffset + secret.index + secret.text.length)
+          : command.range
+      const location = { line: range?.start.line, range }
+      const setVariable = line.match(SET_VARIABLE_PATTERN)
+
+      if (setVariable) {
+        if (/issecret\s*=\s*true/i.test(setVariable[1])) return
+        context.addIssue({
+          title: `Secret ${secret.name} set as a plain variable`,
+          description: `The logging command copies ${secret.text} into a variable without issecret=true, so the value is not masked in later logs`,
+          severity: "warning",
+          category: "security",
+          ruleId: "azure-secret-output-unmasked",
+          suggestion: "Add issecret=true to the ##vso[task.setvariable] command",
+          exampleCode: `echo "##vso[task.setvariable variable=NAME;issecret=true]${secret.text}"`,
+          ...location,
+        })
+      } else if (LOGGING_COMMAND_PATTERN.test(line)) {
+        context.addIssue({
+          title: `Secret ${secret.name} written to the log`,
+          description: `${step.name ? `Step "${step.name}"` : "A script"} prints ${secret.text}; masking only hides the exact value, so encoded or partial copies leak`,
+          severity: "warning",
+          category: "security",
+          ruleId: "azure-secret-echo",
+          suggestion: "Pass the secret to the command that needs it instead of printing it",
+          ...location,
+        })
+      }
+    })
+  }
+
+  private secretIn(line: string, secrets: Set<string>, mapped: Set<string>): { name: string; text: string; index: number } | undefined {
+    for (const match of Array.from(line.matchAll(/\$\(([\w.]+)\)/g))) {
+      if (secrets.has(match[1].toLowerCase())) return { name: match[1], text: match[0], index: match.index! }
+    }
+    // `$NAME`, `${NAME}`, `$env:NAME` and `%NAME%` read variables the step maps from secrets
+    for (const match of Array.from(line.matchAll(/\$\{?(?:env:)?([A-Za-z_]\w*)\}?|%([A-Za-z_]\w*)%/g))) {
+      const name = match[1] ?? match[2]
+      if (mapped.has(name.toLowerCase())) return { name, text: match[0], index: match.index! }
+    }
+    return undefined
+  }
+}
+
+export class AzureTimeoutRule extends BaseRule {
+  id = "azure-job-timeout"
+  name = "Azure Job Timeouts"
+  description = "Checks that jobs set timeoutInMinutes instead of relying on the agent defaults"
+  category = "performance"
+  severity = "info" as const
+  level = "junior" as const
+  platforms = ["azure-pipelines", "azure-devops"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    context.pipeline.jobs.forEach((job) => {
+      // Jobs left as unresolved template references are checked in the template
+      if (job.raw.template !== undefined) return
+      const range = context.document.getKeyRange(job.path) ?? job.range
+      const location = { line: range?.start.line, range }
+
+      if (job.raw.timeoutInMinutes === undefined) {
+        context.addIssue({
+          title: `Job "${job.id}" has no timeoutInMinutes`,
+          description: "Without timeoutInMinutes a job may run for 60 minutes on Microsoft-hosted agents before it is canceled, and longer on self-hosted ones",
+          severity: "info",
+          category: "performance",
+          ruleId: "azure-missing-timeout",
+          suggestion: "Set timeoutInMinutes a little above the job's usual duration",
+          exampleCode: "timeoutInMinutes: 30",
+          fixable: true,
+          ...location,
+        })
+      } else if (job.timeoutMinutes === 0) {
+        context.addIssue({
+          title: `Job "${job.id}" has no time limit`,
+          description: "timeoutInMinutes: 0 lets the job run for the maximum the agent allows, which is unlimited on self-hosted agents",
+          severity: "warning",
+          category: "performance",
+          ruleId: "azure-unlimited-timeout",
+          suggestion: "Set timeoutInMinutes to a finite limit",
+          exampleCode: "timeoutInMinutes: 60",
+          ...location,
+        })
+      }
+    })
+  }
+}
@@ -1,4 +1,9 @@
-import type { Issue, Optimization, SecurityVulnerability, ParsedYAML } from "../types"
+import type { AnalysisConfig, Issue, Optimization, SecurityVulnerability, ParsedYAML, SourceRange } from "../types"
+import type { YamlDocument, YamlPath, YamlScalar } from "../yaml-parser"
+import type { Pipeline } from "../pipeline/model"
+import type { ProjectRuleSettings } from "../project-config"
+import { collectInvocations, type ShellInvocation } from "../shell-commands"
+import { parseShell, type ShellScript } from "../shell-parser"
 
 export interface RuleContext {
   rawContent: string
@@ -8,8 +13,50 @@ export interface RuleContext {
   addOptimization: (optimization: Optimization) => void
   addSecurityVulnerability: (vulnerability: SecurityVulnerability) => void
   findPatternLines: (pattern: string) => number[]
+  document: YamlDocument
+  // Platform-neutral model of the configuration; prefer it over raw platform keys
+  pipeline: Pipeline
+  config: AnalysisConfig
+  // Rule settings of the project's .reviewci.yml
+  ruleSettings: ProjectRuleSettings
+  // Path of the analyzed file, for path-scoped settings
+  filename?: string
 }
 
+export interface ScalarMatch {
+  match: string
+  lineText: string
+  scalar: YamlScalar
+  path: YamlPath
+  range: SourceRange
+}
+
+export interface ShellMatch {
+  invocation: ShellInvocation
+  // The command as written in the script
+  text: string
+  scalar: YamlScalar
+  range: SourceRange
+}
+
+export interface ShellScriptBlock {
+  scalar: YamlScalar
+  script: ShellScript
+  // `shell:` of the step, job or workflow defaults, when one is set
+  shell?: string
+}
+
+// Where scripts are read from: a rule's context or the analysis engine
+export type ShellSource = Pick<RuleContext, "document" | "pipeline">
+
+// Keys holding shell scripts, for platforms the pipeline model does not cover
+const SCRIPT_KEYS = ["run", "script", "before_script", "after_script", "command"]
+// `shell:` values and step keys whose scripts are not POSIX shell
+const NON_POSIX_SHELLS = ["pwsh", "powershell", "cmd", "python", "bat"]
+
+// Every rule reads the same scripts, so each is parsed once
+const parsedScripts = new WeakMap<YamlScalar, ShellScript>()
+
 export abstract class BaseRule {
   abstract id: string
   abstract name: string
@@ -25,6 +72,11 @@ export abstract class BaseRule {
     return this.platforms.includes("all") || this.platforms.includes(platform)
   }
 
+  // Options the project configures for this rule
+  protected options(context: RuleContext): Record<string, any> {
+    return context.ruleSettings.options(this.id, context.filename)
+  }
+
   protected isValidYamlPath(obj: any, path: string): boolean {
     const parts = path.split(".")
     let current = obj
@@ -50,4 +102,99 @@ export abstract class BaseRule {
     }
     return current
   }
+
+  // Matches `pattern` against each line of every scalar value, skipping comment lines,
+  // so multi-line scripts report the exact source position of the match
+  protected findScalarMatches(context: RuleContext, pattern: RegExp): ScalarMatch[] {
+    const results: ScalarMatch[] = []
+    const flags = pattern.flags.includes("g") ? pattern.flags : pattern.flags + "g"
+
+    context.document.visitScalars((scalar, path) => {
+      if (typeof scalar.value !== "string") return
+      let lineOffset = 0
+      scalar.text.split("\n").forEach((lineText) => {
+        if (!lineText.trim().startsWith("#")) {
+          const regex = new RegExp(pattern.source, flags)
+          let match: RegExpExecArray | null
+          while ((match = regex.exec(lineText)) !== null) {
+            if (match[0].length === 0) {
+              regex.lastIndex++
+              continue
+            }
+            const start = lineOffset + match.index
+            results.push({
+              match: match[0],
+              lineText,
+              scalar,
+              path,
+              range: context.document.scalarRange(scalar, start, start + match[0].length),
+            })
+          }
+        }
+        lineOffset += lineText.length + 1
+      })
+    })
+
+    return results
+  }
+
+  protected findShellScripts(context: RuleContext): ShellScriptBlock[] {
+    return findShellScripts(context)
+  }
+
+  protected findShellInvocations(context: RuleContext): ShellMatch[] {
+    return findShellInvocations(context)
+  }
+}
+
+// Script bodies of run:, script: and similar keys, parsed into a shell AST. Steps that
+// run PowerShell, cmd or Python are skipped.
+export function findShellScripts({ document, pipeline }: ShellSource): ShellScriptBlock[] {
+  const blocks = new Map<YamlScalar, ShellScriptBlock>()
+  const addScript = (path: YamlPath, shell?: string) => {
+    const node = document.getNode(path)
+    if (node?.kind !== "scalar" || typeof node.value !== "string" || blocks.has(node)) return
+    blocks.set(node, { scalar: node, script: parseScript(node), shell })
+  }
+
+  const defaults = document.getNode(["defaults", "run", "shell"])
+  const workflowShell = defaults?.kind === "scalar" ? defaults.value : undefined
+  pipeline.jobs.forEach((job) => {
+    const jobShell = job.raw?.defaults?.run?.shell ?? workflowShell
+    job.steps.forEach((step) => {
+      const shell = step.raw?.shell ?? jobShell
+      if (NON_POSIX_SHELLS.includes(String(shell ?? "").split(" ")[0])) return
+      step.commands
+        .filter((command) => !command.path.some((key) => NON_POSIX_SHELLS.includes(String(key))))
+        .forEach((command) => addScript(command.path, typeof shell === "string" ? shell : undefined))
+    })
+  })
+  if (blocks.size === 0) {
+    document.visitScalars((scalar, path) => {
+      if (path.some((key) => SCRIPT_KEYS.includes(String(key)))) addScript(path)
+    })
+  }
+  return [...blocks.values()]
+}
+
+// Returns the commands each script runs, so rules match real invocations rather than
+// text inside comments, quotes or longer words
+export function findShellInvocations(source: ShellSource): ShellMatch[] {
+  return findShellScripts(source).flatMap(({ scalar, script }) =>
+    collectInvocations(script.body).map((invocation) => ({
+      invocation,
+      text: scalar.text.slice(invocation.start, invocation.end),
+      scalar,
+      range: source.document.scalarRange(scalar, invocation.start, invocation.end),
+    })),
+  )
+}
+
+function parseScript(scalar: YamlScalar): ShellScript {
+  let script = parsedScripts.get(scalar)
+  if (!script) {
+    script = parseShell(scalar.text)
+    parsedScripts.set(scalar, script)
+  }
+  return script
 }
@@ -0,0 +1,272 @@
+import { BaseRule, type RuleContext } from "./base-rules"
+import type { ParsedYAML } from "../types"
+import type { PipelineStep } from "../pipeline/model"
+import { toStringList } from "../pipeline/builder-utils"
+
+// Templates that change on every build; a key built from them never matches a previous cache
+const PER_BUILD_TEMPLATE = /\{\{\s*(epoch|\.Revision|\.BuildNum|\.Environment\.CIRCLE_SHA1|\.Environment\.CIRCLE_BUILD_NUM)\s*\}\}/
+const CHECKSUM_TEMPLATE = /\{\{\s*checksum\s/
+
+// Approximate credits per minute by executor and resource class, from CircleCI's published
+// pricing. Used to compare classes, not to estimate a bill.
+const RESOURCE_CLASS_CREDITS: Record<string, Record<string, number>> = {
+  docker: {
+    small: 5,
+    medium: 10,
+    "medium+": 15,
+    large: 20,
+    xlarge: 40,
+    "2xlarge": 80,
+    "2xlarge+": 100,
+    "arm.medium": 10,
+    "arm.large": 20,
+    "arm.xlarge": 40,
+    "arm.2xlarge": 80,
+  },
+  machine: {
+    medium: 10,
+    large: 20,
+    xlarge: 40,
+    "2xlarge": 80,
+    "arm.medium": 10,
+    "arm.large": 20,
+    "arm.xlarge": 40,
+    "arm.2xlarge": 80,
+    "gpu.nvidia.small": 160,
+    "gpu.nvidia.medium": 240,
+    "gpu.nvidia.large": 480,
+    "windows.medium": 40,
+    "windows.large": 120,
+    "windows.xlarge": 210,
+    "windows.2xlarge": 500,
+  },
+  macos: {
+    "macos.m1.medium.gen1": 150,
+    "macos.m1.large.gen1": 250,
+    "m2pro.medium": 150,
+    "m2pro.large": 300,
+  },
+}
+// Classes from four times the default medium upwards are worth a second look
+const LARGE_CLASS_CREDITS = 40
+
+export class CircleCICacheKeyRule extends BaseRule {
+  id = "circleci-cache-keys"
+  name = "CircleCI Cache Keys"
+  description = "Checks that save_cache keys change with dependencies and that restore_cache keys match a saved cache"
+  category = "performance"
+  severity = "warning" as const
+  level = "intermediate" as const
+  platforms = ["circleci"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const steps = context.pipeline.jobs.flatMap((job) => job.steps)
+    const saved = steps.filter((step) => step.uses === "save_cache").flatMap((step) => this.keysOf(step, "key"))
+    // Caches saved by orb commands that were not expanded cannot be matched
+    const hasUnexpandedSteps = steps.some((step) => step.uses?.includes("/"))
+
+    steps.forEach((step) => {
+      if (step.uses === "save_cache") this.checkSave(step, context)
+      if (step.uses !== "restore_cache" || hasUnexpandedSteps) return
+
+      const keys = this.keysOf(step, "keys").concat(this.keysOf(step, "key"))
+      // CircleCI restores the most recent cache whose key starts with one of the keys
+      if (keys.length === 0 || keys.some((key) => saved.some((savedKey) => normalizeKey(savedKey).startsWith(normalizeKey(key))))) return
+      const range = context.document.getRange(step.path) ?? step.range
+      context.addIssue({
+        title: "restore_cache never matches a saved cache",
+        description:
+          saved.length === 0
+            ? "No save_cache step saves a cache, so this restore always misses"
+            : `None of ${keys.map((key) => `"${key}"`).join(", ")} is a prefix of a key save_cache uses, so the restore always misses`,
+        severity: "warning",
+        category: "performance",
+        ruleId: "circleci-restore-key-unmatched",
+        suggestion: "Restore with the key save_cache uses, followed by its prefix as a fallback",
+        exampleCode: `- restore_cache:\n    keys:\n      - v1-deps-{{ checksum "package-lock.json" }}\n      - v1-deps-`,
+        line: range?.start.line,
+        range,
+      })
+    })
+  }
+
+  private checkSave(step: PipelineStep, context: RuleContext): void {
+    const range = context.document.getRange([...step.path, "save_cache", "key"]) ?? step.range
+    const location = { line: range?.start.line, range }
+    const key = step.inputs.key !== undefined ? String(step.inputs.key) : undefined
+
+    if (toStringList(step.inputs.paths).length === 0) {
+      context.addIssue({
+        title: "save_cache without paths",
+        description: "save_cache needs the paths to store; without them CircleCI rejects the step",
+        severity: "error",
+        category: "linting",
+        ruleId: "circleci-cache-missing-paths",
+        suggestion: "List the directories to cache under paths",
+        exampleCode: "paths:\n  - ~/.npm",
+        ...location,
+      })
+    }
+    // Keys without templates are reported as static cache keys
+    if (!key || !key.includes("{{")) return
+
+    if (PER_BUILD_TEMPLATE.test(key) && !CHECKSUM_TEMPLATE.test(key)) {
+      context.addIssue({
+        title: "Cache key changes on every build",
+        description: `"${key}" is new for every build, so each build uploads another cache and only prefix fallbacks ever restore one`,
+        severity: "info",
+        category: "performance",
+        ruleId: "circleci-cache-key-per-build",
+        suggestion: "Derive the key from a checksum of the lock file instead",
+        exampleCode: `key: v1-deps-{{ checksum "package-lock.json" }}`,
+        ...location,
+      })
+    } else if (!CHECKSUM_TEMPLATE.test(key)) {
+      // CircleCI never overwrites a cache, so the first cache saved under the key is kept for good
+      context.addIssue({
+        title: "Cache key ignores dependency changes",
+        description: `"${key}" does not include a checksum, so the cache saved first under it is restored even after dependencies change`,
+        severity: "warning",
+        category: "performance",
+        ruleId: "circleci-cache-key-no-checksum",
+        suggestion: 'Add {{ checksum "<lock file>" }} to the key',
+        exampleCode: `key: v1-deps-{{ .Branch }}-{{ checksum "package-lock.json" }}`,
+        ...location,
+      })
+    }
+
+    if (!/^v\d+[-_.]/.test(key) && !/^\{\{\s*\.Environment\./.test(key)) {
+      context.addIssue({
+        title: "Cache key has no version prefix",
+        description: "Caches cannot be cleared, so a key without a prefix such as v1- leaves no way to discard a broken cache",
+        severity: "info",
+        category: "maintainability",
+        ruleId: "circleci-cache-key-unversioned",
+        suggestion: "Start the key with a version prefix and bump it to start a fresh cache",
+        exampleCode: `key: v1-${key}`,
+        ...location,
+      })
+    }
+  }
+
+  private keysOf(step: PipelineStep, input: "key" | "keys"): string[] {
+    return toStringList(step.inputs[input]).filter((key) => key.trim() !== "")
+  }
+}
+
+export class CircleCIResourceClassRule extends BaseRule {
+  id = "circleci-resource-class"
+  name = "CircleCI Resource Classes"
+  description = "Checks that resource classes exist for the job's executor and flags expensive ones"
+  category = "cost"
+  severity = "info" as const
+  level = "intermediate" as const
+  platforms = ["circleci"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    context.pipeline.jobs.forEach((job) => {
+      const resourceClass = job.raw.resource_class
+      if (typeof resourceClass !== "string" || resourceClass.includes("<<")) return
+      // Self-hosted runners are named namespace/resource-class
+      if (resourceClass.includes("/")) return
+
+      const executor = ["docker", "machine", "macos"].find((key) => job.raw[key] !== undefined)
+      if (!executor) return
+      const range = context.document.getRange([...job.path, "resource_class"]) ?? job.range
+      const location = { line: range?.start.line, range }
+      const credits = RESOURCE_CLASS_CREDITS[executor][resourceClass]
+
+      if (credits === undefined) {
+        context.addIssue({
+          title: `Unknown ${executor} resource class: ${resourceClass}`,
+          description: `"${resourceClass}" is not a resource class of the ${executor} executor, so the job fails to start`,
+          severity: "error",
+          category: "linting",
+          ruleId: "circleci-invalid-resource-class",
+          suggestion: `Use one of ${Object.keys(RESOURCE_CLASS_CREDITS[executor]).join(", ")}`,
+          ...location,
+        })
+      } else if (credits >= LARGE_CLASS_CREDITS) {
+        const medium = RESOURCE_CLASS_CREDITS[executor].medium
+        context.addIssue({
+          title: `Expensive resource class: ${resourceClass}`,
+          description: `${resourceClass} uses about ${credits} credits per minute${medium ? `, ${credits / medium}× the default medium class` : ""}`,
+          severity: "info",
+          category: "cost",
+          ruleId: "circleci-large-resource-class",
+          suggestion: "Check the job's CPU and memory use in the Resources tab and pick the smallest class that keeps it fast",
+          ...location,
+        })
+      }
+    })
+  }
+}
+
+export class CircleCIOrbVersionRule extends BaseRule {
+  id = "circleci-orb-version"
+  name = "CircleCI Orb Versions"
+  description = "Checks that orbs are pinned to a released version rather than volatile or dev versions"
+  category = "security"
+  severity = "warning" as const
+  level = "junior" as const
+  platforms = ["circleci"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    if (!parsed.orbs || typeof parsed.orbs !== "object") return
+
+    Object.entries(parsed.orbs).forEach(([alias, reference]) => {
+      // Inline orbs are defined in the configuration itself
+      if (typeof reference !== "string") return
+      const range = context.document.getRange(["orbs", alias])
+      const location = { line: range?.start.line, range }
+      const [name, version] = reference.trim().split("@")
+
+      if (!version) {
+        context.addIssue({
+          title: `Orb without a version: ${reference}`,
+          description: `${name} does not name a version; CircleCI requires one`,
+          severity: "error",
+          category: "linting",
+          ruleId: "circleci-orb-missing-version",
+          suggestion: `Reference the orb as ${name}@<version>`,
+          ...location,
+        })
+      } else if (version === "volatile") {
+        context.addIssue({
+          title: `Orb pinned to volatile: ${reference}`,
+          description: `${name}@volatile runs the newest published version of the orb, including breaking releases`,
+          severity: "warning",
+          category: "security",
+          ruleId: "circleci-orb-volatile",
+          suggestion: `Pin ${name} to a released version`,
+          ...location,
+        })
+      } else if (version.startsWith("dev:")) {
+        context.addIssue({
+          title: `Orb pinned to a development version: ${reference}`,
+          description: "Development versions can be overwritten by anyone with access to the namespace and expire after 90 days",
+          severity: "error",
+          category: "security",
+          ruleId: "circleci-orb-dev-version",
+          suggestion: `Publish a release of ${name} and pin to it`,
+          ...location,
+        })
+      } else if (/^\d+(\.\d+)?$/.test(version)) {
+        context.addIssue({
+          title: `Orb pinned to a major or minor version only: ${reference}`,
+          description: `${reference} picks up every new release in that range, so its commands can change between builds`,
+          severity: "info",
+          category: "security",
+          ruleId: "circleci-orb-unpinned",
+          suggestion: `Pin the full version, e.g. ${name}@${version}${version.includes(".") ? "" : ".0"}.0, where reproducible builds matter`,
+          ...location,
+        })
+      }
+    })
+  }
+}
+
+// Keys compared as written, with whitespace inside templates ignored
+function normalizeKey(key: string): string {
+  return key.replace(/\{\{\s*(.*?)\s*\}\}/g, "{{$1}}").trim()
+}
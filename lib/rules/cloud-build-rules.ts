@@ -0,0 +1,48 @@
+import { BaseRule, type RuleContext } from "./base-rules"
+import type { ParsedYAML } from "../types"
+import { findSubstitutions } from "../pipeline/cloud-build"
+
+// Substitutions a pull request or pushed ref controls: anyone who can push a branch or open
+// a pull request from a fork chooses their value
+const UNTRUSTED_SUBSTITUTIONS = ["BRANCH_NAME", "TAG_NAME", "REF_NAME", "_HEAD_BRANCH", "_BASE_BRANCH", "_HEAD_REPO_URL"]
+
+export class CloudBuildSubstitutionInjectionRule extends BaseRule {
+  id = "cloudbuild-substitution-injection"
+  name = "Cloud Build Substitution Injection"
+  description = "Traces branch names and user-defined substitutions into shell scripts passed with -c"
+  category = "security"
+  severity = "critical" as const
+  level = "intermediate" as const
+  platforms = ["google-cloud-build"]
+
+  // Cloud Build replaces substitutions in args before the step starts, so the shell parses their
+  // values as script. `script` fields are not substituted and only see them as variables.
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    context.pipeline.jobs.forEach((job) => {
+      job.steps
+        .flatMap((step) => step.commands)
+        .filter((command) => command.path.includes("args"))
+        .forEach((command) => {
+          const node = context.document.getNode(command.path)
+          if (!node || node.kind !== "scalar") return
+
+          findSubstitutions(node.text).forEach(({ name, start, end }) => {
+            const untrusted = UNTRUSTED_SUBSTITUTIONS.includes(name)
+            if (!untrusted && !name.startsWith("_")) return
+            const range = context.document.scalarRange(node, start, end)
+
+            context.addSecurityVulnerability({
+              title: "Script injection from substitution",
+              description: untrusted
+                ? `$${name} is substituted into the script of step "${job.id}" before bash runs it, so a branch or tag name containing quotes or $(...) runs commands with the build's service account`
+                : `$${name} is substituted into the script of step "${job.id}" before bash runs it, so whoever can set substitutions on a trigger or with gcloud builds submit can run commands`,
+              severity: untrusted ? "critical" : "high",
+              recommendation: `Pass the value through env (env: ['VALUE=$${name}']) and use "$$VALUE" in the script, quoted`,
+              line: range.start.line,
+              range,
+            })
+          })
+        })
+    })
+  }
+}
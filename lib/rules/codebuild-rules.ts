@@ -0,0 +1,52 @@
+import { BaseRule, type RuleContext } from "./base-rules"
+import type { ParsedYAML } from "../types"
+import { isObject } from "../pipeline/builder-utils"
+import { collectBatchBuilds } from "../pipeline/codebuild"
+
+// Commands that need the Docker daemon privileged mode starts
+const DOCKER_COMMAND = /(^|[\s;&|(])(docker|dockerd|docker-compose)\s/m
+
+export class CodeBuildPrivilegedModeRule extends BaseRule {
+  id = "codebuild-privileged-mode"
+  name = "CodeBuild Privileged Mode"
+  description = "Flags batch builds that run in privileged mode, and those that do so without using Docker"
+  category = "security"
+  severity = "warning" as const
+  level = "intermediate" as const
+  platforms = ["aws-codebuild"]
+
+  // privileged-mode can only be set per build in a batch; the project's own setting is not in the buildspec
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const builds = collectBatchBuilds(parsed)
+      .filter(({ build }) => build.env?.["privileged-mode"] === true)
+      .map(({ path, identifier }) => ({ path, identifier }))
+    const matrix = isObject(parsed.batch) ? parsed.batch["build-matrix"] : undefined
+    if (isObject(matrix?.static) && matrix.static.env?.["privileged-mode"] === true) {
+      builds.push({ path: ["batch", "build-matrix", "static"], identifier: "build" })
+    }
+
+    builds.forEach(({ path, identifier }) => {
+      const range = context.document.getRange([...path, "env", "privileged-mode"])
+      const job = context.pipeline.jobs.find((candidate) => candidate.id === identifier)
+      const commands = job?.steps.flatMap((step) => step.commands.map((command) => command.text)) ?? []
+      // Builds with a buildspec of their own run commands this file does not show
+      const needed = commands.length === 0 || commands.some((command) => DOCKER_COMMAND.test(command))
+
+      context.addIssue({
+        title: needed ? `Build "${identifier}" runs in privileged mode` : `Privileged mode without Docker in build "${identifier}"`,
+        description: needed
+          ? "Privileged mode gives the build root access to the build host's Docker daemon, so a compromised dependency or script can escape the build container"
+          : "The build runs no docker commands, yet privileged mode gives it root access to the build host's Docker daemon",
+        severity: needed ? "info" : "warning",
+        category: "security",
+        ruleId: "codebuild-privileged-mode",
+        suggestion: needed
+          ? "Keep privileged mode to the builds that build images, or build images without a daemon using kaniko or buildah"
+          : "Remove privileged-mode from the build",
+        exampleCode: "env:\n  privileged-mode: false",
+        line: range?.start.line,
+        range,
+      })
+    })
+  }
+}
@@ -1,5 +1,6 @@
 import { BaseRule, type RuleContext } from "./base-rules"
 import type { ParsedYAML } from "../types"
+import { jobEntries } from "../pipeline/builder-utils"
 
 export class ComplianceRule extends BaseRule {
   id = "compliance-standards"
@@ -66,7 +67,7 @@ export class ComplianceRule extends BaseRule {
     if (context.platform === "github-actions") {
       // Check for environment protection rules
       if (parsed.jobs) {
-        Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
+        jobEntries(parsed, context.pipeline).forEach(([jobName, job]: [string, any]) => {
           if (job.environment && typeof job.environment === "string") {
             // Production environments should have protection rules
             if (job.environment.toLowerCase().includes("prod")) {
@@ -110,7 +111,7 @@ export class ComplianceRule extends BaseRule {
     if (context.platform === "github-actions") {
       // Check for artifact retention settings
       if (parsed.jobs) {
-        Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
+        jobEntries(parsed, context.pipeline).forEach(([jobName, job]: [string, any]) => {
           if (job.steps) {
             const artifactSteps = job.steps.filter((step: any) => 
               step.uses && step.uses.includes("upload-artifact")
@@ -1,5 +1,6 @@
 import { BaseRule, type RuleContext } from "./base-rules"
 import type { ParsedYAML } from "../types"
+import { jobEntries } from "../pipeline/builder-utils"
 
 export class CostOptimizationRule extends BaseRule {
   id = "cost-optimization"
@@ -77,7 +78,7 @@ export class CostOptimizationRule extends BaseRule {
     if (context.platform === "github-actions" && parsed.jobs) {
       const expensiveRunners = ["macos", "windows", "large", "xlarge", "2xlarge", "4xlarge"]
       
-      Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
+      jobEntries(parsed, context.pipeline).forEach(([jobName, job]: [string, any]) => {
         const runner = job["runs-on"]
         
         if (typeof runner === "string") {
@@ -104,7 +105,7 @@ export class CostOptimizationRule extends BaseRule {
   private checkBuildFrequency(parsed: ParsedYAML, context: RuleContext): void {
     // Check for matrix strategies that might be excessive
     if (context.platform === "github-actions" && parsed.jobs) {
-      Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
+      jobEntries(parsed, context.pipeline).forEach(([jobName, job]: [string, any]) => {
         if (job.strategy?.matrix) {
           const matrixSize = this.calculateMatrixSize(job.strategy.matrix)
           
@@ -132,7 +133,7 @@ export class CostOptimizationRule extends BaseRule {
   private checkResourceWaste(parsed: ParsedYAML, context: RuleContext): void {
     // Check for long-running jobs without optimization
     if (context.platform === "github-actions" && parsed.jobs) {
-      Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
+      jobEntries(parsed, context.pipeline).forEach(([jobName, job]: [string, any]) => {
         if (job["timeout-minutes"] && job["timeout-minutes"] > 60) {
           const hasOptimizations = job.steps?.some((step: any) => 
             step.uses?.includes("cache") || 
@@ -247,7 +248,7 @@ export class ConcurrencyRule extends BaseRule {
       const benefitsFromConcurrency = 
         parsed.on?.pull_request || 
         parsed.on?.push ||
-        (parsed.on?.workflow_dispatch && parsed.jobs && Object.keys(parsed.jobs).length > 1)
+        (parsed.on?.workflow_dispatch && parsed.jobs && jobEntries(parsed, context.pipeline).map(([jobName]) => jobName).length > 1)
 
       if (benefitsFromConcurrency) {
         context.addOptimization({
@@ -280,7 +281,7 @@ export class ConcurrencyRule extends BaseRule {
   private checkJobConcurrency(parsed: ParsedYAML, context: RuleContext): void {
     if (!parsed.jobs) return
 
-    Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
+    jobEntries(parsed, context.pipeline).forEach(([jobName, job]: [string, any]) => {
       if (job.concurrency && typeof job.concurrency === "object") {
         if (!job.concurrency["cancel-in-progress"]) {
           context.addOptimization({
@@ -0,0 +1,228 @@
+import { BaseRule, type RuleContext } from "./base-rules"
+import type { ParsedYAML, SourceRange } from "../types"
+import type { YamlPath, YamlScalar } from "../yaml-parser"
+import type { PipelineJob } from "../pipeline/model"
+import {
+  ExpressionSyntaxError,
+  STATUS_FUNCTIONS,
+  checkExpression,
+  collectContextReferences,
+  evaluateCondition,
+  extractExpressions,
+  parseExpression,
+  type ExpressionNode,
+} from "../github-expressions"
+
+const DIAGNOSTIC_ISSUES = {
+  "unknown-context": { title: "Unknown expression context", ruleId: "expression-unknown-context", severity: "error" },
+  "unknown-function": { title: "Unknown expression function", ruleId: "expression-unknown-function", severity: "error" },
+  arity: { title: "Wrong number of function arguments", ruleId: "expression-function-arity", severity: "error" },
+  type: { title: "Expression type error", ruleId: "expression-type-error", severity: "warning" },
+} as const
+
+export class ExpressionRule extends BaseRule {
+  id = "github-expressions"
+  name = "GitHub Expressions"
+  description = "Parses ${{ }} expressions and checks if: conditions for mistakes"
+  category = "linting"
+  severity = "error" as const
+  level = "intermediate" as const
+  platforms = ["github-actions"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const jobs = new Map(context.pipeline.jobs.map((job) => [job.id, job]))
+
+    // Every `${{ }}` in the file, including ones inside `if:` values
+    context.document.visitScalars((scalar, path) => {
+      if (typeof scalar.value !== "string" || !scalar.text.includes("${{")) return
+      const job = path[0] === "jobs" ? jobs.get(String(path[1])) : undefined
+
+      extractExpressions(scalar.text).forEach((expression) => {
+        if (!expression.terminated) {
+          this.reportSyntaxError(context, scalar, expression.outerStart, scalar.text.length, "Missing closing \"}}\"")
+          return
+        }
+        const node = this.parse(context, scalar, expression.source, expression.start)
+        if (node) this.checkNode(context, scalar, node, expression.start, job)
+      })
+    })
+
+    context.pipeline.jobs.forEach((job) => {
+      this.checkCondition(context, [...job.path, "if"], job, `Job "${job.id}"`)
+      job.steps.forEach((step, index) => {
+        this.checkCondition(context, [...step.path, "if"], job, `Step "${step.name ?? step.uses ?? index + 1}" in job "${job.id}"`)
+      })
+    })
+  }
+
+  private checkCondition(context: RuleContext, path: YamlPath, job: PipelineJob, subject: string): void {
+    const scalar = context.document.getNode(path)
+    if (!scalar || scalar.kind !== "scalar" || scalar.value === null) return
+
+    const text = scalar.text.trim()
+    const expressions = extractExpressions(scalar.text)
+    const wrapped = expressions.length === 1 && text.startsWith("${{") && text.endsWith("}}")
+
+    // Text around `${{ }}` turns the condition into a non-empty string
+    if (expressions.length > 0 && !wrapped) {
+      context.addIssue({
+        title: "Condition is always true",
+        description: `${subject} has an if: condition that mixes text with \${{ }}, so it evaluates to a non-empty string and always runs`,
+        severity: "warning",
+        category: "best-practice",
+        ruleId: "condition-always-true",
+        suggestion: "Wrap the whole condition in a single ${{ }} or drop the delimiters",
+        exampleCode: "if: github.ref == 'refs/heads/main' && github.event_name == 'push'",
+        line: this.rangeOf(context, scalar).start.line,
+        range: this.rangeOf(context, scalar),
+      })
+      return
+    }
+
+    let node: ExpressionNode | null
+    if (wrapped) {
+      node = this.parseQuietly(expressions[0].source)
+    } else {
+      // A bare condition is an expression without delimiters; ${{ }} spans were checked above
+      const leading = scalar.text.length - scalar.text.trimStart().length
+      node = this.parse(context, scalar, text, leading)
+      if (node) this.checkNode(context, scalar, node, leading, job)
+    }
+    if (!node) return
+
+    // Bare status functions such as always() are deliberate
+    if (node.type === "call" && STATUS_FUNCTIONS.includes(node.name.toLowerCase())) return
+
+    const outcome = evaluateCondition(node)
+    if (outcome === undefined) return
+    const range = this.rangeOf(context, scalar)
+
+    context.addIssue({
+      title: outcome ? "Condition is always true" : "Condition is always false",
+      description: outcome
+        ? `${subject} has an if: condition that does not depend on the run, so it never skips`
+        : `${subject} has an if: condition that can never be true, so it never runs`,
+      severity: "warning",
+      category: "best-practice",
+      ruleId: outcome ? "condition-always-true" : "condition-always-false",
+      suggestion: outcome
+        ? "Remove the condition or make it depend on a context such as github or needs"
+        : "Remove the unreachable job or step, or fix the condition",
+      line: range.start.line,
+      range,
+    })
+  }
+
+  private checkNode(context: RuleContext, scalar: YamlScalar, node: ExpressionNode, offset: number, job?: PipelineJob): void {
+    checkExpression(node).forEach((diagnostic) => {
+      const { title, ruleId, severity } = DIAGNOSTIC_ISSUES[diagnostic.kind]
+      const range = context.document.scalarRange(scalar, offset + diagnostic.start, offset + diagnostic.end)
+      context.addIssue({
+        title,
+        description: diagnostic.message,
+        severity,
+        category: "linting",
+        ruleId,
+        suggestion:
+          diagnostic.kind === "unknown-context"
+            ? "Use one of the documented contexts: github, env, vars, job, jobs, steps, runner, secrets, strategy, matrix, needs, inputs"
+            : "Check the expression against the GitHub Actions expression syntax",
+        documentationUrl: "https://docs.github.com/en/actions/learn-github-actions/expressions",
+        line: range.start.line,
+        range,
+      })
+    })
+
+    if (job) this.checkNeedsReferences(context, scalar, node, offset, job)
+  }
+
+  // `needs` only exposes direct dependencies, and only the outputs they declare
+  private checkNeedsReferences(
+    context: RuleContext,
+    scalar: YamlScalar,
+    node: ExpressionNode,
+    offset: number,
+    job: PipelineJob,
+  ): void {
+    collectContextReferences(node).forEach(({ path, start, end }) => {
+      if (path[0].toLowerCase() !== "needs" || path.length < 2) return
+      const range = context.document.scalarRange(scalar, offset + start, offset + end)
+      const needed = path[1]
+
+      if (!job.dependencies.includes(needed)) {
+        context.addIssue({
+          title: "Reference to a job that is not needed",
+          description: `Job "${job.id}" reads needs.${needed} but does not list "${needed}" under needs, so the value is always empty`,
+          severity: "error",
+          category: "linting",
+          ruleId: "expression-undefined-need",
+          suggestion: `Add "${needed}" to the needs of job "${job.id}"`,
+          exampleCode: `needs: [${[...job.dependencies, needed].join(", ")}]`,
+          line: range.start.line,
+          range,
+        })
+        return
+      }
+
+      const target = context.pipeline.jobs.find((candidate) => candidate.id === needed)
+      const output = path[2]?.toLowerCase() === "outputs" ? path[3] : undefined
+      if (!target || output === undefined || output === "*") return
+      const outputs = target.raw.outputs && typeof target.raw.outputs === "object" ? Object.keys(target.raw.outputs) : []
+
+      if (!outputs.some((name) => name.toLowerCase() === output.toLowerCase())) {
+        context.addIssue({
+          title: "Undefined job output",
+          description: `Job "${needed}" does not define an output named "${output}"`,
+          severity: "error",
+          category: "linting",
+          ruleId: "expression-undefined-output",
+          suggestion:
+            outputs.length > 0
+              ? `Use one of the outputs of "${needed}": ${outputs.join(", ")}`
+              : `Declare "${output}" under outputs of job "${needed}"`,
+          exampleCode: `${needed}:\n  outputs:\n    ${output}: \${{ steps.<step-id>.outputs.${output} }}`,
+          line: range.start.line,
+          range,
+        })
+      }
+    })
+  }
+
+  private parse(context: RuleContext, scalar: YamlScalar, source: string, offset: number): ExpressionNode | null {
+    try {
+      return parseExpression(source)
+    } catch (error) {
+      if (!(error instanceof ExpressionSyntaxError)) throw error
+      const start = offset + Math.min(error.offset, Math.max(source.length - 1, 0))
+      this.reportSyntaxError(context, scalar, start, Math.max(start + 1, offset + source.length), error.message)
+      return null
+    }
+  }
+
+  private parseQuietly(source: string): ExpressionNode | null {
+    try {
+      return parseExpression(source)
+    } catch {
+      return null
+    }
+  }
+
+  private reportSyntaxError(context: RuleContext, scalar: YamlScalar, start: number, end: number, message: string): void {
+    const range = context.document.scalarRange(scalar, start, end)
+    context.addIssue({
+      title: "Invalid expression",
+      description: message,
+      severity: "error",
+      category: "syntax",
+      ruleId: "expression-syntax-error",
+      suggestion: "Fix the expression syntax; strings use single quotes and operators are ==, !=, <, >, &&, || and !",
+      documentationUrl: "https://docs.github.com/en/actions/learn-github-actions/expressions",
+      line: range.start.line,
+      range,
+    })
+  }
+
+  private rangeOf(context: RuleContext, scalar: YamlScalar): SourceRange {
+    return context.document.scalarRange(scalar, 0, scalar.text.length)
+  }
+}
@@ -0,0 +1,165 @@
+import { BaseRule, type RuleContext } from "./base-rules"
+import type { Issue, ParsedYAML, SourceRange } from "../types"
+import type { YamlDocument, YamlPath } from "../yaml-parser"
+import { isObject } from "../pipeline/builder-utils"
+import { collectTektonContainers } from "../pipeline/tekton"
+import { collectArgoContainers } from "../pipeline/argo-workflows"
+import {
+  DEFAULT_TRUSTED_REGISTRIES,
+  defaultRuntimeEolTable,
+  findRuntimeEol,
+  isDynamicImage,
+  isTrustedRegistry,
+  parseImage,
+} from "../container-images"
+
+interface ImageOccurrence {
+  image: string
+  range?: SourceRange
+}
+
+export class ContainerImageRule extends BaseRule {
+  id = "container-images"
+  name = "Container Image Hygiene"
+  description = "Checks job, service and executor images for tags, digests, end-of-life runtimes and registries"
+  category = "security"
+  severity = "warning" as const
+  level = "intermediate" as const
+  platforms = [
+    "github-actions",
+    "gitlab-ci",
+    "bitbucket-pipelines",
+    "circleci",
+    "buildkite",
+    "drone",
+    "woodpecker",
+    "aws-codebuild",
+    "google-cloud-build",
+    "tekton",
+    "argo-workflows",
+  ]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const policy = context.config.imagePolicy ?? {}
+    const trustedRegistries = [...DEFAULT_TRUSTED_REGISTRIES, ...(policy.trustedRegistries ?? [])]
+    const eolTable = policy.eolTable ?? defaultRuntimeEolTable
+    const today = new Date().toISOString().slice(0, 10)
+
+    this.collectImages(parsed, context).forEach(({ image, range }) => {
+      if (isDynamicImage(image)) return
+      const reference = parseImage(image)
+      const location = { line: range?.start.line, range }
+      const report = (issue: Omit<Issue, "category">) => context.addIssue({ category: "security", ...issue, ...location })
+
+      if (!reference.tag && !reference.digest) {
+        report({
+          title: `Container image without a tag: ${image}`,
+          description: `${image} has no tag or digest, so it resolves to "latest" and changes whenever a new version is pushed`,
+          severity: "warning",
+          ruleId: "image-missing-tag",
+          suggestion: "Pin the image to a specific version tag, ideally with an @sha256 digest",
+        })
+      } else if (reference.tag === "latest" && !reference.digest) {
+        report({
+          title: `Container image uses the latest tag: ${image}`,
+          description: `"latest" points at a different image after every release, so builds are not reproducible`,
+          severity: "warning",
+          ruleId: "image-latest-tag",
+          suggestion: "Pin the image to a specific version tag, ideally with an @sha256 digest",
+        })
+      } else if (!reference.digest) {
+        report({
+          title: `Container image not pinned by digest: ${image}`,
+          description: `Tag "${reference.tag}" can be moved to different content; only an @sha256 digest is immutable`,
+          severity: policy.requireDigests ? "warning" : "info",
+          ruleId: "image-missing-digest",
+          suggestion: `Append the digest, e.g. ${image}@sha256:<digest>, and keep the tag for readability`,
+        })
+      }
+
+      const eol = findRuntimeEol(reference, eolTable)
+      if (eol && eol.eol <= today) {
+        const supported = this.supportedCycle(reference.repository, eolTable.runtimes[eol.runtime].cycles, today)
+        report({
+          title: `End-of-life ${eol.runtime} image: ${image}`,
+          description: `${eol.runtime} ${eol.cycle} reached end of life on ${eol.eol} and no longer receives security fixes`,
+          severity: "warning",
+          ruleId: "image-eol-runtime",
+          suggestion: supported
+            ? `Upgrade to a supported ${eol.runtime} release such as ${supported}`
+            : `Upgrade to a supported ${eol.runtime} release`,
+        })
+      }
+
+      if (!isTrustedRegistry(reference.registry, trustedRegistries)) {
+        report({
+          title: `Image pulled from an untrusted registry: ${reference.registry}`,
+          description: `${image} comes from ${reference.registry}, which is not in the list of trusted registries`,
+          severity: "warning",
+          ruleId: "image-untrusted-registry",
+          suggestion: "Mirror the image into a trusted registry or add the registry to imagePolicy.trustedRegistries",
+        })
+      }
+    })
+  }
+
+  // Newest cycle that is still supported, ignoring codename aliases
+  private supportedCycle(repository: string, cycles: Record<string, string>, today: string): string | undefined {
+    return Object.entries(cycles)
+      .filter(([cycle, eol]) => eol > today && /^\d/.test(cycle))
+      .sort(([, a], [, b]) => b.localeCompare(a))
+      .map(([cycle]) => `${repository}:${cycle}`)[0]
+  }
+
+  private collectImages(parsed: ParsedYAML, context: RuleContext): ImageOccurrence[] {
+    const { document, pipeline } = context
+    const occurrences: ImageOccurrence[] = []
+    const add = (image: unknown, path: YamlPath) => {
+      if (typeof image !== "string" || image.trim() === "" || image === "undefined") return
+      occurrences.push({ image: image.trim(), range: imageRange(document, path) })
+    }
+
+    pipeline.jobs.forEach((job) => {
+      // CircleCI machine images are VM images, not containers
+      if (job.image && !job.image.path.includes("machine")) add(job.image.name, job.image.path)
+      // Bitbucket services are names; their images are read from `definitions.services`
+      if (pipeline.platform !== "bitbucket-pipelines") job.services.forEach((service) => add(service.name, service.path))
+    })
+
+    if (pipeline.platform === "bitbucket-pipelines" && isObject(parsed.definitions?.services)) {
+      Object.entries(parsed.definitions.services).forEach(([name, service]: [string, any]) => {
+        const image = isObject(service?.image) ? service.image.name : service?.image
+        add(image, ["definitions", "services", name, "image"])
+      })
+    }
+
+    // Executors declared once and shared by jobs
+    if (pipeline.platform === "circleci" && isObject(parsed.executors)) {
+      Object.entries(parsed.executors).forEach(([name, executor]: [string, any]) => {
+        if (!Array.isArray(executor?.docker)) return
+        executor.docker.forEach((entry: any, index: number) => add(entry?.image, ["executors", name, "docker", index]))
+      })
+    }
+
+    // Every step and sidecar of a Tekton task or Argo template runs its own image
+    const containers =
+      pipeline.platform === "tekton" ? collectTektonContainers(parsed) : pipeline.platform === "argo-workflows" ? collectArgoContainers(parsed) : []
+    containers.forEach(({ container, path }) => add(container.image, [...path, "image"]))
+
+    // Jobs sharing a default image report it once, where it is declared
+    const seen = new Set<string>()
+    return occurrences.filter(({ image, range }) => {
+      const key = `${image}:${range?.start.offset ?? ""}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }
+}
+
+// Points at the image string itself rather than the mapping it sits in
+function imageRange(document: YamlDocument, path: YamlPath): SourceRange | undefined {
+  return [[...path, "image"], [...path, "name"], path]
+    .map((candidate) => document.getNode(candidate))
+    .find((node) => node?.kind === "scalar")?.range ?? document.getRange(path)
+}
@@ -0,0 +1,357 @@
+import { BaseRule, type RuleContext } from "./base-rules"
+import type { ParsedYAML } from "../types"
+import type { YamlPath } from "../yaml-parser"
+import { isObject, toArray } from "../pipeline/builder-utils"
+import { JENKINS_SHELL_STEPS, credentialSecrets } from "../pipeline/jenkins"
+import { findInterpolations } from "../jenkinsfile"
+
+// Environment variables a pull request's author controls in multibranch pipelines
+const UNTRUSTED_CHANGE_VARIABLES = [
+  "CHANGE_TITLE",
+  "CHANGE_BRANCH",
+  "CHANGE_AUTHOR",
+  "CHANGE_AUTHOR_DISPLAY_NAME",
+  "CHANGE_AUTHOR_EMAIL",
+  "CHANGE_FORK",
+]
+const CLEANUP_STEPS = ["cleanWs", "deleteDir"]
+const CLEANUP_COMMAND = /\b(rm\s+-[a-zA-Z]*r|git\s+clean\s+-[a-zA-Z]*[fx])/
+
+interface JenkinsStep {
+  name: string
+  value: any
+  // Path of the step's value, e.g. [..., "steps", 0, "sh"]
+  path: YamlPath
+  // Variables bound by the withCredentials blocks around the step
+  bound: Set<string>
+  // Credentials the environment directives of the pipeline and stage bind
+  environment: Set<string>
+}
+
+export class JenkinsAgentRule extends BaseRule {
+  id = "jenkins-agent-any"
+  name = "Jenkins Agent Selection"
+  description = "Flags pipelines and stages that run on any available agent"
+  category = "security"
+  severity = "warning" as const
+  level = "junior" as const
+  platforms = ["jenkins"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const report = (path: YamlPath, subject: string) => {
+      const range = context.document.getRange(path)
+      context.addIssue({
+        title: `${subject} runs on any agent`,
+        description:
+          "agent any lets Jenkins schedule the build on any executor, including the built-in node of the controller, where a build can read Jenkins' own files and secrets",
+        severity: "warning",
+        category: "security",
+        ruleId: "jenkins-agent-any",
+        suggestion: "Select agents by label, or run the build in a container",
+        exampleCode: "agent {\n  label 'linux'\n}",
+        line: range?.start.line,
+        range,
+      })
+    }
+
+    if (parsed.pipeline?.agent === "any") report(["pipeline", "agent"], "Pipeline")
+    forEachStage(parsed, (stage, path) => {
+      if (stage.agent === "any") report([...path, "agent"], `Stage "${stage.stage}"`)
+    })
+  }
+}
+
+export class JenkinsTimeoutRule extends BaseRule {
+  id = "jenkins-timeout"
+  name = "Jenkins Timeouts"
+  description = "Checks that builds and input steps are bounded by a timeout option"
+  category = "performance"
+  severity = "warning" as const
+  level = "junior" as const
+  platforms = ["jenkins"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const { pipeline } = context
+    if (!isObject(parsed.pipeline)) return
+    // A stage is bounded by its own timeout option or by timeout steps around all of its steps
+    const unbounded = pipeline.jobs.filter(
+      (job) => job.timeoutMinutes === undefined && job.steps.some((step) => step.timeoutMinutes === undefined && step.uses !== "timeout"),
+    )
+
+    if (pipeline.timeoutMinutes === undefined && unbounded.length > 0) {
+      const range = context.document.getKeyRange(["pipeline", "options"]) ?? context.document.getKeyRange(["pipeline"])
+      context.addIssue({
+        title: "Pipeline has no timeout",
+        description:
+          unbounded.length === pipeline.jobs.length
+            ? "Without a timeout option a hung build holds its executor until someone aborts it"
+            : `Stages ${unbounded.map((job) => `"${job.id}"`).join(", ")} have no timeout, so a hung step holds its executor until someone aborts the build`,
+        severity: "warning",
+        category: "performance",
+        ruleId: "jenkins-missing-timeout",
+        suggestion: "Add a timeout option a little above the build's usual duration",
+        exampleCode: "options {\n  timeout(time: 1, unit: 'HOURS')\n}",
+        fixable: true,
+        line: range?.start.line,
+        range,
+      })
+    }
+
+    pipeline.jobs.forEach((job) =>
+      job.steps
+        .filter((step) => step.uses === "input" && step.timeoutMinutes === undefined)
+        .forEach((step) => {
+          if (job.timeoutMinutes !== undefined || pipeline.timeoutMinutes !== undefined) return
+          const range = context.document.getRange(step.path) ?? step.range
+          context.addIssue({
+            title: `input in stage "${job.id}" waits indefinitely`,
+            description: "input pauses the build until someone answers; without a timeout the build, and the agent it runs on, stay busy until then",
+            severity: "warning",
+            category: "performance",
+            ruleId: "jenkins-input-without-timeout",
+            suggestion: "Wrap the input step in a timeout, or move it to the stage's input directive with agent none",
+            exampleCode: "timeout(time: 1, unit: 'DAYS') {\n  input message: 'Deploy?'\n}",
+            line: range?.start.line,
+            range,
+          })
+        }),
+    )
+  }
+}
+
+export class JenkinsCredentialsRule extends BaseRule {
+  id = "jenkins-credentials"
+  name = "Jenkins Credential Handling"
+  description = "Detects credentials interpolated by Groovy and credential variables used outside withCredentials"
+  category = "security"
+  severity = "warning" as const
+  level = "intermediate" as const
+  platforms = ["jenkins"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const steps = collectSteps(parsed, context)
+    const bindings = new Set(steps.flatMap((step) => [...step.bound]))
+
+    steps
+      .filter((step) => JENKINS_SHELL_STEPS.includes(step.name))
+      .forEach((step) => {
+        const scriptPath = isObject(step.value) ? [...step.path, "script"] : step.path
+        const node = context.document.getNode(scriptPath)
+        if (node?.kind !== "scalar" || typeof node.value !== "string") return
+        const secrets = new Set([...step.bound, ...step.environment])
+
+        findInterpolations(context.document, node).forEach(({ expression, range }) => {
+          const name = expression.replace(/^env\./, "")
+          if (!secrets.has(name)) return
+          context.addIssue({
+            title: `Secret ${name} interpolated by Groovy`,
+            description: `Groovy substitutes ${name} before ${step.name} runs, so the secret is part of the command line, where other processes can read it and the shell interprets any quotes in it`,
+            severity: "warning",
+            category: "security",
+            ruleId: "jenkins-secret-interpolation",
+            suggestion: "Use a single-quoted string so the shell reads the variable from the environment",
+            exampleCode: `${step.name} 'curl -u "$${name}" https://example.com'`,
+            line: range.start.line,
+            range,
+          })
+        })
+
+        // Variables a withCredentials block binds are unset once the block ends
+        const reported = new Set<string>()
+        Array.from(node.text.matchAll(/\$\{?(?:env\.)?([A-Za-z_]\w*)\}?/g)).forEach((match) => {
+          const name = match[1]
+          if (!bindings.has(name) || secrets.has(name) || reported.has(name)) return
+          reported.add(name)
+          const range = context.document.scalarRange(node, match.index!, match.index! + match[0].length)
+          context.addIssue({
+            title: `${name} used outside withCredentials`,
+            description: `${name} is only bound inside withCredentials blocks, so this ${step.name} step gets an empty value, and a value set some other way is not masked in the log`,
+            severity: "warning",
+            category: "security",
+            ruleId: "jenkins-credentials-outside-block",
+            suggestion: `Move the step into the withCredentials block that binds ${name}`,
+            line: range.start.line,
+            range,
+          })
+        })
+      })
+  }
+}
+
+export class JenkinsScriptInjectionRule extends BaseRule {
+  id = "jenkins-script-injection"
+  name = "Jenkins Script Injection"
+  description = "Traces build parameters and pull request metadata interpolated into shell steps"
+  category = "security"
+  severity = "critical" as const
+  level = "intermediate" as const
+  platforms = ["jenkins"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const parameters = new Set(
+      toArray(parsed.pipeline?.parameters).flatMap((entry: any) => {
+        const definition = isObject(entry) ? Object.values(entry)[0] : undefined
+        return isObject(definition) && typeof definition.name === "string" ? [definition.name] : []
+      }),
+    )
+
+    collectSteps(parsed, context)
+      .filter((step) => JENKINS_SHELL_STEPS.includes(step.name))
+      .forEach((step) => {
+        const node = context.document.getNode(isObject(step.value) ? [...step.path, "script"] : step.path)
+        if (!node) return
+
+        findInterpolations(context.document, node).forEach(({ expression, range }) => {
+          const parameter = expression.match(/^params\.(\w+)$|^params\[['"](\w+)['"]\]$/)
+          const variable = expression.replace(/^env\./, "")
+          const name = parameter ? (parameter[1] ?? parameter[2]) : parameters.has(variable) ? variable : undefined
+          const untrusted = UNTRUSTED_CHANGE_VARIABLES.includes(variable)
+          if (!name && !untrusted) return
+
+          context.addSecurityVulnerability({
+            title: "Script injection from untrusted input",
+            description: untrusted
+              ? `${variable} is set by the author of the pull request and is interpolated into a ${step.name} script by Groovy, so quotes or $(...) in it run as commands`
+              : `Build parameter ${name} is interpolated into a ${step.name} script by Groovy, so whoever starts the build can run commands by putting quotes or $(...) in it`,
+            severity: untrusted ? "critical" : "high",
+            recommendation: `Use a single-quoted string and read the value from the environment, e.g. ${step.name} 'echo "$${name ?? variable}"'; Jenkins exports parameters and change variables as environment variables`,
+            line: range.start.line,
+            range,
+          })
+        })
+      })
+  }
+}
+
+export class JenkinsPostCleanupRule extends BaseRule {
+  id = "jenkins-post-cleanup"
+  name = "Jenkins Workspace Cleanup"
+  description = "Checks that the workspace is cleaned in post { always } whatever the build result"
+  category = "best-practice"
+  severity = "warning" as const
+  level = "junior" as const
+  platforms = ["jenkins"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const root = parsed.pipeline
+    if (!isObject(root)) return
+
+    // With agent none each stage gets its own workspace, which the stage has to clean
+    if (root.agent === "none") {
+      forEachStage(parsed, (stage, path) => {
+        if (stage.agent === undefined || stage.agent === "none" || isEphemeral(stage.agent) || cleansUp(stage.post)) return
+        this.report(context, path, stage.post, `Stage "${stage.stage}"`)
+      })
+      return
+    }
+    if (root.agent === undefined || isEphemeral(root.agent) || cleansUp(root.post)) return
+    this.report(context, ["pipeline"], root.post, "The pipeline")
+  }
+
+  // `path` is the pipeline or the stage that should clean up
+  private report(context: RuleContext, path: YamlPath, post: any, subject: string): void {
+    const range = context.document.getKeyRange(post !== undefined ? [...path, "post"] : path.length > 1 ? [...path, "stage"] : path)
+    const reason =
+      post === undefined
+        ? "has no post section"
+        : post.always === undefined && post.cleanup === undefined
+          ? "has no post { always } or post { cleanup } block"
+          : "does not run cleanWs() or deleteDir() in post { always }"
+    context.addIssue({
+      title: "Workspace is not cleaned after the build",
+      description: `${subject} ${reason}, so files from this build, including checked-out code and credentials written to disk, stay on the agent for the next build`,
+      severity: "warning",
+      category: "best-practice",
+      ruleId: "jenkins-missing-post-cleanup",
+      suggestion: "Clean the workspace in post { always } or post { cleanup } so it runs whatever the result",
+      exampleCode: "post {\n  always {\n    cleanWs()\n  }\n}",
+      fixable: true,
+      line: range?.start.line,
+      range,
+    })
+  }
+}
+
+// Stages at every level, including parallel branches and matrix stages, parents first
+function forEachStage(
+  parsed: ParsedYAML,
+  visit: (stage: Record<string, any>, path: YamlPath, parent?: Record<string, any>) => void,
+): void {
+  const walk = (stages: any, path: YamlPath, parent?: Record<string, any>) =>
+    toArray(stages).forEach((stage: any, index: number) => {
+      if (!isObject(stage)) return
+      const stagePath = [...path, index]
+      visit(stage, stagePath, parent)
+      walk(stage.parallel, [...stagePath, "parallel"], stage)
+      walk(stage.stages, [...stagePath, "stages"], stage)
+      if (isObject(stage.matrix)) walk(stage.matrix.stages, [...stagePath, "matrix", "stages"], stage)
+    })
+  walk(parsed.pipeline?.stages, ["pipeline", "stages"])
+}
+
+// Steps of every stage and post condition, including those in the bodies of other steps
+function collectSteps(parsed: ParsedYAML, context: RuleContext): JenkinsStep[] {
+  const steps: JenkinsStep[] = []
+  const pipelineSecrets = context.pipeline.secrets.map((secret) => secret.name)
+
+  const walk = (list: any, path: YamlPath, bound: Set<string>, environment: Set<string>) =>
+    toArray(list).forEach((step: any, index: number) => {
+      if (!isObject(step)) return
+      const [name, value] = Object.entries(step)[0] ?? []
+      if (typeof name !== "string") return
+      const valuePath = [...path, index, name]
+      steps.push({ name, value, path: valuePath, bound, environment })
+      if (!isObject(value)) return
+      const inner = name === "withCredentials" ? new Set([...bound, ...bindingVariables(value.args)]) : bound
+      walk(value.steps, [...valuePath, "steps"], inner, environment)
+    })
+  const walkPost = (post: any, path: YamlPath, environment: Set<string>) => {
+    if (!isObject(post)) return
+    Object.entries(post).forEach(([condition, list]) => walk(list, [...path, condition], new Set(), environment))
+  }
+
+  const scopes = new Map<Record<string, any>, Set<string>>()
+  forEachStage(parsed, (stage, path, parent) => {
+    // Stages see the credentials their own and their parents' environment directives bind
+    const inherited = (parent && scopes.get(parent)) ?? new Set(pipelineSecrets)
+    const stageSecrets = credentialSecrets(stage.environment, [...path, "environment"], context.document).map((secret) => secret.name)
+    const environment = new Set([...inherited, ...stageSecrets])
+    scopes.set(stage, environment)
+    walk(stage.steps, [...path, "steps"], new Set(), environment)
+    walkPost(stage.post, [...path, "post"], environment)
+  })
+  walkPost(parsed.pipeline?.post, ["pipeline", "post"], new Set(pipelineSecrets))
+  return steps
+}
+
+// Variables named by bindings such as `usernamePassword(credentialsId: 'x', usernameVariable: 'USER', passwordVariable: 'PASS')`
+function bindingVariables(bindings: any): string[] {
+  return toArray(bindings).flatMap((binding: any) => {
+    const options = isObject(binding) ? Object.values(binding)[0] : undefined
+    if (!isObject(options)) return []
+    return Object.entries(options)
+      .filter(([key, value]) => /variable$/i.test(key) && typeof value === "string")
+      .map(([, value]) => value as string)
+  })
+}
+
+function cleansUp(post: any): boolean {
+  if (!isObject(post)) return false
+  return [post.always, post.cleanup].some((steps) => hasCleanupStep(steps))
+}
+
+function hasCleanupStep(steps: any): boolean {
+  return toArray(steps).some((step: any) => {
+    if (!isObject(step)) return false
+    const [name, value] = Object.entries(step)[0] ?? []
+    if (CLEANUP_STEPS.includes(name)) return true
+    const script = isObject(value) ? value.script : value
+    if (JENKINS_SHELL_STEPS.includes(name) && typeof script === "string") return CLEANUP_COMMAND.test(script)
+    return isObject(value) && hasCleanupStep(value.steps)
+  })
+}
+
+// Kubernetes pod agents are deleted after the build, together with their workspace
+function isEphemeral(agent: any): boolean {
+  return isObject(agent) && agent.kubernetes !== undefined
+}
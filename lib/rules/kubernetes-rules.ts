@@ -0,0 +1,126 @@
+import { BaseRule, type RuleContext } from "./base-rules"
+import type { ParsedYAML } from "../types"
+import { isObject } from "../pipeline/builder-utils"
+import { containerResources, type KubernetesContainer } from "../pipeline/kubernetes"
+import { collectTektonContainers } from "../pipeline/tekton"
+import { collectArgoContainers } from "../pipeline/argo-workflows"
+
+// Capabilities that amount to root on the node
+const DANGEROUS_CAPABILITIES = ["ALL", "SYS_ADMIN", "NET_ADMIN", "SYS_PTRACE", "SYS_MODULE"]
+
+function collectContainers(parsed: ParsedYAML, platform: string): KubernetesContainer[] {
+  if (platform === "tekton") return collectTektonContainers(parsed)
+  if (platform === "argo-workflows") return collectArgoContainers(parsed)
+  return []
+}
+
+function describe({ owner, role, container }: KubernetesContainer): string {
+  if (role === "template") return `the step defaults of "${owner}"`
+  // An unnamed container, such as the one of an Argo container template, goes by its owner's name
+  if (typeof container.name !== "string" || container.name === "") return `${role} "${owner}"`
+  return `${role} "${container.name}" of "${owner}"`
+}
+
+export class KubernetesPrivilegedContainerRule extends BaseRule {
+  id = "k8s-privileged-container"
+  name = "Privileged Pipeline Containers"
+  description = "Flags steps and sidecars whose securityContext runs them privileged or lets them gain privileges"
+  category = "security"
+  severity = "error" as const
+  level = "intermediate" as const
+  platforms = ["tekton", "argo-workflows"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    collectContainers(parsed, context.platform).forEach((entry) => {
+      const security = entry.container.securityContext
+      if (!isObject(security)) return
+      const path = [...entry.path, "securityContext"]
+
+      if (security.privileged === true) {
+        const range = context.document.getRange([...path, "privileged"])
+        context.addIssue({
+          title: `Privileged container: ${describe(entry)}`,
+          description:
+            "A privileged container has every capability and access to the node's devices, so a compromised build tool or dependency can take over the node and the workloads and secrets on it",
+          severity: "error",
+          category: "security",
+          ruleId: "k8s-privileged-container",
+          suggestion: "Remove privileged, and build images with a daemonless builder such as kaniko or buildah instead of Docker-in-Docker",
+          exampleCode: "securityContext:\n  privileged: false\n  allowPrivilegeEscalation: false\n  runAsNonRoot: true",
+          line: range?.start.line,
+          range,
+        })
+      } else if (security.allowPrivilegeEscalation === true) {
+        const range = context.document.getRange([...path, "allowPrivilegeEscalation"])
+        context.addIssue({
+          title: `Privilege escalation allowed: ${describe(entry)}`,
+          description: "setuid binaries in the image can give processes of the container more privileges than it started with",
+          severity: "warning",
+          category: "security",
+          ruleId: "k8s-privilege-escalation",
+          suggestion: "Set allowPrivilegeEscalation to false",
+          exampleCode: "securityContext:\n  allowPrivilegeEscalation: false",
+          fixable: true,
+          line: range?.start.line,
+          range,
+        })
+      }
+
+      const added = Array.isArray(security.capabilities?.add) ? security.capabilities.add : []
+      added.forEach((capability: any, index: number) => {
+        if (typeof capability !== "string" || !DANGEROUS_CAPABILITIES.includes(capability.toUpperCase().replace(/^CAP_/, ""))) return
+        const range = context.document.getRange([...path, "capabilities", "add", index])
+        context.addIssue({
+          title: `Container adds capability ${capability}: ${describe(entry)}`,
+          description: `${capability} lets processes of the container escape it and act as root on the node`,
+          severity: "error",
+          category: "security",
+          ruleId: "k8s-dangerous-capability",
+          suggestion: `Remove ${capability} from capabilities.add`,
+          line: range?.start.line,
+          range,
+        })
+      })
+    })
+  }
+}
+
+export class KubernetesResourceLimitsRule extends BaseRule {
+  id = "k8s-missing-resource-limits"
+  name = "Pipeline Steps Without Resource Limits"
+  description = "Flags steps that set no CPU or memory limits themselves or through their defaults"
+  category = "performance"
+  severity = "warning" as const
+  level = "intermediate" as const
+  platforms = ["tekton", "argo-workflows"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const key = context.platform === "tekton" ? "computeResources" : "resources"
+
+    collectContainers(parsed, context.platform)
+      .filter((entry) => entry.role === "step")
+      .forEach((entry) => {
+        const limits = containerResources(entry.container)?.limits ?? containerResources(entry.defaults)?.limits
+        if (isObject(limits) && Object.keys(limits).length > 0) return
+        // Tekton steps are list items; point at their name rather than the whole step
+        const { document } = context
+        const range = document.getPair(entry.path)?.key.range ?? document.getRange([...entry.path, "name"]) ?? document.getRange(entry.path)
+
+        context.addIssue({
+          title: `No resource limits: ${describe(entry)}`,
+          description:
+            "Without limits the step can use all of the node's CPU and memory, slowing or evicting other pods on it, and a memory leak only stops when the node runs out",
+          severity: "warning",
+          category: "performance",
+          ruleId: "k8s-missing-resource-limits",
+          suggestion:
+            context.platform === "tekton"
+              ? "Set computeResources on the step, or on the task's stepTemplate to cover every step"
+              : "Set resources on the container, or in templateDefaults to cover every template",
+          exampleCode: `${key}:\n  requests:\n    cpu: 500m\n    memory: 512Mi\n  limits:\n    memory: 1Gi`,
+          line: range?.start.line,
+          range,
+        })
+      })
+  }
+}
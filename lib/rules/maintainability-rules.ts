@@ -1,5 +1,6 @@
 import { BaseRule, type RuleContext } from "./base-rules"
 import type { ParsedYAML } from "../types"
+import { jobEntries } from "../pipeline/builder-utils"
 
 export class DocumentationRule extends BaseRule {
   id = "documentation-standards"
@@ -46,7 +47,9 @@ export class DocumentationRule extends BaseRule {
 
   private checkJobDocumentation(parsed: ParsedYAML, context: RuleContext): void {
     if (parsed.jobs) {
-      Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
+      jobEntries(parsed, context.pipeline).forEach(([jobName, job]: [string, any]) => {
+        // Travis lists its jobs under jobs.include
+        if (!job || typeof job !== "object" || Array.isArray(job)) return
      if (!job.name || job.name.length < 5) {
   context.addIssue({
     title: `Missing or too short name for job "${jobName}"`,
@@ -77,7 +80,7 @@ export class DocumentationRule extends BaseRule {
 
   private checkStepDocumentation(parsed: ParsedYAML, context: RuleContext): void {
     if (parsed.jobs) {
-      Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
+      jobEntries(parsed, context.pipeline).forEach(([jobName, job]: [string, any]) => {
         if (job.steps && Array.isArray(job.steps)) {
           job.steps.forEach((step: any, index: number) => {
             if (!step.name && !step.uses) {
@@ -177,9 +180,12 @@ export class NamingConventionsRule extends BaseRule {
   private checkJobNaming(parsed: ParsedYAML, context: RuleContext): void {
     if (!parsed.jobs) return
 
-    Object.keys(parsed.jobs).forEach(jobName => {
+    jobEntries(parsed, context.pipeline).map(([jobName]) => jobName).forEach(jobName => {
+      // Jobs inlined from a reusable workflow are named "caller / job"; each part is an id
+      const ids = jobName.split(" / ")
+
       // Check for kebab-case convention
-      if (!this.isKebabCase(jobName) && !this.isSnakeCase(jobName)) {
+      if (ids.some(id => !this.isKebabCase(id) && !this.isSnakeCase(id))) {
         context.addIssue({
           title: `Inconsistent job naming: "${jobName}"`,
           description: "Job names should use kebab-case or snake_case for consistency",
@@ -207,7 +213,7 @@ export class NamingConventionsRule extends BaseRule {
   private checkStepNaming(parsed: ParsedYAML, context: RuleContext): void {
     if (!parsed.jobs) return
 
-    Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
+    jobEntries(parsed, context.pipeline).forEach(([jobName, job]: [string, any]) => {
       if (job.steps && Array.isArray(job.steps)) {
         job.steps.forEach((step: any, index: number) => {
           if (step.name) {
@@ -280,7 +286,7 @@ export class NamingConventionsRule extends BaseRule {
   private checkEnvironmentNaming(parsed: ParsedYAML, context: RuleContext): void {
     if (!parsed.jobs) return
 
-    Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
+    jobEntries(parsed, context.pipeline).forEach(([jobName, job]: [string, any]) => {
       if (job.environment) {
         const envName = typeof job.environment === "string" ? 
           job.environment : job.environment.name
@@ -308,7 +314,8 @@ export class NamingConventionsRule extends BaseRule {
   }
 
   private isScreamingSnakeCase(str: string): boolean {
-    return /^[A-Z][A-Z0-9]*(_[A-Z0-9]+)*$/.test(str)
+    // Cloud Build user-defined substitutions must start with an underscore
+    return /^_?[A-Z][A-Z0-9]*(_[A-Z0-9]+)*$/.test(str)
   }
 
   private isTitleCase(str: string): boolean {
@@ -350,7 +357,7 @@ export class ComplexityRule extends BaseRule {
   private checkJobComplexity(parsed: ParsedYAML, context: RuleContext): void {
     if (!parsed.jobs) return
 
-    Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
+    jobEntries(parsed, context.pipeline).forEach(([jobName, job]: [string, any]) => {
       let complexityScore = 0
 
       // Count steps
@@ -424,11 +431,13 @@ export class ComplexityRule extends BaseRule {
     const jobSteps = new Map<string, string[]>()
     
     // Collect step signatures for each job
-    Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
+    jobEntries(parsed, context.pipeline).forEach(([jobName, job]: [string, any]) => {
       if (job.steps && Array.isArray(job.steps)) {
         const stepSignatures = job.steps.map((step: any) => {
           if (step.uses) return `uses:${step.uses.split('@')[0]}`
-          if (step.run) return `run:${step.run.substring(0, 50)}`
+          // CircleCI `run:` is a command or a mapping with one
+          const run = typeof step.run === "object" ? step.run?.command : step.run
+          if (typeof run === "string") return `run:${run.substring(0, 50)}`
           return 'unknown'
         })
         jobSteps.set(jobName, stepSignatures)
@@ -1,5 +1,7 @@
 import { BaseRule, type RuleContext } from "./base-rules"
 import type { ParsedYAML } from "../types"
+import { jobEntries } from "../pipeline/builder-utils"
+import type { PipelineCache, PipelineJob } from "../pipeline/model"
 
 export class CachingRule extends BaseRule {
   id = "caching-optimization"
@@ -27,32 +29,45 @@ export class CachingRule extends BaseRule {
   ]
 
   check(parsed: ParsedYAML, context: RuleContext): void {
-    const hasCaching = context.rawContent.toLowerCase().includes("cache")
-    const detectedCommands = this.dependencyCommands.filter(({ cmd }) =>
-      context.rawContent.toLowerCase().includes(cmd.toLowerCase()),
-    )
+    const { pipeline } = context
 
-    if (detectedCommands.length > 0 && !hasCaching) {
-      detectedCommands.forEach(({ cmd, cache, path, lockFile }) => {
-        context.addOptimization({
-          title: `Add ${cache} caching`,
-          description: `Detected ${cmd} without caching - this can significantly slow down builds`,
-          impact: "high",
-          effort: "low",
-          category: "performance",
-          suggestion: `Add caching for ${cache} dependencies to improve build performance`,
-          exampleCode: this.getCacheExample(context.platform, cache, path, lockFile),
-        })
+    this.dependencyCommands.forEach(({ cmd, cache, path, lockFile }) => {
+      const uncachedJobs = pipeline.jobs.filter((job) => job.caches.length === 0 && this.jobRuns(job, cmd))
+      if (uncachedJobs.length === 0) return
+      const jobNames = Array.from(new Set(uncachedJobs.map((job) => `"${job.name ?? job.id}"`)))
+
+      context.addOptimization({
+        title: `Add ${cache} caching`,
+        description: `Detected ${cmd} without caching in ${jobNames.join(", ")} - this can significantly slow down builds`,
+        impact: "high",
+        effort: "low",
+        category: "performance",
+        suggestion: `Add caching for ${cache} dependencies to improve build performance`,
+        exampleCode: this.getCacheExample(context.platform, cache, path, lockFile),
       })
-    }
+    })
 
     // Check for cache key best practices
-    if (hasCaching) {
-      this.checkCacheKeyBestPractices(context)
-    }
+    this.checkCacheKeyBestPractices(context)
 
     // Check for cache restoration patterns
-    this.checkCacheRestorationPatterns(parsed, context)
+    this.checkCacheRestorationPatterns(context)
+  }
+
+  private jobRuns(job: PipelineJob, command: string): boolean {
+    const needle = command.toLowerCase()
+    return job.steps.some((step) => step.commands.some((entry) => entry.text.toLowerCase().includes(needle)))
+  }
+
+  // Caches declared once and referenced from several jobs are reported once
+  private allCaches(context: RuleContext): PipelineCache[] {
+    const seen = new Set<string>()
+    return [...context.pipeline.caches, ...context.pipeline.jobs.flatMap((job) => job.caches)].filter((cache) => {
+      const id = cache.path.join(".")
+      if (seen.has(id)) return false
+      seen.add(id)
+      return true
+    })
   }
 
   private getCacheExample(platform: string, cache: string, path: string, lockFile: string): string {
@@ -81,50 +96,70 @@ export class CachingRule extends BaseRule {
   }
 
   private checkCacheKeyBestPractices(context: RuleContext): void {
-    const cacheKeyPattern = /key:\s*([^\n]+)/g
-    let match
+    this.allCaches(context).forEach((cache) => {
+      if (cache.key === undefined || cache.keyIsDynamic) return
 
-    while ((match = cacheKeyPattern.exec(context.rawContent)) !== null) {
-      const key = match[1].trim()
+      context.addIssue({
+        title: "Static cache key detected",
+        description: `Cache key "${cache.key}" should include file hashes to ensure proper cache invalidation`,
+        severity: "warning",
+        category: "performance",
+        ruleId: "static-cache-key",
+        suggestion: "Derive the cache key from lock file hashes or the commit SHA",
+        exampleCode: this.getCacheKeyExample(context.platform),
+        line: cache.range?.start.line,
+        range: cache.range,
+      })
+    })
+  }
 
-      if (!key.includes("hashFiles") && !key.includes("${{") && !key.includes("$CI_")) {
-        context.addIssue({
-          title: "Static cache key detected",
-          description: "Cache key should include file hashes to ensure proper cache invalidation",
-          severity: "warning",
-          category: "performance",
-          ruleId: "static-cache-key",
-          suggestion: "Use hashFiles() function or commit SHA in cache keys",
-          exampleCode: `key: \${{ runner.os }}-deps-\${{ hashFiles('**/package-lock.json') }}`,
-        })
-      }
+  private getCacheKeyExample(platform: string): string {
+    switch (platform) {
+      case "gitlab-ci":
+        return `key:
+  files:
+    - package-lock.json`
+      case "azure-pipelines":
+        return `key: 'npm | "$(Agent.OS)" | package-lock.json'`
+      case "circleci":
+        return `key: deps-{{ checksum "package-lock.json" }}`
+      default:
+        return `key: \${{ runner.os }}-deps-\${{ hashFiles('**/package-lock.json') }}`
     }
   }
 
-  private checkCacheRestorationPatterns(parsed: ParsedYAML, context: RuleContext): void {
-    if (context.platform === "github-actions" && parsed.jobs) {
-      Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
-        if (job.steps) {
-          const cacheSteps = job.steps.filter((step: any) => step.uses && step.uses.includes("cache"))
-
-          if (cacheSteps.length > 0) {
-            cacheSteps.forEach((cacheStep: any) => {
-              if (!cacheStep.with?.["restore-keys"]) {
-                context.addOptimization({
-                  title: `Add restore-keys to cache in job "${jobName}"`,
-                  description: "Cache step missing restore-keys for fallback cache restoration",
-                  impact: "medium",
-                  effort: "low",
-                  category: "performance",
-                  suggestion: "Add restore-keys to improve cache hit rates",
-                  exampleCode: `restore-keys: |
-    \${{ runner.os }}-deps-`,
-                })
-              }
-            })
-          }
-        }
+  private checkCacheRestorationPatterns(context: RuleContext): void {
+    context.pipeline.jobs.forEach((job) => {
+      job.caches.forEach((cache) => {
+        // Only platforms with fallback keys model `restoreKeys`
+        if (!cache.restoreKeys || cache.restoreKeys.length > 0) return
+
+        context.addOptimization({
+          title: `Add restore-keys to cache in job "${job.name ?? job.id}"`,
+          description: "Cache step missing restore-keys for fallback cache restoration",
+          impact: "medium",
+          effort: "low",
+          category: "performance",
+          suggestion: "Add restore-keys to improve cache hit rates",
+          exampleCode: this.getRestoreKeysExample(context.platform),
+        })
       })
+    })
+  }
+
+  private getRestoreKeysExample(platform: string): string {
+    switch (platform) {
+      case "azure-pipelines":
+        return `restoreKeys: |
+  npm | "$(Agent.OS)"`
+      case "circleci":
+        return `- restore_cache:
+    keys:
+      - deps-{{ checksum "package-lock.json" }}
+      - deps-`
+      default:
+        return `restore-keys: |
+    \${{ runner.os }}-deps-`
     }
   }
 }
@@ -149,11 +184,11 @@ export class ParallelizationRule extends BaseRule {
   private analyzeGitHubParallelization(parsed: ParsedYAML, context: RuleContext): void {
     if (!parsed.jobs) return
 
-    const jobs = Object.keys(parsed.jobs)
+    const jobs = jobEntries(parsed, context.pipeline).map(([jobName]) => jobName)
     const jobDependencies = new Map<string, string[]>()
 
     // Build dependency graph
-    Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
+    jobEntries(parsed, context.pipeline).forEach(([jobName, job]: [string, any]) => {
       if (job.needs) {
         const dependencies = Array.isArray(job.needs) ? job.needs : [job.needs]
         jobDependencies.set(jobName, dependencies)
@@ -332,62 +367,97 @@ export class ResourceOptimizationRule extends BaseRule {
   }
 
   private checkTimeouts(parsed: ParsedYAML, context: RuleContext): void {
-    if (context.platform === "github-actions" && parsed.jobs) {
-      Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
-        if (!job["timeout-minutes"]) {
+    const { pipeline } = context
+    const timeoutExample = this.getTimeoutExample(context.platform)
+    // Steps reused across Bitbucket pipelines share a name; report each once
+    const reported = new Set<string>()
+
+    pipeline.jobs.forEach((job) => {
+      const jobName = job.name ?? job.id
+      const timeout = job.timeoutMinutes ?? pipeline.timeoutMinutes
+      if (reported.has(jobName)) return
+      reported.add(jobName)
+
+      if (timeout === undefined) {
+        // Azure jobs without timeoutInMinutes are reported by AzureTimeoutRule, Jenkins
+        // pipelines without a timeout option by JenkinsTimeoutRule. Travis, CodeBuild, Drone
+        // and Woodpecker set timeouts in the project settings rather than the file, and Tekton
+        // runs stop after the cluster's default of 60 minutes.
+        if (["azure-pipelines", "jenkins", "travis-ci", "aws-codebuild", "drone", "woodpecker", "tekton"].includes(pipeline.platform)) return
+        context.addOptimization({
+          title: `Add timeout to job "${jobName}"`,
+          description: "Jobs without timeouts can run indefinitely, wasting resources",
+          impact: "medium",
+          effort: "low",
+          category: "cost",
+          suggestion: `Add ${timeoutExample.split(":")[0]} to prevent runaway jobs`,
+          exampleCode: timeoutExample,
+        })
+      } else if (timeout > 360) {
+        context.addIssue({
+          title: `Very long timeout in job "${jobName}"`,
+          description: `Job timeout of ${timeout} minutes is unusually long`,
+          severity: "warning",
+          category: "performance",
+          ruleId: "long-timeout",
+          suggestion: "Consider optimizing the job or breaking it into smaller jobs",
+          line: job.range?.start.line,
+          range: job.range,
+        })
+      }
+    })
+  }
+
+  private getTimeoutExample(platform: string): string {
+    switch (platform) {
+      case "gitlab-ci":
+        return "timeout: 30m"
+      case "bitbucket-pipelines":
+        return "max-time: 30"
+      case "azure-pipelines":
+        return "timeoutInMinutes: 30"
+      case "circleci":
+        return "no_output_timeout: 30m"
+      case "buildkite":
+        return "timeout_in_minutes: 30"
+      case "google-cloud-build":
+        return "timeout: 1800s"
+      case "argo-workflows":
+        return "activeDeadlineSeconds: 1800"
+      default:
+        return "timeout-minutes: 30"
+    }
+  }
+
+  private checkRunnerSelection(parsed: ParsedYAML, context: RuleContext): void {
+    context.pipeline.jobs.forEach((job) => {
+      const jobName = job.name ?? job.id
+      const runner = job.runner
+
+      if (typeof runner === "string") {
+        if (runner.includes("macos") || runner.includes("windows")) {
           context.addOptimization({
-            title: `Add timeout to job "${jobName}"`,
-            description: "Jobs without timeouts can run indefinitely, wasting resources",
-            impact: "medium",
+            title: `Consider cost-effective runner for job "${jobName}"`,
+            description: `Job uses ${runner} which is more expensive than Linux runners`,
+            impact: "high",
             effort: "low",
             category: "cost",
-            suggestion: "Add timeout-minutes to prevent runaway jobs",
-            exampleCode: "timeout-minutes: 30",
-          })
-        } else if (job["timeout-minutes"] > 360) {
-          context.addIssue({
-            title: `Very long timeout in job "${jobName}"`,
-            description: `Job timeout of ${job["timeout-minutes"]} minutes is unusually long`,
-            severity: "warning",
-            category: "performance",
-            ruleId: "long-timeout",
-            suggestion: "Consider optimizing the job or breaking it into smaller jobs",
+            suggestion: "Use ubuntu-latest for platform-independent tasks",
           })
         }
-      })
-    }
-  }
-
-  private checkRunnerSelection(parsed: ParsedYAML, context: RuleContext): void {
-    if (context.platform === "github-actions" && parsed.jobs) {
-      Object.entries(parsed.jobs).forEach(([jobName, job]: [string, any]) => {
-        const runner = job["runs-on"]
-
-        if (typeof runner === "string") {
-          if (runner.includes("macos") || runner.includes("windows")) {
-            context.addOptimization({
-              title: `Consider cost-effective runner for job "${jobName}"`,
-              description: `Job uses ${runner} which is more expensive than Linux runners`,
-              impact: "high",
-              effort: "low",
-              category: "cost",
-              suggestion: "Use ubuntu-latest for platform-independent tasks",
-            })
-          }
 
-          if (runner.includes("large") || runner.includes("xlarge")) {
-            context.addOptimization({
-              title: `Large runner usage in job "${jobName}"`,
-              description: "Job uses large runners - verify if the extra resources are needed",
-              impact: "medium",
-              effort: "low",
-              category: "cost",
-              suggestion: "Use standard runners unless high compute is required",
-            })
-          }
+        if (runner.includes("large") || runner.includes("xlarge")) {
+          context.addOptimization({
+            title: `Large runner usage in job "${jobName}"`,
+            description: "Job uses large runners - verify if the extra resources are needed",
+            impact: "medium",
+            effort: "low",
+            category: "cost",
+            suggestion: "Use standard runners unless high compute is required",
+          })
         }
-      })
-    }
+      }
+    })
   }
 
   private checkResourceIntensiveOperations(context: RuleContext): void {
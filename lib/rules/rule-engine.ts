@@ -1,12 +1,42 @@
 import type { BaseRule, RuleContext } from "./base-rules"
-import type { ParsedYAML, Issue, Optimization, SecurityVulnerability } from "../types"
+import type { AnalysisConfig, ParsedYAML, Issue, Optimization, SecurityVulnerability } from "../types"
+import { YamlDocument } from "../yaml-parser"
+import type { Pipeline } from "../pipeline/model"
+import { buildPipeline } from "../pipeline/builder"
+import { ProjectRuleSettings, vulnerabilitySeverity } from "../project-config"
 
 // Import all rule categories
-import { HardcodedSecretsRule, DangerousCommandsRule, PermissionsRule } from "./security-rules"
+import { HardcodedSecretsRule, DangerousCommandsRule, PermissionsRule, ScriptInjectionRule, TokenPermissionsRule } from "./security-rules"
 import { CachingRule, ParallelizationRule, ResourceOptimizationRule } from "./performance-rules"
 import { ComplianceRule, SecurityScanningRule } from "./compliance-rules"
 import { CostOptimizationRule, ConcurrencyRule } from "./cost-optimization-rules"
 import { DocumentationRule, NamingConventionsRule, ComplexityRule } from "./maintainability-rules"
+import { ExpressionRule } from "./expression-rules"
+import { ContainerImageRule } from "./image-rules"
+import { AzureSecretEchoRule, AzureTaskVersionRule, AzureTimeoutRule } from "./azure-rules"
+import { CircleCICacheKeyRule, CircleCIOrbVersionRule, CircleCIResourceClassRule } from "./circleci-rules"
+import {
+  JenkinsAgentRule,
+  JenkinsCredentialsRule,
+  JenkinsPostCleanupRule,
+  JenkinsScriptInjectionRule,
+  JenkinsTimeoutRule,
+} from "./jenkins-rules"
+import { CodeBuildPrivilegedModeRule } from "./codebuild-rules"
+import { CloudBuildSubstitutionInjectionRule } from "./cloud-build-rules"
+import { TravisSudoRule } from "./travis-rules"
+import { KubernetesPrivilegedContainerRule, KubernetesResourceLimitsRule } from "./kubernetes-rules"
+import { TektonWorkspaceRule } from "./tekton-rules"
+import { ArgoVolumeRule } from "./argo-rules"
+import { SchemaValidationRule } from "./schema-rules"
+import {
+  CdWithoutExitRule,
+  PipelineExitStatusRule,
+  ShellSyntaxRule,
+  StrictModeRule,
+  UnquotedExpansionRule,
+  UselessCatRule,
+} from "./shell-lint-rules"
 
 export class EnhancedRulesEngine {
   private rules: BaseRule[] = []
@@ -23,6 +53,9 @@ export class EnhancedRulesEngine {
     this.rules.push(new HardcodedSecretsRule())
     this.rules.push(new DangerousCommandsRule())
     this.rules.push(new PermissionsRule())
+    this.rules.push(new ScriptInjectionRule())
+    this.rules.push(new TokenPermissionsRule())
+    this.rules.push(new ContainerImageRule())
     this.rules.push(new ComplianceRule())
     this.rules.push(new SecurityScanningRule())
 
@@ -39,6 +72,36 @@ export class EnhancedRulesEngine {
     this.rules.push(new DocumentationRule())
     this.rules.push(new NamingConventionsRule())
     this.rules.push(new ComplexityRule())
+
+    // Linting Rules
+    this.rules.push(new ExpressionRule())
+    this.rules.push(new ShellSyntaxRule())
+    this.rules.push(new StrictModeRule())
+    this.rules.push(new CdWithoutExitRule())
+    this.rules.push(new PipelineExitStatusRule())
+    this.rules.push(new UnquotedExpansionRule())
+    this.rules.push(new UselessCatRule())
+
+    // Platform-specific rules
+    this.rules.push(new AzureTaskVersionRule())
+    this.rules.push(new AzureSecretEchoRule())
+    this.rules.push(new AzureTimeoutRule())
+    this.rules.push(new CircleCICacheKeyRule())
+    this.rules.push(new CircleCIResourceClassRule())
+    this.rules.push(new CircleCIOrbVersionRule())
+    this.rules.push(new JenkinsAgentRule())
+    this.rules.push(new JenkinsTimeoutRule())
+    this.rules.push(new JenkinsCredentialsRule())
+    this.rules.push(new JenkinsScriptInjectionRule())
+    this.rules.push(new JenkinsPostCleanupRule())
+    this.rules.push(new CodeBuildPrivilegedModeRule())
+    this.rules.push(new CloudBuildSubstitutionInjectionRule())
+    this.rules.push(new TravisSudoRule())
+    this.rules.push(new KubernetesPrivilegedContainerRule())
+    this.rules.push(new KubernetesResourceLimitsRule())
+    this.rules.push(new TektonWorkspaceRule())
+    this.rules.push(new ArgoVolumeRule())
+    this.rules.push(new SchemaValidationRule())
   }
 
   executeRules(
@@ -46,6 +109,11 @@ export class EnhancedRulesEngine {
     rawContent: string,
     platform: string,
     level: "junior" | "intermediate" | "senior" | "expert" | "all" = "all",
+    document: YamlDocument = new YamlDocument(rawContent, null),
+    pipeline: Pipeline = buildPipeline(parsed, platform, document),
+    config: AnalysisConfig = {},
+    ruleSettings: ProjectRuleSettings = new ProjectRuleSettings(),
+    filename?: string,
   ): {
     issues: Issue[]
     optimizations: Optimization[]
@@ -65,14 +133,20 @@ export class EnhancedRulesEngine {
       addOptimization: (optimization) => this.optimizations.push(optimization),
       addSecurityVulnerability: (vulnerability) => this.securityVulnerabilities.push(vulnerability),
       findPatternLines: (pattern) => this.findPatternLines(pattern, rawContent),
+      document,
+      pipeline,
+      config,
+      ruleSettings,
+      filename,
     }
 
     // Execute applicable rules
     this.rules.forEach((rule) => {
       try {
-        // Check if rule applies to platform and level
+        // Check if rule applies to platform and level; the project configuration is applied to
+        // each finding, as overrides can turn a rule off for some files only
         if (rule.matchesPlatform(platform) && this.matchesLevel(rule.level, level)) {
-          rule.check(parsed, context)
+          rule.check(parsed, this.ruleContext(rule, context))
         }
       } catch (error) {
         console.error(`Error executing rule ${rule.id}:`, error)
@@ -94,6 +168,31 @@ export class EnhancedRulesEngine {
     }
   }
 
+  // The setting of the rule's id for the file a finding is in, an included file or the analyzed
+  // one, turns the finding off or re-grades it. Vulnerabilities also carry the rule's id.
+  private ruleContext(rule: BaseRule, context: RuleContext): RuleContext {
+    const setting = (finding: { file?: string; range?: { file?: string } }) =>
+      context.ruleSettings.resolve(rule.id, finding.file ?? finding.range?.file ?? context.filename)
+
+    return {
+      ...context,
+      addIssue: (issue) => {
+        const resolved = setting(issue)
+        if (resolved?.enabled === false) return
+        context.addIssue(resolved?.severity ? { ...issue, severity: resolved.severity } : issue)
+      },
+      addOptimization: (optimization) => {
+        if (setting({})?.enabled !== false) context.addOptimization(optimization)
+      },
+      addSecurityVulnerability: (vulnerability) => {
+        const resolved = setting(vulnerability)
+        if (resolved?.enabled === false) return
+        const graded = resolved?.severity ? { ...vulnerability, severity: vulnerabilitySeverity(resolved.severity) } : vulnerability
+        context.addSecurityVulnerability({ ruleId: rule.id, ...graded })
+      },
+    }
+  }
+
   private matchesLevel(ruleLevel: string, targetLevel: string): boolean {
     if (targetLevel === "all") return true
 
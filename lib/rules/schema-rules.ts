@@ -0,0 +1,105 @@
+import { BaseRule, type RuleContext } from "./base-rules"
+import type { Issue, ParsedYAML } from "../types"
+import type { YamlPath } from "../yaml-parser"
+import { formatSchemaPath, validateSchema, type JsonSchema, type SchemaError } from "../schema-validation"
+import { tektonManifests } from "../pipeline/tekton"
+import { argoManifests } from "../pipeline/argo-workflows"
+import githubWorkflowSchema from "../data/schemas/github-workflow.json"
+import githubActionSchema from "../data/schemas/github-action.json"
+import gitlabCiSchema from "../data/schemas/gitlab-ci.json"
+import bitbucketPipelinesSchema from "../data/schemas/bitbucket-pipelines.json"
+import azurePipelinesSchema from "../data/schemas/azure-pipelines.json"
+import circleciSchema from "../data/schemas/circleci.json"
+import buildkiteSchema from "../data/schemas/buildkite.json"
+import droneSchema from "../data/schemas/drone.json"
+import woodpeckerSchema from "../data/schemas/woodpecker.json"
+import travisCiSchema from "../data/schemas/travis-ci.json"
+import codebuildSchema from "../data/schemas/aws-codebuild.json"
+import cloudBuildSchema from "../data/schemas/google-cloud-build.json"
+import tektonSchema from "../data/schemas/tekton.json"
+import argoWorkflowsSchema from "../data/schemas/argo-workflows.json"
+
+// Bundled so validation works offline; Jenkinsfiles are Groovy and have no schema
+const SCHEMAS: Record<string, JsonSchema> = {
+  "github-actions": githubWorkflowSchema as JsonSchema,
+  "github-action-metadata": githubActionSchema as JsonSchema,
+  "gitlab-ci": gitlabCiSchema as JsonSchema,
+  "bitbucket-pipelines": bitbucketPipelinesSchema as JsonSchema,
+  "azure-pipelines": azurePipelinesSchema as JsonSchema,
+  "azure-devops": azurePipelinesSchema as JsonSchema,
+  circleci: circleciSchema as JsonSchema,
+  buildkite: buildkiteSchema as JsonSchema,
+  drone: droneSchema as JsonSchema,
+  woodpecker: woodpeckerSchema as JsonSchema,
+  "travis-ci": travisCiSchema as JsonSchema,
+  "aws-codebuild": codebuildSchema as JsonSchema,
+  "google-cloud-build": cloudBuildSchema as JsonSchema,
+  tekton: tektonSchema as JsonSchema,
+  "argo-workflows": argoWorkflowsSchema as JsonSchema,
+}
+
+// Platforms that warn about or ignore unknown keys instead of rejecting the configuration
+const LENIENT_PLATFORMS = ["travis-ci", "buildkite", "drone"]
+
+const SCHEMA_ISSUES: Record<SchemaError["kind"], { ruleId: string; category: Issue["category"] }> = {
+  "unknown-key": { ruleId: "schema-unknown-key", category: "syntax" },
+  type: { ruleId: "schema-invalid-type", category: "structure" },
+  value: { ruleId: "schema-invalid-value", category: "structure" },
+  "missing-key": { ruleId: "schema-missing-key", category: "structure" },
+  reference: { ruleId: "schema-unknown-reference", category: "structure" },
+}
+
+export class SchemaValidationRule extends BaseRule {
+  id = "schema-validation"
+  name = "Schema Validation"
+  description = "Validates the configuration against the platform's JSON Schema and suggests the intended spelling of unknown keys"
+  category = "syntax"
+  severity = "error" as const
+  level = "junior" as const
+  platforms = Object.keys(SCHEMAS)
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const schema = SCHEMAS[context.platform]
+    const documentationUrl = schema.description?.match(/https:\/\/\S+$/)?.[0]
+
+    this.documents(parsed, context.platform).forEach(({ value, path }) =>
+      validateSchema(value, schema).forEach((error) => this.report({ ...error, path: [...path, ...error.path] }, documentationUrl, context)),
+    )
+  }
+
+  // Kubernetes-native platforms are validated manifest by manifest, others document by document
+  private documents(parsed: ParsedYAML, platform: string): { value: any; path: YamlPath }[] {
+    if (platform === "tekton") return tektonManifests(parsed).map(({ manifest, path }) => ({ value: manifest, path }))
+    if (platform === "argo-workflows") return argoManifests(parsed).map(({ manifest, path }) => ({ value: manifest, path }))
+    return Array.isArray(parsed) ? parsed.map((value, index) => ({ value, path: [index] })) : [{ value: parsed, path: [] }]
+  }
+
+  private report(error: SchemaError, documentationUrl: string | undefined, context: RuleContext): void {
+    const { ruleId, category } = SCHEMA_ISSUES[error.kind]
+    const isKey = error.kind === "unknown-key"
+    const range = isKey ? context.document.getKeyRange(error.path) : context.document.getRange(error.path)
+    const name = error.path[error.path.length - 1]
+    const lenient = isKey && LENIENT_PLATFORMS.includes(context.platform)
+
+    const problem = isKey ? `Unknown key "${name}"` : error.message
+
+    context.addIssue({
+      title: error.didYouMean ? `${problem}, did you mean "${error.didYouMean}"?` : problem,
+      description: isKey
+        ? `${error.message}; ${lenient ? "the platform ignores it" : "the platform rejects the configuration"}`
+        : `${formatSchemaPath(error.path)} does not match the platform's schema, so the platform rejects the configuration`,
+      severity: lenient ? "warning" : "error",
+      category,
+      ruleId,
+      suggestion: error.didYouMean
+        ? `${isKey ? "Rename the key to" : "Use"} "${error.didYouMean}"`
+        : isKey
+          ? "Remove the key or move it to where the platform expects it"
+          : "Change the configuration to match the platform's schema",
+      fixable: error.didYouMean !== undefined,
+      documentationUrl,
+      line: range?.start.line,
+      range,
+    })
+  }
+}
@@ -1,5 +1,28 @@
 import { BaseRule, type RuleContext } from "./base-rules";
 import type { ParsedYAML } from "../types";
+import { extractExpressions, isDynamicExpression, parseExpression } from "../github-expressions";
+import { findInjectionFlows } from "../github-taint";
+import {
+  diffPermissions,
+  formatPermissionsBlock,
+  inferJobPermissions,
+  parseDeclaredPermissions,
+  type PermissionDifference,
+  type PermissionInference,
+} from "../github-permissions";
+import {
+  SHELL_INTERPRETERS,
+  argValues,
+  chmodMode,
+  hasOption,
+  isEnvironmentDump,
+  isPrivilegedContainer,
+  normalizeCommandText,
+  operands,
+  recursiveDeleteTargets,
+  remoteScriptSource,
+  type ShellInvocation,
+} from "../shell-commands";
 
 interface SecretPattern {
   name: string;
@@ -8,11 +31,15 @@ interface SecretPattern {
   validator?: (match: string, context: string) => boolean;
 }
 
-interface DangerousPattern {
-  pattern: RegExp;
+// Remote scripts from these domains may be piped into a shell
+const TRUSTED_DOMAINS = ['github.com', 'githubusercontent.com', 'docker.com', 'microsoft.com'];
+
+interface DangerousCommand {
   title: string;
   severity: "critical" | "high" | "medium" | "low";
-  validator?: (match: string, context: string) => boolean;
+  matches: (invocation: ShellInvocation) => boolean;
+  // Command quoted along with the match, e.g. the download piped into a shell
+  source?: (invocation: ShellInvocation) => ShellInvocation | undefined;
 }
 
 export class HardcodedSecretsRule extends BaseRule {
@@ -141,32 +168,44 @@ export class HardcodedSecretsRule extends BaseRule {
   check(parsed: ParsedYAML, context: RuleContext): void {
     const lines = context.rawContent.split("\n");
 
-    this.secretPatterns.forEach(({ name, pattern, severity, validator }) => {
+    [...this.secretPatterns, ...this.projectPatterns(context)].forEach(({ name, pattern, severity, validator }) => {
       lines.forEach((line, index) => {
         // Skip comments and environment variable references
         if (line.trim().startsWith("#") || this.isEnvironmentVariableReference(line)) return;
         
-        const matches = line.match(pattern);
-        if (matches) {
-          matches.forEach((match) => {
-            // Apply additional validation if provided
-            if (validator && !validator(match, line)) return;
-            
-            if (this.isLikelySecret(match)) {
-              context.addSecurityVulnerability({
-                title: `Exposed ${name}`,
-                description: `Potential ${name.toLowerCase()} found: "${this.maskSecret(match)}"`,
-                severity,
-                recommendation: this.getRecommendation(name),
-                line: index + 1,
-              });
-            }
-          });
-        }
+        Array.from(line.matchAll(new RegExp(pattern.source, pattern.flags))).forEach((found) => {
+          const match = found[0];
+          // Apply additional validation if provided
+          if (validator && !validator(match, line)) return;
+
+          if (this.isLikelySecret(match)) {
+            const column = (found.index ?? 0) + 1;
+            context.addSecurityVulnerability({
+              title: `Exposed ${name}`,
+              description: `Potential ${name.toLowerCase()} found: "${this.maskSecret(match)}"`,
+              severity,
+              recommendation: this.getRecommendation(name),
+              line: index + 1,
+              range: context.document.rangeOnLine(index + 1, column, column + match.length),
+            });
+          }
+        });
       });
     });
   }
 
+  // Patterns the project adds through the rule's `patterns` option
+  private projectPatterns(context: RuleContext): SecretPattern[] {
+    const patterns: any[] = this.options(context).patterns ?? [];
+    return patterns.flatMap(({ name, pattern, severity = "high" }) => {
+      try {
+        return [{ name, pattern: new RegExp(pattern, "g"), severity }];
+      } catch {
+        return [];
+      }
+    });
+  }
+
   private isEnvironmentVariableReference(line: string): boolean {
     return line.includes("$") && (line.includes("${") || line.includes("${{") || line.includes("$"));
   }
@@ -300,80 +339,83 @@ export class PermissionsRule extends BaseRule {
   level = "beginner" as const;
   platforms = ["all"];
 
-  private permissionPatterns: DangerousPattern[] = [
+  private permissionCommands: DangerousCommand[] = [
     {
-      pattern: /chmod\s+(777|666|755|644|700|600|755|644)\s+/g,
       title: "File permissions",
       severity: "medium",
-      validator: (match: string) => this.isInsecurePermission(match)
+      matches: (invocation) => this.isInsecurePermission(chmodMode(invocation))
     },
     {
-      pattern: /chown\s+(root|0)\s+/g,
       title: "Root ownership",
       severity: "high",
-      validator: (match: string) => this.isProblematicOwnership(match)
+      matches: (invocation) => invocation.name === 'chown' && this.isProblematicOwnership(operands(invocation)[0]?.value)
     },
     {
-      pattern: /umask\s+0{3}/g,
       title: "Permissive umask",
-      severity: "high"
+      severity: "high",
+      matches: (invocation) => invocation.name === 'umask' && /^0{3,4}$/.test(operands(invocation)[0]?.value ?? '')
     },
     {
-      pattern: /find\s+[^|]*-perm\s+777/g,
       title: "Finding world-writable files",
-      severity: "medium"
+      severity: "medium",
+      matches: (invocation) => invocation.name === 'find' && this.optionValue(invocation, '-perm')?.replace(/^[-\/]/, '') === '777'
     },
     {
-      pattern: /setuid|setgid/g,
       title: "SUID/SGID usage",
-      severity: "high"
+      severity: "high",
+      matches: (invocation) => this.setsSpecialBit(chmodMode(invocation)) && !invocation.wrappers.includes('sudo')
     },
     {
-      pattern: /sudo\s+chmod\s+\+s/g,
       title: "Adding SUID bit",
-      severity: "critical"
+      severity: "critical",
+      matches: (invocation) => this.setsSpecialBit(chmodMode(invocation)) && invocation.wrappers.includes('sudo')
     }
   ];
 
   check(parsed: ParsedYAML, context: RuleContext): void {
-    const lines = context.rawContent.split("\n");
-    
-    this.permissionPatterns.forEach(({ pattern, title, severity, validator }) => {
-      lines.forEach((line, index) => {
-        if (line.trim().startsWith("#")) return;
-        
-        const matches = line.match(pattern);
-        if (matches) {
-          matches.forEach((match) => {
-            if (validator && !validator(match, line)) return;
-            
-            context.addSecurityVulnerability({
-              title: `Insecure ${title}`,
-              description: `Permission issue found: "${line.trim()}"`,
-              severity,
-              recommendation: this.getPermissionRecommendation(title),
-              line: index + 1,
-            });
-          });
-        }
+    this.findShellInvocations(context).forEach(({ invocation, text, range }) => {
+      this.permissionCommands.forEach(({ title, severity, matches }) => {
+        if (!matches(invocation)) return;
+
+        context.addSecurityVulnerability({
+          title: `Insecure ${title}`,
+          description: `Permission issue found: "${normalizeCommandText(text)}"`,
+          severity,
+          recommendation: this.getPermissionRecommendation(title),
+          line: range.start.line,
+          range,
+        });
       });
     });
   }
 
-  private isInsecurePermission(match: string): boolean {
+  private isInsecurePermission(mode: string | undefined): boolean {
+    if (!mode) return false;
+    const permissions = mode.replace(/^0+(?=\d{3})/, '');
+
     // 777 and 666 are always insecure
-    if (match.includes('777') || match.includes('666')) return true;
+    if (permissions === '777' || permissions === '666' || /^a?\+rwx$/.test(permissions)) return true;
     
     // 755 might be okay for executables, but flag for review
-    if (match.includes('755')) return true;
+    if (permissions === '755') return true;
     
     // Other permissions are generally safer
     return false;
   }
 
-  private isProblematicOwnership(match: string): boolean {
+  private isProblematicOwnership(owner: string | undefined): boolean {
     // Changing ownership to root in user scripts is often problematic
-    return match.includes('root') || match.includes(' 0 ');
+    return owner !== undefined && /^(root|0)([:.]|$)/.test(owner);
+  }
+
+  // Symbolic `u+s`/`g+s` or a four-digit mode with the setuid/setgid bits
+  private setsSpecialBit(mode: string | undefined): boolean {
+    return mode !== undefined && (/^[ugoa]*\+[rwxt]*s/.test(mode) || /^[2-7][0-7]{3}$/.test(mode));
+  }
+
+  private optionValue(invocation: ShellInvocation, option: string): string | undefined {
+    const index = invocation.args.findIndex((arg) => arg.value === option);
+    return index === -1 ? undefined : invocation.args[index + 1]?.value;
   }
 
   private getPermissionRecommendation(permissionType: string): string {
@@ -399,150 +441,163 @@ export class DangerousCommandsRule extends BaseRule {
   level = "intermediate" as const;
   platforms = ["all"];
 
-  private dangerousPatterns: DangerousPattern[] = [
+  // Bundled trusted domains plus the rule's `trustedDomains` option
+  private trustedDomains: string[] = TRUSTED_DOMAINS;
+
+  private dangerousCommands: DangerousCommand[] = [
     { 
-      pattern: /rm\s+-rf\s+(\/[^\s]|\$HOME|~|\.\.|\*)/g, 
       title: "Recursive delete", 
       severity: "critical",
-      validator: (match: string) => !this.isSafeDelete(match)
+      matches: (invocation) => recursiveDeleteTargets(invocation).some((target) => !this.isSafeDelete(target.value))
     },
     { 
-      pattern: /chmod\s+(777|666|755)\s+/g, 
       title: "Permissive permissions", 
       severity: "high",
-      validator: (match: string) => this.isActuallyDangerous(match)
+      matches: (invocation) => this.isActuallyDangerous(chmodMode(invocation))
     },
     { 
-      pattern: /eval\s+[\$`]/g, 
       title: "Eval with command substitution", 
-      severity: "high" 
+      severity: "high",
+      matches: (invocation) => invocation.name === 'eval' && invocation.args.some((arg) => arg.expansions.some((expansion) => expansion.kind === 'command' || expansion.kind === 'parameter'))
     },
     { 
-      pattern: /(curl|wget)\s+[^|]*\|\s*(sh|bash|python|ruby|perl)/g, 
       title: "Remote script execution", 
       severity: "critical",
-      validator: (match: string) => !this.isTrustedSource(match)
+      matches: (invocation) => {
+        const source = remoteScriptSource(invocation);
+        return source !== undefined && !this.isTrustedSource(argValues(source).join(' '));
+      },
+      source: remoteScriptSource
     },
     { 
-      pattern: /sudo\s+(rm|chmod|chown|mv|cp|dd)\s+\/[^\s]/g, 
       title: "Sudo on system paths", 
       severity: "high",
-      validator: (match: string) => this.isSystemPath(match)
+      matches: (invocation) =>
+        invocation.wrappers.includes('sudo') &&
+        ['rm', 'chmod', 'chown', 'mv', 'cp', 'dd'].includes(invocation.name) &&
+        operands(invocation).some((operand) => this.isSystemPath(operand.value.replace(/^of=/, '')))
     },
     { 
-      pattern: /docker\s+run[^|]*--privileged/g, 
       title: "Privileged container", 
-      severity: "high" 
+      severity: "high",
+      matches: (invocation) => isPrivilegedContainer(invocation)
     },
     { 
-      pattern: /printenv|env\s*$/g, 
       title: "Environment dump", 
-      severity: "medium" 
+      severity: "medium",
+      matches: (invocation) => isEnvironmentDump(invocation)
     },
     { 
-      pattern: /echo\s+\$[A-Z_]+/g, 
       title: "Echo environment variable", 
       severity: "medium",
-      validator: (match: string) => this.isSecretEnvVar(match)
+      matches: (invocation) => ['echo', 'printf'].includes(invocation.name) && invocation.args.some((arg) => arg.expansions.some((expansion) => expansion.kind === 'parameter' && this.isSecretEnvVar(expansion.text)))
     },
     { 
-      pattern: /ssh\s+root@[^\s]+/g, 
       title: "SSH as root", 
       severity: "critical",
-      validator: (match: string) => !this.isLocalhost(match)
+      matches: (invocation) => invocation.name === 'ssh' && operands(invocation).some((operand) => operand.value.startsWith('root@') && !this.isLocalhost(operand.value))
     },
     { 
-      pattern: /aws\s+configure\s+set\s+(aws_access_key_id|aws_secret_access_key)\s+[^\s]+/g, 
       title: "AWS CLI hardcoded credentials", 
       severity: "high",
-      validator: (match: string) => !this.isVariableReference(match)
+      matches: (invocation) => {
+        const [command, action, key, value] = invocation.args;
+        return invocation.name === 'aws' && command?.value === 'configure' && action?.value === 'set' &&
+          ['aws_access_key_id', 'aws_secret_access_key'].includes(key?.value) && value !== undefined && !this.isVariableReference(value.text);
+      }
     },
     { 
-      pattern: />\s*\/dev\/null\s+2>&1/g, 
       title: "Suppressed error output", 
-      severity: "medium" 
+      severity: "medium",
+      matches: (invocation) => this.suppressesOutput(invocation)
     },
     { 
-      pattern: /mktemp.*\|\s*(sh|bash)/g, 
       title: "Temporary file execution", 
-      severity: "high" 
+      severity: "high",
+      matches: (invocation) => SHELL_INTERPRETERS.includes(invocation.name) && invocation.upstream.some((upstream) => upstream.name === 'mktemp')
     },
     { 
-      pattern: /nc\s+(-l\s+)?-e\s+/g, 
       title: "Netcat reverse shell", 
-      severity: "critical" 
+      severity: "critical",
+      matches: (invocation) => ['nc', 'ncat', 'netcat'].includes(invocation.name) && hasOption(invocation, 'e')
     },
     { 
-      pattern: /python\s+-c\s+['"]import\s+os.*shell/g, 
       title: "Python shell command", 
-      severity: "high" 
+      severity: "high",
+      matches: (invocation) => {
+        if (!/^python[23]?$/.test(invocation.name)) return false;
+        const code = invocation.args[invocation.args.findIndex((arg) => arg.value === '-c') + 1]?.value ?? '';
+        return invocation.args.some((arg) => arg.value === '-c') && /import\s+os/.test(code) && /shell|system|popen/.test(code);
+      }
     },
     { 
-      pattern: /find\s+\/.*-exec\s+rm/g, 
       title: "Find and delete", 
-      severity: "high" 
+      severity: "high",
+      matches: (invocation) => {
+        if (invocation.name !== 'find' || !operands(invocation)[0]?.value.startsWith('/')) return false;
+        const values = argValues(invocation);
+        const exec = values.indexOf('-exec');
+        return values.includes('-delete') || (exec !== -1 && values[exec + 1] === 'rm');
+      }
     },
     { 
-      pattern: /history\s+-c/g, 
       title: "Clear command history", 
-      severity: "medium" 
+      severity: "medium",
+      matches: (invocation) => invocation.name === 'history' && hasOption(invocation, 'c')
     }
   ];
 
   check(parsed: ParsedYAML, context: RuleContext): void {
-    const lines = context.rawContent.split("\n");
-    
-    this.dangerousPatterns.forEach(({ pattern, title, severity, validator }) => {
-      lines.forEach((line, index) => {
-        // Skip comments
-        if (line.trim().startsWith("#")) return;
-        
-        const matches = line.match(pattern);
-        if (matches) {
-          matches.forEach((match) => {
-            // Apply additional validation if provided
-            if (validator && !validator(match, line)) return;
-            
-            context.addSecurityVulnerability({
-              title,
-              description: `Dangerous command found: "${line.trim()}"`,
-              severity,
-              recommendation: this.getRecommendation(title),
-              line: index + 1,
-            });
-          });
-        }
+    this.trustedDomains = [...TRUSTED_DOMAINS, ...(this.options(context).trustedDomains ?? [])];
+
+    // Commands come from the parsed scripts, so comments and quoted text are never flagged
+    this.findShellInvocations(context).forEach(({ invocation, scalar }) => {
+      this.dangerousCommands.forEach(({ title, severity, matches, source }) => {
+        if (!matches(invocation)) return;
+
+        // The whole pipeline, so `curl ... | bash` names what is downloaded
+        const quoted = source?.(invocation);
+        const start = Math.min(invocation.start, quoted?.start ?? invocation.start);
+        const end = Math.max(invocation.end, quoted?.end ?? invocation.end);
+        const range = context.document.scalarRange(scalar, start, end);
+        context.addSecurityVulnerability({
+          title,
+          description: `Dangerous command found: "${normalizeCommandText(scalar.text.slice(start, end))}"`,
+          severity,
+          recommendation: this.getRecommendation(title),
+          line: range.start.line,
+          range,
+        });
       });
     });
   }
 
-  private isSafeDelete(match: string): boolean {
+  private isSafeDelete(target: string): boolean {
     // Check if it's deleting safe paths like temp directories
     const safePaths = ['/tmp/', '/var/tmp/', './build', './dist', './node_modules'];
-    return safePaths.some(path => match.includes(path));
+    return safePaths.some(path => target.startsWith(path));
   }
 
-  private isActuallyDangerous(match: string): boolean {
+  private isActuallyDangerous(mode: string | undefined): boolean {
     // 755 is often legitimate, focus on 777 and 666
-    return match.includes('777') || match.includes('666');
+    return mode !== undefined && /^0?(777|666)$|^a?\+rwx$/.test(mode);
   }
 
   private isTrustedSource(match: string): boolean {
     // Check if downloading from trusted sources
-    const trustedDomains = ['github.com', 'githubusercontent.com', 'docker.com', 'microsoft.com'];
-    return trustedDomains.some(domain => match.includes(domain));
+    return this.trustedDomains.some(domain => match.includes(domain));
   }
 
-  private isSystemPath(match: string): boolean {
+  private isSystemPath(path: string): boolean {
     // Check if operating on critical system paths
     const systemPaths = ['/bin/', '/sbin/', '/usr/bin/', '/usr/sbin/', '/etc/', '/boot/', '/sys/', '/proc/'];
-    return systemPaths.some(path => match.includes(path));
+    return systemPaths.some(systemPath => path.startsWith(systemPath));
   }
 
   private isSecretEnvVar(match: string): boolean {
     // Check if echoing potentially sensitive environment variables
     const secretVars = ['PASSWORD', 'SECRET', 'TOKEN', 'KEY', 'AUTH', 'CREDENTIAL', 'PRIVATE'];
-    const envVar = match.match(/\$([A-Z_]+)/)?.[1];
+    const envVar = match.match(/\$\{?([A-Z_]+)/)?.[1];
     return envVar ? secretVars.some(secret => envVar.includes(secret)) : false;
   }
 
@@ -551,9 +606,30 @@ export class DangerousCommandsRule extends BaseRule {
     return match.includes('localhost') || match.includes('127.0.0.1') || match.includes('::1');
   }
 
-  private isVariableReference(match: string): boolean {
-    // Check if the credential is actually a variable reference
-    return match.includes('$') || match.includes('${') || match.includes('${{');
+  // `> /dev/null 2>&1` and `&> /dev/null` hide both output and errors
+  private suppressesOutput(invocation: ShellInvocation): boolean {
+    const redirects = invocation.command.redirects;
+    const toNull = (fds: (number | undefined)[]) =>
+      redirects.some((redirect) => ['>', '>>'].includes(redirect.operator) && fds.includes(redirect.fd) && redirect.target.value === '/dev/null');
+    const bothToNull = redirects.some((redirect) => ['&>', '&>>'].includes(redirect.operator) && redirect.target.value === '/dev/null');
+    const stderrToStdout = redirects.some((redirect) => redirect.operator === '>&' && redirect.fd === 2 && redirect.target.value === '1');
+    return bothToNull || (toNull([undefined, 1]) && stderrToStdout);
+  }
+
+  private isVariableReference(value: string): boolean {
+    if (value.startsWith('${{')) {
+      const [expression] = extractExpressions(value);
+      if (!expression?.terminated || expression.outerStart !== 0) return false;
+      try {
+        // `${{ 'AKIA...' }}` is still a hardcoded literal
+        return isDynamicExpression(parseExpression(expression.source));
+      } catch {
+        return false;
+      }
+    }
+
+    // Shell variables: $NAME, ${NAME}, $(command), quoted or not
+    return /^["']?\$(\w|\{\w|\()/.test(value);
   }
 
   private getRecommendation(commandType: string): string {
@@ -578,4 +654,131 @@ export class DangerousCommandsRule extends BaseRule {
     
     return recommendations[commandType] || "Review and sanitize this command for security implications";
   }
-}
\ No newline at end of file
+}
+
+export class ScriptInjectionRule extends BaseRule {
+  id = "script-injection";
+  name = "Script Injection";
+  description = "Traces untrusted event data into run: scripts and github-script code";
+  category = "security";
+  severity = "critical" as const;
+  level = "intermediate" as const;
+  platforms = ["github-actions", "github-action-metadata"];
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    // A composite action cannot know what its callers pass in, so every input is untrusted
+    const isAction = context.platform === "github-action-metadata";
+    const options = isAction ? { untrustedContexts: ["inputs"] } : {};
+
+    findInjectionFlows(context.pipeline, context.document, options).forEach((flow) => {
+      const stepName = flow.step.name ?? flow.step.uses ?? `#${Number(flow.step.path[flow.step.path.length - 1]) + 1}`;
+      const target = flow.sink === "run" ? "run: script" : "actions/github-script code";
+      const fromInput = isAction && /^inputs\./i.test(flow.source);
+      const origin = fromInput
+        ? `${flow.source} is set by the workflows that use this action, which may pass attacker-controlled event data,`
+        : `${flow.source} is attacker-controlled`;
+      const location = isAction ? `step "${stepName}" of the composite action` : `step "${stepName}" in job "${flow.job.id}"`;
+
+      context.addSecurityVulnerability({
+        title: "Script injection from untrusted input",
+        description: `${origin} and reaches the ${target} of ${location}: ${flow.chain.join(" → ")}`,
+        severity: fromInput ? "high" : "critical",
+        recommendation: flow.sink === "run"
+          ? `Pass the value through env (e.g. env: VALUE: \${{ ${flow.source} }}) and use "$VALUE" in the script instead of interpolating ${flow.expression}`
+          : "Pass the value through env and read it with process.env in the script instead of interpolating it into the code",
+        line: flow.range.start.line,
+        range: flow.range,
+        relatedLocations: flow.hops
+          .filter((hop) => hop.range !== undefined)
+          .map((hop) => ({ message: hop.message, range: hop.range! })),
+      });
+    });
+  }
+}
+
+export class TokenPermissionsRule extends BaseRule {
+  id = "token-permissions";
+  name = "GITHUB_TOKEN Least Privilege";
+  description = "Infers the permissions each job needs and compares them with what is declared";
+  category = "security";
+  severity = "warning" as const;
+  level = "intermediate" as const;
+  platforms = ["github-actions"];
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const workflowPermissions = parseDeclaredPermissions(parsed.permissions);
+
+    context.pipeline.jobs.forEach((job) => {
+      // Reusable workflow calls get their permissions checked in the called workflow
+      if (job.raw.uses) return;
+
+      const inference = inferJobPermissions(job);
+      const jobPermissions = parseDeclaredPermissions(job.raw.permissions);
+      const declared = jobPermissions ?? workflowPermissions;
+      const declaredPath = jobPermissions ? [...job.path, "permissions"] : ["permissions"];
+      const range = (declared && context.document.getKeyRange(declaredPath)) || context.document.getKeyRange(job.path);
+      const suggested = formatPermissionsBlock(inference.required);
+      const basis = this.describeReasons(inference);
+
+      if (!declared) {
+        context.addIssue({
+          title: `Job "${job.id}" does not declare token permissions`,
+          description: `Without a permissions block the job gets the repository default GITHUB_TOKEN scopes, which may include write access to everything. ${basis}`,
+          severity: "warning",
+          category: "security",
+          ruleId: "gh-missing-permissions",
+          suggestion: `Declare the minimal permissions for job "${job.id}"`,
+          exampleCode: suggested,
+          fixable: true,
+          line: range?.start.line,
+          range,
+        });
+        return;
+      }
+
+      const { excess, missing } = diffPermissions(declared, inference.required);
+      if (excess.length > 0) {
+        context.addIssue({
+          title: `Job "${job.id}" has broader token permissions than it needs`,
+          description: `Declared permissions exceed what the job uses: ${this.formatDifferences(excess)}. ${basis}`,
+          severity: excess.some((difference) => difference.declared === "write") ? "warning" : "info",
+          category: "security",
+          ruleId: "gh-excess-permissions",
+          suggestion: jobPermissions
+            ? `Reduce the permissions of job "${job.id}" to the inferred minimum`
+            : `Set permissions per job instead of granting them to the whole workflow`,
+          exampleCode: suggested,
+          fixable: true,
+          line: range?.start.line,
+          range,
+        });
+      }
+      if (missing.length > 0) {
+        context.addIssue({
+          title: `Job "${job.id}" may lack token permissions`,
+          description: `The job uses APIs that need ${this.formatDifferences(missing)}, but the declared permissions do not grant them. ${basis}`,
+          severity: "warning",
+          category: "security",
+          ruleId: "gh-missing-token-scope",
+          suggestion: `Grant the missing scopes to job "${job.id}"`,
+          exampleCode: suggested,
+          fixable: true,
+          line: range?.start.line,
+          range,
+        });
+      }
+    });
+  }
+
+  private formatDifferences(differences: PermissionDifference[]): string {
+    return differences.map(({ scope, declared, required }) => `${scope} (${declared} declared, ${required} needed)`).join(", ");
+  }
+
+  private describeReasons(inference: PermissionInference): string {
+    const reasons = Array.from(new Set(inference.reasons.map(({ scope, level, source }) => `${source} → ${scope}: ${level}`)));
+    const basis = reasons.length > 0 ? `Inferred from ${reasons.join("; ")}.` : "No step needs the GITHUB_TOKEN.";
+    return inference.skippedSteps.length > 0
+      ? `${basis} ${inference.skippedSteps.length} step(s) authenticate with a different token and were not counted.`
+      : basis;
+  }
+}
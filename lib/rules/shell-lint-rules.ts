@@ -0,0 +1,395 @@
+import { BaseRule, type RuleContext, type ShellScriptBlock } from "./base-rules"
+import type { ParsedYAML } from "../types"
+import { findInterpolations } from "../jenkinsfile"
+import {
+  walkCommands,
+  type ShellCompound,
+  type ShellExpansion,
+  type ShellList,
+  type ShellPipeline,
+  type ShellSimpleCommand,
+  type ShellWord,
+} from "../shell-parser"
+
+const SHELLCHECK_WIKI = "https://www.shellcheck.net/wiki"
+const SET_BUILTIN_DOCS = "https://www.gnu.org/software/bash/manual/html_node/The-Set-Builtin.html"
+
+// Options the platform's default shell already runs with: GitHub uses `bash -e {0}`, the
+// GitLab runner starts scripts with `set -eo pipefail`, CircleCI uses `/bin/bash -eo pipefail`,
+// Jenkins runs `sh` steps with `sh -xe`, the Buildkite agent uses `bash -e -c` and Drone and
+// Woodpecker start their generated scripts with `set -e`
+const IMPLICIT_SHELL_OPTIONS: Record<string, string[]> = {
+  "github-actions": ["errexit"],
+  "gitlab-ci": ["errexit", "pipefail"],
+  circleci: ["errexit", "pipefail"],
+  jenkins: ["errexit"],
+  buildkite: ["errexit"],
+  drone: ["errexit"],
+  woodpecker: ["errexit"],
+  // Scripts without a shebang run as `#!/bin/sh` followed by `set -e`
+  tekton: ["errexit"],
+}
+// GitHub's named shells, e.g. `shell: bash` runs `bash --noprofile --norc -eo pipefail {0}`
+const GITHUB_SHELL_OPTIONS: Record<string, string[]> = {
+  bash: ["errexit", "pipefail"],
+  sh: ["errexit"],
+}
+const SHORT_OPTIONS: Record<string, string> = { e: "errexit", u: "nounset" }
+
+// Builtins whose `name=value` arguments are assignments and not split
+const DECLARATION_BUILTINS = ["export", "local", "declare", "readonly", "typeset"]
+
+export class UnquotedExpansionRule extends BaseRule {
+  id = "shell-unquoted-expansion"
+  name = "Unquoted Shell Expansions"
+  description = "Flags variables and command substitutions that are split and globbed because they are not quoted"
+  category = "linting"
+  severity = "info" as const
+  level = "junior" as const
+  platforms = ["all"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    this.findShellScripts(context).forEach(({ scalar, script }) => {
+      // Groovy replaces GString interpolations before the shell runs, so quoting does not help them
+      const interpolations = context.platform === "jenkins" ? findInterpolations(context.document, scalar) : []
+      forEachCommand(script.body, (command) => {
+        splitWords(command).forEach((word) => {
+          const expansion = word.expansions.find((candidate) => isSplit(candidate, context.platform))
+          if (!expansion) return
+          const substitution = expansion.kind === "command"
+          const range = context.document.scalarRange(scalar, expansion.start, expansion.end)
+          const interpolated = interpolations.some(
+            (interpolation) =>
+              interpolation.range.start.offset < range.end.offset && range.start.offset < interpolation.range.end.offset,
+          )
+          if (interpolated) return
+          context.addIssue({
+            title: substitution ? "Unquoted command substitution" : `Unquoted variable expansion: ${expansion.text}`,
+            description: `${shorten(expansion.text)} is not in double quotes, so its value is split on whitespace and expanded as a glob pattern`,
+            severity: "info",
+            category: "linting",
+            ruleId: "shell-unquoted-expansion",
+            suggestion: "Wrap the expansion in double quotes",
+            exampleCode: `"${shorten(expansion.text)}"`,
+            documentationUrl: `${SHELLCHECK_WIKI}/${substitution ? "SC2046" : "SC2086"}`,
+            line: range.start.line,
+            range,
+          })
+        })
+      })
+    })
+  }
+}
+
+export class CdWithoutExitRule extends BaseRule {
+  id = "shell-cd-without-exit"
+  name = "cd Without Error Handling"
+  description = "Flags cd commands whose failure leaves the rest of the script running in the wrong directory"
+  category = "linting"
+  severity = "warning" as const
+  level = "junior" as const
+  platforms = ["all"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    this.findShellScripts(context).forEach((block) => {
+      if (shellOptions(block, context.platform).has("errexit")) return
+      const { scalar, script } = block
+
+      walkLists(script.body, (list, condition) => {
+        if (condition) return
+        list.items.forEach(({ pipeline, operator }, index) => {
+          const [command] = pipeline.commands
+          if (pipeline.negated || pipeline.commands.length !== 1 || command.kind !== "command") return
+          if (command.words[0]?.value !== "cd" || operator === "&&" || operator === "||") return
+          // A failing last command fails the whole script
+          if (list === script.body && index === list.items.length - 1) return
+
+          const range = context.document.scalarRange(scalar, command.start, command.end)
+          context.addIssue({
+            title: "cd without a failure check",
+            description: `If "${scalar.text.slice(command.start, command.end)}" fails, the following commands run in the previous directory`,
+            severity: "warning",
+            category: "linting",
+            ruleId: "shell-cd-without-exit",
+            suggestion: "Add `|| exit 1`, chain the next command with `&&`, or enable `set -e`",
+            exampleCode: `${scalar.text.slice(command.start, command.end)} || exit 1`,
+            documentationUrl: `${SHELLCHECK_WIKI}/SC2164`,
+            line: range.start.line,
+            range,
+          })
+        })
+      })
+    })
+  }
+}
+
+export class StrictModeRule extends BaseRule {
+  id = "shell-strict-mode"
+  name = "Shell Strict Mode"
+  description = "Flags multi-command scripts that keep going after a command or a pipeline fails"
+  category = "linting"
+  severity = "warning" as const
+  level = "intermediate" as const
+  platforms = ["all"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    this.findShellScripts(context).forEach((block) => {
+      const { scalar, script } = block
+      const options = shellOptions(block, context.platform)
+      const items = script.body.items
+      const missing: string[] = []
+
+      // A failure only goes unnoticed when another command runs after it
+      const unchecked = items.slice(0, -1).some(({ operator }) => operator !== "&&" && operator !== "||")
+      if (unchecked && !options.has("errexit")) missing.push("set -e")
+      let piped = false
+      walkCommands(script.body, (command, pipeline) => {
+        if (pipeline.commands.length > 1) piped = true
+      })
+      if (piped && !options.has("pipefail")) missing.push("set -o pipefail")
+      if (missing.length === 0) return
+
+      const firstLine = scalar.text.length - scalar.text.trimStart().length
+      const range = context.document.scalarRange(scalar, firstLine, firstLine + scalar.text.trimStart().split("\n")[0].length)
+      context.addIssue({
+        title: `Script runs without ${missing.join(" and ")}`,
+        description: [
+          missing.includes("set -e") ? "A failing command does not stop the script, so later commands run on a broken state." : "",
+          missing.includes("set -o pipefail") ? "A pipeline reports only the status of its last command, so failures earlier in the pipe are lost." : "",
+        ]
+          .filter(Boolean)
+          .join(" "),
+        severity: "warning",
+        category: "linting",
+        ruleId: "shell-strict-mode",
+        suggestion: "Start the script with `set -euo pipefail`",
+        exampleCode: "set -euo pipefail",
+        documentationUrl: SET_BUILTIN_DOCS,
+        line: range.start.line,
+        range,
+      })
+    })
+  }
+}
+
+export class PipelineExitStatusRule extends BaseRule {
+  id = "shell-pipeline-exit-status"
+  name = "Exit Status After a Pipeline"
+  description = "Flags $? checks that only see the last command of the pipeline before them"
+  category = "linting"
+  severity = "warning" as const
+  level = "intermediate" as const
+  platforms = ["all"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    this.findShellScripts(context).forEach((block) => {
+      if (shellOptions(block, context.platform).has("pipefail")) return
+      const { scalar } = block
+
+      walkLists(block.script.body, (list) => {
+        list.items.forEach(({ pipeline }, index) => {
+          const previous = list.items[index - 1]
+          if (!previous || previous.pipeline.commands.length < 2 || previous.operator === "&") return
+          const command = leadingCommand(pipeline)
+          const status = command && commandWords(command).flatMap((word) => word.expansions).find(isExitStatus)
+          if (!status) return
+
+          const range = context.document.scalarRange(scalar, status.start, status.end)
+          const piped = scalar.text.slice(previous.pipeline.start, previous.pipeline.end)
+          context.addIssue({
+            title: "$? checked after a pipeline",
+            description: `$? holds the exit status of the last command in "${shorten(piped)}", so failures earlier in the pipeline are missed`,
+            severity: "warning",
+            category: "linting",
+            ruleId: "shell-pipeline-exit-status",
+            suggestion: "Enable `set -o pipefail` before the pipeline, or check each status in `${PIPESTATUS[@]}`",
+            exampleCode: `set -o pipefail\n${shorten(piped)}`,
+            documentationUrl: `${SHELLCHECK_WIKI}/SC2181`,
+            line: range.start.line,
+            range,
+          })
+        })
+      })
+    })
+  }
+}
+
+export class UselessCatRule extends BaseRule {
+  id = "shell-useless-cat"
+  name = "Useless cat"
+  description = "Flags `cat file | command` where the command can read the file itself"
+  category = "linting"
+  severity = "info" as const
+  level = "junior" as const
+  platforms = ["all"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    this.findShellScripts(context).forEach(({ scalar, script }) => {
+      forEachCommand(script.body, (command, pipeline) => {
+        const [name, file] = command.words
+        if (pipeline.commands.length < 2 || pipeline.commands[0] !== command) return
+        if (name?.value !== "cat" || command.words.length !== 2 || file.value.startsWith("-") || command.redirects.length > 0) return
+
+        const next = pipeline.commands[1]
+        const range = context.document.scalarRange(scalar, command.start, command.end)
+        context.addIssue({
+          title: "Useless use of cat",
+          description: `cat only passes ${file.text} through to the next command, which starts an extra process`,
+          severity: "info",
+          category: "linting",
+          ruleId: "shell-useless-cat",
+          suggestion: "Pass the file to the command as an argument or redirect it with <",
+          exampleCode: `${scalar.text.slice(next.start, next.end)} < ${file.text}`,
+          documentationUrl: `${SHELLCHECK_WIKI}/SC2002`,
+          line: range.start.line,
+          range,
+        })
+      })
+    })
+  }
+}
+
+export class ShellSyntaxRule extends BaseRule {
+  id = "shell-syntax"
+  name = "Shell Syntax"
+  description = "Reports scripts that do not parse, such as unterminated quotes or missing fi and done"
+  category = "linting"
+  severity = "error" as const
+  level = "junior" as const
+  platforms = ["all"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    this.findShellScripts(context).forEach(({ scalar, script }) => {
+      const seen = new Set<number>()
+      script.errors.forEach(({ message, offset }) => {
+        if (seen.has(offset)) return
+        seen.add(offset)
+        const start = Math.min(offset, Math.max(scalar.text.length - 1, 0))
+        const range = context.document.scalarRange(scalar, start, start + 1)
+        context.addIssue({
+          title: "Shell syntax error",
+          description: message,
+          severity: "error",
+          category: "linting",
+          ruleId: "shell-syntax",
+          suggestion: "Fix the script so the shell can parse it; a syntax error fails the step before any command runs",
+          line: range.start.line,
+          range,
+        })
+      })
+    })
+  }
+}
+
+// Visits a list and every list nested in it, including command substitutions. `condition`
+// is true for lists whose exit status is tested by if, while or until.
+function walkLists(list: ShellList, visitor: (list: ShellList, condition: boolean) => void, condition = false): void {
+  visitor(list, condition)
+  list.items.forEach(({ pipeline }) =>
+    pipeline.commands.forEach((command) => {
+      if (command.kind === "command") {
+        commandWords(command).forEach((word) =>
+          word.expansions.forEach((expansion) => {
+            if (expansion.script) walkLists(expansion.script, visitor)
+          }),
+        )
+      } else if (command.kind === "compound") {
+        command.bodies.forEach((body, index) => walkLists(body, visitor, isConditionBody(command, index)))
+      } else {
+        walkLists(command.body, visitor, condition)
+      }
+    }),
+  )
+}
+
+function forEachCommand(list: ShellList, visitor: (command: ShellSimpleCommand, pipeline: ShellPipeline) => void): void {
+  walkLists(list, (nested) =>
+    nested.items.forEach(({ pipeline }) =>
+      pipeline.commands.forEach((command) => {
+        if (command.kind === "command") visitor(command, pipeline)
+      }),
+    ),
+  )
+}
+
+// if bodies alternate condition and branch, with an optional else branch last
+function isConditionBody(command: ShellCompound, index: number): boolean {
+  if (command.keyword === "if") return index % 2 === 0 && !(command.bodies.length % 2 === 1 && index === command.bodies.length - 1)
+  return (command.keyword === "while" || command.keyword === "until") && index === 0
+}
+
+function commandWords(command: ShellSimpleCommand): ShellWord[] {
+  return [
+    ...command.words,
+    ...command.assignments.map((assignment) => assignment.value),
+    ...command.redirects.map((redirect) => redirect.target),
+  ]
+}
+
+// Words the shell splits and globs: arguments and redirection targets, but not the
+// command name, `[[ ]]` operands, assignments or heredoc delimiters
+function splitWords(command: ShellSimpleCommand): ShellWord[] {
+  const [name, ...args] = command.words
+  if (name?.value === "[[") return []
+  const declaration = DECLARATION_BUILTINS.includes(name?.value ?? "")
+  return [
+    ...args.filter((word) => !(declaration && /^[A-Za-z_]\w*=/.test(word.value))),
+    ...command.redirects.filter((redirect) => !redirect.operator.startsWith("<<")).map((redirect) => redirect.target),
+  ]
+}
+
+function isSplit(expansion: ShellExpansion, platform: string): boolean {
+  if (expansion.quoted) return false
+  // Azure Pipelines replaces `$(name)` macros before the script runs
+  if (expansion.kind === "command") return !(platform === "azure-pipelines" && /^\$\([\w.]+\)$/.test(expansion.text))
+  // Counts, exit statuses and process ids are numbers and never split
+  return expansion.kind === "parameter" && !/^\$(\{#?[#?$!]?\}|[#?$!-]|\{#\w+\})$/.test(expansion.text)
+}
+
+function isExitStatus(expansion: ShellExpansion): boolean {
+  return expansion.kind === "parameter" && (expansion.text === "$?" || expansion.text === "${?}")
+}
+
+// First simple command of a pipeline, looking into the condition of if and while
+function leadingCommand(pipeline: ShellPipeline): ShellSimpleCommand | undefined {
+  const [command] = pipeline.commands
+  if (!command) return undefined
+  if (command.kind === "command") return command
+  const body = command.kind === "compound" ? command.bodies[0] : command.body
+  return body?.items[0] ? leadingCommand(body.items[0].pipeline) : undefined
+}
+
+// Options in effect for the script: the platform's defaults plus any `set` in the script
+function shellOptions({ script, shell }: ShellScriptBlock, platform: string): Set<string> {
+  const options = new Set<string>(
+    shell === undefined
+      ? IMPLICIT_SHELL_OPTIONS[platform] ?? []
+      : (platform === "github-actions" || platform === "github-action-metadata") && GITHUB_SHELL_OPTIONS[shell]
+        ? GITHUB_SHELL_OPTIONS[shell]
+        : [],
+  )
+  // A custom shell such as `bash -eo pipefail {0}` sets options on its command line
+  if (shell !== undefined) applyOptions(options, shell.split(/\s+/).slice(1))
+  walkCommands(script.body, (command) => {
+    if (command.words[0]?.value === "set") applyOptions(options, command.words.slice(1).map((word) => word.value))
+  })
+  return options
+}
+
+// Applies `-e`, `+e`, `-o pipefail`, `-euo pipefail` and the like
+function applyOptions(options: Set<string>, args: string[]): void {
+  for (let index = 0; index < args.length; index++) {
+    const flags = args[index].match(/^([-+])([A-Za-z]+)$/)
+    if (!flags) continue
+    const update = (option: string) => (flags[1] === "-" ? options.add(option) : options.delete(option))
+    flags[2].split("").forEach((flag) => {
+      if (flag === "o" && args[index + 1] !== undefined) update(args[++index])
+      else if (SHORT_OPTIONS[flag]) update(SHORT_OPTIONS[flag])
+    })
+  }
+}
+
+function shorten(text: string): string {
+  const line = text.split("\n")[0]
+  return line.length > 60 || line !== text ? `${line.slice(0, 57)}...` : line
+}
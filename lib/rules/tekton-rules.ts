@@ -0,0 +1,211 @@
+import { BaseRule, type RuleContext } from "./base-rules"
+import type { ParsedYAML } from "../types"
+import type { YamlPath } from "../yaml-parser"
+import { isObject, toArray } from "../pipeline/builder-utils"
+import { resolveTektonTask, tektonManifests, tektonPipelines, tektonTaskSpecs } from "../pipeline/tekton"
+
+interface DeclaredWorkspace {
+  name: string
+  optional: boolean
+  path: YamlPath
+}
+
+// `$(workspaces.<name>.path)` and the other workspace variables
+const WORKSPACE_REFERENCE = /\$\(workspaces\.([A-Za-z0-9_-]+)\.(path|bound|claim|volume)\)/g
+
+const CLAIM_TEMPLATE_EXAMPLE = "      spec:\n        accessModes: [ReadWriteOnce]\n        resources:\n          requests:\n            storage: 1Gi"
+
+function declaredWorkspaces(spec: Record<string, any>, path: YamlPath): DeclaredWorkspace[] {
+  return toArray(spec.workspaces).flatMap((workspace: any, index: number) =>
+    isObject(workspace) && typeof workspace.name === "string"
+      ? [{ name: workspace.name, optional: workspace.optional === true, path: [...path, "workspaces", index] }]
+      : [],
+  )
+}
+
+function isWithin(path: YamlPath, prefix: YamlPath): boolean {
+  return prefix.length <= path.length && prefix.every((key, index) => path[index] === key)
+}
+
+export class TektonWorkspaceRule extends BaseRule {
+  id = "tekton-workspaces"
+  name = "Tekton Workspace Bindings"
+  description = "Checks that pipelines, tasks and runs declare, bind and reference the same workspaces"
+  category = "linting"
+  severity = "error" as const
+  level = "intermediate" as const
+  platforms = ["tekton"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    const pipelines = tektonPipelines(parsed)
+    pipelines.forEach((pipeline) => this.checkPipeline(pipeline.spec, pipeline.path, pipeline.name, parsed, context))
+
+    tektonTaskSpecs(parsed).forEach((task) => {
+      // Task specs embedded in a pipeline also see the pipeline's workspaces, which are propagated to them
+      const embedding = pipelines.find((pipeline) => isWithin(task.path, pipeline.path))
+      const propagated = embedding ? declaredWorkspaces(embedding.spec, embedding.path) : []
+      this.checkReferences(task.path, task.name, [...declaredWorkspaces(task.spec, task.path), ...propagated], context)
+    })
+
+    this.checkRuns(parsed, context)
+  }
+
+  private checkPipeline(spec: Record<string, any>, path: YamlPath, name: string, parsed: ParsedYAML, context: RuleContext): void {
+    const { document } = context
+    const declared = declaredWorkspaces(spec, path)
+    const used = new Set<string>()
+
+    ;["tasks", "finally"].forEach((key) =>
+      toArray(spec[key]).forEach((task: any, index: number) => {
+        if (!isObject(task) || typeof task.name !== "string") return
+        const taskPath: YamlPath = [...path, key, index]
+        const resolved = resolveTektonTask(task, taskPath, parsed)
+        const taskWorkspaces = resolved ? declaredWorkspaces(resolved.spec, resolved.path) : undefined
+        const bound = new Set<string>()
+
+        // Embedded specs can use the pipeline's workspaces without binding them
+        if (isObject(task.taskSpec)) {
+          const text = JSON.stringify(task.taskSpec)
+          Array.from(text.matchAll(WORKSPACE_REFERENCE), (match) => match[1]).forEach((workspace) => used.add(workspace))
+        }
+
+        toArray(task.workspaces).forEach((binding: any, bindingIndex: number) => {
+          if (!isObject(binding) || typeof binding.name !== "string") return
+          const bindingPath: YamlPath = [...taskPath, "workspaces", bindingIndex]
+          const workspace = typeof binding.workspace === "string" ? binding.workspace : binding.name
+          bound.add(binding.name)
+          used.add(workspace)
+
+          if (!declared.some((candidate) => candidate.name === workspace)) {
+            const range = document.getRange([...bindingPath, binding.workspace !== undefined ? "workspace" : "name"])
+            context.addIssue({
+              title: `Undeclared workspace: ${workspace}`,
+              description: `Task "${task.name}" binds workspace "${workspace}", which pipeline "${name}" does not declare, so Tekton rejects the pipeline`,
+              severity: "error",
+              category: "linting",
+              ruleId: "tekton-undeclared-workspace",
+              suggestion: `Declare "${workspace}" under the pipeline's workspaces, or bind one that is declared`,
+              exampleCode: `workspaces:\n  - name: ${workspace}`,
+              line: range?.start.line,
+              range,
+            })
+          }
+
+          if (resolved && taskWorkspaces && !taskWorkspaces.some((candidate) => candidate.name === binding.name)) {
+            const range = document.getRange([...bindingPath, "name"])
+            const taskRange = document.getRange(resolved.path)
+            const names = taskWorkspaces.map((candidate) => `"${candidate.name}"`).join(", ")
+            context.addIssue({
+              title: `Task "${task.name}" has no workspace ${binding.name}`,
+              description: `Task ${resolved.name} declares ${names || "no workspaces"}, so the binding fails validation`,
+              severity: "error",
+              category: "linting",
+              ruleId: "tekton-unknown-task-workspace",
+              suggestion: "Bind a workspace under the name the task declares it with",
+              line: range?.start.line,
+              range,
+              ...(taskRange ? { relatedLocations: [{ message: "Task defined here", range: taskRange }] } : {}),
+            })
+          }
+        })
+
+        taskWorkspaces
+          ?.filter((workspace) => !workspace.optional && !bound.has(workspace.name))
+          .forEach((workspace) => {
+            const range = document.getRange([...taskPath, "name"])
+            const declaredAt = document.getRange(workspace.path)
+            context.addIssue({
+              title: `Workspace ${workspace.name} of task "${task.name}" is not bound`,
+              description: `The task requires workspace "${workspace.name}", so its TaskRun fails before any step starts`,
+              severity: "error",
+              category: "linting",
+              ruleId: "tekton-unbound-workspace",
+              suggestion: `Bind "${workspace.name}" to one of the pipeline's workspaces, or mark it optional in the task`,
+              exampleCode: `workspaces:\n  - name: ${workspace.name}\n    workspace: ${declared[0]?.name ?? "shared-data"}`,
+              line: range?.start.line,
+              range,
+              ...(declaredAt ? { relatedLocations: [{ message: "Workspace declared here", range: declaredAt }] } : {}),
+            })
+          })
+      }),
+    )
+
+    declared
+      .filter((workspace) => !workspace.optional && !used.has(workspace.name))
+      .forEach((workspace) => {
+        const range = document.getRange([...workspace.path, "name"]) ?? document.getRange(workspace.path)
+        context.addIssue({
+          title: `Unused workspace: ${workspace.name}`,
+          description: `No task of pipeline "${name}" uses workspace "${workspace.name}", yet every PipelineRun has to provide it`,
+          severity: "warning",
+          category: "maintainability",
+          ruleId: "tekton-unused-workspace",
+          suggestion: "Remove the workspace, or bind it to the tasks that need it",
+          line: range?.start.line,
+          range,
+        })
+      })
+  }
+
+  private checkReferences(path: YamlPath, owner: string, visible: DeclaredWorkspace[], context: RuleContext): void {
+    context.document.visitScalars((scalar, scalarPath) => {
+      if (typeof scalar.value !== "string" || !isWithin(scalarPath, path)) return
+      Array.from(scalar.text.matchAll(WORKSPACE_REFERENCE)).forEach((match) => {
+        if (visible.some((workspace) => workspace.name === match[1])) return
+        const range = context.document.scalarRange(scalar, match.index!, match.index! + match[0].length)
+        context.addIssue({
+          title: `Unknown workspace in ${match[0]}`,
+          description: `"${owner}" declares no workspace named "${match[1]}", so Tekton rejects the reference`,
+          severity: "error",
+          category: "linting",
+          ruleId: "tekton-unknown-workspace-reference",
+          suggestion: `Declare "${match[1]}" under the task's workspaces`,
+          exampleCode: `workspaces:\n  - name: ${match[1]}`,
+          line: range.start.line,
+          range,
+        })
+      })
+    })
+  }
+
+  // Runs must provide every workspace the pipeline or task they run requires
+  private checkRuns(parsed: ParsedYAML, context: RuleContext): void {
+    const manifests = tektonManifests(parsed)
+    manifests
+      .filter(({ kind }) => kind === "PipelineRun" || kind === "TaskRun")
+      .forEach(({ manifest, kind, name, path }) => {
+        const run = manifest.spec
+        if (!isObject(run)) return
+        const pipelineRun = kind === "PipelineRun"
+        const embedded = pipelineRun ? "pipelineSpec" : "taskSpec"
+        const reference = pipelineRun ? run.pipelineRef : run.taskRef
+        const referencedKind = pipelineRun ? "Pipeline" : reference?.kind ?? "Task"
+        const target = isObject(run[embedded])
+          ? { spec: run[embedded], path: [...path, "spec", embedded] }
+          : manifests
+              .filter((candidate) => candidate.kind === referencedKind && candidate.name === reference?.name)
+              .map((candidate) => ({ spec: candidate.manifest.spec, path: [...candidate.path, "spec"] }))
+              .find(({ spec }) => isObject(spec))
+        if (!target) return
+        const label = name ? `${kind} ${name}` : kind
+
+        const provided = new Set(toArray(run.workspaces).map((binding: any) => binding?.name))
+        declaredWorkspaces(target.spec, target.path)
+          .filter((workspace) => !workspace.optional && !provided.has(workspace.name))
+          .forEach((workspace) => {
+            const range = context.document.getKeyRange([...path, "spec", "workspaces"]) ?? context.document.getKeyRange([...path, "spec"])
+            context.addIssue({
+              title: `${label} does not provide workspace ${workspace.name}`,
+              description: `The ${pipelineRun ? "pipeline" : "task"} requires workspace "${workspace.name}", so the run fails validation when it is created`,
+              severity: "error",
+              category: "linting",
+              ruleId: "tekton-unbound-workspace",
+              suggestion: "Provide the workspace from a volumeClaimTemplate, persistentVolumeClaim, emptyDir, secret or configMap",
+              exampleCode: `workspaces:\n  - name: ${workspace.name}\n    volumeClaimTemplate:\n${CLAIM_TEMPLATE_EXAMPLE}`,
+              line: range?.start.line,
+              range,
+            })
+          })
+      })
+  }
+}
@@ -0,0 +1,42 @@
+import { BaseRule, type RuleContext } from "./base-rules"
+import type { ParsedYAML } from "../types"
+import type { YamlPath } from "../yaml-parser"
+import { collectTravisJobs } from "../pipeline/travis-ci"
+
+export class TravisSudoRule extends BaseRule {
+  id = "travis-sudo"
+  name = "Travis CI sudo Key"
+  description = "Flags the sudo key, which Travis ignores since every job moved to virtual machines"
+  category = "maintainability"
+  severity = "warning" as const
+  level = "junior" as const
+  platforms = ["travis-ci"]
+
+  check(parsed: ParsedYAML, context: RuleContext): void {
+    // The root configuration and each job of jobs.include can set sudo
+    const entries: { own: Record<string, any>; path: YamlPath }[] = [{ own: parsed, path: [] }, ...collectTravisJobs(parsed)]
+    const seen = new Set<Record<string, any>>()
+
+    entries.forEach(({ own, path }) => {
+      if (seen.has(own) || own.sudo === undefined) return
+      seen.add(own)
+      const range = context.document.getKeyRange([...path, "sudo"])
+      const required = own.sudo === "required" || own.sudo === true || own.sudo === "enabled"
+
+      context.addIssue({
+        title: required ? "sudo: required is obsolete" : `sudo: ${own.sudo} has no effect`,
+        description: required
+          ? "Travis removed the container-based infrastructure in 2018; every job runs on a virtual machine with sudo available, so the key is ignored and suggests the configuration still relies on retired images"
+          : "Travis removed the container-based infrastructure in 2018, so sudo no longer selects it and every job can still use sudo",
+        severity: required ? "warning" : "info",
+        category: "maintainability",
+        ruleId: "travis-sudo",
+        suggestion: "Remove the sudo key and pin the build image with dist instead",
+        exampleCode: "dist: jammy",
+        fixable: true,
+        line: range?.start.line,
+        range,
+      })
+    })
+  }
+}
@@ -0,0 +1,302 @@
+import type { YamlPath } from "./yaml-parser"
+
+// Validates parsed pipelines against the JSON Schemas bundled in lib/data/schemas. Only the subset of
+// draft-07 those schemas use is supported, plus one extension: `x-keyOf` names the mapping, as a path
+// from the document root such as "/jobs", whose keys the value (or each item of it) must be.
+
+type SchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null"
+
+export interface JsonSchema {
+  $ref?: string
+  definitions?: Record<string, JsonSchema>
+  description?: string
+  type?: SchemaType | SchemaType[]
+  properties?: Record<string, JsonSchema>
+  patternProperties?: Record<string, JsonSchema>
+  additionalProperties?: boolean | JsonSchema
+  required?: string[]
+  items?: JsonSchema
+  minItems?: number
+  enum?: any[]
+  const?: any
+  pattern?: string
+  minimum?: number
+  anyOf?: JsonSchema[]
+  // Treated like anyOf: the schemas never rely on exactly one branch matching
+  oneOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  if?: JsonSchema
+  then?: JsonSchema
+  else?: JsonSchema
+  "x-keyOf"?: string
+}
+
+export interface SchemaError {
+  kind: "unknown-key" | "type" | "value" | "missing-key" | "reference"
+  // Path of the offending key or value, relative to the validated document
+  path: YamlPath
+  message: string
+  // The key a missing-key error is about
+  key?: string
+  // Closest valid key, value or name for misspellings
+  didYouMean?: string
+}
+
+// Strings the platform substitutes before reading them, e.g. "${{ matrix.os }}", "$(Build.Id)"
+// or "$TIMEOUT", which can stand for any type and value
+const DYNAMIC_VALUE = /\$(\{\{|\{|\(|\[|[A-Za-z_])/
+
+const isDynamic = (value: any): boolean => typeof value === "string" && DYNAMIC_VALUE.test(value)
+
+export function validateSchema(value: any, schema: JsonSchema): SchemaError[] {
+  const errors: SchemaError[] = []
+  new SchemaValidator(schema, value).validate(value, schema, [], errors)
+  // Alternatives can report the same problem twice
+  const seen = new Set<string>()
+  return errors.filter((error) => {
+    const key = `${error.kind}:${JSON.stringify(error.path)}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+// Closest candidate within a few edits, ignoring case and the `-`/`_` spelling of separators
+export function closestMatch(word: string, candidates: string[]): string | undefined {
+  const normalize = (text: string) => text.toLowerCase().replace(/[-_\s]/g, "")
+  const target = normalize(word)
+  const same = candidates.find((candidate) => candidate !== word && normalize(candidate) === target)
+  if (same) return same
+
+  const limit = target.length <= 4 ? 1 : target.length <= 8 ? 2 : 3
+  let best: string | undefined
+  let bestDistance = limit + 1
+  candidates.forEach((candidate) => {
+    const distance = editDistance(target, normalize(candidate))
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  })
+  return best
+}
+
+// Levenshtein distance that counts swapping two adjacent letters as one edit, as in "biuld"
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  )
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+function typeOf(value: any): SchemaType {
+  if (value === null || value === undefined) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number"
+  return typeof value as SchemaType
+}
+
+function matchesType(value: any, type: SchemaType | SchemaType[]): boolean {
+  const actual = typeOf(value)
+  return toTypes(type).some((expected) => expected === actual || (expected === "number" && actual === "integer"))
+}
+
+const toTypes = (type: SchemaType | SchemaType[]): SchemaType[] => (Array.isArray(type) ? type : [type])
+
+// Types a schema accepts, counting those of its enum values; undefined when it accepts any
+function acceptedTypes(schema: JsonSchema): SchemaType[] | undefined {
+  if (schema.type !== undefined) return toTypes(schema.type)
+  const allowed = schema.const !== undefined ? [schema.const] : schema.enum
+  return allowed ? [...new Set(allowed.map(typeOf))] : undefined
+}
+
+// "a mapping", "a list or a string"
+function describeTypes(types: SchemaType[]): string {
+  const names: Record<SchemaType, string> = {
+    string: "a string",
+    number: "a number",
+    integer: "a whole number",
+    boolean: "true or false",
+    object: "a mapping",
+    array: "a list",
+    null: "empty",
+  }
+  const described = [...new Set(types.map((type) => names[type]))]
+  return described.length > 1 ? `${described.slice(0, -1).join(", ")} or ${described[described.length - 1]}` : described[0]
+}
+
+// "jobs.build.steps[2]"
+export function formatSchemaPath(path: YamlPath): string {
+  if (path.length === 0) return "the document root"
+  return path.reduce<string>((text, key) => (typeof key === "number" ? `${text}[${key}]` : text ? `${text}.${key}` : key), "")
+}
+
+class SchemaValidator {
+  constructor(
+    private root: JsonSchema,
+    private document: any,
+  ) {}
+
+  validate(value: any, schema: JsonSchema, path: YamlPath, errors: SchemaError[]): void {
+    schema = this.resolve(schema)
+
+    if (schema.type !== undefined && !matchesType(value, schema.type)) {
+      if (isDynamic(value)) return
+      errors.push({ kind: "type", path, message: `${formatSchemaPath(path)} must be ${describeTypes(toTypes(schema.type))}` })
+      return
+    }
+
+    const allowed = schema.const !== undefined ? [schema.const] : schema.enum
+    if (allowed && !allowed.includes(value) && !isDynamic(value)) {
+      const names = allowed.filter((option) => typeof option === "string")
+      errors.push({
+        kind: "value",
+        path,
+        message: `${formatSchemaPath(path)} must be one of ${allowed.map((option) => JSON.stringify(option)).join(", ")}`,
+        didYouMean: typeof value === "string" ? closestMatch(value, names) : undefined,
+      })
+    }
+
+    if (schema.pattern !== undefined && typeof value === "string" && !isDynamic(value) && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ kind: "value", path, message: `${formatSchemaPath(path)} does not match ${schema.pattern}` })
+    }
+    if (schema.minimum !== undefined && typeof value === "number" && value < schema.minimum) {
+      errors.push({ kind: "value", path, message: `${formatSchemaPath(path)} must be at least ${schema.minimum}` })
+    }
+    if (schema.minItems !== undefined && Array.isArray(value) && value.length < schema.minItems) {
+      const items = schema.minItems === 1 ? "an item" : `${schema.minItems} items`
+      errors.push({ kind: "value", path, message: `${formatSchemaPath(path)} needs at least ${items}` })
+    }
+
+    if (typeOf(value) === "object") this.validateObject(value, schema, path, errors)
+    if (Array.isArray(value) && schema.items) {
+      value.forEach((item, index) => this.validate(item, schema.items!, [...path, index], errors))
+    }
+    if (schema["x-keyOf"] !== undefined) this.validateReferences(value, schema["x-keyOf"], path, errors)
+
+    schema.allOf?.forEach((branch) => this.validate(value, branch, path, errors))
+    if (schema.if) {
+      const next = this.check(value, schema.if, path).length === 0 ? schema.then : schema.else
+      if (next) this.validate(value, next, path, errors)
+    }
+    const alternatives = schema.anyOf ?? schema.oneOf
+    if (alternatives) this.validateAlternatives(value, alternatives, path, errors)
+  }
+
+  private validateObject(value: Record<string, any>, schema: JsonSchema, path: YamlPath, errors: SchemaError[]): void {
+    const properties = schema.properties ?? {}
+    const known = Object.keys(properties)
+
+    schema.required?.forEach((key) => {
+      if (!(key in value)) errors.push({ kind: "missing-key", path, key, message: `${formatSchemaPath(path)} needs "${key}"` })
+    })
+
+    Object.entries(value).forEach(([key, item]) => {
+      const keyPath = [...path, key]
+      if (key in properties) {
+        this.validate(item, properties[key], keyPath, errors)
+        return
+      }
+      // Template expressions can insert keys, e.g. Azure's "${{ if eq(...) }}:"
+      if (isDynamic(key)) return
+
+      const patterns = Object.entries(schema.patternProperties ?? {}).filter(([pattern]) => new RegExp(pattern).test(key))
+      if (patterns.length > 0) {
+        patterns.forEach(([, pattern]) => this.validate(item, pattern, keyPath, errors))
+        return
+      }
+
+      const additional = schema.additionalProperties
+      const didYouMean = closestMatch(key, known)
+      if (additional === false) {
+        errors.push({ kind: "unknown-key", path: keyPath, message: `"${key}" is not a valid key of ${formatSchemaPath(path)}`, didYouMean })
+        return
+      }
+      if (typeof additional !== "object") return
+
+      // A key that resembles a known one and is not valid as an entry of its own, like GitLab's
+      // "stage:" at the top level, is most likely a misspelling
+      const nested = this.check(item, additional, keyPath)
+      if (nested.length > 0 && didYouMean) {
+        errors.push({ kind: "unknown-key", path: keyPath, message: `"${key}" is not a valid key of ${formatSchemaPath(path)}`, didYouMean })
+        return
+      }
+      errors.push(...nested)
+    })
+  }
+
+  private validateReferences(value: any, pointer: string, path: YamlPath, errors: SchemaError[]): void {
+    const target = pointer
+      .split("/")
+      .filter((part) => part !== "")
+      .reduce((node: any, key) => (node && typeof node === "object" ? node[key] : undefined), this.document)
+    if (typeOf(target) !== "object") return
+    const names = Object.keys(target)
+    const where = pointer.replace(/^\//, "").replace(/\//g, ".")
+
+    const check = (name: any, namePath: YamlPath) => {
+      if (typeof name !== "string" || isDynamic(name) || names.includes(name)) return
+      const didYouMean = closestMatch(name, names)
+      errors.push({ kind: "reference", path: namePath, message: `"${name}" is not defined in ${where}`, didYouMean })
+    }
+    if (Array.isArray(value)) value.forEach((name, index) => check(name, [...path, index]))
+    else check(value, path)
+  }
+
+  // When no alternative matches, report the problems of the closest one: among those accepting the
+  // value's type, the one with the fewest errors
+  private validateAlternatives(value: any, alternatives: JsonSchema[], path: YamlPath, errors: SchemaError[]): void {
+    const results = alternatives.map((branch) => ({ branch: this.resolve(branch), errors: this.check(value, branch, path) }))
+    if (results.some((result) => result.errors.length === 0)) return
+
+    const candidates = results.filter(({ branch }) => {
+      const types = acceptedTypes(branch)
+      return types === undefined || matchesType(value, types)
+    })
+    if (candidates.length === 0) {
+      if (isDynamic(value)) return
+      const types = results.flatMap(({ branch }) => acceptedTypes(branch) ?? [])
+      errors.push({ kind: "type", path, message: `${formatSchemaPath(path)} must be ${describeTypes(types)}` })
+      return
+    }
+
+    // Alternatives that differ only in the key they require, e.g. a step needs `run` or `uses`
+    const missing = candidates.flatMap((candidate) => candidate.errors)
+    if (missing.every((error) => error.kind === "missing-key" && error.path.length === path.length)) {
+      const keys = [...new Set(missing.map((error) => error.key))]
+      const names = keys.map((key) => `"${key}"`).join(", ")
+      errors.push({ kind: "missing-key", path, message: `${formatSchemaPath(path)} needs one of ${names}` })
+      return
+    }
+
+    const closest = candidates.reduce((best, candidate) => (candidate.errors.length < best.errors.length ? candidate : best))
+    errors.push(...closest.errors)
+  }
+
+  private check(value: any, schema: JsonSchema, path: YamlPath): SchemaError[] {
+    const errors: SchemaError[] = []
+    this.validate(value, schema, path, errors)
+    return errors
+  }
+
+  private resolve(schema: JsonSchema): JsonSchema {
+    let resolved = schema
+    // Only local references into `definitions` are bundled
+    while (resolved.$ref !== undefined) {
+      const name = resolved.$ref.replace(/^#\/definitions\//, "")
+      const target = this.root.definitions?.[name]
+      if (!target) throw new Error(`Unknown schema reference: ${resolved.$ref}`)
+      resolved = { ...target, ...Object.fromEntries(Object.entries(resolved).filter(([key]) => key !== "$ref")) }
+    }
+    return resolved
+  }
+}
@@ -0,0 +1,258 @@
+// Resolves the commands a shell script actually runs: strips wrappers such as `sudo` and
+// `env`, follows commands stored in variables, and descends into `sh -c` strings, heredocs
+// fed to a shell, and command substitutions. Rules match on the resolved invocations.
+
+import {
+  parseShell,
+  walkCommands,
+  type ShellList,
+  type ShellPipeline,
+  type ShellSimpleCommand,
+  type ShellWord,
+} from "./shell-parser"
+
+export interface ShellInvocation {
+  // Command name without its directory, e.g. "curl" for `/usr/bin/curl`
+  name: string
+  args: ShellWord[]
+  // Wrappers the command was run through, e.g. ["sudo"]
+  wrappers: string[]
+  command: ShellSimpleCommand
+  // Commands earlier in the same pipeline, whose output this one reads
+  upstream: ShellInvocation[]
+  // How the command was reached when it is not written out directly
+  via?: "variable" | "shell" | "heredoc" | "substitution"
+  start: number
+  end: number
+}
+
+export const SHELL_INTERPRETERS = ["sh", "bash", "zsh", "dash", "ksh", "ash"]
+export const SCRIPT_INTERPRETERS = [...SHELL_INTERPRETERS, "python", "python2", "python3", "ruby", "perl", "node", "php"]
+export const DOWNLOADERS = ["curl", "wget"]
+
+// Options of `sudo`, `env`, `nice` and `timeout` that take a separate value
+const WRAPPER_OPTIONS_WITH_VALUES: Record<string, string[]> = {
+  sudo: ["-u", "-g", "-C", "-D", "-h", "-p", "-r", "-t", "-U"],
+  doas: ["-u", "-C"],
+  env: ["-u", "-C", "-S"],
+  nice: ["-n"],
+  timeout: ["-s", "-k", "--signal", "--kill-after"],
+}
+const WRAPPERS = ["sudo", "doas", "env", "nohup", "exec", "command", "builtin", "time", "nice", "timeout"]
+
+export function collectInvocations(script: string | ShellList, offset = 0): ShellInvocation[] {
+  const body = typeof script === "string" ? parseShell(script, offset).body : script
+  return new InvocationCollector(variableValues(body)).collect(body)
+}
+
+// Literal values assigned anywhere in the script, for commands run through `$VAR`
+function variableValues(body: ShellList): Map<string, string> {
+  const values = new Map<string, string>()
+  walkCommands(body, (command) => {
+    const exported = ["export", "readonly", "local", "declare"].includes(command.words[0]?.value ?? "")
+    if (command.words.length > 0 && !exported) return
+    command.assignments.forEach(({ name, value }) => {
+      if (value.expansions.length === 0) values.set(name, value.value)
+    })
+    command.words.slice(1).forEach((word) => {
+      const assignment = word.value.match(/^([A-Za-z_]\w*)=([\s\S]*)$/)
+      if (assignment && word.expansions.length === 0) values.set(assignment[1], assignment[2])
+    })
+  })
+  return values
+}
+
+class InvocationCollector {
+  constructor(private variables: Map<string, string>) {}
+
+  collect(list: ShellList, via?: ShellInvocation["via"]): ShellInvocation[] {
+    const invocations: ShellInvocation[] = []
+    list.items.forEach(({ pipeline }) => invocations.push(...this.collectPipeline(pipeline, via)))
+    return invocations
+  }
+
+  private collectPipeline(pipeline: ShellPipeline, via?: ShellInvocation["via"]): ShellInvocation[] {
+    const invocations: ShellInvocation[] = []
+    const upstream: ShellInvocation[] = []
+
+    pipeline.commands.forEach((node) => {
+      if (node.kind !== "command") {
+        const bodies = node.kind === "compound" ? node.bodies : [node.body]
+        const nested = bodies.flatMap((body) => this.collect(body, via))
+        invocations.push(...nested)
+        upstream.push(...nested)
+        return
+      }
+
+      const invocation = this.resolve(node, via)
+      if (invocation) {
+        invocation.upstream = [...upstream]
+        invocations.push(invocation, ...this.nestedScripts(invocation))
+        upstream.push(invocation)
+      }
+      invocations.push(...this.substitutions(node))
+    })
+    return invocations
+  }
+
+  private resolve(command: ShellSimpleCommand, via?: ShellInvocation["via"]): ShellInvocation | undefined {
+    let words = [...command.words]
+    if (words.length === 0) return undefined
+
+    // `$CMD args` where CMD was assigned a literal command line
+    const reference = words[0].text.match(/^"?\$\{?([A-Za-z_]\w*)\}?"?$/)
+    const stored = reference ? this.variables.get(reference[1]) : undefined
+    if (stored !== undefined) {
+      const parts = stored.trim().split(/\s+/).filter(Boolean)
+      words = [...parts.map((part) => pseudoWord(part, words[0])), ...words.slice(1)]
+      via = via ?? "variable"
+    }
+
+    const wrappers: string[] = []
+    while (words.length > 1 && WRAPPERS.includes(commandName(words[0].value))) {
+      const wrapper = commandName(words[0].value)
+      const withValues = WRAPPER_OPTIONS_WITH_VALUES[wrapper] ?? []
+      let index = 1
+      while (index < words.length && (words[index].value.startsWith("-") || (wrapper === "env" && /^\w+=/.test(words[index].value)))) {
+        // `command -v curl` looks a command up without running it
+        if (wrapper === "command" && /^-[vV]$/.test(words[index].value)) return undefined
+        index += withValues.includes(words[index].value) ? 2 : 1
+      }
+      // `timeout 10m command`
+      if (wrapper === "timeout" && index < words.length && /^\d/.test(words[index].value)) index++
+      // A wrapper with nothing to run is the command itself, e.g. a bare `env`
+      if (index >= words.length) break
+      wrappers.push(wrapper)
+      words = words.slice(index)
+    }
+    // Commands named by a substitution or an unknown variable cannot be resolved
+    if (words[0].expansions.length > 0 && stored === undefined) return undefined
+
+    return {
+      name: commandName(words[0].value),
+      args: words.slice(1),
+      wrappers,
+      command,
+      upstream: [],
+      via,
+      start: command.start,
+      end: command.end,
+    }
+  }
+
+  // Scripts handed to a shell with `-c` or through a heredoc
+  private nestedScripts(invocation: ShellInvocation): ShellInvocation[] {
+    if (!SHELL_INTERPRETERS.includes(invocation.name) && invocation.name !== "ssh") return []
+    const nested: ShellInvocation[] = []
+
+    const flag = invocation.args.findIndex((arg) => /^-\w*c\w*$/.test(arg.value) && !arg.quoted)
+    const code = flag !== -1 && invocation.name !== "ssh" ? invocation.args[flag + 1] : undefined
+    // Substitutions inside the code are collected with the outer command already
+    if (code && !code.expansions.some((expansion) => expansion.script)) {
+      // Quoted text without escapes maps one-to-one onto the source
+      const exact = code.text.length === code.value.length + 2 && /^['"]/.test(code.text)
+      nested.push(...this.collectNested(code.value, exact ? code.start + 1 : code.start, "shell", exact ? undefined : code))
+    }
+
+    // A heredoc on the shell itself or on a `cat` piped into it
+    const feeders = [invocation, ...invocation.upstream.filter((candidate) => candidate.name === "cat")]
+    feeders.forEach((feeder) =>
+      feeder.command.redirects.forEach(({ heredoc }) => {
+        if (heredoc) nested.push(...this.collectNested(heredoc.body, heredoc.start, "heredoc"))
+      }),
+    )
+    return nested
+  }
+
+  private collectNested(source: string, offset: number, via: ShellInvocation["via"], clampTo?: ShellWord): ShellInvocation[] {
+    const invocations = this.collect(parseShell(source, offset).body, via)
+    // Positions inside a string with escapes are approximate, so report the whole word
+    if (clampTo) invocations.forEach((invocation) => Object.assign(invocation, { start: clampTo.start, end: clampTo.end }))
+    return invocations
+  }
+
+  private substitutions(command: ShellSimpleCommand): ShellInvocation[] {
+    const words = [
+      ...command.words,
+      ...command.assignments.map((assignment) => assignment.value),
+      ...command.redirects.map((redirect) => redirect.target),
+    ]
+    return words.flatMap((word) =>
+      word.expansions.flatMap((expansion) => (expansion.script ? this.collect(expansion.script, "substitution") : [])),
+    )
+  }
+}
+
+function pseudoWord(value: string, source: ShellWord): ShellWord {
+  return { text: value, value, start: source.start, end: source.end, quoted: false, expansions: [] }
+}
+
+function commandName(value: string): string {
+  return value.slice(value.lastIndexOf("/") + 1)
+}
+
+export function argValues(invocation: ShellInvocation): string[] {
+  return invocation.args.map((arg) => arg.value)
+}
+
+// Arguments that are not options; everything after `--` counts
+export function operands(invocation: ShellInvocation): ShellWord[] {
+  const separator = invocation.args.findIndex((arg) => arg.value === "--")
+  if (separator !== -1) {
+    return [...invocation.args.slice(0, separator).filter((arg) => !arg.value.startsWith("-")), ...invocation.args.slice(separator + 1)]
+  }
+  return invocation.args.filter((arg) => !arg.value.startsWith("-") || arg.value === "-")
+}
+
+// True for `-r`, combined short flags such as `-rf`, or the long form `--recursive`
+export function hasOption(invocation: ShellInvocation, short: string, long?: string): boolean {
+  return invocation.args.some(({ value }) => {
+    if (value === "--") return false
+    if (long && (value === `--${long}` || value.startsWith(`--${long}=`))) return true
+    return /^-[A-Za-z]+$/.test(value) && value.slice(1).includes(short)
+  })
+}
+
+// Download command whose output the invocation runs as a script, e.g. `curl ... | bash`,
+// `bash <(curl ...)` or `sh -c "$(curl ...)"`
+export function remoteScriptSource(invocation: ShellInvocation): ShellInvocation | undefined {
+  if (!SCRIPT_INTERPRETERS.includes(invocation.name)) return undefined
+  const piped = invocation.upstream.find((candidate) => DOWNLOADERS.includes(candidate.name))
+  if (piped) return piped
+  return invocation.args
+    .flatMap((arg) => arg.expansions)
+    .filter((expansion) => expansion.script)
+    .flatMap((expansion) => collectInvocations(expansion.script!))
+    .find((candidate) => DOWNLOADERS.includes(candidate.name))
+}
+
+// Operands of `rm -rf` that reach outside the workspace: absolute paths, the home
+// directory, parent directories or everything
+export function recursiveDeleteTargets(invocation: ShellInvocation): ShellWord[] {
+  const recursive = hasOption(invocation, "r", "recursive") || hasOption(invocation, "R")
+  if (invocation.name !== "rm" || !recursive || !hasOption(invocation, "f", "force")) return []
+  return operands(invocation).filter(({ value }) => /^(\/|~|\$\{?HOME\b|\.\.(\/|$)|\*$)/.test(value))
+}
+
+export function chmodMode(invocation: ShellInvocation): string | undefined {
+  return invocation.name === "chmod" ? operands(invocation)[0]?.value : undefined
+}
+
+export function isPrivilegedContainer(invocation: ShellInvocation): boolean {
+  if (!["docker", "podman", "nerdctl"].includes(invocation.name)) return false
+  const [first, second] = operands(invocation).map((operand) => operand.value)
+  const runs = ["run", "create"].includes(first) || (first === "container" && ["run", "create"].includes(second))
+  return runs && argValues(invocation).some((value) => value === "--privileged" || value === "--privileged=true")
+}
+
+// `env` and `printenv` without arguments print every variable, secrets included
+export function isEnvironmentDump(invocation: ShellInvocation): boolean {
+  const values = argValues(invocation)
+  if (invocation.name === "printenv" || invocation.name === "env") return values.length === 0
+  return invocation.name === "export" && values.length === 1 && values[0] === "-p"
+}
+
+// Commands continued over several lines read better on one
+export function normalizeCommandText(text: string): string {
+  return text.replace(/\s*\\\n\s*/g, " ").trim()
+}
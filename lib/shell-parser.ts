@@ -0,0 +1,762 @@
+// POSIX/bash script parser for the bodies of `run:`, `script:` and similar keys.
+// Produces lists, pipelines, simple and compound commands, redirections and heredocs,
+// and parses `$(...)`, backticks and `<(...)` recursively. Every node keeps its offsets
+// in the source text. Parsing never throws: problems are collected in `errors` and the
+// parser skips ahead, because CI scripts are often fragments or templated.
+
+export interface ShellSyntaxIssue {
+  message: string
+  offset: number
+}
+
+export interface ShellScript {
+  body: ShellList
+  errors: ShellSyntaxIssue[]
+}
+
+export interface ShellExpansion {
+  // `template` is a `${{ }}` CI expression substituted before the shell runs
+  kind: "parameter" | "command" | "process" | "arithmetic" | "template"
+  text: string
+  start: number
+  end: number
+  // Parsed body of command and process substitutions
+  script?: ShellList
+  // Inside double quotes, where the result is not split into words
+  quoted?: boolean
+}
+
+export interface ShellWord {
+  // Source text, quotes included
+  text: string
+  // Text with quotes and escapes removed; expansions are kept as written
+  value: string
+  start: number
+  end: number
+  quoted: boolean
+  expansions: ShellExpansion[]
+}
+
+export interface ShellHeredoc {
+  delimiter: string
+  body: string
+  // A quoted delimiter (`<<'EOF'`) turns off expansion in the body
+  quoted: boolean
+  start: number
+  end: number
+}
+
+export interface ShellRedirect {
+  operator: string
+  fd?: number
+  target: ShellWord
+  heredoc?: ShellHeredoc
+  start: number
+  end: number
+}
+
+export interface ShellAssignment {
+  name: string
+  value: ShellWord
+  start: number
+  end: number
+}
+
+interface ShellNodeBase {
+  start: number
+  end: number
+}
+
+export interface ShellSimpleCommand extends ShellNodeBase {
+  kind: "command"
+  assignments: ShellAssignment[]
+  words: ShellWord[]
+  redirects: ShellRedirect[]
+}
+
+export interface ShellSubshell extends ShellNodeBase {
+  kind: "subshell" | "group"
+  body: ShellList
+  redirects: ShellRedirect[]
+}
+
+export interface ShellCompound extends ShellNodeBase {
+  kind: "compound"
+  keyword: "if" | "while" | "until" | "for" | "select" | "case" | "function"
+  // Header words: the loop variable and list, the case subject, the function name
+  words: ShellWord[]
+  // Conditions and bodies in source order
+  bodies: ShellList[]
+  redirects: ShellRedirect[]
+}
+
+export type ShellCommandNode = ShellSimpleCommand | ShellSubshell | ShellCompound
+
+export interface ShellPipeline extends ShellNodeBase {
+  kind: "pipeline"
+  negated: boolean
+  commands: ShellCommandNode[]
+}
+
+export interface ShellList extends ShellNodeBase {
+  kind: "list"
+  // `operator` is what follows the pipeline: `&&`, `||`, `;`, `&` or a newline
+  items: { pipeline: ShellPipeline; operator?: string }[]
+}
+
+type Token =
+  | { type: "word"; word: ShellWord; heredoc?: ShellHeredoc; start: number; end: number }
+  | { type: "operator"; value: string; fd?: number; start: number; end: number }
+  | { type: "newline"; start: number; end: number }
+  | { type: "eof"; start: number; end: number }
+
+const OPERATORS = [
+  "&>>", ";;&", "<<<", "<<-", "&&", "||", ";;", ";&", "|&", "<<", "<>", "<&", ">&", ">>", ">|", "&>",
+  ";", "&", "|", "(", ")", "<", ">",
+]
+const REDIRECT_OPERATORS = ["&>>", "<<<", "<<-", "<<", "<>", "<&", ">&", ">>", ">|", "&>", "<", ">"]
+const CASE_TERMINATORS = [";;", ";&", ";;&"]
+const LIST_OPERATORS = ["&&", "||", ";", "&"]
+const METACHARACTERS = " \t\r\n;&|<>()"
+
+export function parseShell(source: string, offset = 0): ShellScript {
+  const errors: ShellSyntaxIssue[] = []
+  const tokens = new ShellLexer(source, offset, errors).tokenize()
+  const body = new ShellParser(tokens, errors).parseScript()
+  return { body, errors }
+}
+
+class ShellLexer {
+  private pos = 0
+  private tokens: Token[] = []
+  private pendingHeredocs: { token: Extract<Token, { type: "word" }>; strip: boolean }[] = []
+  private expectDelimiter: boolean | undefined
+
+  constructor(
+    private source: string,
+    private offset: number,
+    private errors: ShellSyntaxIssue[],
+  ) {}
+
+  tokenize(): Token[] {
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos]
+      if (char === " " || char === "\t" || char === "\r") {
+        this.pos++
+      } else if (char === "\\" && this.source[this.pos + 1] === "\n") {
+        // Line continuation
+        this.pos += 2
+      } else if (char === "#") {
+        while (this.pos < this.source.length && this.source[this.pos] !== "\n") this.pos++
+      } else if (char === "\n") {
+        this.tokens.push({ type: "newline", start: this.at(this.pos), end: this.at(this.pos + 1) })
+        this.pos++
+        this.readHeredocBodies()
+      } else if (this.source.startsWith("((", this.pos)) {
+        // Arithmetic command `(( i++ ))`
+        const end = this.findClosing(this.pos + 1, "(", ")")
+        const close = this.source.startsWith("))", end - 1) ? end + 1 : end
+        this.pushWord(this.pos, close, [{ kind: "arithmetic", text: this.source.slice(this.pos, close), start: this.at(this.pos), end: this.at(close) }])
+        this.pos = close
+      } else if ((char === "<" || char === ">") && this.source[this.pos + 1] === "(") {
+        this.readWord()
+      } else if (/\d/.test(char) && /^\d+[<>]/.test(this.source.slice(this.pos, this.pos + 8))) {
+        const digits = this.source.slice(this.pos).match(/^\d+/)![0]
+        this.pos += digits.length
+        this.readOperator(Number(digits))
+      } else if (METACHARACTERS.includes(char)) {
+        this.readOperator()
+      } else {
+        this.readWord()
+      }
+    }
+    if (this.pendingHeredocs.length > 0) this.readHeredocBodies()
+    this.tokens.push({ type: "eof", start: this.at(this.source.length), end: this.at(this.source.length) })
+    return this.tokens
+  }
+
+  private at(index: number): number {
+    return this.offset + index
+  }
+
+  private readOperator(fd?: number): void {
+    const operator = OPERATORS.find((candidate) => this.source.startsWith(candidate, this.pos))!
+    const start = fd !== undefined ? this.pos - String(fd).length : this.pos
+    this.tokens.push({ type: "operator", value: operator, fd, start: this.at(start), end: this.at(this.pos + operator.length) })
+    this.pos += operator.length
+    if (operator === "<<" || operator === "<<-") this.expectDelimiter = operator === "<<-"
+  }
+
+  private pushWord(start: number, end: number, expansions: ShellExpansion[], value?: string, quoted = false): void {
+    const text = this.source.slice(start, end)
+    const token = {
+      type: "word" as const,
+      word: { text, value: value ?? text, start: this.at(start), end: this.at(end), quoted, expansions },
+      start: this.at(start),
+      end: this.at(end),
+    }
+    this.tokens.push(token)
+    if (this.expectDelimiter !== undefined) {
+      this.pendingHeredocs.push({ token, strip: this.expectDelimiter })
+      this.expectDelimiter = undefined
+    }
+  }
+
+  private readWord(): void {
+    const start = this.pos
+    const expansions: ShellExpansion[] = []
+    let value = ""
+    let quoted = false
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos]
+      const next = this.source[this.pos + 1]
+
+      if ((char === "<" || char === ">") && next === "(" && this.pos === start) {
+        const end = this.findClosing(this.pos + 1, "(", ")")
+        expansions.push(this.substitution("process", this.pos, end, this.pos + 2, end - 1))
+        value += this.source.slice(this.pos, end)
+        this.pos = end
+      } else if (METACHARACTERS.includes(char)) {
+        // `name=(a b c)` array assignments keep their parentheses
+        if (char === "(" && /^[A-Za-z_]\w*\+?=$/.test(this.source.slice(start, this.pos))) {
+          const end = this.findClosing(this.pos, "(", ")")
+          value += this.source.slice(this.pos, end)
+          this.pos = end
+          continue
+        }
+        break
+      } else if (char === "\\") {
+        if (next !== "\n") value += next ?? ""
+        this.pos += 2
+      } else if (char === "'") {
+        const end = this.source.indexOf("'", this.pos + 1)
+        if (end === -1) this.errors.push({ message: "Unterminated single-quoted string", offset: this.at(this.pos) })
+        const close = end === -1 ? this.source.length : end
+        value += this.source.slice(this.pos + 1, close)
+        quoted = true
+        this.pos = close + 1
+      } else if (char === '"') {
+        quoted = true
+        value += this.readDoubleQuoted(expansions)
+      } else if (char === "$" || char === "`") {
+        value += this.readExpansion(expansions)
+      } else {
+        value += char
+        this.pos++
+      }
+    }
+    this.pushWord(start, Math.min(this.pos, this.source.length), expansions, value, quoted)
+  }
+
+  private readDoubleQuoted(expansions: ShellExpansion[]): string {
+    const open = this.pos
+    let value = ""
+    this.pos++
+    while (this.pos < this.source.length && this.source[this.pos] !== '"') {
+      const char = this.source[this.pos]
+      if (char === "\\") {
+        const next = this.source[this.pos + 1] ?? ""
+        // Inside double quotes a backslash only escapes these characters
+        value += "$`\"\\\n".includes(next) ? (next === "\n" ? "" : next) : char + next
+        this.pos += 2
+      } else if (char === "$" || char === "`") {
+        const first = expansions.length
+        value += this.readExpansion(expansions)
+        expansions.slice(first).forEach((expansion) => (expansion.quoted = true))
+      } else {
+        value += char
+        this.pos++
+      }
+    }
+    if (this.pos >= this.source.length) this.errors.push({ message: "Unterminated double-quoted string", offset: this.at(open) })
+    this.pos++
+    return value
+  }
+
+  // Reads `$name`, `${...}`, `$(...)`, `$((...))`, `$'...'` or a backtick substitution and
+  // returns its text for the word's value
+  private readExpansion(expansions: ShellExpansion[]): string {
+    const start = this.pos
+    const rest = this.source.slice(this.pos)
+
+    if (rest[0] === "`") {
+      let end = this.pos + 1
+      while (end < this.source.length && this.source[end] !== "`") end += this.source[end] === "\\" ? 2 : 1
+      if (end >= this.source.length) this.errors.push({ message: "Unterminated backtick substitution", offset: this.at(start) })
+      expansions.push(this.substitution("command", start, Math.min(end + 1, this.source.length), start + 1, Math.min(end, this.source.length)))
+      this.pos = Math.min(end + 1, this.source.length)
+    } else if (rest.startsWith("$((")) {
+      const end = this.findClosing(this.pos + 1, "(", ")")
+      expansions.push({ kind: "arithmetic", text: this.source.slice(start, end), start: this.at(start), end: this.at(end) })
+      this.pos = end
+    } else if (rest.startsWith("$(")) {
+      const end = this.findClosing(this.pos + 1, "(", ")")
+      expansions.push(this.substitution("command", start, end, start + 2, end - 1))
+      this.pos = end
+    } else if (rest.startsWith("${")) {
+      const end = this.findClosing(this.pos + 1, "{", "}")
+      const kind = rest.startsWith("${{") ? "template" : "parameter"
+      expansions.push({ kind, text: this.source.slice(start, end), start: this.at(start), end: this.at(end) })
+      this.pos = end
+    } else if (rest.startsWith("$'")) {
+      let end = this.pos + 2
+      while (end < this.source.length && this.source[end] !== "'") end += this.source[end] === "\\" ? 2 : 1
+      this.pos = Math.min(end + 1, this.source.length)
+      return this.source.slice(start + 2, end)
+    } else {
+      const name = rest.match(/^\$([A-Za-z_]\w*|[0-9@*#?$!-])/)
+      if (!name) {
+        this.pos++
+        return "$"
+      }
+      expansions.push({ kind: "parameter", text: name[0], start: this.at(start), end: this.at(start + name[0].length) })
+      this.pos += name[0].length
+    }
+    return this.source.slice(start, this.pos)
+  }
+
+  private substitution(kind: "command" | "process", start: number, end: number, bodyStart: number, bodyEnd: number): ShellExpansion {
+    const nested = new ShellLexer(this.source.slice(bodyStart, Math.max(bodyStart, bodyEnd)), this.at(bodyStart), this.errors).tokenize()
+    return {
+      kind,
+      text: this.source.slice(start, end),
+      start: this.at(start),
+      end: this.at(end),
+      script: new ShellParser(nested, this.errors).parseScript(),
+    }
+  }
+
+  // Index just past the bracket matching the one at `open`, skipping quoted text
+  private findClosing(open: number, opening: string, closing: string): number {
+    let depth = 0
+    let index = open
+    while (index < this.source.length) {
+      const char = this.source[index]
+      if (char === "\\") {
+        index += 2
+        continue
+      }
+      if (char === "'" && opening === "(") {
+        const end = this.source.indexOf("'", index + 1)
+        index = end === -1 ? this.source.length : end + 1
+        continue
+      }
+      if (char === '"') {
+        index++
+        while (index < this.source.length && this.source[index] !== '"') index += this.source[index] === "\\" ? 2 : 1
+        index++
+        continue
+      }
+      if (char === opening) depth++
+      if (char === closing && --depth === 0) return index + 1
+      index++
+    }
+    this.errors.push({ message: `Missing closing "${closing}"`, offset: this.at(open) })
+    return this.source.length
+  }
+
+  private readHeredocBodies(): void {
+    this.pendingHeredocs.forEach(({ token, strip }) => {
+      const delimiter = token.word.value
+      const start = this.pos
+      let end = start
+      let found = false
+      while (this.pos < this.source.length) {
+        const lineEnd = this.source.indexOf("\n", this.pos)
+        const line = this.source.slice(this.pos, lineEnd === -1 ? this.source.length : lineEnd)
+        const next = lineEnd === -1 ? this.source.length : lineEnd + 1
+        if ((strip ? line.replace(/^\t+/, "") : line).trimEnd() === delimiter) {
+          end = this.pos
+          this.pos = next
+          found = true
+          break
+        }
+        this.pos = next
+      }
+      if (!found) {
+        end = this.source.length
+        this.errors.push({ message: `Heredoc is not terminated by "${delimiter}"`, offset: token.start })
+      }
+      token.heredoc = {
+        delimiter,
+        body: this.source.slice(start, end),
+        quoted: token.word.quoted,
+        start: this.at(start),
+        end: this.at(end),
+      }
+    })
+    this.pendingHeredocs = []
+  }
+}
+
+class ShellParser {
+  private index = 0
+
+  constructor(
+    private tokens: Token[],
+    private errors: ShellSyntaxIssue[],
+  ) {}
+
+  parseScript(): ShellList {
+    const list = this.parseList([])
+    while (this.peek().type !== "eof") {
+      const token = this.next()
+      this.errors.push({ message: `Unexpected "${this.tokenText(token)}"`, offset: token.start })
+      list.items.push(...this.parseList([]).items)
+    }
+    return list
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]
+    if (token.type !== "eof") this.index++
+    return token
+  }
+
+  private previousEnd(): number {
+    return this.index > 0 ? this.tokens[this.index - 1].end : this.tokens[0].start
+  }
+
+  private tokenText(token: Token): string {
+    return token.type === "word" ? token.word.text : token.type === "operator" ? token.value : token.type
+  }
+
+  private isWord(token: Token, text: string): boolean {
+    return token.type === "word" && !token.word.quoted && token.word.text === text
+  }
+
+  private isOperator(token: Token, values: string[]): token is Extract<Token, { type: "operator" }> {
+    return token.type === "operator" && values.includes(token.value)
+  }
+
+  private skipNewlines(): void {
+    while (this.peek().type === "newline") this.next()
+  }
+
+  private expectWord(text: string): void {
+    if (this.isWord(this.peek(), text)) {
+      this.next()
+    } else {
+      this.errors.push({ message: `Expected "${text}"`, offset: this.peek().start })
+    }
+  }
+
+  private isListEnd(token: Token, terminators: string[]): boolean {
+    if (token.type === "eof") return true
+    if (this.isOperator(token, [")", ...CASE_TERMINATORS])) return true
+    return token.type === "word" && !token.word.quoted && terminators.includes(token.word.text)
+  }
+
+  private parseList(terminators: string[]): ShellList {
+    const start = this.peek().start
+    const items: ShellList["items"] = []
+
+    while (true) {
+      while (this.peek().type === "newline" || this.isOperator(this.peek(), [";"])) this.next()
+      if (this.isListEnd(this.peek(), terminators)) break
+
+      const before = this.index
+      const pipeline = this.parsePipeline()
+      if (!pipeline) {
+        if (this.index === before) {
+          const token = this.next()
+          this.errors.push({ message: `Unexpected "${this.tokenText(token)}"`, offset: token.start })
+        }
+        continue
+      }
+
+      const token = this.peek()
+      if (this.isOperator(token, LIST_OPERATORS) || token.type === "newline") {
+        this.next()
+        items.push({ pipeline, operator: token.type === "newline" ? "\n" : (token as { value: string }).value })
+      } else {
+        items.push({ pipeline })
+      }
+    }
+    return { kind: "list", items, start, end: Math.max(start, this.previousEnd()) }
+  }
+
+  private parsePipeline(): ShellPipeline | null {
+    const start = this.peek().start
+    const negated = this.isWord(this.peek(), "!")
+    if (negated) this.next()
+
+    const commands: ShellCommandNode[] = []
+    const first = this.parseCommand()
+    if (!first) return null
+    commands.push(first)
+    while (this.isOperator(this.peek(), ["|", "|&"])) {
+      this.next()
+      this.skipNewlines()
+      const command = this.parseCommand()
+      if (!command) {
+        this.errors.push({ message: "Missing command after pipe", offset: this.peek().start })
+        break
+      }
+      commands.push(command)
+    }
+    return { kind: "pipeline", negated, commands, start, end: this.previousEnd() }
+  }
+
+  private parseCommand(): ShellCommandNode | null {
+    const token = this.peek()
+    const start = token.start
+
+    if (this.isOperator(token, ["("])) {
+      this.next()
+      const body = this.parseList([])
+      if (this.isOperator(this.peek(), [")"])) this.next()
+      else this.errors.push({ message: 'Expected ")"', offset: this.peek().start })
+      return { kind: "subshell", body, redirects: this.parseRedirects(), start, end: this.previousEnd() }
+    }
+
+    if (token.type === "word" && !token.word.quoted) {
+      switch (token.word.text) {
+        case "{": {
+          this.next()
+          const body = this.parseList(["}"])
+          this.expectWord("}")
+          return { kind: "group", body, redirects: this.parseRedirects(), start, end: this.previousEnd() }
+        }
+        case "if":
+          return this.parseIf()
+        case "while":
+        case "until":
+          return this.parseLoop(token.word.text)
+        case "for":
+        case "select":
+          return this.parseFor(token.word.text)
+        case "case":
+          return this.parseCase()
+        case "function":
+          return this.parseFunction()
+        case "then":
+        case "elif":
+        case "else":
+        case "fi":
+        case "do":
+        case "done":
+        case "esac":
+        case "}":
+          return null
+      }
+    }
+
+    if (token.type === "word" || this.isOperator(token, REDIRECT_OPERATORS)) return this.parseSimpleCommand()
+    return null
+  }
+
+  private parseSimpleCommand(): ShellCommandNode {
+    const start = this.peek().start
+    const assignments: ShellAssignment[] = []
+    const words: ShellWord[] = []
+    const redirects: ShellRedirect[] = []
+
+    while (true) {
+      const token = this.peek()
+      if (this.isOperator(token, REDIRECT_OPERATORS)) {
+        redirects.push(...this.parseRedirects())
+      } else if (token.type === "word") {
+        this.next()
+        const assignment = words.length === 0 ? token.word.text.match(/^([A-Za-z_]\w*)(\[[^\]]*\])?\+?=/) : null
+        if (assignment) {
+          const offset = assignment[0].length
+          assignments.push({
+            name: assignment[1],
+            value: {
+              ...token.word,
+              text: token.word.text.slice(offset),
+              value: token.word.value.slice(offset),
+              start: token.word.start + offset,
+            },
+            start: token.start,
+            end: token.end,
+          })
+        } else {
+          words.push(token.word)
+          // `[[ ... ]]` may contain `<`, `>`, `&&` and `||` as plain operands
+          if (words.length === 1 && token.word.text === "[[") this.readTestExpression(words)
+        }
+      } else {
+        break
+      }
+
+      // `name() { ...; }` function definitions
+      if (words.length === 1 && assignments.length === 0 && this.isOperator(this.peek(), ["("]) && this.isOperator(this.tokens[this.index + 1], [")"])) {
+        this.index += 2
+        this.skipNewlines()
+        const body = this.parseCommand()
+        return {
+          kind: "compound",
+          keyword: "function",
+          words,
+          bodies: body ? [this.wrap(body)] : [],
+          redirects: [],
+          start,
+          end: this.previousEnd(),
+        }
+      }
+    }
+    return { kind: "command", assignments, words, redirects, start, end: this.previousEnd() }
+  }
+
+  private readTestExpression(words: ShellWord[]): void {
+    while (this.peek().type !== "eof" && this.peek().type !== "newline") {
+      const token = this.next()
+      const word: ShellWord =
+        token.type === "word"
+          ? token.word
+          : { text: this.tokenText(token), value: this.tokenText(token), start: token.start, end: token.end, quoted: false, expansions: [] }
+      words.push(word)
+      if (token.type === "word" && token.word.text === "]]") return
+    }
+    this.errors.push({ message: 'Expected "]]"', offset: this.peek().start })
+  }
+
+  private parseRedirects(): ShellRedirect[] {
+    const redirects: ShellRedirect[] = []
+    while (this.isOperator(this.peek(), REDIRECT_OPERATORS)) {
+      const operator = this.next() as Extract<Token, { type: "operator" }>
+      const target = this.peek()
+      if (target.type !== "word") {
+        this.errors.push({ message: `Missing target for "${operator.value}"`, offset: target.start })
+        break
+      }
+      this.next()
+      redirects.push({
+        operator: operator.value,
+        fd: operator.fd,
+        target: target.word,
+        heredoc: target.heredoc,
+        start: operator.start,
+        end: target.end,
+      })
+    }
+    return redirects
+  }
+
+  private wrap(command: ShellCommandNode): ShellList {
+    const pipeline: ShellPipeline = { kind: "pipeline", negated: false, commands: [command], start: command.start, end: command.end }
+    return { kind: "list", items: [{ pipeline }], start: command.start, end: command.end }
+  }
+
+  private compound(
+    keyword: ShellCompound["keyword"],
+    start: number,
+    words: ShellWord[],
+    bodies: ShellList[],
+  ): ShellCompound {
+    return { kind: "compound", keyword, words, bodies, redirects: this.parseRedirects(), start, end: this.previousEnd() }
+  }
+
+  private parseIf(): ShellCompound {
+    const start = this.next().start
+    const bodies = [this.parseList(["then"])]
+    this.expectWord("then")
+    bodies.push(this.parseList(["elif", "else", "fi"]))
+    while (this.isWord(this.peek(), "elif")) {
+      this.next()
+      bodies.push(this.parseList(["then"]))
+      this.expectWord("then")
+      bodies.push(this.parseList(["elif", "else", "fi"]))
+    }
+    if (this.isWord(this.peek(), "else")) {
+      this.next()
+      bodies.push(this.parseList(["fi"]))
+    }
+    this.expectWord("fi")
+    return this.compound("if", start, [], bodies)
+  }
+
+  private parseLoop(keyword: "while" | "until"): ShellCompound {
+    const start = this.next().start
+    const condition = this.parseList(["do"])
+    this.expectWord("do")
+    const body = this.parseList(["done"])
+    this.expectWord("done")
+    return this.compound(keyword, start, [], [condition, body])
+  }
+
+  private parseFor(keyword: "for" | "select"): ShellCompound {
+    const start = this.next().start
+    const words: ShellWord[] = []
+    const header = this.peek()
+    if (header.type === "word") {
+      words.push(header.word)
+      this.next()
+    }
+    this.skipNewlines()
+    if (this.isWord(this.peek(), "in")) {
+      this.next()
+      while (this.peek().type === "word") words.push((this.next() as Extract<Token, { type: "word" }>).word)
+    }
+    while (this.peek().type === "newline" || this.isOperator(this.peek(), [";"])) this.next()
+    this.expectWord("do")
+    const body = this.parseList(["done"])
+    this.expectWord("done")
+    return this.compound(keyword, start, words, [body])
+  }
+
+  private parseCase(): ShellCompound {
+    const start = this.next().start
+    const words: ShellWord[] = []
+    const subject = this.peek()
+    if (subject.type === "word") {
+      words.push(subject.word)
+      this.next()
+    }
+    this.skipNewlines()
+    this.expectWord("in")
+
+    const bodies: ShellList[] = []
+    while (true) {
+      this.skipNewlines()
+      const token = this.peek()
+      if (token.type === "eof" || this.isWord(token, "esac")) break
+      if (this.isOperator(token, ["("])) this.next()
+      // Patterns up to the closing parenthesis
+      while (this.peek().type === "word" || this.isOperator(this.peek(), ["|"])) this.next()
+      if (this.isOperator(this.peek(), [")"])) {
+        this.next()
+      } else {
+        this.errors.push({ message: 'Expected ")" after case pattern', offset: this.peek().start })
+        break
+      }
+      bodies.push(this.parseList(["esac"]))
+      if (this.isOperator(this.peek(), CASE_TERMINATORS)) this.next()
+    }
+    this.expectWord("esac")
+    return this.compound("case", start, words, bodies)
+  }
+
+  private parseFunction(): ShellCompound {
+    const start = this.next().start
+    const words: ShellWord[] = []
+    const name = this.peek()
+    if (name.type === "word") {
+      words.push(name.word)
+      this.next()
+    }
+    if (this.isOperator(this.peek(), ["("]) && this.isOperator(this.tokens[this.index + 1], [")"])) this.index += 2
+    this.skipNewlines()
+    const body = this.parseCommand()
+    return { kind: "compound", keyword: "function", words, bodies: body ? [this.wrap(body)] : [], redirects: [], start, end: this.previousEnd() }
+  }
+}
+
+// Visits every simple command, including those inside compound commands and subshells.
+// Substitutions are not entered; their scripts are on the word's expansions.
+export function walkCommands(list: ShellList, visitor: (command: ShellSimpleCommand, pipeline: ShellPipeline) => void): void {
+  list.items.forEach(({ pipeline }) => {
+    pipeline.commands.forEach((command) => {
+      if (command.kind === "command") visitor(command, pipeline)
+      else if (command.kind === "compound") command.bodies.forEach((body) => walkCommands(body, visitor))
+      else walkCommands(command.body, visitor)
+    })
+  })
+}
@@ -1,10 +1,160 @@
 export interface AnalysisConfig {
+  // Platform to analyze the file as; "auto" or none detects it
+  platform?: string
+  // With "ask", files whose two best platform candidates score too close to call are not
+  // analyzed; the result lists the candidates so the caller can choose one and set `platform`.
+  // Defaults to "best", which analyzes as the best candidate.
+  ambiguousPlatform?: "best" | "ask"
   enableSecurityAnalysis?: boolean
   enablePerformanceAnalysis?: boolean
   enableCostAnalysis?: boolean
   maxFileSize?: number
   strictMode?: boolean
   customRules?: CustomRule[]
+  actionPinning?: ActionPinningConfig
+  // Replaces the bundled lib/data/advisories.json
+  advisoryFeed?: AdvisoryFeed
+  imagePolicy?: ImagePolicyConfig
+  // Supplies other files of the repository: GitLab `include:` targets and the reusable
+  // workflows and actions GitHub jobs use. Without one, those files are not analyzed.
+  includeProvider?: IncludeProvider
+  // Source of the CircleCI orbs a configuration imports. Without one, orb commands, executors
+  // and jobs are not expanded.
+  orbSource?: OrbSource
+  // Event the GitLab dependency graph is drawn for; defaults to a push to the default branch
+  pipelineContext?: GitLabPipelineContext
+  // Contents of a .reviewci.yml, or the configuration it holds. Without one, the .reviewci.yml
+  // of the includeProvider is used when it has one.
+  projectConfig?: string | ProjectConfig
+}
+
+// Project-level rule configuration, usually kept in .reviewci.yml at the repository root
+export interface ProjectConfig {
+  // Bundled presets such as "reviewci:strict", or repository paths of shared configurations;
+  // later entries and the configuration itself take precedence
+  extends?: string | string[]
+  // Keyed by a rule's id, which covers every issue and vulnerability it reports, or by the
+  // ruleId of one finding
+  rules?: Record<string, RuleSetting>
+  // Rules for files matching a glob such as ".github/workflows/release-*.yml"
+  overrides?: ProjectConfigOverride[]
+}
+
+// `off` or false disables a rule, `on` or true enables it, a severity re-grades its issues
+export type RuleSetting = boolean | "on" | "off" | IssueSeverity | RuleSettingObject
+
+export interface RuleSettingObject {
+  enabled?: boolean
+  severity?: IssueSeverity
+  // Rule-specific, e.g. `trustedDomains` of dangerous-commands or `patterns` of hardcoded-secrets
+  options?: Record<string, any>
+}
+
+export interface ProjectConfigOverride {
+  files: string | string[]
+  rules: Record<string, RuleSetting>
+}
+
+export interface ActionPinningConfig {
+  // Require full 40-character commit SHAs for actions outside the trusted owners
+  requireShaPins?: boolean
+  // Owners whose actions may be referenced by tag; first-party `actions/*` is always trusted
+  trustedOwners?: string[]
+  // Replaces the bundled lib/data/action-refs.json
+  refDatabase?: ActionRefDatabase
+}
+
+// Offline map of `owner/repo@tag` to the commit SHA the tag points at
+export interface ActionRefDatabase {
+  version: number
+  updated?: string
+  refs: Record<string, string>
+}
+
+export interface ImagePolicyConfig {
+  // Registries images may be pulled from; `*.example.com` also matches sub-domains
+  trustedRegistries?: string[]
+  // Report images without an `@sha256:` digest as warnings rather than info
+  requireDigests?: boolean
+  // Replaces the bundled lib/data/runtime-eol.json
+  eolTable?: RuntimeEolTable
+}
+
+// End-of-life dates per release cycle of common runtime and base images
+export interface RuntimeEolTable {
+  updated?: string
+  runtimes: Record<string, { images: string[]; cycles: Record<string, string> }>
+}
+
+// Local vulnerability feed in the OSV format used by GitHub Security Advisories
+export interface AdvisoryFeed {
+  updated?: string
+  advisories: Advisory[]
+}
+
+export type AdvisoryEcosystem = "GitHub Actions" | "Docker" | "Bitbucket Pipes" | "CircleCI Orbs"
+
+export interface Advisory {
+  id: string
+  aliases?: string[]
+  summary: string
+  details?: string
+  // CVSS vectors; a bare number is taken as the base score
+  severity?: { type: string; score: string }[]
+  affected: AdvisoryAffected[]
+  references?: { type: string; url: string }[]
+  database_specific?: { severity?: string; cvss_score?: number }
+}
+
+export interface AdvisoryAffected {
+  package: { ecosystem: AdvisoryEcosystem; name: string }
+  // Events are ordered: `introduced` opens an affected span, `fixed` or `last_affected` closes it
+  ranges?: { type: string; events: { introduced?: string; fixed?: string; last_affected?: string }[] }[]
+  versions?: string[]
+}
+
+export type IncludeKind = "local" | "project" | "remote" | "template" | "component"
+
+export interface IncludeRequest {
+  kind: IncludeKind
+  // Repository path for local and project includes, the URL, template or component otherwise
+  location: string
+  project?: string
+  ref?: string
+}
+
+export interface IncludeProvider {
+  supports(kind: IncludeKind): boolean
+  // Contents of the requested file, or undefined when it does not exist
+  read(request: IncludeRequest): Promise<string | undefined>
+  // Paths available for wildcard local includes such as `configs/*.yml`
+  list?(request: IncludeRequest): Promise<string[]>
+}
+
+// Published CircleCI orbs available offline, e.g. saved with `circleci orb source`
+export interface OrbSource {
+  // Versions of `namespace/orb` the source has; empty when the orb is unknown
+  versions(name: string): Promise<string[]>
+  // Source of one version of the orb, or undefined when it is not available
+  read(name: string, version: string): Promise<string | undefined>
+}
+
+// Event a GitLab pipeline is created for, as seen by `rules:`, `only:` and `except:`
+export interface GitLabPipelineContext {
+  // CI_PIPELINE_SOURCE, e.g. "push", "merge_request_event", "schedule" or "web"
+  source: string
+  branch?: string
+  tag?: string
+  mergeRequest?: {
+    sourceBranch: string
+    targetBranch: string
+    labels?: string[]
+  }
+  // Files changed by the push or merge request; `changes:` matches anything when omitted
+  changedFiles?: string[]
+  // Variables set for the pipeline, e.g. by a schedule or a manual run
+  variables?: Record<string, string>
+  defaultBranch?: string
 }
 
 export interface CustomRule {
@@ -26,6 +176,26 @@ export type IssueCategory =
   | "best-practice"
   | "syntax"
   | "structure"
+
+export interface SourcePosition {
+  line: number
+  column: number
+  offset: number
+}
+
+export interface SourceRange {
+  start: SourcePosition
+  end: SourcePosition
+  // Set when the range lies in an included file rather than the analyzed one
+  file?: string
+}
+
+// Secondary location for a finding, e.g. the anchor a reused block was defined with
+export interface RelatedLocation {
+  message: string
+  range: SourceRange
+}
+
 export type OptimizationImpact = "high" | "medium" | "low"
 export type OptimizationEffort = "high" | "medium" | "low"
 export type RecommendationPriority = "high" | "medium" | "low"
@@ -43,7 +213,11 @@ export interface Issue {
   impact?: string
   line?: number
   lineNumbers?: number[]
+  range?: SourceRange
+  relatedLocations?: RelatedLocation[]
   documentationUrl?: string
+  // Included file the finding is in; unset for the analyzed file
+  file?: string
 }
 
 export interface Optimization {
@@ -63,8 +237,15 @@ export interface SecurityVulnerability {
   severity: "critical" | "high" | "medium" | "low"
   recommendation: string
   line?: number
+  range?: SourceRange
+  relatedLocations?: RelatedLocation[]
   cve?: string
   cvssScore?: number
+  advisoryId?: string
+  fixedVersions?: string[]
+  file?: string
+  // Rule or check that reported it, for the project configuration's settings
+  ruleId?: string
 }
 
 export interface SecurityReport {
@@ -130,10 +311,22 @@ export interface Recommendation {
   category: IssueCategory
 }
 
+export interface PlatformCandidate {
+  platform: string
+  confidence: number
+  // Signals that matched, e.g. "gitlab-filename" or "azure-stages"
+  evidence: string[]
+}
+
 export interface PlatformDetectionResult {
   platform: string
   confidence: number
+  // Evidence for the detected platform
   indicators: string[]
+  // Every platform with evidence, best first
+  candidates?: PlatformCandidate[]
+  // The runner-up scored nearly as high as the detected platform
+  ambiguous?: boolean
 }
 
 export interface AnalysisResult {
@@ -146,6 +339,8 @@ export interface AnalysisResult {
   recommendations: Recommendation[]
   dependencyGraph: string
   metrics: Metrics
+  // Other files analyzed with this one: GitLab includes, reusable workflows and actions
+  includedFiles?: string[]
   analysisTime?: number
   configUsed?: AnalysisConfig
   platformDetection?: PlatformDetectionResult
@@ -7,9 +7,12 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 // New utility function for robust YAML parsing
+// Streams of several documents (Kubernetes manifests) become a list of the non-empty ones,
+// matching YamlParser
 export function parseYAML(content: string): any {
   try {
-    return yaml.load(content)
+    const documents = yaml.loadAll(content).filter((document: unknown) => document !== null && document !== undefined)
+    return documents.length <= 1 ? (documents[0] ?? null) : documents
   } catch (error: any) {
     // Re-throw with more context if it's a YAML parsing error
     if (error.name === "YAMLException") {
@@ -1,4 +1,5 @@
 import type { AnalysisConfig } from "./types"
+import { isJenkinsfile } from "./jenkinsfile"
 
 export interface ValidationResult {
   isValid: boolean
@@ -21,22 +22,30 @@ export function validateFile(file: File, config: AnalysisConfig): ValidationResu
   const allowedExtensions = [".yml", ".yaml"]
   const fileExtension = file.name.toLowerCase().substring(file.name.lastIndexOf("."))
 
-  if (!allowedExtensions.includes(fileExtension)) {
+  // Jenkinsfiles are Groovy and usually have no extension at all
+  if (!allowedExtensions.includes(fileExtension) && !isJenkinsfile("", file.name)) {
     return {
       isValid: false,
-      error: `Invalid file type. Please upload YAML files (${allowedExtensions.join(", ")})`,
+      error: `Invalid file type. Please upload YAML files (${allowedExtensions.join(", ")}) or a Jenkinsfile`,
     }
   }
 
   // Check for common CI/CD file patterns
   const cicdPatterns = [
     /\.github\/workflows\//,
+    /(^|\/)action\.ya?ml$/,
     /\.gitlab-ci\.yml$/,
     /bitbucket-pipelines\.yml$/,
     /azure-pipelines\.yml$/,
     /\.circleci\/config\.yml$/,
     /Jenkinsfile/,
     /pipeline\.yml$/,
+    /\.drone\.yml$/,
+    /\.woodpecker(\.yml$|\/)/,
+    /\.travis\.yml$/,
+    /buildspec[^/]*\.ya?ml$/,
+    /cloudbuild[^/]*\.ya?ml$/,
+    /\.tekton\//,
   ]
 
   const matchesPattern = cicdPatterns.some((pattern) => pattern.test(file.name))
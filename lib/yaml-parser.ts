@@ -1,109 +1,1218 @@
-// Simple YAML parser implementation to replace js-yaml
-export class SimpleYamlParser {
+import type { RelatedLocation, SourcePosition, SourceRange } from "./types"
+
+// YAML document model that keeps a source range for every node.
+// Supports block and flow collections, quoted/plain/block scalars, comments,
+// anchors, aliases, merge keys, tags and multi-document streams, which is the subset CI/CD
+// configurations use.
+
+export type YamlScalarValue = string | number | boolean | null
+export type YamlScalarStyle = "plain" | "single-quoted" | "double-quoted" | "literal" | "folded"
+export type YamlPath = Array<string | number>
+
+interface YamlNodeBase {
+  range: SourceRange
+  anchor?: string
+  anchorRange?: SourceRange
+  tag?: string
+}
+
+// Maps an offset in the scalar's text back to an offset in the source.
+// Characters after a segment start advance one-to-one until the next segment.
+export interface ScalarSegment {
+  textOffset: number
+  sourceOffset: number
+}
+
+export interface YamlScalar extends YamlNodeBase {
+  kind: "scalar"
+  value: YamlScalarValue
+  text: string
+  style: YamlScalarStyle
+  segments: ScalarSegment[]
+}
+
+export interface YamlPair {
+  key: YamlNode
+  value: YamlNode | null
+  range: SourceRange
+}
+
+export interface YamlMap extends YamlNodeBase {
+  kind: "map"
+  items: YamlPair[]
+  flow: boolean
+}
+
+export interface YamlSeq extends YamlNodeBase {
+  kind: "seq"
+  items: YamlNode[]
+  flow: boolean
+}
+
+export interface YamlAlias extends YamlNodeBase {
+  kind: "alias"
+  name: string
+  target: YamlNode
+}
+
+export type YamlNode = YamlScalar | YamlMap | YamlSeq | YamlAlias
+
+export class YamlSyntaxError extends Error {
+  mark: { line: number; column: number }
+
+  constructor(message: string, mark: { line: number; column: number }) {
+    super(`${message} at line ${mark.line}, column ${mark.column}`)
+    this.name = "YamlSyntaxError"
+    this.mark = mark
+  }
+}
+
+export class YamlDocument {
+  readonly source: string
+  readonly contents: YamlNode | null
+  // Path of an included file; ranges in the document carry it
+  readonly file?: string
+  readonly aliases: YamlAlias[] = []
+  private lineStarts: number[]
+  private anchoredNodes: YamlNode[] = []
+  // Documents whose nodes were merged into this one, by file
+  private included = new Map<string, YamlDocument>()
+
+  constructor(source: string, contents: YamlNode | null, file?: string) {
+    this.source = source
+    this.contents = contents
+    this.file = file
+    this.lineStarts = computeLineStarts(source)
+    this.collectAnchors(contents)
+  }
+
+  // Registers a document whose nodes appear in this one, so positions inside them resolve
+  // against their own source
+  include(document: YamlDocument): void {
+    if (document.file !== undefined) this.included.set(document.file, document)
+    document.included.forEach((nested) => this.include(nested))
+  }
+
+  get includedFiles(): string[] {
+    return [...this.included.keys()]
+  }
+
+  positionAt(offset: number): SourcePosition {
+    const clamped = Math.max(0, Math.min(offset, this.source.length))
+    let low = 0
+    let high = this.lineStarts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (this.lineStarts[mid] <= clamped) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+    return { line: low + 1, column: clamped - this.lineStarts[low] + 1, offset: clamped }
+  }
+
+  rangeAt(startOffset: number, endOffset: number): SourceRange {
+    const range: SourceRange = { start: this.positionAt(startOffset), end: this.positionAt(endOffset) }
+    if (this.file !== undefined) range.file = this.file
+    return range
+  }
+
+  // Range of a span on a 1-based source line, e.g. for regex matches against raw lines
+  rangeOnLine(line: number, startColumn: number, endColumn: number): SourceRange {
+    const lineStart = this.lineStarts[Math.max(0, Math.min(line - 1, this.lineStarts.length - 1))]
+    return this.rangeAt(lineStart + startColumn - 1, lineStart + endColumn - 1)
+  }
+
+  // Aliases along the path are followed, and map lookups fall back to merged (`<<`) entries.
+  // The final node is returned as written, so an alias stays an alias.
+  getNode(path: YamlPath): YamlNode | undefined {
+    let current: YamlNode | null | undefined = this.contents
+    for (const segment of path) {
+      if (!current) return undefined
+      const resolved = resolveAlias(current)
+      if (resolved.kind === "map") {
+        current = findPair(resolved, String(segment))?.value
+      } else if (resolved.kind === "seq" && typeof segment === "number") {
+        current = resolved.items[segment]
+      } else {
+        return undefined
+      }
+    }
+    return current ?? undefined
+  }
+
+  getPair(path: YamlPath): YamlPair | undefined {
+    if (path.length === 0) return undefined
+    const parent = this.getNode(path.slice(0, -1))
+    if (!parent) return undefined
+    const resolved = resolveAlias(parent)
+    if (resolved.kind !== "map") return undefined
+    return findPair(resolved, String(path[path.length - 1]))
+  }
+
+  // Range of the value at `path`, falling back to its key when the value is empty
+  getRange(path: YamlPath): SourceRange | undefined {
+    if (path.length === 0) return this.contents?.range
+    const node = this.getNode(path)
+    if (node) return node.range
+    return this.getPair(path)?.key.range
+  }
+
+  getKeyRange(path: YamlPath): SourceRange | undefined {
+    return this.getPair(path)?.key.range ?? this.getRange(path)
+  }
+
+  scalarRange(scalar: YamlScalar, startIndex: number, endIndex: number): SourceRange {
+    const owner = (scalar.range.file !== undefined && this.included.get(scalar.range.file)) || this
+    return owner.rangeAt(scalarSourceOffset(scalar, startIndex), scalarSourceOffset(scalar, Math.max(startIndex, endIndex - 1)) + 1)
+  }
+
+  visitScalars(visitor: (scalar: YamlScalar, path: YamlPath) => void): void {
+    const walk = (node: YamlNode | null, path: YamlPath) => {
+      if (!node) return
+      if (node.kind === "scalar") {
+        visitor(node, path)
+      } else if (node.kind === "map") {
+        node.items.forEach((pair) => walk(pair.value, [...path, nodeKey(pair.key)]))
+      } else if (node.kind === "seq") {
+        node.items.forEach((item, index) => walk(item, [...path, index]))
+      }
+    }
+    walk(this.contents, [])
+  }
+
+  // Anchor definitions enclosing `range` that are reused elsewhere, followed by each use site
+  anchorReferences(range: SourceRange): RelatedLocation[] {
+    const locations: RelatedLocation[] = []
+    const offset = range.start.offset
+    this.anchoredNodes.forEach((node) => {
+      if (node.range.file !== range.file) return
+      if (offset < node.range.start.offset || offset >= node.range.end.offset) return
+      const uses = this.aliases.filter((alias) => alias.target === node)
+      if (uses.length === 0) return
+      locations.push({ message: `Anchor &${node.anchor} is defined here`, range: node.anchorRange ?? node.range })
+      uses.forEach((alias) => {
+        locations.push({ message: `Reused here via *${alias.name}`, range: alias.range })
+      })
+    })
+    return locations
+  }
+
+  toJS(): any {
+    return nodeToJS(this.contents)
+  }
+
+  private collectAnchors(node: YamlNode | null): void {
+    if (!node) return
+    if (node.anchor !== undefined) this.anchoredNodes.push(node)
+    if (node.kind === "alias") {
+      this.aliases.push(node)
+    } else if (node.kind === "map") {
+      node.items.forEach((pair) => {
+        this.collectAnchors(pair.key)
+        this.collectAnchors(pair.value)
+      })
+    } else if (node.kind === "seq") {
+      node.items.forEach((item) => this.collectAnchors(item))
+    }
+  }
+}
+
+export function nodeKey(node: YamlNode): string {
+  if (node.kind === "scalar") return node.text
+  if (node.kind === "alias") return `*${node.name}`
+  return JSON.stringify(nodeToJS(node))
+}
+
+export function resolveAlias(node: YamlNode): YamlNode {
+  let current = node
+  const seen = new Set<YamlNode>()
+  while (current.kind === "alias" && !seen.has(current)) {
+    seen.add(current)
+    current = current.target
+  }
+  return current
+}
+
+export function isMergeKey(node: YamlNode): boolean {
+  return node.kind === "scalar" && node.style === "plain" && node.text === "<<"
+}
+
+// Maps merged into `map` through `<<`, in precedence order
+export function mergeSources(map: YamlMap): YamlMap[] {
+  const sources: YamlMap[] = []
+  map.items.forEach((pair) => {
+    if (!isMergeKey(pair.key) || !pair.value) return
+    const value = resolveAlias(pair.value)
+    const candidates = value.kind === "seq" ? value.items.map((item) => resolveAlias(item)) : [value]
+    candidates.forEach((candidate) => {
+      if (candidate.kind === "map") sources.push(candidate)
+    })
+  })
+  return sources
+}
+
+// Explicit keys take precedence over merged ones regardless of their order in the map
+export function findPair(map: YamlMap, key: string, visiting = new Set<YamlMap>()): YamlPair | undefined {
+  const explicit = map.items.find((pair) => !isMergeKey(pair.key) && nodeKey(pair.key) === key)
+  if (explicit || visiting.has(map)) return explicit
+  visiting.add(map)
+  for (const source of mergeSources(map)) {
+    const merged = findPair(source, key, visiting)
+    if (merged) return merged
+  }
+  return undefined
+}
+
+export function nodeToJS(node: YamlNode | null, resolving = new Set<YamlNode>()): any {
+  if (!node) return null
+  // Recursive aliases have no finite plain representation
+  if (resolving.has(node)) return null
+  switch (node.kind) {
+    case "scalar":
+      return node.tag === "!!str" ? node.text : node.value
+    case "alias": {
+      resolving.add(node)
+      const value = nodeToJS(node.target, resolving)
+      resolving.delete(node)
+      return value
+    }
+    case "seq": {
+      resolving.add(node)
+      const items = node.items.map((item) => nodeToJS(item, resolving))
+      resolving.delete(node)
+      return items
+    }
+    case "map": {
+      resolving.add(node)
+      const explicitKeys = new Set(node.items.filter((pair) => !isMergeKey(pair.key)).map((pair) => nodeKey(pair.key)))
+      const result: Record<string, any> = {}
+      node.items.forEach((pair) => {
+        if (!isMergeKey(pair.key)) {
+          result[nodeKey(pair.key)] = nodeToJS(pair.value, resolving)
+          return
+        }
+        // Merged entries never override explicit keys or earlier merges
+        mergeSources({ ...node, items: [pair] }).forEach((source) => {
+          const values = nodeToJS(source, resolving)
+          if (!values || typeof values !== "object") return
+          Object.keys(values).forEach((key) => {
+            if (!explicitKeys.has(key) && !(key in result)) result[key] = values[key]
+          })
+        })
+      })
+      resolving.delete(node)
+      return result
+    }
+  }
+}
+
+export function scalarSourceOffset(scalar: YamlScalar, textOffset: number): number {
+  let segment = scalar.segments[0]
+  for (const candidate of scalar.segments) {
+    if (candidate.textOffset > textOffset) break
+    segment = candidate
+  }
+  if (!segment) return scalar.range.start.offset
+  return segment.sourceOffset + (textOffset - segment.textOffset)
+}
+
+// The scalar with each match of the global `pattern` replaced by the node `lookup` returns for
+// it, or undefined when nothing is replaced; matches `lookup` returns undefined for stay as
+// written. A scalar that is a single reference becomes the node itself, so lists and mappings
+// can be passed; otherwise scalar values are spliced into the text, keeping source positions.
+export function substituteScalar(
+  scalar: YamlScalar,
+  pattern: RegExp,
+  lookup: (match: RegExpMatchArray) => YamlNode | null | undefined,
+): YamlNode | undefined {
+  if (typeof scalar.value !== "string") return undefined
+  const matches = Array.from(scalar.text.matchAll(pattern))
+    .map((match) => ({ match, value: lookup(match) }))
+    .filter(({ value }) => value !== undefined)
+  if (matches.length === 0) return undefined
+
+  const [first] = matches
+  if (matches.length === 1 && first.match[0] === scalar.text.trim()) return first.value ?? { ...scalar, value: null, text: "" }
+
+  // Keep the source position of the text around each reference
+  let text = ""
+  const segments: ScalarSegment[] = []
+  let cursor = 0
+  const keep = (end: number) => {
+    segments.push({ textOffset: text.length, sourceOffset: scalarSourceOffset(scalar, cursor) })
+    scalar.segments
+      .filter((segment) => segment.textOffset > cursor && segment.textOffset < end)
+      .forEach((segment) => segments.push({ textOffset: text.length + segment.textOffset - cursor, sourceOffset: segment.sourceOffset }))
+    text += scalar.text.slice(cursor, end)
+  }
+  matches.forEach(({ match, value }) => {
+    keep(match.index!)
+    const resolved = value ? resolveAlias(value) : undefined
+    segments.push({ textOffset: text.length, sourceOffset: scalarSourceOffset(scalar, match.index!) })
+    text += resolved?.kind === "scalar" ? resolved.text : ""
+    cursor = match.index! + match[0].length
+  })
+  keep(scalar.text.length)
+  return { ...scalar, value: text, text, segments }
+}
+
+function computeLineStarts(source: string): number[] {
+  const starts = [0]
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "\n") starts.push(i + 1)
+  }
+  return starts
+}
+
+type BlockContext = "root" | "value" | "entry"
+
+interface NodeProperties {
+  anchor?: string
+  anchorStart?: number
+  tag?: string
+  start: number
+}
+
+const FLOW_INDICATORS = ",[]{}"
+
+export class YamlParser {
+  private src: string
+  private pos = 0
+  private document: YamlDocument
+  private anchors = new Map<string, YamlNode>()
+
+  private constructor(content: string, file?: string) {
+    this.src = content.replace(/\r\n?/g, "\n")
+    this.document = new YamlDocument(this.src, null, file)
+  }
+
+  // `file` names an included file so every range points back at it
+  static parseDocument(content: string, file?: string): YamlDocument {
+    const parser = new YamlParser(content, file)
+    return new YamlDocument(parser.src, parser.parseRoot(), file)
+  }
+
   static parse(content: string): any {
-    try {
-      // Remove comments and empty lines
-      const lines = content
-        .split('\n')
-        .map(line => line.replace(/#.*$/, '').trimEnd())
-        .filter(line => line.trim() !== '')
-
-      const result: any = {}
-      const stack: Array<{ obj: any; indent: number }> = [{ obj: result, indent: -1 }]
-      
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i]
-        const indent = line.length - line.trimStart().length
-        const trimmed = line.trim()
-        
-        if (!trimmed) continue
-        
-        // Pop stack until we find the right parent
-        while (stack.length > 1 && stack[stack.length - 1].indent >= indent) {
-          stack.pop()
-        }
-        
-        const parent = stack[stack.length - 1].obj
-        
-        if (trimmed.includes(':')) {
-          const colonIndex = trimmed.indexOf(':')
-          const key = trimmed.substring(0, colonIndex).trim()
-          const value = trimmed.substring(colonIndex + 1).trim()
-          
-          if (value === '') {
-            // Object or array
-            const nextLine = i + 1 < lines.length ? lines[i + 1] : ''
-            const nextIndent = nextLine.length - nextLine.trimStart().length
-            
-            if (nextLine.trim().startsWith('-')) {
-              // Array
-              parent[key] = []
-              stack.push({ obj: parent[key], indent })
-            } else if (nextIndent > indent) {
-              // Object
-              parent[key] = {}
-              stack.push({ obj: parent[key], indent })
-            } else {
-              parent[key] = null
-            }
-          } else {
-            // Simple value
-            parent[key] = this.parseValue(value)
+    return YamlParser.parseDocument(content).toJS()
+  }
+
+  // A stream of several documents becomes a sequence with one item per non-empty document,
+  // so paths into it start with the document's index
+  private parseRoot(): YamlNode | null {
+    const documents: YamlNode[] = []
+    this.skipToContent()
+
+    while (!this.atEnd()) {
+      const start = this.pos
+      while (!this.atEnd() && this.src[this.pos] === "%" && this.column() === 0) {
+        this.skipLine()
+        this.skipToContent()
+      }
+
+      if (this.atDocumentMarker("---")) {
+        this.pos += 3
+        this.skipToContent()
+      }
+
+      if (!this.atEnd() && !this.atDocumentMarker("...") && !this.atDocumentMarker("---")) {
+        documents.push(this.parseBlockNode(-1, "root"))
+        this.skipToContent()
+      }
+
+      // Anchors only reach the end of their document
+      this.anchors.clear()
+      let closed = false
+      if (this.atDocumentMarker("...")) {
+        this.pos += 3
+        this.skipToContent()
+        closed = true
+      }
+
+      if ((!this.atEnd() && !closed && !this.atDocumentMarker("---")) || this.pos === start) {
+        this.fail("Unexpected content after the end of the document")
+      }
+    }
+
+    if (documents.length <= 1) return documents[0] ?? null
+    return {
+      kind: "seq",
+      items: documents,
+      flow: false,
+      range: this.range(documents[0].range.start.offset, documents[documents.length - 1].range.end.offset),
+    }
+  }
+
+  // Block context
+
+  private parseBlockNode(parentIndent: number, context: BlockContext): YamlNode {
+    const props = this.parseProperties()
+
+    if (props && this.atLineEnd()) {
+      this.skipToContent()
+      const indent = this.column()
+      const sameIndentSequence = context === "value" && indent === parentIndent && this.atSequenceEntry()
+      if (this.atEnd() || this.atAnyDocumentMarker() || (indent <= parentIndent && !sameIndentSequence)) {
+        return this.applyProperties(this.emptyScalar(props.start), props)
+      }
+      return this.applyProperties(this.parseBlockNode(parentIndent, "root"), props)
+    }
+
+    const ch = this.src[this.pos]
+    let node: YamlNode
+
+    if (this.atSequenceEntry()) {
+      if (context === "value") this.fail("Block sequence entries are not allowed on the same line as a mapping key")
+      node = this.parseBlockSequence(this.column())
+    } else if (ch === "|" || ch === ">") {
+      node = this.parseBlockScalar(parentIndent)
+    } else if (context !== "value" && this.looksLikeMappingKey()) {
+      node = this.parseBlockMapping(this.column())
+    } else if (ch === "*") {
+      node = this.parseAlias()
+      this.expectLineEnd()
+    } else if (ch === "[" || ch === "{") {
+      node = this.parseFlowCollection()
+      this.expectLineEnd()
+    } else if (ch === '"' || ch === "'") {
+      node = this.parseQuotedScalar(parentIndent)
+      this.expectLineEnd()
+    } else {
+      node = this.parsePlainScalar(parentIndent, false)
+      if (context === "value" && this.src[this.pos] === ":" && this.isBlankAt(this.pos + 1)) {
+        this.fail("Mapping values are not allowed here")
+      }
+    }
+
+    return props ? this.applyProperties(node, props) : node
+  }
+
+  private parseBlockMapping(indent: number): YamlMap {
+    const start = this.pos
+    const items: YamlPair[] = []
+    let end = start
+
+    while (true) {
+      if (this.src[this.pos] === "?" && this.isBlankAt(this.pos + 1)) {
+        this.fail("Explicit mapping keys are not supported")
+      }
+
+      const keyProps = this.parseProperties()
+      let key: YamlNode
+      const ch = this.src[this.pos]
+      if (ch === '"' || ch === "'") {
+        key = this.parseQuotedScalar(indent, true)
+      } else if (ch === "*") {
+        key = this.parseAlias()
+      } else {
+        key = this.parsePlainScalar(indent, true)
+      }
+      if (keyProps) key = this.applyProperties(key, keyProps)
+
+      this.skipInlineSpace()
+      if (this.src[this.pos] !== ":") this.fail("Expected ':' after mapping key")
+      this.pos++
+      this.ensureUniqueKey(items, key)
+
+      const value = this.parseBlockValue(indent)
+      end = value ? value.range.end.offset : this.pos
+      items.push({ key, value, range: this.range(key.range.start.offset, Math.max(end, key.range.end.offset)) })
+
+      this.skipToContent()
+      if (this.atEnd() || this.atAnyDocumentMarker()) break
+      const column = this.column()
+      if (column < indent) break
+      if (column > indent) this.fail("Bad indentation of a mapping entry")
+      if (this.atSequenceEntry()) this.fail("Unexpected sequence entry inside a mapping")
+    }
+
+    return { kind: "map", items, flow: false, range: this.range(start, end) }
+  }
+
+  private parseBlockValue(indent: number): YamlNode | null {
+    this.skipInlineSpace()
+
+    if (this.atLineEnd()) {
+      this.skipToContent()
+      if (this.atEnd() || this.atAnyDocumentMarker()) return null
+      const column = this.column()
+      if (column > indent) return this.parseBlockNode(indent, "root")
+      if (column === indent && this.atSequenceEntry()) return this.parseBlockSequence(column)
+      return null
+    }
+
+    return this.parseBlockNode(indent, "value")
+  }
+
+  private parseBlockSequence(indent: number): YamlSeq {
+    const start = this.pos
+    const items: YamlNode[] = []
+    let end = start
+
+    while (true) {
+      const entryStart = this.pos
+      this.pos++
+      this.skipInlineSpace()
+
+      let item: YamlNode
+      if (this.atLineEnd()) {
+        this.skipToContent()
+        if (this.atEnd() || this.atAnyDocumentMarker() || this.column() <= indent) {
+          item = this.emptyScalar(entryStart + 1)
+        } else {
+          item = this.parseBlockNode(indent, "root")
+        }
+      } else {
+        item = this.parseBlockNode(indent, "entry")
+      }
+      items.push(item)
+      end = Math.max(item.range.end.offset, entryStart + 1)
+
+      this.skipToContent()
+      if (this.atEnd() || this.atAnyDocumentMarker()) break
+      const column = this.column()
+      if (column < indent) break
+      if (column === indent) {
+        if (this.atSequenceEntry()) continue
+        break
+      }
+      this.fail("Bad indentation of a sequence entry")
+    }
+
+    return { kind: "seq", items, flow: false, range: this.range(start, end) }
+  }
+
+  private parseBlockScalar(parentIndent: number): YamlScalar {
+    const start = this.pos
+    const style: YamlScalarStyle = this.src[this.pos] === "|" ? "literal" : "folded"
+    this.pos++
+
+    let chomping: "clip" | "strip" | "keep" = "clip"
+    let explicitIndent = 0
+    for (let i = 0; i < 2; i++) {
+      const ch = this.src[this.pos]
+      if (ch === "-" || ch === "+") {
+        chomping = ch === "-" ? "strip" : "keep"
+        this.pos++
+      } else if (ch >= "1" && ch <= "9") {
+        explicitIndent = Number(ch)
+        this.pos++
+      }
+    }
+    this.expectLineEnd()
+    this.skipLine()
+
+    const baseIndent = Math.max(parentIndent, 0)
+    let contentIndent = explicitIndent ? baseIndent + explicitIndent : -1
+    const lines: Array<{ text: string; sourceOffset: number }> = []
+    let lastContentEnd = this.pos - 1
+
+    while (this.pos < this.src.length) {
+      const lineStart = this.pos
+      const lineEnd = this.lineEndAt(lineStart)
+      const line = this.src.slice(lineStart, lineEnd)
+      const leading = line.length - line.replace(/^ */, "").length
+      const isEmpty = line.trim() === ""
+
+      if (contentIndent === -1 && !isEmpty) {
+        if (leading <= parentIndent) break
+        contentIndent = leading
+      }
+
+      if (!isEmpty && leading < contentIndent) break
+      if (this.isDocumentMarkerAt(lineStart) && contentIndent <= 0) break
+
+      const textStart = Math.min(Math.max(contentIndent, 0), line.length)
+      lines.push({ text: isEmpty && contentIndent === -1 ? "" : line.slice(textStart), sourceOffset: lineStart + textStart })
+      if (!isEmpty) lastContentEnd = lineEnd
+      this.pos = lineEnd < this.src.length ? lineEnd + 1 : lineEnd
+    }
+
+    // Trailing empty lines belong to chomping, not content
+    let trailingEmpty = 0
+    while (lines.length > 0 && lines[lines.length - 1].text.trim() === "") {
+      lines.pop()
+      trailingEmpty++
+    }
+
+    const segments: ScalarSegment[] = []
+    let text = ""
+    if (style === "literal") {
+      lines.forEach((line, index) => {
+        if (index > 0) text += "\n"
+        segments.push({ textOffset: text.length, sourceOffset: line.sourceOffset })
+        text += line.text
+      })
+    } else {
+      let pendingBreaks = 0
+      let previousMoreIndented = false
+      let first = true
+      lines.forEach((line) => {
+        if (line.text === "" || line.text.trim() === "") {
+          pendingBreaks++
+          return
+        }
+        const moreIndented = /^[ \t]/.test(line.text)
+        if (first) {
+          text += "\n".repeat(pendingBreaks)
+        } else if (pendingBreaks === 0) {
+          text += moreIndented || previousMoreIndented ? "\n" : " "
+        } else {
+          text += "\n".repeat(pendingBreaks + (moreIndented || previousMoreIndented ? 1 : 0))
+        }
+        segments.push({ textOffset: text.length, sourceOffset: line.sourceOffset })
+        text += line.text
+        pendingBreaks = 0
+        previousMoreIndented = moreIndented
+        first = false
+      })
+    }
+
+    if (text.length > 0) {
+      if (chomping === "clip") text += "\n"
+      if (chomping === "keep") text += "\n".repeat(trailingEmpty + 1)
+    } else if (chomping === "keep") {
+      text += "\n".repeat(trailingEmpty)
+    }
+
+    if (segments.length === 0) segments.push({ textOffset: 0, sourceOffset: start })
+
+    return {
+      kind: "scalar",
+      value: text,
+      text,
+      style,
+      segments,
+      range: this.range(start, Math.max(lastContentEnd, start + 1)),
+    }
+  }
+
+  // Scalars
+
+  private parsePlainScalar(parentIndent: number, isKey: boolean, inFlow = false): YamlScalar {
+    const start = this.pos
+    const segments: ScalarSegment[] = [{ textOffset: 0, sourceOffset: start }]
+    let text = this.readPlainLine(inFlow)
+    let end = start + text.length
+
+    if (text === "") this.fail("Unexpected character")
+
+    if (!isKey && !inFlow) {
+      // Multi-line plain scalars continue on more-indented lines
+      while (true) {
+        const save = this.pos
+        const lineEnd = this.lineEndAt(this.pos)
+        if (this.src.slice(this.pos, lineEnd).trim() !== "") break
+        let breaks = 0
+        let cursor = this.pos
+        let nextContent = -1
+        while (cursor < this.src.length) {
+          const nextLineStart = this.lineEndAt(cursor) + 1
+          if (nextLineStart > this.src.length) break
+          breaks++
+          const nextLineEnd = this.lineEndAt(nextLineStart)
+          const line = this.src.slice(nextLineStart, nextLineEnd)
+          if (line.trim() === "") {
+            cursor = nextLineStart
+            continue
           }
-        } else if (trimmed.startsWith('-')) {
-          // Array item
-          const value = trimmed.substring(1).trim()
-          if (!Array.isArray(parent)) {
-            throw new Error(`Expected array but found object at line ${i + 1}`)
+          const leading = line.length - line.trimStart().length
+          if (leading > parentIndent && !line.trimStart().startsWith("#") && !this.isDocumentMarkerAt(nextLineStart)) {
+            nextContent = nextLineStart + leading
           }
-          
-          if (value.includes(':')) {
-            // Object in array
-            const obj: any = {}
-            parent.push(obj)
-            stack.push({ obj, indent })
-            
-            const colonIndex = value.indexOf(':')
-            const key = value.substring(0, colonIndex).trim()
-            const val = value.substring(colonIndex + 1).trim()
-            obj[key] = val === '' ? null : this.parseValue(val)
-          } else {
-            parent.push(this.parseValue(value))
+          break
+        }
+        if (nextContent === -1) {
+          this.pos = save
+          break
+        }
+        this.pos = nextContent
+        text += breaks > 1 ? "\n".repeat(breaks - 1) : " "
+        segments.push({ textOffset: text.length, sourceOffset: this.pos })
+        const continuation = this.readPlainLine(false)
+        text += continuation
+        end = this.pos
+      }
+    }
+
+    return {
+      kind: "scalar",
+      value: resolvePlainScalar(text),
+      text,
+      style: "plain",
+      segments,
+      range: this.range(start, end),
+    }
+  }
+
+  // Reads a plain scalar up to the end of the current line and trims trailing spaces
+  private readPlainLine(inFlow: boolean): string {
+    const start = this.pos
+    let end = start
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos]
+      if (ch === "\n") break
+      if (ch === ":" && (this.isBlankAt(this.pos + 1) || (inFlow && FLOW_INDICATORS.includes(this.src[this.pos + 1] ?? "")))) break
+      if (ch === "#" && this.pos > start && /[ \t]/.test(this.src[this.pos - 1])) break
+      if (inFlow && FLOW_INDICATORS.includes(ch)) break
+      this.pos++
+      if (ch !== " " && ch !== "\t") end = this.pos
+    }
+    this.pos = end
+    return this.src.slice(start, end)
+  }
+
+  private parseQuotedScalar(parentIndent: number, isKey = false): YamlScalar {
+    const start = this.pos
+    const quote = this.src[this.pos]
+    const style: YamlScalarStyle = quote === '"' ? "double-quoted" : "single-quoted"
+    this.pos++
+
+    let text = ""
+    const segments: ScalarSegment[] = [{ textOffset: 0, sourceOffset: this.pos }]
+
+    while (true) {
+      if (this.pos >= this.src.length) this.fail("Unterminated quoted string", start)
+      const ch = this.src[this.pos]
+
+      if (ch === quote) {
+        if (quote === "'" && this.src[this.pos + 1] === "'") {
+          text += "'"
+          this.pos += 2
+          segments.push({ textOffset: text.length, sourceOffset: this.pos })
+          continue
+        }
+        this.pos++
+        break
+      }
+
+      if (ch === "\\" && quote === '"') {
+        const next = this.src[this.pos + 1]
+        if (next === "\n") {
+          this.pos += 2
+          while (this.src[this.pos] === " " || this.src[this.pos] === "\t") this.pos++
+        } else {
+          const [value, length] = this.readEscape(this.pos)
+          text += value
+          this.pos += length
+        }
+        segments.push({ textOffset: text.length, sourceOffset: this.pos })
+        continue
+      }
+
+      if (ch === "\n") {
+        if (isKey) this.fail("Mapping keys cannot span multiple lines", start)
+        // Fold line breaks: a single break becomes a space, blank lines become newlines
+        text = text.replace(/[ \t]+$/, "")
+        let breaks = 0
+        while (this.src[this.pos] === "\n") {
+          breaks++
+          this.pos++
+          while (this.src[this.pos] === " " || this.src[this.pos] === "\t") this.pos++
+        }
+        if (this.pos < this.src.length && this.column() <= parentIndent && this.src[this.pos] !== quote) {
+          this.fail("Bad indentation in a multi-line quoted string")
+        }
+        text += breaks > 1 ? "\n".repeat(breaks - 1) : " "
+        segments.push({ textOffset: text.length, sourceOffset: this.pos })
+        continue
+      }
+
+      text += ch
+      this.pos++
+    }
+
+    return {
+      kind: "scalar",
+      value: text,
+      text,
+      style,
+      segments,
+      range: this.range(start, this.pos),
+    }
+  }
+
+  private readEscape(offset: number): [string, number] {
+    const code = this.src[offset + 1]
+    const simple: Record<string, string> = {
+      "0": "\0",
+      a: "\x07",
+      b: "\b",
+      t: "\t",
+      "\t": "\t",
+      n: "\n",
+      v: "\v",
+      f: "\f",
+      r: "\r",
+      e: "\x1b",
+      " ": " ",
+      '"': '"',
+      "/": "/",
+      "\\": "\\",
+      N: "\x85",
+      _: "\xa0",
+      L: " ",
+      P: " ",
+    }
+    if (code in simple) return [simple[code], 2]
+
+    const hexLength = code === "x" ? 2 : code === "u" ? 4 : code === "U" ? 8 : 0
+    if (hexLength > 0) {
+      const hex = this.src.slice(offset + 2, offset + 2 + hexLength)
+      if (hex.length === hexLength && /^[0-9a-fA-F]+$/.test(hex)) {
+        return [String.fromCodePoint(parseInt(hex, 16)), 2 + hexLength]
+      }
+    }
+
+    this.fail(`Unknown escape sequence "\\${code ?? ""}"`, offset)
+  }
+
+  private parseAlias(): YamlAlias {
+    const start = this.pos
+    this.pos++
+    const name = this.readAnchorName()
+    if (!name) this.fail("Alias name expected")
+    const target = this.anchors.get(name)
+    if (!target) this.fail(`Unknown alias "*${name}"`, start)
+    return { kind: "alias", name, target, range: this.range(start, this.pos) }
+  }
+
+  // Flow context
+
+  private parseFlowCollection(): YamlMap | YamlSeq {
+    const start = this.pos
+    const open = this.src[this.pos]
+    const close = open === "[" ? "]" : "}"
+    this.pos++
+
+    const seqItems: YamlNode[] = []
+    const mapItems: YamlPair[] = []
+
+    while (true) {
+      this.skipFlowSpace()
+      if (this.atEnd()) this.fail(`Unterminated flow collection, expected '${close}'`, start)
+      if (this.src[this.pos] === close) {
+        this.pos++
+        break
+      }
+
+      const entryStart = this.pos
+      const key = this.parseFlowNode()
+      this.skipFlowSpace()
+
+      if (this.src[this.pos] === ":") {
+        this.pos++
+        this.skipFlowSpace()
+        let value: YamlNode | null = null
+        if (this.src[this.pos] !== "," && this.src[this.pos] !== close) {
+          value = this.parseFlowNode()
+        }
+        const end = value ? value.range.end.offset : this.pos
+        const pair = { key, value, range: this.range(entryStart, end) }
+        if (open === "{") {
+          this.ensureUniqueKey(mapItems, key)
+          mapItems.push(pair)
+        } else {
+          seqItems.push({ kind: "map", items: [pair], flow: true, range: pair.range })
+        }
+      } else if (open === "{") {
+        mapItems.push({ key, value: null, range: key.range })
+      } else {
+        seqItems.push(key)
+      }
+
+      this.skipFlowSpace()
+      if (this.src[this.pos] === ",") {
+        this.pos++
+      } else if (this.src[this.pos] !== close) {
+        this.fail(`Expected ',' or '${close}' in flow collection`)
+      }
+    }
+
+    const range = this.range(start, this.pos)
+    return open === "["
+      ? { kind: "seq", items: seqItems, flow: true, range }
+      : { kind: "map", items: mapItems, flow: true, range }
+  }
+
+  private parseFlowNode(): YamlNode {
+    const props = this.parseProperties()
+    if (props) this.skipFlowSpace()
+
+    const ch = this.src[this.pos]
+    let node: YamlNode
+    if (ch === "[" || ch === "{") {
+      node = this.parseFlowCollection()
+    } else if (ch === "*") {
+      node = this.parseAlias()
+    } else if (ch === '"' || ch === "'") {
+      node = this.parseQuotedScalar(-1)
+    } else if (props && (ch === "," || ch === "]" || ch === "}" || ch === ":")) {
+      node = this.emptyScalar(this.pos)
+    } else {
+      node = this.parsePlainScalar(-1, false, true)
+    }
+
+    return props ? this.applyProperties(node, props) : node
+  }
+
+  // Properties (anchors and tags)
+
+  private parseProperties(): NodeProperties | null {
+    const start = this.pos
+    let anchor: string | undefined
+    let anchorStart: number | undefined
+    let tag: string | undefined
+
+    while (true) {
+      const ch = this.src[this.pos]
+      if (ch === "&" && anchor === undefined) {
+        anchorStart = this.pos
+        this.pos++
+        anchor = this.readAnchorName()
+        if (!anchor) this.fail("Anchor name expected")
+      } else if (ch === "!" && tag === undefined) {
+        const tagStart = this.pos
+        if (this.src[this.pos + 1] === "<") {
+          const close = this.src.indexOf(">", this.pos)
+          if (close === -1) this.fail("Unterminated verbatim tag")
+          this.pos = close + 1
+        } else {
+          while (this.pos < this.src.length && !/[\s,\[\]{}]/.test(this.src[this.pos])) this.pos++
+        }
+        tag = this.src.slice(tagStart, this.pos)
+      } else {
+        break
+      }
+      this.skipInlineSpace()
+    }
+
+    return anchor !== undefined || tag !== undefined ? { anchor, anchorStart, tag, start } : null
+  }
+
+  private readAnchorName(): string {
+    const start = this.pos
+    while (this.pos < this.src.length && !/[\s,\[\]{}]/.test(this.src[this.pos])) this.pos++
+    return this.src.slice(start, this.pos)
+  }
+
+  private applyProperties<T extends YamlNode>(node: T, props: NodeProperties): T {
+    if (props.anchor !== undefined) {
+      node.anchor = props.anchor
+      node.anchorRange = this.range(props.anchorStart!, props.anchorStart! + props.anchor.length + 1)
+      // Later definitions of the same name shadow earlier ones for subsequent aliases
+      this.anchors.set(props.anchor, node)
+    }
+    if (props.tag !== undefined) {
+      node.tag = props.tag
+      if (node.kind === "scalar") node.value = resolveTaggedScalar(node, props.tag)
+    }
+    node.range = this.range(Math.min(props.start, node.range.start.offset), node.range.end.offset)
+    return node
+  }
+
+  // Helpers
+
+  private emptyScalar(offset: number): YamlScalar {
+    return {
+      kind: "scalar",
+      value: null,
+      text: "",
+      style: "plain",
+      segments: [{ textOffset: 0, sourceOffset: offset }],
+      range: this.range(offset, offset),
+    }
+  }
+
+  private ensureUniqueKey(items: YamlPair[], key: YamlNode): void {
+    const name = nodeKey(key)
+    if (name !== "<<" && items.some((pair) => nodeKey(pair.key) === name)) {
+      this.fail(`Duplicated mapping key "${name}"`, key.range.start.offset)
+    }
+  }
+
+  private looksLikeMappingKey(): boolean {
+    let cursor = this.pos
+    const ch = this.src[cursor]
+
+    if (ch === "&" || ch === "!") {
+      while (cursor < this.src.length && !/[ \t\n]/.test(this.src[cursor])) cursor++
+      while (this.src[cursor] === " " || this.src[cursor] === "\t") cursor++
+    }
+
+    if (this.src[cursor] === '"' || this.src[cursor] === "'") {
+      const quote = this.src[cursor]
+      cursor++
+      while (cursor < this.src.length && this.src[cursor] !== "\n") {
+        if (this.src[cursor] === "\\" && quote === '"') {
+          cursor += 2
+          continue
+        }
+        if (this.src[cursor] === quote) {
+          if (quote === "'" && this.src[cursor + 1] === "'") {
+            cursor += 2
+            continue
           }
+          break
         }
+        cursor++
       }
-      
-      return result
-    } catch (error) {
-      throw new Error(`YAML parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    }
-  }
-  
-  private static parseValue(value: string): any {
-    // Handle quoted strings
-    if ((value.startsWith('"') && value.endsWith('"')) || 
-        (value.startsWith("'") && value.endsWith("'"))) {
-      return value.slice(1, -1)
-    }
-    
-    // Handle booleans
-    if (value === 'true') return true
-    if (value === 'false') return false
-    
-    // Handle null/undefined
-    if (value === 'null' || value === '~' || value === '') return null
-    
-    // Handle numbers
-    if (/^-?\d+$/.test(value)) return parseInt(value, 10)
-    if (/^-?\d*\.\d+$/.test(value)) return parseFloat(value)
-    
-    // Handle arrays in single line
-    if (value.startsWith('[') && value.endsWith(']')) {
-      const items = value.slice(1, -1).split(',').map(item => item.trim())
-      return items.map(item => this.parseValue(item))
-    }
-    
-    // Return as string
-    return value
+      if (this.src[cursor] !== quote) return false
+      cursor++
+      while (this.src[cursor] === " " || this.src[cursor] === "\t") cursor++
+      return this.src[cursor] === ":" && this.isBlankAt(cursor + 1)
+    }
+
+    if (this.src[cursor] === "[" || this.src[cursor] === "{" || this.src[cursor] === "#") return false
+
+    const lineStart = cursor
+    while (cursor < this.src.length && this.src[cursor] !== "\n") {
+      const current = this.src[cursor]
+      if (current === ":" && this.isBlankAt(cursor + 1)) return true
+      if (current === "#" && cursor > lineStart && /[ \t]/.test(this.src[cursor - 1])) return false
+      cursor++
+    }
+    return false
+  }
+
+  private atSequenceEntry(): boolean {
+    return this.src[this.pos] === "-" && this.isBlankAt(this.pos + 1)
+  }
+
+  private isBlankAt(offset: number): boolean {
+    const ch = this.src[offset]
+    return ch === undefined || ch === " " || ch === "\t" || ch === "\n"
+  }
+
+  private atLineEnd(): boolean {
+    let cursor = this.pos
+    while (this.src[cursor] === " " || this.src[cursor] === "\t") cursor++
+    return cursor >= this.src.length || this.src[cursor] === "\n" || this.src[cursor] === "#"
+  }
+
+  private expectLineEnd(): void {
+    this.skipInlineSpace()
+    if (!this.atLineEnd()) this.fail("Unexpected content after value")
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.src.length
+  }
+
+  private isDocumentMarkerAt(offset: number): boolean {
+    const isLineStart = offset === 0 || this.src[offset - 1] === "\n"
+    const marker = this.src.slice(offset, offset + 3)
+    return isLineStart && (marker === "---" || marker === "...") && this.isBlankAt(offset + 3)
+  }
+
+  private atDocumentMarker(marker: "---" | "..."): boolean {
+    return this.isDocumentMarkerAt(this.pos) && this.src.startsWith(marker, this.pos)
+  }
+
+  private atAnyDocumentMarker(): boolean {
+    return this.isDocumentMarkerAt(this.pos)
+  }
+
+  private skipInlineSpace(): void {
+    while (this.src[this.pos] === " " || this.src[this.pos] === "\t") this.pos++
+  }
+
+  private skipLine(): void {
+    const end = this.lineEndAt(this.pos)
+    this.pos = end < this.src.length ? end + 1 : end
+  }
+
+  // Skips whitespace, line breaks and comments up to the next content character
+  private skipToContent(): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos]
+      if (ch === " " || ch === "\n") {
+        this.pos++
+      } else if (ch === "\t") {
+        if (this.onlyWhitespaceBefore(this.pos) && !this.restOfLineBlank(this.pos)) {
+          this.fail("Tabs are not allowed for indentation")
+        }
+        this.pos++
+      } else if (ch === "#") {
+        this.pos = this.lineEndAt(this.pos)
+      } else {
+        break
+      }
+    }
+  }
+
+  private skipFlowSpace(): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos]
+      if (ch === " " || ch === "\t" || ch === "\n") {
+        this.pos++
+      } else if (ch === "#" && (this.pos === 0 || /\s/.test(this.src[this.pos - 1]))) {
+        this.pos = this.lineEndAt(this.pos)
+      } else {
+        break
+      }
+    }
+  }
+
+  private onlyWhitespaceBefore(offset: number): boolean {
+    for (let i = offset - 1; i >= 0 && this.src[i] !== "\n"; i--) {
+      if (this.src[i] !== " " && this.src[i] !== "\t") return false
+    }
+    return true
+  }
+
+  private restOfLineBlank(offset: number): boolean {
+    const rest = this.src.slice(offset, this.lineEndAt(offset)).trim()
+    return rest === "" || rest.startsWith("#")
+  }
+
+  private lineEndAt(offset: number): number {
+    const end = this.src.indexOf("\n", offset)
+    return end === -1 ? this.src.length : end
+  }
+
+  private column(): number {
+    return this.document.positionAt(this.pos).column - 1
+  }
+
+  private range(start: number, end: number): SourceRange {
+    return this.document.rangeAt(start, end)
+  }
+
+  private fail(message: string, offset = this.pos): never {
+    const position = this.document.positionAt(offset)
+    throw new YamlSyntaxError(message, { line: position.line, column: position.column })
+  }
+}
+
+// YAML 1.2 core schema resolution for untagged plain scalars
+function resolvePlainScalar(text: string): YamlScalarValue {
+  if (text === "" || text === "~" || /^(null|Null|NULL)$/.test(text)) return null
+  if (/^(true|True|TRUE)$/.test(text)) return true
+  if (/^(false|False|FALSE)$/.test(text)) return false
+  if (/^[-+]?[0-9]+$/.test(text)) return parseInt(text, 10)
+  if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8)
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text.slice(2), 16)
+  if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(text)) return parseFloat(text)
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) return text.startsWith("-") ? -Infinity : Infinity
+  if (/^\.(nan|NaN|NAN)$/.test(text)) return NaN
+  return text
+}
+
+function resolveTaggedScalar(scalar: YamlScalar, tag: string): YamlScalarValue {
+  switch (tag) {
+    case "!!str":
+      return scalar.text
+    case "!!int":
+      return parseInt(scalar.text, 10)
+    case "!!float":
+      return parseFloat(scalar.text)
+    case "!!bool":
+      return /^(true|True|TRUE)$/.test(scalar.text)
+    case "!!null":
+      return null
+    default:
+      return scalar.value
   }
 }